@@ -0,0 +1,17 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/tests/setup.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', isolatedModules: true, esModuleInterop: true, experimentalDecorators: true } }]
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    '^@maestro/shared$': '<rootDir>/../../packages/shared/src',
+    '^@maestro/shared/(.*)$': '<rootDir>/../../packages/shared/src/$1',
+    '^@maestro/protocol-adapters$': '<rootDir>/../../packages/protocol-adapters/src',
+    '^@maestro/protocol-adapters/(.*)$': '<rootDir>/../../packages/protocol-adapters/src/$1'
+  }
+};
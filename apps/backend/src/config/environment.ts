@@ -113,6 +113,148 @@ const envSchema = Joi.object({
     .default(10000), // 10 seconds
   DEVICE_MAX_RETRIES: Joi.number()
     .default(3),
+  ADAPTER_PLUGINS: Joi.string()
+    .allow('')
+    .default('')
+    .description('Comma-separated adapter plugin modules to load'),
+  ADAPTER_CONFIG_PATH: Joi.string()
+    .allow('')
+    .description('JSON file with adapter configurations keyed by protocol'),
+  SIMULATOR_ENABLED: Joi.boolean()
+    .default(false)
+    .description('Start the device simulator (demo household) alongside the other adapters'),
+  SIMULATOR_SEED: Joi.number()
+    .integer()
+    .default(1),
+  SIMULATOR_TIME_SCALE: Joi.number()
+    .positive()
+    .default(1), // Simulated seconds per real second
+  
+  // Energy measurements
+  MEASUREMENT_STORE: Joi.string()
+    .valid('mongo', 'influxdb')
+    .default('mongo')
+    .description('Backend for energy measurements'),
+  INFLUXDB_URL: Joi.string()
+    .uri()
+    .allow(''),
+  INFLUXDB_TOKEN: Joi.string()
+    .allow(''),
+  INFLUXDB_ORG: Joi.string()
+    .default('maestro'),
+  INFLUXDB_BUCKET: Joi.string()
+    .default('energy-data'),
+  INFLUXDB_BATCH_SIZE: Joi.number()
+    .integer()
+    .positive()
+    .default(5000), // Points per write request
+  INFLUXDB_MAX_RETRIES: Joi.number()
+    .integer()
+    .min(0)
+    .default(3),
+  ENERGY_ROLLUP_INTERVAL: Joi.number()
+    .default(300000), // 5 minutes
+  MEASUREMENT_RETENTION_DAYS: Joi.number()
+    .integer()
+    .min(0)
+    .default(365) // Raw points older than this are deleted once rolled up, 0 keeps them
+    .description('Retention of raw energy measurements in days'),
+  ENERGY_FLOW_INTERVAL: Joi.number()
+    .min(1000)
+    .default(10000), // 10 seconds
+  ENERGY_FLOW_PERSIST_INTERVAL: Joi.number()
+    .min(0)
+    .default(60000), // 1 minute, 0 only pushes snapshots
+  VIRTUAL_METER_INTERVAL: Joi.number()
+    .min(1000)
+    .default(30000), // 30 seconds
+  
+  // Dynamic energy prices
+  PRICE_PROVIDER: Joi.string()
+    .valid('none', 'entsoe', 'file')
+    .default('none')
+    .description('Source of scheduled day-ahead price fetches'),
+  PRICE_ZONES: Joi.string()
+    .allow('')
+    .default(''), // Comma-separated bidding zones, e.g. NL,DE-LU
+  PRICE_FETCH_INTERVAL: Joi.number()
+    .default(3600000), // 1 hour
+  PRICE_IMPORT_DIR: Joi.string()
+    .default('./data/prices'),
+  ENTSOE_API_URL: Joi.string()
+    .uri()
+    .default('https://web-api.tp.entsoe.eu/api'),
+  ENTSOE_API_TOKEN: Joi.string()
+    .allow(''),
+  
+  // Grid carbon intensity
+  CARBON_PROVIDER: Joi.string()
+    .valid('none', 'electricitymaps', 'file')
+    .default('none')
+    .description('Source of scheduled carbon intensity fetches'),
+  CARBON_ZONES: Joi.string()
+    .allow('')
+    .default(''), // Comma-separated grid zones, e.g. NL,DE
+  CARBON_DEFAULT_ZONE: Joi.string()
+    .allow('')
+    .default(''), // Zone of users without a carbon or price zone
+  CARBON_DEFAULT_INTENSITY: Joi.number()
+    .min(0)
+    .default(0.4), // kg CO2e/kWh for zones without data or a static value
+  CARBON_FETCH_INTERVAL: Joi.number()
+    .default(3600000), // 1 hour
+  CARBON_IMPORT_DIR: Joi.string()
+    .default('./data/carbon'),
+  ELECTRICITYMAPS_API_URL: Joi.string()
+    .uri()
+    .default('https://api.electricitymap.org/v3'),
+  ELECTRICITYMAPS_API_TOKEN: Joi.string()
+    .allow(''),
+  
+  // Energy reports
+  REPORT_SCHEDULE_INTERVAL: Joi.number()
+    .min(60000)
+    .default(3600000), // 1 hour
+  REPORT_DELAY: Joi.number()
+    .min(0)
+    .default(7200000), // 2 hours after a period ends, so late data is rolled up
+  
+  // Device schedules
+  SCHEDULER_INTERVAL: Joi.number()
+    .min(1000)
+    .default(30000), // 30 seconds
+  SCHEDULE_CATCH_UP: Joi.string()
+    .valid('skip', 'once', 'all')
+    .default('once'), // For schedules without their own policy
+  SCHEDULE_CATCH_UP_WINDOW: Joi.number()
+    .min(0)
+    .default(3600000), // Missed runs older than 1 hour are never caught up
+  
+  // Automation rules
+  AUTOMATION_INTERVAL: Joi.number()
+    .min(1000)
+    .default(30000), // 30 seconds between checks of time, sun and price triggers
+  AUTOMATION_REFRESH_INTERVAL: Joi.number()
+    .min(10000)
+    .default(300000), // 5 minutes; rules changed through the API are reloaded at once
+  
+  // Email delivery (SMTP); without a host nothing is emailed
+  SMTP_HOST: Joi.string()
+    .allow('')
+    .default(''),
+  SMTP_PORT: Joi.number()
+    .port()
+    .default(587),
+  SMTP_SECURE: Joi.boolean()
+    .default(false), // TLS from the start (port 465); otherwise STARTTLS when offered
+  SMTP_USER: Joi.string()
+    .allow('')
+    .default(''),
+  SMTP_PASSWORD: Joi.string()
+    .allow('')
+    .default(''),
+  EMAIL_FROM: Joi.string()
+    .default('Maestro <noreply@maestro.local>'),
   
   // Caching
   CACHE_TTL_DEVICE_STATUS: Joi.number()
@@ -229,6 +371,92 @@ export interface EnvironmentConfig {
     maxRetries: number;
   };
   
+  // Protocol adapters
+  adapters: {
+    plugins: string[];
+    configPath?: string | undefined;
+    simulator: {
+      enabled: boolean;
+      seed: number;
+      timeScale: number;
+    };
+  };
+  
+  // Energy measurements
+  measurements: {
+    store: 'mongo' | 'influxdb';
+    influxdb: {
+      url: string;
+      token: string;
+      org: string;
+      bucket: string;
+      batchSize: number;
+      maxRetries: number;
+    };
+    rollupInterval: number;
+    retentionDays: number;
+    flowInterval: number;
+    flowPersistInterval: number;
+    virtualMeterInterval: number;
+  };
+  
+  // Dynamic energy prices
+  prices: {
+    provider: 'none' | 'entsoe' | 'file';
+    zones: string[];
+    fetchInterval: number;
+    importDir: string;
+    entsoe: {
+      url: string;
+      token: string;
+    };
+  };
+  
+  // Grid carbon intensity
+  carbon: {
+    provider: 'none' | 'electricitymaps' | 'file';
+    zones: string[];
+    defaultZone: string;
+    defaultIntensity: number;
+    fetchInterval: number;
+    importDir: string;
+    electricityMaps: {
+      url: string;
+      token: string;
+    };
+  };
+  
+  // Energy reports
+  reports: {
+    scheduleInterval: number;
+    delay: number;
+  };
+  
+  // Device schedules
+  schedules: {
+    interval: number;
+    catchUp: 'skip' | 'once' | 'all';
+    catchUpWindow: number;
+  };
+  
+  // Automation rules
+  automations: {
+    interval: number;
+    refreshInterval: number;
+  };
+  
+  // Email delivery
+  email: {
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string;
+      password: string;
+    };
+    from: string;
+  };
+  
   // Caching
   cache: {
     ttl: {
@@ -335,6 +563,92 @@ export const config: EnvironmentConfig = {
     maxRetries: envVars.DEVICE_MAX_RETRIES,
   },
   
+  // Protocol adapters
+  adapters: {
+    plugins: envVars.ADAPTER_PLUGINS.split(',').map((plugin: string) => plugin.trim()).filter(Boolean),
+    configPath: envVars.ADAPTER_CONFIG_PATH || undefined,
+    simulator: {
+      enabled: envVars.SIMULATOR_ENABLED,
+      seed: envVars.SIMULATOR_SEED,
+      timeScale: envVars.SIMULATOR_TIME_SCALE,
+    },
+  },
+  
+  // Energy measurements
+  measurements: {
+    store: envVars.MEASUREMENT_STORE,
+    influxdb: {
+      url: envVars.INFLUXDB_URL || '',
+      token: envVars.INFLUXDB_TOKEN || '',
+      org: envVars.INFLUXDB_ORG,
+      bucket: envVars.INFLUXDB_BUCKET,
+      batchSize: envVars.INFLUXDB_BATCH_SIZE,
+      maxRetries: envVars.INFLUXDB_MAX_RETRIES,
+    },
+    rollupInterval: envVars.ENERGY_ROLLUP_INTERVAL,
+    retentionDays: envVars.MEASUREMENT_RETENTION_DAYS,
+    flowInterval: envVars.ENERGY_FLOW_INTERVAL,
+    flowPersistInterval: envVars.ENERGY_FLOW_PERSIST_INTERVAL,
+    virtualMeterInterval: envVars.VIRTUAL_METER_INTERVAL,
+  },
+  
+  // Dynamic energy prices
+  prices: {
+    provider: envVars.PRICE_PROVIDER,
+    zones: envVars.PRICE_ZONES.split(',').map((zone: string) => zone.trim()).filter(Boolean),
+    fetchInterval: envVars.PRICE_FETCH_INTERVAL,
+    importDir: envVars.PRICE_IMPORT_DIR,
+    entsoe: {
+      url: envVars.ENTSOE_API_URL,
+      token: envVars.ENTSOE_API_TOKEN || '',
+    },
+  },
+  
+  // Grid carbon intensity
+  carbon: {
+    provider: envVars.CARBON_PROVIDER,
+    zones: envVars.CARBON_ZONES.split(',').map((zone: string) => zone.trim()).filter(Boolean),
+    defaultZone: envVars.CARBON_DEFAULT_ZONE,
+    defaultIntensity: envVars.CARBON_DEFAULT_INTENSITY,
+    fetchInterval: envVars.CARBON_FETCH_INTERVAL,
+    importDir: envVars.CARBON_IMPORT_DIR,
+    electricityMaps: {
+      url: envVars.ELECTRICITYMAPS_API_URL,
+      token: envVars.ELECTRICITYMAPS_API_TOKEN || '',
+    },
+  },
+  
+  // Energy reports
+  reports: {
+    scheduleInterval: envVars.REPORT_SCHEDULE_INTERVAL,
+    delay: envVars.REPORT_DELAY,
+  },
+  
+  // Device schedules
+  schedules: {
+    interval: envVars.SCHEDULER_INTERVAL,
+    catchUp: envVars.SCHEDULE_CATCH_UP,
+    catchUpWindow: envVars.SCHEDULE_CATCH_UP_WINDOW,
+  },
+  
+  // Automation rules
+  automations: {
+    interval: envVars.AUTOMATION_INTERVAL,
+    refreshInterval: envVars.AUTOMATION_REFRESH_INTERVAL,
+  },
+  
+  // Email delivery
+  email: {
+    smtp: {
+      host: envVars.SMTP_HOST,
+      port: envVars.SMTP_PORT,
+      secure: envVars.SMTP_SECURE,
+      user: envVars.SMTP_USER,
+      password: envVars.SMTP_PASSWORD,
+    },
+    from: envVars.EMAIL_FROM,
+  },
+  
   // Caching
   cache: {
     ttl: {
@@ -143,6 +143,28 @@ const deviceIdSchema = Joi.string().min(5).max(50).alphanum().messages({
   'string.alphanum': 'Invalid device ID format'
 });
 
+/**
+ * Device schedule fields
+ */
+const scheduleCommandSchema = Joi.object({
+  command: Joi.string().min(1).max(50).required(),
+  parameters: Joi.object().default({}),
+});
+
+const scheduleSchemas = {
+  pattern: Joi.string().valid('once', 'daily', 'weekly', 'monthly', 'yearly', 'custom'),
+  timeOfDay: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).messages({
+    'string.pattern.base': '{{#label}} must be in HH:MM format',
+  }),
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).unique(), // 0 = Sunday
+  daysOfMonth: Joi.array().items(Joi.number().integer().min(1).max(31)).unique(),
+  // Runs at the start; the end command at endTime, default: the opposite of turn_on/turn_off
+  command: scheduleCommandSchema.keys({
+    endCommand: scheduleCommandSchema.optional(),
+  }),
+  catchUp: Joi.string().valid('skip', 'once', 'all'),
+};
+
 export const deviceSchemas = {
   // Device ID validation
   deviceId: deviceIdSchema,
@@ -176,6 +198,9 @@ export const deviceSchemas = {
   deviceCommand: Joi.object({
     command: Joi.string().min(1).max(50).required(),
     parameters: Joi.object().default({}),
+    priority: Joi.string().valid('low', 'normal', 'high', 'critical').optional(),
+    scheduledAt: Joi.date().iso().optional(),
+    ttl: Joi.number().integer().min(0).max(24 * 60 * 60 * 1000).optional(), // Wait up to this long for an offline device
   }),
   
   // Device update
@@ -193,6 +218,47 @@ export const deviceSchemas = {
       maxPowerDraw: Joi.number().positive().optional(),
     }).optional(),
   }),
+  
+  // Device schedules
+  createSchedule: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    enabled: Joi.boolean().default(true),
+    pattern: scheduleSchemas.pattern.required(),
+    startTime: scheduleSchemas.timeOfDay.required(),
+    endTime: scheduleSchemas.timeOfDay.optional(),
+    daysOfWeek: scheduleSchemas.daysOfWeek.optional(),
+    daysOfMonth: scheduleSchemas.daysOfMonth.optional(),
+    command: scheduleSchemas.command.required(),
+    timezone: Joi.string().max(50).optional(), // default: the user's time zone
+    validFrom: Joi.date().iso().optional(),
+    validUntil: Joi.date().iso().optional(),
+    catchUp: scheduleSchemas.catchUp.optional(), // default: SCHEDULE_CATCH_UP
+  }),
+  
+  // null clears an optional field
+  updateSchedule: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    enabled: Joi.boolean().optional(),
+    pattern: scheduleSchemas.pattern.optional(),
+    startTime: scheduleSchemas.timeOfDay.optional(),
+    endTime: scheduleSchemas.timeOfDay.allow(null).optional(),
+    daysOfWeek: scheduleSchemas.daysOfWeek.allow(null).optional(),
+    daysOfMonth: scheduleSchemas.daysOfMonth.allow(null).optional(),
+    command: scheduleSchemas.command.optional(),
+    timezone: Joi.string().max(50).optional(),
+    validFrom: Joi.date().iso().allow(null).optional(),
+    validUntil: Joi.date().iso().allow(null).optional(),
+    catchUp: scheduleSchemas.catchUp.allow(null).optional(),
+  }).min(1),
+  
+  scheduleParams: Joi.object({
+    id: commonSchemas.objectId.required(),
+    scheduleId: Joi.string().min(1).max(100).required(),
+  }),
+  
+  nextRunsQuery: Joi.object({
+    count: Joi.number().integer().min(1).max(100).default(10),
+  }),
 };
 
 /**
@@ -278,6 +344,139 @@ export const apiSchemas = {
   }),
 };
 
+/**
+ * Energy data validation schemas
+ */
+const energyRangeQuery = {
+  deviceId: Joi.string().max(1000).optional(), // comma-separated device IDs
+  start: commonSchemas.date.required(),
+  end: commonSchemas.date.greater(Joi.ref('start')).default(() => new Date()),
+  order: Joi.string().valid('asc', 'desc').default('asc'),
+};
+
+export const energySchemas = {
+  // Measurement series
+  measurementsQuery: apiSchemas.paginationQuery.keys({
+    ...energyRangeQuery,
+    resolution: Joi.string().valid('auto', 'raw', 'minute', 'hour', 'day', 'week', 'month').default('auto'),
+    limit: Joi.number().integer().min(1).max(1000).default(500),
+  }),
+
+  // Rolled-up statistics
+  statsQuery: apiSchemas.paginationQuery.keys({
+    ...energyRangeQuery,
+    period: Joi.string().valid('hour', 'day', 'week', 'month', 'year').default('day'),
+    groupBy: Joi.string().valid('device', 'room', 'location', 'floor', 'deviceType').optional(),
+  }),
+
+  // Meter tree check
+  meterTreeQuery: Joi.object({
+    tolerance: Joi.number().min(0).optional(), // W
+    relativeTolerance: Joi.number().min(0).max(1).optional(),
+  }),
+
+  // Virtual meter creation
+  createVirtualMeter: Joi.object({
+    deviceId: deviceIdSchema.required(),
+    name: Joi.string().min(1).max(100).required(),
+    formula: Joi.string().min(1).max(1000).required(),
+    description: Joi.string().max(500).optional(),
+    location: Joi.string().max(100).optional(),
+    room: Joi.string().max(50).optional(),
+    parentMeterId: Joi.string().max(100).optional(),
+  }),
+
+  // Meter update; a null parent detaches the device from the meter tree
+  updateMeter: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    formula: Joi.string().min(1).max(1000).optional(),
+    parentMeterId: Joi.string().max(100).allow(null).optional(),
+  }).min(1),
+
+  meterParams: Joi.object({
+    deviceId: Joi.string().max(100).required(),
+  }),
+
+  // Energy reports
+  reportsQuery: apiSchemas.paginationQuery.keys({
+    reportType: Joi.string().valid('daily', 'weekly', 'monthly', 'yearly', 'custom').optional(),
+  }),
+
+  // Report generation; standard reports cover the period containing `start` (default: now)
+  createReport: Joi.object({
+    reportType: Joi.string().valid('daily', 'weekly', 'monthly', 'yearly', 'custom').required(),
+    start: commonSchemas.date.when('reportType', { is: 'custom', then: Joi.required(), otherwise: Joi.optional() }),
+    end: Joi.when('reportType', {
+      is: 'custom',
+      then: commonSchemas.date.greater(Joi.ref('start')).required(),
+      otherwise: Joi.forbidden(),
+    }),
+    format: Joi.string().valid('json', 'csv', 'pdf').default('json'),
+  }),
+
+  reportParams: Joi.object({
+    reportId: commonSchemas.objectId.required(),
+  }),
+
+  reportDownloadQuery: Joi.object({
+    format: Joi.string().valid('json', 'csv', 'pdf').optional(), // default: the report's format
+  }),
+};
+
+/**
+ * Automation rule validation schemas; triggers, conditions and actions are
+ * checked in detail against the shared rule schemas by the automation service
+ */
+const automationRuleKeys = {
+  name: Joi.string().min(1).max(100),
+  description: Joi.string().max(500).allow(''),
+  enabled: Joi.boolean(),
+  timezone: Joi.string().max(64),
+  triggers: Joi.array().items(Joi.object().required()).min(1).max(20),
+  conditions: Joi.object(),
+  actions: Joi.array().items(Joi.object().required()).min(1).max(50),
+  cooldown: Joi.number().integer().min(0).max(86400),
+  trace: Joi.boolean(),
+};
+
+export const automationSchemas = {
+  rulesQuery: apiSchemas.paginationQuery.keys({
+    enabled: Joi.boolean().optional(),
+  }),
+
+  runsQuery: apiSchemas.paginationQuery,
+
+  ruleParams: Joi.object({
+    ruleId: commonSchemas.objectId.required(),
+  }),
+
+  createRule: Joi.object({
+    ...automationRuleKeys,
+    name: automationRuleKeys.name.required(),
+    triggers: automationRuleKeys.triggers.required(),
+    actions: automationRuleKeys.actions.required(),
+  }),
+
+  // Absent fields are left as they are; `conditions: null` removes the conditions
+  updateRule: Joi.object({
+    ...automationRuleKeys,
+    conditions: automationRuleKeys.conditions.allow(null),
+  }).min(1),
+
+  // Evaluate a saved rule as if one of its triggers fired (default: a manual run)
+  dryRun: Joi.object({
+    triggerIndex: Joi.number().integer().min(0).optional(),
+    values: Joi.object().optional(),
+  }),
+
+  // Evaluate an unsaved rule
+  dryRunRule: Joi.object({
+    rule: Joi.object().required(),
+    triggerIndex: Joi.number().integer().min(0).optional(),
+    values: Joi.object().optional(),
+  }),
+};
+
 /**
  * Auth-related validation schemas
  */
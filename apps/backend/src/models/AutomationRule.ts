@@ -0,0 +1,165 @@
+import { Schema, model, Document, Types } from 'mongoose';
+import {
+  AutomationRule as AutomationRuleType,
+  AutomationRun as AutomationRunType
+} from '@maestro/shared/types';
+
+/**
+ * MongoDB Document Interface for an automation rule
+ * Triggers, conditions and actions are validated against the shared schemas
+ * when a rule is saved and stored as they are
+ */
+export interface IAutomationRuleDocument extends Document, Omit<AutomationRuleType, '_id'> {
+  _id: Types.ObjectId;
+}
+
+/**
+ * MongoDB Document Interface for an automation run
+ * The trace of a rule evaluation: what fired it, how the conditions turned
+ * out and what each action did
+ */
+export interface IAutomationRunDocument extends Document, Omit<AutomationRunType, '_id'> {
+  _id: Types.ObjectId;
+}
+
+/**
+ * Automation Rule Schema
+ */
+const AutomationRuleSchema = new Schema<IAutomationRuleDocument>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  triggers: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  conditions: Schema.Types.Mixed,
+  actions: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  cooldown: {
+    type: Number,
+    default: 60,
+    min: 0
+  },
+  trace: {
+    type: Boolean,
+    default: false
+  },
+  lastTriggeredAt: Date,
+  runCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+/**
+ * Trace Step Schema
+ */
+const TraceStepSchema = new Schema({
+  kind: {
+    type: String,
+    enum: ['trigger', 'condition', 'action'],
+    required: true
+  },
+  description: { type: String, required: true },
+  result: {
+    type: String,
+    enum: ['passed', 'failed', 'executed', 'would_execute', 'skipped', 'error'],
+    required: true
+  },
+  details: Schema.Types.Mixed,
+  at: { type: Date, required: true }
+}, { _id: false });
+
+/**
+ * Automation Run Schema
+ */
+const AutomationRunSchema = new Schema<IAutomationRunDocument>({
+  ruleId: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  trigger: {
+    type: {
+      type: String,
+      enum: ['device_state', 'threshold', 'time', 'sun', 'price_below', 'solar_surplus', 'manual'],
+      required: true
+    },
+    index: Number,
+    values: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  },
+  status: {
+    type: String,
+    enum: ['completed', 'failed', 'conditions_not_met', 'cooldown', 'cancelled', 'running'],
+    required: true
+  },
+  steps: {
+    type: [TraceStepSchema],
+    default: []
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  versionKey: false
+});
+
+/**
+ * Indexes
+ */
+AutomationRuleSchema.index({ userId: 1, createdAt: -1 });
+AutomationRuleSchema.index({ enabled: 1 });
+
+AutomationRunSchema.index({ ruleId: 1, startedAt: -1 });
+AutomationRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 2592000 }); // 30 days
+
+/**
+ * Model Export
+ */
+export const AutomationRule = model<IAutomationRuleDocument>('AutomationRule', AutomationRuleSchema);
+export const AutomationRun = model<IAutomationRunDocument>('AutomationRun', AutomationRunSchema);
+
+export default AutomationRule;
+
+export { AutomationRuleSchema, AutomationRunSchema };
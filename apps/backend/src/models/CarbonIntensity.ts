@@ -0,0 +1,72 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+/**
+ * MongoDB Document Interface for a grid carbon intensity point
+ * Average emissions of the electricity consumed in a grid zone over an interval
+ */
+export interface ICarbonIntensityDocument extends Document {
+  _id: Types.ObjectId;
+  zone: string; // Grid zone, e.g. NL, DE, GB
+  start: Date;
+  end: Date;
+  intensity: number; // kg CO2e per kWh
+  forecast: boolean; // Forecast values are replaced once measured values arrive
+  source: string; // electricitymaps, csv, json or a provider name
+  importedAt: Date;
+}
+
+/**
+ * Carbon Intensity Schema
+ */
+const CarbonIntensitySchema = new Schema<ICarbonIntensityDocument>({
+  zone: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  intensity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  forecast: {
+    type: Boolean,
+    default: false
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  importedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  versionKey: false
+});
+
+/**
+ * Indexes
+ */
+
+// Re-imports replace the point of the same zone and interval
+CarbonIntensitySchema.index({ zone: 1, start: 1, end: 1 }, { unique: true });
+CarbonIntensitySchema.index({ zone: 1, end: 1 });
+
+/**
+ * Model Export
+ */
+export const CarbonIntensity = model<ICarbonIntensityDocument>('CarbonIntensity', CarbonIntensitySchema);
+
+export default CarbonIntensity;
+
+export { CarbonIntensitySchema };
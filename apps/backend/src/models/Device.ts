@@ -36,6 +36,10 @@ export interface IDeviceDocument extends Document {
   deviceType: DeviceTypeEnum;
   capabilities: DeviceCapability[];
   energyRole?: EnergyRole;
+  parentMeterId?: string; // meter this device is measured behind
+  virtualMeter?: {
+    formula: string; // see services/meters/formula
+  };
   name: string;
   description?: string;
   location?: string;
@@ -218,7 +222,21 @@ const ScheduleSchema = new Schema<Schedule>({
     default: 'UTC'
   },
   validFrom: Date,
-  validUntil: Date
+  validUntil: Date,
+  catchUp: {
+    type: String,
+    enum: ['skip', 'once', 'all']
+  },
+  nextRunAt: Date,
+  lastRun: {
+    type: new Schema({
+      at: { type: Date, required: true },
+      action: { type: String, enum: ['start', 'end'], required: true },
+      success: { type: Boolean, required: true },
+      error: String,
+      missed: Number
+    }, { _id: false })
+  }
 }, { 
   timestamps: true,
   _id: false 
@@ -352,7 +370,7 @@ const DeviceSchema = new Schema<IDeviceDocument>({
   },
   protocol: {
     type: String,
-    enum: ['tuya', 'modbus', 'mqtt', 'sunspec', 'can_bus', 'rest_api', 'local_network'],
+    enum: ['tuya', 'modbus', 'mqtt', 'sunspec', 'can_bus', 'rest_api', 'local_network', 'simulator', 'virtual'],
     required: [true, 'Protocol is required']
   },
   deviceType: {
@@ -374,6 +392,21 @@ const DeviceSchema = new Schema<IDeviceDocument>({
     type: String,
     enum: ['consumer', 'producer', 'storage', 'bidirectional', 'monitor']
   },
+  parentMeterId: {
+    type: String,
+    trim: true
+  },
+  virtualMeter: {
+    type: new Schema({
+      formula: {
+        type: String,
+        required: [true, 'Virtual meter formula is required'],
+        trim: true,
+        maxlength: [1000, 'Formula cannot exceed 1000 characters']
+      }
+    }, { _id: false }),
+    default: undefined
+  },
   name: {
     type: String,
     required: [true, 'Device name is required'],
@@ -461,6 +494,7 @@ DeviceSchema.index({ room: 1 });
 DeviceSchema.index({ energyRole: 1 });
 DeviceSchema.index({ createdAt: 1 });
 DeviceSchema.index({ updatedAt: 1 });
+DeviceSchema.index({ 'settings.schedules.nextRunAt': 1 }, { sparse: true });
 
 // Compound indexes for complex queries
 DeviceSchema.index({ userId: 1, deviceType: 1 });
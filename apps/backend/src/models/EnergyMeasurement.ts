@@ -8,6 +8,8 @@ import {
   EnergyReport
 } from '@maestro/shared/types/energy';
 import { EnergyUnit } from '@maestro/shared/types/base';
+import { interpolateMeasurements } from '@/services/measurements/series-repair';
+import type { TariffEngine } from '@/services/tariff-engine';
 
 /**
  * MongoDB Document Interface for Energy Measurement
@@ -74,7 +76,7 @@ export interface IEnergyMeasurementDocument extends Document {
   
   // Instance methods
   isValid(): boolean;
-  calculateCost(rate: number): number;
+  calculateCost(tariff: number | TariffEngine, intervalStart?: Date): number;
   calculateCarbon(intensity: number): number;
   interpolate(previousMeasurement: IEnergyMeasurementDocument, targetTimestamp: Date): IEnergyMeasurementDocument;
   toInfluxFormat(): any;
@@ -153,6 +155,7 @@ export interface IEnergyStatsDocument extends Document {
     targetUsage?: number;
     benchmark?: number;
   };
+  rawDataPurgedAt?: Date; // day rollups: when the raw measurements of the day were deleted
 }
 
 /**
@@ -269,8 +272,7 @@ const MeasurementsSchema = new Schema({
   
   // Cost and carbon data
   costRate: {
-    type: Number,
-    min: 0
+    type: Number // Spot prices can be negative
   },
   carbonIntensity: {
     type: Number,
@@ -452,7 +454,8 @@ const EnergyStatsSchema = new Schema<IEnergyStatsDocument>({
     yearAgo: Number,
     targetUsage: Number,
     benchmark: Number
-  }
+  },
+  rawDataPurgedAt: Date
 }, {
   timestamps: true,
   versionKey: false
@@ -473,8 +476,7 @@ EnergyMeasurementSchema.index({ 'measurements.quality': 1 });
 EnergyMeasurementSchema.index({ userId: 1, deviceId: 1, timestamp: 1 });
 EnergyMeasurementSchema.index({ deviceId: 1, timestamp: 1, source: 1 });
 
-// TTL index for data retention (configurable per installation)
-EnergyMeasurementSchema.index({ timestamp: 1 }, { expireAfterSeconds: 31536000 }); // 1 year default
+// No TTL index: raw points are deleted by the rollup service once their day is rolled up
 
 // Energy Flow indexes
 EnergyFlowSchema.index({ userId: 1, timestamp: 1 });
@@ -484,6 +486,7 @@ EnergyFlowSchema.index({ timestamp: 1 });
 EnergyStatsSchema.index({ deviceId: 1, period: 1, periodStart: 1 });
 EnergyStatsSchema.index({ userId: 1, period: 1, periodStart: 1 });
 EnergyStatsSchema.index({ period: 1, periodStart: 1 });
+EnergyStatsSchema.index({ userId: 1, deviceId: 1, period: 1, periodStart: 1 }, { unique: true });
 
 /**
  * Instance Methods for Energy Measurement
@@ -511,10 +514,21 @@ EnergyMeasurementSchema.methods.isValid = function(): boolean {
   return true;
 };
 
-// Calculate cost based on energy rate
-EnergyMeasurementSchema.methods.calculateCost = function(rate: number): number {
+// Calculate cost from a flat rate, or with a tariff for the interval ending at this measurement
+EnergyMeasurementSchema.methods.calculateCost = function(
+  tariff: number | TariffEngine,
+  intervalStart?: Date
+): number {
   const energy = this.measurements.energyConsumed || 0;
-  return energy * rate;
+  if (typeof tariff === 'number') {
+    return energy * tariff;
+  }
+
+  return tariff.price({
+    start: intervalStart ?? this.timestamp,
+    end: this.timestamp,
+    imported: energy
+  }).total;
 };
 
 // Calculate carbon footprint
@@ -523,6 +537,29 @@ EnergyMeasurementSchema.methods.calculateCarbon = function(intensity: number): n
   return energy * intensity;
 };
 
+// Estimate the measurement at a time between a previous measurement and this one
+EnergyMeasurementSchema.methods.interpolate = function(
+  previousMeasurement: IEnergyMeasurementDocument,
+  targetTimestamp: Date
+): IEnergyMeasurementDocument {
+  const start = previousMeasurement.timestamp.getTime();
+  const span = this.timestamp.getTime() - start;
+  const fraction = span > 0 ? Math.min(1, Math.max(0, (targetTimestamp.getTime() - start) / span)) : 1;
+
+  return new EnergyMeasurement({
+    deviceId: this.deviceId,
+    userId: this.userId,
+    timestamp: targetTimestamp,
+    measurements: {
+      ...interpolateMeasurements(previousMeasurement.measurements, this.measurements, fraction),
+      quality: 'fair',
+      confidence: Math.min(previousMeasurement.measurements.confidence, this.measurements.confidence) * 0.5
+    },
+    source: 'estimated',
+    tags: { ...this.tags, repair: 'interpolated' }
+  });
+};
+
 // Convert to InfluxDB format for future migration
 EnergyMeasurementSchema.methods.toInfluxFormat = function(): any {
   return {
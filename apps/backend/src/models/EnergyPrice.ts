@@ -0,0 +1,72 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+/**
+ * MongoDB Document Interface for a dynamic energy price point
+ * One day-ahead (or intraday) price of a bidding zone for an hour or quarter hour
+ */
+export interface IEnergyPriceDocument extends Document {
+  _id: Types.ObjectId;
+  zone: string; // Bidding zone, e.g. NL, DE-LU, SE3
+  start: Date;
+  end: Date;
+  price: number; // Currency per kWh, before taxes and supplier markup
+  currency: string;
+  source: string; // entsoe, nordpool, json or a provider name
+  importedAt: Date;
+}
+
+/**
+ * Energy Price Schema
+ */
+const EnergyPriceSchema = new Schema<IEnergyPriceDocument>({
+  zone: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  price: {
+    type: Number,
+    required: true // Negative prices occur on sunny, windy days
+  },
+  currency: {
+    type: String,
+    required: true,
+    default: 'EUR'
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  importedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  versionKey: false
+});
+
+/**
+ * Indexes
+ */
+
+// Re-imports replace the point of the same zone and interval
+EnergyPriceSchema.index({ zone: 1, start: 1, end: 1 }, { unique: true });
+EnergyPriceSchema.index({ zone: 1, end: 1 });
+
+/**
+ * Model Export
+ */
+export const EnergyPrice = model<IEnergyPriceDocument>('EnergyPrice', EnergyPriceSchema);
+
+export default EnergyPrice;
+
+export { EnergyPriceSchema };
@@ -0,0 +1,153 @@
+import { Schema, model, Document, Types } from 'mongoose';
+import { EnergyReport as EnergyReportType } from '@maestro/shared/types';
+
+/**
+ * MongoDB Document Interface for an energy report
+ * Figures of a period built from the energy rollups; rendered as JSON, CSV or
+ * PDF on download
+ */
+export interface IEnergyReportDocument extends Document, Omit<EnergyReportType, '_id'> {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Report Summary Schema
+ */
+const ReportSummarySchema = new Schema({
+  totalConsumption: { type: Number, required: true, min: 0 },
+  totalProduction: Number,
+  totalCost: { type: Number, required: true },
+  totalSavings: Number,
+  totalCarbon: { type: Number, required: true, min: 0 },
+  averageEfficiency: { type: Number, min: 0, max: 1 },
+  systemUptime: { type: Number, required: true, min: 0, max: 1 },
+  previousConsumption: { type: Number, min: 0 }
+}, { _id: false });
+
+/**
+ * Device Breakdown Schema
+ */
+const ReportDeviceSchema = new Schema({
+  deviceId: { type: String, required: true },
+  deviceName: { type: String, required: true },
+  consumption: { type: Number, required: true, min: 0 },
+  cost: { type: Number, required: true },
+  percentage: { type: Number, required: true, min: 0 },
+  uptime: { type: Number, required: true, min: 0, max: 1 }
+}, { _id: false });
+
+/**
+ * Series Point Schema
+ */
+const ReportSeriesSchema = new Schema({
+  start: { type: Date, required: true },
+  consumption: { type: Number, required: true },
+  production: Number,
+  cost: Number
+}, { _id: false });
+
+/**
+ * Insight Schema
+ */
+const ReportInsightSchema = new Schema({
+  type: {
+    type: String,
+    enum: ['efficiency_tip', 'cost_saving', 'usage_pattern', 'anomaly', 'achievement'],
+    required: true
+  },
+  title: { type: String, required: true },
+  description: { type: String, required: true },
+  impact: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    required: true
+  },
+  actionable: { type: Boolean, default: false }
+}, { _id: false });
+
+/**
+ * Energy Report Schema
+ */
+const EnergyReportSchema = new Schema<IEnergyReportDocument>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  },
+  reportType: {
+    type: String,
+    enum: ['daily', 'weekly', 'monthly', 'yearly', 'custom'],
+    required: true
+  },
+  period: {
+    start: { type: Date, required: true },
+    end: { type: Date, required: true }
+  },
+  summary: {
+    type: ReportSummarySchema,
+    required: true
+  },
+  deviceBreakdown: {
+    type: [ReportDeviceSchema],
+    default: []
+  },
+  series: {
+    type: [ReportSeriesSchema],
+    default: []
+  },
+  insights: {
+    type: [ReportInsightSchema],
+    default: []
+  },
+  currency: {
+    type: String,
+    default: 'EUR'
+  },
+  timeZone: {
+    type: String,
+    default: 'UTC'
+  },
+  scheduled: {
+    type: Boolean,
+    default: false
+  },
+  generatedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  emailedAt: Date,
+  format: {
+    type: String,
+    enum: ['json', 'pdf', 'csv'],
+    default: 'json'
+  },
+  size: {
+    type: Number,
+    min: 0
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+/**
+ * Indexes
+ */
+EnergyReportSchema.index({ userId: 1, generatedAt: -1 });
+
+// The schedule builds each period's report once
+EnergyReportSchema.index(
+  { userId: 1, reportType: 1, 'period.start': 1 },
+  { unique: true, partialFilterExpression: { scheduled: true } }
+);
+
+/**
+ * Model Export
+ */
+export const EnergyReport = model<IEnergyReportDocument>('EnergyReport', EnergyReportSchema);
+
+export default EnergyReport;
+
+export { EnergyReportSchema };
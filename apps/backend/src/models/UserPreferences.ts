@@ -87,6 +87,35 @@ export interface NotificationPreferences {
   efficiencyReports: boolean;
 }
 
+/**
+ * Tariff rate window; hours are local 'HH:MM-HH:MM' ranges (or 'HH' for one
+ * hour), ranges ending before they start wrap past midnight
+ */
+export interface TariffRateWindow {
+  name: string;
+  rate: number; // per kWh, before taxes
+  hours: string[];
+  days?: 'all' | 'weekdays' | 'weekends';
+}
+
+/**
+ * Seasonal tariff variant, replacing the default windows in its months
+ */
+export interface TariffSeason {
+  name: string;
+  months: number[]; // 1-12
+  windows: TariffRateWindow[];
+  baseRate?: number; // outside the windows, default: fixedRate
+}
+
+/**
+ * Tiered block of monthly consumption
+ */
+export interface TariffTier {
+  upTo?: number; // kWh per month, omitted for the last tier
+  rate: number;
+}
+
 /**
  * Energy Management Preferences
  */
@@ -101,6 +130,16 @@ export interface EnergyPreferences {
     offPeak: { rate: number; hours: string[] };
     shoulder: { rate: number; hours: string[] };
   };
+  tariff?: {
+    windows?: TariffRateWindow[]; // checked before timeOfUseRates, e.g. weekend rates
+    seasons?: TariffSeason[];
+    tiers?: TariffTier[];
+    standingCharge?: number; // per day
+    energyTax?: number; // per kWh
+    taxRate?: number; // VAT as a fraction, on energy, energy tax and standing charges
+    priceZone?: string; // real_time: bidding zone of the spot prices, e.g. NL
+    spotMarkup?: number; // real_time: supplier margin per kWh on top of the spot price
+  };
   
   // Optimization settings
   optimizationMode: 'cost' | 'carbon' | 'comfort' | 'performance' | 'custom';
@@ -113,6 +152,8 @@ export interface EnergyPreferences {
   dailyBudget?: number;
   peakDemandLimit?: number;
   carbonFootprintGoal?: number;
+  carbonZone?: string; // Grid zone of the carbon intensity, default: tariff price zone
+  gridMeterDeviceId?: string; // Meter at the grid connection, positive power = import
   
   // Preferences for different energy sources (Phase 2)
   solarPreferences?: {
@@ -165,6 +206,7 @@ export interface DevicePreferences {
   };
   
   automation: {
+    enableRules: boolean; // run the user's automation rules
     enableAutoScheduling: boolean;
     enableGeofencing: boolean;
     enableOccupancyDetection: boolean;
@@ -319,6 +361,16 @@ const DashboardWidgetSchema = new Schema<DashboardWidget>({
   }
 }, { _id: false });
 
+/**
+ * Tariff Rate Window Schema
+ */
+const TariffRateWindowSchema = new Schema<TariffRateWindow>({
+  name: { type: String, required: true },
+  rate: { type: Number, required: true, min: 0 },
+  hours: { type: [String], required: true },
+  days: { type: String, enum: ['all', 'weekdays', 'weekends'], default: 'all' }
+}, { _id: false });
+
 /**
  * Dashboard Layout Schema
  */
@@ -548,7 +600,40 @@ const UserPreferencesSchema = new Schema<IUserPreferencesDocument>({
     monthlyBudget: Number,
     dailyBudget: Number,
     peakDemandLimit: Number,
-    carbonFootprintGoal: Number
+    carbonFootprintGoal: Number,
+    carbonZone: { type: String, trim: true },
+    gridMeterDeviceId: { type: String, trim: true },
+    timeOfUseRates: {
+      peak: { rate: Number, hours: [String] },
+      offPeak: { rate: Number, hours: [String] },
+      shoulder: { rate: Number, hours: [String] }
+    },
+    tariff: {
+      windows: [TariffRateWindowSchema],
+      seasons: [{
+        _id: false,
+        name: { type: String, required: true },
+        months: [{ type: Number, min: 1, max: 12 }],
+        windows: [TariffRateWindowSchema],
+        baseRate: { type: Number, min: 0 }
+      }],
+      tiers: [{
+        _id: false,
+        upTo: { type: Number, min: 0 },
+        rate: { type: Number, required: true, min: 0 }
+      }],
+      standingCharge: { type: Number, min: 0 },
+      energyTax: { type: Number, min: 0 },
+      taxRate: { type: Number, min: 0, max: 1 },
+      priceZone: { type: String, trim: true },
+      spotMarkup: Number
+    },
+    solarPreferences: {
+      selfConsumptionPriority: { type: Number, min: 0, max: 100 },
+      batteryChargeFromGrid: Boolean,
+      gridExportEnabled: Boolean,
+      feedInTariff: { type: Number, min: 0 }
+    }
   },
   devices: {
     defaultSettings: {
@@ -594,6 +679,7 @@ const UserPreferencesSchema = new Schema<IUserPreferencesDocument>({
       }
     },
     automation: {
+      enableRules: { type: Boolean, default: true },
       enableAutoScheduling: { type: Boolean, default: false },
       enableGeofencing: { type: Boolean, default: false },
       enableOccupancyDetection: { type: Boolean, default: false },
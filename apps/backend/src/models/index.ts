@@ -56,6 +56,58 @@ export {
   type IEnergyStatsDocument
 } from './EnergyMeasurement';
 
+export { 
+  EnergyPrice,
+  EnergyPriceSchema,
+  type IEnergyPriceDocument
+} from './EnergyPrice';
+
+export { 
+  CarbonIntensity,
+  CarbonIntensitySchema,
+  type ICarbonIntensityDocument
+} from './CarbonIntensity';
+
+export { 
+  EnergyReport,
+  EnergyReportSchema,
+  type IEnergyReportDocument
+} from './EnergyReport';
+
+// Automation models
+export { 
+  AutomationRule,
+  AutomationRun,
+  AutomationRuleSchema,
+  AutomationRunSchema,
+  type IAutomationRuleDocument,
+  type IAutomationRunDocument
+} from './AutomationRule';
+
+// Local bindings for the registry and document types below
+import { User, type IUserDocument } from './User';
+import { Session, type ISessionDocument } from './Session';
+import { UserPreferences, type IUserPreferencesDocument } from './UserPreferences';
+import { Device, type IDeviceDocument } from './Device';
+import { DeviceCommand, type IDeviceCommandDocument } from './DeviceCommand';
+import {
+  EnergyMeasurement,
+  EnergyFlow,
+  EnergyStats,
+  type IEnergyMeasurementDocument,
+  type IEnergyFlowDocument,
+  type IEnergyStatsDocument
+} from './EnergyMeasurement';
+import { EnergyPrice, type IEnergyPriceDocument } from './EnergyPrice';
+import { CarbonIntensity, type ICarbonIntensityDocument } from './CarbonIntensity';
+import { EnergyReport, type IEnergyReportDocument } from './EnergyReport';
+import {
+  AutomationRule,
+  AutomationRun,
+  type IAutomationRuleDocument,
+  type IAutomationRunDocument
+} from './AutomationRule';
+
 /**
  * Model Registry for dynamic access
  */
@@ -67,7 +119,12 @@ export const ModelRegistry = {
   DeviceCommand,
   EnergyMeasurement,
   EnergyFlow,
-  EnergyStats
+  EnergyStats,
+  EnergyPrice,
+  CarbonIntensity,
+  EnergyReport,
+  AutomationRule,
+  AutomationRun
 } as const;
 
 /**
@@ -81,7 +138,12 @@ export const ModelNames = {
   DEVICE_COMMAND: 'DeviceCommand',
   ENERGY_MEASUREMENT: 'EnergyMeasurement',
   ENERGY_FLOW: 'EnergyFlow',
-  ENERGY_STATS: 'EnergyStats'
+  ENERGY_STATS: 'EnergyStats',
+  ENERGY_PRICE: 'EnergyPrice',
+  CARBON_INTENSITY: 'CarbonIntensity',
+  ENERGY_REPORT: 'EnergyReport',
+  AUTOMATION_RULE: 'AutomationRule',
+  AUTOMATION_RUN: 'AutomationRun'
 } as const;
 
 /**
@@ -95,7 +157,12 @@ export const CollectionNames = {
   DEVICE_COMMANDS: 'devicecommands',
   ENERGY_MEASUREMENTS: 'energymeasurements',
   ENERGY_FLOWS: 'energyflows',
-  ENERGY_STATS: 'energystats'
+  ENERGY_STATS: 'energystats',
+  ENERGY_PRICES: 'energyprices',
+  CARBON_INTENSITIES: 'carbonintensities',
+  ENERGY_REPORTS: 'energyreports',
+  AUTOMATION_RULES: 'automationrules',
+  AUTOMATION_RUNS: 'automationruns'
 } as const;
 
 /**
@@ -110,6 +177,11 @@ export type DocumentTypes = {
   EnergyMeasurement: IEnergyMeasurementDocument;
   EnergyFlow: IEnergyFlowDocument;
   EnergyStats: IEnergyStatsDocument;
+  EnergyPrice: IEnergyPriceDocument;
+  CarbonIntensity: ICarbonIntensityDocument;
+  EnergyReport: IEnergyReportDocument;
+  AutomationRule: IAutomationRuleDocument;
+  AutomationRun: IAutomationRunDocument;
 };
 
 /**
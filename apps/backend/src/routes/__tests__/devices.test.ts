@@ -0,0 +1,131 @@
+/**
+ * Device Route Tests
+ *
+ * Device details and commands for devices whose capabilities are stored as
+ * bare type names, as devices created through the API stored them. Devices
+ * are an in-memory stand-in for the Device model; commands go to a mocked
+ * protocol adapter manager.
+ */
+
+import express from 'express';
+import request from 'supertest';
+
+import { AuthMiddleware } from '@/middleware/auth';
+import { Device } from '@/models/Device';
+import { CacheManager } from '@/services/cache';
+import { DatabaseManager } from '@/services/database';
+import { DeviceService } from '@/services/database/DeviceService';
+import { ProtocolAdapterManager } from '@/services/protocol-adapter-manager';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+import deviceRoutes, { initializeDeviceServices } from '../devices';
+
+jest.mock('@/models/Device', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/Device'), Device: new MemoryModel() };
+});
+
+const devices = Device as unknown as MemoryModel;
+const DEVICE_ID = '65f0a1b2c3d4e5f6a7b8c9d0';
+
+describe('device routes', () => {
+  let sendDeviceCommand: jest.Mock;
+  let app: express.Application;
+
+  beforeAll(() => {
+    sendDeviceCommand = jest.fn();
+    const authMiddleware = {
+      requireAuth: () => (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+        req.user = { _id: 'user-1' } as any;
+        next();
+      }
+    } as unknown as AuthMiddleware;
+
+    initializeDeviceServices(
+      { getDevicesCollection: jest.fn(), getUsersCollection: jest.fn() } as unknown as DatabaseManager,
+      {} as CacheManager,
+      authMiddleware,
+      { sendDeviceCommand } as unknown as ProtocolAdapterManager
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use('/devices', deviceRoutes);
+  });
+
+  beforeEach(() => {
+    sendDeviceCommand.mockReset().mockResolvedValue({ success: true, data: { state: { switch: true } } });
+    devices.docs = [{
+      _id: DEVICE_ID,
+      userId: 'user-1',
+      deviceId: 'plug-1',
+      protocol: 'tuya',
+      deviceType: 'smart_plug',
+      name: 'Kitchen plug',
+      capabilities: ['switch', 'energy_meter', 'scheduler'],
+      isOnline: true,
+      status: 'online',
+      currentState: {},
+      lastSeenAt: new Date()
+    }];
+  });
+
+  it('lists the commands of string capabilities in the device details', async () => {
+    const response = await request(app).get(`/devices/${DEVICE_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.validCommands).toEqual(expect.arrayContaining(['get_status', 'turn_on', 'get_power', 'set_schedule']));
+  });
+
+  it('executes commands on devices with string capabilities', async () => {
+    const response = await request(app).post(`/devices/${DEVICE_ID}/command`).send({ command: 'turn_on' });
+
+    expect(response.status).toBe(200);
+    expect(sendDeviceCommand).toHaveBeenCalledWith('tuya', 'plug-1', 'turn_on', {}, expect.any(Object));
+    expect(devices.docs[0]!.currentState).toEqual({ switch: true });
+  });
+
+  it('rejects commands no capability provides', async () => {
+    const response = await request(app).post(`/devices/${DEVICE_ID}/command`).send({ command: 'set_brightness', parameters: { value: 50 } });
+
+    expect(response.status).toBe(422);
+    expect(response.body.error).toContain("Command 'set_brightness' is not supported by this device");
+    expect(sendDeviceCommand).not.toHaveBeenCalled();
+  });
+
+  it('does not find devices of other users', async () => {
+    devices.docs[0]!.userId = 'user-2';
+
+    const response = await request(app).get(`/devices/${DEVICE_ID}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  describe('schedules', () => {
+    let addSchedule: jest.SpyInstance;
+
+    beforeEach(() => {
+      addSchedule = jest.spyOn(DeviceService.prototype, 'addSchedule')
+        .mockImplementation(async (_id, schedule) => ({ settings: { schedules: [schedule] } }) as any);
+    });
+
+    afterEach(() => {
+      addSchedule.mockRestore();
+    });
+
+    it('schedules commands of string capabilities', async () => {
+      const response = await request(app).post(`/devices/${DEVICE_ID}/schedules`)
+        .send({ name: 'Morning', pattern: 'daily', startTime: '08:00', command: { command: 'turn_on' } });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ name: 'Morning', command: { command: 'turn_on' } });
+    });
+
+    it('rejects schedules with commands no capability provides', async () => {
+      const response = await request(app).post(`/devices/${DEVICE_ID}/schedules`)
+        .send({ name: 'Dim', pattern: 'daily', startTime: '20:00', command: { command: 'set_brightness', parameters: { value: 30 } } });
+
+      expect(response.status).toBe(422);
+      expect(addSchedule).not.toHaveBeenCalled();
+    });
+  });
+});
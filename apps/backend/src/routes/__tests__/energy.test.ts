@@ -0,0 +1,261 @@
+/**
+ * Energy Route Tests
+ *
+ * Measurement series, statistics, the dashboard and the energy flow of the
+ * authenticated user's devices: paging handed to the measurement store and
+ * the rollup service, device ownership and query validation. Devices, users,
+ * preferences and flows are in-memory stand-ins for their models; the store
+ * and the rollup service are mocks.
+ */
+
+import express from 'express';
+import request from 'supertest';
+
+import { AuthMiddleware } from '@/middleware/auth';
+import { Device } from '@/models/Device';
+import { EnergyFlow } from '@/models/EnergyMeasurement';
+import { User } from '@/models/User';
+import { ALL_DEVICES, EnergyRollupService } from '@/services/energy-rollup';
+import { MeasurementStore } from '@/services/measurements';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+import energyRoutes, { initializeEnergyServices } from '../energy';
+
+jest.mock('@/models/Device', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/Device'), Device: new MemoryModel() };
+});
+jest.mock('@/models/EnergyMeasurement', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/EnergyMeasurement'), EnergyFlow: new MemoryModel() };
+});
+jest.mock('@/models/User', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/User'), User: new MemoryModel() };
+});
+jest.mock('@/models/UserPreferences', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/UserPreferences'), UserPreferences: new MemoryModel() };
+});
+
+const devices = Device as unknown as MemoryModel;
+const flows = EnergyFlow as unknown as MemoryModel;
+const users = User as unknown as MemoryModel;
+
+const range = 'start=2026-03-02T00:00:00Z&end=2026-03-03T00:00:00Z';
+
+function rollup(deviceId: string, total: number) {
+  return {
+    deviceId,
+    userId: 'user-1',
+    period: 'day',
+    periodStart: new Date('2026-03-02T00:00:00Z'),
+    periodEnd: new Date('2026-03-03T00:00:00Z'),
+    consumption: { total, average: total * 1000 / 24, peak: 2000 },
+    production: { total: 0 },
+    uptime: 1,
+    dataPoints: 24,
+    dataQuality: 1
+  };
+}
+
+describe('energy routes', () => {
+  let store: jest.Mocked<Pick<MeasurementStore, 'queryRange' | 'aggregate' | 'count' | 'latest'>>;
+  let rollups: jest.Mocked<Pick<EnergyRollupService, 'getStats' | 'getGroupedStats'>>;
+  let app: express.Application;
+
+  beforeAll(() => {
+    store = { queryRange: jest.fn(), aggregate: jest.fn(), count: jest.fn(), latest: jest.fn() };
+    rollups = { getStats: jest.fn(), getGroupedStats: jest.fn() };
+    const authMiddleware = {
+      requireAuth: () => (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+        req.user = { _id: 'user-1' } as any;
+        next();
+      }
+    } as unknown as AuthMiddleware;
+
+    initializeEnergyServices(
+      authMiddleware,
+      store as unknown as MeasurementStore,
+      rollups as unknown as EnergyRollupService
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use('/energy', energyRoutes);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    devices.docs = [
+      { _id: 'd1', userId: 'user-1', deviceId: 'plug-1', name: 'Kettle', deviceType: 'smart_plug', room: 'kitchen', energyRole: 'consumer' },
+      { _id: 'd2', userId: 'user-1', deviceId: 'plug-2', name: 'Washer', deviceType: 'smart_plug', room: 'utility', energyRole: 'consumer' },
+      { _id: 'd3', userId: 'user-1', deviceId: 'meter-1', name: 'Main meter', deviceType: 'energy_meter', energyRole: 'monitor' },
+      { _id: 'd4', userId: 'user-2', deviceId: 'plug-9', name: 'Foreign plug', deviceType: 'smart_plug' }
+    ];
+    flows.docs = [];
+    users.docs = [{ _id: 'user-1', profile: { timezone: 'UTC' } }];
+  });
+
+  describe('GET /measurements', () => {
+    it('pages raw measurements in the store', async () => {
+      store.count.mockResolvedValue(120000);
+      store.queryRange.mockResolvedValue([{
+        deviceId: 'plug-1',
+        userId: 'user-1',
+        timestamp: new Date('2026-03-02T10:00:00Z'),
+        measurements: { activePower: 1500, energyConsumed: 0.025, quality: 'good', confidence: 1 },
+        source: 'device'
+      }]);
+
+      const response = await request(app).get(`/energy/measurements?${range}&resolution=raw&page=3&limit=100&order=desc`);
+
+      expect(response.status).toBe(200);
+      const query = { userId: 'user-1', deviceId: ['plug-1', 'plug-2', 'meter-1'], start: new Date('2026-03-02T00:00:00Z'), end: new Date('2026-03-03T00:00:00Z'), order: 'desc', skip: 200, limit: 100 };
+      expect(store.queryRange).toHaveBeenCalledWith(query);
+      expect(store.count).toHaveBeenCalledWith(query, undefined);
+      expect(response.body.data).toEqual([expect.objectContaining({ deviceId: 'plug-1', avgPower: 1500, energyConsumed: 0.025, dataPoints: 1 })]);
+      expect(response.body.pagination).toEqual({ page: 3, limit: 100, total: 120000, totalPages: 1200, hasNext: true, hasPrev: true });
+    });
+
+    it('pages aggregates of the requested devices at the automatic resolution', async () => {
+      store.count.mockResolvedValue(24);
+      store.aggregate.mockResolvedValue([
+        { deviceId: 'plug-1', periodStart: new Date('2026-03-02T00:00:00Z'), avgPower: 100, energyConsumed: 0.1, energyProduced: 0, dataPoints: 60 }
+      ]);
+
+      const response = await request(app).get(`/energy/measurements?${range}&deviceId=plug-1`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.resolution).toBe('hour');
+      expect(store.aggregate).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', deviceId: ['plug-1'], order: 'asc', skip: 0, limit: 500 }), 'hour');
+      expect(store.count).toHaveBeenCalledWith(expect.objectContaining({ deviceId: ['plug-1'] }), 'hour');
+      expect(response.body.pagination).toMatchObject({ page: 1, total: 24, totalPages: 1, hasNext: false });
+    });
+
+    it('does not serve devices of other users', async () => {
+      const response = await request(app).get(`/energy/measurements?${range}&deviceId=plug-1,plug-9`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('DEVICE_NOT_FOUND');
+      expect(store.queryRange).not.toHaveBeenCalled();
+      expect(store.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('rejects ranges without a start or ending before they start, and oversized pages', async () => {
+      const missingStart = await request(app).get('/energy/measurements?end=2026-03-03T00:00:00Z');
+      const reversed = await request(app).get('/energy/measurements?start=2026-03-03T00:00:00Z&end=2026-03-02T00:00:00Z');
+      const tooLarge = await request(app).get(`/energy/measurements?${range}&limit=5000`);
+
+      for (const response of [missingStart, reversed, tooLarge]) {
+        expect(response.status).toBe(400);
+      }
+      expect(store.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /stats', () => {
+    const page = { page: 1, limit: 20, total: 1, totalPages: 1, hasNext: false, hasPrev: false };
+
+    it('combines rollups of all devices without a grouping', async () => {
+      rollups.getGroupedStats.mockResolvedValue({ data: [{ group: ALL_DEVICES, rollups: [rollup(ALL_DEVICES, 12)] as any }], pagination: page });
+
+      const response = await request(app).get(`/energy/stats?${range}&period=day&page=1&limit=20`);
+
+      expect(response.status).toBe(200);
+      expect(rollups.getGroupedStats).toHaveBeenCalledWith(
+        'user-1', 'day', new Date('2026-03-02T00:00:00Z'), new Date('2026-03-03T00:00:00Z'),
+        new Map([[ALL_DEVICES, ALL_DEVICES]]),
+        { page: 1, limit: 20, order: 'asc' }
+      );
+      expect(response.body.data).toEqual([expect.objectContaining({
+        group: ALL_DEVICES,
+        consumption: 12,
+        deviceIds: ['plug-1', 'plug-2', 'meter-1']
+      })]);
+      expect(response.body.pagination).toEqual(page);
+    });
+
+    it('groups devices by room and leaves meters out', async () => {
+      rollups.getGroupedStats.mockResolvedValue({
+        data: [{ group: 'kitchen', rollups: [rollup('plug-1', 2)] as any }, { group: 'utility', rollups: [rollup('plug-2', 3)] as any }],
+        pagination: { ...page, total: 2, page: 2, limit: 2, totalPages: 2, hasPrev: true }
+      });
+
+      const response = await request(app).get(`/energy/stats?${range}&groupBy=room&page=2&limit=2&order=desc`);
+
+      expect(response.status).toBe(200);
+      expect(rollups.getGroupedStats).toHaveBeenCalledWith(
+        'user-1', 'day', expect.any(Date), expect.any(Date),
+        new Map([['plug-1', 'kitchen'], ['plug-2', 'utility']]),
+        { page: 2, limit: 2, order: 'desc' }
+      );
+      expect(response.body.data.map((summary: { group: string; deviceIds: string[] }) => [summary.group, summary.deviceIds]))
+        .toEqual([['kitchen', ['plug-1']], ['utility', ['plug-2']]]);
+      expect(response.body.pagination).toMatchObject({ page: 2, hasPrev: true });
+    });
+
+    it('does not serve devices of other users', async () => {
+      const response = await request(app).get(`/energy/stats?${range}&deviceId=plug-9`);
+
+      expect(response.status).toBe(404);
+      expect(rollups.getGroupedStats).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown periods and groupings', async () => {
+      const period = await request(app).get(`/energy/stats?${range}&period=decade`);
+      const groupBy = await request(app).get(`/energy/stats?${range}&groupBy=owner`);
+
+      expect(period.status).toBe(400);
+      expect(groupBy.status).toBe(400);
+      expect(rollups.getGroupedStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /dashboard', () => {
+    it('sums fresh measurements of consumers and today\'s rollup', async () => {
+      store.latest.mockImplementation(async deviceId => deviceId === 'meter-1' ? null : {
+        deviceId,
+        userId: 'user-1',
+        timestamp: new Date(),
+        measurements: { activePower: deviceId === 'plug-1' ? 1500 : 0, quality: 'good', confidence: 1 },
+        source: 'device'
+      });
+      rollups.getStats.mockImplementation(async (_userId, period) => period === 'day' ? [rollup(ALL_DEVICES, 12)] as any : []);
+
+      const response = await request(app).get('/energy/dashboard');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        currentPower: 1500,
+        todayConsumption: 12,
+        peakPower: 2000,
+        activeDevices: 1,
+        totalDevices: 3,
+        gridStatus: 'connected'
+      });
+      expect(store.latest).not.toHaveBeenCalledWith('plug-9');
+    });
+  });
+
+  describe('GET /flow', () => {
+    it('returns the latest stored flow of the user', async () => {
+      flows.docs = [
+        { _id: 'f1', userId: 'user-1', timestamp: new Date('2026-03-02T10:00:00Z'), gridImport: 500, gridExport: 0 },
+        { _id: 'f2', userId: 'user-1', timestamp: new Date('2026-03-02T10:05:00Z'), gridImport: 0, gridExport: 300 },
+        { _id: 'f3', userId: 'user-2', timestamp: new Date('2026-03-02T10:10:00Z'), gridImport: 900, gridExport: 0 }
+      ];
+
+      const response = await request(app).get('/energy/flow');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ _id: 'f2', gridExport: 300 });
+    });
+
+    it('returns no flow before one was stored', async () => {
+      const response = await request(app).get('/energy/flow');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toBeNull();
+    });
+  });
+});
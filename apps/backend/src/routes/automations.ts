@@ -0,0 +1,281 @@
+import { Router, Request, Response } from 'express';
+import { validateBody, validateParams, validateQuery, automationSchemas } from '@/middleware/validation';
+import { AuthMiddleware } from '@/middleware/auth';
+import { AutomationService } from '@/services/automations';
+import { ApiError } from '@/utils/errors';
+import logger from '@/config/logger';
+
+/**
+ * Automation Rule Routes
+ *
+ * Manages the authenticated user's automation rules, lists their stored runs
+ * and evaluates saved or unsaved rules in dry runs that return the trace
+ * without executing any action
+ * All routes require authentication
+ */
+const router = Router();
+
+// Services (would typically be injected via DI container)
+let automations: AutomationService | undefined;
+let authMiddleware: AuthMiddleware;
+
+// Service initialization function (called from app startup)
+export function initializeAutomationServices(authMw: AuthMiddleware, automationService?: AutomationService) {
+  automations = automationService;
+  authMiddleware = authMw;
+}
+
+// Apply authentication middleware to all routes
+router.use((req, res, next) => {
+  if (authMiddleware) {
+    return authMiddleware.requireAuth()(req, res, next);
+  }
+  return next();
+});
+
+/**
+ * GET /api/v1/automations
+ * Rules of the user, newest first
+ */
+router.get('/', validateQuery(automationSchemas.rulesQuery), async (req: Request, res: Response) => {
+  try {
+    const { page, limit, enabled } = req.query as unknown as { page: number; limit: number; enabled?: boolean };
+    const userId = requireUser(req);
+
+    const result = await automations!.list(userId, { page, limit, enabled });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendAutomationError(req, res, error, 'Failed to retrieve automation rules');
+  }
+});
+
+/**
+ * POST /api/v1/automations
+ * Create a rule; without a time zone it runs in the user's profile time zone
+ */
+router.post('/', validateBody(automationSchemas.createRule), async (req: Request, res: Response) => {
+  try {
+    const userId = requireUser(req);
+
+    const rule = await automations!.create(userId, req.body);
+
+    logger.info('Automation rule created', {
+      userId,
+      ruleId: rule._id,
+      requestId: req.requestId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendAutomationError(req, res, error, 'Failed to create automation rule');
+  }
+});
+
+/**
+ * POST /api/v1/automations/dry-run
+ * Evaluate an unsaved rule and return its trace
+ */
+router.post('/dry-run', validateBody(automationSchemas.dryRunRule), async (req: Request, res: Response) => {
+  try {
+    const userId = requireUser(req);
+    const { rule, triggerIndex, values } = req.body;
+
+    const run = await automations!.dryRun(userId, rule, { triggerIndex, values });
+
+    res.json({
+      success: true,
+      data: run,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendAutomationError(req, res, error, 'Failed to evaluate automation rule');
+  }
+});
+
+/**
+ * GET /api/v1/automations/:ruleId
+ * A single rule
+ */
+router.get('/:ruleId', validateParams(automationSchemas.ruleParams), async (req: Request, res: Response) => {
+  try {
+    const userId = requireUser(req);
+
+    const rule = await automations!.get(userId, req.params.ruleId!);
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendAutomationError(req, res, error, 'Failed to retrieve automation rule');
+  }
+});
+
+/**
+ * PUT /api/v1/automations/:ruleId
+ * Update a rule; absent fields are left as they are
+ */
+router.put(
+  '/:ruleId',
+  validateParams(automationSchemas.ruleParams),
+  validateBody(automationSchemas.updateRule),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = requireUser(req);
+
+      const rule = await automations!.update(userId, req.params.ruleId!, req.body);
+
+      logger.info('Automation rule updated', {
+        userId,
+        ruleId: rule._id,
+        requestId: req.requestId
+      });
+
+      res.json({
+        success: true,
+        data: rule,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendAutomationError(req, res, error, 'Failed to update automation rule');
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/automations/:ruleId
+ * Delete a rule and its stored runs
+ */
+router.delete('/:ruleId', validateParams(automationSchemas.ruleParams), async (req: Request, res: Response) => {
+  try {
+    const userId = requireUser(req);
+
+    await automations!.delete(userId, req.params.ruleId!);
+
+    res.json({
+      success: true,
+      message: 'Automation rule deleted',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendAutomationError(req, res, error, 'Failed to delete automation rule');
+  }
+});
+
+/**
+ * POST /api/v1/automations/:ruleId/dry-run
+ * Evaluate a saved rule as if one of its triggers fired and return its trace
+ */
+router.post(
+  '/:ruleId/dry-run',
+  validateParams(automationSchemas.ruleParams),
+  validateBody(automationSchemas.dryRun),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = requireUser(req);
+      const { triggerIndex, values } = req.body;
+
+      const run = await automations!.dryRun(userId, req.params.ruleId!, { triggerIndex, values });
+
+      res.json({
+        success: true,
+        data: run,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendAutomationError(req, res, error, 'Failed to evaluate automation rule');
+    }
+  }
+);
+
+/**
+ * GET /api/v1/automations/:ruleId/runs
+ * Stored runs of a rule with their traces, newest first
+ */
+router.get(
+  '/:ruleId/runs',
+  validateParams(automationSchemas.ruleParams),
+  validateQuery(automationSchemas.runsQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = req.query as unknown as { page: number; limit: number };
+      const userId = requireUser(req);
+
+      const result = await automations!.runs(userId, req.params.ruleId!, { page, limit });
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendAutomationError(req, res, error, 'Failed to retrieve automation runs');
+    }
+  }
+);
+
+// Helper functions
+
+function requireUser(req: Request): string {
+  if (!automations || !req.user) {
+    throw new ApiError('Automation services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+  }
+  return String(req.user._id);
+}
+
+function sendAutomationError(req: Request, res: Response, error: unknown, message: string): void {
+  logger.error(message, {
+    userId: req.user?._id,
+    ruleId: req.params.ruleId,
+    error: error instanceof Error ? error.message : error,
+    requestId: req.requestId
+  });
+
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details && { details: error.details }),
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      error: message,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+}
+
+export default router;
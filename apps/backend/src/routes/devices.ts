@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { validateBody, validateParams, validatePagination, validateDeviceId } from '@/middleware/validation';
+import { validateBody, validateParams, validateQuery, validatePagination, validateDeviceId, validateObjectId } from '@/middleware/validation';
 import { deviceSchemas, commonSchemas } from '@/middleware/validation';
 import { AuthMiddleware } from '@/middleware/auth';
 import { DeviceService } from '@/services/database/DeviceService';
@@ -10,8 +10,27 @@ import { WebSocketIntegrationService } from '@/services/websocket-integration';
 import { DeviceIntegrationService } from '@/services/device-integration';
 import { CacheManager } from '@/services/cache';
 import { DatabaseManager } from '@/services/database';
+import {
+  ScheduleChanges,
+  ScheduleInput,
+  commandForAction,
+  createSchedule,
+  nextScheduleEvents,
+  scheduleCommands,
+  scheduleUpdates
+} from '@/services/schedules';
 import { ApiError, ValidationError } from '@/utils/errors';
-import { DeviceStatusUpdate, DeviceCommand, DeviceDiscovery } from '@maestro/shared/types';
+import {
+  DeviceStatusUpdate,
+  DeviceCommand,
+  DeviceDiscovery,
+  DeviceCapability,
+  CapabilityType,
+  Schedule,
+  getSupportedCommands,
+  normalizeCapabilities,
+  validateDeviceCommandParameters
+} from '@maestro/shared/types';
 import logger, { deviceLogger } from '@/config/logger';
 import Joi from 'joi';
 import { ObjectId } from 'mongodb';
@@ -553,41 +572,21 @@ router.post('/', validateBody(deviceSchemas.createDevice), async (req: Request,
 });
 
 // Helper function to get default capabilities by device type
-function getDeviceCapabilities(deviceType: string): string[] {
-  const capabilityMap: Record<string, string[]> = {
+function getDeviceCapabilities(deviceType: string): DeviceCapability[] {
+  const capabilityMap: Record<string, CapabilityType[]> = {
     'smart_plug': ['switch', 'energy_meter', 'scheduler'],
-    'solar_inverter': ['energy_generator', 'inverter_stats', 'grid_tie', 'monitoring'],
-    'battery_pack': ['battery_monitor', 'charge_controller', 'energy_storage', 'backup_power']
+    'solar_inverter': ['energy_meter', 'grid_interaction'],
+    'battery_pack': ['energy_meter', 'energy_storage'],
+    'energy_meter': ['energy_meter']
   };
-  return capabilityMap[deviceType] || ['basic_control'];
-}
-
-// Helper function to get valid commands for a device
-function getValidCommandsForDevice(deviceType: string, capabilities: string[]): string[] {
-  const baseCommands: Record<string, string[]> = {
-    'smart_plug': ['turn_on', 'turn_off', 'toggle', 'get_status', 'get_power'],
-    'solar_inverter': ['get_status', 'get_production', 'get_efficiency', 'reset_stats'],
-    'battery_pack': ['get_status', 'get_charge_level', 'set_charge_limit', 'force_charge', 'force_discharge']
-  };
-  
-  let commands = baseCommands[deviceType] || ['get_status'];
-  
-  // Add capability-specific commands
-  if (capabilities.includes('scheduler')) {
-    commands.push('set_schedule', 'clear_schedule', 'get_schedule');
-  }
-  if (capabilities.includes('energy_meter')) {
-    commands.push('get_energy_data', 'reset_energy_stats');
-  }
-  
-  return commands;
+  return normalizeCapabilities(capabilityMap[deviceType] || ['switch']);
 }
 
 /**
  * GET /api/v1/devices/:id
  * Get device details by ID
  */
-router.get('/:id', validateParams({ id: commonSchemas.objectId }), async (req: Request, res: Response) => {
+router.get('/:id', validateObjectId(), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { includeStatus = true, includeDiagnostics = false } = req.query;
@@ -623,7 +622,7 @@ router.get('/:id', validateParams({ id: commonSchemas.objectId }), async (req: R
         getConnectionQuality(device.lastSeenAt) : 'disconnected',
       uptimePercentage: calculateUptimePercentage(device),
       energyToday: Math.round(Math.random() * 10 * 100) / 100, // kWh - placeholder
-      validCommands: getValidCommandsForDevice(device.deviceType, device.capabilities),
+      validCommands: getSupportedCommands(normalizeCapabilities(device.capabilities)),
     };
 
     // Include fresh status if requested
@@ -768,7 +767,7 @@ router.get('/:id', validateParams({ id: commonSchemas.objectId }), async (req: R
  * Update device configuration
  */
 router.put('/:id',
-  validateParams({ id: commonSchemas.objectId }),
+  validateObjectId(),
   validateBody(deviceSchemas.updateDevice),
   async (req: Request, res: Response) => {
     try {
@@ -908,7 +907,7 @@ router.put('/:id',
       // Helper function to apply settings to physical device
       async function applySettingsToDevice(device: any, settings: any): Promise<void> {
         // Apply power limit if specified
-        if (settings.maxPowerDraw && device.capabilities.includes('energy_meter')) {
+        if (settings.maxPowerDraw && normalizeCapabilities(device.capabilities).some(cap => cap.type === 'energy_meter')) {
           await protocolManager.sendDeviceCommand(
             device.protocol,
             device.deviceId,
@@ -975,7 +974,7 @@ router.put('/:id',
  * DELETE /api/v1/devices/:id
  * Remove device from user's account
  */
-router.delete('/:id', validateParams({ id: commonSchemas.objectId }), async (req: Request, res: Response) => {
+router.delete('/:id', validateObjectId(), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { force = false } = req.query;
@@ -1164,12 +1163,12 @@ router.delete('/:id', validateParams({ id: commonSchemas.objectId }), async (req
  * Send command to device
  */
 router.post('/:id/command',
-  validateParams({ id: commonSchemas.objectId }),
+  validateObjectId(),
   validateBody(deviceSchemas.deviceCommand),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const { command, parameters = {} } = req.body;
+      const { command, parameters = {}, priority, scheduledAt, ttl } = req.body;
       const currentUser = req.user;
 
       if (!deviceService || !protocolManager || !currentUser) {
@@ -1196,15 +1195,19 @@ router.post('/:id/command',
         throw new ApiError('Device not found or access denied', 404, 'DEVICE_NOT_FOUND');
       }
 
-      // Validate device is online
-      if (!device.isOnline) {
+      // Validate device is online, unless the command may wait for it
+      if (!device.isOnline && ttl === undefined) {
         throw new ApiError('Device is offline', 503, 'DEVICE_OFFLINE');
       }
 
-      // Validate command for device type and capabilities
-      const validCommands = getValidCommandsForDevice(device.deviceType, device.capabilities);
-      if (!validCommands.includes(command)) {
-        throw new ValidationError(`Command '${command}' is not supported for device type '${device.deviceType}'`);
+      // Validate command and parameters against the command catalog and device capabilities
+      const capabilities = normalizeCapabilities(device.capabilities);
+      const validation = validateDeviceCommandParameters(command, parameters, capabilities);
+      if (!validation.valid) {
+        throw new ValidationError(`Invalid command '${command}': ${validation.errors.join('; ')}`, {
+          errors: validation.errors,
+          validCommands: getSupportedCommands(capabilities)
+        });
       }
 
       // Send command via protocol adapter
@@ -1212,7 +1215,8 @@ router.post('/:id/command',
         device.protocol as any,
         device.deviceId,
         command,
-        parameters
+        validation.parameters,
+        { priority, scheduledAt, ttl }
       );
       
       const duration = Date.now() - startTime;
@@ -1331,7 +1335,7 @@ router.post('/:id/command',
  * GET /api/v1/devices/:id/status
  * Get current device status
  */
-router.get('/:id/status', validateParams({ id: commonSchemas.objectId }), async (req: Request, res: Response) => {
+router.get('/:id/status', validateObjectId(), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { refresh = false } = req.query;
@@ -1513,7 +1517,7 @@ router.get('/:id/status', validateParams({ id: commonSchemas.objectId }), async
  * Get device command/status history
  */
 router.get('/:id/history',
-  validateParams({ id: commonSchemas.objectId }),
+  validateObjectId(),
   validatePagination,
   async (req: Request, res: Response) => {
     try {
@@ -1584,7 +1588,7 @@ router.get('/:id/history',
  * POST /api/v1/devices/:id/test
  * Test device connectivity
  */
-router.post('/:id/test', validateParams({ id: commonSchemas.objectId }), async (req: Request, res: Response) => {
+router.post('/:id/test', validateObjectId(), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -1625,4 +1629,244 @@ router.post('/:id/test', validateParams({ id: commonSchemas.objectId }), async (
   }
 });
 
+/**
+ * GET /api/v1/devices/:id/schedules
+ * List device schedules
+ */
+router.get('/:id/schedules', validateParams(Joi.object({ id: commonSchemas.objectId.required() })), async (req: Request, res: Response) => {
+  try {
+    const device = await findUserDevice(req);
+
+    res.json({
+      success: true,
+      data: device.settings.schedules,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendScheduleError(req, res, error, 'Failed to retrieve schedules');
+  }
+});
+
+/**
+ * POST /api/v1/devices/:id/schedules
+ * Add a schedule to a device
+ */
+router.post('/:id/schedules',
+  validateParams(Joi.object({ id: commonSchemas.objectId.required() })),
+  validateBody(deviceSchemas.createSchedule),
+  async (req: Request, res: Response) => {
+    try {
+      const device = await findUserDevice(req);
+      const input: ScheduleInput = {
+        ...req.body,
+        timezone: req.body.timezone ?? req.user?.profile?.timezone ?? 'UTC'
+      };
+
+      const schedule = createSchedule(input, normalizeCapabilities(device.capabilities));
+      const updated = await deviceService.addSchedule(req.params.id!, schedule);
+
+      logger.info('Schedule created', {
+        userId: req.user?._id,
+        deviceId: req.params.id,
+        scheduleId: schedule.id,
+        pattern: schedule.pattern,
+        nextRunAt: schedule.nextRunAt,
+        requestId: req.requestId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: updated.settings.schedules.find(entry => entry.id === schedule.id),
+        message: 'Schedule created successfully',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendScheduleError(req, res, error, 'Failed to create schedule');
+    }
+  }
+);
+
+/**
+ * GET /api/v1/devices/:id/schedules/:scheduleId
+ * Get a device schedule
+ */
+router.get('/:id/schedules/:scheduleId', validateParams(deviceSchemas.scheduleParams), async (req: Request, res: Response) => {
+  try {
+    const device = await findUserDevice(req);
+
+    res.json({
+      success: true,
+      data: findSchedule(device, req.params.scheduleId!),
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendScheduleError(req, res, error, 'Failed to retrieve schedule');
+  }
+});
+
+/**
+ * PUT /api/v1/devices/:id/schedules/:scheduleId
+ * Update a device schedule; its next run is recomputed from now
+ */
+router.put('/:id/schedules/:scheduleId',
+  validateParams(deviceSchemas.scheduleParams),
+  validateBody(deviceSchemas.updateSchedule),
+  async (req: Request, res: Response) => {
+    try {
+      const { id, scheduleId } = req.params as { id: string; scheduleId: string };
+      const device = await findUserDevice(req);
+      const current = findSchedule(device, scheduleId);
+
+      const updates = scheduleUpdates(current, req.body as ScheduleChanges, normalizeCapabilities(device.capabilities));
+      const updated = await deviceService.updateSchedule(id, scheduleId, updates);
+
+      logger.info('Schedule updated', {
+        userId: req.user?._id,
+        deviceId: id,
+        scheduleId,
+        fields: Object.keys(req.body),
+        nextRunAt: updates.nextRunAt,
+        requestId: req.requestId
+      });
+
+      res.json({
+        success: true,
+        data: findSchedule(updated, scheduleId),
+        message: 'Schedule updated successfully',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendScheduleError(req, res, error, 'Failed to update schedule');
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/devices/:id/schedules/:scheduleId
+ * Remove a device schedule
+ */
+router.delete('/:id/schedules/:scheduleId', validateParams(deviceSchemas.scheduleParams), async (req: Request, res: Response) => {
+  try {
+    const { id, scheduleId } = req.params as { id: string; scheduleId: string };
+    const device = await findUserDevice(req);
+    findSchedule(device, scheduleId);
+
+    await deviceService.removeSchedule(id, scheduleId);
+
+    logger.info('Schedule deleted', {
+      userId: req.user?._id,
+      deviceId: id,
+      scheduleId,
+      requestId: req.requestId
+    });
+
+    res.json({
+      success: true,
+      data: { id: scheduleId },
+      message: 'Schedule removed successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    sendScheduleError(req, res, error, 'Failed to remove schedule');
+  }
+});
+
+/**
+ * GET /api/v1/devices/:id/schedules/:scheduleId/next-runs
+ * Preview when a schedule runs next and what it sends
+ */
+router.get('/:id/schedules/:scheduleId/next-runs',
+  validateParams(deviceSchemas.scheduleParams),
+  validateQuery(deviceSchemas.nextRunsQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const device = await findUserDevice(req);
+      const schedule = findSchedule(device, req.params.scheduleId!);
+      const commands = scheduleCommands(schedule);
+
+      const runs = nextScheduleEvents(schedule, new Date(), Number(req.query.count)).map(event => ({
+        at: event.at,
+        action: event.action,
+        ...commandForAction(commands, event.action)
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          scheduleId: schedule.id,
+          enabled: schedule.enabled,
+          timezone: schedule.timezone,
+          runs
+        },
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      sendScheduleError(req, res, error, 'Failed to preview schedule runs');
+    }
+  }
+);
+
+// Schedule route helpers
+
+async function findUserDevice(req: Request) {
+  const currentUser = req.user;
+  if (!deviceService || !currentUser) {
+    throw new ApiError('Device service not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+  }
+
+  const device = await deviceService.findOne({ _id: req.params.id, userId: currentUser._id });
+  if (!device) {
+    throw new ApiError('Device not found or access denied', 404, 'DEVICE_NOT_FOUND');
+  }
+  return device;
+}
+
+function findSchedule(device: { settings: { schedules: Schedule[] } }, scheduleId: string): Schedule {
+  const schedule = device.settings.schedules.find(entry => entry.id === scheduleId);
+  if (!schedule) {
+    throw new ApiError('Schedule not found', 404, 'SCHEDULE_NOT_FOUND');
+  }
+  return schedule;
+}
+
+function sendScheduleError(req: Request, res: Response, error: unknown, message: string): void {
+  logger.error(message, {
+    userId: req.user?._id,
+    deviceId: req.params.id,
+    scheduleId: req.params.scheduleId,
+    error: error instanceof Error ? error.message : error,
+    requestId: req.requestId
+  });
+
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details && { details: error.details }),
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      error: message,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+}
+
 export default router;
\ No newline at end of file
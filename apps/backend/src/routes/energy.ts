@@ -0,0 +1,924 @@
+import { Router, Request, Response } from 'express';
+import { validateBody, validateParams, validateQuery, energySchemas } from '@/middleware/validation';
+import { AuthMiddleware } from '@/middleware/auth';
+import { DeviceService } from '@/services/database/DeviceService';
+import { EnergyRollupService, EnergyStatsValues, ALL_DEVICES } from '@/services/energy-rollup';
+import { MeasurementAggregate, MeasurementInterval, MeasurementStore, EnergyMeasurementRecord } from '@/services/measurements';
+import { EnergyFlow } from '@/models/EnergyMeasurement';
+import { IDeviceDocument } from '@/models/Device';
+import { User } from '@/models/User';
+import { EnergyPreferences, UserPreferences } from '@/models/UserPreferences';
+import { EnergyFlowService } from '@/services/energy-flow';
+import { VirtualMeterService, createVirtualMeter, getMeterTree, updateMeter } from '@/services/meters';
+import { EnergyPriceService } from '@/services/prices';
+import { EnergyReportService } from '@/services/reports';
+import { TariffEngine } from '@/services/tariff-engine';
+import { ApiError } from '@/utils/errors';
+import { isValidTimeZone, startOfPeriod } from '@/utils/timezone';
+import {
+  EnergyDashboardData,
+  EnergyReportFormat,
+  EnergyReportType,
+  EnergyResolution,
+  EnergySeriesPoint,
+  EnergyStatsGroupBy,
+  EnergyStatsSummary
+} from '@maestro/shared/types';
+import logger from '@/config/logger';
+
+/**
+ * Energy Data Routes
+ *
+ * Serves measurement series, rolled-up statistics, the dashboard summary, the
+ * latest energy flow and the meter tree of the authenticated user's devices,
+ * manages virtual meters, and generates and serves energy reports
+ * All routes require authentication
+ */
+const router = Router();
+
+// Services (would typically be injected via DI container)
+let deviceService: DeviceService;
+let measurementStore: MeasurementStore;
+let energyRollup: EnergyRollupService | undefined;
+let energyPrices: EnergyPriceService | undefined;
+let energyFlow: EnergyFlowService | undefined;
+let virtualMeters: VirtualMeterService | undefined;
+let energyReports: EnergyReportService | undefined;
+let authMiddleware: AuthMiddleware;
+
+// Service initialization function (called from app startup)
+export function initializeEnergyServices(
+  authMw: AuthMiddleware,
+  store: MeasurementStore,
+  rollupService?: EnergyRollupService,
+  priceService?: EnergyPriceService,
+  flowService?: EnergyFlowService,
+  virtualMeterService?: VirtualMeterService,
+  reportService?: EnergyReportService
+) {
+  deviceService = new DeviceService();
+  measurementStore = store;
+  energyRollup = rollupService;
+  energyPrices = priceService;
+  energyFlow = flowService;
+  virtualMeters = virtualMeterService;
+  energyReports = reportService;
+  authMiddleware = authMw;
+}
+
+// Apply authentication middleware to all routes
+router.use((req, res, next) => {
+  if (authMiddleware) {
+    return authMiddleware.requireAuth()(req, res, next);
+  }
+  return next();
+});
+
+// A device without a fresh measurement does not count towards current power
+const CURRENT_WINDOW = 10 * 60 * 1000;
+
+// Largest span served at each automatic resolution
+const AUTO_RESOLUTIONS: Array<{ maxSpan: number; resolution: MeasurementInterval }> = [
+  { maxSpan: 6 * 3600000, resolution: 'minute' },
+  { maxSpan: 7 * 86400000, resolution: 'hour' },
+  { maxSpan: 90 * 86400000, resolution: 'day' }
+];
+
+/**
+ * GET /api/v1/energy/measurements
+ * Measurement series of the user's devices, raw or aggregated
+ */
+router.get('/measurements', validateQuery(energySchemas.measurementsQuery), async (req: Request, res: Response) => {
+  try {
+    const { page, limit, order } = req.query as unknown as { page: number; limit: number; order: 'asc' | 'desc' };
+    const { start, end } = req.query as unknown as { start: Date; end: Date };
+    const currentUser = req.user;
+
+    if (!measurementStore || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const devices = await getOwnedDevices(String(currentUser._id), req.query.deviceId as string | undefined);
+    const resolution = resolveResolution(req.query.resolution as EnergyResolution | 'auto', start, end);
+    const query = {
+      userId: String(currentUser._id),
+      deviceId: devices.map(device => device.deviceId),
+      start,
+      end,
+      order,
+      skip: (page - 1) * limit,
+      limit
+    };
+
+    const [total, series] = await Promise.all([
+      measurementStore.count(query, resolution === 'raw' ? undefined : resolution),
+      resolution === 'raw'
+        ? measurementStore.queryRange(query).then(records => records.map(toSeriesPoint))
+        : measurementStore.aggregate(query, resolution).then(aggregates => aggregates.map(toAggregatePoint))
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    res.json({
+      success: true,
+      data: series,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+      resolution,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy measurements request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy measurements',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/stats
+ * Rolled-up statistics per period, for all devices or grouped
+ */
+router.get('/stats', validateQuery(energySchemas.statsQuery), async (req: Request, res: Response) => {
+  try {
+    const { page, limit, order } = req.query as unknown as { page: number; limit: number; order: 'asc' | 'desc' };
+    const { start, end } = req.query as unknown as { start: Date; end: Date };
+    const period = req.query.period as EnergyStatsValues['period'];
+    const requestedDevices = req.query.deviceId as string | undefined;
+    const currentUser = req.user;
+
+    if (!energyRollup || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const userId = String(currentUser._id);
+    const devices = await getOwnedDevices(userId, requestedDevices);
+    const groupBy = (req.query.groupBy as EnergyStatsGroupBy | undefined) ??
+      (requestedDevices ? 'device' : undefined);
+
+    // Meters measure devices that are already counted, so only show up on their own
+    const groups = new Map<string, string>(groupBy
+      ? devices
+        .filter(device => groupBy === 'device' || device.energyRole !== 'monitor')
+        .map(device => [device.deviceId, groupKey(device, groupBy)])
+      : [[ALL_DEVICES, ALL_DEVICES]]
+    );
+    const result = await energyRollup.getGroupedStats(userId, period, start, end, groups, { page, limit, order });
+    const deviceIds = devices.map(device => device.deviceId);
+
+    res.json({
+      success: true,
+      data: result.data.map(({ group, rollups }) =>
+        toSummary(group, rollups, groupBy ? rollups.map(rollup => rollup.deviceId) : deviceIds)
+      ),
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy stats request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy statistics',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/dashboard
+ * Current power and today's totals in the user's time zone
+ */
+router.get('/dashboard', async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!measurementStore || !energyRollup || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const userId = String(currentUser._id);
+    const now = new Date();
+    const [devices, user, preferences, flow] = await Promise.all([
+      deviceService.findByUser(userId),
+      User.findById(userId, { 'profile.timezone': 1 }).lean(),
+      UserPreferences.findOne({ userId }, { energy: 1 }).lean(),
+      EnergyFlow.findOne({ userId, timestamp: { $gte: new Date(now.getTime() - CURRENT_WINDOW) } })
+        .sort({ timestamp: -1 })
+        .lean()
+    ]);
+
+    const timeZone = user?.profile?.timezone && isValidTimeZone(user.profile.timezone)
+      ? user.profile.timezone
+      : 'UTC';
+    const dayStart = startOfPeriod(now, 'day', timeZone);
+    const monthStart = startOfPeriod(now, 'month', timeZone);
+    const [[today], [month]] = await Promise.all([
+      energyRollup.getStats(userId, 'day', dayStart, new Date(dayStart.getTime() + 1)),
+      energyRollup.getStats(userId, 'month', monthStart, new Date(monthStart.getTime() + 1))
+    ]);
+
+    const latest = await Promise.all(devices.map(async device => ({
+      device,
+      measurement: await measurementStore.latest(device.deviceId)
+    })));
+    const current = latest.filter((entry): entry is { device: IDeviceDocument; measurement: EnergyMeasurementRecord } =>
+      entry.measurement !== null && now.getTime() - entry.measurement.timestamp.getTime() <= CURRENT_WINDOW
+    );
+
+    const consumers = current.filter(({ device }) => !device.energyRole || device.energyRole === 'consumer');
+    const producers = current.filter(({ device }) => device.energyRole === 'producer');
+    const batteries = current.filter(({ device, measurement }) =>
+      device.energyRole === 'storage' && measurement.measurements.batteryLevel !== undefined
+    );
+    const efficiencies = current
+      .map(({ measurement }) => measurement.measurements.efficiency)
+      .filter((efficiency): efficiency is number => efficiency !== undefined);
+
+    const currentPower = sumOf(consumers.map(({ measurement }) => measurement.measurements.activePower ?? 0));
+    // The price service adds today's spot prices to real_time tariffs
+    const tariff = energyPrices
+      ? await energyPrices.getUserTariff(userId, now)
+      : userTariff(userId, preferences?.energy, timeZone);
+    const currentRate = tariff?.marginalRate(now, month?.consumption?.total ?? 0) ?? 0;
+
+    const dashboard: EnergyDashboardData = {
+      currentPower,
+      todayConsumption: today?.consumption?.total ?? 0,
+      todayCost: today?.cost?.total ?? 0,
+      currentCost: (currentPower / 1000) * currentRate,
+      peakPower: today?.consumption?.peak ?? 0,
+      peakTime: today?.consumption?.peakTime ?? dayStart,
+      activeDevices: current.filter(({ measurement }) => (measurement.measurements.activePower ?? 0) > 0).length,
+      totalDevices: devices.length,
+      carbonFootprint: today?.carbon?.total ?? 0,
+      efficiency: efficiencies.length > 0 ? sumOf(efficiencies) / efficiencies.length : 0,
+      gridStatus: !flow ? 'connected' : flow.gridExport > 0 ? 'exporting' : flow.gridImport > 0 ? 'importing' : 'connected',
+      ...(batteries.length > 0 && {
+        batteryLevel: sumOf(batteries.map(({ measurement }) => measurement.measurements.batteryLevel!)) / batteries.length
+      }),
+      ...(producers.length > 0 && {
+        solarProduction: sumOf(producers.map(({ measurement }) => measurement.measurements.activePower ?? 0))
+      })
+    };
+
+    res.json({
+      success: true,
+      data: dashboard,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy dashboard request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy dashboard',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/flow
+ * Latest energy flow between grid, solar, battery and consumers
+ */
+router.get('/flow', async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      throw new ApiError('User not authenticated', 401, 'UNAUTHORIZED');
+    }
+
+    // The live snapshot when this process computes flows, else the last stored one
+    const userId = String(currentUser._id);
+    const flow = energyFlow?.getLatest(userId) ?? await EnergyFlow.findOne({ userId }, { __v: 0 })
+      .sort({ timestamp: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: flow,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy flow request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy flow',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/meters
+ * Meter tree with each meter checked against its sub-meters: the unmeasured
+ * remainder per meter, and meters whose sub-meters measure more than they do
+ */
+router.get('/meters', validateQuery(energySchemas.meterTreeQuery), async (req: Request, res: Response) => {
+  try {
+    const { tolerance, relativeTolerance } = req.query as unknown as { tolerance?: number; relativeTolerance?: number };
+    const currentUser = req.user;
+
+    if (!measurementStore || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const tree = await getMeterTree(String(currentUser._id), measurementStore, {
+      staleAfter: CURRENT_WINDOW,
+      ...(tolerance !== undefined && { tolerance }),
+      ...(relativeTolerance !== undefined && { relativeTolerance })
+    });
+
+    res.json({
+      success: true,
+      data: tree,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Meter tree request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve meter tree',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/v1/energy/meters
+ * Create a virtual meter computed from a formula over other devices
+ */
+router.post('/meters', validateBody(energySchemas.createVirtualMeter), async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      throw new ApiError('User not authenticated', 401, 'UNAUTHORIZED');
+    }
+
+    const meter = await createVirtualMeter(String(currentUser._id), req.body);
+    virtualMeters?.invalidate();
+
+    logger.info('Virtual meter created', {
+      userId: currentUser._id,
+      deviceId: meter.deviceId,
+      formula: meter.virtualMeter?.formula,
+      requestId: req.requestId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: meter,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Virtual meter creation failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create virtual meter',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * PUT /api/v1/energy/meters/:deviceId
+ * Rename a meter, change a virtual meter's formula, or set the parent meter of any device
+ */
+router.put(
+  '/meters/:deviceId',
+  validateParams(energySchemas.meterParams),
+  validateBody(energySchemas.updateMeter),
+  async (req: Request, res: Response) => {
+    try {
+      const currentUser = req.user;
+
+      if (!currentUser) {
+        throw new ApiError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const meter = await updateMeter(String(currentUser._id), req.params.deviceId!, req.body);
+      virtualMeters?.invalidate();
+
+      res.json({
+        success: true,
+        data: meter,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+
+    } catch (error) {
+      logger.error('Meter update failed', {
+        userId: req.user?._id,
+        deviceId: req.params.deviceId,
+        error: error instanceof Error ? error.message : error,
+        requestId: req.requestId
+      });
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update meter',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+      }
+    }
+  }
+);
+
+/**
+ * GET /api/v1/energy/reports
+ * Stored reports of the user, newest first, without series, breakdown and insights
+ */
+router.get('/reports', validateQuery(energySchemas.reportsQuery), async (req: Request, res: Response) => {
+  try {
+    const { page, limit, reportType } = req.query as unknown as { page: number; limit: number; reportType?: EnergyReportType };
+    const currentUser = req.user;
+
+    if (!energyReports || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const result = await energyReports.list(String(currentUser._id), { page, limit, reportType });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy reports request failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy reports',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/v1/energy/reports
+ * Generate a daily, weekly, monthly, yearly or custom report
+ */
+router.post('/reports', validateBody(energySchemas.createReport), async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!energyReports || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const report = await energyReports.generate(String(currentUser._id), req.body);
+
+    logger.info('Energy report generated', {
+      userId: currentUser._id,
+      reportId: report._id,
+      reportType: report.reportType,
+      requestId: req.requestId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy report generation failed', {
+      userId: req.user?._id,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate energy report',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/reports/:reportId
+ * A stored report with all its figures
+ */
+router.get('/reports/:reportId', validateParams(energySchemas.reportParams), async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!energyReports || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    const report = await energyReports.get(String(currentUser._id), req.params.reportId!);
+
+    res.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy report request failed', {
+      userId: req.user?._id,
+      reportId: req.params.reportId,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve energy report',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/v1/energy/reports/:reportId/download
+ * A stored report as a JSON, CSV or PDF file
+ */
+router.get(
+  '/reports/:reportId/download',
+  validateParams(energySchemas.reportParams),
+  validateQuery(energySchemas.reportDownloadQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const currentUser = req.user;
+
+      if (!energyReports || !currentUser) {
+        throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+      }
+
+      const report = await energyReports.get(String(currentUser._id), req.params.reportId!);
+      const file = await energyReports.render(report, req.query.format as EnergyReportFormat | undefined);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.content);
+
+    } catch (error) {
+      logger.error('Energy report download failed', {
+        userId: req.user?._id,
+        reportId: req.params.reportId,
+        error: error instanceof Error ? error.message : error,
+        requestId: req.requestId
+      });
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to render energy report',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+      }
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/energy/reports/:reportId
+ * Delete a stored report
+ */
+router.delete('/reports/:reportId', validateParams(energySchemas.reportParams), async (req: Request, res: Response) => {
+  try {
+    const currentUser = req.user;
+
+    if (!energyReports || !currentUser) {
+      throw new ApiError('Energy services not initialized or user not authenticated', 500, 'SERVICE_NOT_INITIALIZED');
+    }
+
+    await energyReports.delete(String(currentUser._id), req.params.reportId!);
+
+    res.json({
+      success: true,
+      message: 'Report deleted',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+
+  } catch (error) {
+    logger.error('Energy report deletion failed', {
+      userId: req.user?._id,
+      reportId: req.params.reportId,
+      error: error instanceof Error ? error.message : error,
+      requestId: req.requestId
+    });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete energy report',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+    }
+  }
+});
+
+// Helper functions
+
+/**
+ * Devices of the user, narrowed to the comma-separated device IDs if given
+ */
+async function getOwnedDevices(userId: string, deviceIds?: string): Promise<IDeviceDocument[]> {
+  const devices = await deviceService.findByUser(userId);
+  if (!deviceIds) {
+    return devices;
+  }
+
+  const requested = [...new Set(deviceIds.split(',').map(id => id.trim()).filter(Boolean))];
+  const owned = new Map(devices.map(device => [device.deviceId, device]));
+  const missing = requested.filter(id => !owned.has(id));
+  if (missing.length > 0) {
+    throw new ApiError(`Device not found: ${missing.join(', ')}`, 404, 'DEVICE_NOT_FOUND');
+  }
+
+  return requested.map(id => owned.get(id)!);
+}
+
+function resolveResolution(resolution: EnergyResolution | 'auto', start: Date, end: Date): EnergyResolution {
+  if (resolution !== 'auto') {
+    return resolution;
+  }
+
+  const span = end.getTime() - start.getTime();
+  return AUTO_RESOLUTIONS.find(entry => span <= entry.maxSpan)?.resolution ?? 'week';
+}
+
+function toSeriesPoint(record: EnergyMeasurementRecord): EnergySeriesPoint {
+  const { activePower, energyConsumed, energyProduced } = record.measurements;
+  return {
+    deviceId: record.deviceId,
+    timestamp: record.timestamp,
+    ...(activePower !== undefined && { avgPower: activePower, maxPower: activePower, minPower: activePower }),
+    energyConsumed: energyConsumed ?? 0,
+    energyProduced: energyProduced ?? 0,
+    dataPoints: 1
+  };
+}
+
+function toAggregatePoint(aggregate: MeasurementAggregate): EnergySeriesPoint {
+  return {
+    deviceId: aggregate.deviceId,
+    timestamp: aggregate.periodStart,
+    ...(aggregate.avgPower !== undefined && { avgPower: aggregate.avgPower }),
+    ...(aggregate.maxPower !== undefined && { maxPower: aggregate.maxPower }),
+    ...(aggregate.minPower !== undefined && { minPower: aggregate.minPower }),
+    energyConsumed: aggregate.energyConsumed,
+    energyProduced: aggregate.energyProduced,
+    dataPoints: aggregate.dataPoints
+  };
+}
+
+function groupKey(device: IDeviceDocument, groupBy: EnergyStatsGroupBy): string {
+  switch (groupBy) {
+    case 'device':
+      return device.deviceId;
+    case 'deviceType':
+      return device.deviceType;
+    default:
+      return device[groupBy] || 'unassigned';
+  }
+}
+
+/**
+ * Combine rollups of one period; totals and power are summed across devices,
+ * uptime and data quality averaged
+ */
+function toSummary(group: string, rollups: EnergyStatsValues[], deviceIds: string[]): EnergyStatsSummary {
+  const first = rollups[0]!;
+  const peak = rollups.reduce((best, rollup) =>
+    (rollup.consumption?.peak ?? 0) > (best.consumption?.peak ?? 0) ? rollup : best
+  );
+  const costs = rollups.filter(rollup => rollup.cost !== undefined);
+  const carbon = rollups.filter(rollup => rollup.carbon !== undefined);
+  const avoided = carbon.filter(rollup => rollup.carbon!.avoided !== undefined);
+  const previous = rollups.filter(rollup => rollup.compared?.previousPeriod !== undefined);
+
+  return {
+    group,
+    period: first.period,
+    periodStart: first.periodStart,
+    periodEnd: first.periodEnd,
+    deviceIds,
+    consumption: sumOf(rollups.map(rollup => rollup.consumption?.total ?? 0)),
+    production: sumOf(rollups.map(rollup => rollup.production?.total ?? 0)),
+    averagePower: sumOf(rollups.map(rollup => rollup.consumption?.average ?? 0)),
+    peakPower: sumOf(rollups.map(rollup => rollup.consumption?.peak ?? 0)),
+    ...(peak.consumption?.peakTime && { peakTime: peak.consumption.peakTime }),
+    ...(costs.length > 0 && { cost: sumOf(costs.map(rollup => rollup.cost!.total)) }),
+    ...(carbon.length > 0 && { carbon: sumOf(carbon.map(rollup => rollup.carbon!.total)) }),
+    ...(avoided.length > 0 && { avoidedCarbon: sumOf(avoided.map(rollup => rollup.carbon!.avoided!)) }),
+    ...(previous.length > 0 && {
+      previousPeriod: sumOf(previous.map(rollup => rollup.compared!.previousPeriod!))
+    }),
+    uptime: sumOf(rollups.map(rollup => rollup.uptime)) / rollups.length,
+    dataQuality: sumOf(rollups.map(rollup => rollup.dataQuality)) / rollups.length
+  };
+}
+
+/**
+ * Tariff of the user's preferences; invalid tariffs fall back to the flat rate
+ */
+function userTariff(userId: string, energy: Partial<EnergyPreferences> | undefined, timeZone: string): TariffEngine | undefined {
+  try {
+    return TariffEngine.fromPreferences(energy, timeZone);
+  } catch (error) {
+    logger.warn('Invalid tariff preferences, using the flat rate', {
+      userId,
+      error: error instanceof Error ? error.message : error
+    });
+    return TariffEngine.flatRate(energy, timeZone);
+  }
+}
+
+function sumOf(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+export default router;
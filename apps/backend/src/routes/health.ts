@@ -576,7 +576,8 @@ async function getDetailedAdapterStats() {
     return {
       adapters: diagnostics,
       ready: protocolManager.isReady(),
-      totalAdapters: protocolManager.getAdapters().length
+      totalAdapters: protocolManager.getAdapters().length,
+      circuitBreakers: protocolManager.getCircuitBreakers()
     };
   } catch (error) {
     throw new Error(`Adapter stats failed: ${error}`);
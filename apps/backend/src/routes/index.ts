@@ -7,6 +7,8 @@ import authRoutes, { initializeAuthServices } from './auth';
 import userRoutes, { initializeUserServices } from './users';
 import deviceRoutes, { initializeDeviceServices } from './devices';
 import healthRoutes, { initializeHealthServices } from './health';
+import energyRoutes, { initializeEnergyServices } from './energy';
+import automationRoutes, { initializeAutomationServices } from './automations';
 
 /**
  * Initialize all route services
@@ -21,6 +23,13 @@ export const initializeRouteServices = (services: {
   healthService: any;
   deviceService: any;
   userService: any;
+  measurementStore: any;
+  energyRollup?: any;
+  energyPrices?: any;
+  energyFlow?: any;
+  virtualMeters?: any;
+  energyReports?: any;
+  automations?: any;
 }): void => {
   logger.info('Initializing route services...');
   
@@ -50,6 +59,20 @@ export const initializeRouteServices = (services: {
     services.userService
   );
   
+  // Initialize energy services
+  initializeEnergyServices(
+    services.authMiddleware,
+    services.measurementStore,
+    services.energyRollup,
+    services.energyPrices,
+    services.energyFlow,
+    services.virtualMeters,
+    services.energyReports
+  );
+
+  // Initialize automation services
+  initializeAutomationServices(services.authMiddleware, services.automations);
+  
   logger.info('Route services initialized successfully');
 };
 
@@ -72,6 +95,8 @@ export const setupRoutes = (app: Application): void => {
   v1Router.use('/users', userRoutes);
   v1Router.use('/devices', deviceRoutes);
   v1Router.use('/health', healthRoutes);
+  v1Router.use('/energy', energyRoutes);
+  v1Router.use('/automations', automationRoutes);
 
   // Mount v1 router on API router
   apiRouter.use('/v1', v1Router);
@@ -91,6 +116,8 @@ export const setupRoutes = (app: Application): void => {
           users: '/api/v1/users',
           devices: '/api/v1/devices',
           health: '/api/v1/health',
+          energy: '/api/v1/energy',
+          automations: '/api/v1/automations',
           docs: '/api/docs',
         },
         features: {
@@ -150,6 +177,16 @@ const setupApiDocumentation = (app: Application): void => {
           methods: ['GET'],
           description: 'System health endpoints',
         },
+        {
+          path: '/api/v1/energy',
+          methods: ['GET'],
+          description: 'Energy measurements, statistics and dashboard endpoints',
+        },
+        {
+          path: '/api/v1/automations',
+          methods: ['GET', 'POST', 'PUT', 'DELETE'],
+          description: 'Automation rule endpoints',
+        },
       ],
     });
   });
@@ -0,0 +1,31 @@
+/**
+ * Energy Rollup CLI
+ *
+ * Usage:
+ *   pnpm energy:rollup backfill <from> [to] [userId]
+ *   pnpm energy:rollup retention
+ */
+
+import logger from '@/config/logger';
+import { MongooseManager } from '@/services/database/MongooseManager';
+import { runRollupCommand } from '@/services/energy-rollup';
+
+async function main(): Promise<void> {
+  const [command = '', ...args] = process.argv.slice(2);
+  const mongooseManager = new MongooseManager();
+
+  await mongooseManager.connect();
+  try {
+    await runRollupCommand(command, args);
+  } finally {
+    await mongooseManager.disconnect();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  error => {
+    logger.error('Energy rollup command failed', { error });
+    process.exit(1);
+  }
+);
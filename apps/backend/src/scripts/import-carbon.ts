@@ -0,0 +1,31 @@
+/**
+ * Carbon Intensity Import CLI
+ *
+ * Usage:
+ *   pnpm carbon:import import <file.csv|file.json> [zone] [g|kg]
+ *   pnpm carbon:import fetch [zone,...]
+ */
+
+import logger from '@/config/logger';
+import { MongooseManager } from '@/services/database/MongooseManager';
+import { createCarbonProvider, runCarbonCommand } from '@/services/carbon';
+
+async function main(): Promise<void> {
+  const [command = '', ...args] = process.argv.slice(2);
+  const mongooseManager = new MongooseManager();
+
+  await mongooseManager.connect();
+  try {
+    await runCarbonCommand(command, args, command === 'fetch' ? createCarbonProvider() : undefined);
+  } finally {
+    await mongooseManager.disconnect();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  error => {
+    logger.error('Carbon intensity import command failed', { error });
+    process.exit(1);
+  }
+);
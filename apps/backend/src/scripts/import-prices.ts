@@ -0,0 +1,31 @@
+/**
+ * Price Import CLI
+ *
+ * Usage:
+ *   pnpm prices:import import <file.xml|file.csv|file.json> [zone] [currency] [kWh|MWh]
+ *   pnpm prices:import fetch [zone,...]
+ */
+
+import logger from '@/config/logger';
+import { MongooseManager } from '@/services/database/MongooseManager';
+import { createPriceProvider, runPriceCommand } from '@/services/prices';
+
+async function main(): Promise<void> {
+  const [command = '', ...args] = process.argv.slice(2);
+  const mongooseManager = new MongooseManager();
+
+  await mongooseManager.connect();
+  try {
+    await runPriceCommand(command, args, command === 'fetch' ? createPriceProvider() : undefined);
+  } finally {
+    await mongooseManager.disconnect();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  error => {
+    logger.error('Price import command failed', { error });
+    process.exit(1);
+  }
+);
@@ -0,0 +1,142 @@
+/**
+ * Energy Flow Tests
+ *
+ * Household power flows computed from the latest readings of each device, with
+ * and without a grid meter.
+ */
+
+import { computeEnergyFlow, FlowReading, GRID_NODE, REMAINDER_NODE } from '../energy-flow';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+
+function flowsOf(readings: FlowReading[], options = {}) {
+  return computeEnergyFlow(readings, NOW, options).flows.map(({ from, to, power }) => ({ from, to, power }));
+}
+
+describe('computeEnergyFlow', () => {
+  it('sends solar to loads, then the battery, then the grid', () => {
+    const flow = computeEnergyFlow([
+      { deviceId: 'solar', role: 'producer', power: 3000 },
+      { deviceId: 'fridge', power: 1000 },
+      { deviceId: 'heater', role: 'consumer', power: 1000 },
+      { deviceId: 'battery', role: 'storage', power: 500 }
+    ], NOW);
+
+    expect(flow.flows).toEqual([
+      { from: 'solar', to: 'fridge', power: 1000 },
+      { from: 'solar', to: 'heater', power: 1000 },
+      { from: 'solar', to: 'battery', power: 500 },
+      { from: 'solar', to: GRID_NODE, power: 500 }
+    ]);
+    expect(flow).toMatchObject({
+      timestamp: NOW,
+      totalProduction: 3000,
+      totalConsumption: 2000,
+      gridImport: 0,
+      gridExport: 500,
+      batteryCharge: 500,
+      batteryDischarge: 0,
+      netPower: 500
+    });
+  });
+
+  it('lets the battery supply loads before exporting', () => {
+    expect(flowsOf([
+      { deviceId: 'battery', role: 'storage', power: -2000 },
+      { deviceId: 'oven', power: 1500 }
+    ])).toEqual([
+      { from: 'battery', to: 'oven', power: 1500 },
+      { from: 'battery', to: GRID_NODE, power: 500 }
+    ]);
+  });
+
+  it('covers what is left of loads and charging from the grid', () => {
+    const flow = computeEnergyFlow([
+      { deviceId: 'solar', role: 'producer', power: 500 },
+      { deviceId: 'car', power: 3000 },
+      { deviceId: 'battery', role: 'storage', power: 1000 }
+    ], NOW);
+
+    expect(flow.flows).toEqual([
+      { from: 'solar', to: 'car', power: 500 },
+      { from: GRID_NODE, to: 'car', power: 2500 },
+      { from: GRID_NODE, to: 'battery', power: 1000 }
+    ]);
+    expect(flow.gridImport).toBe(3500);
+  });
+
+  it('splits group flows in proportion to device power', () => {
+    expect(flowsOf([
+      { deviceId: 'roof', role: 'producer', power: 3000 },
+      { deviceId: 'balcony', role: 'producer', power: 1000 },
+      { deviceId: 'washer', power: 2000 },
+      { deviceId: 'dryer', power: 2000 }
+    ])).toEqual([
+      { from: 'roof', to: 'washer', power: 1500 },
+      { from: 'roof', to: 'dryer', power: 1500 },
+      { from: 'balcony', to: 'washer', power: 500 },
+      { from: 'balcony', to: 'dryer', power: 500 }
+    ]);
+  });
+
+  it('balances unmeasured load as the remainder with a grid meter', () => {
+    const flow = computeEnergyFlow([
+      { deviceId: 'meter', role: 'grid', power: 1500 },
+      { deviceId: 'solar', role: 'producer', power: 1000 },
+      { deviceId: 'fridge', power: 500 }
+    ], NOW);
+
+    expect(flow.flows).toEqual([
+      { from: 'solar', to: 'fridge', power: 200 },
+      { from: 'solar', to: REMAINDER_NODE, power: 800 },
+      { from: GRID_NODE, to: 'fridge', power: 300 },
+      { from: GRID_NODE, to: REMAINDER_NODE, power: 1200 }
+    ]);
+    expect(flow).toMatchObject({ totalConsumption: 2500, gridImport: 1500, gridExport: 0 });
+  });
+
+  it('exports what the grid meter reports as negative', () => {
+    const flow = computeEnergyFlow([
+      { deviceId: 'meter', role: 'grid', power: -800 },
+      { deviceId: 'solar', role: 'producer', power: 1000 }
+    ], NOW);
+
+    expect(flow.flows).toEqual([
+      { from: 'solar', to: REMAINDER_NODE, power: 200 },
+      { from: 'solar', to: GRID_NODE, power: 800 }
+    ]);
+    expect(flow.gridExport).toBe(800);
+  });
+
+  it('leaves out sub-meters and counts bidirectional devices by their sign', () => {
+    expect(flowsOf([
+      { deviceId: 'panel', role: 'monitor', power: 5000 },
+      { deviceId: 'inverter', role: 'bidirectional', power: -1200 },
+      { deviceId: 'pump', role: 'bidirectional', power: 1200 }
+    ])).toEqual([{ from: 'inverter', to: 'pump', power: 1200 }]);
+  });
+
+  it('adds energy, cost and emissions of grid flows over the interval', () => {
+    const flow = computeEnergyFlow([
+      { deviceId: 'solar', role: 'producer', power: 1000 },
+      { deviceId: 'heater', power: 2000 }
+    ], NOW, { intervalMs: 1800000, gridRate: 0.3, gridIntensity: 0.4 });
+
+    expect(flow.flows[0]).toEqual({ from: 'solar', to: 'heater', power: 1000, energy: 0.5 });
+    expect(flow.flows[1]).toMatchObject({ from: GRID_NODE, to: 'heater', power: 1000, energy: 0.5 });
+    expect(flow.flows[1]!.cost).toBeCloseTo(0.15);
+    expect(flow.flows[1]!.carbon).toBeCloseTo(0.2);
+  });
+
+  it('drops flows below the minimum power', () => {
+    expect(flowsOf([
+      { deviceId: 'solar', role: 'producer', power: 1000 },
+      { deviceId: 'heater', power: 990 },
+      { deviceId: 'charger', power: 10 }
+    ], { minPower: 50 })).toEqual([{ from: 'solar', to: 'heater', power: 990 }]);
+  });
+
+  it('is empty without readings', () => {
+    expect(computeEnergyFlow([], NOW)).toMatchObject({ flows: [], totalConsumption: 0, gridImport: 0, netPower: 0 });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Energy Ingestion Tests
+ *
+ * Normalization of device state, counter deltas and the energy derived from
+ * status updates, and the buffer of measurements waiting to be written.
+ * Devices are resolved from an in-memory device service; measurements go to
+ * a stand-in store.
+ */
+
+import { DeviceStatusUpdate, EnergyRole } from '@maestro/shared/types';
+
+import { DeviceService } from '@/services/database/DeviceService';
+import { EnergyIngestionOptions, EnergyIngestionService, counterDelta, normalizeEnergyState } from '@/services/energy-ingestion';
+import { EnergyMeasurementRecord, MeasurementStore } from '@/services/measurements';
+import { ProtocolAdapterManager } from '@/services/protocol-adapter-manager';
+
+const START = Date.parse('2026-03-02T10:00:00Z');
+const MINUTE = 60000;
+
+function createService(
+  roles: Record<string, EnergyRole | undefined>,
+  store = { write: async () => undefined } as unknown as MeasurementStore,
+  options: EnergyIngestionOptions = {}
+): EnergyIngestionService {
+  const deviceService = {
+    findOne: async ({ deviceId }: { deviceId: string }) =>
+      deviceId in roles ? { userId: 'user-1', energyRole: roles[deviceId] } : null
+  } as unknown as DeviceService;
+  return new EnergyIngestionService({} as ProtocolAdapterManager, deviceService, store, options);
+}
+
+function update(deviceId: string, minutes: number, state: Record<string, any>): DeviceStatusUpdate {
+  return { deviceId, status: 'online', state, timestamp: new Date(START + minutes * MINUTE), source: 'polling' };
+}
+
+describe('normalizeEnergyState', () => {
+  it('reads power, electrical values and counters from protocol-specific keys', () => {
+    const normalized = normalizeEnergyState({
+      energyConsumption: 230,
+      gridVoltage: 229.5,
+      current: -1.2,
+      soc: 80,
+      efficiency: 1.4,
+      importEnergy: 12.5,
+      exportEnergy: -1
+    });
+
+    expect(normalized.measurements).toEqual({ activePower: 230, voltage: 229.5, current: 1.2, batteryLevel: 80 });
+    expect(normalized.counters).toEqual({ consumed: 12.5 });
+    expect(normalized.production).toBeUndefined();
+  });
+
+  it('marks power read as output as production', () => {
+    expect(normalizeEnergyState({ powerOutput: 1500, totalGeneration: 40 })).toEqual({
+      measurements: { activePower: 1500 },
+      counters: { produced: 40 },
+      production: true
+    });
+    expect(normalizeEnergyState({ activePower: 800, powerOutput: 1500 }).production).toBeUndefined();
+  });
+});
+
+describe('counterDelta', () => {
+  it('has no delta for the first reading', () => {
+    expect(counterDelta(undefined, 10)).toEqual({ reset: false });
+  });
+
+  it('returns the increase of the counter', () => {
+    expect(counterDelta(10, 10.25)).toEqual({ delta: 0.25, reset: false });
+  });
+
+  it('ignores jitter below the counter resolution', () => {
+    expect(counterDelta(10, 9.9995)).toEqual({ delta: 0, reset: false });
+  });
+
+  it('counts from zero after a reset', () => {
+    expect(counterDelta(120, 0.4)).toEqual({ delta: 0.4, reset: true });
+  });
+});
+
+describe('EnergyIngestionService energy derivation', () => {
+  it('derives consumption from counter deltas and reports resets', async () => {
+    const service = createService({ plug: 'consumer' });
+    const resets: unknown[] = [];
+    service.on('counterReset', reset => resets.push(reset));
+
+    await service.ingest(update('plug', 0, { activePower: 100, totalEnergy: 5 }));
+    const next = await service.ingest(update('plug', 15, { activePower: 100, totalEnergy: 5.025 }));
+    const reset = await service.ingest(update('plug', 30, { activePower: 100, totalEnergy: 0.01 }));
+
+    expect(next!.measurements).toMatchObject({ energy: 5.025, energyConsumed: 0.025, quality: 'good' });
+    expect(next!.source).toBe('device');
+    expect(reset!.measurements.energyConsumed).toBe(0.01);
+    expect(resets).toEqual([{ deviceId: 'plug', counter: 'consumed', previous: 5.025, current: 0.01 }]);
+  });
+
+  it('integrates power of consumers as consumption', async () => {
+    const service = createService({ heater: 'consumer' });
+
+    await service.ingest(update('heater', 0, { activePower: 1000 }));
+    const record = await service.ingest(update('heater', 15, { activePower: 2000 }));
+
+    expect(record!.measurements).toMatchObject({ energyConsumed: 0.375, quality: 'fair' });
+    expect(record!.measurements.energyProduced).toBeUndefined();
+    expect(record!.source).toBe('calculated');
+  });
+
+  it('integrates power of producers as production', async () => {
+    const service = createService({ inverter: 'producer' });
+
+    await service.ingest(update('inverter', 0, { activePower: 3000 }));
+    const record = await service.ingest(update('inverter', 15, { activePower: 3000 }));
+
+    expect(record!.measurements.energyProduced).toBe(0.75);
+    expect(record!.measurements.energyConsumed).toBeUndefined();
+  });
+
+  it('integrates output power as production whatever the energy role', async () => {
+    const service = createService({ 'solar-1': undefined });
+
+    await service.ingest(update('solar-1', 0, { powerOutput: 1200 }));
+    const record = await service.ingest(update('solar-1', 15, { powerOutput: 800 }));
+
+    expect(record!.measurements).toMatchObject({ activePower: 800, energyProduced: 0.25 });
+    expect(record!.measurements.energyConsumed).toBeUndefined();
+  });
+
+  it('integrates signed power of bidirectional devices', async () => {
+    const service = createService({ charger: 'bidirectional' });
+
+    await service.ingest(update('charger', 0, { activePower: -4000 }));
+    const record = await service.ingest(update('charger', 15, { activePower: -2000 }));
+
+    expect(record!.measurements.energyProduced).toBe(0.75);
+  });
+
+  it('does not integrate over gaps longer than maxIntegrationGap', async () => {
+    const service = createService({ heater: 'consumer' });
+
+    await service.ingest(update('heater', 0, { activePower: 1000 }));
+    const record = await service.ingest(update('heater', 20, { activePower: 1000 }));
+
+    expect(record!.measurements.energyConsumed).toBeUndefined();
+  });
+
+  it('skips updates of unknown devices', async () => {
+    const service = createService({});
+
+    expect(await service.ingest(update('stranger', 0, { activePower: 100 }))).toBeNull();
+  });
+});
+
+describe('EnergyIngestionService buffering', () => {
+  // Each measurement is written once its successor arrives
+  async function ingestMinutes(service: EnergyIngestionService, from: number, to: number): Promise<void> {
+    for (let minute = from; minute <= to; minute++) {
+      await service.ingest(update('plug', minute, { activePower: 100 }));
+    }
+  }
+
+  function minutesOf(records: EnergyMeasurementRecord[]): number[] {
+    return records.map(record => (record.timestamp.getTime() - START) / MINUTE);
+  }
+
+  it('drops the oldest buffered measurements, not the batch being written, when the buffer overflows', async () => {
+    const written: EnergyMeasurementRecord[] = [];
+    let finishWrite!: () => void;
+    const write = jest.fn(async (batch: EnergyMeasurementRecord[]) => {
+      written.push(...batch);
+    });
+    write.mockImplementationOnce(async batch => {
+      await new Promise<void>(resolve => { finishWrite = resolve; });
+      written.push(...batch);
+    });
+    const service = createService({ plug: 'consumer' }, { write } as unknown as MeasurementStore, { batchSize: 2, maxBufferSize: 3 });
+
+    // Minutes 0 and 1 fill a batch whose write stays pending
+    await ingestMinutes(service, 0, 2);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    // Minutes 2 to 5 overflow the buffer while it is pending
+    await ingestMinutes(service, 3, 6);
+    finishWrite();
+    await service.flush();
+
+    expect(minutesOf(written)).toEqual([0, 1, 3, 4, 5]);
+    expect(service.getStats()).toMatchObject({ recorded: 6, written: 5, dropped: 1, buffered: 0 });
+  });
+
+  it('keeps a batch that failed to write buffered, within the buffer size', async () => {
+    const write = jest.fn().mockRejectedValue(new Error('Database unavailable'));
+    const service = createService({ plug: 'consumer' }, { write } as unknown as MeasurementStore, { batchSize: 2, maxBufferSize: 3 });
+
+    await ingestMinutes(service, 0, 4);
+    await service.flush();
+    expect(service.getStats()).toMatchObject({ recorded: 4, written: 0, dropped: 1, buffered: 3 });
+
+    write.mockResolvedValue(undefined);
+    await service.flush();
+    expect(minutesOf(write.mock.calls.slice(-2).flatMap(([batch]) => batch))).toEqual([1, 2, 3]);
+  });
+});
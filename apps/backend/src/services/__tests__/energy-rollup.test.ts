@@ -0,0 +1,196 @@
+/**
+ * Energy Rollup Tests
+ *
+ * Rollups of a user's measurements before and after raw-data retention. The
+ * rollup and user models are in-memory stand-ins; measurements come from an
+ * in-memory store that aggregates the raw records it holds.
+ */
+
+import { EnergyStats } from '@/models/EnergyMeasurement';
+import { User } from '@/models/User';
+import { ALL_DEVICES, EnergyRollupService } from '@/services/energy-rollup';
+import {
+  EnergyMeasurementRecord,
+  MeasurementAggregate,
+  MeasurementInterval,
+  MeasurementQuery,
+  MeasurementStore
+} from '@/services/measurements';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+
+jest.mock('@/models/EnergyMeasurement', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/EnergyMeasurement'), EnergyStats: new MemoryModel({ timestamps: true }) };
+});
+jest.mock('@/models/User', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/User'), User: new MemoryModel() };
+});
+jest.mock('@/models/UserPreferences', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/UserPreferences'), UserPreferences: new MemoryModel() };
+});
+jest.mock('@/models/Device', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/Device'), Device: new MemoryModel() };
+});
+
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+
+const rollups = EnergyStats as unknown as MemoryModel;
+const users = User as unknown as MemoryModel;
+
+/**
+ * Holds raw measurements and sums them per device and interval
+ */
+class MemoryMeasurementStore implements MeasurementStore {
+  readonly type = 'mongo' as const;
+  records: EnergyMeasurementRecord[] = [];
+
+  async write(records: EnergyMeasurementRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+
+  async queryRange(query: MeasurementQuery): Promise<EnergyMeasurementRecord[]> {
+    return this.records.filter(record => inRange(record, query));
+  }
+
+  async aggregate(query: MeasurementQuery, interval: MeasurementInterval): Promise<MeasurementAggregate[]> {
+    const size = interval === 'minute' ? 60000 : HOUR_MS;
+    const buckets = new Map<string, MeasurementAggregate>();
+    for (const record of this.records.filter(candidate => inRange(candidate, query))) {
+      const periodStart = new Date(Math.floor(record.timestamp.getTime() / size) * size);
+      const key = `${record.deviceId}:${periodStart.getTime()}`;
+      const bucket = buckets.get(key) ?? { deviceId: record.deviceId, periodStart, energyConsumed: 0, energyProduced: 0, dataPoints: 0 };
+      bucket.energyConsumed += record.measurements.energyConsumed ?? 0;
+      bucket.energyProduced += record.measurements.energyProduced ?? 0;
+      bucket.avgPower = record.measurements.activePower;
+      bucket.maxPower = Math.max(bucket.maxPower ?? 0, record.measurements.activePower ?? 0);
+      bucket.dataPoints++;
+      buckets.set(key, bucket);
+    }
+    return [...buckets.values()];
+  }
+
+  async count(query: MeasurementQuery, interval?: MeasurementInterval): Promise<number> {
+    return interval ? (await this.aggregate(query, interval)).length : (await this.queryRange(query)).length;
+  }
+
+  async latest(): Promise<EnergyMeasurementRecord | null> {
+    return null;
+  }
+
+  async deleteRange(query: MeasurementQuery): Promise<void> {
+    this.records = this.records.filter(record => !inRange(record, query));
+  }
+
+  async healthCheck() {
+    return { status: 'healthy' as const, details: {} };
+  }
+
+  async close(): Promise<void> {}
+}
+
+function inRange(record: EnergyMeasurementRecord, query: MeasurementQuery): boolean {
+  return (!query.userId || record.userId === query.userId)
+    && record.timestamp >= query.start && record.timestamp <= query.end;
+}
+
+function dayRollup(deviceId: string, day: Date) {
+  return rollups.docs.find(rollup => rollup.deviceId === deviceId && rollup.period === 'day' && rollup.periodStart.getTime() === day.getTime());
+}
+
+describe('EnergyRollupService retention and backfill', () => {
+  // A day well before the retention cutoff, hourly readings of 0.5 kWh
+  const day = new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS - 10 * DAY_MS);
+  let store: MemoryMeasurementStore;
+  let service: EnergyRollupService;
+
+  beforeEach(async () => {
+    rollups.docs = [];
+    users.docs = [{ _id: 'user-1', profile: { timezone: 'UTC' }, isActive: true, isSuspended: false }];
+
+    store = new MemoryMeasurementStore();
+    await store.write(Array.from({ length: 24 }, (_, hour) => ({
+      deviceId: 'heater',
+      userId: 'user-1',
+      timestamp: new Date(day.getTime() + hour * HOUR_MS + 30 * 60000),
+      measurements: { activePower: 500, energyConsumed: 0.5, quality: 'good' as const, confidence: 1 },
+      source: 'device' as const
+    })));
+    service = new EnergyRollupService(store, { retentionDays: 7 });
+  });
+
+  it('rolls up hours and days from raw measurements and folds weeks from days', async () => {
+    await service.backfill(day, new Date(day.getTime() + DAY_MS - 1), 'user-1');
+
+    expect(dayRollup(ALL_DEVICES, day)).toMatchObject({ consumption: { total: 12 }, dataPoints: 24, uptime: 1 });
+    expect(dayRollup('heater', day)).toMatchObject({ consumption: { total: 12 } });
+    expect(rollups.docs.filter(rollup => rollup.period === 'hour' && rollup.deviceId === ALL_DEVICES)).toHaveLength(24);
+
+    const week = rollups.docs.find(rollup => rollup.period === 'week' && rollup.deviceId === ALL_DEVICES);
+    expect(week!.consumption.total).toBe(12);
+  });
+
+  it('keeps the rollups of purged days on backfill', async () => {
+    await service.backfill(day, new Date(day.getTime() + DAY_MS - 1), 'user-1');
+
+    expect(await service.applyRetention()).toBe(1);
+    expect(store.records).toHaveLength(0);
+    expect(dayRollup(ALL_DEVICES, day)!.rawDataPurgedAt).toBeInstanceOf(Date);
+    const before = await rollups.find({ period: { $in: ['hour', 'day'] } });
+    expect(before).toHaveLength(50);
+
+    await service.backfill(day, new Date(day.getTime() + DAY_MS - 1), 'user-1');
+
+    for (const rollup of before) {
+      expect(rollups.docs.find(candidate => candidate._id === rollup._id)).toMatchObject({
+        consumption: rollup.consumption,
+        dataPoints: rollup.dataPoints,
+        updatedAt: rollup.updatedAt
+      });
+    }
+    const week = rollups.docs.find(rollup => rollup.period === 'week' && rollup.deviceId === ALL_DEVICES);
+    expect(week!.consumption.total).toBe(12);
+  });
+
+  it('only purges days older than the retention', async () => {
+    const recent = new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS - 2 * DAY_MS);
+    await service.backfill(recent, new Date(recent.getTime() + DAY_MS - 1), 'user-1');
+
+    expect(await service.applyRetention()).toBe(0);
+  });
+});
+
+describe('EnergyRollupService across a DST change', () => {
+  // 02:00-03:00 occurs twice in Berlin: 00:00Z in summer time, 01:00Z in winter time
+  const firstTwoOClock = new Date('2024-10-27T00:00:00Z');
+  const secondTwoOClock = new Date('2024-10-27T01:00:00Z');
+  let service: EnergyRollupService;
+
+  beforeEach(async () => {
+    rollups.docs = [];
+    users.docs = [{ _id: 'user-1', profile: { timezone: 'Europe/Berlin' }, isActive: true, isSuspended: false }];
+
+    const store = new MemoryMeasurementStore();
+    await store.write([0.5, 0.25].map((energyConsumed, hour) => ({
+      deviceId: 'heater',
+      userId: 'user-1',
+      timestamp: new Date(firstTwoOClock.getTime() + hour * HOUR_MS + 30 * 60000),
+      measurements: { activePower: 500, energyConsumed, quality: 'good' as const, confidence: 1 },
+      source: 'device' as const
+    })));
+    service = new EnergyRollupService(store, { retentionDays: 7 });
+  });
+
+  it('rolls up both occurrences of a repeated hour separately', async () => {
+    await service.backfill(new Date(firstTwoOClock.getTime() + 30 * 60000), new Date(secondTwoOClock.getTime() + HOUR_MS - 1), 'user-1');
+
+    const hours = rollups.docs
+      .filter(rollup => rollup.period === 'hour' && rollup.deviceId === ALL_DEVICES)
+      .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+    expect(hours.map(rollup => rollup.periodStart)).toEqual([firstTwoOClock, secondTwoOClock]);
+    expect(hours.map(rollup => rollup.consumption.total)).toEqual([0.5, 0.25]);
+  });
+});
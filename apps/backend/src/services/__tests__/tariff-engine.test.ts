@@ -0,0 +1,189 @@
+/**
+ * Tariff Engine Tests
+ *
+ * Rates, charges and standing charges of fixed, time-of-use, seasonal, tiered
+ * and dynamic tariffs, and tariffs built from user preferences.
+ */
+
+import { isValidTariffHours, TariffEngine } from '../tariff-engine';
+
+const HOUR_MS = 3600000;
+
+describe('TariffEngine', () => {
+  describe('time-of-use', () => {
+    // Monday 5 January 2026, CET (UTC+1)
+    const engine = new TariffEngine({
+      structure: 'time_of_use',
+      currency: 'EUR',
+      timeZone: 'Europe/Amsterdam',
+      baseRate: 0.25,
+      windows: [
+        { name: 'offPeak', rate: 0.1, hours: ['23-07'] },
+        { name: 'peak', rate: 0.4, hours: ['17:00-21:00'], days: 'weekdays' }
+      ],
+      seasons: [
+        { name: 'summer', months: [6, 7, 8], windows: [{ name: 'solar', rate: 0.05, hours: ['12-16'] }], baseRate: 0.2 }
+      ]
+    });
+
+    it('picks the window of the local time and day', () => {
+      expect(engine.rateAt(new Date('2026-01-05T17:00:00Z'))).toBe(0.4);
+      expect(engine.rateAt(new Date('2026-01-10T17:00:00Z'))).toBe(0.25);
+      expect(engine.rateAt(new Date('2026-01-05T12:00:00Z'))).toBe(0.25);
+    });
+
+    it('covers windows past midnight on both days', () => {
+      expect(engine.rateAt(new Date('2026-01-05T22:30:00Z'))).toBe(0.1);
+      expect(engine.rateAt(new Date('2026-01-06T01:00:00Z'))).toBe(0.1);
+      expect(engine.rateAt(new Date('2026-01-06T06:00:00Z'))).toBe(0.25);
+    });
+
+    it('uses the windows and base rate of the season', () => {
+      expect(engine.rateAt(new Date('2026-07-01T11:00:00Z'))).toBe(0.05);
+      expect(engine.rateAt(new Date('2026-07-01T08:00:00Z'))).toBe(0.2);
+      expect(engine.rateAt(new Date('2026-07-01T23:00:00Z'))).toBe(0.2);
+    });
+
+    it('splits intervals at window edges', () => {
+      const charge = engine.price({ start: new Date('2026-01-05T15:00:00Z'), end: new Date('2026-01-05T17:00:00Z'), imported: 2 });
+
+      expect(charge.energy).toBeCloseTo(0.65);
+    });
+  });
+
+  describe('tiers', () => {
+    const engine = new TariffEngine({
+      structure: 'tiered',
+      currency: 'EUR',
+      timeZone: 'UTC',
+      baseRate: 0,
+      tiers: [{ rate: 0.3 }, { upTo: 100, rate: 0.2 }]
+    });
+
+    it('prices consumption across tiers from the month to date', () => {
+      const charge = engine.price({ start: new Date('2026-01-10T00:00:00Z'), end: new Date('2026-01-10T01:00:00Z'), imported: 20 }, 90);
+
+      expect(charge.energy).toBeCloseTo(5);
+      expect(engine.rateAt(new Date('2026-01-10T00:00:00Z'), 50)).toBe(0.2);
+      expect(engine.rateAt(new Date('2026-01-10T00:00:00Z'), 150)).toBe(0.3);
+    });
+
+    it('resets the tier position at the start of a month', () => {
+      const charges = engine.priceSeries([
+        { start: new Date('2026-01-31T23:00:00Z'), end: new Date('2026-02-01T00:00:00Z'), imported: 10 },
+        { start: new Date('2026-02-01T00:00:00Z'), end: new Date('2026-02-01T01:00:00Z'), imported: 10 }
+      ], 95);
+
+      expect(charges[0]!.energy).toBeCloseTo(2.5);
+      expect(charges[1]!.energy).toBeCloseTo(2);
+    });
+  });
+
+  describe('charges', () => {
+    const engine = new TariffEngine({
+      structure: 'fixed',
+      currency: 'EUR',
+      timeZone: 'Europe/Amsterdam',
+      baseRate: 0.2,
+      standingCharge: 0.5,
+      energyTax: 0.1,
+      taxRate: 0.21,
+      feedInTariff: 0.08
+    });
+
+    it('adds energy tax and VAT and credits exports separately', () => {
+      const charge = engine.price({ start: new Date('2026-01-05T00:00:00Z'), end: new Date('2026-01-05T01:00:00Z'), imported: 10, exported: 4 });
+
+      expect(charge.energy).toBeCloseTo(2);
+      expect(charge.energyTax).toBeCloseTo(1);
+      expect(charge.vat).toBeCloseTo(0.63);
+      expect(charge.total).toBeCloseTo(3.63);
+      expect(charge.exportCredit).toBeCloseTo(0.32);
+      expect(engine.marginalRate(new Date())).toBeCloseTo(0.363);
+    });
+
+    it('prorates standing charges by the length of the local day', () => {
+      expect(engine.standing(new Date('2026-01-05T11:00:00Z'), new Date('2026-01-06T23:00:00Z')).standing).toBeCloseTo(0.75);
+
+      // 29 March 2026 has 23 hours in Amsterdam
+      const spring = engine.standing(new Date('2026-03-28T23:00:00Z'), new Date('2026-03-29T10:00:00Z'));
+      expect(spring.standing).toBeCloseTo(0.5 * 11 / 23);
+    });
+
+    it('rejects intervals that end before they start', () => {
+      expect(() => engine.price({ start: new Date('2026-01-05T01:00:00Z'), end: new Date('2026-01-05T00:00:00Z'), imported: 1 }))
+        .toThrow('ends before it starts');
+    });
+  });
+
+  describe('dynamic prices', () => {
+    const engine = new TariffEngine({
+      structure: 'real_time',
+      currency: 'EUR',
+      timeZone: 'UTC',
+      baseRate: 0.3,
+      priceZone: 'NL',
+      spotMarkup: 0.02
+    });
+
+    it('prices spot hours with the markup and gaps at the base rate', () => {
+      const start = Date.parse('2026-01-05T10:00:00Z');
+      const priced = engine.withPrices([{ start: new Date(start), end: new Date(start + HOUR_MS), price: 0.1 }]);
+
+      expect(engine.isDynamic).toBe(true);
+      expect(priced.rateAt(new Date(start))).toBeCloseTo(0.12);
+      expect(priced.price({ start: new Date(start + HOUR_MS / 2), end: new Date(start + 1.5 * HOUR_MS), imported: 2 }).energy)
+        .toBeCloseTo(0.42);
+    });
+  });
+});
+
+describe('TariffEngine.fromPreferences', () => {
+  it('is undefined without a configured rate', () => {
+    expect(TariffEngine.fromPreferences(undefined, 'UTC')).toBeUndefined();
+    expect(TariffEngine.fromPreferences({ tariffStructure: 'fixed' }, 'UTC')).toBeUndefined();
+  });
+
+  it('builds windows from the time-of-use presets', () => {
+    const engine = TariffEngine.fromPreferences({
+      tariffStructure: 'time_of_use',
+      fixedRate: 0.25,
+      timeOfUseRates: {
+        peak: { rate: 0.4, hours: ['17-21'] },
+        offPeak: { rate: 0.1, hours: ['23-07'] },
+        shoulder: { rate: 0.3, hours: [] }
+      }
+    }, 'UTC');
+
+    expect(engine!.rateAt(new Date('2026-01-05T18:00:00Z'))).toBe(0.4);
+    expect(engine!.rateAt(new Date('2026-01-05T03:00:00Z'))).toBe(0.1);
+    expect(engine!.rateAt(new Date('2026-01-05T12:00:00Z'))).toBe(0.25);
+  });
+
+  it('rejects hours out of range, and the flat rate remains as a fallback', () => {
+    const preferences = {
+      tariffStructure: 'time_of_use' as const,
+      fixedRate: 0.25,
+      tariff: { windows: [{ name: 'late', rate: 0.1, hours: ['22:00-25:00'] }] }
+    };
+
+    expect(() => TariffEngine.fromPreferences(preferences, 'UTC')).toThrow('Invalid tariff hours');
+    expect(TariffEngine.flatRate(preferences, 'UTC')!.rateAt(new Date('2026-01-05T23:00:00Z'))).toBe(0.25);
+  });
+});
+
+describe('isValidTariffHours', () => {
+  it('accepts ranges and single hours within the day', () => {
+    expect(isValidTariffHours('07:00-23:00')).toBe(true);
+    expect(isValidTariffHours('22-06')).toBe(true);
+    expect(isValidTariffHours('24')).toBe(true);
+    expect(isValidTariffHours('00:00-24:00')).toBe(true);
+  });
+
+  it('rejects times the engine cannot place', () => {
+    expect(isValidTariffHours('25:00')).toBe(false);
+    expect(isValidTariffHours('10:60-12:00')).toBe(false);
+    expect(isValidTariffHours('22-24:30')).toBe(false);
+    expect(isValidTariffHours('evening')).toBe(false);
+  });
+});
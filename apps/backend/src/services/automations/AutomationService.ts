@@ -0,0 +1,965 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+
+import {
+  AutomationAction,
+  AutomationRule as AutomationRuleType,
+  AutomationRunStatus,
+  AutomationTraceStep,
+  AutomationTrigger,
+  AutomationTriggerType,
+  DeviceStatusUpdate,
+  EnergyFlow
+} from '@maestro/shared/types';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { AutomationRule, AutomationRun, IAutomationRuleDocument, IAutomationRunDocument } from '@/models/AutomationRule';
+import { Device } from '@/models/Device';
+import { User } from '@/models/User';
+import { UserPreferences } from '@/models/UserPreferences';
+import { PaginationResult } from '@/services/database/BaseService';
+import { DeviceIntegrationService } from '@/services/device-integration';
+import { EmailService } from '@/services/email';
+import { EnergyFlowService } from '@/services/energy-flow';
+import { EnergyIngestionService } from '@/services/energy-ingestion';
+import { EnergyMeasurementRecord } from '@/services/measurements';
+import { EnergyPriceService } from '@/services/prices';
+import { ProtocolAdapterManager } from '@/services/protocol-adapter-manager';
+import { WebSocketManager } from '@/services/websocket';
+import { createError } from '@/utils/errors';
+import { isValidTimeZone } from '@/utils/timezone';
+import { conditionDevices, evaluateConditions } from './conditions';
+import { RuleDefinition, parseRuleChanges, parseRuleInput, renderTemplate, ruleDevices, validateRule } from './rules';
+import {
+  DeviceValues,
+  crossedInto,
+  describeTrigger,
+  deviceStateChanged,
+  fieldValue,
+  sunTriggerDue,
+  timeTriggerDue
+} from './triggers';
+
+/**
+ * Automation Service
+ *
+ * Runs the users' automation rules. Device and threshold triggers are
+ * evaluated on the device update and measurement streams, solar surplus
+ * triggers on the household energy flows, and time, sunrise/sunset and price
+ * triggers every interval. A trigger that fires checks the rule's conditions
+ * against the latest device values, claims the rule's cooldown in the
+ * database, so a rule runs once even with several instances, and then runs
+ * the actions in order.
+ *
+ * Value triggers fire when a value crosses into their range. Triggers that
+ * fell due while the service was not running are not caught up.
+ *
+ * Every evaluation produces a trace of trigger, condition and action steps.
+ * Runs that executed actions are stored, and with a rule's `trace` flag also
+ * those stopped by conditions or the cooldown. Dry runs evaluate a rule
+ * without claiming its cooldown or executing anything.
+ *
+ * Delays wait in memory and are not resumed after a restart. A run is stored
+ * as `running` while it waits; runs still waiting well after their delay
+ * ended belong to a stopped instance and are recorded as cancelled.
+ */
+
+export interface AutomationSources {
+  protocolManager?: ProtocolAdapterManager | undefined; // device updates
+  ingestion?: EnergyIngestionService | undefined; // measurements
+  energyFlow?: EnergyFlowService | undefined; // solar surplus
+  prices?: EnergyPriceService | undefined; // price triggers
+  email?: EmailService | undefined; // email notifications
+}
+
+export interface AutomationOptions {
+  interval?: number; // milliseconds between checks of time, sun and price triggers, default: config.automations.interval
+  refreshInterval?: number; // milliseconds between rule reloads, default: config.automations.refreshInterval
+}
+
+export interface AutomationEvent {
+  type: AutomationTriggerType | 'manual';
+  index?: number | undefined; // trigger of the rule that fired
+  values: Record<string, any>;
+  at: Date;
+}
+
+export interface AutomationRunResult {
+  ruleId: string;
+  userId: string;
+  dryRun: boolean;
+  trigger: { type: AutomationEvent['type']; index?: number | undefined; values: Record<string, any> };
+  status: AutomationRunStatus;
+  steps: AutomationTraceStep[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface DryRunRequest {
+  triggerIndex?: number | undefined; // trigger to simulate, default: a manual run
+  values?: Record<string, any> | undefined; // trigger values, e.g. the new device state
+}
+
+export interface RuleListQuery {
+  page?: number | undefined;
+  limit?: number | undefined;
+  enabled?: boolean | undefined;
+}
+
+export interface RunListQuery {
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+type StoredRule = Omit<AutomationRuleType, '_id'> & { _id: unknown };
+
+interface PendingDelay {
+  timer: NodeJS.Timeout;
+  resolve: (completed: boolean) => void;
+}
+
+const DEVICE_FIELDS = { deviceId: 1, currentState: 1, status: 1, isOnline: 1 } as const;
+const INTERRUPTED_RUN_GRACE = 5 * 60 * 1000; // milliseconds a waiting run may be late before it counts as interrupted
+
+export class AutomationService extends EventEmitter {
+  private moduleLogger = createModuleLogger('AutomationService');
+  private rules: Map<string, StoredRule> = new Map();
+  private byDevice: Map<string, Set<string>> = new Map(); // deviceId -> rules with device triggers
+  private devices: Map<string, DeviceValues> = new Map(); // latest values by deviceId
+  private levels: Map<string, number> = new Map(); // latest price and surplus by user
+  private running: Set<string> = new Set();
+  private executions: Set<Promise<unknown>> = new Set();
+  private delays: Set<PendingDelay> = new Set();
+  private tickTimer?: NodeJS.Timeout | undefined;
+  private refreshTimer?: NodeJS.Timeout | undefined;
+  private ticking?: Promise<void> | undefined;
+  private refreshing?: Promise<void> | undefined;
+  private refreshPending = false; // rules changed during the running refresh
+  private lastTickAt?: Date | undefined;
+  private lastRefreshAt?: Date | undefined;
+  private wsManager?: WebSocketManager | undefined;
+  private stopping = false;
+  private readonly options: Required<AutomationOptions>;
+
+  private readonly onDeviceUpdate = (update: DeviceStatusUpdate) => {
+    const previous = this.devices.get(update.deviceId);
+    this.updateDevice(update.deviceId, {
+      state: { ...previous?.state, ...update.state },
+      status: update.status,
+      isOnline: update.status === 'online'
+    });
+  };
+
+  private readonly onMeasurement = (record: EnergyMeasurementRecord) => {
+    const previous = this.devices.get(record.deviceId);
+    if (!previous) return; // not referenced by any rule
+    this.updateDevice(record.deviceId, { ...previous, state: { ...previous.state, ...record.measurements } });
+  };
+
+  private readonly onFlow = ({ userId, flow }: { userId: string; flow: EnergyFlow }) => {
+    this.updateLevel(userId, 'solar_surplus', flow.totalProduction - flow.totalConsumption, flow.timestamp);
+  };
+
+  private stats = {
+    evaluated: 0,
+    runs: 0,
+    failed: 0,
+    skipped: 0,
+    errors: 0
+  };
+
+  constructor(
+    private deviceIntegration: DeviceIntegrationService,
+    private sources: AutomationSources = {},
+    options: AutomationOptions = {}
+  ) {
+    super();
+    this.options = {
+      interval: options.interval ?? config.automations.interval,
+      refreshInterval: options.refreshInterval ?? config.automations.refreshInterval
+    };
+  }
+
+  /**
+   * Load the enabled rules and start following the event streams
+   */
+  async initialize(): Promise<void> {
+    await this.refresh();
+
+    this.sources.protocolManager?.on('deviceUpdate', this.onDeviceUpdate);
+    this.sources.ingestion?.on('measurement', this.onMeasurement);
+    this.sources.energyFlow?.on('flow', this.onFlow);
+
+    this.tickTimer = setInterval(() => {
+      void this.tick();
+    }, this.options.interval);
+    this.refreshTimer = setInterval(() => {
+      void this.refresh();
+    }, this.options.refreshInterval);
+
+    this.moduleLogger.info('Automation rules started', { ...this.options, rules: this.rules.size });
+  }
+
+  async shutdown(): Promise<void> {
+    this.stopping = true;
+    this.sources.protocolManager?.off('deviceUpdate', this.onDeviceUpdate);
+    this.sources.ingestion?.off('measurement', this.onMeasurement);
+    this.sources.energyFlow?.off('flow', this.onFlow);
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    // Runs waiting in a delay are cancelled
+    for (const delay of this.delays) {
+      clearTimeout(delay.timer);
+      delay.resolve(false);
+    }
+    this.delays.clear();
+
+    await Promise.allSettled([this.ticking, this.refreshing, ...this.executions]);
+    this.moduleLogger.info('Automation rules stopped', this.stats);
+  }
+
+  /**
+   * WebSocket manager push notifications are sent through, once the server is up
+   */
+  setWebSocketManager(wsManager: WebSocketManager): void {
+    this.wsManager = wsManager;
+  }
+
+  /**
+   * Reload the enabled rules of users with automation rules on. Called while
+   * a reload runs, e.g. after a rule was saved, it reloads once more when that
+   * one ends, as it may have read the rules before the change.
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.refreshPending = true;
+      return this.refreshing;
+    }
+
+    this.refreshing = this.reloadRules().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Fire the time, sun and price triggers that fell due since the last tick
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.fireDue(now).finally(() => {
+        this.ticking = undefined;
+      });
+    }
+    return this.ticking;
+  }
+
+  // Rule management
+
+  async list(userId: string, query: RuleListQuery = {}): Promise<PaginationResult<IAutomationRuleDocument>> {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.max(1, Math.min(100, query.limit ?? 20));
+    const filter = { userId, ...(query.enabled !== undefined && { enabled: query.enabled }) };
+
+    const [total, data] = await Promise.all([
+      AutomationRule.countDocuments(filter),
+      AutomationRule.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec()
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  async get(userId: string, ruleId: string): Promise<IAutomationRuleDocument> {
+    const rule = mongoose.isValidObjectId(ruleId)
+      ? await AutomationRule.findOne({ _id: ruleId, userId })
+      : null;
+    if (!rule) {
+      throw createError.notFound(`Automation rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+
+  /**
+   * Create a rule; without a time zone it runs in the user's
+   */
+  async create(userId: string, input: unknown): Promise<IAutomationRuleDocument> {
+    const parsed = parseRuleInput(input);
+    const rule = await validateRule(userId, {
+      ...parsed,
+      timezone: parsed.timezone ?? await this.userTimeZone(userId)
+    });
+
+    const created = await AutomationRule.create({ ...rule, userId });
+    this.moduleLogger.info('Automation rule created', { userId, ruleId: String(created._id), name: created.name });
+    await this.refresh();
+    return created;
+  }
+
+  async update(userId: string, ruleId: string, input: unknown): Promise<IAutomationRuleDocument> {
+    const existing = await this.get(userId, ruleId);
+    const changes = parseRuleChanges(input);
+    const current = existing.toObject() as StoredRule;
+
+    const rule = await validateRule(userId, {
+      name: changes.name ?? current.name,
+      description: changes.description ?? current.description,
+      enabled: changes.enabled ?? current.enabled,
+      timezone: changes.timezone ?? current.timezone,
+      triggers: changes.triggers ?? current.triggers,
+      conditions: 'conditions' in changes ? changes.conditions : current.conditions,
+      actions: changes.actions ?? current.actions,
+      cooldown: changes.cooldown ?? current.cooldown,
+      trace: changes.trace ?? current.trace
+    });
+
+    existing.set(rule);
+    if (rule.conditions === undefined) {
+      existing.set('conditions', undefined);
+    }
+    await existing.save();
+    await this.refresh();
+    return existing;
+  }
+
+  async delete(userId: string, ruleId: string): Promise<void> {
+    const result = mongoose.isValidObjectId(ruleId)
+      ? await AutomationRule.deleteOne({ _id: ruleId, userId })
+      : { deletedCount: 0 };
+    if (result.deletedCount === 0) {
+      throw createError.notFound(`Automation rule ${ruleId} not found`);
+    }
+
+    await AutomationRun.deleteMany({ ruleId, userId });
+    this.moduleLogger.info('Automation rule deleted', { userId, ruleId });
+    await this.refresh();
+  }
+
+  /**
+   * Stored runs of a rule, newest first
+   */
+  async runs(userId: string, ruleId: string, query: RunListQuery = {}): Promise<PaginationResult<IAutomationRunDocument>> {
+    await this.get(userId, ruleId);
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.max(1, Math.min(100, query.limit ?? 20));
+    const filter = { ruleId, userId };
+
+    const [total, data] = await Promise.all([
+      AutomationRun.countDocuments(filter),
+      AutomationRun.find(filter)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec()
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  /**
+   * Evaluate a saved rule, or an unsaved definition, without executing anything
+   */
+  async dryRun(userId: string, rule: string | unknown, request: DryRunRequest = {}): Promise<AutomationRunResult> {
+    let stored: StoredRule;
+    if (typeof rule === 'string') {
+      stored = (await this.get(userId, rule)).toObject() as StoredRule;
+    } else {
+      const parsed = parseRuleInput(rule);
+      const validated = await validateRule(userId, {
+        ...parsed,
+        timezone: parsed.timezone ?? await this.userTimeZone(userId)
+      });
+      const now = new Date();
+      stored = { ...validated, _id: 'dry-run', userId, runCount: 0, createdAt: now, updatedAt: now };
+    }
+
+    const index = request.triggerIndex;
+    const trigger = index === undefined ? undefined : stored.triggers[index];
+    if (index !== undefined && !trigger) {
+      throw createError.validation(`Rule has no trigger ${index}`);
+    }
+
+    await this.loadDevices(conditionDevices(stored.conditions));
+    return this.execute(stored, {
+      type: trigger?.type ?? 'manual',
+      index,
+      values: request.values ?? {},
+      at: new Date()
+    }, true);
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.lastTickAt !== undefined &&
+      Date.now() - this.lastTickAt.getTime() > this.options.interval * 3;
+
+    return {
+      status: overdue ? 'degraded' : 'healthy',
+      details: {
+        rules: this.rules.size,
+        running: this.running.size,
+        lastTickAt: this.lastTickAt,
+        lastRefreshAt: this.lastRefreshAt,
+        interval: this.options.interval,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private updateDevice(deviceId: string, current: DeviceValues): void {
+    const previous = this.devices.get(deviceId);
+    this.devices.set(deviceId, current);
+
+    for (const ruleId of this.byDevice.get(deviceId) ?? []) {
+      const rule = this.rules.get(ruleId);
+      if (!rule) continue;
+
+      const index = rule.triggers.findIndex(trigger => {
+        if (trigger.type === 'device_state') {
+          return trigger.deviceId === deviceId && deviceStateChanged(trigger, previous, current);
+        }
+        if (trigger.type === 'threshold') {
+          return trigger.deviceId === deviceId &&
+            crossedInto(trigger, fieldValue(previous, trigger.field), fieldValue(current, trigger.field));
+        }
+        return false;
+      });
+      if (index < 0) continue;
+
+      const trigger = rule.triggers[index]!;
+      const field = 'field' in trigger ? trigger.field : undefined;
+      this.fire(rule, {
+        type: trigger.type,
+        index,
+        values: {
+          deviceId,
+          ...(field !== undefined
+            ? { field, previous: fieldValue(previous, field), value: fieldValue(current, field) }
+            : { state: current.state, status: current.status })
+        },
+        at: new Date()
+      });
+    }
+  }
+
+  /**
+   * Record a price or surplus level and fire the rules whose threshold it crossed
+   */
+  private updateLevel(userId: string, type: 'price_below' | 'solar_surplus', value: number, at: Date): void {
+    const key = `${userId}:${type}`;
+    const previous = this.levels.get(key);
+    this.levels.set(key, value);
+
+    for (const rule of this.rules.values()) {
+      if (rule.userId !== userId) continue;
+      const index = rule.triggers.findIndex(trigger =>
+        (trigger.type === 'price_below' && type === 'price_below' && crossedInto({ below: trigger.price }, previous, value)) ||
+        (trigger.type === 'solar_surplus' && type === 'solar_surplus' && crossedInto({ above: trigger.above }, previous, value))
+      );
+      if (index >= 0) {
+        this.fire(rule, { type, index, values: { previous, value }, at });
+      }
+    }
+  }
+
+  /**
+   * Run a rule in the background; a rule still running ignores new triggers
+   */
+  private fire(rule: StoredRule, event: AutomationEvent): void {
+    const ruleId = String(rule._id);
+    if (this.stopping) return;
+    if (this.running.has(ruleId)) {
+      this.stats.skipped++;
+      this.moduleLogger.debug('Automation rule still running, trigger ignored', { ruleId, trigger: event.type });
+      return;
+    }
+
+    this.running.add(ruleId);
+    const execution = this.execute(rule, event, false)
+      .catch(error => {
+        this.stats.errors++;
+        this.moduleLogger.error('Automation rule failed', {
+          ruleId,
+          error: error instanceof Error ? error.message : error
+        });
+      })
+      .finally(() => {
+        this.running.delete(ruleId);
+        this.executions.delete(execution);
+      });
+    this.executions.add(execution);
+  }
+
+  private async execute(rule: StoredRule, event: AutomationEvent, dryRun: boolean): Promise<AutomationRunResult> {
+    const ruleId = String(rule._id);
+    const startedAt = new Date();
+    const steps: AutomationTraceStep[] = [];
+    const trigger: AutomationTrigger | undefined = event.index !== undefined ? rule.triggers[event.index] : undefined;
+    this.stats.evaluated++;
+
+    steps.push({
+      kind: 'trigger',
+      description: trigger ? describeTrigger(trigger) : 'Run manually',
+      result: 'passed',
+      details: event.values,
+      at: event.at
+    });
+
+    let storedRunId: unknown;
+    const result = (status: AutomationRunStatus, finishedAt = new Date()): AutomationRunResult => ({
+      ruleId,
+      userId: rule.userId,
+      dryRun,
+      trigger: { type: event.type, ...(event.index !== undefined && { index: event.index }), values: event.values },
+      status,
+      steps,
+      startedAt,
+      finishedAt
+    });
+
+    const finish = async (status: AutomationRunStatus): Promise<AutomationRunResult> => {
+      const run = result(status);
+
+      const executed = status === 'completed' || status === 'failed' || status === 'cancelled';
+      if (storedRunId !== undefined) {
+        await AutomationRun.updateOne({ _id: storedRunId }, { $set: run });
+      } else if (!dryRun && (executed || rule.trace)) {
+        await AutomationRun.create(run);
+      }
+      if (!dryRun && executed) {
+        this.stats.runs++;
+        if (status === 'failed') this.stats.failed++;
+        this.moduleLogger.info('Automation rule ran', { ruleId, userId: rule.userId, name: rule.name, trigger: event.type, status });
+      }
+      this.emit('ruleRun', run);
+      return run;
+    };
+
+    // Conditions
+    const conditions = evaluateConditions(rule.conditions, {
+      now: startedAt,
+      timeZone: rule.timezone,
+      devices: this.devices
+    });
+    steps.push(...conditions.steps);
+    if (!conditions.passed) {
+      return finish('conditions_not_met');
+    }
+
+    // Cooldown; dry runs only report it
+    const cooldownStep = (passed: boolean): AutomationTraceStep => ({
+      kind: 'condition',
+      description: `Cooldown of ${rule.cooldown} seconds`,
+      result: passed ? 'passed' : 'failed',
+      details: {
+        ...(rule.lastTriggeredAt && { lastTriggeredAt: rule.lastTriggeredAt }),
+        ...(dryRun && !passed && { ignored: true })
+      },
+      at: startedAt
+    });
+    if (dryRun) {
+      const cooling = rule.lastTriggeredAt !== undefined &&
+        startedAt.getTime() - new Date(rule.lastTriggeredAt).getTime() < rule.cooldown * 1000;
+      steps.push(cooldownStep(!cooling));
+    } else {
+      const claimed = await AutomationRule.updateOne(
+        {
+          _id: rule._id,
+          enabled: true,
+          $or: [
+            { lastTriggeredAt: { $exists: false } },
+            { lastTriggeredAt: { $lte: new Date(startedAt.getTime() - rule.cooldown * 1000) } }
+          ]
+        },
+        { $set: { lastTriggeredAt: startedAt }, $inc: { runCount: 1 } },
+        { timestamps: false }
+      );
+      steps.push(cooldownStep(claimed.modifiedCount === 1));
+      if (claimed.modifiedCount !== 1) {
+        return finish('cooldown');
+      }
+      rule.lastTriggeredAt = startedAt;
+    }
+
+    // Actions, in order; a failed action does not stop the ones after it
+    const values = {
+      rule: rule.name,
+      trigger: steps[0]!.description,
+      ...event.values
+    };
+    let failed = false;
+    for (const [index, action] of rule.actions.entries()) {
+      if (this.stopping && !dryRun) {
+        steps.push(...rule.actions.slice(index).map(skipped => actionStep(skipped, 'skipped', { reason: 'Shutting down' })));
+        return finish('cancelled');
+      }
+
+      try {
+        if (action.type === 'delay' && !dryRun) {
+          storedRunId = await this.storeWaitingRun(storedRunId, result('running', new Date(Date.now() + action.seconds * 1000)));
+        }
+        const step = await this.runAction(rule, action, values, dryRun);
+        failed ||= step.result === 'error';
+        steps.push(step);
+        if (step.result === 'skipped') {
+          // A delay cut short by shutdown
+          steps.push(...rule.actions.slice(index + 1).map(skipped => actionStep(skipped, 'skipped', { reason: 'Shutting down' })));
+          return finish('cancelled');
+        }
+      } catch (error) {
+        failed = true;
+        steps.push(actionStep(action, 'error', { error: error instanceof Error ? error.message : String(error) }));
+      }
+    }
+
+    return finish(failed ? 'failed' : 'completed');
+  }
+
+  private async runAction(
+    rule: StoredRule,
+    action: AutomationAction,
+    values: Record<string, unknown>,
+    dryRun: boolean
+  ): Promise<AutomationTraceStep> {
+    switch (action.type) {
+      case 'command': {
+        if (dryRun) {
+          return actionStep(action, 'would_execute', { parameters: action.parameters });
+        }
+        const result = await this.sendCommand(rule.userId, action);
+        return actionStep(action, result.success ? 'executed' : 'error', {
+          parameters: action.parameters,
+          ...(result.error !== undefined && { error: result.error })
+        });
+      }
+
+      case 'scene': {
+        if (dryRun) {
+          return actionStep(action, 'would_execute', { commands: action.commands });
+        }
+        const results = await Promise.all(action.commands.map(command => this.sendCommand(rule.userId, command)));
+        return actionStep(action, results.every(result => result.success) ? 'executed' : 'error', {
+          commands: action.commands.map((command, index) => ({
+            deviceId: command.deviceId,
+            command: command.command,
+            success: results[index]!.success,
+            ...(results[index]!.error !== undefined && { error: results[index]!.error })
+          }))
+        });
+      }
+
+      case 'notify': {
+        const title = renderTemplate(action.title ?? rule.name, values);
+        const message = renderTemplate(action.message, values);
+        const details = { title, message, channels: action.channels, priority: action.priority };
+        if (dryRun) {
+          return actionStep(action, 'would_execute', details);
+        }
+        const sent = await this.notify(rule, title, message, action.channels, action.priority);
+        return actionStep(action, sent.length > 0 ? 'executed' : 'error', {
+          ...details,
+          sent,
+          ...(sent.length === 0 && { error: 'No notification channel available' })
+        });
+      }
+
+      case 'delay': {
+        if (dryRun) {
+          return actionStep(action, 'would_execute');
+        }
+        const completed = await this.sleep(action.seconds * 1000);
+        return actionStep(action, completed ? 'executed' : 'skipped', completed ? undefined : { reason: 'Shutting down' });
+      }
+    }
+  }
+
+  private async sendCommand(
+    userId: string,
+    target: { deviceId: string; command: string; parameters: Record<string, any> }
+  ): Promise<{ success: boolean; error?: string | undefined }> {
+    const device = await Device.findOne({ userId, deviceId: target.deviceId }, { _id: 1 }).lean();
+    if (!device) {
+      return { success: false, error: `Device ${target.deviceId} not found` };
+    }
+
+    return this.deviceIntegration.executeDeviceCommand(
+      String(device._id),
+      userId,
+      target.command,
+      target.parameters,
+      { source: 'automation' }
+    );
+  }
+
+  /**
+   * Send a notification on the requested channels; returns the channels it went out on
+   */
+  private async notify(
+    rule: StoredRule,
+    title: string,
+    message: string,
+    channels: Array<'push' | 'email'>,
+    priority: string
+  ): Promise<string[]> {
+    const sent: string[] = [];
+
+    if (channels.includes('push') && this.wsManager) {
+      this.wsManager.sendNotificationToUser(rule.userId, {
+        type: 'automation',
+        title,
+        message,
+        data: { ruleId: String(rule._id), priority }
+      });
+      sent.push('push');
+    }
+
+    if (channels.includes('email') && this.sources.email?.isConfigured) {
+      const user = await User.findById(rule.userId, { email: 1 }).lean();
+      if (user?.email) {
+        await this.sources.email.send({ to: user.email, subject: title, text: message });
+        sent.push('email');
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Wait, unless the service shuts down first; resolves whether the wait completed
+   */
+  private sleep(ms: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const delay: PendingDelay = {
+        timer: setTimeout(() => {
+          this.delays.delete(delay);
+          resolve(true);
+        }, ms),
+        resolve
+      };
+      this.delays.add(delay);
+    });
+  }
+
+  /**
+   * Store a run entering a delay, so it stays on record if the process stops
+   * before the run finishes; returns the stored run's ID
+   */
+  private async storeWaitingRun(runId: unknown, run: AutomationRunResult): Promise<unknown> {
+    if (runId !== undefined) {
+      await AutomationRun.updateOne({ _id: runId }, { $set: run });
+      return runId;
+    }
+    return (await AutomationRun.create(run))._id;
+  }
+
+  /**
+   * Record runs left waiting in a delay by a stopped instance as cancelled. A
+   * run that is still alive overwrites this when it finishes.
+   */
+  private async cancelInterruptedRuns(): Promise<void> {
+    const now = new Date();
+    const result = await AutomationRun.updateMany(
+      { status: 'running', finishedAt: { $lt: new Date(now.getTime() - INTERRUPTED_RUN_GRACE) } },
+      {
+        $set: { status: 'cancelled', finishedAt: now },
+        $push: {
+          steps: {
+            kind: 'action',
+            description: 'Run interrupted',
+            result: 'skipped',
+            details: { reason: 'Stopped during a delay' },
+            at: now
+          }
+        }
+      }
+    );
+    if (result.modifiedCount > 0) {
+      this.moduleLogger.warn('Interrupted automation runs cancelled', { runs: result.modifiedCount });
+    }
+  }
+
+  /**
+   * Load the rules until no refresh was asked for meanwhile; failures are
+   * logged instead of rejecting, as callers share the reload
+   */
+  private async reloadRules(): Promise<void> {
+    try {
+      do {
+        this.refreshPending = false;
+        await this.loadRules();
+      } while (this.refreshPending);
+    } catch (error) {
+      this.stats.errors++;
+      this.moduleLogger.error('Automation rule refresh failed', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  /**
+   * Triggers due since the last tick; failures are logged instead of
+   * rejecting, as callers share the tick
+   */
+  private async fireDue(now: Date): Promise<void> {
+    try {
+      const since = this.lastTickAt ?? now;
+      this.lastTickAt = now;
+
+      const priceUsers = new Set<string>();
+      for (const rule of this.rules.values()) {
+        rule.triggers.forEach((trigger, index) => {
+          let at: Date | undefined;
+          switch (trigger.type) {
+            case 'time':
+              at = timeTriggerDue(trigger, rule.timezone, since, now);
+              break;
+            case 'sun':
+              at = sunTriggerDue(trigger, rule.timezone, since, now);
+              break;
+            case 'price_below':
+              priceUsers.add(rule.userId);
+              break;
+          }
+          if (at) {
+            this.fire(rule, { type: trigger.type, index, values: { dueAt: at }, at: now });
+          }
+        });
+      }
+
+      if (this.sources.prices) {
+        for (const userId of priceUsers) {
+          const tariff = await this.sources.prices.getUserTariff(userId, now);
+          if (tariff) {
+            this.updateLevel(userId, 'price_below', tariff.marginalRate(now), now);
+          }
+        }
+      }
+    } catch (error) {
+      this.stats.errors++;
+      this.moduleLogger.error('Automation tick failed', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  /**
+   * Load the enabled rules and the values of the devices they reference
+   */
+  private async loadRules(): Promise<void> {
+    await this.cancelInterruptedRuns();
+
+    const rules = await AutomationRule.find({ enabled: true }).lean<StoredRule[]>();
+    const userIds = [...new Set(rules.map(rule => rule.userId))];
+    const disabled = new Set((await UserPreferences.find(
+      { userId: { $in: userIds }, 'devices.automation.enableRules': false },
+      { userId: 1 }
+    ).lean()).map(preferences => String(preferences.userId)));
+
+    this.rules = new Map(rules
+      .filter(rule => !disabled.has(rule.userId))
+      .map(rule => [String(rule._id), rule]));
+    this.byDevice = new Map();
+    for (const [ruleId, rule] of this.rules) {
+      for (const trigger of rule.triggers) {
+        if (trigger.type !== 'device_state' && trigger.type !== 'threshold') continue;
+        const ruleIds = this.byDevice.get(trigger.deviceId) ?? new Set<string>();
+        ruleIds.add(ruleId);
+        this.byDevice.set(trigger.deviceId, ruleIds);
+      }
+    }
+
+    // Known values are needed to see changes and to check conditions
+    const referenced = [...this.rules.values()].flatMap(rule => ruleDevices(rule));
+    await this.loadDevices(referenced);
+    this.lastRefreshAt = new Date();
+  }
+
+  /**
+   * Seed the values of devices not seen yet from their stored state
+   */
+  private async loadDevices(deviceIds: string[]): Promise<void> {
+    const missing = [...new Set(deviceIds)].filter(deviceId => !this.devices.has(deviceId));
+    if (missing.length === 0) return;
+
+    const devices = await Device.find({ deviceId: { $in: missing } }, DEVICE_FIELDS).lean();
+    for (const device of devices) {
+      if (this.devices.has(device.deviceId)) continue;
+      this.devices.set(device.deviceId, {
+        state: device.currentState ?? {},
+        status: device.status,
+        isOnline: device.isOnline
+      });
+    }
+  }
+
+  private async userTimeZone(userId: string): Promise<string> {
+    const user = await User.findById(userId, { 'profile.timezone': 1 }).lean();
+    const timeZone = user?.profile?.timezone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  }
+}
+
+// Helper functions
+
+function actionStep(
+  action: AutomationAction,
+  result: AutomationTraceStep['result'],
+  details?: Record<string, any>
+): AutomationTraceStep {
+  return {
+    kind: 'action',
+    description: describeAction(action),
+    result,
+    ...(details && { details }),
+    at: new Date()
+  };
+}
+
+function describeAction(action: AutomationAction): string {
+  switch (action.type) {
+    case 'command':
+      return `Send ${action.command} to ${action.deviceId}`;
+    case 'scene':
+      return `Run scene${action.name ? ` ${action.name}` : ''} (${action.commands.length} commands)`;
+    case 'notify':
+      return `Notify via ${action.channels.join(' and ')}`;
+    case 'delay':
+      return `Wait ${action.seconds} seconds`;
+  }
+}
+
+export default AutomationService;
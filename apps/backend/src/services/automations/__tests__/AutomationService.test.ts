@@ -0,0 +1,353 @@
+/**
+ * Automation Service Tests
+ *
+ * Claiming a rule's cooldown once across instances, reloading saved rules,
+ * checking their commands, dry-run traces and runs waiting in a delay. Rules,
+ * runs and devices are in-memory stand-ins for their models; commands go to a
+ * mocked device integration service.
+ */
+
+import { once } from 'events';
+
+import { AutomationRule as AutomationRuleType } from '@maestro/shared/types';
+
+import { AutomationRule, AutomationRun } from '@/models/AutomationRule';
+import { Device } from '@/models/Device';
+import { UserPreferences } from '@/models/UserPreferences';
+import { DeviceIntegrationService } from '@/services/device-integration';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+import { AutomationRunResult, AutomationService } from '../AutomationService';
+
+jest.mock('@/models/AutomationRule', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return {
+    ...jest.requireActual('@/models/AutomationRule'),
+    AutomationRule: new MemoryModel({ timestamps: true }),
+    AutomationRun: new MemoryModel({ timestamps: true })
+  };
+});
+
+jest.mock('@/models/Device', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/Device'), Device: new MemoryModel() };
+});
+
+jest.mock('@/models/User', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/User'), User: new MemoryModel() };
+});
+
+jest.mock('@/models/UserPreferences', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/UserPreferences'), UserPreferences: new MemoryModel() };
+});
+
+const rules = AutomationRule as unknown as MemoryModel;
+const runs = AutomationRun as unknown as MemoryModel;
+const devices = Device as unknown as MemoryModel;
+const preferences = UserPreferences as unknown as MemoryModel;
+const MINUTE = 60000;
+
+function rule(fields: Partial<AutomationRuleType> = {}): AutomationRuleType {
+  return {
+    _id: 'rule-1',
+    userId: 'user-1',
+    name: 'Morning heat',
+    enabled: true,
+    timezone: 'UTC',
+    triggers: [{ type: 'time', at: '08:00' }],
+    actions: [{ type: 'command', deviceId: 'heater', command: 'turn_on', parameters: {} }],
+    cooldown: 600,
+    trace: false,
+    runCount: 0,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...fields
+  };
+}
+
+function nextRun(service: AutomationService): Promise<AutomationRunResult> {
+  return once(service, 'ruleRun').then(([run]) => run);
+}
+
+// Fires the 08:00 trigger of the stored rules
+async function fireMorning(service: AutomationService): Promise<AutomationRunResult> {
+  await service.refresh();
+  await service.tick(new Date('2026-03-02T07:59:00Z'));
+  const run = nextRun(service);
+  await service.tick(new Date('2026-03-02T08:00:30Z'));
+  return run;
+}
+
+async function until(check: () => boolean): Promise<void> {
+  while (!check()) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function steps(run: AutomationRunResult): string[][] {
+  return run.steps.map(step => [step.description, step.result]);
+}
+
+describe('AutomationService', () => {
+  let executeDeviceCommand: jest.Mock;
+
+  function automations(): AutomationService {
+    return new AutomationService({ executeDeviceCommand } as unknown as DeviceIntegrationService, {}, {
+      interval: MINUTE,
+      refreshInterval: 5 * MINUTE
+    });
+  }
+
+  beforeEach(() => {
+    executeDeviceCommand = jest.fn().mockResolvedValue({ success: true });
+    rules.docs = [];
+    runs.docs = [];
+    devices.docs = [{
+      _id: 'device-1',
+      userId: 'user-1',
+      deviceId: 'heater',
+      capabilities: [{ type: 'switch', properties: {}, commands: ['turn_on', 'turn_off'], readOnly: false }],
+      currentState: { power: 0 },
+      status: 'online',
+      isOnline: true
+    }];
+  });
+
+  it('runs the actions of a rule that fires and stores the run', async () => {
+    rules.docs = [rule()];
+
+    const run = await fireMorning(automations());
+
+    expect(run.status).toBe('completed');
+    expect(steps(run)).toEqual([
+      ['At 08:00', 'passed'],
+      ['Cooldown of 600 seconds', 'passed'],
+      ['Send turn_on to heater', 'executed']
+    ]);
+    expect(executeDeviceCommand).toHaveBeenCalledWith('device-1', 'user-1', 'turn_on', {}, { source: 'automation' });
+    expect(rules.docs[0]).toMatchObject({ runCount: 1, lastTriggeredAt: run.startedAt });
+    expect(runs.docs).toEqual([expect.objectContaining({ ruleId: 'rule-1', status: 'completed' })]);
+  });
+
+  describe('cooldown', () => {
+    it('is claimed once when instances fire a rule at the same time', async () => {
+      rules.docs = [rule({ trace: true })];
+
+      const results = await Promise.all([fireMorning(automations()), fireMorning(automations())]);
+
+      expect(results.map(run => run.status).sort()).toEqual(['completed', 'cooldown']);
+      expect(executeDeviceCommand).toHaveBeenCalledTimes(1);
+      expect(rules.docs[0]!.runCount).toBe(1);
+      expect(runs.docs.map(run => run.status).sort()).toEqual(['completed', 'cooldown']);
+      expect(steps(results.find(run => run.status === 'cooldown')!)).toEqual([
+        ['At 08:00', 'passed'],
+        ['Cooldown of 600 seconds', 'failed']
+      ]);
+    });
+
+    it('stops runs within the cooldown and stores them only with trace', async () => {
+      rules.docs = [rule({ lastTriggeredAt: new Date(Date.now() - MINUTE) })];
+
+      expect((await fireMorning(automations())).status).toBe('cooldown');
+      expect(runs.docs).toEqual([]);
+      expect(executeDeviceCommand).not.toHaveBeenCalled();
+
+      rules.docs = [rule({ lastTriggeredAt: new Date(Date.now() - 11 * MINUTE) })];
+      expect((await fireMorning(automations())).status).toBe('completed');
+    });
+
+    it('is not claimed by runs stopped by their conditions', async () => {
+      rules.docs = [rule({ conditions: { type: 'device_state', deviceId: 'heater', field: 'power', operator: 'gt', value: 1000 } })];
+
+      const run = await fireMorning(automations());
+
+      expect(run.status).toBe('conditions_not_met');
+      expect(rules.docs[0]!.runCount).toBe(0);
+      expect(runs.docs).toEqual([]);
+    });
+  });
+
+  it('reloads the rules after a save during a running refresh', async () => {
+    const service = automations();
+    let release: (() => void) | undefined;
+    jest.spyOn(preferences, 'find').mockReturnValueOnce({
+      lean: () => new Promise(resolve => {
+        release = () => resolve([]);
+      })
+    } as never);
+
+    // A timer refresh has read the rules, none yet, when the rule is saved
+    const running = service.refresh();
+    await until(() => release !== undefined);
+    const saved = service.create('user-1', {
+      name: 'Morning heat',
+      triggers: [{ type: 'time', at: '08:00' }],
+      actions: [{ type: 'command', deviceId: 'heater', command: 'turn_on' }]
+    });
+    await until(() => rules.docs.length > 0);
+    release!();
+    await Promise.all([running, saved]);
+
+    expect((await service.healthCheck()).details.rules).toBe(1);
+  });
+
+  it('saves rules while a failing refresh runs', async () => {
+    const service = automations();
+    let fail: (() => void) | undefined;
+    jest.spyOn(preferences, 'find').mockReturnValueOnce({
+      lean: () => new Promise((_resolve, reject) => {
+        fail = () => reject(new Error('connection lost'));
+      })
+    } as never);
+
+    const running = service.refresh();
+    await until(() => fail !== undefined);
+    const saved = service.create('user-1', {
+      name: 'Morning heat',
+      triggers: [{ type: 'time', at: '08:00' }],
+      actions: [{ type: 'command', deviceId: 'heater', command: 'turn_on' }]
+    });
+    await until(() => rules.docs.length > 0);
+    fail!();
+
+    await expect(running).resolves.toBeUndefined();
+    await expect(saved).resolves.toMatchObject({ name: 'Morning heat' });
+  });
+
+  it('checks commands against capabilities stored as type names', async () => {
+    devices.docs[0]!.capabilities = ['switch'];
+    const service = automations();
+
+    await expect(service.create('user-1', {
+      name: 'Morning heat',
+      triggers: [{ type: 'time', at: '08:00' }],
+      actions: [{ type: 'command', deviceId: 'heater', command: 'turn_on' }]
+    })).resolves.toMatchObject({ name: 'Morning heat' });
+    await expect(service.create('user-1', {
+      name: 'Dim heater',
+      triggers: [{ type: 'time', at: '20:00' }],
+      actions: [{ type: 'command', deviceId: 'heater', command: 'set_brightness', parameters: { value: 30 } }]
+    })).rejects.toThrow("Invalid command 'set_brightness' for heater");
+  });
+
+  describe('dry runs', () => {
+    it('trace an unsaved rule without executing or storing anything', async () => {
+      const run = await automations().dryRun('user-1', {
+        name: 'Heater alert',
+        triggers: [{ type: 'threshold', deviceId: 'heater', field: 'power', above: 1000 }],
+        conditions: { type: 'device_state', deviceId: 'heater', field: 'status', operator: 'eq', value: 'online' },
+        actions: [
+          { type: 'command', deviceId: 'heater', command: 'turn_off' },
+          { type: 'delay', seconds: 60 },
+          { type: 'notify', message: '{{deviceId}} draws {{value}} W' }
+        ]
+      }, { triggerIndex: 0, values: { deviceId: 'heater', value: 1500 } });
+
+      expect(run).toMatchObject({ ruleId: 'dry-run', dryRun: true, status: 'completed', trigger: { type: 'threshold', index: 0 } });
+      expect(steps(run)).toEqual([
+        ['heater power rises above 1000', 'passed'],
+        ['heater status = "online"', 'passed'],
+        ['Cooldown of 60 seconds', 'passed'],
+        ['Send turn_off to heater', 'would_execute'],
+        ['Wait 60 seconds', 'would_execute'],
+        ['Notify via push', 'would_execute']
+      ]);
+      expect(run.steps[5]!.details).toMatchObject({ title: 'Heater alert', message: 'heater draws 1500 W' });
+      expect(executeDeviceCommand).not.toHaveBeenCalled();
+      expect(runs.docs).toEqual([]);
+    });
+
+    it('report the cooldown of a saved rule without claiming it', async () => {
+      const lastTriggeredAt = new Date(Date.now() - MINUTE);
+      rules.docs = [rule({ lastTriggeredAt })];
+      const service = automations();
+      jest.spyOn(service, 'get').mockResolvedValue({ toObject: () => rules.docs[0] } as never);
+
+      const run = await service.dryRun('user-1', 'rule-1');
+
+      expect(run.status).toBe('completed');
+      expect(run.steps[1]).toMatchObject({
+        description: 'Cooldown of 600 seconds',
+        result: 'failed',
+        details: { lastTriggeredAt, ignored: true }
+      });
+      expect(run.steps[2]).toMatchObject({ result: 'would_execute' });
+      expect(rules.docs[0]).toMatchObject({ runCount: 0, lastTriggeredAt });
+      await expect(service.dryRun('user-1', 'rule-1', { triggerIndex: 3 })).rejects.toThrow('Rule has no trigger 3');
+    });
+  });
+
+  describe('delays', () => {
+    const delayed = (seconds: number) => rule({
+      actions: [
+        { type: 'delay', seconds },
+        { type: 'command', deviceId: 'heater', command: 'turn_on', parameters: {} }
+      ]
+    });
+
+    it('store the run as running while it waits and update it when it finishes', async () => {
+      rules.docs = [delayed(1)];
+
+      const finished = fireMorning(automations());
+      await until(() => runs.docs.length > 0);
+
+      expect(runs.docs[0]).toMatchObject({ status: 'running' });
+      expect(runs.docs[0]!.finishedAt.getTime() - runs.docs[0]!.startedAt.getTime()).toBeGreaterThanOrEqual(1000);
+      expect(executeDeviceCommand).not.toHaveBeenCalled();
+
+      const run = await finished;
+      expect(run.status).toBe('completed');
+      expect(runs.docs).toHaveLength(1);
+      expect(steps(runs.docs[0] as AutomationRunResult)).toEqual([
+        ['At 08:00', 'passed'],
+        ['Cooldown of 600 seconds', 'passed'],
+        ['Wait 1 seconds', 'executed'],
+        ['Send turn_on to heater', 'executed']
+      ]);
+    });
+
+    it('are cancelled by a shutdown', async () => {
+      rules.docs = [delayed(60)];
+      const service = automations();
+
+      const finished = fireMorning(service);
+      await until(() => runs.docs.length > 0);
+      await service.shutdown();
+
+      expect((await finished).status).toBe('cancelled');
+      expect(runs.docs).toEqual([expect.objectContaining({ status: 'cancelled' })]);
+      expect(steps(runs.docs[0] as AutomationRunResult).slice(2)).toEqual([
+        ['Wait 60 seconds', 'skipped'],
+        ['Send turn_on to heater', 'skipped']
+      ]);
+      expect(executeDeviceCommand).not.toHaveBeenCalled();
+    });
+
+    it('left waiting by a stopped instance are recorded as cancelled', async () => {
+      const waiting = (id: string, minutes: number) => ({
+        _id: id,
+        ruleId: 'rule-1',
+        userId: 'user-1',
+        status: 'running',
+        steps: [],
+        startedAt: new Date(Date.now() - 60 * MINUTE),
+        finishedAt: new Date(Date.now() + minutes * MINUTE)
+      });
+      runs.docs = [waiting('stale', -10), waiting('late', -1), waiting('waiting', 1)];
+
+      await automations().refresh();
+
+      expect(runs.docs.map(run => [run._id, run.status])).toEqual([
+        ['stale', 'cancelled'],
+        ['late', 'running'],
+        ['waiting', 'running']
+      ]);
+      expect(runs.docs[0]!.steps).toEqual([expect.objectContaining({
+        description: 'Run interrupted',
+        result: 'skipped',
+        details: { reason: 'Stopped during a delay' }
+      })]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Automation Condition Tests
+ *
+ * AND/OR groups and their trace order, time windows in the rule's time zone
+ * and device state comparisons.
+ */
+
+import { AutomationCondition } from '@maestro/shared/types';
+
+import { conditionDevices, ConditionContext, evaluateConditions } from '../conditions';
+
+// Monday 2 March 2026, 22:30 in Amsterdam
+const context: ConditionContext = {
+  now: new Date('2026-03-02T21:30:00Z'),
+  timeZone: 'Europe/Amsterdam',
+  devices: new Map([
+    ['heater', { state: { power: 1500, mode: { target: 21 } }, status: 'online', isOnline: true }]
+  ])
+};
+
+const evening: AutomationCondition = { type: 'time_window', after: '18:00', before: '23:00' };
+const hot: AutomationCondition = { type: 'device_state', deviceId: 'heater', field: 'power', operator: 'gt', value: 1000 };
+const off: AutomationCondition = { type: 'device_state', deviceId: 'heater', field: 'status', operator: 'eq', value: 'offline' };
+
+describe('evaluateConditions', () => {
+  it('passes without conditions', () => {
+    expect(evaluateConditions(undefined, context)).toEqual({ passed: true, steps: [] });
+  });
+
+  describe('groups', () => {
+    it('needs all members of an and group and any member of an or group', () => {
+      expect(evaluateConditions({ type: 'and', conditions: [evening, hot] }, context).passed).toBe(true);
+      expect(evaluateConditions({ type: 'and', conditions: [evening, off] }, context).passed).toBe(false);
+      expect(evaluateConditions({ type: 'or', conditions: [off, hot] }, context).passed).toBe(true);
+      expect(evaluateConditions({ type: 'or', conditions: [off, off] }, context).passed).toBe(false);
+    });
+
+    it('traces a group before its members and evaluates every member', () => {
+      const { passed, steps } = evaluateConditions({
+        type: 'and',
+        conditions: [off, { type: 'or', conditions: [off, evening] }]
+      }, context);
+
+      expect(passed).toBe(false);
+      expect(steps.map(step => [step.description, step.result, step.details!.depth])).toEqual([
+        ['All of 2 conditions', 'failed', 0],
+        ['heater status = "offline"', 'failed', 1],
+        ['Any of 2 conditions', 'passed', 1],
+        ['heater status = "offline"', 'failed', 2],
+        ['Time between 18:00 and 23:00', 'passed', 2]
+      ]);
+      expect(steps[0]!.details).toEqual({ depth: 0, passed: 1 });
+    });
+  });
+
+  describe('time windows', () => {
+    it('uses the local time of the time zone', () => {
+      const { steps } = evaluateConditions(evening, context);
+
+      expect(steps[0]).toMatchObject({ result: 'passed', details: { depth: 0, localTime: '22:30', weekday: 1 } });
+      expect(evaluateConditions(evening, { ...context, timeZone: 'UTC' }).passed).toBe(true);
+      expect(evaluateConditions(evening, { ...context, timeZone: 'America/New_York' }).passed).toBe(false);
+    });
+
+    it('includes the start and excludes the end of a window', () => {
+      const window: AutomationCondition = { type: 'time_window', after: '22:30', before: '22:31' };
+
+      expect(evaluateConditions(window, context).passed).toBe(true);
+      expect(evaluateConditions({ ...window, after: '22:00', before: '22:30' }, context).passed).toBe(false);
+    });
+
+    it('wraps windows around midnight', () => {
+      const night: AutomationCondition = { type: 'time_window', after: '22:00', before: '06:00' };
+
+      expect(evaluateConditions(night, context).passed).toBe(true);
+      expect(evaluateConditions(night, { ...context, now: new Date('2026-03-03T04:00:00Z') }).passed).toBe(true);
+      expect(evaluateConditions(night, { ...context, now: new Date('2026-03-03T05:00:00Z') }).passed).toBe(false);
+    });
+
+    it('limits windows to the local days of the week', () => {
+      const weekend: AutomationCondition = { type: 'time_window', after: '00:00', before: '23:59', daysOfWeek: [0, 6] };
+      // Sunday 23:30 in Amsterdam is Monday in Tokyo
+      const sunday = { ...context, now: new Date('2026-03-01T22:30:00Z') };
+
+      expect(evaluateConditions(weekend, context).steps[0]).toMatchObject({
+        description: 'Time between 00:00 and 23:59 on days 0, 6',
+        result: 'failed'
+      });
+      expect(evaluateConditions(weekend, sunday).passed).toBe(true);
+      expect(evaluateConditions(weekend, { ...sunday, timeZone: 'Asia/Tokyo' }).passed).toBe(false);
+    });
+  });
+
+  describe('device state', () => {
+    it('compares state fields, dotted paths, status and connectivity', () => {
+      expect(evaluateConditions(hot, context).steps[0]).toMatchObject({
+        description: 'heater power > 1000',
+        result: 'passed',
+        details: { depth: 0, actual: 1500 }
+      });
+      expect(evaluateConditions({ ...hot, field: 'mode.target', operator: 'gte', value: 21 }, context).passed).toBe(true);
+      expect(evaluateConditions({ ...hot, field: 'isOnline', operator: 'eq', value: true }, context).passed).toBe(true);
+      expect(evaluateConditions({ ...hot, field: 'status', operator: 'ne', value: 'online' }, context).passed).toBe(false);
+    });
+
+    it('fails ordering comparisons with values that are not numbers', () => {
+      expect(evaluateConditions({ ...hot, field: 'status', operator: 'gt', value: 0 }, context).passed).toBe(false);
+      expect(evaluateConditions({ ...hot, field: 'missing', operator: 'lt', value: 10 }, context).passed).toBe(false);
+    });
+
+    it('fails for devices without known values', () => {
+      expect(evaluateConditions({ ...hot, deviceId: 'lamp' }, context).steps[0]).toMatchObject({
+        result: 'failed',
+        details: { reason: 'No values known for the device' }
+      });
+    });
+  });
+});
+
+describe('conditionDevices', () => {
+  it('lists each device a condition looks at once', () => {
+    expect(conditionDevices({
+      type: 'or',
+      conditions: [hot, { type: 'and', conditions: [evening, off, { ...hot, deviceId: 'lamp' }] }]
+    })).toEqual(['heater', 'lamp']);
+    expect(conditionDevices(undefined)).toEqual([]);
+  });
+});
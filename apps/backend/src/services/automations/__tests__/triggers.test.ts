@@ -0,0 +1,164 @@
+/**
+ * Automation Trigger Tests
+ *
+ * Thresholds firing when a value crosses into their range, device state
+ * changes, and when time and sun triggers fall due.
+ */
+
+import { getSunTimes } from '@/utils/sun';
+import {
+  compareValues,
+  crossedInto,
+  describeTrigger,
+  DeviceStateTrigger,
+  deviceStateChanged,
+  DeviceValues,
+  fieldValue,
+  SunTrigger,
+  sunTriggerDue,
+  timeTriggerDue
+} from '../triggers';
+
+const MINUTE = 60000;
+
+function values(state: Record<string, any>, status = 'online'): DeviceValues {
+  return { state, status, isOnline: status !== 'offline' };
+}
+
+describe('fieldValue', () => {
+  it('reads status, connectivity and dotted state paths', () => {
+    const heater = values({ power: 1500, phases: { a: { power: 500 } } });
+
+    expect(fieldValue(heater, 'status')).toBe('online');
+    expect(fieldValue(heater, 'isOnline')).toBe(true);
+    expect(fieldValue(heater, 'phases.a.power')).toBe(500);
+    expect(fieldValue(heater, 'phases.b.power')).toBeUndefined();
+    expect(fieldValue(undefined, 'power')).toBeUndefined();
+  });
+});
+
+describe('compareValues', () => {
+  it('compares equality by value and ordering only for numbers', () => {
+    expect(compareValues('eq', { mode: 'eco' }, { mode: 'eco' })).toBe(true);
+    expect(compareValues('ne', 'on', 'off')).toBe(true);
+    expect(compareValues('gte', 20, 20)).toBe(true);
+    expect(compareValues('gt', '25', 20)).toBe(false);
+    expect(compareValues('lt', NaN, 20)).toBe(false);
+  });
+});
+
+describe('crossedInto', () => {
+  it('fires when a value crosses a threshold', () => {
+    expect(crossedInto({ above: 1000 }, 900, 1100)).toBe(true);
+    expect(crossedInto({ below: 20 }, 25, 15)).toBe(true);
+  });
+
+  it('stays quiet while a value remains in range or leaves it', () => {
+    expect(crossedInto({ above: 1000 }, 1100, 1200)).toBe(false);
+    expect(crossedInto({ above: 1000 }, 1100, 900)).toBe(false);
+    expect(crossedInto({ above: 1000 }, 900, 1000)).toBe(false);
+  });
+
+  it('fires for bands from either side', () => {
+    expect(crossedInto({ above: 10, below: 20 }, 25, 15)).toBe(true);
+    expect(crossedInto({ above: 10, below: 20 }, 5, 15)).toBe(true);
+    expect(crossedInto({ above: 10, below: 20 }, 5, 25)).toBe(false);
+  });
+
+  it('needs a previous number', () => {
+    expect(crossedInto({ above: 1000 }, undefined, 1100)).toBe(false);
+    expect(crossedInto({ above: 1000 }, 'high', 1100)).toBe(false);
+  });
+});
+
+describe('deviceStateChanged', () => {
+  const anyChange: DeviceStateTrigger = { type: 'device_state', deviceId: 'plug' };
+  const switchedOn: DeviceStateTrigger = { type: 'device_state', deviceId: 'plug', field: 'on', to: true };
+
+  it('fires for any change of state, status or connectivity without a field', () => {
+    expect(deviceStateChanged(anyChange, values({ on: false }), values({ on: true }))).toBe(true);
+    expect(deviceStateChanged(anyChange, values({ on: false }), values({ on: false }, 'offline'))).toBe(true);
+    expect(deviceStateChanged(anyChange, values({ on: false }), values({ on: false, power: 0 }))).toBe(true);
+    expect(deviceStateChanged(anyChange, values({ on: false }), values({ on: false }))).toBe(false);
+  });
+
+  it('fires for changes of a field matching from and to', () => {
+    expect(deviceStateChanged(switchedOn, values({ on: false }), values({ on: true }))).toBe(true);
+    expect(deviceStateChanged(switchedOn, values({ on: true }), values({ on: false }))).toBe(false);
+    expect(deviceStateChanged({ ...switchedOn, from: 'standby' }, values({ on: false }), values({ on: true }))).toBe(false);
+  });
+
+  it('needs a known previous value', () => {
+    expect(deviceStateChanged(switchedOn, undefined, values({ on: true }))).toBe(false);
+    expect(deviceStateChanged(switchedOn, values({}), values({ on: true }))).toBe(false);
+  });
+});
+
+describe('timeTriggerDue', () => {
+  it('falls due at the local time within the range', () => {
+    const trigger = { type: 'time' as const, at: '08:00' };
+
+    expect(timeTriggerDue(trigger, 'Europe/Amsterdam', new Date('2026-03-02T06:59:00Z'), new Date('2026-03-02T07:00:00Z')))
+      .toEqual(new Date('2026-03-02T07:00:00Z'));
+    expect(timeTriggerDue(trigger, 'Europe/Amsterdam', new Date('2026-03-02T07:00:00Z'), new Date('2026-03-02T07:01:00Z')))
+      .toBeUndefined();
+  });
+
+  it('only falls due on its days of the week', () => {
+    const weekend = { type: 'time' as const, at: '08:00', daysOfWeek: [0, 6] };
+
+    expect(timeTriggerDue(weekend, 'UTC', new Date('2026-03-02T00:00:00Z'), new Date('2026-03-07T00:00:00Z'))).toBeUndefined();
+    expect(timeTriggerDue(weekend, 'UTC', new Date('2026-03-02T00:00:00Z'), new Date('2026-03-08T00:00:00Z')))
+      .toEqual(new Date('2026-03-07T08:00:00Z'));
+  });
+});
+
+describe('sunTriggerDue', () => {
+  const amsterdam: SunTrigger = { type: 'sun', event: 'sunrise', offset: 0, latitude: 52.37, longitude: 4.9 };
+  const { sunrise, sunset } = getSunTimes('Europe/Amsterdam', 2026, 6, 21, 52.37, 4.9);
+
+  it('falls due at sunrise and sunset of the location', () => {
+    // Around 05:18 and 22:06 local time (UTC+2)
+    expect(sunrise!.getTime()).toBeGreaterThan(Date.parse('2026-06-21T03:05:00Z'));
+    expect(sunrise!.getTime()).toBeLessThan(Date.parse('2026-06-21T03:30:00Z'));
+    expect(sunset!.getTime()).toBeGreaterThan(Date.parse('2026-06-21T19:55:00Z'));
+    expect(sunset!.getTime()).toBeLessThan(Date.parse('2026-06-21T20:20:00Z'));
+
+    const day = [new Date('2026-06-21T00:00:00Z'), new Date('2026-06-21T23:00:00Z')] as const;
+    expect(sunTriggerDue(amsterdam, 'Europe/Amsterdam', ...day)).toEqual(sunrise);
+    expect(sunTriggerDue({ ...amsterdam, event: 'sunset' }, 'Europe/Amsterdam', ...day)).toEqual(sunset);
+  });
+
+  it('applies the offset, also across midnight', () => {
+    const before = { ...amsterdam, offset: -30 };
+    const due = new Date(sunrise!.getTime() - 30 * MINUTE);
+
+    expect(sunTriggerDue(before, 'Europe/Amsterdam', new Date(due.getTime() - MINUTE), due)).toEqual(due);
+    expect(sunTriggerDue(before, 'Europe/Amsterdam', due, sunrise!)).toBeUndefined();
+
+    // Four hours after sunset is after midnight local time
+    const late = { ...amsterdam, event: 'sunset' as const, offset: 240 };
+    const lateDue = new Date(sunset!.getTime() + 240 * MINUTE);
+    expect(sunTriggerDue(late, 'Europe/Amsterdam', new Date('2026-06-21T22:00:00Z'), new Date('2026-06-22T01:00:00Z')))
+      .toEqual(lateDue);
+  });
+
+  it('never falls due on days without sunrise or sunset', () => {
+    const tromso: SunTrigger = { type: 'sun', event: 'sunrise', offset: 0, latitude: 69.65, longitude: 18.96 };
+
+    expect(sunTriggerDue(tromso, 'Europe/Oslo', new Date('2026-12-20T12:00:00Z'), new Date('2026-12-22T12:00:00Z'))).toBeUndefined();
+    expect(sunTriggerDue({ ...tromso, event: 'sunset' }, 'Europe/Oslo', new Date('2026-06-20T12:00:00Z'), new Date('2026-06-22T12:00:00Z')))
+      .toBeUndefined();
+  });
+});
+
+describe('describeTrigger', () => {
+  it('describes triggers for traces', () => {
+    expect(describeTrigger({ type: 'device_state', deviceId: 'plug', field: 'on', from: false, to: true })).toBe('plug on changes from false to true');
+    expect(describeTrigger({ type: 'threshold', deviceId: 'meter', field: 'activePower', above: 3000 })).toBe('meter activePower rises above 3000');
+    expect(describeTrigger({ type: 'threshold', deviceId: 'room', field: 'temperature', above: 18, below: 22 }))
+      .toBe('room temperature moves between 18 and 22');
+    expect(describeTrigger({ type: 'time', at: '07:30', daysOfWeek: [1, 2] })).toBe('At 07:30 on days 1, 2');
+    expect(describeTrigger({ type: 'sun', event: 'sunset', offset: -15, latitude: 0, longitude: 0 })).toBe('15 minutes before sunset');
+  });
+});
@@ -0,0 +1,133 @@
+import { AutomationCondition, AutomationTraceStep } from '@maestro/shared/types';
+
+import { getZonedParts } from '@/utils/timezone';
+import { DeviceValues, compareValues, fieldValue } from './triggers';
+
+/**
+ * Automation Conditions
+ *
+ * Conditions are checked when a trigger fires, against the current time in
+ * the rule's time zone and the latest known device values. Every condition
+ * is evaluated, also when the outcome is already decided, so traces show all
+ * of them.
+ */
+
+export interface ConditionContext {
+  now: Date;
+  timeZone: string;
+  devices: Map<string, DeviceValues>; // by deviceId
+}
+
+export interface ConditionResult {
+  passed: boolean;
+  steps: AutomationTraceStep[];
+}
+
+const OPERATORS = {
+  eq: '=',
+  ne: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤'
+} as const;
+
+/**
+ * Evaluate the conditions of a rule; no conditions always pass
+ */
+export function evaluateConditions(condition: AutomationCondition | undefined, context: ConditionContext): ConditionResult {
+  if (!condition) {
+    return { passed: true, steps: [] };
+  }
+  const steps: AutomationTraceStep[] = [];
+  const passed = evaluate(condition, context, steps, 0);
+  return { passed, steps };
+}
+
+/**
+ * The deviceIds conditions look at
+ */
+export function conditionDevices(condition: AutomationCondition | undefined): string[] {
+  if (!condition) {
+    return [];
+  }
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      return [...new Set(condition.conditions.flatMap(conditionDevices))];
+    case 'device_state':
+      return [condition.deviceId];
+    case 'time_window':
+      return [];
+  }
+}
+
+// Helper functions
+
+function evaluate(condition: AutomationCondition, context: ConditionContext, steps: AutomationTraceStep[], depth: number): boolean {
+  const step = (description: string, passed: boolean, details?: Record<string, any>): boolean => {
+    steps.push({
+      kind: 'condition',
+      description,
+      result: passed ? 'passed' : 'failed',
+      details: { depth, ...details },
+      at: context.now
+    });
+    return passed;
+  };
+
+  switch (condition.type) {
+    case 'and':
+    case 'or': {
+      // Group first, its members after it
+      const index = steps.length;
+      const results = condition.conditions.map(child => evaluate(child, context, steps, depth + 1));
+      const passed = condition.type === 'and' ? results.every(Boolean) : results.some(Boolean);
+      const count = results.filter(Boolean).length;
+      steps.splice(index, 0, {
+        kind: 'condition',
+        description: `${condition.type === 'and' ? 'All' : 'Any'} of ${results.length} conditions`,
+        result: passed ? 'passed' : 'failed',
+        details: { depth, passed: count },
+        at: context.now
+      });
+      return passed;
+    }
+
+    case 'time_window': {
+      const { year, month, day, hour, minute } = getZonedParts(context.now, context.timeZone);
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      const current = hour * 60 + minute;
+      const after = minutesOf(condition.after);
+      const before = minutesOf(condition.before);
+      const inWindow = after <= before
+        ? current >= after && current < before
+        : current >= after || current < before; // wraps midnight
+      const onDay = !condition.daysOfWeek?.length || condition.daysOfWeek.includes(weekday);
+      const days = condition.daysOfWeek?.length ? ` on days ${condition.daysOfWeek.join(', ')}` : '';
+      return step(`Time between ${condition.after} and ${condition.before}${days}`, inWindow && onDay, {
+        localTime: `${pad(hour)}:${pad(minute)}`,
+        weekday
+      });
+    }
+
+    case 'device_state': {
+      const values = context.devices.get(condition.deviceId);
+      const description = `${condition.deviceId} ${condition.field} ${OPERATORS[condition.operator]} ${JSON.stringify(condition.value)}`;
+      if (!values) {
+        return step(description, false, { reason: 'No values known for the device' });
+      }
+      const actual = fieldValue(values, condition.field);
+      return step(description, compareValues(condition.operator, actual, condition.value), { actual });
+    }
+  }
+}
+
+function minutesOf(time: string): number {
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10));
+  return hour! * 60 + minute!;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,4 @@
+export * from './triggers';
+export * from './conditions';
+export * from './rules';
+export * from './AutomationService';
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+
+import {
+  AutomationAction,
+  AutomationRuleInputSchema,
+  AutomationTrigger,
+  DeviceCapability,
+  normalizeCapabilities,
+  validateDeviceCommandParameters
+} from '@maestro/shared/types';
+
+import { Device } from '@/models/Device';
+import { createError } from '@/utils/errors';
+import { isValidTimeZone } from '@/utils/timezone';
+import { conditionDevices } from './conditions';
+
+/**
+ * Automation Rule Definitions
+ *
+ * Rules are parsed with the shared schemas and checked against the user's
+ * devices when they are saved: referenced devices must exist, and commands
+ * must be supported by the device they are sent to.
+ */
+
+const RuleChangesSchema = AutomationRuleInputSchema.partial();
+
+export type RuleDefinition = z.output<typeof AutomationRuleInputSchema> & { timezone: string };
+export type RuleChanges = z.output<typeof RuleChangesSchema>;
+
+interface RuleDevice {
+  deviceId: string;
+  capabilities: Array<DeviceCapability | string>; // type names on devices stored before capability objects
+}
+
+/**
+ * Parse a new rule
+ */
+export function parseRuleInput(input: unknown): z.output<typeof AutomationRuleInputSchema> {
+  return parse(AutomationRuleInputSchema, input);
+}
+
+/**
+ * Parse changes to a rule; absent fields are left as they are
+ */
+export function parseRuleChanges(input: unknown): RuleChanges {
+  // `conditions: null` removes the conditions
+  const { conditions, ...rest } = (input ?? {}) as Record<string, unknown>;
+  if (conditions === null) {
+    return { ...parse(RuleChangesSchema, rest), conditions: undefined };
+  }
+  return parse(RuleChangesSchema, input);
+}
+
+/**
+ * The deviceIds a rule refers to
+ */
+export function ruleDevices(rule: Pick<RuleDefinition, 'triggers' | 'conditions' | 'actions'>): string[] {
+  return [...new Set([
+    ...rule.triggers.flatMap(trigger => ('deviceId' in trigger ? [trigger.deviceId] : [])),
+    ...conditionDevices(rule.conditions),
+    ...rule.actions.flatMap(actionTargets).map(target => target.deviceId)
+  ])];
+}
+
+/**
+ * The device commands an action sends
+ */
+export function actionTargets(action: AutomationAction): Array<{ deviceId: string; command: string; parameters: Record<string, any> }> {
+  switch (action.type) {
+    case 'command':
+      return [action];
+    case 'scene':
+      return action.commands;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check a rule against the user's devices and return it with parsed command parameters
+ */
+export async function validateRule<T extends RuleDefinition>(userId: string, rule: T): Promise<T> {
+  if (!isValidTimeZone(rule.timezone)) {
+    throw createError.validation(`Unknown time zone: ${rule.timezone}`);
+  }
+  rule.triggers.forEach(checkTrigger);
+
+  const deviceIds = ruleDevices(rule);
+  const devices = await Device.find(
+    { userId, deviceId: { $in: deviceIds } },
+    { deviceId: 1, capabilities: 1 }
+  ).lean<RuleDevice[]>();
+  const byId = new Map(devices.map(device => [device.deviceId, normalizeCapabilities(device.capabilities)]));
+
+  const unknown = deviceIds.filter(deviceId => !byId.has(deviceId));
+  if (unknown.length > 0) {
+    throw createError.validation(`Rule references unknown devices: ${unknown.join(', ')}`, { unknown });
+  }
+
+  const actions = rule.actions.map(action => {
+    const check = <C extends { deviceId: string; command: string; parameters: Record<string, any> }>(target: C): C => {
+      const validation = validateDeviceCommandParameters(target.command, target.parameters, byId.get(target.deviceId)!);
+      if (!validation.valid) {
+        throw createError.validation(
+          `Invalid command '${target.command}' for ${target.deviceId}: ${validation.errors.join('; ')}`,
+          { errors: validation.errors }
+        );
+      }
+      return { ...target, parameters: validation.parameters };
+    };
+
+    switch (action.type) {
+      case 'command':
+        return check(action);
+      case 'scene':
+        return { ...action, commands: action.commands.map(check) };
+      default:
+        return action;
+    }
+  });
+
+  return { ...rule, actions };
+}
+
+/**
+ * Fill `{{name}}` placeholders of a notification from the values of a run;
+ * unknown placeholders are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Helper functions
+
+function parse<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const errors = result.error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    }));
+    throw createError.validation('Invalid automation rule', { errors });
+  }
+  return result.data;
+}
+
+function checkTrigger(trigger: AutomationTrigger): void {
+  if (trigger.type !== 'threshold') {
+    return;
+  }
+  if (trigger.above === undefined && trigger.below === undefined) {
+    throw createError.validation(`Threshold trigger on ${trigger.deviceId} needs above or below`);
+  }
+  if (trigger.above !== undefined && trigger.below !== undefined && trigger.above >= trigger.below) {
+    throw createError.validation(`Threshold trigger on ${trigger.deviceId} has no values above ${trigger.above} and below ${trigger.below}`);
+  }
+}
@@ -0,0 +1,218 @@
+import { AutomationTrigger, ComparisonOperator } from '@maestro/shared/types';
+
+import { scheduleEvents } from '@/services/schedules';
+import { getSunTimes } from '@/utils/sun';
+import { getZonedParts } from '@/utils/timezone';
+
+/**
+ * Automation Triggers
+ *
+ * Whether a trigger fires for a change of device values, and when time and
+ * sun triggers fall due. Value triggers compare the values before and after
+ * a change, so they fire when a value crosses into their range and stay quiet
+ * while it remains there or when nothing was known before.
+ */
+
+export type DeviceStateTrigger = Extract<AutomationTrigger, { type: 'device_state' }>;
+export type ThresholdTrigger = Extract<AutomationTrigger, { type: 'threshold' }>;
+export type TimeTrigger = Extract<AutomationTrigger, { type: 'time' }>;
+export type SunTrigger = Extract<AutomationTrigger, { type: 'sun' }>;
+
+/**
+ * The latest known values of a device: its state and measurement fields,
+ * status and connectivity
+ */
+export interface DeviceValues {
+  state: Record<string, any>;
+  status?: string | undefined;
+  isOnline?: boolean | undefined;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Value of a field: `status`, `isOnline`, or a state field (dotted paths reach into objects)
+ */
+export function fieldValue(values: DeviceValues | undefined, field: string): unknown {
+  if (!values) {
+    return undefined;
+  }
+  if (field === 'status') {
+    return values.status;
+  }
+  if (field === 'isOnline') {
+    return values.isOnline;
+  }
+  return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), values.state);
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * Compare a value with an operator; ordering operators only hold for numbers
+ */
+export function compareValues(operator: ComparisonOperator, actual: unknown, expected: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return valuesEqual(actual, expected);
+    case 'ne':
+      return !valuesEqual(actual, expected);
+  }
+
+  if (typeof actual !== 'number' || typeof expected !== 'number' || !Number.isFinite(actual)) {
+    return false;
+  }
+  switch (operator) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+  }
+}
+
+/**
+ * Whether a value lies above `above` and below `below`, where given
+ */
+export function inRange(range: { above?: number | undefined; below?: number | undefined }, value: number): boolean {
+  return (range.above === undefined || value > range.above) && (range.below === undefined || value < range.below);
+}
+
+/**
+ * Whether a numeric value crossed into a range; false without a previous value
+ */
+export function crossedInto(
+  range: { above?: number | undefined; below?: number | undefined },
+  previous: unknown,
+  current: unknown
+): boolean {
+  if (typeof previous !== 'number' || typeof current !== 'number') {
+    return false;
+  }
+  return !inRange(range, previous) && inRange(range, current);
+}
+
+/**
+ * Whether a device change fires a device state trigger
+ */
+export function deviceStateChanged(trigger: DeviceStateTrigger, previous: DeviceValues | undefined, current: DeviceValues): boolean {
+  if (!previous) {
+    return false;
+  }
+
+  if (trigger.field === undefined) {
+    const keys = new Set([...Object.keys(previous.state), ...Object.keys(current.state)]);
+    return previous.status !== current.status ||
+      previous.isOnline !== current.isOnline ||
+      [...keys].some(key => !valuesEqual(previous.state[key], current.state[key]));
+  }
+
+  const before = fieldValue(previous, trigger.field);
+  const after = fieldValue(current, trigger.field);
+  if (before === undefined || valuesEqual(before, after)) {
+    return false;
+  }
+  return (trigger.from === undefined || valuesEqual(before, trigger.from)) &&
+    (trigger.to === undefined || valuesEqual(after, trigger.to));
+}
+
+/**
+ * When a time trigger falls due after `since` up to and including `until`
+ */
+export function timeTriggerDue(trigger: TimeTrigger, timeZone: string, since: Date, until: Date): Date | undefined {
+  const [event] = scheduleEvents({
+    pattern: 'daily',
+    startTime: trigger.at,
+    daysOfWeek: trigger.daysOfWeek,
+    timezone: timeZone,
+    createdAt: since
+  }, since, until, 1);
+  return event?.at;
+}
+
+/**
+ * When a sun trigger falls due after `since` up to and including `until`;
+ * days without sunrise or sunset never fire
+ */
+export function sunTriggerDue(trigger: SunTrigger, timeZone: string, since: Date, until: Date): Date | undefined {
+  // The offset can move an event to the day before or after
+  const first = localDayNumber(new Date(since.getTime() - DAY), timeZone);
+  const last = localDayNumber(new Date(until.getTime() + DAY), timeZone);
+
+  for (let day = first; day <= last; day += DAY) {
+    const date = new Date(day);
+    if (trigger.daysOfWeek?.length && !trigger.daysOfWeek.includes(date.getUTCDay())) continue;
+
+    const times = getSunTimes(
+      timeZone,
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      trigger.latitude,
+      trigger.longitude
+    );
+    const base = trigger.event === 'sunrise' ? times.sunrise : times.sunset;
+    if (!base) continue;
+
+    const at = new Date(base.getTime() + (trigger.offset ?? 0) * 60000);
+    if (at > since && at <= until) {
+      return at;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Short description of a trigger for traces
+ */
+export function describeTrigger(trigger: AutomationTrigger): string {
+  switch (trigger.type) {
+    case 'device_state': {
+      const change = [
+        trigger.from !== undefined && `from ${JSON.stringify(trigger.from)}`,
+        trigger.to !== undefined && `to ${JSON.stringify(trigger.to)}`
+      ].filter(Boolean).join(' ');
+      return `${trigger.deviceId}${trigger.field ? ` ${trigger.field}` : ''} changes${change ? ` ${change}` : ''}`;
+    }
+    case 'threshold':
+      return `${trigger.deviceId} ${trigger.field}${rangeText(trigger)}`;
+    case 'time':
+      return `At ${trigger.at}${trigger.daysOfWeek?.length ? ` on days ${trigger.daysOfWeek.join(', ')}` : ''}`;
+    case 'sun': {
+      const offset = trigger.offset ?? 0;
+      return offset === 0
+        ? `At ${trigger.event}`
+        : `${Math.abs(offset)} minutes ${offset < 0 ? 'before' : 'after'} ${trigger.event}`;
+    }
+    case 'price_below':
+      return `Price drops below ${trigger.price} per kWh`;
+    case 'solar_surplus':
+      return `Solar surplus rises above ${trigger.above} W`;
+  }
+}
+
+// Helper functions
+
+function rangeText(range: { above?: number | undefined; below?: number | undefined }): string {
+  if (range.above !== undefined && range.below !== undefined) {
+    return ` moves between ${range.above} and ${range.below}`;
+  }
+  return range.above !== undefined ? ` rises above ${range.above}` : ` falls below ${range.below}`;
+}
+
+// Local dates as UTC midnights
+function localDayNumber(date: Date, timeZone: string): number {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day);
+}
@@ -0,0 +1,72 @@
+/**
+ * Carbon Intensity Provider
+ *
+ * Source of grid carbon intensity per zone. Providers are fetched on a
+ * schedule by the carbon intensity service; tests and local setups can pass
+ * any object implementing the interface.
+ */
+
+export type CarbonFormat = 'csv' | 'json';
+
+/**
+ * Carbon intensity of a grid zone for one interval
+ */
+export interface CarbonPoint {
+  zone: string;
+  start: Date;
+  end: Date;
+  intensity: number; // kg CO2e per kWh
+  forecast?: boolean | undefined;
+}
+
+export interface CarbonParseOptions {
+  zone?: string | undefined; // Zone of files that do not name one
+  unit?: 'g' | 'kg' | undefined; // CO2e per kWh the values are quoted in, default: g
+  timeZone?: string | undefined; // For local times without offset, default: UTC
+  resolution?: number | undefined; // Minutes per value when files only give starts, default: from the data
+}
+
+export interface CarbonIntensityProvider {
+  readonly name: string;
+
+  /**
+   * Intensities of a zone overlapping [start, end)
+   */
+  fetch(zone: string, start: Date, end: Date): Promise<CarbonPoint[]>;
+}
+
+/**
+ * Yearly average intensity (kg CO2e/kWh, life cycle) of common grid zones,
+ * used where no series is available
+ */
+export const STATIC_CARBON_INTENSITY: Record<string, number> = {
+  'AT': 0.11,
+  'BE': 0.15,
+  'CH': 0.04,
+  'DE': 0.38,
+  'DK': 0.14,
+  'EE': 0.42,
+  'ES': 0.14,
+  'FI': 0.07,
+  'FR': 0.05,
+  'GB': 0.21,
+  'IE': 0.29,
+  'IT': 0.3,
+  'NL': 0.27,
+  'NO': 0.03,
+  'PL': 0.66,
+  'PT': 0.14,
+  'SE': 0.04
+};
+
+/**
+ * Static intensity of a zone; sub-zones (DE-LU, DK1, SE3) use their country's value
+ */
+export function staticIntensity(zone: string, fallback: number): number {
+  const name = normalizeCarbonZone(zone);
+  return STATIC_CARBON_INTENSITY[name] ?? STATIC_CARBON_INTENSITY[name.slice(0, 2)] ?? fallback;
+}
+
+export function normalizeCarbonZone(zone: string): string {
+  return zone.trim().toUpperCase();
+}
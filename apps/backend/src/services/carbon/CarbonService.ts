@@ -0,0 +1,384 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { CarbonIntensity } from '@/models/CarbonIntensity';
+import { EnergyPreferences, UserPreferences } from '@/models/UserPreferences';
+import { createError } from '@/utils/errors';
+import { CarbonTimeline } from './emissions';
+import { detectCarbonFormat, parseCarbonIntensity } from './parsers';
+import {
+  CarbonFormat,
+  CarbonIntensityProvider,
+  CarbonParseOptions,
+  CarbonPoint,
+  normalizeCarbonZone,
+  staticIntensity
+} from './CarbonIntensityProvider';
+
+/**
+ * Carbon Intensity Service
+ *
+ * Stores grid carbon intensity series per zone and serves them to emission
+ * accounting. Series arrive from file imports or from a provider fetched on a
+ * schedule; re-imports replace the points of the same zone and interval, so
+ * forecasts are overwritten by measured values. Zones without a series fall
+ * back to a static yearly average.
+ */
+
+export interface CarbonIntensityServiceOptions {
+  zones?: string[]; // default: config.carbon.zones
+  fetchInterval?: number; // milliseconds, default: config.carbon.fetchInterval
+  lookbackDays?: number; // days before today fetched again for measured values, default: 1
+  horizonDays?: number; // UTC days fetched from today on, default: 2
+  cacheTTL?: number; // milliseconds user zones and timelines are reused, default: 300000
+}
+
+export interface CarbonImportResult {
+  zones: string[];
+  points: number;
+  upserted: number;
+  modified: number;
+  start?: Date | undefined;
+  end?: Date | undefined;
+}
+
+const DAY_MS = 86400000;
+
+// Intensities loaded around an instant for measurement tagging
+const TIMELINE_WINDOW = { before: DAY_MS, after: DAY_MS };
+
+interface CachedTimeline {
+  timeline: CarbonTimeline;
+  expiresAt: number;
+  from: number; // loaded points cover [from, to)
+  to: number;
+}
+
+export class CarbonIntensityService extends EventEmitter {
+  private moduleLogger = createModuleLogger('CarbonIntensityService');
+  private fetchTimer?: NodeJS.Timeout | undefined;
+  private fetching?: Promise<number> | undefined;
+  private lastFetchAt?: Date | undefined;
+  private lastError?: string | undefined;
+  private userZones: Map<string, { zone: string | undefined; expiresAt: number }> = new Map();
+  private timelines: Map<string, CachedTimeline> = new Map();
+  private readonly options: Required<CarbonIntensityServiceOptions>;
+
+  private stats = {
+    fetches: 0,
+    failedFetches: 0,
+    imported: 0
+  };
+
+  constructor(private provider?: CarbonIntensityProvider, options: CarbonIntensityServiceOptions = {}) {
+    super();
+    this.options = {
+      zones: (options.zones ?? config.carbon.zones).map(normalizeCarbonZone),
+      fetchInterval: options.fetchInterval ?? config.carbon.fetchInterval,
+      lookbackDays: options.lookbackDays ?? 1,
+      horizonDays: options.horizonDays ?? 2,
+      cacheTTL: options.cacheTTL ?? 300000
+    };
+  }
+
+  /**
+   * Start scheduled fetching when a provider and zones are configured
+   */
+  initialize(): void {
+    if (!this.provider || this.options.zones.length === 0) {
+      this.moduleLogger.info('Carbon intensity fetching disabled', {
+        provider: this.provider?.name,
+        zones: this.options.zones
+      });
+      return;
+    }
+
+    this.fetchAll().catch(() => undefined);
+    this.fetchTimer = setInterval(() => {
+      this.fetchAll().catch(() => undefined);
+    }, this.options.fetchInterval);
+
+    this.moduleLogger.info('Carbon intensity fetching started', {
+      provider: this.provider.name,
+      zones: this.options.zones,
+      fetchInterval: this.options.fetchInterval
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.fetchTimer) {
+      clearInterval(this.fetchTimer);
+      this.fetchTimer = undefined;
+    }
+
+    await this.fetching?.catch(() => undefined);
+    this.moduleLogger.info('Carbon intensity fetching stopped', this.stats);
+  }
+
+  /**
+   * Fetch recent measured values and forecasts of every configured zone
+   */
+  async fetchAll(now = new Date()): Promise<number> {
+    if (!this.provider) {
+      throw createError.serviceUnavailable('No carbon intensity provider configured');
+    }
+    if (this.fetching) {
+      return this.fetching;
+    }
+
+    const provider = this.provider;
+    const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+    const start = new Date(today - this.options.lookbackDays * DAY_MS);
+    const end = new Date(today + this.options.horizonDays * DAY_MS);
+
+    this.fetching = (async () => {
+      let imported = 0;
+      const errors: string[] = [];
+
+      for (const zone of this.options.zones) {
+        try {
+          const points = await provider.fetch(zone, start, end);
+          imported += (await this.importPoints(points, provider.name)).points;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push(`${zone}: ${message}`);
+          this.moduleLogger.warn('Carbon intensity fetch failed', { provider: provider.name, zone, error: message });
+        }
+      }
+
+      this.stats.fetches++;
+      this.lastFetchAt = new Date();
+      this.lastError = errors.length > 0 ? errors.join('; ') : undefined;
+      if (errors.length > 0) {
+        this.stats.failedFetches++;
+      }
+      this.emit('intensitiesFetched', { imported, errors });
+      return imported;
+    })();
+
+    try {
+      return await this.fetching;
+    } finally {
+      this.fetching = undefined;
+    }
+  }
+
+  /**
+   * Store intensity points, replacing those of the same zone and interval;
+   * a forecast does not replace a measured value
+   */
+  async importPoints(points: CarbonPoint[], source: string): Promise<CarbonImportResult> {
+    const valid = points.filter(point =>
+      Number.isFinite(point.intensity) && point.intensity >= 0 && point.end.getTime() > point.start.getTime()
+    );
+    if (valid.length === 0) {
+      return { zones: [], points: 0, upserted: 0, modified: 0 };
+    }
+
+    const importedAt = new Date();
+    const result = await CarbonIntensity.bulkWrite(valid.map(point => ({
+      updateOne: {
+        filter: {
+          zone: point.zone,
+          start: point.start,
+          end: point.end,
+          ...(point.forecast && { forecast: { $ne: false } })
+        },
+        update: { $set: { intensity: point.intensity, forecast: point.forecast ?? false, source, importedAt } },
+        upsert: true
+      }
+    })), { ordered: false }).catch(error => {
+      // Forecasts for intervals that already have a measured value hit the unique index
+      const writeErrors: Array<{ code?: number }> = [].concat(error?.writeErrors ?? []);
+      if (writeErrors.length > 0 && writeErrors.every(writeError => writeError.code === 11000)) {
+        return error.result;
+      }
+      throw error;
+    });
+
+    const zones = [...new Set(valid.map(point => point.zone))];
+    this.stats.imported += valid.length;
+    this.timelines.clear();
+    this.emit('intensitiesImported', { zones, points: valid.length, source });
+
+    return {
+      zones,
+      points: valid.length,
+      upserted: result?.upsertedCount ?? 0,
+      modified: result?.modifiedCount ?? 0,
+      start: new Date(Math.min(...valid.map(point => point.start.getTime()))),
+      end: new Date(Math.max(...valid.map(point => point.end.getTime())))
+    };
+  }
+
+  /**
+   * Import a CSV or JSON carbon intensity file
+   */
+  async importFile(
+    filePath: string,
+    options: CarbonParseOptions & { format?: CarbonFormat | undefined } = {}
+  ): Promise<CarbonImportResult> {
+    const format = options.format ?? detectCarbonFormat(filePath);
+    if (!format) {
+      throw createError.validation(`Unknown carbon intensity file format: ${filePath}`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf8');
+    const result = await this.importPoints(parseCarbonIntensity(content, format, options), format);
+
+    this.moduleLogger.info('Imported carbon intensity file', { filePath, format, ...result });
+    return result;
+  }
+
+  /**
+   * Intensities of a zone overlapping [start, end), oldest first
+   */
+  async getIntensities(zone: string, start: Date, end: Date): Promise<CarbonPoint[]> {
+    return CarbonIntensity.find(
+      { zone: normalizeCarbonZone(zone), start: { $lt: end }, end: { $gt: start } },
+      { _id: 0, zone: 1, start: 1, end: 1, intensity: 1, forecast: 1 }
+    )
+      .sort({ start: 1 })
+      .lean<CarbonPoint[]>();
+  }
+
+  /**
+   * Intensity series of a zone over [start, end) with the zone's fallback
+   */
+  async getTimeline(zone: string | undefined, start: Date, end: Date): Promise<CarbonTimeline> {
+    return loadCarbonTimeline(zone, start, end);
+  }
+
+  /**
+   * Grid intensity (kg CO2e/kWh) of a user's zone at an instant
+   */
+  async intensityAt(userId: string, at = new Date()): Promise<number> {
+    const zone = await this.getUserZone(userId);
+    const key = zone ?? '';
+    const time = at.getTime();
+
+    const cached = this.timelines.get(key);
+    if (cached && cached.expiresAt > Date.now() && time >= cached.from && time < cached.to) {
+      return cached.timeline.intensityAt(at);
+    }
+
+    const from = time - TIMELINE_WINDOW.before;
+    const to = time + TIMELINE_WINDOW.after;
+    const timeline = await this.getTimeline(zone, new Date(from), new Date(to));
+    this.timelines.set(key, { timeline, expiresAt: Date.now() + this.options.cacheTTL, from, to });
+    return timeline.intensityAt(at);
+  }
+
+  /**
+   * Forget cached user zones, e.g. after a preference change
+   */
+  invalidateUser(userId?: string): void {
+    if (userId) {
+      this.userZones.delete(userId);
+    } else {
+      this.userZones.clear();
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.provider !== undefined && this.options.zones.length > 0 &&
+      (this.lastFetchAt === undefined || Date.now() - this.lastFetchAt.getTime() > this.options.fetchInterval * 3);
+
+    return {
+      status: this.lastError || overdue ? 'degraded' : 'healthy',
+      details: {
+        provider: this.provider?.name ?? 'none',
+        zones: this.options.zones,
+        lastFetchAt: this.lastFetchAt,
+        lastError: this.lastError,
+        cachedZones: this.timelines.size,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private async getUserZone(userId: string): Promise<string | undefined> {
+    const cached = this.userZones.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.zone;
+    }
+
+    const preferences = await UserPreferences.findOne({ userId }, { energy: 1 }).lean();
+    const zone = carbonZoneOf(preferences?.energy);
+    this.userZones.set(userId, { zone, expiresAt: Date.now() + this.options.cacheTTL });
+    return zone;
+  }
+}
+
+/**
+ * Grid zone of a user: the carbon zone, else the tariff's price zone, else the configured default
+ */
+export function carbonZoneOf(energy?: Partial<EnergyPreferences> | null): string | undefined {
+  const zone = energy?.carbonZone ?? energy?.tariff?.priceZone ?? config.carbon.defaultZone;
+  return zone ? normalizeCarbonZone(zone) : undefined;
+}
+
+/**
+ * Stored intensity series of a zone over [start, end), falling back to the
+ * zone's static value (or the configured default) where it has gaps
+ */
+export async function loadCarbonTimeline(zone: string | undefined, start: Date, end: Date): Promise<CarbonTimeline> {
+  const fallback = zone ? staticIntensity(zone, config.carbon.defaultIntensity) : config.carbon.defaultIntensity;
+  if (!zone) {
+    return new CarbonTimeline([], fallback);
+  }
+
+  const points = await CarbonIntensity.find(
+    { zone: normalizeCarbonZone(zone), start: { $lt: end }, end: { $gt: start } },
+    { _id: 0, start: 1, end: 1, intensity: 1 }
+  ).lean();
+  return new CarbonTimeline(points, fallback);
+}
+
+/**
+ * CLI entry point: import <file> [zone] [g|kg], or fetch [zone,...]
+ */
+export async function runCarbonCommand(
+  command: string,
+  args: string[] = [],
+  provider?: CarbonIntensityProvider
+): Promise<void> {
+  if (!mongoose.connection.readyState) {
+    throw createError.database('Database not connected');
+  }
+
+  switch (command) {
+    case 'import': {
+      const [filePath, zone, unit] = args;
+      if (!filePath) {
+        throw new Error('Import requires a carbon intensity file (.csv or .json)');
+      }
+      if (unit !== undefined && unit !== 'g' && unit !== 'kg') {
+        throw new Error('Unit must be g or kg (CO2e per kWh)');
+      }
+      const result = await new CarbonIntensityService().importFile(filePath, { zone, unit });
+      console.log(`Imported ${result.points} intensities for ${result.zones.join(', ') || 'no zones'} from ${filePath}`);
+      break;
+    }
+
+    case 'fetch': {
+      if (!provider) {
+        throw new Error('Fetch requires CARBON_PROVIDER to be set');
+      }
+      const zones = args[0] ? args[0].split(',') : config.carbon.zones;
+      const imported = await new CarbonIntensityService(provider, { zones }).fetchAll();
+      console.log(`Fetched ${imported} intensities for ${zones.join(', ')} from ${provider.name}`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown carbon command: ${command}`);
+  }
+}
+
+export default CarbonIntensityService;
@@ -0,0 +1,102 @@
+/**
+ * Emission Accounting Tests
+ *
+ * Intensities of a carbon timeline and emitted and avoided emissions of
+ * energy intervals with and without self-consumed production.
+ */
+
+import { CarbonTimeline, sumAccounts } from '../emissions';
+
+const START = Date.parse('2026-03-02T10:00:00Z');
+const HOUR_MS = 3600000;
+
+function at(hours: number): Date {
+  return new Date(START + hours * HOUR_MS);
+}
+
+// Hourly series from 10:00 to 12:00, unsorted; later hours are unknown
+const timeline = new CarbonTimeline([
+  { start: at(1), end: at(2), intensity: 0.2 },
+  { start: at(0), end: at(1), intensity: 0.4 }
+], 0.3);
+
+describe('CarbonTimeline', () => {
+  it('looks up the intensity of an instant, with the fallback in gaps', () => {
+    expect(timeline.hasSeries).toBe(true);
+    expect(timeline.intensityAt(at(0.5))).toBe(0.4);
+    expect(timeline.intensityAt(at(1))).toBe(0.2);
+    expect(timeline.intensityAt(at(2))).toBe(0.3);
+    expect(timeline.intensityAt(at(-1))).toBe(0.3);
+  });
+
+  it('weighs the intensity over an interval by time', () => {
+    expect(timeline.averageIntensity(at(0.5), at(1.5))).toBeCloseTo(0.3);
+    expect(timeline.averageIntensity(at(0), at(2))).toBeCloseTo(0.3);
+    expect(timeline.averageIntensity(at(1), at(3))).toBeCloseTo(0.25);
+  });
+
+  it('uses the instant intensity for empty intervals', () => {
+    expect(timeline.averageIntensity(at(0.5), at(0.5))).toBe(0.4);
+  });
+
+  it('only knows the fallback without a series', () => {
+    const empty = new CarbonTimeline([], 0.35);
+
+    expect(empty.hasSeries).toBe(false);
+    expect(empty.averageIntensity(at(0), at(4))).toBe(0.35);
+  });
+
+  describe('account', () => {
+    it('emits the grid import at the average intensity', () => {
+      expect(timeline.account({ start: at(0), end: at(1), consumed: 2, produced: 0 })).toEqual({
+        consumed: 2,
+        selfConsumed: 0,
+        gridImport: 2,
+        emitted: 0.8,
+        avoided: 0
+      });
+    });
+
+    it('counts self-consumed production as avoided', () => {
+      const account = timeline.account({ start: at(1), end: at(2), consumed: 3, produced: 1 });
+
+      expect(account).toMatchObject({ selfConsumed: 1, gridImport: 2 });
+      expect(account.emitted).toBeCloseTo(0.4);
+      expect(account.avoided).toBeCloseTo(0.2);
+    });
+
+    it('caps self-consumption at consumption, leaving the export out', () => {
+      const account = timeline.account({ start: at(1), end: at(2), consumed: 1, produced: 4 });
+
+      expect(account).toMatchObject({ consumed: 1, selfConsumed: 1, gridImport: 0, emitted: 0 });
+      expect(account.avoided).toBeCloseTo(0.2);
+    });
+
+    it('treats negative energy as none', () => {
+      expect(timeline.account({ start: at(0), end: at(1), consumed: -1, produced: -2 })).toEqual({
+        consumed: 0,
+        selfConsumed: 0,
+        gridImport: 0,
+        emitted: 0,
+        avoided: 0
+      });
+    });
+  });
+});
+
+describe('sumAccounts', () => {
+  it('adds up accounts field by field', () => {
+    const total = sumAccounts([
+      timeline.account({ start: at(0), end: at(1), consumed: 2, produced: 0 }),
+      timeline.account({ start: at(1), end: at(2), consumed: 3, produced: 1 })
+    ]);
+
+    expect(total).toMatchObject({ consumed: 5, selfConsumed: 1, gridImport: 4 });
+    expect(total.emitted).toBeCloseTo(1.2);
+    expect(total.avoided).toBeCloseTo(0.2);
+  });
+
+  it('is zero for no accounts', () => {
+    expect(sumAccounts([])).toEqual({ consumed: 0, selfConsumed: 0, gridImport: 0, emitted: 0, avoided: 0 });
+  });
+});
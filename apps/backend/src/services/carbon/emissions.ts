@@ -0,0 +1,126 @@
+/**
+ * Emission Accounting
+ *
+ * Emissions of energy intervals from a carbon intensity series of the user's
+ * grid zone. Energy is assumed to be spread evenly over an interval, so its
+ * intensity is the time-weighted average of the series; gaps in the series
+ * use the zone's fallback intensity.
+ * Solar production used on site in the same interval is self-consumption: it
+ * displaces grid imports, so its energy counts as avoided emissions and only
+ * the remaining grid import is emitted.
+ */
+
+export interface IntensityPoint {
+  start: Date;
+  end: Date;
+  intensity: number; // kg CO2e per kWh
+}
+
+export interface CarbonInterval {
+  start: Date;
+  end: Date;
+  consumed: number; // kWh
+  produced: number; // kWh
+}
+
+export interface CarbonAccount {
+  consumed: number; // kWh
+  selfConsumed: number; // kWh of production used on site
+  gridImport: number; // kWh
+  emitted: number; // kg CO2e of the grid import
+  avoided: number; // kg CO2e displaced by self-consumed production
+}
+
+export class CarbonTimeline {
+  private readonly points: IntensityPoint[];
+
+  constructor(points: IntensityPoint[], readonly fallback: number) {
+    this.points = [...points].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Whether any point of the series is known, rather than only the fallback
+   */
+  get hasSeries(): boolean {
+    return this.points.length > 0;
+  }
+
+  /**
+   * Intensity at an instant
+   */
+  intensityAt(date: Date): number {
+    return this.pointAt(date.getTime())?.intensity ?? this.fallback;
+  }
+
+  /**
+   * Time-weighted intensity over [start, end)
+   */
+  averageIntensity(start: Date, end: Date): number {
+    const from = start.getTime();
+    const to = end.getTime();
+    if (to <= from) {
+      return this.intensityAt(start);
+    }
+
+    let weighted = 0;
+    let covered = 0;
+    for (const point of this.points) {
+      const overlap = Math.min(to, point.end.getTime()) - Math.max(from, point.start.getTime());
+      if (overlap > 0) {
+        weighted += point.intensity * overlap;
+        covered += overlap;
+      }
+    }
+    return (weighted + this.fallback * Math.max(0, to - from - covered)) / (to - from);
+  }
+
+  /**
+   * Emitted and avoided emissions of an interval
+   */
+  account(interval: CarbonInterval): CarbonAccount {
+    const consumed = Math.max(0, interval.consumed);
+    const selfConsumed = Math.min(consumed, Math.max(0, interval.produced));
+    const gridImport = consumed - selfConsumed;
+    const intensity = this.averageIntensity(interval.start, interval.end);
+
+    return {
+      consumed,
+      selfConsumed,
+      gridImport,
+      emitted: gridImport * intensity,
+      avoided: selfConsumed * intensity
+    };
+  }
+
+  // Private helper methods
+
+  private pointAt(time: number): IntensityPoint | undefined {
+    let low = 0;
+    let high = this.points.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const point = this.points[middle]!;
+      if (time < point.start.getTime()) {
+        high = middle - 1;
+      } else if (time >= point.end.getTime()) {
+        low = middle + 1;
+      } else {
+        return point;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Sum of several accounts
+ */
+export function sumAccounts(accounts: CarbonAccount[]): CarbonAccount {
+  return accounts.reduce<CarbonAccount>((sum, account) => ({
+    consumed: sum.consumed + account.consumed,
+    selfConsumed: sum.selfConsumed + account.selfConsumed,
+    gridImport: sum.gridImport + account.gridImport,
+    emitted: sum.emitted + account.emitted,
+    avoided: sum.avoided + account.avoided
+  }), { consumed: 0, selfConsumed: 0, gridImport: 0, emitted: 0, avoided: 0 });
+}
@@ -0,0 +1,28 @@
+import { config } from '@/config/environment';
+import { ElectricityMapsProvider, FileCarbonProvider } from './providers';
+import { CarbonIntensityProvider } from './CarbonIntensityProvider';
+
+export * from './CarbonIntensityProvider';
+export * from './parsers';
+export * from './providers';
+export * from './emissions';
+export * from './CarbonService';
+
+/**
+ * Provider selected by CARBON_PROVIDER, or undefined when intensities are only imported by hand
+ */
+export function createCarbonProvider(
+  settings: typeof config.carbon = config.carbon
+): CarbonIntensityProvider | undefined {
+  switch (settings.provider) {
+    case 'electricitymaps':
+      if (!settings.electricityMaps.token) {
+        throw new Error('ELECTRICITYMAPS_API_TOKEN is required for the electricitymaps carbon provider');
+      }
+      return new ElectricityMapsProvider({ url: settings.electricityMaps.url, token: settings.electricityMaps.token });
+    case 'file':
+      return new FileCarbonProvider(settings.importDir);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,170 @@
+import { createError } from '@/utils/errors';
+import {
+  firstNumber,
+  inferResolution,
+  parseLocalDate,
+  parseNumber,
+  parseOptionalDate,
+  splitCsvLine
+} from '@/utils/series-import';
+import { isValidTimeZone } from '@/utils/timezone';
+import { CarbonFormat, CarbonParseOptions, CarbonPoint, normalizeCarbonZone } from './CarbonIntensityProvider';
+
+/**
+ * Carbon Intensity File Parsers
+ *
+ * Turn CSV exports (Electricity Maps, own measurements) and JSON feeds
+ * (Electricity Maps, National Grid ESO carbon intensity, generic arrays) into
+ * intensity points in kg CO2e per kWh.
+ */
+
+const MINUTE_MS = 60000;
+
+/**
+ * Parse a carbon intensity file in the given format
+ */
+export function parseCarbonIntensity(
+  content: string,
+  format: CarbonFormat,
+  options: CarbonParseOptions = {}
+): CarbonPoint[] {
+  switch (format) {
+    case 'csv':
+      return parseCarbonCsv(content, options);
+    case 'json':
+      return parseCarbonJson(content, options);
+  }
+}
+
+/**
+ * Format of a carbon intensity file by extension
+ */
+export function detectCarbonFormat(fileName: string): CarbonFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'csv':
+    case 'txt':
+      return 'csv';
+    case 'json':
+      return 'json';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * CSV with a start column, an optional end and zone column and an intensity
+ * column. Of several intensity columns the life-cycle one ("LCA") is used.
+ * Values are in g CO2e/kWh unless the header or the options say kg.
+ */
+export function parseCarbonCsv(csv: string, options: CarbonParseOptions = {}): CarbonPoint[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const separator = [';', '\t', ','].find(candidate => lines[0]!.includes(candidate)) ?? ',';
+  const header = splitCsvLine(lines[0]!, separator);
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : 'UTC';
+
+  const startColumn = header.findIndex(name => /start|^from$|datetime|^date|^time|timestamp/i.test(name));
+  const endColumn = header.findIndex((name, index) => index !== startColumn && /end|^to$/i.test(name));
+  const zoneColumn = header.findIndex(name => /^zone( ?id)?$|^area$|^region$/i.test(name));
+  const intensityColumns = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => /intensity|co2/i.test(name));
+  const intensityColumn = intensityColumns.find(({ name }) => /lca|life/i.test(name)) ?? intensityColumns[0];
+  if (startColumn < 0) {
+    throw createError.validation('Carbon intensity CSV has no start or date column');
+  }
+  if (!intensityColumn) {
+    throw createError.validation('Carbon intensity CSV has no intensity column');
+  }
+
+  const factor = intensityFactor(options.unit ?? (/kg/i.test(intensityColumn.name) ? 'kg' : 'g'));
+  const rows: Array<{ start: Date; end?: Date | undefined; zone: string; intensity: number }> = [];
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, separator);
+    const start = parseLocalDate(cells[startColumn] ?? '', timeZone);
+    const intensity = parseNumber(cells[intensityColumn.index]);
+    const zone = options.zone ?? (zoneColumn >= 0 ? cells[zoneColumn] : undefined);
+    if (!start || intensity === undefined) continue;
+    if (!zone) {
+      throw createError.validation('Carbon intensity CSV without zone; pass one with the import');
+    }
+
+    const end = endColumn >= 0 ? parseLocalDate(cells[endColumn] ?? '', timeZone) : undefined;
+    rows.push({ start, end, zone, intensity });
+  }
+
+  const resolution = (options.resolution ?? 0) * MINUTE_MS || inferResolution(rows.map(row => row.start));
+  return sortPoints(rows.map(row => ({
+    zone: normalizeCarbonZone(row.zone),
+    start: row.start,
+    end: row.end ?? new Date(row.start.getTime() + resolution),
+    intensity: Math.max(0, row.intensity * factor)
+  })));
+}
+
+/**
+ * JSON: Electricity Maps `history`/`forecast` responses (or a single latest
+ * value), National Grid ESO `data` entries with `intensity.actual` and
+ * `intensity.forecast`, or an array of entries with a start (`start`, `from`,
+ * `datetime`, `timestamp`) and an intensity (`intensity`, `carbonIntensity`,
+ * `value`). Values are in g CO2e/kWh unless the options say kg.
+ */
+export function parseCarbonJson(json: string, options: CarbonParseOptions = {}): CarbonPoint[] {
+  let document: any;
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    throw createError.validation(`Invalid carbon intensity JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const forecasts = new Set<any>(Array.isArray(document?.forecast) ? document.forecast : []);
+  const entries: any[] = Array.isArray(document)
+    ? document
+    : document.history ?? document.data ?? document.forecast ??
+      (document.carbonIntensity !== undefined ? [document] : []);
+
+  const factor = intensityFactor(options.unit ?? 'g');
+  const starts = entries.map(entry => parseOptionalDate(
+    entry.start ?? entry.from ?? entry.datetime ?? entry.timestamp ?? entry.time
+  ));
+  const resolution = (options.resolution ?? 0) * MINUTE_MS ||
+    inferResolution(starts.filter((start): start is Date => start !== undefined));
+
+  const points: CarbonPoint[] = [];
+  entries.forEach((entry, index) => {
+    const start = starts[index];
+    const nested = typeof entry.intensity === 'object' && entry.intensity !== null ? entry.intensity : undefined;
+    const measured = firstNumber(nested?.actual, nested ? undefined : entry.intensity, entry.carbonIntensity, entry.value);
+    const intensity = measured ?? firstNumber(nested?.forecast);
+    const zone = options.zone ?? entry.zone ?? document.zone ?? document.region;
+    if (!start || intensity === undefined) return;
+    if (!zone) {
+      throw createError.validation('Carbon intensity JSON without zone; pass one with the import');
+    }
+
+    const end = parseOptionalDate(entry.end ?? entry.to);
+    points.push({
+      zone: normalizeCarbonZone(zone),
+      start,
+      end: end ?? new Date(start.getTime() + resolution),
+      intensity: Math.max(0, intensity * factor),
+      ...((forecasts.has(entry) || measured === undefined) && { forecast: true })
+    });
+  });
+
+  return sortPoints(points);
+}
+
+// Helper functions
+
+function intensityFactor(unit: 'g' | 'kg'): number {
+  return unit === 'g' ? 0.001 : 1;
+}
+
+function sortPoints(points: CarbonPoint[]): CarbonPoint[] {
+  return points.sort((a, b) => a.zone.localeCompare(b.zone) || a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+import { createError } from '@/utils/errors';
+import { detectCarbonFormat, parseCarbonIntensity, parseCarbonJson } from './parsers';
+import {
+  CarbonIntensityProvider,
+  CarbonParseOptions,
+  CarbonPoint,
+  normalizeCarbonZone
+} from './CarbonIntensityProvider';
+
+export interface ElectricityMapsProviderConfig {
+  url: string;
+  token: string;
+  timeout?: number; // milliseconds, default: 30000
+}
+
+/**
+ * Hourly carbon intensity from the Electricity Maps API: measured values for
+ * the past part of the range, the forecast for the rest
+ */
+export class ElectricityMapsProvider implements CarbonIntensityProvider {
+  readonly name = 'electricitymaps';
+  private readonly client: AxiosInstance;
+
+  constructor(config: ElectricityMapsProviderConfig) {
+    this.client = axios.create({
+      baseURL: config.url,
+      timeout: config.timeout ?? 30000,
+      headers: { 'auth-token': config.token },
+      responseType: 'text'
+    });
+  }
+
+  async fetch(zone: string, start: Date, end: Date): Promise<CarbonPoint[]> {
+    const now = new Date();
+    const points: CarbonPoint[] = [];
+
+    if (start < now) {
+      const pastEnd = end < now ? end : now;
+      points.push(...await this.request('/carbon-intensity/past-range', zone, {
+        start: start.toISOString(),
+        end: pastEnd.toISOString()
+      }));
+    }
+    if (end > now) {
+      points.push(...await this.request('/carbon-intensity/forecast', zone, {}));
+    }
+
+    return points.filter(point => point.end > start && point.start < end);
+  }
+
+  private async request(url: string, zone: string, params: Record<string, string>): Promise<CarbonPoint[]> {
+    try {
+      const response = await this.client.get<string>(url, { params: { zone, ...params } });
+      return parseCarbonJson(response.data, { zone });
+    } catch (error) {
+      const axiosError = error as AxiosError<string>;
+      if (!axiosError.isAxiosError) {
+        throw error;
+      }
+      throw createError.externalService('ElectricityMaps', `Carbon intensity request failed: ${axiosError.message}`, 502, {
+        status: axiosError.response?.status,
+        zone
+      });
+    }
+  }
+}
+
+/**
+ * Intensities from files in a directory, named after the zone (NL.json,
+ * DE.csv); a local stand-in for a feed, or for series exported by hand
+ */
+export class FileCarbonProvider implements CarbonIntensityProvider {
+  readonly name = 'file';
+
+  constructor(private directory: string, private options: CarbonParseOptions = {}) {}
+
+  async fetch(zone: string, start: Date, end: Date): Promise<CarbonPoint[]> {
+    const name = normalizeCarbonZone(zone);
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      throw createError.externalService('CarbonFiles', `Cannot read carbon intensity directory ${this.directory}`, 502, {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
+    const points: CarbonPoint[] = [];
+    for (const file of files) {
+      const format = detectCarbonFormat(file);
+      if (!format || path.parse(file).name.toUpperCase() !== name) continue;
+
+      const content = await fs.readFile(path.join(this.directory, file), 'utf8');
+      points.push(...parseCarbonIntensity(content, format, { ...this.options, zone: name }));
+    }
+
+    return points.filter(point => point.end > start && point.start < end);
+  }
+}
@@ -2,6 +2,7 @@ import mongoose from 'mongoose';
 import { config } from '@/config/environment';
 import logger from '@/config/logger';
 import { DatabaseError } from '@/utils/errors';
+import { DeviceCapability, normalizeCapabilities } from '@maestro/shared/types';
 
 /**
  * Database Migration System
@@ -308,6 +309,46 @@ export class MigrationManager {
       }
     });
 
+    // Migration 006: Store device capabilities as capability objects
+    this.migrations.push({
+      version: 6,
+      name: 'normalize_device_capabilities',
+      description: 'Convert capability names stored by the device routes into capability objects',
+      up: async (db) => {
+        const devices = db.collection('devices');
+
+        // Names the device routes stored before they used capability types
+        const legacyNames: Record<string, string> = {
+          energy_generator: 'energy_meter',
+          inverter_stats: 'energy_meter',
+          monitoring: 'energy_meter',
+          battery_monitor: 'energy_meter',
+          grid_tie: 'grid_interaction',
+          charge_controller: 'energy_storage',
+          backup_power: 'energy_storage',
+          basic_control: 'switch'
+        };
+
+        const cursor = devices.find({ capabilities: { $type: 'string' } }, { projection: { capabilities: 1 } });
+        let converted = 0;
+        for await (const device of cursor) {
+          const names = (device.capabilities as unknown[])
+            .map(capability => typeof capability === 'string' ? legacyNames[capability] ?? capability : capability);
+          const capabilities = normalizeCapabilities(names as Array<DeviceCapability | string>)
+            .filter((capability, index, all) => all.findIndex(other => other.type === capability.type) === index);
+
+          await devices.updateOne({ _id: device._id }, { $set: { capabilities } });
+          converted++;
+        }
+
+        logger.info('Device capabilities migration completed', { converted });
+      },
+      down: async () => {
+        // Capability objects are what the Device schema expects, so they are kept
+        logger.warn('Device capabilities migration is not reversed');
+      }
+    });
+
     logger.info(`Registered ${this.migrations.length} migrations`);
   }
 
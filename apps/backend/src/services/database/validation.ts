@@ -8,6 +8,7 @@ import {
   DeviceCapabilitySchema,
   DeviceSpecificationsSchema
 } from '@maestro/shared/types';
+import { isValidTariffHours } from '@/services/tariff-engine';
 import { ValidationError } from '@/utils/errors';
 import logger from '@/config/logger';
 
@@ -62,7 +63,7 @@ export const UpdateUserValidation = z.object({
  */
 export const CreateDeviceValidation = z.object({
   deviceId: z.string().min(1).max(100),
-  protocol: z.enum(['tuya', 'modbus', 'mqtt', 'sunspec', 'can_bus', 'rest_api', 'local_network']),
+  protocol: z.enum(['tuya', 'modbus', 'mqtt', 'sunspec', 'can_bus', 'rest_api', 'local_network', 'simulator', 'virtual']),
   deviceType: z.enum(['smart_plug', 'solar_inverter', 'battery_pack', 'energy_meter', 'heat_pump', 'ev_charger']),
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
@@ -177,6 +178,22 @@ export const CreateEnergyMeasurementValidation = z.object({
 /**
  * User Preferences Validation Schemas
  */
+const tariffHoursSchema = z.array(
+  z.string()
+    .regex(/^\d{1,2}(:\d{2})?(-\d{1,2}(:\d{2})?)?$/, 'Expected HH:MM-HH:MM or HH')
+    .refine(isValidTariffHours, 'Expected times between 00:00 and 24:00')
+);
+
+const tariffRateSchema = z.object({
+  rate: z.number().min(0),
+  hours: tariffHoursSchema
+});
+
+const tariffWindowSchema = tariffRateSchema.extend({
+  name: z.string().min(1),
+  days: z.enum(['all', 'weekdays', 'weekends']).optional()
+});
+
 export const UpdateUserPreferencesValidation = z.object({
   ui: z.object({
     theme: z.enum(['light', 'dark', 'auto']).optional(),
@@ -214,11 +231,36 @@ export const UpdateUserPreferencesValidation = z.object({
     energyProvider: z.string().optional(),
     currency: z.string().optional(),
     fixedRate: z.number().min(0).optional(),
+    timeOfUseRates: z.object({
+      peak: tariffRateSchema,
+      offPeak: tariffRateSchema,
+      shoulder: tariffRateSchema
+    }).optional(),
+    tariff: z.object({
+      windows: z.array(tariffWindowSchema).optional(),
+      seasons: z.array(z.object({
+        name: z.string().min(1),
+        months: z.array(z.number().int().min(1).max(12)).min(1),
+        windows: z.array(tariffWindowSchema),
+        baseRate: z.number().min(0).optional()
+      })).optional(),
+      tiers: z.array(z.object({
+        upTo: z.number().min(0).optional(),
+        rate: z.number().min(0)
+      })).optional(),
+      standingCharge: z.number().min(0).optional(),
+      energyTax: z.number().min(0).optional(),
+      taxRate: z.number().min(0).max(1).optional(),
+      priceZone: z.string().min(1).max(40).optional(),
+      spotMarkup: z.number().optional()
+    }).optional(),
     optimizationMode: z.enum(['cost', 'carbon', 'comfort', 'performance', 'custom']).optional(),
     autoOptimization: z.boolean().optional(),
     loadShifting: z.boolean().optional(),
     monthlyBudget: z.number().min(0).optional(),
-    dailyBudget: z.number().min(0).optional()
+    dailyBudget: z.number().min(0).optional(),
+    carbonZone: z.string().min(1).max(40).optional(),
+    gridMeterDeviceId: z.string().min(1).optional()
   }).optional(),
   devices: z.object({
     defaultSettings: z.object({
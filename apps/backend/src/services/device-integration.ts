@@ -5,16 +5,25 @@ import {
   CommandResult, 
   DeviceDiscovery, 
   ProtocolType,
-  Device
+  Device,
+  DeviceCapability,
+  CapabilityType,
+  normalizeCapabilities,
+  validateDeviceCommandParameters
 } from '@maestro/shared/types';
 
 import { DeviceService } from '@/services/database/DeviceService';
-import { ProtocolAdapterManager } from '@/services/protocol-adapter-manager';
+import { ProtocolAdapterManager, QueuedCommandOptions } from '@/services/protocol-adapter-manager';
 import { WebSocketManager } from '@/services/websocket';
 import { CacheManager } from '@/services/cache';
+import { DeviceCommandLog } from '@/services/device-history';
 import { createError } from '@/utils/errors';
 import logger, { createModuleLogger, deviceLogger } from '@/config/logger';
 
+export interface CommandExecutionOptions extends QueuedCommandOptions {
+  source?: DeviceCommandLog['source'] | undefined; // Who issued the command, 'api' by default
+}
+
 /**
  * Device Integration Service
  * 
@@ -45,12 +54,14 @@ export class DeviceIntegrationService extends EventEmitter {
     discovery_results: 120000   // 2 minutes
   };
 
-  // Retry configurations
+  // Retry configurations; the adapters' circuit breakers take over once a
+  // device or protocol keeps failing, so retries here stay short
   private readonly RETRY_CONFIG = {
     maxAttempts: 3,
     baseDelay: 1000,
     maxDelay: 10000,
-    backoffFactor: 2
+    backoffFactor: 2,
+    jitter: 0.5 // fraction of the delay randomized, spreads retries of many callers
   };
 
   constructor(
@@ -197,8 +208,10 @@ export class DeviceIntegrationService extends EventEmitter {
     deviceId: string, 
     userId: string, 
     command: string, 
-    parameters: Record<string, any> = {}
+    parameters: Record<string, any> = {},
+    options: CommandExecutionOptions = {}
   ): Promise<CommandResult> {
+    const { source = 'api', ...queueOptions } = options;
     const executionId = `${deviceId}-${command}-${Date.now()}`;
     const startTime = Date.now();
 
@@ -209,17 +222,26 @@ export class DeviceIntegrationService extends EventEmitter {
         throw createError.notFound(`Device not found: ${deviceId}`);
       }
 
-      // Validate device is online
-      if (!device.isOnline) {
+      // Validate device is online, unless the caller lets the command wait for it
+      if (!device.isOnline && queueOptions.ttl === undefined) {
         throw createError.serviceUnavailable(`Device ${device.name} is offline`);
       }
 
+      // Validate command and parameters against the command catalog and device capabilities
+      const validation = validateDeviceCommandParameters(command, parameters, normalizeCapabilities(device.capabilities));
+      if (!validation.valid) {
+        throw createError.validation(`Invalid command '${command}': ${validation.errors.join('; ')}`, {
+          errors: validation.errors
+        });
+      }
+
       // Create command object
       const deviceCommand: DeviceCommand = {
         deviceId: device.deviceId,
         command,
-        parameters,
-        timestamp: new Date()
+        parameters: validation.parameters,
+        timestamp: new Date(),
+        ...queueOptions
       };
 
       // Track command execution
@@ -247,11 +269,13 @@ export class DeviceIntegrationService extends EventEmitter {
       this.moduleLogger.info('Device command executed', {
         deviceId,
         command,
+        source,
         success: result.success,
         duration,
         retryCount: result.retryCount || 0
       });
 
+      this.emit('commandExecuted', { deviceId, userId, command: deviceCommand, result, source });
       return result;
 
     } catch (error) {
@@ -265,18 +289,27 @@ export class DeviceIntegrationService extends EventEmitter {
         deviceId,
         command,
         parameters,
+        source,
         duration,
         error
       });
 
       // Return failed command result
-      return {
+      const result: CommandResult = {
         success: false,
         timestamp: new Date(),
         responseTime: duration,
         error: error instanceof Error ? error.message : 'Command execution failed',
         retryCount: this.commandExecutions.get(executionId)?.retryCount || 0
       };
+      this.emit('commandExecuted', {
+        deviceId,
+        userId,
+        command: { deviceId, command, parameters, timestamp: new Date(startTime) },
+        result,
+        source
+      });
+      return result;
     }
   }
 
@@ -629,12 +662,13 @@ export class DeviceIntegrationService extends EventEmitter {
         // Update retry count
         execution.retryCount = attempt;
 
-        // Calculate delay for retry (exponential backoff)
+        // Calculate delay for retry (exponential backoff with jitter)
         if (attempt > 0) {
-          const delay = Math.min(
+          const backoff = Math.min(
             this.RETRY_CONFIG.baseDelay * Math.pow(this.RETRY_CONFIG.backoffFactor, attempt - 1),
             this.RETRY_CONFIG.maxDelay
           );
+          const delay = Math.round(backoff * (1 - this.RETRY_CONFIG.jitter * Math.random()));
           
           this.moduleLogger.debug('Retrying command execution', {
             deviceId: device._id,
@@ -651,7 +685,12 @@ export class DeviceIntegrationService extends EventEmitter {
           device.protocol as ProtocolType,
           device.deviceId,
           command.command,
-          command.parameters
+          command.parameters,
+          {
+            priority: command.priority,
+            scheduledAt: command.scheduledAt,
+            ttl: command.ttl
+          }
         );
 
         // Add retry count to result
@@ -691,7 +730,14 @@ export class DeviceIntegrationService extends EventEmitter {
       'device not found',
       'invalid command',
       'unauthorized',
-      'permission denied'
+      'permission denied',
+      // Outcomes decided by the adapter command queue
+      'expired after waiting',
+      'command cancelled',
+      'queue for',
+      // Retrying cannot help before the circuit breaker lets calls through again
+      'circuit open',
+      'rate limited'
     ];
 
     return nonRetryableMessages.some(msg => 
@@ -843,13 +889,14 @@ export class DeviceIntegrationService extends EventEmitter {
     };
   }
 
-  private getDeviceCapabilities(deviceType: string): string[] {
-    const capabilityMap: Record<string, string[]> = {
+  private getDeviceCapabilities(deviceType: string): DeviceCapability[] {
+    const capabilityMap: Record<string, CapabilityType[]> = {
       'smart_plug': ['switch', 'energy_meter', 'scheduler'],
-      'solar_inverter': ['energy_generator', 'inverter_stats', 'grid_tie', 'monitoring'],
-      'battery_pack': ['battery_monitor', 'charge_controller', 'energy_storage', 'backup_power']
+      'solar_inverter': ['energy_meter', 'grid_interaction'],
+      'battery_pack': ['energy_meter', 'energy_storage'],
+      'energy_meter': ['energy_meter']
     };
-    return capabilityMap[deviceType] || ['basic_control'];
+    return normalizeCapabilities(capabilityMap[deviceType] || ['switch']);
   }
 
   private validateDeviceUpdateData(updateData: Partial<Device>): Record<string, any> {
@@ -0,0 +1,96 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { createError } from '@/utils/errors';
+
+/**
+ * Email Service
+ *
+ * Sends email over SMTP with the settings in `config.email`. Without an SMTP
+ * host the service is unconfigured: callers check `isConfigured` and skip
+ * emailing instead of failing.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string | undefined;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+  attachments?: EmailAttachment[] | undefined;
+}
+
+export type EmailSettings = typeof config.email;
+
+export class EmailService {
+  private moduleLogger = createModuleLogger('EmailService');
+  private transporter?: Transporter | undefined;
+  private stats = {
+    sent: 0,
+    failed: 0
+  };
+
+  constructor(private settings: EmailSettings = config.email) {
+    const { smtp } = settings;
+    if (smtp.host) {
+      this.transporter = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        ...(smtp.user && { auth: { user: smtp.user, pass: smtp.password } })
+      });
+    }
+  }
+
+  get isConfigured(): boolean {
+    return this.transporter !== undefined;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (!this.transporter) {
+      throw createError.serviceUnavailable('Email delivery is not configured');
+    }
+
+    try {
+      await this.transporter.sendMail({
+        from: this.settings.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        ...(message.html !== undefined && { html: message.html }),
+        ...(message.attachments && { attachments: message.attachments })
+      });
+      this.stats.sent++;
+    } catch (error) {
+      this.stats.failed++;
+      this.moduleLogger.warn('Failed to send email', {
+        subject: message.subject,
+        error: error instanceof Error ? error.message : error
+      });
+      throw createError.externalService('SMTP', error instanceof Error ? error.message : 'Failed to send email');
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    return {
+      status: 'healthy',
+      details: {
+        configured: this.isConfigured,
+        ...(this.isConfigured && { host: this.settings.smtp.host }),
+        ...this.stats
+      }
+    };
+  }
+
+  shutdown(): void {
+    this.transporter?.close();
+  }
+}
+
+export default EmailService;
@@ -0,0 +1,385 @@
+import { EventEmitter } from 'events';
+import { EnergyFlow as EnergyFlowSnapshot, EnergyRole } from '@maestro/shared/types';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { Device } from '@/models/Device';
+import { EnergyFlow } from '@/models/EnergyMeasurement';
+import { UserPreferences } from '@/models/UserPreferences';
+import { CarbonIntensityService } from '@/services/carbon';
+import { EnergyIngestionService } from '@/services/energy-ingestion';
+import { EnergyMeasurementRecord } from '@/services/measurements';
+import { EnergyPriceService } from '@/services/prices';
+import { WebSocketManager } from '@/services/websocket';
+
+/**
+ * Energy Flow Service
+ *
+ * Computes household power flows from the latest measurement of each device:
+ * where solar production goes (loads, battery, export), what the battery
+ * supplies, and what is drawn from the grid. Snapshots are pushed over
+ * WebSocket every interval and stored as EnergyFlow documents at a lower rate.
+ *
+ * Sign conventions of `activePower` per energy role:
+ * - consumer: consumption (W)
+ * - producer: production (W)
+ * - storage: positive = charging, negative = discharging
+ * - bidirectional: positive = consuming, negative = producing
+ * - grid meter (energy.gridMeterDeviceId): positive = import, negative = export
+ *
+ * With a grid meter, household consumption follows from the energy balance and
+ * load not measured by any device appears as the virtual `remainder` load.
+ * Without one, the grid exchange is inferred from the measured devices.
+ * Other monitors are sub-meters and are left out, so nothing is counted twice.
+ */
+
+export const GRID_NODE = 'grid';
+export const REMAINDER_NODE = 'remainder';
+
+export interface FlowReading {
+  deviceId: string;
+  role?: EnergyRole | 'grid' | undefined; // no role: consumer
+  power: number; // W, signed per role
+}
+
+export interface FlowComputeOptions {
+  intervalMs?: number | undefined; // energy of each flow over this interval, omitted without
+  gridRate?: number | undefined; // currency per imported kWh, for flow costs
+  gridIntensity?: number | undefined; // kg CO2e per imported kWh, for flow emissions
+  minPower?: number | undefined; // W, smaller flows are left out, default: 1
+}
+
+export interface EnergyFlowOptions {
+  interval?: number; // milliseconds between snapshots, default: config.measurements.flowInterval
+  persistInterval?: number; // milliseconds between stored snapshots per user, 0 never, default: config.measurements.flowPersistInterval
+  staleAfter?: number; // milliseconds a reading counts towards the flow, default: 300000
+  deviceCacheTTL?: number; // milliseconds device roles are reused, default: 300000
+}
+
+interface DeviceReading {
+  userId: string;
+  power: number;
+  timestamp: number;
+}
+
+interface UserDevices {
+  roles: Map<string, EnergyRole | undefined>;
+  gridMeter?: string | undefined;
+  expiresAt: number;
+}
+
+type FlowNode = { id: string; power: number };
+
+export class EnergyFlowService extends EventEmitter {
+  private moduleLogger = createModuleLogger('EnergyFlowService');
+  private readings: Map<string, DeviceReading> = new Map();
+  private devices: Map<string, UserDevices> = new Map();
+  private latest: Map<string, EnergyFlowSnapshot> = new Map();
+  private persistedAt: Map<string, number> = new Map();
+  private tickTimer?: NodeJS.Timeout | undefined;
+  private ticking?: Promise<void> | undefined;
+  private wsManager?: WebSocketManager | undefined;
+  private readonly options: Required<EnergyFlowOptions>;
+  private readonly onMeasurement = (record: EnergyMeasurementRecord) => {
+    if (record.measurements.activePower === undefined) return;
+    this.readings.set(record.deviceId, {
+      userId: record.userId,
+      power: record.measurements.activePower,
+      timestamp: record.timestamp.getTime()
+    });
+  };
+
+  private stats = {
+    snapshots: 0,
+    persisted: 0,
+    failedTicks: 0
+  };
+
+  constructor(
+    private ingestion: EnergyIngestionService,
+    options: EnergyFlowOptions = {},
+    private prices?: EnergyPriceService,
+    private carbon?: CarbonIntensityService
+  ) {
+    super();
+    this.options = {
+      interval: options.interval ?? config.measurements.flowInterval,
+      persistInterval: options.persistInterval ?? config.measurements.flowPersistInterval,
+      staleAfter: options.staleAfter ?? 300000,
+      deviceCacheTTL: options.deviceCacheTTL ?? 300000
+    };
+  }
+
+  /**
+   * Start following measurements and computing snapshots
+   */
+  initialize(): void {
+    this.ingestion.on('measurement', this.onMeasurement);
+    this.tickTimer = setInterval(() => {
+      void this.tick();
+    }, this.options.interval);
+
+    this.moduleLogger.info('Energy flow computation started', {
+      interval: this.options.interval,
+      persistInterval: this.options.persistInterval
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    this.ingestion.off('measurement', this.onMeasurement);
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+
+    await this.ticking;
+    this.moduleLogger.info('Energy flow computation stopped', this.stats);
+  }
+
+  /**
+   * WebSocket manager snapshots are pushed to, once the server is up
+   */
+  setWebSocketManager(wsManager: WebSocketManager): void {
+    this.wsManager = wsManager;
+  }
+
+  /**
+   * Latest snapshot of a user, computed in this process
+   */
+  getLatest(userId: string): EnergyFlowSnapshot | undefined {
+    return this.latest.get(userId);
+  }
+
+  /**
+   * Forget cached device roles and grid meter, e.g. after a device or preference change
+   */
+  invalidateUser(userId: string): void {
+    this.devices.delete(userId);
+  }
+
+  /**
+   * Compute, push and (when due) store a snapshot for every user with fresh readings
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) {
+      return this.ticking;
+    }
+
+    this.ticking = (async () => {
+      const users = new Set<string>();
+      for (const [deviceId, reading] of this.readings) {
+        if (now.getTime() - reading.timestamp > this.options.staleAfter) {
+          this.readings.delete(deviceId);
+        } else {
+          users.add(reading.userId);
+        }
+      }
+
+      for (const userId of users) {
+        try {
+          await this.computeForUser(userId, now);
+        } catch (error) {
+          this.stats.failedTicks++;
+          this.moduleLogger.warn('Failed to compute energy flow', {
+            userId,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+    })();
+
+    try {
+      await this.ticking;
+    } finally {
+      this.ticking = undefined;
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    return {
+      status: 'healthy',
+      details: {
+        devices: this.readings.size,
+        users: this.latest.size,
+        pushing: this.wsManager !== undefined,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private async computeForUser(userId: string, now: Date): Promise<void> {
+    const devices = await this.loadDevices(userId);
+    const readings: FlowReading[] = [];
+    for (const [deviceId, role] of devices.roles) {
+      const reading = this.readings.get(deviceId);
+      if (!reading || reading.userId !== userId) continue;
+      readings.push({ deviceId, role: deviceId === devices.gridMeter ? 'grid' : role, power: reading.power });
+    }
+
+    const [tariff, gridIntensity] = await Promise.all([
+      this.prices?.getUserTariff(userId, now),
+      this.carbon?.intensityAt(userId, now)
+    ]);
+    const flow = computeEnergyFlow(readings, now, {
+      intervalMs: this.options.interval,
+      gridRate: tariff?.marginalRate(now),
+      gridIntensity
+    });
+
+    this.latest.set(userId, flow);
+    this.stats.snapshots++;
+    this.wsManager?.sendEnergyFlow(userId, flow);
+    this.emit('flow', { userId, flow });
+
+    const persistedAt = this.persistedAt.get(userId) ?? 0;
+    if (this.options.persistInterval > 0 && now.getTime() - persistedAt >= this.options.persistInterval) {
+      await EnergyFlow.create({ userId, ...flow });
+      this.persistedAt.set(userId, now.getTime());
+      this.stats.persisted++;
+    }
+  }
+
+  private async loadDevices(userId: string): Promise<UserDevices> {
+    const cached = this.devices.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const [devices, preferences] = await Promise.all([
+      Device.find({ userId }, { deviceId: 1, energyRole: 1 }).lean(),
+      UserPreferences.findOne({ userId }, { 'energy.gridMeterDeviceId': 1 }).lean()
+    ]);
+    const entry: UserDevices = {
+      roles: new Map(devices.map(device => [device.deviceId, device.energyRole])),
+      gridMeter: preferences?.energy?.gridMeterDeviceId,
+      expiresAt: Date.now() + this.options.deviceCacheTTL
+    };
+    this.devices.set(userId, entry);
+    return entry;
+  }
+}
+
+/**
+ * Power flows between devices, the grid and the remainder load. Solar goes to
+ * loads first, then to the battery, then to the grid; the battery supplies
+ * loads before exporting; the grid covers what is left of loads and charging.
+ * Flows from a group of sources to a group of sinks are split over the devices
+ * in proportion to their power.
+ */
+export function computeEnergyFlow(
+  readings: FlowReading[],
+  timestamp: Date,
+  options: FlowComputeOptions = {}
+): EnergyFlowSnapshot {
+  const producers: FlowNode[] = [];
+  const loads: FlowNode[] = [];
+  const charging: FlowNode[] = [];
+  const discharging: FlowNode[] = [];
+  let meter: number | undefined;
+
+  for (const { deviceId, role, power } of readings) {
+    switch (role) {
+      case 'grid':
+        meter = (meter ?? 0) + power;
+        break;
+      case 'monitor':
+        break;
+      case 'producer':
+        if (power > 0) producers.push({ id: deviceId, power });
+        break;
+      case 'storage':
+        if (power > 0) charging.push({ id: deviceId, power });
+        if (power < 0) discharging.push({ id: deviceId, power: -power });
+        break;
+      case 'bidirectional':
+        if (power > 0) loads.push({ id: deviceId, power });
+        if (power < 0) producers.push({ id: deviceId, power: -power });
+        break;
+      default:
+        if (power > 0) loads.push({ id: deviceId, power });
+    }
+  }
+
+  const production = total(producers);
+  const batteryCharge = total(charging);
+  const batteryDischarge = total(discharging);
+  const measuredLoad = total(loads);
+
+  // Household balance: import + production + discharge = consumption + charge + export
+  const net = meter ?? measuredLoad + batteryCharge - production - batteryDischarge;
+  const balanced = net + production + batteryDischarge - batteryCharge;
+  if (meter !== undefined && balanced > measuredLoad) {
+    loads.push({ id: REMAINDER_NODE, power: balanced - measuredLoad });
+  }
+  const consumption = total(loads);
+  const gridImport = Math.max(0, net);
+  const gridExport = Math.max(0, -net);
+
+  // Allocate sources to sinks in order of preference
+  const remaining = { solar: production, battery: batteryDischarge, grid: gridImport };
+  const open = { load: consumption, charge: batteryCharge, export: gridExport };
+  const allocate = (source: keyof typeof remaining, sink: keyof typeof open): number => {
+    const power = Math.min(remaining[source], open[sink]);
+    remaining[source] -= power;
+    open[sink] -= power;
+    return power;
+  };
+
+  const gridNode = [{ id: GRID_NODE, power: 1 }];
+  const groups: Array<[FlowNode[], FlowNode[], number]> = [
+    [producers, loads, allocate('solar', 'load')],
+    [producers, charging, allocate('solar', 'charge')],
+    [producers, gridNode, allocate('solar', 'export')],
+    [discharging, loads, allocate('battery', 'load')],
+    [discharging, gridNode, allocate('battery', 'export')],
+    [gridNode, loads, allocate('grid', 'load')],
+    [gridNode, charging, allocate('grid', 'charge')]
+  ];
+
+  const minPower = options.minPower ?? 1;
+  const hours = options.intervalMs !== undefined ? options.intervalMs / 3600000 : undefined;
+  const flows: EnergyFlowSnapshot['flows'] = [];
+  for (const [sources, sinks, power] of groups) {
+    if (power <= 0) continue;
+
+    const sourceTotal = total(sources);
+    const sinkTotal = total(sinks);
+    for (const source of sources) {
+      for (const sink of sinks) {
+        const share = power * (source.power / sourceTotal) * (sink.power / sinkTotal);
+        if (share < minPower) continue;
+
+        const energy = hours !== undefined ? share * hours / 1000 : undefined;
+        const fromGrid = source.id === GRID_NODE && energy !== undefined;
+        flows.push({
+          from: source.id,
+          to: sink.id,
+          power: share,
+          ...(energy !== undefined && { energy }),
+          ...(fromGrid && options.gridRate !== undefined && { cost: energy * options.gridRate }),
+          ...(fromGrid && options.gridIntensity !== undefined && { carbon: energy * options.gridIntensity })
+        });
+      }
+    }
+  }
+
+  return {
+    timestamp,
+    flows,
+    totalProduction: production,
+    totalConsumption: consumption,
+    gridImport,
+    gridExport,
+    batteryCharge,
+    batteryDischarge,
+    netPower: production + batteryDischarge - consumption - batteryCharge
+  };
+}
+
+function total(nodes: FlowNode[]): number {
+  return nodes.reduce((sum, node) => sum + node.power, 0);
+}
+
+export default EnergyFlowService;
@@ -0,0 +1,655 @@
+import { EventEmitter } from 'events';
+import { DeviceStatusUpdate, EnergyRole } from '@maestro/shared/types';
+
+import { IEnergyMeasurementDocument } from '@/models/EnergyMeasurement';
+import { DeviceService } from '@/services/database/DeviceService';
+import {
+  COUNTER_JITTER,
+  EnergyMeasurementRecord,
+  MeasurementStore,
+  SeriesRepairOptions,
+  fillGap,
+  gapThreshold,
+  repairOutlier
+} from '@/services/measurements';
+import { CarbonIntensityService } from '@/services/carbon';
+import { EnergyPriceService } from '@/services/prices';
+import { ProtocolAdapterManager } from '@/services/protocol-adapter-manager';
+import { createModuleLogger } from '@/config/logger';
+
+/**
+ * Energy Ingestion Service
+ *
+ * Turns adapter `deviceUpdate` events into energy measurements, written to
+ * the configured measurement store.
+ * Protocol-specific state (Tuya plugs, SunSpec inverters, Modbus meters,
+ * battery BMS, ...) is normalized into `measurements`; `energyConsumed` and
+ * `energyProduced` are derived as deltas of the cumulative counters a device
+ * reports, or integrated from power when it reports none; the power of
+ * producers and power read as output (`powerOutput`) counts as production.
+ * Each measurement is held until the next one of its device arrives, so the
+ * series can be repaired (gaps filled, outliers replaced) before it is written.
+ * With a price service, measurements carry the owner's rate at their time as
+ * `costRate`, including spot prices of real_time tariffs; with a carbon
+ * intensity service, the grid intensity of the owner's zone as `carbonIntensity`.
+ * Measurements computed in the backend (virtual meters) enter the same pipeline
+ * through `ingestCalculated`.
+ *
+ * Features:
+ * - State normalization across protocols
+ * - Counter deltas with reset detection
+ * - Gap filling and outlier repair with estimated samples
+ * - Batched inserts with bounded buffering while the database is unavailable
+ */
+
+export type MeasurementValues = Partial<IEnergyMeasurementDocument['measurements']>;
+
+/**
+ * Instantaneous values and cumulative counters read from a device state
+ */
+export interface NormalizedEnergyState {
+  measurements: MeasurementValues;
+  production?: boolean; // activePower was reported as generated output
+  counters: {
+    consumed?: number; // kWh, lifetime import/consumption
+    produced?: number; // kWh, lifetime export/generation
+  };
+}
+
+export interface EnergyIngestionOptions {
+  batchSize?: number; // default: 100
+  flushInterval?: number; // milliseconds, default: 5000
+  maxBufferSize?: number; // records kept while inserts fail, default: 10000
+  maxIntegrationGap?: number; // milliseconds, longest gap power is integrated over, default: 900000
+  ownerCacheTTL?: number; // milliseconds, default: 300000
+  holdTime?: number; // milliseconds a measurement waits for its successor, default: 60000
+  repair?: SeriesRepairOptions;
+}
+
+interface DeviceCounterState {
+  timestamp: number;
+  consumed?: number | undefined;
+  produced?: number | undefined;
+  activePower?: number | undefined;
+}
+
+interface DeviceOwner {
+  userId: string;
+  energyRole?: EnergyRole | undefined;
+}
+
+interface DeviceSeriesState {
+  last?: EnergyMeasurementRecord | undefined; // newest buffered measurement
+  pending?: EnergyMeasurementRecord | undefined; // held until its successor arrives
+  heldAt: number;
+  intervals: number[]; // recent spacing of regular samples, milliseconds
+}
+
+// State keys per measurement, in order of preference
+const POWER_KEYS = ['activePower', 'energyConsumption', 'powerOutput', 'chargingPower', 'power'];
+const PRODUCTION_POWER_KEYS = new Set(['powerOutput']);
+const VOLTAGE_KEYS = ['voltage', 'gridVoltage', 'voltageL1'];
+const CURRENT_KEYS = ['current', 'currentL1'];
+const FREQUENCY_KEYS = ['frequency', 'gridFrequency'];
+const BATTERY_KEYS = ['chargeLevel', 'soc', 'batteryLevel'];
+const CONSUMED_COUNTER_KEYS = ['importEnergy', 'totalEnergy', 'energyImported'];
+const PRODUCED_COUNTER_KEYS = ['exportEnergy', 'totalGeneration', 'energyExported'];
+
+// Sample spacings kept per device to estimate its usual interval
+const INTERVAL_HISTORY = 20;
+
+/**
+ * Read measurements and cumulative counters from protocol-specific state
+ */
+export function normalizeEnergyState(state: Record<string, any>): NormalizedEnergyState {
+  const measurements: MeasurementValues = {};
+
+  const powerKey = pickKey(state, POWER_KEYS);
+  if (powerKey !== undefined) {
+    measurements.activePower = state[powerKey];
+  }
+
+  const voltage = pickNumber(state, VOLTAGE_KEYS);
+  if (voltage !== undefined) measurements.voltage = voltage;
+  const current = pickNumber(state, CURRENT_KEYS);
+  if (current !== undefined) measurements.current = Math.abs(current);
+  const frequency = pickNumber(state, FREQUENCY_KEYS);
+  if (frequency !== undefined) measurements.frequency = frequency;
+
+  const powerFactor = pickNumber(state, ['powerFactor']);
+  if (powerFactor !== undefined) measurements.powerFactor = powerFactor;
+  const reactivePower = pickNumber(state, ['reactivePower']);
+  if (reactivePower !== undefined) measurements.reactivePower = reactivePower;
+  const apparentPower = pickNumber(state, ['apparentPower']);
+  if (apparentPower !== undefined) measurements.apparentPower = apparentPower;
+
+  // Three-phase meters
+  const phases = [['phaseA', 'L1'], ['phaseB', 'L2'], ['phaseC', 'L3']] as const;
+  for (const [phase, suffix] of phases) {
+    const phaseValues: NonNullable<MeasurementValues['phaseA']> = {};
+    const phaseVoltage = pickNumber(state, [`voltage${suffix}`]);
+    if (phaseVoltage !== undefined) phaseValues.voltage = phaseVoltage;
+    const phaseCurrent = pickNumber(state, [`current${suffix}`]);
+    if (phaseCurrent !== undefined) phaseValues.current = Math.abs(phaseCurrent);
+    const phasePower = pickNumber(state, [`power${suffix}`]);
+    if (phasePower !== undefined) phaseValues.power = phasePower;
+    if (Object.keys(phaseValues).length > 0) {
+      measurements[phase] = phaseValues;
+    }
+  }
+
+  const temperature = pickNumber(state, ['temperature']);
+  if (temperature !== undefined) measurements.temperature = temperature;
+  const humidity = pickNumber(state, ['humidity']);
+  if (humidity !== undefined) measurements.humidity = humidity;
+  const batteryLevel = pickNumber(state, BATTERY_KEYS);
+  if (batteryLevel !== undefined) measurements.batteryLevel = batteryLevel;
+  const efficiency = pickNumber(state, ['efficiency']);
+  if (efficiency !== undefined && efficiency >= 0 && efficiency <= 1) measurements.efficiency = efficiency;
+
+  const counters: NormalizedEnergyState['counters'] = {};
+  const consumed = pickNumber(state, CONSUMED_COUNTER_KEYS);
+  if (consumed !== undefined && consumed >= 0) counters.consumed = consumed;
+  const produced = pickNumber(state, PRODUCED_COUNTER_KEYS);
+  if (produced !== undefined && produced >= 0) counters.produced = produced;
+
+  return {
+    measurements,
+    counters,
+    ...(powerKey !== undefined && PRODUCTION_POWER_KEYS.has(powerKey) && { production: true })
+  };
+}
+
+/**
+ * Energy since the previous reading of a cumulative counter. A counter that
+ * went backwards was reset (device reboot, replaced meter), so the new value
+ * is the energy counted since the reset.
+ */
+export function counterDelta(previous: number | undefined, current: number): { delta?: number; reset: boolean } {
+  if (previous === undefined) {
+    return { reset: false };
+  }
+  if (current >= previous) {
+    return { delta: current - previous, reset: false };
+  }
+  if (previous - current < COUNTER_JITTER) {
+    return { delta: 0, reset: false };
+  }
+  return { delta: current, reset: true };
+}
+
+export class EnergyIngestionService extends EventEmitter {
+  private moduleLogger = createModuleLogger('EnergyIngestionService');
+  private buffer: EnergyMeasurementRecord[] = [];
+  private counters: Map<string, DeviceCounterState> = new Map();
+  private series: Map<string, DeviceSeriesState> = new Map();
+  private owners: Map<string, { owner: DeviceOwner | null; expiresAt: number }> = new Map();
+  private flushTimer?: NodeJS.Timeout | undefined;
+  private flushing?: Promise<void> | undefined;
+  private readonly options: Required<EnergyIngestionOptions>;
+  private readonly onDeviceUpdate = (update: DeviceStatusUpdate) => {
+    this.ingest(update).catch(error => {
+      this.moduleLogger.error('Failed to ingest device update', { deviceId: update.deviceId, error });
+    });
+  };
+
+  private stats = {
+    received: 0,
+    calculated: 0,
+    recorded: 0,
+    written: 0,
+    dropped: 0,
+    counterResets: 0,
+    failedFlushes: 0,
+    gapsFilled: 0,
+    estimated: 0,
+    spikes: 0,
+    counterGlitches: 0
+  };
+
+  constructor(
+    private protocolManager: ProtocolAdapterManager,
+    private deviceService: DeviceService,
+    private store: MeasurementStore,
+    options: EnergyIngestionOptions = {},
+    private prices?: EnergyPriceService,
+    private carbon?: CarbonIntensityService
+  ) {
+    super();
+    this.options = {
+      batchSize: options.batchSize ?? 100,
+      flushInterval: options.flushInterval ?? 5000,
+      maxBufferSize: options.maxBufferSize ?? 10000,
+      maxIntegrationGap: options.maxIntegrationGap ?? 900000,
+      ownerCacheTTL: options.ownerCacheTTL ?? 300000,
+      holdTime: options.holdTime ?? 60000,
+      repair: options.repair ?? {}
+    };
+  }
+
+  /**
+   * Start listening to adapter updates and flushing batches
+   */
+  initialize(): void {
+    this.protocolManager.on('deviceUpdate', this.onDeviceUpdate);
+    this.flushTimer = setInterval(() => {
+      this.releaseHeld(this.options.holdTime);
+      void this.flush();
+    }, this.options.flushInterval);
+
+    this.moduleLogger.info('Energy ingestion started', {
+      batchSize: this.options.batchSize,
+      flushInterval: this.options.flushInterval
+    });
+  }
+
+  /**
+   * Stop listening and write what is still buffered
+   */
+  async shutdown(): Promise<void> {
+    this.protocolManager.off('deviceUpdate', this.onDeviceUpdate);
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    this.releaseHeld(0);
+    await this.flush();
+    this.moduleLogger.info('Energy ingestion stopped', { ...this.stats, buffered: this.buffer.length });
+  }
+
+  /**
+   * Normalize a status update and queue the resulting measurement for repair and writing
+   */
+  async ingest(update: DeviceStatusUpdate): Promise<EnergyMeasurementRecord | null> {
+    this.stats.received++;
+
+    if (update.status !== 'online' || !update.state) {
+      return null;
+    }
+
+    const { measurements, counters, production } = normalizeEnergyState(update.state);
+    const hasCounters = counters.consumed !== undefined || counters.produced !== undefined;
+    if (Object.keys(measurements).length === 0 && !hasCounters) {
+      return null;
+    }
+
+    const owner = await this.resolveOwner(update.deviceId);
+    if (!owner) {
+      return null;
+    }
+    const { userId } = owner;
+
+    const timestamp = update.timestamp ? new Date(update.timestamp) : new Date();
+    const producing = production === true || owner.energyRole === 'producer';
+    const energy = this.deriveEnergy(update.deviceId, timestamp.getTime(), counters, measurements.activePower, producing);
+
+    const record: EnergyMeasurementRecord = {
+      deviceId: update.deviceId,
+      userId,
+      timestamp,
+      measurements: {
+        ...measurements,
+        ...energy.values,
+        ...await this.resolveRates(userId, timestamp),
+        quality: energy.quality,
+        confidence: energy.quality === 'good' ? 1 : 0.8
+      },
+      source: energy.calculated ? 'calculated' : 'device',
+      tags: { updateSource: update.source }
+    };
+
+    this.publish(record);
+    return record;
+  }
+
+  /**
+   * Queue a measurement computed in the backend rather than read from a
+   * device, e.g. of a virtual meter; energy values are taken as given
+   */
+  async ingestCalculated(
+    deviceId: string,
+    timestamp: Date,
+    values: MeasurementValues,
+    tags: Record<string, string> = {}
+  ): Promise<EnergyMeasurementRecord | null> {
+    const owner = await this.resolveOwner(deviceId);
+    if (!owner) {
+      return null;
+    }
+    const { userId } = owner;
+
+    const record: EnergyMeasurementRecord = {
+      deviceId,
+      userId,
+      timestamp,
+      measurements: {
+        ...values,
+        ...await this.resolveRates(userId, timestamp),
+        quality: values.quality ?? 'good',
+        confidence: values.confidence ?? 1
+      },
+      source: 'calculated',
+      tags
+    };
+
+    this.stats.calculated++;
+    this.publish(record);
+    return record;
+  }
+
+  /**
+   * Write buffered measurements; failed batches stay buffered for the next flush
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      while (this.buffer.length > 0) {
+        // Out of the buffer while written, so trimming cannot drop it meanwhile
+        const batch = this.buffer.splice(0, this.options.batchSize);
+        try {
+          await this.store.write(batch);
+          this.stats.written += batch.length;
+          this.emit('batchWritten', batch.length);
+        } catch (error) {
+          this.buffer.unshift(...batch);
+          this.trimBuffer();
+          this.stats.failedFlushes++;
+          this.moduleLogger.warn('Failed to write energy measurements, keeping them buffered', {
+            batch: batch.length,
+            buffered: this.buffer.length,
+            error: error instanceof Error ? error.message : error
+          });
+          break;
+        }
+      }
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = undefined;
+    }
+  }
+
+  /**
+   * Forget the counter baseline of a device (removed or replaced)
+   */
+  resetDevice(deviceId: string): void {
+    this.counters.delete(deviceId);
+    this.series.delete(deviceId);
+    this.owners.delete(deviceId);
+  }
+
+  async healthCheck(): Promise<{ status: string; details: Record<string, any> }> {
+    const backlog = this.buffer.length / this.options.maxBufferSize;
+    return {
+      status: backlog < 0.5 ? 'healthy' : 'degraded',
+      details: { ...this.stats, buffered: this.buffer.length, held: this.countHeld(), trackedDevices: this.counters.size }
+    };
+  }
+
+  getStats(): Record<string, number> {
+    return { ...this.stats, buffered: this.buffer.length, held: this.countHeld() };
+  }
+
+  // Private helper methods
+
+  private publish(record: EnergyMeasurementRecord): void {
+    this.emit('measurement', record);
+    this.advanceSeries(record);
+  }
+
+  /**
+   * Release the held measurement of a device once its successor arrives:
+   * repair it if it is an outlier between both neighbours, then fill the gap
+   * before the successor, which is held in turn
+   */
+  private advanceSeries(record: EnergyMeasurementRecord): void {
+    const series = this.series.get(record.deviceId) ?? { heldAt: 0, intervals: [] };
+    this.series.set(record.deviceId, series);
+
+    // Out-of-order measurements are written as they are
+    const latest = series.pending ?? series.last;
+    if (latest && record.timestamp.getTime() <= latest.timestamp.getTime()) {
+      this.enqueue(record);
+      return;
+    }
+
+    let next = record;
+    if (series.pending) {
+      let pending = series.pending;
+      if (series.last) {
+        const repaired = repairOutlier(series.last, pending, next, this.options.repair);
+        if (repaired) {
+          pending = repaired.current;
+          next = repaired.next;
+          this.stats[repaired.kind === 'spike' ? 'spikes' : 'counterGlitches']++;
+          this.moduleLogger.debug('Repaired energy measurement outlier', {
+            deviceId: record.deviceId,
+            kind: repaired.kind,
+            timestamp: pending.timestamp
+          });
+        }
+      }
+      this.release(series, pending);
+    }
+
+    if (series.last) {
+      const expectedInterval = median(series.intervals);
+      const spacing = next.timestamp.getTime() - series.last.timestamp.getTime();
+      const filled = fillGap(series.last, next, { ...this.options.repair, expectedInterval });
+
+      if (filled.estimated.length > 0) {
+        filled.estimated.forEach(sample => this.enqueue(sample));
+        this.stats.gapsFilled++;
+        this.stats.estimated += filled.estimated.length;
+      } else if (spacing <= gapThreshold(expectedInterval, this.options.repair)) {
+        series.intervals = [...series.intervals, spacing].slice(-INTERVAL_HISTORY);
+      }
+      next = filled.next;
+    }
+
+    series.pending = next;
+    series.heldAt = Date.now();
+  }
+
+  /**
+   * Release measurements held longer than `maxAge` without outlier checks
+   */
+  private releaseHeld(maxAge: number): void {
+    const now = Date.now();
+    for (const series of this.series.values()) {
+      if (series.pending && now - series.heldAt >= maxAge) {
+        this.release(series, series.pending);
+      }
+    }
+  }
+
+  private release(series: DeviceSeriesState, record: EnergyMeasurementRecord): void {
+    this.enqueue(record);
+    series.last = record;
+    series.pending = undefined;
+  }
+
+  private enqueue(record: EnergyMeasurementRecord): void {
+    this.buffer.push(record);
+    this.stats.recorded++;
+    this.trimBuffer();
+
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    }
+  }
+
+  private countHeld(): number {
+    let held = 0;
+    for (const series of this.series.values()) {
+      if (series.pending) held++;
+    }
+    return held;
+  }
+
+  /**
+   * Energy consumed and produced since the previous update of the device;
+   * integrated power is production when `producing` (producers, output power)
+   */
+  private deriveEnergy(
+    deviceId: string,
+    timestamp: number,
+    counters: NormalizedEnergyState['counters'],
+    activePower: number | undefined,
+    producing: boolean
+  ): { values: MeasurementValues; quality: 'good' | 'fair'; calculated: boolean } {
+    const previous = this.counters.get(deviceId);
+    const values: MeasurementValues = {};
+    let calculated = false;
+
+    // Out-of-order updates must not move the baseline backwards
+    if (previous && timestamp < previous.timestamp) {
+      return { values, quality: 'fair', calculated };
+    }
+
+    if (counters.consumed !== undefined) {
+      values.energy = counters.consumed;
+      const { delta, reset } = counterDelta(previous?.consumed, counters.consumed);
+      if (delta !== undefined) values.energyConsumed = round(delta);
+      if (reset) this.recordReset(deviceId, 'consumed', previous!.consumed!, counters.consumed);
+    }
+    if (counters.produced !== undefined) {
+      values.energy ??= counters.produced;
+      const { delta, reset } = counterDelta(previous?.produced, counters.produced);
+      if (delta !== undefined) values.energyProduced = round(delta);
+      if (reset) this.recordReset(deviceId, 'produced', previous!.produced!, counters.produced);
+    }
+
+    // No counters: integrate power (trapezoid) over short gaps
+    if (counters.consumed === undefined && counters.produced === undefined && activePower !== undefined
+        && previous?.activePower !== undefined && timestamp - previous.timestamp <= this.options.maxIntegrationGap) {
+      const hours = (timestamp - previous.timestamp) / 3600000;
+      const average = (previous.activePower + activePower) / 2;
+      const kWh = (producing ? -average : average) * hours / 1000;
+      if (kWh >= 0) {
+        values.energyConsumed = round(kWh);
+      } else {
+        values.energyProduced = round(-kWh);
+      }
+      calculated = true;
+    }
+
+    this.counters.set(deviceId, {
+      timestamp,
+      consumed: counters.consumed ?? previous?.consumed,
+      produced: counters.produced ?? previous?.produced,
+      activePower
+    });
+
+    return { values, quality: calculated ? 'fair' : 'good', calculated };
+  }
+
+  private recordReset(deviceId: string, counter: string, previous: number, current: number): void {
+    this.stats.counterResets++;
+    this.moduleLogger.info('Energy counter reset detected', { deviceId, counter, previous, current });
+    this.emit('counterReset', { deviceId, counter, previous, current });
+  }
+
+  /**
+   * Owner and energy role of a device; updates of unknown devices are skipped
+   */
+  private async resolveOwner(deviceId: string): Promise<DeviceOwner | null> {
+    const cached = this.owners.get(deviceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.owner;
+    }
+
+    const device = await this.deviceService.findOne({ deviceId });
+    const owner = device ? { userId: String(device.userId), energyRole: device.energyRole } : null;
+    this.owners.set(deviceId, { owner, expiresAt: Date.now() + this.options.ownerCacheTTL });
+    return owner;
+  }
+
+  /**
+   * Cost rate and carbon intensity of the owner at an instant, where known
+   */
+  private async resolveRates(userId: string, timestamp: Date): Promise<MeasurementValues> {
+    const costRate = await this.resolveCostRate(userId, timestamp);
+    const carbonIntensity = await this.resolveCarbonIntensity(userId, timestamp);
+    return {
+      ...(costRate !== undefined && { costRate }),
+      ...(carbonIntensity !== undefined && { carbonIntensity })
+    };
+  }
+
+  /**
+   * Rate per kWh (with taxes) of the owner's tariff at an instant; tiered
+   * tariffs have no single rate and are left without one
+   */
+  private async resolveCostRate(userId: string, timestamp: Date): Promise<number | undefined> {
+    if (!this.prices) {
+      return undefined;
+    }
+
+    try {
+      const tariff = await this.prices.getUserTariff(userId, timestamp);
+      return tariff && !tariff.definition.tiers?.length ? tariff.marginalRate(timestamp) : undefined;
+    } catch (error) {
+      this.moduleLogger.warn('Failed to resolve cost rate', { userId, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Grid carbon intensity (kg CO2e/kWh) of the owner's zone at an instant
+   */
+  private async resolveCarbonIntensity(userId: string, timestamp: Date): Promise<number | undefined> {
+    if (!this.carbon) {
+      return undefined;
+    }
+
+    try {
+      return await this.carbon.intensityAt(userId, timestamp);
+    } catch (error) {
+      this.moduleLogger.warn('Failed to resolve carbon intensity', { userId, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Drop the oldest measurements once the buffer is full
+   */
+  private trimBuffer(): void {
+    const overflow = this.buffer.length - this.options.maxBufferSize;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.stats.dropped += overflow;
+      this.moduleLogger.warn('Energy measurement buffer full, dropped oldest measurements', { dropped: overflow });
+    }
+  }
+}
+
+function pickNumber(state: Record<string, any>, keys: string[]): number | undefined {
+  const key = pickKey(state, keys);
+  return key === undefined ? undefined : state[key];
+}
+
+function pickKey(state: Record<string, any>, keys: string[]): string | undefined {
+  return keys.find(key => typeof state[key] === 'number' && Number.isFinite(state[key]));
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export default EnergyIngestionService;
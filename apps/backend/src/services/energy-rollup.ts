@@ -0,0 +1,1077 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { Device } from '@/models/Device';
+import { EnergyStats, IEnergyStatsDocument } from '@/models/EnergyMeasurement';
+import { EnergyPrice } from '@/models/EnergyPrice';
+import { User } from '@/models/User';
+import { UserPreferences } from '@/models/UserPreferences';
+import { CarbonAccount, CarbonTimeline, carbonZoneOf, loadCarbonTimeline, sumAccounts } from '@/services/carbon';
+import { PaginationResult } from '@/services/database/BaseService';
+import {
+  MeasurementAggregate,
+  MeasurementInterval,
+  MeasurementStore,
+  createMeasurementStore
+} from '@/services/measurements';
+import { TariffCharge, TariffEngine, sumCharges } from '@/services/tariff-engine';
+import { createError } from '@/utils/errors';
+import {
+  addPeriods,
+  getZonedParts,
+  isValidTimeZone,
+  isWeekend,
+  startOfPeriod,
+  zonedTimeToUtc
+} from '@/utils/timezone';
+
+/**
+ * Energy Rollup Service
+ *
+ * Materializes EnergyStats per device and per user (deviceId `all`) for hour,
+ * day, week, month and year periods, aligned to each user's time zone.
+ * Hours and days are aggregated from the measurement store; weeks, months and
+ * years are folded from day rollups, so they survive raw-data retention.
+ * Costs come from the user's tariff, emissions from the carbon intensity of
+ * the user's grid zone.
+ * Meters (energy role `monitor`, including virtual meters) get their own
+ * rollups but are left out of the user's totals, as they measure devices that
+ * are counted already.
+ *
+ * Features:
+ * - Idempotent upserts, safe to re-run for any range (backfill)
+ * - Late data grace: recently closed periods are rolled up again
+ * - Raw-data retention that only deletes days with a completed day rollup;
+ *   hours and days whose raw data is gone keep their rollups on backfill
+ */
+
+export type RollupPeriod = IEnergyStatsDocument['period'];
+
+export type EnergyStatsValues = Pick<
+  IEnergyStatsDocument,
+  | 'deviceId'
+  | 'userId'
+  | 'period'
+  | 'periodStart'
+  | 'periodEnd'
+  | 'consumption'
+  | 'production'
+  | 'cost'
+  | 'carbon'
+  | 'uptime'
+  | 'dataPoints'
+  | 'dataQuality'
+  | 'compared'
+>;
+
+export interface EnergyRollupOptions {
+  runInterval?: number; // milliseconds, default: config.measurements.rollupInterval
+  retentionDays?: number; // raw measurement retention, 0 keeps them, default: config.measurements.retentionDays
+  lateDataGrace?: number; // milliseconds closed periods are rolled up again, default: 900000
+  catchUpWindow?: number; // milliseconds rolled up at startup, default: 86400000
+}
+
+/**
+ * Rollups of one period of the devices in a group, by device
+ */
+export interface RollupGroup {
+  group: string;
+  rollups: EnergyStatsValues[];
+}
+
+export interface RollupPageQuery {
+  page: number;
+  limit: number;
+  order?: 'asc' | 'desc'; // by period, then group; default: oldest first
+}
+
+export interface RollupRunResult {
+  users: number;
+  written: number;
+  purgedDays: number;
+  duration: number;
+}
+
+// Per-user rollup across all devices
+export const ALL_DEVICES = 'all';
+
+export const ROLLUP_PERIODS: RollupPeriod[] = ['hour', 'day', 'week', 'month', 'year'];
+
+// Periods aggregated from raw measurements, with the bucket size used for peaks and uptime
+const RAW_BUCKETS: Partial<Record<RollupPeriod, MeasurementInterval>> = {
+  hour: 'minute',
+  day: 'hour'
+};
+const BUCKET_MS: Partial<Record<MeasurementInterval, number>> = {
+  minute: 60000,
+  hour: 3600000
+};
+
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+const RETENTION_INTERVAL = DAY_MS;
+
+interface RollupUser {
+  userId: string;
+  timeZone: string;
+  tariff?: TariffEngine | undefined;
+  carbonZone?: string | undefined;
+  meters: Set<string>; // devices left out of the user totals
+}
+
+type RollupFigures = Pick<EnergyStatsValues, 'consumption' | 'production' | 'cost' | 'carbon' | 'uptime' | 'dataPoints' | 'dataQuality'>;
+
+interface PeriodWindow {
+  start: Date;
+  end: Date;
+  elapsedMs: number; // part of the period that has passed
+}
+
+export class EnergyRollupService extends EventEmitter {
+  private moduleLogger = createModuleLogger('EnergyRollupService');
+  private runTimer?: NodeJS.Timeout | undefined;
+  private running?: Promise<RollupRunResult> | undefined;
+  private lastRunAt?: Date | undefined;
+  private lastRetentionAt?: Date | undefined;
+  private lastError?: string | undefined;
+  private readonly options: Required<EnergyRollupOptions>;
+
+  private stats = {
+    runs: 0,
+    failedRuns: 0,
+    written: 0,
+    purgedDays: 0,
+    lastDuration: 0
+  };
+
+  constructor(private store: MeasurementStore, options: EnergyRollupOptions = {}) {
+    super();
+    this.options = {
+      runInterval: options.runInterval ?? config.measurements.rollupInterval,
+      retentionDays: options.retentionDays ?? config.measurements.retentionDays,
+      lateDataGrace: options.lateDataGrace ?? 900000,
+      catchUpWindow: options.catchUpWindow ?? DAY_MS
+    };
+  }
+
+  /**
+   * Start the periodic rollup; the first run catches up on the last day
+   */
+  initialize(): void {
+    this.lastRunAt = new Date(Date.now() - this.options.catchUpWindow);
+    this.runTimer = setInterval(() => {
+      this.run().catch(() => undefined);
+    }, this.options.runInterval);
+
+    this.moduleLogger.info('Energy rollup scheduler started', {
+      runInterval: this.options.runInterval,
+      retentionDays: this.options.retentionDays
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.runTimer) {
+      clearInterval(this.runTimer);
+      this.runTimer = undefined;
+    }
+
+    await this.running?.catch(() => undefined);
+    this.moduleLogger.info('Energy rollup scheduler stopped', this.stats);
+  }
+
+  /**
+   * Roll up every period touched since the previous run, then apply retention once a day
+   */
+  async run(): Promise<RollupRunResult> {
+    if (this.running) {
+      return this.running;
+    }
+
+    const startedAt = new Date();
+    const from = new Date((this.lastRunAt ?? startedAt).getTime() - this.options.lateDataGrace);
+
+    this.running = (async () => {
+      try {
+        const users = await this.loadUsers();
+        let written = 0;
+        for (const user of users) {
+          written += await this.rollupRange(user, from, startedAt);
+        }
+
+        let purgedDays = 0;
+        if (!this.lastRetentionAt || startedAt.getTime() - this.lastRetentionAt.getTime() >= RETENTION_INTERVAL) {
+          purgedDays = await this.applyRetention(startedAt);
+          this.lastRetentionAt = startedAt;
+        }
+
+        const result = { users: users.length, written, purgedDays, duration: Date.now() - startedAt.getTime() };
+        this.lastRunAt = startedAt;
+        this.lastError = undefined;
+        this.stats.runs++;
+        this.stats.written += written;
+        this.stats.lastDuration = result.duration;
+        this.emit('rollupCompleted', result);
+        return result;
+      } catch (error) {
+        this.stats.failedRuns++;
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.moduleLogger.error('Energy rollup failed', { error });
+        throw error;
+      } finally {
+        this.running = undefined;
+      }
+    })();
+
+    return this.running;
+  }
+
+  /**
+   * Recompute all rollups of periods overlapping [from, to], for one or all users
+   */
+  async backfill(from: Date, to: Date, userId?: string): Promise<number> {
+    if (from.getTime() > to.getTime()) {
+      throw createError.validation('Backfill start must not be after its end', { from, to });
+    }
+
+    const users = await this.loadUsers(userId);
+    let written = 0;
+    for (const user of users) {
+      this.moduleLogger.info('Backfilling energy rollups', { userId: user.userId, from, to });
+      written += await this.rollupRange(user, from, to);
+    }
+    return written;
+  }
+
+  /**
+   * Delete raw measurements of days older than the retention whose day rollup is complete
+   */
+  async applyRetention(now = new Date()): Promise<number> {
+    if (this.options.retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - this.options.retentionDays * DAY_MS);
+    // A day rollup is complete when it was last computed after the day ended
+    const days = await EnergyStats.find({
+      deviceId: ALL_DEVICES,
+      period: 'day',
+      periodEnd: { $lte: cutoff },
+      rawDataPurgedAt: { $exists: false },
+      $expr: { $gte: ['$updatedAt', '$periodEnd'] }
+    }, { userId: 1, periodStart: 1, periodEnd: 1 })
+      .sort({ periodStart: 1 })
+      .lean();
+
+    for (const day of days) {
+      await this.store.deleteRange({
+        userId: day.userId,
+        start: day.periodStart,
+        end: new Date(day.periodEnd.getTime() - 1)
+      });
+      await EnergyStats.updateOne({ _id: day._id }, { $set: { rawDataPurgedAt: now } });
+    }
+
+    if (days.length > 0) {
+      this.stats.purgedDays += days.length;
+      this.moduleLogger.info('Deleted rolled-up raw energy measurements', { days: days.length, cutoff });
+    }
+    return days.length;
+  }
+
+  /**
+   * Rollups of a user for dashboards, oldest first
+   */
+  async getStats(
+    userId: string,
+    period: RollupPeriod,
+    start: Date,
+    end: Date,
+    deviceId: string | string[] = ALL_DEVICES
+  ): Promise<EnergyStatsValues[]> {
+    return EnergyStats.find(
+      {
+        userId,
+        deviceId: Array.isArray(deviceId) ? { $in: deviceId } : deviceId,
+        period,
+        periodStart: { $gte: start, $lt: end }
+      },
+      { _id: 0, createdAt: 0, updatedAt: 0, rawDataPurgedAt: 0 }
+    )
+      .sort({ periodStart: 1, deviceId: 1 })
+      .lean<EnergyStatsValues[]>();
+  }
+
+  /**
+   * One page of a user's rollups combined per group and period; `groups` maps
+   * the device IDs to read to their group
+   */
+  async getGroupedStats(
+    userId: string,
+    period: RollupPeriod,
+    start: Date,
+    end: Date,
+    groups: Map<string, string>,
+    query: RollupPageQuery
+  ): Promise<PaginationResult<RollupGroup>> {
+    const direction = query.order === 'desc' ? -1 : 1;
+    const members = new Map<string, string[]>();
+    for (const [deviceId, group] of groups) {
+      members.set(group, [...(members.get(group) ?? []), deviceId]);
+    }
+
+    const [result] = members.size === 0 ? [] : await EnergyStats.aggregate<{
+      data: RollupGroup[];
+      total: Array<{ count: number }>;
+    }>([
+      { $match: { userId, deviceId: { $in: [...groups.keys()] }, period, periodStart: { $gte: start, $lt: end } } },
+      { $project: { _id: 0, createdAt: 0, updatedAt: 0, rawDataPurgedAt: 0, __v: 0 } },
+      { $sort: { deviceId: 1 } },
+      {
+        $group: {
+          _id: {
+            group: {
+              $switch: {
+                branches: [...members].map(([group, deviceIds]) => ({ case: { $in: ['$deviceId', deviceIds] }, then: group }))
+              }
+            },
+            periodStart: '$periodStart'
+          },
+          rollups: { $push: '$$ROOT' }
+        }
+      },
+      { $sort: { '_id.periodStart': direction, '_id.group': direction } },
+      {
+        $facet: {
+          data: [
+            { $skip: (query.page - 1) * query.limit },
+            { $limit: query.limit },
+            { $project: { _id: 0, group: '$_id.group', rollups: 1 } }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]).allowDiskUse(true);
+
+    const total = result?.total[0]?.count ?? 0;
+    const totalPages = Math.ceil(total / query.limit);
+    return {
+      data: result?.data ?? [],
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages,
+        hasNext: query.page < totalPages,
+        hasPrev: query.page > 1
+      }
+    };
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.lastRunAt !== undefined &&
+      Date.now() - this.lastRunAt.getTime() > this.options.runInterval * 3 + this.options.catchUpWindow;
+
+    return {
+      status: this.lastError || overdue ? 'degraded' : 'healthy',
+      details: {
+        lastRunAt: this.lastRunAt,
+        lastRetentionAt: this.lastRetentionAt,
+        lastError: this.lastError,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private async loadUsers(userId?: string): Promise<RollupUser[]> {
+    const users = await User.find(
+      userId ? { _id: userId } : { isActive: true, isSuspended: false },
+      { 'profile.timezone': 1 }
+    ).lean();
+
+    const preferences = await UserPreferences.find(
+      { userId: { $in: users.map(user => String(user._id)) } },
+      { userId: 1, energy: 1 }
+    ).lean();
+    const energy = new Map(preferences.map(preference => [preference.userId, preference.energy]));
+    const meters = await Device.find(
+      { userId: { $in: users.map(user => String(user._id)) }, energyRole: 'monitor' },
+      { userId: 1, deviceId: 1 }
+    ).lean();
+
+    return users.map(user => {
+      const id = String(user._id);
+      let timeZone = user.profile?.timezone ?? 'UTC';
+      if (!isValidTimeZone(timeZone)) {
+        this.moduleLogger.warn('Unknown user time zone, rolling up in UTC', { userId: id, timeZone });
+        timeZone = 'UTC';
+      }
+
+      let tariff: TariffEngine | undefined;
+      try {
+        tariff = TariffEngine.fromPreferences(energy.get(id), timeZone);
+      } catch (error) {
+        this.moduleLogger.warn('Invalid tariff preferences, rolling up without costs', {
+          userId: id,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+
+      return {
+        userId: id,
+        timeZone,
+        tariff,
+        carbonZone: carbonZoneOf(energy.get(id)),
+        meters: new Set(meters.filter(meter => meter.userId === id).map(meter => meter.deviceId))
+      };
+    });
+  }
+
+  /**
+   * Roll up all periods overlapping [from, to]; days before weeks, months and
+   * years. Hours and days of purged days are skipped, as their raw data is gone.
+   */
+  private async rollupRange(user: RollupUser, from: Date, to: Date): Promise<number> {
+    const end = Math.min(to.getTime(), Date.now());
+    const purged = await this.purgedDays(user, startOfPeriod(from, 'day', user.timeZone), new Date(end));
+    const isPurged = (start: Date) => purged.some(day => start >= day.periodStart && start < day.periodEnd);
+    let written = 0;
+
+    for (const period of ROLLUP_PERIODS) {
+      let start = startOfPeriod(from, period, user.timeZone);
+      while (start.getTime() <= end) {
+        if (!RAW_BUCKETS[period] || !isPurged(start)) {
+          written += await this.rollupPeriod(user, period, start);
+        }
+        start = addPeriods(start, period, 1, user.timeZone);
+      }
+    }
+
+    if (purged.length > 0) {
+      this.moduleLogger.debug('Kept rollups of days without raw data', { userId: user.userId, days: purged.length });
+    }
+    return written;
+  }
+
+  /**
+   * Days in [from, to] whose raw measurements were deleted by retention
+   */
+  private async purgedDays(user: RollupUser, from: Date, to: Date): Promise<Array<{ periodStart: Date; periodEnd: Date }>> {
+    return EnergyStats.find({
+      userId: user.userId,
+      deviceId: ALL_DEVICES,
+      period: 'day',
+      periodStart: { $gte: from, $lte: to },
+      rawDataPurgedAt: { $exists: true }
+    }, { _id: 0, periodStart: 1, periodEnd: 1 }).lean();
+  }
+
+  private async rollupPeriod(user: RollupUser, period: RollupPeriod, periodStart: Date): Promise<number> {
+    const periodEnd = addPeriods(periodStart, period, 1, user.timeZone);
+    const window: PeriodWindow = {
+      start: periodStart,
+      end: periodEnd,
+      elapsedMs: Math.max(0, Math.min(periodEnd.getTime(), Date.now()) - periodStart.getTime())
+    };
+
+    const bucket = RAW_BUCKETS[period];
+    const figures = bucket
+      ? await this.aggregateRaw(user, window, bucket)
+      : await this.foldDays(user, window);
+
+    for (const [deviceId, values] of figures) {
+      const rollup: EnergyStatsValues = {
+        deviceId,
+        userId: user.userId,
+        period,
+        periodStart,
+        periodEnd,
+        ...values,
+        compared: await this.compare(user, deviceId, period, periodStart)
+      };
+
+      await EnergyStats.updateOne(
+        { userId: user.userId, deviceId, period, periodStart },
+        { $set: rollup, $unset: unsetMissing(rollup) },
+        { upsert: true }
+      );
+    }
+    return figures.size;
+  }
+
+  /**
+   * Hour and day figures from measurement store buckets, per device and summed for the user
+   */
+  private async aggregateRaw(
+    user: RollupUser,
+    window: PeriodWindow,
+    bucket: MeasurementInterval
+  ): Promise<Map<string, RollupFigures>> {
+    const aggregates = await this.store.aggregate({
+      userId: user.userId,
+      start: window.start,
+      end: new Date(window.end.getTime() - 1)
+    }, bucket);
+
+    const byDevice = new Map<string, MeasurementAggregate[]>();
+    const totals = new Map<number, MeasurementAggregate>();
+    for (const aggregate of aggregates) {
+      byDevice.set(aggregate.deviceId, [...(byDevice.get(aggregate.deviceId) ?? []), aggregate]);
+      if (user.meters.has(aggregate.deviceId)) continue;
+
+      const key = aggregate.periodStart.getTime();
+      const total = totals.get(key);
+      totals.set(key, total ? sumAggregates(total, aggregate) : { ...aggregate, deviceId: ALL_DEVICES });
+    }
+
+    const bucketMs = BUCKET_MS[bucket]!;
+    const userBuckets = [...totals.values()].sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+    const charges = user.tariff
+      ? await this.priceBuckets(user, user.tariff, userBuckets, bucketMs, window)
+      : undefined;
+    const timeline = await loadCarbonTimeline(user.carbonZone, window.start, window.end);
+    const accounts = accountBuckets(timeline, userBuckets, bucketMs, window);
+
+    const figures = new Map<string, RollupFigures>();
+    for (const [deviceId, buckets] of byDevice) {
+      const values = summarizeBuckets(buckets, bucketMs, window);
+      if (user.tariff && charges) {
+        const cost = deviceCost(user.tariff, buckets, charges, totals);
+        if (cost) values.cost = cost;
+      }
+      const carbon = deviceCarbon(buckets, accounts, totals);
+      if (carbon) values.carbon = carbon;
+      figures.set(deviceId, values);
+    }
+
+    // The user rollup is written even without data: it marks the period as rolled up
+    const values = summarizeBuckets(userBuckets, bucketMs, window);
+    if (user.tariff && charges) {
+      const charge = sumCharges([
+        ...charges.values(),
+        user.tariff.standing(window.start, new Date(window.start.getTime() + window.elapsedMs))
+      ]);
+      if (charge.total > 0 || charge.exportCredit > 0) {
+        values.cost = toCost(user.tariff, charge);
+      }
+    }
+    const carbon = toCarbon(sumAccounts([...accounts.values()]));
+    if (carbon) values.carbon = carbon;
+    figures.set(ALL_DEVICES, values);
+    return figures;
+  }
+
+  /**
+   * Energy charges of the user's buckets, keyed by bucket start; tiers continue
+   * from the consumption of the month before the period, and real_time tariffs
+   * use the spot prices stored for the period
+   */
+  private async priceBuckets(
+    user: RollupUser,
+    tariff: TariffEngine,
+    buckets: MeasurementAggregate[],
+    bucketMs: number,
+    window: PeriodWindow
+  ): Promise<Map<number, TariffCharge>> {
+    const monthToDate = tariff.definition.tiers?.length ? await this.monthToDate(user, window.start) : 0;
+    if (tariff.isDynamic) {
+      const prices = await EnergyPrice.find(
+        { zone: tariff.definition.priceZone, start: { $lt: window.end }, end: { $gt: window.start } },
+        { _id: 0, start: 1, end: 1, price: 1 }
+      ).lean();
+      tariff = tariff.withPrices(prices);
+    }
+    const intervals = buckets.map(bucket => ({
+      ...bucketSpan(bucket, bucketMs, window),
+      imported: Math.max(0, bucket.energyConsumed),
+      exported: Math.max(0, bucket.energyProduced)
+    }));
+
+    const charges = tariff.priceSeries(intervals, monthToDate);
+    return new Map(buckets.map((bucket, index) => [bucket.periodStart.getTime(), charges[index]!]));
+  }
+
+  /**
+   * Consumption (kWh) of the user in the local month before an instant, from hour rollups
+   */
+  private async monthToDate(user: RollupUser, at: Date): Promise<number> {
+    const [result] = await EnergyStats.aggregate<{ total: number }>([
+      {
+        $match: {
+          userId: user.userId,
+          deviceId: ALL_DEVICES,
+          period: 'hour',
+          periodStart: { $gte: startOfPeriod(at, 'month', user.timeZone), $lt: at }
+        }
+      },
+      { $group: { _id: null, total: { $sum: '$consumption.total' } } }
+    ]);
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Week, month and year figures folded from the day rollups inside the period
+   */
+  private async foldDays(user: RollupUser, window: PeriodWindow): Promise<Map<string, RollupFigures>> {
+    const days = await EnergyStats.find({
+      userId: user.userId,
+      period: 'day',
+      periodStart: { $gte: window.start, $lt: window.end }
+    }).lean<EnergyStatsValues[]>();
+
+    const byDevice = new Map<string, EnergyStatsValues[]>([[ALL_DEVICES, []]]);
+    for (const day of days) {
+      byDevice.set(day.deviceId, [...(byDevice.get(day.deviceId) ?? []), day]);
+    }
+
+    const figures = new Map<string, RollupFigures>();
+    for (const [deviceId, deviceDays] of byDevice) {
+      figures.set(deviceId, foldRollups(deviceDays, window, user.timeZone));
+    }
+    return figures;
+  }
+
+  /**
+   * Consumption (kWh) of the previous period and of the same period a year earlier
+   */
+  private async compare(
+    user: RollupUser,
+    deviceId: string,
+    period: RollupPeriod,
+    periodStart: Date
+  ): Promise<NonNullable<EnergyStatsValues['compared']>> {
+    const previousStart = addPeriods(periodStart, period, -1, user.timeZone);
+    const yearAgoStart = yearAgo(periodStart, period, user.timeZone);
+
+    const previous = await EnergyStats.find(
+      { userId: user.userId, deviceId, period, periodStart: { $in: [previousStart, yearAgoStart] } },
+      { periodStart: 1, 'consumption.total': 1 }
+    ).lean();
+
+    const consumptionAt = (start: Date) =>
+      previous.find(rollup => rollup.periodStart.getTime() === start.getTime())?.consumption?.total;
+
+    const compared: NonNullable<EnergyStatsValues['compared']> = {};
+    const previousPeriod = consumptionAt(previousStart);
+    if (previousPeriod !== undefined) compared.previousPeriod = previousPeriod;
+    const yearAgoTotal = consumptionAt(yearAgoStart);
+    if (yearAgoTotal !== undefined) compared.yearAgo = yearAgoTotal;
+    return compared;
+  }
+}
+
+/**
+ * Figures of one series of store buckets inside a period
+ */
+function summarizeBuckets(buckets: MeasurementAggregate[], bucketMs: number, window: PeriodWindow): RollupFigures {
+  let consumed = 0;
+  let produced = 0;
+  let dataPoints = 0;
+  let coveredMs = 0;
+  let qualityMs = 0;
+  let powerMs = 0;
+  let weightedPower = 0;
+  let peak: { value: number; time: Date } | undefined;
+  let productionPeak: { value: number; time: Date } | undefined;
+  let minimum: number | undefined;
+
+  for (const bucket of buckets) {
+    consumed += bucket.energyConsumed;
+    produced += bucket.energyProduced;
+    dataPoints += bucket.dataPoints;
+
+    // Buckets are UTC-aligned; in zones with partial-hour offsets they overlap the period edges
+    const bucketStart = Math.max(bucket.periodStart.getTime(), window.start.getTime());
+    const bucketEnd = Math.min(bucket.periodStart.getTime() + bucketMs, window.end.getTime());
+    const duration = Math.max(0, bucketEnd - bucketStart);
+    coveredMs += duration;
+    qualityMs += duration * (bucket.avgConfidence ?? 1);
+
+    if (bucket.avgPower !== undefined) {
+      weightedPower += bucket.avgPower * duration;
+      powerMs += duration;
+    }
+    if (bucket.maxPower !== undefined && (!peak || bucket.maxPower > peak.value)) {
+      peak = { value: bucket.maxPower, time: bucket.periodStart };
+    }
+    if (bucket.minPower !== undefined && (minimum === undefined || bucket.minPower < minimum)) {
+      minimum = bucket.minPower;
+    }
+
+    const productionPower = bucket.energyProduced * 1000 / (bucketMs / HOUR_MS);
+    if (bucket.energyProduced > 0 && (!productionPeak || productionPower > productionPeak.value)) {
+      productionPeak = { value: productionPower, time: bucket.periodStart };
+    }
+  }
+
+  const elapsedHours = window.elapsedMs / HOUR_MS;
+  const figures: RollupFigures = {
+    uptime: window.elapsedMs > 0 ? Math.min(1, coveredMs / window.elapsedMs) : 0,
+    dataPoints,
+    // Coverage of the period, weighted by sample confidence (estimated samples count less)
+    dataQuality: Math.min(1, qualityMs / (window.end.getTime() - window.start.getTime()))
+  };
+
+  if (consumed > 0 || powerMs > 0) {
+    const average = powerMs > 0 ? weightedPower / powerMs : averagePower(consumed, elapsedHours);
+    figures.consumption = {
+      total: Math.max(0, consumed),
+      average: Math.max(0, average),
+      peak: Math.max(0, peak?.value ?? average),
+      minimum: Math.max(0, minimum ?? 0),
+      ...(peak ? { peakTime: peak.time } : {}),
+      averageDaily: dailyAverage(consumed, window)
+    };
+  }
+
+  if (produced > 0) {
+    figures.production = {
+      total: produced,
+      average: averagePower(produced, elapsedHours),
+      peak: productionPeak?.value ?? 0,
+      ...(productionPeak ? { peakTime: productionPeak.time } : {})
+    };
+  }
+
+  return figures;
+}
+
+/**
+ * Figures of a period from the day rollups of one device (or the user) inside it
+ */
+function foldRollups(days: EnergyStatsValues[], window: PeriodWindow, timeZone: string): RollupFigures {
+  const periodMs = window.end.getTime() - window.start.getTime();
+  const now = Date.now();
+
+  let consumed = 0;
+  let produced = 0;
+  let dataPoints = 0;
+  let uptimeMs = 0;
+  let qualityMs = 0;
+  let powerMs = 0;
+  let weightedPower = 0;
+  let peak: { value: number; time?: Date | undefined } | undefined;
+  let productionPeak: { value: number; time?: Date | undefined } | undefined;
+  let minimum: number | undefined;
+  let cost: NonNullable<EnergyStatsValues['cost']> | undefined;
+  let carbon: NonNullable<EnergyStatsValues['carbon']> | undefined;
+  const weekdayTotals: number[] = [];
+  const weekendTotals: number[] = [];
+
+  for (const day of days) {
+    const dayMs = day.periodEnd.getTime() - day.periodStart.getTime();
+    const dayElapsedMs = Math.max(0, Math.min(day.periodEnd.getTime(), now) - day.periodStart.getTime());
+
+    dataPoints += day.dataPoints;
+    uptimeMs += day.uptime * dayElapsedMs;
+    qualityMs += day.dataQuality * dayMs;
+
+    if (day.consumption) {
+      consumed += day.consumption.total;
+      weightedPower += day.consumption.average * dayElapsedMs;
+      powerMs += dayElapsedMs;
+      if (!peak || day.consumption.peak > peak.value) {
+        peak = { value: day.consumption.peak, time: day.consumption.peakTime };
+      }
+      if (minimum === undefined || day.consumption.minimum < minimum) {
+        minimum = day.consumption.minimum;
+      }
+      (isWeekend(day.periodStart, timeZone) ? weekendTotals : weekdayTotals).push(day.consumption.total);
+    }
+
+    if (day.production) {
+      produced += day.production.total;
+      if (!productionPeak || day.production.peak > productionPeak.value) {
+        productionPeak = { value: day.production.peak, time: day.production.peakTime };
+      }
+    }
+
+    if (day.cost) {
+      cost = {
+        total: (cost?.total ?? 0) + day.cost.total,
+        average: 0,
+        ...(day.cost.savings !== undefined || cost?.savings !== undefined
+          ? { savings: (cost?.savings ?? 0) + (day.cost.savings ?? 0) }
+          : {}),
+        ...(day.cost.revenue !== undefined || cost?.revenue !== undefined
+          ? { revenue: (cost?.revenue ?? 0) + (day.cost.revenue ?? 0) }
+          : {})
+      };
+    }
+    if (day.carbon) {
+      carbon = {
+        total: (carbon?.total ?? 0) + day.carbon.total,
+        average: 0,
+        ...(day.carbon.avoided !== undefined || carbon?.avoided !== undefined
+          ? { avoided: (carbon?.avoided ?? 0) + (day.carbon.avoided ?? 0) }
+          : {})
+      };
+    }
+  }
+
+  const figures: RollupFigures = {
+    uptime: window.elapsedMs > 0 ? Math.min(1, uptimeMs / window.elapsedMs) : 0,
+    dataPoints,
+    dataQuality: periodMs > 0 ? Math.min(1, qualityMs / periodMs) : 0
+  };
+
+  if (consumed > 0 || powerMs > 0) {
+    const average = powerMs > 0 ? weightedPower / powerMs : 0;
+    figures.consumption = {
+      total: consumed,
+      average,
+      peak: peak?.value ?? average,
+      minimum: minimum ?? 0,
+      ...(peak?.time ? { peakTime: peak.time } : {}),
+      averageDaily: dailyAverage(consumed, window),
+      ...(weekdayTotals.length > 0 ? { weekdayAverage: mean(weekdayTotals) } : {}),
+      ...(weekendTotals.length > 0 ? { weekendAverage: mean(weekendTotals) } : {})
+    };
+  }
+
+  if (produced > 0) {
+    figures.production = {
+      total: produced,
+      average: averagePower(produced, window.elapsedMs / HOUR_MS),
+      peak: productionPeak?.value ?? 0,
+      ...(productionPeak?.time ? { peakTime: productionPeak.time } : {})
+    };
+  }
+
+  // Averages are per kWh consumed
+  if (cost) {
+    figures.cost = { ...cost, average: consumed > 0 ? cost.total / consumed : 0 };
+  }
+  if (carbon) {
+    figures.carbon = { ...carbon, average: consumed > 0 ? carbon.total / consumed : 0 };
+  }
+
+  return figures;
+}
+
+/**
+ * Cost section of a rollup; savings compare against the flat base rate
+ */
+function toCost(tariff: TariffEngine, charge: TariffCharge): NonNullable<EnergyStatsValues['cost']> {
+  return {
+    total: charge.total,
+    average: charge.imported > 0 ? charge.total / charge.imported : 0,
+    ...(tariff.definition.structure !== 'fixed' && tariff.definition.baseRate > 0
+      ? { savings: tariff.baselineEnergy(charge.imported) - charge.energy }
+      : {}),
+    ...(charge.exportCredit > 0 ? { revenue: charge.exportCredit } : {})
+  };
+}
+
+/**
+ * Carbon section of a rollup; the average is per consumed kWh
+ */
+function toCarbon(account: CarbonAccount): EnergyStatsValues['carbon'] {
+  if (account.consumed <= 0 && account.avoided <= 0) {
+    return undefined;
+  }
+
+  return {
+    total: account.emitted,
+    average: account.consumed > 0 ? account.emitted / account.consumed : 0,
+    ...(account.avoided > 0 ? { avoided: account.avoided } : {})
+  };
+}
+
+/**
+ * Emissions of the user's buckets, keyed by bucket start
+ */
+function accountBuckets(
+  timeline: CarbonTimeline,
+  buckets: MeasurementAggregate[],
+  bucketMs: number,
+  window: PeriodWindow
+): Map<number, CarbonAccount> {
+  return new Map(buckets.map(bucket => [
+    bucket.periodStart.getTime(),
+    timeline.account({
+      ...bucketSpan(bucket, bucketMs, window),
+      consumed: bucket.energyConsumed,
+      produced: bucket.energyProduced
+    })
+  ]));
+}
+
+/**
+ * Emissions of a device: its consumption share of each user bucket's emissions,
+ * and its production share of the emissions avoided by self-consumption
+ */
+function deviceCarbon(
+  buckets: MeasurementAggregate[],
+  accounts: Map<number, CarbonAccount>,
+  totals: Map<number, MeasurementAggregate>
+): EnergyStatsValues['carbon'] {
+  const shares: CarbonAccount[] = [];
+  for (const bucket of buckets) {
+    const key = bucket.periodStart.getTime();
+    const account = accounts.get(key);
+    const total = totals.get(key);
+    if (!account || !total) continue;
+
+    const consumeShare = total.energyConsumed > 0 ? Math.max(0, bucket.energyConsumed) / total.energyConsumed : 0;
+    const produceShare = total.energyProduced > 0 ? Math.max(0, bucket.energyProduced) / total.energyProduced : 0;
+    shares.push({
+      consumed: Math.max(0, bucket.energyConsumed),
+      selfConsumed: account.selfConsumed * produceShare,
+      gridImport: account.gridImport * consumeShare,
+      emitted: account.emitted * consumeShare,
+      avoided: account.avoided * produceShare
+    });
+  }
+
+  return toCarbon(sumAccounts(shares));
+}
+
+/**
+ * Part of a UTC-aligned store bucket inside the period
+ */
+function bucketSpan(bucket: MeasurementAggregate, bucketMs: number, window: PeriodWindow): { start: Date; end: Date } {
+  return {
+    start: new Date(Math.max(bucket.periodStart.getTime(), window.start.getTime())),
+    end: new Date(Math.min(bucket.periodStart.getTime() + bucketMs, window.end.getTime()))
+  };
+}
+
+/**
+ * Cost of a device: its share of each user bucket's energy charges, without standing charges
+ */
+function deviceCost(
+  tariff: TariffEngine,
+  buckets: MeasurementAggregate[],
+  charges: Map<number, TariffCharge>,
+  totals: Map<number, MeasurementAggregate>
+): EnergyStatsValues['cost'] {
+  const shares: TariffCharge[] = [];
+  for (const bucket of buckets) {
+    const key = bucket.periodStart.getTime();
+    const charge = charges.get(key);
+    const total = totals.get(key);
+    if (!charge || !total) continue;
+
+    const importShare = total.energyConsumed > 0 ? Math.max(0, bucket.energyConsumed) / total.energyConsumed : 0;
+    const exportShare = total.energyProduced > 0 ? Math.max(0, bucket.energyProduced) / total.energyProduced : 0;
+    shares.push({
+      imported: charge.imported * importShare,
+      exported: charge.exported * exportShare,
+      energy: charge.energy * importShare,
+      energyTax: charge.energyTax * importShare,
+      standing: 0,
+      vat: charge.vat * importShare,
+      exportCredit: charge.exportCredit * exportShare,
+      total: charge.total * importShare
+    });
+  }
+
+  const charge = sumCharges(shares);
+  return charge.total > 0 || charge.exportCredit > 0 ? toCost(tariff, charge) : undefined;
+}
+
+function sumAggregates(a: MeasurementAggregate, b: MeasurementAggregate): MeasurementAggregate {
+  const add = (x: number | undefined, y: number | undefined) =>
+    x === undefined ? y : y === undefined ? x : x + y;
+
+  return {
+    deviceId: a.deviceId,
+    periodStart: a.periodStart,
+    avgPower: add(a.avgPower, b.avgPower),
+    maxPower: add(a.maxPower, b.maxPower),
+    minPower: add(a.minPower, b.minPower),
+    energyConsumed: a.energyConsumed + b.energyConsumed,
+    energyProduced: a.energyProduced + b.energyProduced,
+    dataPoints: a.dataPoints + b.dataPoints,
+    avgConfidence: a.dataPoints + b.dataPoints > 0
+      ? ((a.avgConfidence ?? 1) * a.dataPoints + (b.avgConfidence ?? 1) * b.dataPoints) / (a.dataPoints + b.dataPoints)
+      : undefined
+  };
+}
+
+function averagePower(energy: number, hours: number): number {
+  return hours > 0 ? (energy * 1000) / hours : 0; // kWh over hours, in W
+}
+
+function dailyAverage(energy: number, window: PeriodWindow): number {
+  return window.elapsedMs > 0 ? energy / Math.max(1, window.elapsedMs / DAY_MS) : 0;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Start of the same period one year earlier (same weekday for weeks)
+ */
+function yearAgo(periodStart: Date, period: RollupPeriod, timeZone: string): Date {
+  switch (period) {
+    case 'week':
+      return addPeriods(periodStart, 'week', -52, timeZone);
+    case 'month':
+      return addPeriods(periodStart, 'month', -12, timeZone);
+    case 'year':
+      return addPeriods(periodStart, 'year', -1, timeZone);
+    default: {
+      const { year, month, day, hour } = getZonedParts(periodStart, timeZone);
+      return startOfPeriod(zonedTimeToUtc(timeZone, year - 1, month, day, hour), period, timeZone);
+    }
+  }
+}
+
+/**
+ * Optional sections the recomputed rollup no longer has, so re-runs do not keep stale values
+ */
+function unsetMissing(rollup: EnergyStatsValues): Record<string, 1> {
+  const unset: Record<string, 1> = {};
+  for (const key of ['consumption', 'production', 'cost', 'carbon'] as const) {
+    if (rollup[key] === undefined) {
+      unset[key] = 1;
+    }
+  }
+  return unset;
+}
+
+/**
+ * Rollup CLI commands
+ */
+export async function runRollupCommand(command: string, args: string[] = []): Promise<void> {
+  if (!mongoose.connection.readyState) {
+    throw createError.database('Database not connected');
+  }
+
+  const store = createMeasurementStore();
+  const service = new EnergyRollupService(store);
+
+  try {
+    switch (command) {
+      case 'backfill': {
+        const from = new Date(args[0] ?? '');
+        const to = args[1] ? new Date(args[1]) : new Date();
+        if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+          throw new Error('Backfill requires a start date and an optional end date (ISO 8601)');
+        }
+        const written = await service.backfill(from, to, args[2]);
+        console.log(`Backfilled ${written} energy rollups from ${from.toISOString()} to ${to.toISOString()}`);
+        break;
+      }
+
+      case 'retention': {
+        const purgedDays = await service.applyRetention();
+        console.log(`Deleted raw energy measurements of ${purgedDays} rolled-up days`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown rollup command: ${command}`);
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+export default EnergyRollupService;
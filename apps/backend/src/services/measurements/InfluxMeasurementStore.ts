@@ -0,0 +1,443 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+import { createError } from '@/utils/errors';
+import { createModuleLogger } from '@/config/logger';
+import {
+  EnergyMeasurementRecord,
+  MeasurementAggregate,
+  MeasurementInterval,
+  MeasurementQuery,
+  MeasurementStore
+} from './MeasurementStore';
+
+/**
+ * InfluxDB Measurement Store
+ *
+ * Writes measurements as line protocol to the InfluxDB v2 write API and reads
+ * them back with Flux. Points follow `toInfluxFormat` of the EnergyMeasurement
+ * model: measurement `energy_data`, tagged by device, user, source and quality,
+ * one field per numeric measurement (phase values flattened to `phaseA_voltage`).
+ *
+ * Writes are split into batches; each batch is retried with backoff on
+ * network errors, 429 and 5xx (honouring Retry-After).
+ */
+
+export interface InfluxMeasurementStoreConfig {
+  url: string;
+  token: string;
+  org: string;
+  bucket: string;
+  batchSize?: number | undefined; // points per request, default: 5000
+  maxRetries?: number | undefined; // default: 3
+  retryDelay?: number | undefined; // milliseconds, doubled per attempt, default: 1000
+  timeout?: number | undefined; // milliseconds, default: 10000
+}
+
+const MEASUREMENT = 'energy_data';
+
+// Columns of Flux results that are not measurement fields or tags
+const FLUX_META_COLUMNS = new Set(['', 'result', 'table', '_start', '_stop', '_time', '_measurement']);
+const BASE_TAGS = new Set(['device_id', 'user_id', 'source', 'quality']);
+
+const FLUX_INTERVALS: Record<MeasurementInterval, string> = {
+  minute: '1m',
+  hour: '1h',
+  day: '1d',
+  week: '1w',
+  month: '1mo'
+};
+
+export class InfluxMeasurementStore implements MeasurementStore {
+  readonly type = 'influxdb' as const;
+  private moduleLogger = createModuleLogger('InfluxMeasurementStore');
+  private client: AxiosInstance;
+  private readonly batchSize: number;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+  private stats = { pointsWritten: 0, failedBatches: 0, retries: 0 };
+
+  constructor(private config: InfluxMeasurementStoreConfig) {
+    this.batchSize = config.batchSize ?? 5000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryDelay = config.retryDelay ?? 1000;
+
+    this.client = axios.create({
+      baseURL: config.url.replace(/\/$/, ''),
+      timeout: config.timeout ?? 10000,
+      headers: { Authorization: `Token ${config.token}` }
+    });
+  }
+
+  async write(records: EnergyMeasurementRecord[]): Promise<void> {
+    const lines = records.map(record => toLineProtocol(record)).filter((line): line is string => line !== null);
+
+    for (let i = 0; i < lines.length; i += this.batchSize) {
+      const batch = lines.slice(i, i + this.batchSize);
+      await this.withRetry('write', () => this.client.post('/api/v2/write', batch.join('\n'), {
+        params: { org: this.config.org, bucket: this.config.bucket, precision: 'ms' },
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      }));
+      this.stats.pointsWritten += batch.length;
+    }
+  }
+
+  async queryRange(query: MeasurementQuery): Promise<EnergyMeasurementRecord[]> {
+    if (selectsNoDevice(query)) {
+      return [];
+    }
+
+    const rows = await this.query(`${this.rawFlux(query)}${fluxPage(query)}`);
+    return rows.map(row => fromFluxRow(row));
+  }
+
+  async aggregate(query: MeasurementQuery, interval: MeasurementInterval): Promise<MeasurementAggregate[]> {
+    if (selectsNoDevice(query)) {
+      return [];
+    }
+
+    const rows = await this.query(`${this.aggregateFlux(query, interval)}${fluxPage(query)}`);
+    return rows.map(row => ({
+      deviceId: row.device_id ?? '',
+      periodStart: new Date(row._time ?? 0),
+      avgPower: optionalNumber(row.avgPower),
+      maxPower: optionalNumber(row.maxPower),
+      minPower: optionalNumber(row.minPower),
+      energyConsumed: optionalNumber(row.energyConsumed) ?? 0,
+      energyProduced: optionalNumber(row.energyProduced) ?? 0,
+      dataPoints: optionalNumber(row.dataPoints) ?? 0,
+      avgConfidence: optionalNumber(row.avgConfidence)
+    }));
+  }
+
+  async count(query: MeasurementQuery, interval?: MeasurementInterval): Promise<number> {
+    if (selectsNoDevice(query)) {
+      return 0;
+    }
+
+    const flux = interval ? this.aggregateFlux(query, interval) : this.rawFlux(query);
+    const rows = await this.query(`${flux}
+  |> count(column: "_time")`);
+    return optionalNumber(rows[0]?._time) ?? 0;
+  }
+
+  async latest(deviceId: string): Promise<EnergyMeasurementRecord | null> {
+    const flux = `from(bucket: ${fluxString(this.config.bucket)})
+  |> range(start: 0)
+  |> filter(fn: (r) => r._measurement == "${MEASUREMENT}" and r.device_id == ${fluxString(deviceId)})
+  |> last()
+  |> pivot(rowKey: ["_time"], columnKey: ["_field"], valueColumn: "_value")
+  |> group()
+  |> sort(columns: ["_time"], desc: true)
+  |> limit(n: 1)`;
+
+    const rows = await this.query(flux);
+    return rows.length > 0 ? fromFluxRow(rows[0]!) : null;
+  }
+
+  async deleteRange(query: MeasurementQuery): Promise<void> {
+    // Delete predicates support neither `or` nor regular expressions: one request per device
+    const deviceIds = query.deviceId === undefined
+      ? [undefined]
+      : Array.isArray(query.deviceId) ? query.deviceId : [query.deviceId];
+
+    for (const deviceId of deviceIds) {
+      const predicate = [`_measurement="${MEASUREMENT}"`];
+      if (deviceId !== undefined) {
+        predicate.push(`device_id=${fluxString(deviceId)}`);
+      }
+      if (query.userId) {
+        predicate.push(`user_id=${fluxString(query.userId)}`);
+      }
+
+      await this.withRetry('delete', () => this.client.post('/api/v2/delete', {
+        start: query.start.toISOString(),
+        stop: query.end.toISOString(),
+        predicate: predicate.join(' AND ')
+      }, {
+        params: { org: this.config.org, bucket: this.config.bucket }
+      }));
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    try {
+      const response = await this.client.get('/health');
+      return {
+        status: response.data?.status === 'pass' ? 'healthy' : 'degraded',
+        details: { store: this.type, bucket: this.config.bucket, version: response.data?.version, ...this.stats }
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        details: { store: this.type, error: error instanceof Error ? error.message : String(error), ...this.stats }
+      };
+    }
+  }
+
+  async close(): Promise<void> {
+    this.moduleLogger.info('InfluxDB measurement store closed', this.stats);
+  }
+
+  // Private helper methods
+
+  private fromRange(query: MeasurementQuery): string {
+    const filters = [`r._measurement == "${MEASUREMENT}"`];
+    if (query.deviceId) {
+      const deviceIds = Array.isArray(query.deviceId) ? query.deviceId : [query.deviceId];
+      filters.push(`(${deviceIds.map(id => `r.device_id == ${fluxString(id)}`).join(' or ')})`);
+    }
+    if (query.userId) {
+      filters.push(`r.user_id == ${fluxString(query.userId)}`);
+    }
+
+    // range() stop is exclusive; queries are inclusive of `end`
+    const stop = new Date(query.end.getTime() + 1);
+    return `from(bucket: ${fluxString(this.config.bucket)})
+  |> range(start: ${query.start.toISOString()}, stop: ${stop.toISOString()})
+  |> filter(fn: (r) => ${filters.join(' and ')})`;
+  }
+
+  // One row per series and time, in a single table
+  private rawFlux(query: MeasurementQuery): string {
+    return `${this.fromRange(query)}
+  |> pivot(rowKey: ["_time"], columnKey: ["_field"], valueColumn: "_value")
+  |> group()`;
+  }
+
+  // One row per device and interval, in a single table
+  private aggregateFlux(query: MeasurementQuery, interval: MeasurementInterval): string {
+    // Windows align to the Unix epoch (a Thursday); weeks start on Monday like in the Mongo store
+    const every = `${FLUX_INTERVALS[interval]}${interval === 'week' ? ', offset: 4d' : ''}`;
+    const window = (fn: string, name: string) =>
+      `power |> aggregateWindow(every: ${every}, fn: ${fn}, timeSrc: "_start", createEmpty: false) |> set(key: "_field", value: "${name}")`;
+
+    // Grouped by device, so series of one device (source, quality) share windows
+    return `data = ${this.fromRange(query)}
+  |> group(columns: ["device_id", "_field"])
+power = data |> filter(fn: (r) => r._field == "activePower")
+union(tables: [
+  ${window('mean', 'avgPower')},
+  ${window('max', 'maxPower')},
+  ${window('min', 'minPower')},
+  ${window('count', 'dataPoints')},
+  data
+    |> filter(fn: (r) => r._field == "confidence")
+    |> aggregateWindow(every: ${every}, fn: mean, timeSrc: "_start", createEmpty: false)
+    |> set(key: "_field", value: "avgConfidence"),
+  data
+    |> filter(fn: (r) => r._field == "energyConsumed" or r._field == "energyProduced")
+    |> aggregateWindow(every: ${every}, fn: sum, timeSrc: "_start", createEmpty: false)
+])
+  |> group(columns: ["device_id"])
+  |> pivot(rowKey: ["_time"], columnKey: ["_field"], valueColumn: "_value")
+  |> group()`;
+  }
+
+  private async query(flux: string): Promise<Array<Record<string, string>>> {
+    const response = await this.withRetry('query', () => this.client.post<string>('/api/v2/query', {
+      query: flux,
+      type: 'flux',
+      dialect: { header: true, annotations: [], delimiter: ',' }
+    }, {
+      params: { org: this.config.org },
+      headers: { Accept: 'application/csv', 'Content-Type': 'application/json' },
+      responseType: 'text'
+    }));
+
+    return parseFluxCsv(response.data);
+  }
+
+  private async withRetry<T>(operation: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        const status = axiosError.response?.status;
+        const retryable = status === undefined || status === 429 || status >= 500;
+
+        if (!retryable || attempt >= this.maxRetries) {
+          if (operation === 'write') {
+            this.stats.failedBatches++;
+          }
+          throw createError.externalService('InfluxDB', `InfluxDB ${operation} failed: ${axiosError.message}`, 502, {
+            status,
+            response: axiosError.response?.data
+          });
+        }
+
+        const retryAfter = Number(axiosError.response?.headers?.['retry-after']);
+        const delay = Number.isFinite(retryAfter) && retryAfter > 0
+          ? retryAfter * 1000
+          : this.retryDelay * Math.pow(2, attempt);
+        this.stats.retries++;
+        this.moduleLogger.warn(`InfluxDB ${operation} failed, retrying`, { attempt: attempt + 1, status, delay });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+/**
+ * Line protocol for one measurement; null when it has no numeric values
+ */
+export function toLineProtocol(record: EnergyMeasurementRecord): string | null {
+  const tags: Record<string, string> = {
+    ...record.tags,
+    device_id: record.deviceId,
+    user_id: record.userId,
+    source: record.source,
+    quality: record.measurements.quality || 'unknown'
+  };
+
+  const fields: string[] = [];
+  for (const [key, value] of Object.entries(record.measurements)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      fields.push(`${escapeKey(key)}=${value}`);
+    } else if (value && typeof value === 'object') {
+      // Phase measurements
+      for (const [subKey, subValue] of Object.entries(value)) {
+        if (typeof subValue === 'number' && Number.isFinite(subValue)) {
+          fields.push(`${escapeKey(`${key}_${subKey}`)}=${subValue}`);
+        }
+      }
+    }
+  }
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const tagSet = Object.entries(tags)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b)) // sorted tags write faster
+    .map(([key, value]) => `${escapeKey(key)}=${escapeKey(String(value))}`)
+    .join(',');
+
+  return `${MEASUREMENT},${tagSet} ${fields.join(',')} ${record.timestamp.getTime()}`;
+}
+
+/**
+ * Parse Flux CSV (header rows, no annotations); tables are separated by blank
+ * lines and each starts with its own header
+ */
+export function parseFluxCsv(csv: string): Array<Record<string, string>> {
+  const rows: Array<Record<string, string>> = [];
+  let header: string[] | null = null;
+
+  for (const line of csv.split(/\r?\n/)) {
+    if (line.trim() === '') {
+      header = null;
+      continue;
+    }
+    const values = splitCsvLine(line);
+    if (!header) {
+      header = values;
+      continue;
+    }
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = values[index] ?? '';
+    });
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// An empty device list would make an invalid filter; it matches nothing
+function selectsNoDevice(query: MeasurementQuery): boolean {
+  return Array.isArray(query.deviceId) && query.deviceId.length === 0;
+}
+
+// Sorts by time, then device, and pages; limit() needs a row count, so a skip alone reads to the end
+function fluxPage(query: MeasurementQuery): string {
+  let flux = `
+  |> sort(columns: ["_time", "device_id"]${query.order === 'desc' ? ', desc: true' : ''})`;
+  if (query.skip || query.limit) {
+    flux += `
+  |> limit(n: ${Math.floor(query.limit || Number.MAX_SAFE_INTEGER)}${query.skip ? `, offset: ${Math.floor(query.skip)}` : ''})`;
+  }
+  return flux;
+}
+
+function fromFluxRow(row: Record<string, string>): EnergyMeasurementRecord {
+  const measurements: Record<string, any> = {
+    quality: row.quality || 'unknown',
+    confidence: optionalNumber(row.confidence) ?? 1
+  };
+  const tags: Record<string, string> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (FLUX_META_COLUMNS.has(column) || BASE_TAGS.has(column) || column === 'confidence' || value === '') {
+      continue;
+    }
+    const number = optionalNumber(value);
+    if (number === undefined) {
+      tags[column] = value;
+      continue;
+    }
+    const phase = /^(phase[ABC])_(\w+)$/.exec(column);
+    if (phase) {
+      measurements[phase[1]!] = { ...measurements[phase[1]!], [phase[2]!]: number };
+    } else {
+      measurements[column] = number;
+    }
+  }
+
+  return {
+    deviceId: row.device_id ?? '',
+    userId: row.user_id ?? '',
+    timestamp: new Date(row._time ?? 0),
+    measurements: measurements as EnergyMeasurementRecord['measurements'],
+    source: (row.source || 'device') as EnergyMeasurementRecord['source'],
+    tags
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+  return values;
+}
+
+// Tag keys, tag values and field keys escape commas, equals signs and spaces
+function escapeKey(value: string): string {
+  return value.replace(/[\\,= ]/g, match => `\\${match}`);
+}
+
+function fluxString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export default InfluxMeasurementStore;
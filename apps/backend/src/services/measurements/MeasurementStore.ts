@@ -0,0 +1,87 @@
+import { IEnergyMeasurementDocument } from '@/models/EnergyMeasurement';
+
+/**
+ * Measurement Store
+ *
+ * Storage backend for energy measurements. The Mongo store keeps using the
+ * EnergyMeasurement collection; the InfluxDB store writes line protocol and
+ * answers range and aggregate reads with Flux, for installations where a year
+ * of high-frequency data outgrows Mongo.
+ */
+
+export type MeasurementStoreType = 'mongo' | 'influxdb';
+
+export type MeasurementInterval = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+export interface EnergyMeasurementRecord {
+  deviceId: string;
+  userId: string;
+  timestamp: Date;
+  measurements: IEnergyMeasurementDocument['measurements'];
+  source: IEnergyMeasurementDocument['source'];
+  tags?: Record<string, string>;
+}
+
+export interface MeasurementQuery {
+  deviceId?: string | string[];
+  userId?: string;
+  start: Date;
+  end: Date;
+  order?: 'asc' | 'desc'; // by time, then device; default: oldest first
+  skip?: number; // records or aggregates skipped, for paging
+  limit?: number; // most records or aggregates returned
+}
+
+/**
+ * One device and interval of aggregated measurements (interval start in UTC)
+ */
+export interface MeasurementAggregate {
+  deviceId: string;
+  periodStart: Date;
+  avgPower?: number | undefined;
+  maxPower?: number | undefined;
+  minPower?: number | undefined;
+  energyConsumed: number; // kWh
+  energyProduced: number; // kWh
+  dataPoints: number;
+  avgConfidence?: number | undefined; // 0-1, lowered by estimated samples
+}
+
+export interface MeasurementStore {
+  readonly type: MeasurementStoreType;
+
+  /**
+   * Persist measurements; rejects when they were not stored, so callers can retry
+   */
+  write(records: EnergyMeasurementRecord[]): Promise<void>;
+
+  /**
+   * Raw measurements in [start, end] in the query order
+   */
+  queryRange(query: MeasurementQuery): Promise<EnergyMeasurementRecord[]>;
+
+  /**
+   * Per-device aggregates of [start, end] in intervals, in the query order
+   */
+  aggregate(query: MeasurementQuery, interval: MeasurementInterval): Promise<MeasurementAggregate[]>;
+
+  /**
+   * Number of raw measurements in [start, end], or of aggregates when an
+   * interval is given; skip and limit are ignored
+   */
+  count(query: MeasurementQuery, interval?: MeasurementInterval): Promise<number>;
+
+  /**
+   * Most recent measurement of a device
+   */
+  latest(deviceId: string): Promise<EnergyMeasurementRecord | null>;
+
+  /**
+   * Delete raw measurements in [start, end]; used by retention once rollups exist
+   */
+  deleteRange(query: MeasurementQuery): Promise<void>;
+
+  healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }>;
+
+  close(): Promise<void>;
+}
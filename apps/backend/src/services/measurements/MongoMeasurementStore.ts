@@ -0,0 +1,163 @@
+import { FilterQuery, Model } from 'mongoose';
+
+import { EnergyMeasurement, IEnergyMeasurementDocument } from '@/models/EnergyMeasurement';
+import { createError } from '@/utils/errors';
+import {
+  EnergyMeasurementRecord,
+  MeasurementAggregate,
+  MeasurementInterval,
+  MeasurementQuery,
+  MeasurementStore
+} from './MeasurementStore';
+
+/**
+ * Mongo Measurement Store
+ *
+ * Measurements in the EnergyMeasurement collection (default backend).
+ */
+export class MongoMeasurementStore implements MeasurementStore {
+  readonly type = 'mongo' as const;
+
+  constructor(private model: Model<IEnergyMeasurementDocument> = EnergyMeasurement) {}
+
+  async write(records: EnergyMeasurementRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    try {
+      await this.model.insertMany(records, { ordered: false });
+    } catch (error) {
+      throw createError.database('Failed to write energy measurements', {
+        count: records.length,
+        originalError: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  async queryRange(query: MeasurementQuery): Promise<EnergyMeasurementRecord[]> {
+    const direction = query.order === 'desc' ? -1 : 1;
+    let cursor = this.model
+      .find(this.buildFilter(query), { _id: 0 })
+      .sort({ timestamp: direction, deviceId: direction });
+    if (query.skip) {
+      cursor = cursor.skip(query.skip);
+    }
+    if (query.limit) {
+      cursor = cursor.limit(query.limit);
+    }
+
+    const documents = await cursor.lean<EnergyMeasurementRecord[]>();
+    return documents;
+  }
+
+  async aggregate(query: MeasurementQuery, interval: MeasurementInterval): Promise<MeasurementAggregate[]> {
+    const direction = query.order === 'desc' ? -1 : 1;
+    const results = await this.model.aggregate<{
+      _id: { deviceId: string; periodStart: Date };
+      avgPower: number | null;
+      maxPower: number | null;
+      minPower: number | null;
+      energyConsumed: number;
+      energyProduced: number;
+      dataPoints: number;
+      avgConfidence: number | null;
+    }>([
+      { $match: this.buildFilter(query) },
+      {
+        $group: {
+          _id: intervalKey(interval),
+          avgPower: { $avg: '$measurements.activePower' },
+          maxPower: { $max: '$measurements.activePower' },
+          minPower: { $min: '$measurements.activePower' },
+          energyConsumed: { $sum: '$measurements.energyConsumed' },
+          energyProduced: { $sum: '$measurements.energyProduced' },
+          dataPoints: { $sum: 1 },
+          avgConfidence: { $avg: '$measurements.confidence' }
+        }
+      },
+      { $sort: { '_id.periodStart': direction, '_id.deviceId': direction } },
+      ...(query.skip ? [{ $skip: Math.floor(query.skip) }] : []),
+      ...(query.limit ? [{ $limit: Math.floor(query.limit) }] : [])
+    ]).allowDiskUse(true);
+
+    return results.map(result => ({
+      deviceId: result._id.deviceId,
+      periodStart: result._id.periodStart,
+      avgPower: result.avgPower ?? undefined,
+      maxPower: result.maxPower ?? undefined,
+      minPower: result.minPower ?? undefined,
+      energyConsumed: result.energyConsumed,
+      energyProduced: result.energyProduced,
+      dataPoints: result.dataPoints,
+      avgConfidence: result.avgConfidence ?? undefined
+    }));
+  }
+
+  async count(query: MeasurementQuery, interval?: MeasurementInterval): Promise<number> {
+    if (!interval) {
+      return this.model.countDocuments(this.buildFilter(query));
+    }
+
+    const [result] = await this.model.aggregate<{ total: number }>([
+      { $match: this.buildFilter(query) },
+      { $group: { _id: intervalKey(interval) } },
+      { $count: 'total' }
+    ]).allowDiskUse(true);
+    return result?.total ?? 0;
+  }
+
+  async latest(deviceId: string): Promise<EnergyMeasurementRecord | null> {
+    return this.model
+      .findOne({ deviceId }, { _id: 0 })
+      .sort({ timestamp: -1 })
+      .lean<EnergyMeasurementRecord>();
+  }
+
+  async deleteRange(query: MeasurementQuery): Promise<void> {
+    try {
+      await this.model.deleteMany(this.buildFilter(query));
+    } catch (error) {
+      throw createError.database('Failed to delete energy measurements', {
+        start: query.start,
+        end: query.end,
+        originalError: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const readyState = this.model.db.readyState;
+    return {
+      status: readyState === 1 ? 'healthy' : 'unhealthy',
+      details: { store: this.type, readyState }
+    };
+  }
+
+  async close(): Promise<void> {
+    // The connection is owned by the database manager
+  }
+
+  private buildFilter(query: MeasurementQuery): FilterQuery<IEnergyMeasurementDocument> {
+    const filter: FilterQuery<IEnergyMeasurementDocument> = {
+      timestamp: { $gte: query.start, $lte: query.end }
+    };
+    if (query.deviceId) {
+      filter.deviceId = Array.isArray(query.deviceId) ? { $in: query.deviceId } : query.deviceId;
+    }
+    if (query.userId) {
+      filter.userId = query.userId;
+    }
+    return filter;
+  }
+}
+
+// Device and interval start of a measurement, in UTC; weeks start on Monday
+function intervalKey(interval: MeasurementInterval) {
+  return {
+    deviceId: '$deviceId',
+    periodStart: { $dateTrunc: { date: '$timestamp', unit: interval, startOfWeek: 'monday' } }
+  };
+}
+
+export default MongoMeasurementStore;
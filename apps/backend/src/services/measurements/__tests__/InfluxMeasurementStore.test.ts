@@ -0,0 +1,124 @@
+/**
+ * InfluxDB Measurement Store Tests
+ *
+ * Flux queries sent for measurement queries, line protocol and result
+ * parsing; requests are answered by a spy on the HTTP client.
+ */
+
+import { AxiosInstance } from 'axios';
+
+import { InfluxMeasurementStore, parseFluxCsv, toLineProtocol } from '../InfluxMeasurementStore';
+
+function createStore(csv = ''): { store: InfluxMeasurementStore; post: jest.SpyInstance } {
+  const store = new InfluxMeasurementStore({ url: 'http://influx.test:8086/', token: 'token', org: 'maestro', bucket: 'energy' });
+  const client = (store as unknown as { client: AxiosInstance }).client;
+  const post = jest.spyOn(client, 'post').mockResolvedValue({ data: csv });
+  return { store, post };
+}
+
+const range = { start: new Date('2026-03-02T00:00:00Z'), end: new Date('2026-03-02T23:59:59.999Z') };
+
+describe('InfluxMeasurementStore', () => {
+  it('answers queries for an empty device list without querying', async () => {
+    const { store, post } = createStore();
+
+    expect(await store.queryRange({ ...range, deviceId: [] })).toEqual([]);
+    expect(await store.aggregate({ ...range, deviceId: [] }, 'hour')).toEqual([]);
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('filters by device and limits raw and aggregated results', async () => {
+    const { store, post } = createStore();
+
+    await store.queryRange({ ...range, deviceId: ['plug-1', 'plug-2'], limit: 100 });
+    await store.aggregate({ ...range, deviceId: 'plug-1', limit: 24 }, 'hour');
+
+    const [raw, aggregated] = post.mock.calls.map(call => (call[1] as { query: string }).query);
+    expect(raw).toContain('(r.device_id == "plug-1" or r.device_id == "plug-2")');
+    expect(raw).toContain('range(start: 2026-03-02T00:00:00.000Z, stop: 2026-03-03T00:00:00.000Z)');
+    expect(raw).toMatch(/\|> limit\(n: 100\)$/);
+    expect(aggregated).toContain('aggregateWindow(every: 1h, fn: mean');
+    expect(aggregated).toMatch(/\|> limit\(n: 24\)$/);
+  });
+
+  it('sorts and pages raw and aggregated results in the query', async () => {
+    const { store, post } = createStore();
+
+    await store.queryRange({ ...range, order: 'desc', skip: 200, limit: 100 });
+    await store.aggregate({ ...range, skip: 24 }, 'hour');
+
+    const [raw, aggregated] = post.mock.calls.map(call => (call[1] as { query: string }).query);
+    expect(raw).toMatch(/\|> sort\(columns: \["_time", "device_id"\], desc: true\)\n  \|> limit\(n: 100, offset: 200\)$/);
+    expect(aggregated).toMatch(/\|> sort\(columns: \["_time", "device_id"\]\)\n  \|> limit\(n: \d+, offset: 24\)$/);
+  });
+
+  it('counts raw measurements and aggregates', async () => {
+    const { store, post } = createStore(',result,table,_time\r\n,_result,0,1440');
+
+    expect(await store.count({ ...range, deviceId: 'plug-1', skip: 10, limit: 5 })).toBe(1440);
+    expect(await store.count({ ...range, deviceId: [] }, 'hour')).toBe(0);
+
+    const [raw] = post.mock.calls.map(call => (call[1] as { query: string }).query);
+    expect(raw).toMatch(/\|> group\(\)\n  \|> count\(column: "_time"\)$/);
+    expect(raw).not.toContain('limit(');
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses pivoted rows into measurements', async () => {
+    const { store } = createStore([
+      ',result,table,_time,device_id,user_id,source,quality,activePower,confidence,phaseA_voltage,room',
+      ',_result,0,2026-03-02T10:00:00Z,plug-1,user-1,device,good,120.5,1,231,kitchen'
+    ].join('\r\n'));
+
+    expect(await store.queryRange({ ...range, deviceId: 'plug-1' })).toEqual([{
+      deviceId: 'plug-1',
+      userId: 'user-1',
+      timestamp: new Date('2026-03-02T10:00:00Z'),
+      measurements: { quality: 'good', confidence: 1, activePower: 120.5, phaseA: { voltage: 231 } },
+      source: 'device',
+      tags: { room: 'kitchen' }
+    }]);
+  });
+});
+
+describe('toLineProtocol', () => {
+  it('writes tags sorted and escaped, and flattens phase values', () => {
+    const line = toLineProtocol({
+      deviceId: 'plug 1',
+      userId: 'user-1',
+      timestamp: new Date(1772445600000),
+      measurements: { activePower: 100, phaseB: { current: 0.5 }, quality: 'good', confidence: 1 },
+      source: 'device',
+      tags: { room: 'living,room' }
+    });
+
+    expect(line).toBe('energy_data,device_id=plug\\ 1,quality=good,room=living\\,room,source=device,user_id=user-1 activePower=100,phaseB_current=0.5,confidence=1 1772445600000');
+  });
+
+  it('skips measurements without numeric values', () => {
+    expect(toLineProtocol({
+      deviceId: 'plug-1',
+      userId: 'user-1',
+      timestamp: new Date(),
+      measurements: { quality: 'unknown' } as any,
+      source: 'device'
+    })).toBeNull();
+  });
+});
+
+describe('parseFluxCsv', () => {
+  it('reads tables with their own headers and quoted values', () => {
+    const rows = parseFluxCsv([
+      ',result,table,name',
+      ',_result,0,"a, ""quoted"" name"',
+      '',
+      ',result,table,other',
+      ',_result,1,x'
+    ].join('\n'));
+
+    expect(rows).toEqual([
+      { '': '', result: '_result', table: '0', name: 'a, "quoted" name' },
+      { '': '', result: '_result', table: '1', other: 'x' }
+    ]);
+  });
+});
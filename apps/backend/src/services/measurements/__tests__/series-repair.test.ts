@@ -0,0 +1,165 @@
+/**
+ * Series Repair Tests
+ *
+ * Interpolation, gap filling and outlier repair of a device's measurement series.
+ */
+
+import { EnergyMeasurementRecord } from '../MeasurementStore';
+import { fillGap, gapThreshold, interpolateMeasurements, repairOutlier } from '../series-repair';
+
+const START = Date.parse('2026-03-02T10:00:00Z');
+const MINUTE = 60000;
+
+function sample(
+  minutes: number,
+  measurements: Partial<EnergyMeasurementRecord['measurements']>,
+  source: EnergyMeasurementRecord['source'] = 'device'
+): EnergyMeasurementRecord {
+  return {
+    deviceId: 'plug-1',
+    userId: 'user-1',
+    timestamp: new Date(START + minutes * MINUTE),
+    measurements: { quality: 'good', confidence: 1, ...measurements },
+    source,
+    tags: { updateSource: 'polling' }
+  };
+}
+
+describe('interpolateMeasurements', () => {
+  it('interpolates instantaneous values and phases linearly', () => {
+    const values = interpolateMeasurements(
+      { activePower: 100, voltage: 230, phaseA: { current: 1 } },
+      { activePower: 300, voltage: 232, phaseA: { current: 3 } },
+      0.25
+    );
+
+    expect(values).toEqual({ activePower: 150, voltage: 230.5, phaseA: { current: 1.5 } });
+  });
+
+  it('holds the previous values with step, except lifetime counters', () => {
+    expect(interpolateMeasurements({ activePower: 100, energy: 10 }, { activePower: 300, energy: 12 }, 0.5, 'step'))
+      .toEqual({ activePower: 100, energy: 11 });
+  });
+
+  it('leaves out values the previous sample does not have', () => {
+    expect(interpolateMeasurements({ activePower: 100 }, { activePower: 300, voltage: 230 }, 0.5)).toEqual({ activePower: 200 });
+  });
+});
+
+describe('gapThreshold', () => {
+  it('is the configured minimum or a multiple of the usual interval', () => {
+    expect(gapThreshold(undefined)).toBe(120000);
+    expect(gapThreshold(10000)).toBe(120000);
+    expect(gapThreshold(60000)).toBe(180000);
+    expect(gapThreshold(60000, { gapFactor: 5 })).toBe(300000);
+  });
+});
+
+describe('fillGap', () => {
+  it('leaves regular spacing and long outages unfilled', () => {
+    const previous = sample(0, { activePower: 100 });
+
+    expect(fillGap(previous, sample(2, { activePower: 100 })).estimated).toEqual([]);
+    expect(fillGap(previous, sample(7 * 60, { activePower: 100 })).estimated).toEqual([]);
+  });
+
+  it('spreads the energy delta of the next sample over the gap', () => {
+    const previous = sample(0, { activePower: 1000, energy: 10 });
+    const next = sample(5, { activePower: 1000, energy: 10.1, energyConsumed: 0.1 });
+
+    const filled = fillGap(previous, next);
+
+    expect(filled.estimated.map(record => record.timestamp.getTime() - START)).toEqual([1, 2, 3, 4].map(minutes => minutes * MINUTE));
+    expect(filled.estimated.map(record => record.measurements.energyConsumed)).toEqual([0.02, 0.02, 0.02, 0.02]);
+    expect(filled.estimated[1]!.measurements).toMatchObject({ activePower: 1000, energy: 10.04, quality: 'fair', confidence: 0.5 });
+    expect(filled.estimated[0]).toMatchObject({ source: 'estimated', tags: { updateSource: 'polling', repair: 'gap' } });
+    expect(filled.next.measurements.energyConsumed).toBe(0.02);
+    expect(filled.next.source).toBe('device');
+  });
+
+  it('weighs the energy spread by the interpolated power', () => {
+    const filled = fillGap(sample(0, { activePower: 0 }), sample(4, { activePower: 800, energyConsumed: 0.032 }));
+
+    const shares = [...filled.estimated, filled.next].map(record => record.measurements.energyConsumed);
+    expect(shares).toEqual([0.002, 0.006, 0.01, 0.014]);
+  });
+
+  it('integrates the interpolated power of devices without counters', () => {
+    const filled = fillGap(sample(0, { activePower: 0 }), sample(5, { activePower: 1200 }));
+
+    expect(filled.estimated.map(record => record.measurements.energyConsumed)).toEqual([0.002, 0.006, 0.01, 0.014]);
+    expect(filled.next.measurements.energyConsumed).toBe(0.018);
+    expect(filled.next.source).toBe('calculated');
+  });
+
+  it('integrates negative power as production', () => {
+    const filled = fillGap(sample(0, { activePower: -600 }), sample(3, { activePower: -600 }));
+
+    expect(filled.estimated.map(record => record.measurements.energyProduced)).toEqual([0.01, 0.01]);
+    expect(filled.next.measurements.energyProduced).toBe(0.01);
+  });
+});
+
+describe('repairOutlier', () => {
+  it('replaces an isolated power spike by interpolation', () => {
+    const repaired = repairOutlier(
+      sample(0, { activePower: 200 }),
+      sample(1, { activePower: 5000 }),
+      sample(2, { activePower: 220 })
+    );
+
+    expect(repaired!.kind).toBe('spike');
+    expect(repaired!.current).toMatchObject({
+      measurements: { activePower: 210, quality: 'poor', confidence: 0.3 },
+      source: 'estimated',
+      tags: { repair: 'spike' }
+    });
+  });
+
+  it('integrates energy again from the repaired power', () => {
+    const repaired = repairOutlier(
+      sample(0, { activePower: 200 }),
+      sample(1, { activePower: 5000, energyConsumed: 0.043333 }, 'calculated'),
+      sample(2, { activePower: 220, energyConsumed: 0.043500 }, 'calculated')
+    );
+
+    expect(repaired!.current.measurements.energyConsumed).toBe(0.003417);
+    expect(repaired!.next.measurements.energyConsumed).toBe(0.003583);
+  });
+
+  it('keeps step changes', () => {
+    expect(repairOutlier(
+      sample(0, { activePower: 200 }),
+      sample(1, { activePower: 5000 }),
+      sample(2, { activePower: 5000 })
+    )).toBeNull();
+  });
+
+  it('keeps spikes within the relative threshold', () => {
+    expect(repairOutlier(
+      sample(0, { activePower: 2000 }),
+      sample(1, { activePower: 6000 }),
+      sample(2, { activePower: 2000 })
+    )).toBeNull();
+  });
+
+  it('undoes the reset counted for a counter that dipped for one sample', () => {
+    const repaired = repairOutlier(
+      sample(0, { energy: 10 }),
+      sample(1, { energy: 0.5, energyConsumed: 0.5 }),
+      sample(2, { energy: 10.2, energyConsumed: 9.7 })
+    );
+
+    expect(repaired!.kind).toBe('counterGlitch');
+    expect(repaired!.current.measurements).toMatchObject({ energy: 10.1, energyConsumed: 0, quality: 'poor' });
+    expect(repaired!.next.measurements.energyConsumed).toBe(0.2);
+  });
+
+  it('leaves a real counter reset alone', () => {
+    expect(repairOutlier(
+      sample(0, { energy: 10 }),
+      sample(1, { energy: 0.5, energyConsumed: 0.5 }),
+      sample(2, { energy: 0.6, energyConsumed: 0.1 })
+    )).toBeNull();
+  });
+});
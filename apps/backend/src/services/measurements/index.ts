@@ -0,0 +1,33 @@
+/**
+ * Measurement Store Index
+ *
+ * Selects the measurement backend from the environment configuration
+ */
+
+import { config } from '@/config/environment';
+import logger from '@/config/logger';
+import { InfluxMeasurementStore } from './InfluxMeasurementStore';
+import { MeasurementStore } from './MeasurementStore';
+import { MongoMeasurementStore } from './MongoMeasurementStore';
+
+export * from './MeasurementStore';
+export { MongoMeasurementStore } from './MongoMeasurementStore';
+export { InfluxMeasurementStore, toLineProtocol, parseFluxCsv } from './InfluxMeasurementStore';
+export type { InfluxMeasurementStoreConfig } from './InfluxMeasurementStore';
+export * from './series-repair';
+
+/**
+ * Create the configured store; InfluxDB without url and token falls back to Mongo
+ */
+export function createMeasurementStore(storeConfig = config.measurements): MeasurementStore {
+  if (storeConfig.store === 'influxdb') {
+    const influx = storeConfig.influxdb;
+    if (influx.url && influx.token) {
+      logger.info('Using InfluxDB measurement store', { url: influx.url, org: influx.org, bucket: influx.bucket });
+      return new InfluxMeasurementStore(influx);
+    }
+    logger.warn('InfluxDB measurement store selected but INFLUXDB_URL or INFLUXDB_TOKEN is missing, using Mongo');
+  }
+
+  return new MongoMeasurementStore();
+}
@@ -0,0 +1,352 @@
+import { EnergyMeasurementRecord } from './MeasurementStore';
+
+/**
+ * Series Repair
+ *
+ * Repairs of one device's measurement series: gaps are filled with estimated
+ * samples, isolated power spikes and counter glitches (a lifetime counter
+ * dipping for one sample) are replaced by interpolation. Repaired and filled
+ * samples are marked `source: 'estimated'` with a lowered confidence, which
+ * the rollups weigh into `dataQuality`.
+ */
+
+export type InterpolationMethod = 'linear' | 'step';
+
+export interface SeriesRepairOptions {
+  method?: InterpolationMethod; // default: linear
+  gapThreshold?: number; // milliseconds, shortest spacing treated as a gap, default: 120000
+  gapFactor?: number; // spacing over this multiple of the usual interval is a gap, default: 3
+  fillInterval?: number; // milliseconds between estimated samples, default: 60000
+  maxFillGap?: number; // milliseconds, longer gaps (device off) stay empty, default: 21600000
+  spikeMinDelta?: number; // W, smallest deviation treated as a spike, default: 500
+  spikeRatio?: number; // deviation relative to the surrounding power, default: 3
+}
+
+export type OutlierKind = 'spike' | 'counterGlitch';
+
+type Measurements = EnergyMeasurementRecord['measurements'];
+
+// A counter falling by less than this (kWh) is treated as jitter, not a reset
+export const COUNTER_JITTER = 0.001;
+
+export const DEFAULT_SERIES_REPAIR_OPTIONS: Required<SeriesRepairOptions> = {
+  method: 'linear',
+  gapThreshold: 120000,
+  gapFactor: 3,
+  fillInterval: 60000,
+  maxFillGap: 21600000,
+  spikeMinDelta: 500,
+  spikeRatio: 3
+};
+
+// Confidence of estimated samples
+const GAP_FILL_CONFIDENCE = 0.5;
+const OUTLIER_CONFIDENCE = 0.3;
+
+const INTERPOLATED_FIELDS = [
+  'activePower',
+  'reactivePower',
+  'apparentPower',
+  'powerFactor',
+  'voltage',
+  'current',
+  'frequency',
+  'energy',
+  'temperature',
+  'humidity',
+  'batteryLevel',
+  'solarIrradiance',
+  'efficiency'
+] as const;
+
+const PHASES = ['phaseA', 'phaseB', 'phaseC'] as const;
+const PHASE_FIELDS = ['voltage', 'current', 'power'] as const;
+const ENERGY_FIELDS = ['energyConsumed', 'energyProduced'] as const;
+
+/**
+ * Instantaneous values between two samples. `step` holds the previous
+ * values; lifetime counters (`energy`) are always interpolated linearly.
+ */
+export function interpolateMeasurements(
+  previous: Partial<Measurements>,
+  next: Partial<Measurements>,
+  fraction: number,
+  method: InterpolationMethod = 'linear'
+): Partial<Measurements> {
+  const result: Partial<Measurements> = {};
+
+  for (const field of INTERPOLATED_FIELDS) {
+    const value = interpolateValue(previous[field], next[field], fraction, field === 'energy' ? 'linear' : method);
+    if (value !== undefined) result[field] = value;
+  }
+
+  for (const phase of PHASES) {
+    const values: NonNullable<Measurements['phaseA']> = {};
+    for (const field of PHASE_FIELDS) {
+      const value = interpolateValue(previous[phase]?.[field], next[phase]?.[field], fraction, method);
+      if (value !== undefined) values[field] = value;
+    }
+    if (Object.keys(values).length > 0) {
+      result[phase] = values;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Spacing between two samples that counts as a gap, given the usual interval of the device
+ */
+export function gapThreshold(expectedInterval: number | undefined, options: SeriesRepairOptions = {}): number {
+  const { gapThreshold: minimum, gapFactor } = { ...DEFAULT_SERIES_REPAIR_OPTIONS, ...options };
+  return Math.max(minimum, (expectedInterval ?? 0) * gapFactor);
+}
+
+/**
+ * Estimated samples for the gap between two samples, and `next` with its
+ * energy reduced to its own share. Energy deltas `next` carries for the whole
+ * gap are spread over the samples by interpolated power; without them, the
+ * interpolated power is integrated.
+ */
+export function fillGap(
+  previous: EnergyMeasurementRecord,
+  next: EnergyMeasurementRecord,
+  options: SeriesRepairOptions & { expectedInterval?: number | undefined } = {}
+): { estimated: EnergyMeasurementRecord[]; next: EnergyMeasurementRecord } {
+  const settings = { ...DEFAULT_SERIES_REPAIR_OPTIONS, ...options };
+  const start = previous.timestamp.getTime();
+  const end = next.timestamp.getTime();
+  const span = end - start;
+
+  if (span <= gapThreshold(options.expectedInterval, options) || span > settings.maxFillGap) {
+    return { estimated: [], next };
+  }
+
+  // Sample times; the last interval is at least half a fill interval long
+  const times = [start];
+  for (let time = start + settings.fillInterval; time <= end - settings.fillInterval / 2; time += settings.fillInterval) {
+    times.push(time);
+  }
+  times.push(end);
+
+  const samples = times.map(time =>
+    interpolateMeasurements(previous.measurements, next.measurements, (time - start) / span, settings.method)
+  );
+  const energy = distributeEnergy(next.measurements, samples, times, settings.method);
+
+  const estimated = times.slice(1, -1).map((time, index): EnergyMeasurementRecord => ({
+    deviceId: next.deviceId,
+    userId: next.userId,
+    timestamp: new Date(time),
+    measurements: {
+      ...samples[index + 1],
+      ...energy[index],
+      quality: 'fair',
+      confidence: GAP_FILL_CONFIDENCE
+    },
+    source: 'estimated',
+    tags: { ...next.tags, repair: 'gap' }
+  }));
+
+  // Energy integrated for `next` makes it a calculated sample
+  const integrated = !ENERGY_FIELDS.some(field => next.measurements[field] !== undefined) &&
+    ENERGY_FIELDS.some(field => energy[energy.length - 1]![field] !== undefined);
+
+  return {
+    estimated,
+    next: {
+      ...next,
+      measurements: { ...next.measurements, ...energy[energy.length - 1] },
+      source: integrated && next.source === 'device' ? 'calculated' : next.source
+    }
+  };
+}
+
+/**
+ * Repair `current` when it is an isolated outlier between its neighbours: a
+ * power spike both neighbours disagree with, or a counter that dipped below
+ * `previous` while `next` continues from it. Returns null for regular samples.
+ */
+export function repairOutlier(
+  previous: EnergyMeasurementRecord,
+  current: EnergyMeasurementRecord,
+  next: EnergyMeasurementRecord,
+  options: SeriesRepairOptions = {}
+): { kind: OutlierKind; current: EnergyMeasurementRecord; next: EnergyMeasurementRecord } | null {
+  const settings = { ...DEFAULT_SERIES_REPAIR_OPTIONS, ...options };
+  const span = next.timestamp.getTime() - previous.timestamp.getTime();
+  const fraction = span > 0 ? (current.timestamp.getTime() - previous.timestamp.getTime()) / span : 0.5;
+
+  if (isCounterGlitch(previous, current, next)) {
+    const currentMeasurements: Measurements = { ...current.measurements };
+    const nextMeasurements: Measurements = { ...next.measurements };
+    const energy = interpolateValue(previous.measurements.energy, next.measurements.energy, fraction, 'linear');
+    if (energy !== undefined) currentMeasurements.energy = energy;
+
+    // The dip was counted as a reset: nothing happened at `current`, `next` continues from `previous`
+    for (const field of ENERGY_FIELDS) {
+      if (current.measurements[field] !== undefined &&
+          Math.abs(current.measurements[field]! - current.measurements.energy!) < 1e-6) {
+        currentMeasurements[field] = 0;
+        nextMeasurements[field] = round(Math.max(0, next.measurements.energy! - previous.measurements.energy!));
+      }
+    }
+
+    return {
+      kind: 'counterGlitch',
+      current: markRepaired(current, currentMeasurements, 'counterGlitch'),
+      next: { ...next, measurements: nextMeasurements }
+    };
+  }
+
+  if (isSpike(previous, current, next, settings)) {
+    const power = interpolateValue(previous.measurements.activePower, next.measurements.activePower, fraction, 'linear')!;
+    const currentMeasurements: Measurements = { ...current.measurements, activePower: power };
+    const nextMeasurements: Measurements = { ...next.measurements };
+
+    // Energy integrated from the spike is integrated again from the repaired power
+    if (current.source === 'calculated') {
+      setIntegratedEnergy(currentMeasurements, previous.timestamp, current.timestamp, previous.measurements.activePower!, power);
+    }
+    if (next.source === 'calculated') {
+      setIntegratedEnergy(nextMeasurements, current.timestamp, next.timestamp, power, next.measurements.activePower!);
+    }
+
+    return {
+      kind: 'spike',
+      current: markRepaired(current, currentMeasurements, 'spike'),
+      next: { ...next, measurements: nextMeasurements }
+    };
+  }
+
+  return null;
+}
+
+function isSpike(
+  previous: EnergyMeasurementRecord,
+  current: EnergyMeasurementRecord,
+  next: EnergyMeasurementRecord,
+  settings: Required<SeriesRepairOptions>
+): boolean {
+  const before = previous.measurements.activePower;
+  const value = current.measurements.activePower;
+  const after = next.measurements.activePower;
+  if (before === undefined || value === undefined || after === undefined) {
+    return false;
+  }
+
+  const rise = value - before;
+  const fall = value - after;
+  const threshold = Math.max(settings.spikeMinDelta, settings.spikeRatio * Math.max(Math.abs(before), Math.abs(after)));
+
+  // Both neighbours deviate the same way and agree with each other: not a step change
+  return Math.sign(rise) === Math.sign(fall) &&
+    Math.abs(rise) > threshold &&
+    Math.abs(fall) > threshold &&
+    Math.abs(before - after) <= Math.min(Math.abs(rise), Math.abs(fall)) / 2;
+}
+
+function isCounterGlitch(
+  previous: EnergyMeasurementRecord,
+  current: EnergyMeasurementRecord,
+  next: EnergyMeasurementRecord
+): boolean {
+  const before = previous.measurements.energy;
+  const value = current.measurements.energy;
+  const after = next.measurements.energy;
+  if (before === undefined || value === undefined || after === undefined) {
+    return false;
+  }
+
+  return value < before - COUNTER_JITTER && after >= before - COUNTER_JITTER;
+}
+
+function markRepaired(record: EnergyMeasurementRecord, measurements: Measurements, kind: OutlierKind): EnergyMeasurementRecord {
+  return {
+    ...record,
+    measurements: { ...measurements, quality: 'poor', confidence: OUTLIER_CONFIDENCE },
+    source: 'estimated',
+    tags: { ...record.tags, repair: kind }
+  };
+}
+
+/**
+ * Energy of each interval between sample times, ending at the samples after the first
+ */
+function distributeEnergy(
+  next: Measurements,
+  samples: Array<Partial<Measurements>>,
+  times: number[],
+  method: InterpolationMethod
+): Array<Partial<Measurements>> {
+  const intervals = times.slice(1).map((time, index) => {
+    const duration = time - times[index]!;
+    const from = samples[index]!.activePower;
+    const to = samples[index + 1]!.activePower;
+    const power = from === undefined || to === undefined ? undefined : method === 'step' ? from : (from + to) / 2;
+    return { duration, power };
+  });
+  const shares = intervals.map(interval => interval.power === undefined ? 0 : Math.abs(interval.power) * interval.duration);
+  const totalShare = shares.reduce((sum, share) => sum + share, 0);
+  const totalDuration = intervals.reduce((sum, interval) => sum + interval.duration, 0);
+  const weights = intervals.map((interval, index) =>
+    totalShare > 0 ? shares[index]! / totalShare : interval.duration / totalDuration
+  );
+
+  const hasDeltas = ENERGY_FIELDS.some(field => next[field] !== undefined);
+  return intervals.map((interval, index) => {
+    const values: Partial<Measurements> = {};
+
+    if (hasDeltas) {
+      // Spread the deltas; the last interval takes the rounding remainder
+      for (const field of ENERGY_FIELDS) {
+        const total = next[field];
+        if (total === undefined) continue;
+        const spread = weights.slice(0, index).reduce((sum, weight) => sum + round(total * weight), 0);
+        values[field] = index === intervals.length - 1 ? round(total - spread) : round(total * weights[index]!);
+      }
+    } else if (interval.power !== undefined && next.energy === undefined) {
+      // Devices without counters: integrate the interpolated power
+      const kWh = interval.power * interval.duration / 3600000 / 1000;
+      if (kWh >= 0) {
+        values.energyConsumed = round(kWh);
+      } else {
+        values.energyProduced = round(-kWh);
+      }
+    }
+
+    return values;
+  });
+}
+
+function setIntegratedEnergy(measurements: Measurements, from: Date, to: Date, fromPower: number, toPower: number): void {
+  const hours = (to.getTime() - from.getTime()) / 3600000;
+  const kWh = ((fromPower + toPower) / 2) * hours / 1000;
+
+  delete measurements.energyConsumed;
+  delete measurements.energyProduced;
+  if (kWh >= 0) {
+    measurements.energyConsumed = round(kWh);
+  } else {
+    measurements.energyProduced = round(-kWh);
+  }
+}
+
+function interpolateValue(
+  previous: number | undefined,
+  next: number | undefined,
+  fraction: number,
+  method: InterpolationMethod
+): number | undefined {
+  if (previous === undefined) {
+    return undefined;
+  }
+  if (next === undefined || method === 'step') {
+    return previous;
+  }
+  return previous + (next - previous) * fraction;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from 'events';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { Device } from '@/models/Device';
+import { EnergyIngestionService } from '@/services/energy-ingestion';
+import { EnergyMeasurementRecord } from '@/services/measurements';
+import { FormulaNode, evaluateFormula, formulaReferences, parseFormula } from './formula';
+import { MeterDevice, VIRTUAL_PROTOCOL, loadMeterDevices, selectorMembers } from './meters';
+
+/**
+ * Virtual Meter Service
+ *
+ * Evaluates the formulas of virtual meters every interval from the latest
+ * `activePower` of their inputs, signed as each device reports it, and feeds
+ * the result into the ingestion pipeline as a calculated measurement. Energy
+ * is integrated from the evaluated power between evaluations: positive power
+ * counts as consumed, negative as produced.
+ * A meter referencing a device without a fresh reading is skipped for that
+ * interval; devices of a selector without one are left out of the group.
+ * Virtual meters may reference each other and are evaluated in dependency order.
+ */
+
+export interface VirtualMeterOptions {
+  interval?: number; // milliseconds between evaluations, default: config.measurements.virtualMeterInterval
+  staleAfter?: number; // milliseconds a reading counts as input, default: 300000
+  maxIntegrationGap?: number; // milliseconds, longest gap energy is integrated over, default: 3 intervals
+  definitionCacheTTL?: number; // milliseconds formulas and devices are reused, default: 300000
+}
+
+interface DeviceReading {
+  power: number;
+  timestamp: number;
+}
+
+interface CompiledMeter {
+  deviceId: string;
+  formula: FormulaNode;
+}
+
+interface UserMeters {
+  meters: CompiledMeter[]; // in dependency order
+  devices: MeterDevice[];
+}
+
+export class VirtualMeterService extends EventEmitter {
+  private moduleLogger = createModuleLogger('VirtualMeterService');
+  private readings: Map<string, DeviceReading> = new Map();
+  private previous: Map<string, DeviceReading> = new Map(); // last evaluation per virtual meter
+  private definitions: Map<string, UserMeters> = new Map();
+  private definitionsExpireAt = 0;
+  private tickTimer?: NodeJS.Timeout | undefined;
+  private ticking?: Promise<void> | undefined;
+  private readonly options: Required<VirtualMeterOptions>;
+  private readonly onMeasurement = (record: EnergyMeasurementRecord) => {
+    if (record.measurements.activePower === undefined) return;
+    const current = this.readings.get(record.deviceId);
+    if (current && current.timestamp > record.timestamp.getTime()) return;
+    this.readings.set(record.deviceId, {
+      power: record.measurements.activePower,
+      timestamp: record.timestamp.getTime()
+    });
+  };
+
+  private stats = {
+    evaluations: 0,
+    skipped: 0,
+    failed: 0
+  };
+
+  constructor(private ingestion: EnergyIngestionService, options: VirtualMeterOptions = {}) {
+    super();
+    const interval = options.interval ?? config.measurements.virtualMeterInterval;
+    this.options = {
+      interval,
+      staleAfter: options.staleAfter ?? 300000,
+      maxIntegrationGap: options.maxIntegrationGap ?? 3 * interval,
+      definitionCacheTTL: options.definitionCacheTTL ?? 300000
+    };
+  }
+
+  /**
+   * Start following measurements and evaluating virtual meters
+   */
+  initialize(): void {
+    this.ingestion.on('measurement', this.onMeasurement);
+    this.tickTimer = setInterval(() => {
+      void this.tick();
+    }, this.options.interval);
+
+    this.moduleLogger.info('Virtual meter evaluation started', { interval: this.options.interval });
+  }
+
+  async shutdown(): Promise<void> {
+    this.ingestion.off('measurement', this.onMeasurement);
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+
+    await this.ticking;
+    this.moduleLogger.info('Virtual meter evaluation stopped', this.stats);
+  }
+
+  /**
+   * Reload formulas and devices on the next evaluation, e.g. after a meter or device change
+   */
+  invalidate(): void {
+    this.definitionsExpireAt = 0;
+  }
+
+  /**
+   * Evaluate every virtual meter and record the results
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) {
+      return this.ticking;
+    }
+
+    this.ticking = (async () => {
+      try {
+        await this.loadDefinitions();
+      } catch (error) {
+        this.stats.failed++;
+        this.moduleLogger.warn('Failed to load virtual meters', {
+          error: error instanceof Error ? error.message : error
+        });
+        return;
+      }
+
+      for (const [userId, definitions] of this.definitions) {
+        for (const meter of definitions.meters) {
+          try {
+            await this.evaluate(meter, definitions.devices, now);
+          } catch (error) {
+            this.stats.failed++;
+            this.moduleLogger.warn('Failed to evaluate virtual meter', {
+              userId,
+              deviceId: meter.deviceId,
+              error: error instanceof Error ? error.message : error
+            });
+          }
+        }
+      }
+    })();
+
+    try {
+      await this.ticking;
+    } finally {
+      this.ticking = undefined;
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    let meters = 0;
+    for (const definitions of this.definitions.values()) {
+      meters += definitions.meters.length;
+    }
+    return {
+      status: 'healthy',
+      details: {
+        meters,
+        users: this.definitions.size,
+        inputs: this.readings.size,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private async evaluate(meter: CompiledMeter, devices: MeterDevice[], now: Date): Promise<void> {
+    const time = now.getTime();
+    const power = evaluateFormula(meter.formula, {
+      value: deviceId => {
+        const reading = this.readings.get(deviceId);
+        return reading && time - reading.timestamp <= this.options.staleAfter ? reading.power : undefined;
+      },
+      members: selector => selectorMembers(devices, selector).filter(deviceId => deviceId !== meter.deviceId)
+    });
+    if (power === undefined || !Number.isFinite(power)) {
+      this.stats.skipped++;
+      return;
+    }
+
+    // Trapezoid between this evaluation and the previous one
+    const previous = this.previous.get(meter.deviceId);
+    this.previous.set(meter.deviceId, { power, timestamp: time });
+    const energy: { energyConsumed?: number; energyProduced?: number } = {};
+    if (previous && time > previous.timestamp && time - previous.timestamp <= this.options.maxIntegrationGap) {
+      const kWh = ((previous.power + power) / 2) * ((time - previous.timestamp) / 3600000) / 1000;
+      if (kWh >= 0) {
+        energy.energyConsumed = Math.round(kWh * 1e6) / 1e6;
+      } else {
+        energy.energyProduced = Math.round(-kWh * 1e6) / 1e6;
+      }
+    }
+
+    await this.ingestion.ingestCalculated(meter.deviceId, now, { activePower: power, ...energy }, { updateSource: 'virtual' });
+    this.stats.evaluations++;
+  }
+
+  private async loadDefinitions(): Promise<void> {
+    if (this.definitionsExpireAt > Date.now()) {
+      return;
+    }
+
+    const owners = await Device.distinct('userId', { protocol: VIRTUAL_PROTOCOL });
+    const definitions = new Map<string, UserMeters>();
+    for (const userId of owners.map(String)) {
+      const devices = await loadMeterDevices(userId);
+      definitions.set(userId, { meters: this.compile(userId, devices), devices });
+    }
+
+    // Meters that disappeared start integrating afresh if they come back
+    const current = new Set([...definitions.values()].flatMap(entry => entry.meters.map(meter => meter.deviceId)));
+    for (const deviceId of this.previous.keys()) {
+      if (!current.has(deviceId)) this.previous.delete(deviceId);
+    }
+
+    this.definitions = definitions;
+    this.definitionsExpireAt = Date.now() + this.options.definitionCacheTTL;
+  }
+
+  /**
+   * Parse the formulas of a user's virtual meters and order them so that
+   * meters are evaluated after the virtual meters they reference
+   */
+  private compile(userId: string, devices: MeterDevice[]): CompiledMeter[] {
+    const meters = new Map<string, CompiledMeter & { dependencies: string[] }>();
+    for (const device of devices) {
+      if (device.protocol !== VIRTUAL_PROTOCOL || !device.virtualMeter?.formula) continue;
+      try {
+        const formula = parseFormula(device.virtualMeter.formula);
+        meters.set(device.deviceId, {
+          deviceId: device.deviceId,
+          formula,
+          dependencies: formulaReferences(formula).devices
+        });
+      } catch (error) {
+        this.moduleLogger.warn('Skipping virtual meter with invalid formula', {
+          userId,
+          deviceId: device.deviceId,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+
+    const ordered: CompiledMeter[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (deviceId: string): boolean => {
+      const meter = meters.get(deviceId);
+      if (!meter || state.get(deviceId) === 'done') return true;
+      if (state.get(deviceId) === 'visiting') return false;
+
+      state.set(deviceId, 'visiting');
+      const acyclic = meter.dependencies.every(visit);
+      state.set(deviceId, 'done');
+      if (acyclic) {
+        ordered.push({ deviceId, formula: meter.formula });
+      } else {
+        this.moduleLogger.warn('Skipping virtual meter in a reference cycle', { userId, deviceId });
+      }
+      return acyclic;
+    };
+    [...meters.keys()].forEach(visit);
+    return ordered;
+  }
+}
+
+export default VirtualMeterService;
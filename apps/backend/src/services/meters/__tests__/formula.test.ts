@@ -0,0 +1,86 @@
+/**
+ * Virtual Meter Formula Tests
+ *
+ * Parsing and evaluation of formulas over device readings and device groups.
+ */
+
+import { evaluateFormula, FormulaContext, formulaReferences, parseFormula } from '../formula';
+
+function context(values: Record<string, number>, groups: Record<string, string[]> = {}): FormulaContext {
+  return {
+    value: deviceId => values[deviceId],
+    members: selector => groups[`${selector.by}:${selector.value}`] ?? []
+  };
+}
+
+function evaluate(formula: string, values: Record<string, number> = {}, groups: Record<string, string[]> = {}) {
+  return evaluateFormula(parseFormula(formula), context(values, groups));
+}
+
+describe('parseFormula and evaluateFormula', () => {
+  it('follows operator precedence, parentheses and unary signs', () => {
+    expect(evaluate('2 + 3 * 4')).toBe(14);
+    expect(evaluate('(2 + 3) * 4')).toBe(20);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * -3 + +1')).toBe(7);
+    expect(evaluate('.5 * 4 / 2')).toBe(1);
+  });
+
+  it('reads devices, with quoted and bracketed IDs', () => {
+    const values = { house: 3000, 'pv.roof': 1200, 'heat-pump': 800, 'car charger': 500 };
+
+    expect(evaluate('house - pv.roof', values)).toBe(1800);
+    expect(evaluate('"heat-pump" + [car charger]', values)).toBe(1300);
+  });
+
+  it('aggregates device groups and leaves out members without a reading', () => {
+    const values = { house: 3000, tv: 100, fridge: 150, kettle: 2000 };
+    const groups = { 'type:smart_plug': ['tv', 'fridge', 'lamp'], 'room:kitchen': ['fridge', 'kettle'] };
+
+    expect(evaluate('house - sum(type:smart_plug)', values, groups)).toBe(2750);
+    expect(evaluate('avg(room:kitchen)', values, groups)).toBe(1075);
+    expect(evaluate('max(room:kitchen, house)', values, groups)).toBe(3000);
+    expect(evaluate('min(type:smart_plug, 120)', values, groups)).toBe(100);
+    expect(evaluate('sum(children:panel)', values, groups)).toBe(0);
+    expect(evaluate('avg(children:panel)', values, groups)).toBeUndefined();
+  });
+
+  it('takes the absolute value of one expression', () => {
+    expect(evaluate('abs(grid)', { grid: -450 })).toBe(450);
+  });
+
+  it('has no value when a referenced device has no reading or on division by zero', () => {
+    expect(evaluate('house - solar', { house: 3000 })).toBeUndefined();
+    expect(evaluate('sum(house, solar)', { house: 3000 })).toBeUndefined();
+    expect(evaluate('-solar', {})).toBeUndefined();
+    expect(evaluate('house / 0', { house: 3000 })).toBeUndefined();
+  });
+
+  it('rejects syntax errors with their position', () => {
+    expect(() => parseFormula('   ')).toThrow('Formula is empty');
+    expect(() => parseFormula('a + * b')).toThrow("Unexpected '*' at position 5");
+    expect(() => parseFormula('(a + b')).toThrow('ends unexpectedly');
+    expect(() => parseFormula('a b')).toThrow("Unexpected 'b' at position 3");
+    expect(() => parseFormula('a # b')).toThrow("Unexpected character '#' at position 3");
+    expect(() => parseFormula('"a-b + c')).toThrow('Unterminated device reference at position 1');
+    expect(() => parseFormula('[ ] + c')).toThrow('Empty device reference');
+    expect(() => parseFormula('x'.repeat(1001))).toThrow('longer than 1000 characters');
+  });
+
+  it('rejects unknown functions and selectors and misplaced groups', () => {
+    expect(() => parseFormula('median(a, b)')).toThrow("Unknown function 'median' at position 1");
+    expect(() => parseFormula('sum(colour:red)')).toThrow("Unknown selector 'colour' at position 5");
+    expect(() => parseFormula('type:plug + 1')).toThrow('only allowed inside sum, avg, min or max');
+    expect(() => parseFormula('abs(a, b)')).toThrow('abs takes a single expression');
+    expect(() => parseFormula('abs(type:plug)')).toThrow('abs takes a single expression');
+  });
+});
+
+describe('formulaReferences', () => {
+  it('lists each device and selector once', () => {
+    const references = formulaReferences(parseFormula('house - sum(type:plug, solar) + max(type:plug, house, -solar)'));
+
+    expect(references.devices).toEqual(['house', 'solar']);
+    expect(references.selectors).toEqual([{ by: 'type', value: 'plug' }]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Meter Tree Tests
+ *
+ * The sub-metering hierarchy, unmeasured remainders, inconsistent sub-meters
+ * and parent cycles.
+ */
+
+import { buildMeterTree, createsParentCycle, MeterTreeDevice } from '../hierarchy';
+
+function meter(deviceId: string, power: number | undefined, parentMeterId?: string): MeterTreeDevice {
+  return { deviceId, name: deviceId, virtual: false, power, parentMeterId };
+}
+
+describe('buildMeterTree', () => {
+  it('nests meters under their parents and computes unmeasured power', () => {
+    const tree = buildMeterTree([
+      meter('main', 3000),
+      meter('kitchen', 1000, 'main'),
+      meter('kettle', 400, 'kitchen'),
+      meter('garage', 1500, 'main'),
+      meter('standalone', 200)
+    ]);
+
+    expect(tree.roots).toHaveLength(1);
+    const [main] = tree.roots;
+    expect(main).toMatchObject({ deviceId: 'main', childrenPower: 2500, unmeasured: 500, incomplete: false });
+    expect(main!.children.map(child => child.deviceId)).toEqual(['kitchen', 'garage']);
+    expect(main!.children[0]).toMatchObject({ childrenPower: 400, unmeasured: 600 });
+    expect(main!.children[1]).toMatchObject({ children: [] });
+    expect(main!.children[1]!.unmeasured).toBeUndefined();
+    expect(tree.unmeasured).toBe(500);
+    expect(tree.issues).toEqual([]);
+  });
+
+  it('reports sub-meters measuring more than their meter beyond the tolerance', () => {
+    const tree = buildMeterTree([
+      meter('main', 1000),
+      meter('heater', 700, 'main'),
+      meter('oven', 500, 'main')
+    ]);
+
+    expect(tree.issues).toEqual([expect.objectContaining({
+      deviceId: 'main',
+      kind: 'children_exceed_parent',
+      power: 1000,
+      childrenPower: 1200,
+      excess: 150
+    })]);
+    expect(tree.unmeasured).toBe(0);
+  });
+
+  it('accepts small excesses within the absolute or relative tolerance', () => {
+    expect(buildMeterTree([meter('main', 1000), meter('heater', 1040, 'main')]).issues).toEqual([]);
+    expect(buildMeterTree([meter('main', 10000), meter('heater', 10400, 'main')]).issues).toEqual([]);
+    expect(buildMeterTree([meter('main', 10000), meter('heater', 10400, 'main')], { relativeTolerance: 0.01 }).issues)
+      .toHaveLength(1);
+  });
+
+  it('marks meters with missing readings as incomplete', () => {
+    const tree = buildMeterTree([
+      meter('main', undefined),
+      meter('heater', 700, 'main'),
+      meter('oven', undefined, 'main')
+    ]);
+
+    expect(tree.roots[0]).toMatchObject({ incomplete: true, childrenPower: 700 });
+    expect(tree.roots[0]!.unmeasured).toBeUndefined();
+    expect(tree.issues).toEqual([expect.objectContaining({ kind: 'missing_reading', missing: ['main', 'oven'] })]);
+  });
+
+  it('ignores unknown and own parents and does not loop on cycles', () => {
+    const tree = buildMeterTree([
+      meter('main', 1000, 'main'),
+      meter('plug', 100, 'main'),
+      meter('orphan', 50, 'gone'),
+      meter('a', 10, 'b'),
+      meter('b', 10, 'a')
+    ]);
+
+    expect(tree.roots.map(root => root.deviceId)).toEqual(['main']);
+    expect(tree.roots[0]!.children.map(child => child.deviceId)).toEqual(['plug']);
+  });
+});
+
+describe('createsParentCycle', () => {
+  const parents = new Map<string, string | undefined>([
+    ['plug', 'circuit'],
+    ['circuit', 'main'],
+    ['main', undefined],
+    ['x', 'y'],
+    ['y', 'x']
+  ]);
+
+  it('detects a device becoming its own ancestor', () => {
+    expect(createsParentCycle('main', 'plug', parents)).toBe(true);
+    expect(createsParentCycle('plug', 'plug', parents)).toBe(true);
+  });
+
+  it('allows parents outside the device subtree', () => {
+    expect(createsParentCycle('plug', 'main', parents)).toBe(false);
+    expect(createsParentCycle('other', 'x', parents)).toBe(false);
+  });
+});
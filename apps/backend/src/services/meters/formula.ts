@@ -0,0 +1,362 @@
+import { createError } from '@/utils/errors';
+
+/**
+ * Virtual Meter Formulas
+ *
+ * Arithmetic over the readings of other devices, e.g. `house - sum(type:smart_plug)`
+ * or `pv1 + pv2`. Supported are numbers, `+ - * /`, parentheses, unary minus,
+ * device references and the functions sum, avg, min, max and abs.
+ *
+ * Device IDs are written as they are when they consist of letters, digits,
+ * `_` and `.`; other IDs are quoted (`"a-b"`) or bracketed (`[a-b]`).
+ * Inside sum, avg, min and max, selectors stand for a group of devices:
+ * `type:<deviceType>`, `role:<energyRole>`, `room:<room>` and
+ * `children:<deviceId>` (sub-meters of a meter in the meter tree).
+ */
+
+export const SELECTOR_KINDS = ['type', 'role', 'room', 'children'] as const;
+export type SelectorKind = typeof SELECTOR_KINDS[number];
+
+export interface FormulaSelector {
+  by: SelectorKind;
+  value: string;
+}
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'device'; deviceId: string }
+  | { kind: 'group'; selector: FormulaSelector }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: FormulaFunction; args: FormulaNode[] };
+
+export type FormulaFunction = 'sum' | 'avg' | 'min' | 'max' | 'abs';
+
+/**
+ * Readings a formula is evaluated against
+ */
+export interface FormulaContext {
+  value(deviceId: string): number | undefined; // undefined: no fresh reading
+  members(selector: FormulaSelector): string[];
+}
+
+const FUNCTIONS: readonly FormulaFunction[] = ['sum', 'avg', 'min', 'max', 'abs'];
+const MAX_FORMULA_LENGTH = 1000;
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; quoted: boolean; position: number }
+  | { type: 'symbol'; value: string; position: number };
+
+/**
+ * Parse a formula; syntax errors are validation errors naming the position
+ */
+export function parseFormula(formula: string): FormulaNode {
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw createError.validation(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`);
+  }
+  return new FormulaParser(formula).parse();
+}
+
+/**
+ * Value of a parsed formula, or undefined when a referenced device has no
+ * reading. Devices of a selector without a reading are left out of the group.
+ */
+export function evaluateFormula(node: FormulaNode, context: FormulaContext): number | undefined {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'device':
+      return context.value(node.deviceId);
+    case 'group':
+      throw createError.validation(`Selector ${node.selector.by}:${node.selector.value} is only allowed inside sum, avg, min or max`);
+    case 'negate': {
+      const value = evaluateFormula(node.operand, context);
+      return value === undefined ? undefined : -value;
+    }
+    case 'binary': {
+      const left = evaluateFormula(node.left, context);
+      const right = evaluateFormula(node.right, context);
+      return left === undefined || right === undefined ? undefined : applyOperator(node.operator, left, right);
+    }
+    case 'call': {
+      const values: number[] = [];
+      for (const arg of node.args) {
+        if (arg.kind === 'group') {
+          for (const deviceId of context.members(arg.selector)) {
+            const value = context.value(deviceId);
+            if (value !== undefined) values.push(value);
+          }
+          continue;
+        }
+        const value = evaluateFormula(arg, context);
+        if (value === undefined) {
+          return undefined;
+        }
+        values.push(value);
+      }
+      return applyFunction(node.name, values);
+    }
+  }
+}
+
+/**
+ * Devices and selectors a formula reads
+ */
+export function formulaReferences(node: FormulaNode): { devices: string[]; selectors: FormulaSelector[] } {
+  const devices = new Set<string>();
+  const selectors: FormulaSelector[] = [];
+  const visit = (current: FormulaNode): void => {
+    switch (current.kind) {
+      case 'device':
+        devices.add(current.deviceId);
+        break;
+      case 'group':
+        if (!selectors.some(selector => selector.by === current.selector.by && selector.value === current.selector.value)) {
+          selectors.push(current.selector);
+        }
+        break;
+      case 'negate':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return { devices: [...devices], selectors };
+}
+
+// Helper functions
+
+function applyOperator(operator: '+' | '-' | '*' | '/', left: number, right: number): number | undefined {
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return right === 0 ? undefined : left / right;
+  }
+}
+
+function applyFunction(name: FormulaFunction, values: number[]): number | undefined {
+  switch (name) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+    case 'min':
+      return values.length > 0 ? Math.min(...values) : undefined;
+    case 'max':
+      return values.length > 0 ? Math.max(...values) : undefined;
+    case 'abs':
+      return values.length === 1 ? Math.abs(values[0]!) : undefined;
+  }
+}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < formula.length) {
+    const char = formula[position]!;
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if ('+-*/(),:'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position });
+      position++;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '[') {
+      const close = char === '[' ? ']' : char;
+      const end = formula.indexOf(close, position + 1);
+      if (end < 0) {
+        throw createError.validation(`Unterminated device reference at position ${position + 1}`);
+      }
+      const value = formula.slice(position + 1, end).trim();
+      if (!value) {
+        throw createError.validation(`Empty device reference at position ${position + 1}`);
+      }
+      tokens.push({ type: 'name', value, quoted: true, position });
+      position = end + 1;
+      continue;
+    }
+
+    const match = /^[A-Za-z0-9_.]+/.exec(formula.slice(position));
+    if (!match) {
+      throw createError.validation(`Unexpected character '${char}' at position ${position + 1}`);
+    }
+    const word = match[0];
+    if (/^(\d+(\.\d*)?|\.\d+)$/.test(word)) {
+      tokens.push({ type: 'number', value: Number(word), position });
+    } else {
+      tokens.push({ type: 'name', value: word, quoted: false, position });
+    }
+    position += word.length;
+  }
+
+  return tokens;
+}
+
+class FormulaParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly formula: string) {
+    this.tokens = tokenize(formula);
+  }
+
+  parse(): FormulaNode {
+    if (this.tokens.length === 0) {
+      throw createError.validation('Formula is empty');
+    }
+    const node = this.expression();
+    const rest = this.peek();
+    if (rest) {
+      throw this.unexpected(rest);
+    }
+    return node;
+  }
+
+  private expression(): FormulaNode {
+    let node = this.term();
+    for (let token = this.peek(); this.isSymbol(token, '+', '-'); token = this.peek()) {
+      this.index++;
+      node = { kind: 'binary', operator: token!.value as '+' | '-', left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  private term(): FormulaNode {
+    let node = this.unary();
+    for (let token = this.peek(); this.isSymbol(token, '*', '/'); token = this.peek()) {
+      this.index++;
+      node = { kind: 'binary', operator: token!.value as '*' | '/', left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): FormulaNode {
+    if (this.isSymbol(this.peek(), '-')) {
+      this.index++;
+      return { kind: 'negate', operand: this.unary() };
+    }
+    if (this.isSymbol(this.peek(), '+')) {
+      this.index++;
+      return this.unary();
+    }
+    return this.primary(false);
+  }
+
+  private primary(inCall: boolean): FormulaNode {
+    const token = this.next();
+    if (token.type === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'symbol') {
+      if (token.value !== '(') {
+        throw this.unexpected(token);
+      }
+      const node = this.expression();
+      this.expect(')');
+      return node;
+    }
+
+    const following = this.peek();
+    if (!token.quoted && this.isSymbol(following, '(')) {
+      const name = token.value.toLowerCase() as FormulaFunction;
+      if (!FUNCTIONS.includes(name)) {
+        throw createError.validation(`Unknown function '${token.value}' at position ${token.position + 1}`);
+      }
+      this.index++;
+      const args = this.arguments();
+      if (name === 'abs' && (args.length !== 1 || args[0]!.kind === 'group')) {
+        throw createError.validation(`abs takes a single expression at position ${token.position + 1}`);
+      }
+      return { kind: 'call', name, args };
+    }
+
+    if (!token.quoted && this.isSymbol(following, ':')) {
+      const by = token.value.toLowerCase() as SelectorKind;
+      if (!SELECTOR_KINDS.includes(by)) {
+        throw createError.validation(`Unknown selector '${token.value}' at position ${token.position + 1}`);
+      }
+      if (!inCall) {
+        throw createError.validation(`Selector ${by}: at position ${token.position + 1} is only allowed inside sum, avg, min or max`);
+      }
+      this.index++;
+      const value = this.next();
+      if (value.type === 'symbol') {
+        throw this.unexpected(value);
+      }
+      return { kind: 'group', selector: { by, value: String(value.value) } };
+    }
+
+    return { kind: 'device', deviceId: token.value };
+  }
+
+  private arguments(): FormulaNode[] {
+    const args: FormulaNode[] = [];
+    if (this.isSymbol(this.peek(), ')')) {
+      this.index++;
+      return args;
+    }
+
+    for (;;) {
+      args.push(this.argument());
+      const token = this.next();
+      if (token.type === 'symbol' && token.value === ')') {
+        return args;
+      }
+      if (token.type !== 'symbol' || token.value !== ',') {
+        throw this.unexpected(token);
+      }
+    }
+  }
+
+  private argument(): FormulaNode {
+    // A selector is an argument on its own; anything else is an expression
+    const token = this.peek();
+    const following = this.tokens[this.index + 1];
+    if (token?.type === 'name' && !token.quoted && this.isSymbol(following, ':')) {
+      return this.primary(true);
+    }
+    return this.expression();
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw createError.validation(`Formula '${this.formula}' ends unexpectedly`);
+    }
+    return token;
+  }
+
+  private expect(symbol: string): void {
+    const token = this.next();
+    if (token.type !== 'symbol' || token.value !== symbol) {
+      throw this.unexpected(token);
+    }
+  }
+
+  private isSymbol(token: Token | undefined, ...symbols: string[]): boolean {
+    return token?.type === 'symbol' && symbols.includes(token.value);
+  }
+
+  private unexpected(token: Token): Error {
+    return createError.validation(`Unexpected '${token.value}' at position ${token.position + 1}`);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Meter Tree
+ *
+ * Sub-metering hierarchy built from `parentMeterId` (main meter → sub-panels →
+ * circuits → plugs). Each meter's power is compared with the sum of its
+ * children: what the children do not explain is the unmeasured remainder of
+ * the meter, and children drawing more than the meter beyond the tolerance
+ * point at a misassigned device, a wrong sign or a faulty meter.
+ * Parents and children are compared as they report, so they should share a
+ * sign convention (both consumption or both production).
+ */
+
+export interface MeterTreeDevice {
+  deviceId: string;
+  name: string;
+  parentMeterId?: string | undefined;
+  virtual: boolean;
+  power?: number | undefined; // W, latest fresh reading
+}
+
+export interface MeterTreeNode {
+  deviceId: string;
+  name: string;
+  virtual: boolean;
+  power?: number | undefined; // W
+  childrenPower?: number | undefined; // W, sum of the children with a reading
+  unmeasured?: number | undefined; // W, power minus childrenPower
+  incomplete: boolean; // the meter or one of its children has no reading
+  children: MeterTreeNode[];
+}
+
+export interface MeterTreeIssue {
+  deviceId: string;
+  kind: 'children_exceed_parent' | 'missing_reading';
+  message: string;
+  power?: number | undefined;
+  childrenPower?: number | undefined;
+  excess?: number | undefined; // W above the parent, beyond the tolerance
+  missing?: string[] | undefined; // devices without a reading
+}
+
+export interface MeterTreeOptions {
+  tolerance?: number; // W, default: 50
+  relativeTolerance?: number; // fraction of the parent's power, default: 0.05
+}
+
+export interface MeterTree {
+  roots: MeterTreeNode[];
+  issues: MeterTreeIssue[];
+  unmeasured: number; // W, summed over the top-level meters
+}
+
+/**
+ * Build the meter tree and check each meter against its children. Devices
+ * without a parent or children are not part of the tree.
+ */
+export function buildMeterTree(devices: MeterTreeDevice[], options: MeterTreeOptions = {}): MeterTree {
+  const tolerance = options.tolerance ?? 50;
+  const relativeTolerance = options.relativeTolerance ?? 0.05;
+  const byId = new Map(devices.map(device => [device.deviceId, device]));
+  const children = new Map<string, MeterTreeDevice[]>();
+  for (const device of devices) {
+    if (device.parentMeterId && byId.has(device.parentMeterId) && device.parentMeterId !== device.deviceId) {
+      children.set(device.parentMeterId, [...(children.get(device.parentMeterId) ?? []), device]);
+    }
+  }
+
+  const issues: MeterTreeIssue[] = [];
+  const visited = new Set<string>();
+  const build = (device: MeterTreeDevice): MeterTreeNode => {
+    visited.add(device.deviceId);
+    const nodes = (children.get(device.deviceId) ?? [])
+      .filter(child => !visited.has(child.deviceId))
+      .map(build);
+
+    const node: MeterTreeNode = {
+      deviceId: device.deviceId,
+      name: device.name,
+      virtual: device.virtual,
+      power: device.power,
+      incomplete: false,
+      children: nodes
+    };
+    if (nodes.length === 0) {
+      return node;
+    }
+
+    const missing = [device, ...nodes].filter(entry => entry.power === undefined).map(entry => entry.deviceId);
+    const childrenPower = nodes.reduce((sum, child) => sum + (child.power ?? 0), 0);
+    node.childrenPower = childrenPower;
+    node.incomplete = missing.length > 0;
+    if (missing.length > 0) {
+      issues.push({
+        deviceId: device.deviceId,
+        kind: 'missing_reading',
+        message: `${missing.length} meter(s) under ${device.name} have no recent reading`,
+        missing
+      });
+    }
+    if (device.power === undefined) {
+      return node;
+    }
+
+    node.unmeasured = device.power - childrenPower;
+    const allowed = Math.max(tolerance, Math.abs(device.power) * relativeTolerance);
+    if (-node.unmeasured > allowed) {
+      issues.push({
+        deviceId: device.deviceId,
+        kind: 'children_exceed_parent',
+        message: `Sub-meters of ${device.name} measure ${Math.round(-node.unmeasured)} W more than the meter itself`,
+        power: device.power,
+        childrenPower,
+        excess: -node.unmeasured - allowed
+      });
+    }
+    return node;
+  };
+
+  const roots: MeterTreeNode[] = [];
+  for (const device of devices) {
+    const parent = device.parentMeterId ? byId.get(device.parentMeterId) : undefined;
+    if ((!parent || parent === device) && children.has(device.deviceId)) {
+      roots.push(build(device));
+    }
+  }
+
+  return {
+    roots,
+    issues,
+    unmeasured: roots.reduce((sum, root) => sum + Math.max(0, root.unmeasured ?? 0), 0)
+  };
+}
+
+/**
+ * Whether making `parentId` the parent of `deviceId` would close a cycle
+ */
+export function createsParentCycle(deviceId: string, parentId: string, parents: Map<string, string | undefined>): boolean {
+  const seen = new Set<string>();
+  for (let current: string | undefined = parentId; current; current = parents.get(current)) {
+    if (current === deviceId) {
+      return true;
+    }
+    if (seen.has(current)) {
+      return false;
+    }
+    seen.add(current);
+  }
+  return false;
+}
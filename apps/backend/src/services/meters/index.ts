@@ -0,0 +1,4 @@
+export * from './formula';
+export * from './hierarchy';
+export * from './meters';
+export * from './VirtualMeterService';
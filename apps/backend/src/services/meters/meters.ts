@@ -0,0 +1,264 @@
+import { DeviceType, EnergyRole } from '@maestro/shared/types';
+
+import { Device, IDeviceDocument } from '@/models/Device';
+import { MeasurementStore } from '@/services/measurements';
+import { createError } from '@/utils/errors';
+import { FormulaNode, FormulaSelector, formulaReferences, parseFormula } from './formula';
+import { MeterTree, MeterTreeOptions, buildMeterTree, createsParentCycle } from './hierarchy';
+
+/**
+ * Virtual Meter Definitions
+ *
+ * Virtual meters are stored as devices with the `virtual` protocol, the
+ * `energy_meter` type and the `monitor` energy role, so their measurements get
+ * the same history and statistics as physical devices. Formulas are checked
+ * when they are saved: referenced devices must exist and virtual meters must
+ * not depend on themselves, directly or through other virtual meters.
+ */
+
+export const VIRTUAL_PROTOCOL = 'virtual';
+
+/**
+ * The device fields formulas and the meter tree are resolved against
+ */
+export interface MeterDevice {
+  deviceId: string;
+  name: string;
+  protocol: string;
+  deviceType: DeviceType;
+  energyRole?: EnergyRole | undefined;
+  room?: string | undefined;
+  parentMeterId?: string | undefined;
+  virtualMeter?: { formula: string } | undefined;
+}
+
+export interface VirtualMeterInput {
+  deviceId: string;
+  name: string;
+  formula: string;
+  description?: string | undefined;
+  room?: string | undefined;
+  location?: string | undefined;
+  parentMeterId?: string | undefined;
+}
+
+export interface MeterChanges {
+  name?: string | undefined;
+  formula?: string | undefined; // virtual meters only
+  parentMeterId?: string | null | undefined; // null detaches the device from its parent
+}
+
+export interface MeterTreeQuery extends MeterTreeOptions {
+  staleAfter?: number; // milliseconds a reading counts as current, default: 600000
+  now?: Date;
+}
+
+const METER_FIELDS = {
+  deviceId: 1,
+  name: 1,
+  protocol: 1,
+  deviceType: 1,
+  energyRole: 1,
+  room: 1,
+  parentMeterId: 1,
+  virtualMeter: 1
+} as const;
+
+/**
+ * Devices of a user as seen by formulas and the meter tree
+ */
+export async function loadMeterDevices(userId: string): Promise<MeterDevice[]> {
+  return Device.find({ userId }, METER_FIELDS).lean<MeterDevice[]>();
+}
+
+/**
+ * Physical devices a selector stands for; virtual meters are never members,
+ * so groups cannot count a meter twice or depend on themselves
+ */
+export function selectorMembers(devices: MeterDevice[], selector: FormulaSelector): string[] {
+  const value = selector.value.toLowerCase();
+  return devices
+    .filter(device => device.protocol !== VIRTUAL_PROTOCOL)
+    .filter(device => {
+      switch (selector.by) {
+        case 'type':
+          return device.deviceType === value;
+        case 'role':
+          return (device.energyRole ?? 'consumer') === value;
+        case 'room':
+          return device.room?.toLowerCase() === value;
+        case 'children':
+          return device.parentMeterId === selector.value;
+      }
+    })
+    .map(device => device.deviceId);
+}
+
+/**
+ * Parse the formula of a virtual meter and check it against the user's devices
+ */
+export function validateVirtualFormula(deviceId: string, formula: string, devices: MeterDevice[]): FormulaNode {
+  const node = parseFormula(formula);
+  const byId = new Map(devices.map(device => [device.deviceId, device]));
+  const { devices: referenced, selectors } = formulaReferences(node);
+
+  const unknown = [
+    ...referenced.filter(id => !byId.has(id)),
+    ...selectors.filter(selector => selector.by === 'children' && !byId.has(selector.value)).map(selector => selector.value)
+  ];
+  if (unknown.length > 0) {
+    throw createError.validation(`Formula references unknown devices: ${unknown.join(', ')}`, { unknown });
+  }
+  if (referenced.length === 0 && selectors.length === 0) {
+    throw createError.validation('Formula does not reference any device');
+  }
+
+  // Follow references through other virtual meters back to this one
+  const formulas = new Map(devices
+    .filter(device => device.virtualMeter?.formula && device.deviceId !== deviceId)
+    .map(device => [device.deviceId, device.virtualMeter!.formula]));
+  const pending = [...referenced];
+  const seen = new Set<string>();
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === deviceId) {
+      throw createError.validation(`Formula of ${deviceId} depends on itself`);
+    }
+    if (seen.has(current)) continue;
+    seen.add(current);
+
+    const dependency = formulas.get(current);
+    if (dependency) {
+      try {
+        pending.push(...formulaReferences(parseFormula(dependency)).devices);
+      } catch {
+        // Stored formulas were valid when saved; a broken one has no dependencies to follow
+      }
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Store a new virtual meter
+ */
+export async function createVirtualMeter(userId: string, input: VirtualMeterInput): Promise<IDeviceDocument> {
+  const devices = await loadMeterDevices(userId);
+  if (devices.some(device => device.deviceId === input.deviceId)) {
+    throw createError.conflict(`Device with ID '${input.deviceId}' already exists in your account`);
+  }
+  const formula = input.formula.trim();
+  validateVirtualFormula(input.deviceId, formula, devices);
+  if (input.parentMeterId !== undefined) {
+    checkParent(input.deviceId, input.parentMeterId, devices);
+  }
+
+  return Device.create({
+    userId,
+    deviceId: input.deviceId,
+    protocol: VIRTUAL_PROTOCOL,
+    deviceType: 'energy_meter',
+    energyRole: 'monitor',
+    name: input.name,
+    description: input.description ?? '',
+    location: input.location ?? '',
+    room: input.room ?? '',
+    ...(input.parentMeterId !== undefined && { parentMeterId: input.parentMeterId }),
+    virtualMeter: { formula },
+    specifications: {
+      manufacturer: 'Maestro',
+      model: 'Virtual meter',
+      certifications: []
+    },
+    capabilities: [{ type: 'energy_meter', properties: { formula }, commands: [], readOnly: true }],
+    isOnline: true,
+    status: 'online',
+    lastSeenAt: new Date(),
+    currentState: {}
+  });
+}
+
+/**
+ * Rename a meter, change the formula of a virtual meter, or move a device in the meter tree
+ */
+export async function updateMeter(userId: string, deviceId: string, changes: MeterChanges): Promise<IDeviceDocument> {
+  const devices = await loadMeterDevices(userId);
+  const device = devices.find(entry => entry.deviceId === deviceId);
+  if (!device) {
+    throw createError.deviceNotFound(deviceId);
+  }
+
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, 1> = {};
+  if (changes.name !== undefined) {
+    set.name = changes.name;
+  }
+  if (changes.formula !== undefined) {
+    if (device.protocol !== VIRTUAL_PROTOCOL) {
+      throw createError.validation(`Device ${deviceId} is not a virtual meter`);
+    }
+    const formula = changes.formula.trim();
+    validateVirtualFormula(deviceId, formula, devices);
+    set['virtualMeter.formula'] = formula;
+    set['capabilities.0.properties.formula'] = formula;
+  }
+  if (changes.parentMeterId === null) {
+    unset.parentMeterId = 1;
+  } else if (changes.parentMeterId !== undefined) {
+    checkParent(deviceId, changes.parentMeterId, devices);
+    set.parentMeterId = changes.parentMeterId;
+  }
+
+  const updated = await Device.findOneAndUpdate(
+    { userId, deviceId },
+    {
+      ...(Object.keys(set).length > 0 && { $set: set }),
+      ...(Object.keys(unset).length > 0 && { $unset: unset })
+    },
+    { new: true, runValidators: true }
+  );
+  if (!updated) {
+    throw createError.deviceNotFound(deviceId);
+  }
+  return updated;
+}
+
+/**
+ * Meter tree of a user with the latest reading of each meter
+ */
+export async function getMeterTree(userId: string, store: MeasurementStore, query: MeterTreeQuery = {}): Promise<MeterTree> {
+  const now = (query.now ?? new Date()).getTime();
+  const staleAfter = query.staleAfter ?? 600000;
+  const devices = await loadMeterDevices(userId);
+  const inTree = new Set(devices.flatMap(device => device.parentMeterId ? [device.deviceId, device.parentMeterId] : []));
+
+  const entries = await Promise.all(devices.filter(device => inTree.has(device.deviceId)).map(async device => {
+    const latest = await store.latest(device.deviceId);
+    const fresh = latest && now - latest.timestamp.getTime() <= staleAfter;
+    return {
+      deviceId: device.deviceId,
+      name: device.name,
+      parentMeterId: device.parentMeterId,
+      virtual: device.protocol === VIRTUAL_PROTOCOL,
+      power: fresh ? latest.measurements.activePower : undefined
+    };
+  }));
+
+  return buildMeterTree(entries, query);
+}
+
+// Helper functions
+
+function checkParent(deviceId: string, parentMeterId: string, devices: MeterDevice[]): void {
+  if (parentMeterId === deviceId) {
+    throw createError.validation('A device cannot be its own parent meter');
+  }
+  if (!devices.some(device => device.deviceId === parentMeterId)) {
+    throw createError.validation(`Parent meter ${parentMeterId} does not exist`);
+  }
+  const parents = new Map(devices.map(device => [device.deviceId, device.parentMeterId]));
+  if (createsParentCycle(deviceId, parentMeterId, parents)) {
+    throw createError.validation(`${parentMeterId} is already measured behind ${deviceId}`);
+  }
+}
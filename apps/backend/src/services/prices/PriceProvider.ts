@@ -0,0 +1,70 @@
+/**
+ * Price Provider
+ *
+ * Source of dynamic (day-ahead) energy prices per bidding zone. Providers are
+ * fetched on a schedule by the price service; tests and local setups can pass
+ * any object implementing the interface.
+ */
+
+export type PriceFormat = 'entsoe' | 'nordpool' | 'json';
+
+/**
+ * Price of a bidding zone for one interval, per kWh before taxes
+ */
+export interface PricePoint {
+  zone: string;
+  start: Date;
+  end: Date;
+  price: number;
+  currency: string;
+}
+
+export interface PriceParseOptions {
+  zone?: string | undefined; // Zone of files that do not name one
+  currency?: string | undefined; // Default: from the file, else EUR
+  unit?: 'kWh' | 'MWh' | undefined; // Unit prices are quoted per, default: per format
+  scale?: number | undefined; // Extra factor, e.g. 0.01 for pence or cents
+  timeZone?: string | undefined; // For local times without offset, default: Europe/Oslo (CET)
+  resolution?: number | undefined; // Minutes per price when files only give starts, default: from the data
+}
+
+export interface PriceProvider {
+  readonly name: string;
+
+  /**
+   * Prices of a zone overlapping [start, end)
+   */
+  fetch(zone: string, start: Date, end: Date): Promise<PricePoint[]>;
+}
+
+/**
+ * EIC codes of common bidding zones, as used by ENTSO-E
+ */
+export const BIDDING_ZONES: Record<string, string> = {
+  'AT': '10YAT-APG------L',
+  'BE': '10YBE----------2',
+  'CH': '10YCH-SWISSGRIDZ',
+  'DE-LU': '10Y1001A1001A82H',
+  'DK1': '10YDK-1--------W',
+  'DK2': '10YDK-2--------M',
+  'EE': '10Y1001A1001A39I',
+  'ES': '10YES-REE------0',
+  'FI': '10YFI-1--------U',
+  'FR': '10YFR-RTE------C',
+  'NL': '10YNL----------L',
+  'NO1': '10YNO-1--------2',
+  'NO2': '10YNO-2--------T',
+  'PL': '10YPL-AREA-----S',
+  'PT': '10YPT-REN------W',
+  'SE3': '10Y1001A1001A46L',
+  'SE4': '10Y1001A1001A47J'
+};
+
+/**
+ * Zone name for an EIC code or zone name; unknown codes are kept as given
+ */
+export function normalizeZone(zone: string): string {
+  const trimmed = zone.trim();
+  const named = Object.entries(BIDDING_ZONES).find(([, eic]) => eic === trimmed);
+  return named ? named[0] : trimmed.toUpperCase();
+}
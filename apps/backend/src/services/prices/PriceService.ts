@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { EnergyPrice } from '@/models/EnergyPrice';
+import { User } from '@/models/User';
+import { UserPreferences } from '@/models/UserPreferences';
+import { TariffEngine } from '@/services/tariff-engine';
+import { createError } from '@/utils/errors';
+import { isValidTimeZone } from '@/utils/timezone';
+import { detectPriceFormat, parsePrices } from './parsers';
+import { PriceFormat, PriceParseOptions, PricePoint, PriceProvider, normalizeZone } from './PriceProvider';
+
+/**
+ * Energy Price Service
+ *
+ * Stores dynamic price series per bidding zone and serves them to tariff
+ * calculations. Prices arrive from file imports or from a provider fetched on
+ * a schedule; re-imports replace the points of the same zone and interval.
+ */
+
+export interface EnergyPriceServiceOptions {
+  zones?: string[]; // default: config.prices.zones
+  fetchInterval?: number; // milliseconds, default: config.prices.fetchInterval
+  horizonDays?: number; // UTC days fetched from today on, default: 2 (day-ahead)
+  tariffCacheTTL?: number; // milliseconds user tariffs are reused, default: 300000
+}
+
+export interface PriceImportResult {
+  zones: string[];
+  points: number;
+  upserted: number;
+  modified: number;
+  start?: Date | undefined;
+  end?: Date | undefined;
+}
+
+const DAY_MS = 86400000;
+
+// Spot prices loaded around an instant for user tariffs
+const TARIFF_PRICE_WINDOW = { before: DAY_MS, after: 2 * DAY_MS };
+
+interface CachedTariff {
+  tariff: TariffEngine | undefined;
+  expiresAt: number;
+  from: number; // loaded spot prices cover [from, to)
+  to: number;
+}
+
+export class EnergyPriceService extends EventEmitter {
+  private moduleLogger = createModuleLogger('EnergyPriceService');
+  private fetchTimer?: NodeJS.Timeout | undefined;
+  private fetching?: Promise<number> | undefined;
+  private lastFetchAt?: Date | undefined;
+  private lastError?: string | undefined;
+  private tariffs: Map<string, CachedTariff> = new Map();
+  private readonly options: Required<EnergyPriceServiceOptions>;
+
+  private stats = {
+    fetches: 0,
+    failedFetches: 0,
+    imported: 0
+  };
+
+  constructor(private provider?: PriceProvider, options: EnergyPriceServiceOptions = {}) {
+    super();
+    this.options = {
+      zones: (options.zones ?? config.prices.zones).map(normalizeZone),
+      fetchInterval: options.fetchInterval ?? config.prices.fetchInterval,
+      horizonDays: options.horizonDays ?? 2,
+      tariffCacheTTL: options.tariffCacheTTL ?? 300000
+    };
+  }
+
+  /**
+   * Start scheduled fetching when a provider and zones are configured
+   */
+  initialize(): void {
+    if (!this.provider || this.options.zones.length === 0) {
+      this.moduleLogger.info('Price fetching disabled', { provider: this.provider?.name, zones: this.options.zones });
+      return;
+    }
+
+    this.fetchAll().catch(() => undefined);
+    this.fetchTimer = setInterval(() => {
+      this.fetchAll().catch(() => undefined);
+    }, this.options.fetchInterval);
+
+    this.moduleLogger.info('Price fetching started', {
+      provider: this.provider.name,
+      zones: this.options.zones,
+      fetchInterval: this.options.fetchInterval
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.fetchTimer) {
+      clearInterval(this.fetchTimer);
+      this.fetchTimer = undefined;
+    }
+
+    await this.fetching?.catch(() => undefined);
+    this.moduleLogger.info('Price fetching stopped', this.stats);
+  }
+
+  /**
+   * Fetch today's and the coming days' prices of every configured zone
+   */
+  async fetchAll(now = new Date()): Promise<number> {
+    if (!this.provider) {
+      throw createError.serviceUnavailable('No price provider configured');
+    }
+    if (this.fetching) {
+      return this.fetching;
+    }
+
+    const provider = this.provider;
+    const start = new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS);
+    const end = new Date(start.getTime() + this.options.horizonDays * DAY_MS);
+
+    this.fetching = (async () => {
+      let imported = 0;
+      const errors: string[] = [];
+
+      for (const zone of this.options.zones) {
+        try {
+          const points = await provider.fetch(zone, start, end);
+          imported += (await this.importPoints(points, provider.name)).points;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push(`${zone}: ${message}`);
+          this.moduleLogger.warn('Price fetch failed', { provider: provider.name, zone, error: message });
+        }
+      }
+
+      this.stats.fetches++;
+      this.lastFetchAt = new Date();
+      this.lastError = errors.length > 0 ? errors.join('; ') : undefined;
+      if (errors.length > 0) {
+        this.stats.failedFetches++;
+      }
+      this.emit('pricesFetched', { imported, errors });
+      return imported;
+    })();
+
+    try {
+      return await this.fetching;
+    } finally {
+      this.fetching = undefined;
+    }
+  }
+
+  /**
+   * Store price points, replacing those of the same zone and interval
+   */
+  async importPoints(points: PricePoint[], source: string): Promise<PriceImportResult> {
+    const valid = points.filter(point =>
+      Number.isFinite(point.price) && point.end.getTime() > point.start.getTime()
+    );
+    if (valid.length === 0) {
+      return { zones: [], points: 0, upserted: 0, modified: 0 };
+    }
+
+    const importedAt = new Date();
+    const result = await EnergyPrice.bulkWrite(valid.map(point => ({
+      updateOne: {
+        filter: { zone: point.zone, start: point.start, end: point.end },
+        update: { $set: { price: point.price, currency: point.currency, source, importedAt } },
+        upsert: true
+      }
+    })), { ordered: false });
+
+    const zones = [...new Set(valid.map(point => point.zone))];
+    this.stats.imported += valid.length;
+    this.invalidateTariffs();
+    this.emit('pricesImported', { zones, points: valid.length, source });
+
+    return {
+      zones,
+      points: valid.length,
+      upserted: result.upsertedCount,
+      modified: result.modifiedCount,
+      start: new Date(Math.min(...valid.map(point => point.start.getTime()))),
+      end: new Date(Math.max(...valid.map(point => point.end.getTime())))
+    };
+  }
+
+  /**
+   * Import an ENTSO-E XML, Nord Pool-style CSV or JSON price file
+   */
+  async importFile(
+    filePath: string,
+    options: PriceParseOptions & { format?: PriceFormat | undefined } = {}
+  ): Promise<PriceImportResult> {
+    const format = options.format ?? detectPriceFormat(filePath);
+    if (!format) {
+      throw createError.validation(`Unknown price file format: ${filePath}`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf8');
+    const points = parsePrices(content, format, options);
+    const result = await this.importPoints(points, format);
+
+    this.moduleLogger.info('Imported price file', { filePath, format, ...result });
+    return result;
+  }
+
+  /**
+   * Prices of a zone overlapping [start, end), oldest first
+   */
+  async getPrices(zone: string, start: Date, end: Date): Promise<PricePoint[]> {
+    return EnergyPrice.find(
+      { zone: normalizeZone(zone), start: { $lt: end }, end: { $gt: start } },
+      { _id: 0, zone: 1, start: 1, end: 1, price: 1, currency: 1 }
+    )
+      .sort({ start: 1 })
+      .lean<PricePoint[]>();
+  }
+
+  /**
+   * Tariff of a user at an instant, with spot prices loaded for real_time tariffs
+   */
+  async getUserTariff(userId: string, at = new Date()): Promise<TariffEngine | undefined> {
+    const cached = this.tariffs.get(userId);
+    const time = at.getTime();
+    if (cached && cached.expiresAt > Date.now() && time >= cached.from && time < cached.to) {
+      return cached.tariff;
+    }
+
+    const [user, preferences] = await Promise.all([
+      User.findById(userId, { 'profile.timezone': 1 }).lean(),
+      UserPreferences.findOne({ userId }, { energy: 1 }).lean()
+    ]);
+    const timeZone = user?.profile?.timezone && isValidTimeZone(user.profile.timezone) ? user.profile.timezone : 'UTC';
+
+    let tariff: TariffEngine | undefined;
+    try {
+      tariff = TariffEngine.fromPreferences(preferences?.energy, timeZone);
+    } catch (error) {
+      this.moduleLogger.warn('Invalid tariff preferences, using the flat rate', {
+        userId,
+        error: error instanceof Error ? error.message : error
+      });
+      tariff = TariffEngine.flatRate(preferences?.energy, timeZone);
+    }
+
+    const from = time - TARIFF_PRICE_WINDOW.before;
+    const to = time + TARIFF_PRICE_WINDOW.after;
+    if (tariff?.isDynamic) {
+      tariff = tariff.withPrices(await this.getPrices(tariff.definition.priceZone!, new Date(from), new Date(to)));
+    }
+
+    this.tariffs.set(userId, { tariff, expiresAt: Date.now() + this.options.tariffCacheTTL, from, to });
+    return tariff;
+  }
+
+  /**
+   * Forget cached user tariffs, e.g. after a preference change
+   */
+  invalidateTariffs(userId?: string): void {
+    if (userId) {
+      this.tariffs.delete(userId);
+    } else {
+      this.tariffs.clear();
+    }
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.provider !== undefined && this.options.zones.length > 0 &&
+      (this.lastFetchAt === undefined || Date.now() - this.lastFetchAt.getTime() > this.options.fetchInterval * 3);
+
+    return {
+      status: this.lastError || overdue ? 'degraded' : 'healthy',
+      details: {
+        provider: this.provider?.name ?? 'none',
+        zones: this.options.zones,
+        lastFetchAt: this.lastFetchAt,
+        lastError: this.lastError,
+        cachedTariffs: this.tariffs.size,
+        ...this.stats
+      }
+    };
+  }
+}
+
+/**
+ * CLI entry point: import <file> [zone] [currency] [kWh|MWh], or fetch [zone,...]
+ */
+export async function runPriceCommand(
+  command: string,
+  args: string[] = [],
+  provider?: PriceProvider
+): Promise<void> {
+  if (!mongoose.connection.readyState) {
+    throw createError.database('Database not connected');
+  }
+
+  switch (command) {
+    case 'import': {
+      const [filePath, zone, currency, unit] = args;
+      if (!filePath) {
+        throw new Error('Import requires a price file (.xml, .csv or .json)');
+      }
+      if (unit !== undefined && unit !== 'kWh' && unit !== 'MWh') {
+        throw new Error('Unit must be kWh or MWh (the unit prices are quoted per)');
+      }
+      const result = await new EnergyPriceService().importFile(filePath, { zone, currency, unit });
+      console.log(`Imported ${result.points} prices for ${result.zones.join(', ') || 'no zones'} from ${filePath}`);
+      break;
+    }
+
+    case 'fetch': {
+      if (!provider) {
+        throw new Error('Fetch requires PRICE_PROVIDER to be set');
+      }
+      const zones = args[0] ? args[0].split(',') : config.prices.zones;
+      const imported = await new EnergyPriceService(provider, { zones }).fetchAll();
+      console.log(`Fetched ${imported} prices for ${zones.join(', ')} from ${provider.name}`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown price command: ${command}`);
+  }
+}
+
+export default EnergyPriceService;
@@ -0,0 +1,237 @@
+/**
+ * Price File Parser Tests
+ *
+ * ENTSO-E day-ahead XML, Nord Pool-style CSV exports and the JSON layouts of
+ * Tibber and Octopus, and the import of price files by format. Imported
+ * points go to a mocked EnergyPrice model.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { EnergyPrice } from '@/models/EnergyPrice';
+import { parseEntsoeXml, parseNordPoolCsv, parsePriceJson } from '../parsers';
+import { PricePoint } from '../PriceProvider';
+import { EnergyPriceService } from '../PriceService';
+
+jest.mock('@/models/EnergyPrice', () => ({
+  ...jest.requireActual('@/models/EnergyPrice'),
+  EnergyPrice: {
+    bulkWrite: jest.fn(async (operations: unknown[]) => ({ upsertedCount: operations.length, modifiedCount: 0 }))
+  }
+}));
+
+// Zone, start and price per kWh, rounded against floating-point noise
+function summary(points: PricePoint[]): Array<[string, string, number]> {
+  return points.map(point => [point.zone, point.start.toISOString(), Math.round(point.price * 1e6) / 1e6]);
+}
+
+function entsoe(curveType: string, unit = 'MWH'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Publication_MarketDocument xmlns="urn:iec62325.351:tc57wg16:451-3:publicationdocument:7:3">
+  <TimeSeries>
+    <in_Domain.mRID codingScheme="A01">10YNL----------L</in_Domain.mRID>
+    <currency_Unit.name>EUR</currency_Unit.name>
+    <price_Measure_Unit.name>${unit}</price_Measure_Unit.name>
+    <curveType>${curveType}</curveType>
+    <Period>
+      <timeInterval>
+        <start>2026-03-01T23:00Z</start>
+        <end>2026-03-02T03:00Z</end>
+      </timeInterval>
+      <resolution>PT60M</resolution>
+      <Point><position>1</position><price.amount>100</price.amount></Point>
+      <Point><position>3</position><price.amount>80</price.amount></Point>
+    </Period>
+  </TimeSeries>
+</Publication_MarketDocument>`;
+}
+
+describe('parseEntsoeXml', () => {
+  it('repeats the previous price for positions left out of A03 curves', () => {
+    const points = parseEntsoeXml(entsoe('A03'));
+
+    expect(summary(points)).toEqual([
+      ['NL', '2026-03-01T23:00:00.000Z', 0.1],
+      ['NL', '2026-03-02T00:00:00.000Z', 0.1],
+      ['NL', '2026-03-02T01:00:00.000Z', 0.08],
+      ['NL', '2026-03-02T02:00:00.000Z', 0.08]
+    ]);
+    expect(points[3]).toMatchObject({ end: new Date('2026-03-02T03:00:00Z'), currency: 'EUR' });
+  });
+
+  it('leaves out missing positions of other curves', () => {
+    expect(summary(parseEntsoeXml(entsoe('A01'))).map(([, start]) => start)).toEqual([
+      '2026-03-01T23:00:00.000Z',
+      '2026-03-02T01:00:00.000Z'
+    ]);
+  });
+
+  it('reads the unit of the series unless one is given', () => {
+    expect(parseEntsoeXml(entsoe('A01', 'KWH'))[0]!.price).toBe(100);
+    expect(parseEntsoeXml(entsoe('A01', 'KWH'), { unit: 'MWh' })[0]!.price).toBe(0.1);
+  });
+
+  it('treats an acknowledgement without matching data as no prices', () => {
+    const acknowledgement = (text: string) => `<Acknowledgement_MarketDocument>
+      <Reason><code>999</code><text>${text}</text></Reason>
+    </Acknowledgement_MarketDocument>`;
+
+    expect(parseEntsoeXml(acknowledgement('No matching data found for Data item Day-ahead Prices'))).toEqual([]);
+    expect(() => parseEntsoeXml(acknowledgement('Invalid security token'))).toThrow('ENTSO-E request rejected: Invalid security token');
+  });
+});
+
+describe('parseNordPoolCsv', () => {
+  it('reads separators, decimal commas and hour ranges in local time, across the DST change', () => {
+    // 29 March 2026: clocks in Amsterdam go from 02:00 to 03:00
+    const csv = [
+      'Date;Hours;NL (EUR);DE-LU (EUR)',
+      '29-03-2026;00 - 01;85,50;90,10',
+      '29-03-2026;01 - 03;80,00;82,00',
+      '29-03-2026;03 - 04;75,25;'
+    ].join('\r\n');
+
+    const points = parseNordPoolCsv(csv, { timeZone: 'Europe/Amsterdam' });
+
+    expect(summary(points)).toEqual([
+      ['DE-LU', '2026-03-28T23:00:00.000Z', 0.0901],
+      ['DE-LU', '2026-03-29T00:00:00.000Z', 0.082],
+      ['NL', '2026-03-28T23:00:00.000Z', 0.0855],
+      ['NL', '2026-03-29T00:00:00.000Z', 0.08],
+      ['NL', '2026-03-29T01:00:00.000Z', 0.07525]
+    ]);
+    expect(points.every(point => point.end.getTime() - point.start.getTime() === 3600000)).toBe(true);
+  });
+
+  it('reads local times in Central European Time by default', () => {
+    const points = parseNordPoolCsv('Date,NO1 (NOK)\n2026-01-15 08:00,950\n2026-01-15 09:00,1000');
+
+    expect(summary(points)).toEqual([
+      ['NO1', '2026-01-15T07:00:00.000Z', 0.95],
+      ['NO1', '2026-01-15T08:00:00.000Z', 1]
+    ]);
+    expect(points[0]!.currency).toBe('NOK');
+  });
+
+  it('takes the unit from the header unless one is given', () => {
+    const csv = [
+      'Start,End,NL (EUR/kWh)',
+      '2026-03-02T00:00:00Z,2026-03-02T00:15:00Z,0.25',
+      '2026-03-02T00:15:00Z,2026-03-02T00:30:00Z,"0,30"'
+    ].join('\n');
+
+    expect(summary(parseNordPoolCsv(csv))).toEqual([
+      ['NL', '2026-03-02T00:00:00.000Z', 0.25],
+      ['NL', '2026-03-02T00:15:00.000Z', 0.3]
+    ]);
+    expect(parseNordPoolCsv(csv)[1]!.end).toEqual(new Date('2026-03-02T00:30:00Z'));
+    expect(parseNordPoolCsv(csv, { unit: 'MWh' })[0]!.price).toBe(0.00025);
+  });
+
+  it('names a single price column after the given zone', () => {
+    expect(parseNordPoolCsv('Delivery start;Price\n2026-03-02T00:00:00Z;120', { zone: 'be' })[0]).toMatchObject({
+      zone: 'BE',
+      price: 0.12,
+      currency: 'EUR'
+    });
+  });
+
+  it('rejects files without a start or price column', () => {
+    expect(() => parseNordPoolCsv('Zone;Price\nNL;100')).toThrow('no start or date column');
+    expect(() => parseNordPoolCsv('Date\n2026-03-02')).toThrow('no price column');
+  });
+});
+
+describe('parsePriceJson', () => {
+  it('reads the today and tomorrow lists of Tibber', () => {
+    const entry = (startsAt: string, energy: number) => ({ total: energy * 1.25, energy, tax: energy * 0.25, startsAt, currency: 'SEK' });
+    const json = JSON.stringify({
+      current: entry('2026-03-02T01:00:00.000+01:00', 0.9),
+      today: [
+        entry('2026-03-02T00:00:00.000+01:00', 1),
+        entry('2026-03-02T01:00:00.000+01:00', 0.9),
+        entry('2026-03-02T02:00:00.000+01:00', 0.8)
+      ],
+      tomorrow: [entry('2026-03-03T00:00:00.000+01:00', 1.1)]
+    });
+
+    const points = parsePriceJson(json, { zone: 'SE3' });
+
+    expect(summary(points)).toEqual([
+      ['SE3', '2026-03-01T23:00:00.000Z', 1],
+      ['SE3', '2026-03-02T00:00:00.000Z', 0.9],
+      ['SE3', '2026-03-02T01:00:00.000Z', 0.8],
+      ['SE3', '2026-03-02T23:00:00.000Z', 1.1]
+    ]);
+    expect(points[3]).toMatchObject({ end: new Date('2026-03-03T00:00:00Z'), currency: 'SEK' });
+  });
+
+  it('reads the results of Octopus Agile, newest first, in pence', () => {
+    const json = JSON.stringify({
+      count: 2,
+      results: [
+        { value_exc_vat: 21, value_inc_vat: 22.05, valid_from: '2026-03-02T00:30:00Z', valid_to: '2026-03-02T01:00:00Z' },
+        { value_exc_vat: 20.5, value_inc_vat: 21.525, valid_from: '2026-03-02T00:00:00Z', valid_to: '2026-03-02T00:30:00Z' }
+      ]
+    });
+
+    const points = parsePriceJson(json, { zone: 'GB', currency: 'GBP', scale: 0.01 });
+
+    expect(summary(points)).toEqual([
+      ['GB', '2026-03-02T00:00:00.000Z', 0.205],
+      ['GB', '2026-03-02T00:30:00.000Z', 0.21]
+    ]);
+    expect(points[0]).toMatchObject({ end: new Date('2026-03-02T00:30:00Z'), currency: 'GBP' });
+  });
+
+  it('takes the zone from the document and rejects documents without one', () => {
+    expect(parsePriceJson('{"zone":"nl","prices":[{"start":"2026-03-02T00:00:00Z","price":0.3}]}')[0]!.zone).toBe('NL');
+    expect(() => parsePriceJson('[{"start":"2026-03-02T00:00:00Z","price":0.3}]')).toThrow('Price JSON without zone');
+    expect(() => parsePriceJson('{prices:')).toThrow('Invalid price JSON');
+  });
+});
+
+describe('EnergyPriceService.importFile', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'prices-'));
+    await fs.writeFile(path.join(directory, 'day-ahead.xml'), entsoe('A03'));
+    await fs.writeFile(path.join(directory, 'export.CSV'), 'Date;NL (EUR)\n2026-03-02 00:00;100\n2026-03-02 01:00;90');
+    await fs.writeFile(path.join(directory, 'feed.json'), '{"zone":"NL","prices":[{"start":"2026-03-02T00:00:00Z","price":0.3}]}');
+    await fs.writeFile(path.join(directory, 'feed.dat'), '{"zone":"NL","prices":[{"start":"2026-03-02T00:00:00Z","price":0.3}]}');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.mocked(EnergyPrice.bulkWrite).mockClear();
+  });
+
+  it('picks the parser by file extension', async () => {
+    const service = new EnergyPriceService();
+
+    expect(await service.importFile(path.join(directory, 'day-ahead.xml'))).toMatchObject({ zones: ['NL'], points: 4, upserted: 4 });
+    expect(await service.importFile(path.join(directory, 'export.CSV'), { timeZone: 'UTC' })).toMatchObject({
+      zones: ['NL'],
+      points: 2,
+      start: new Date('2026-03-02T00:00:00Z'),
+      end: new Date('2026-03-02T02:00:00Z')
+    });
+    expect(await service.importFile(path.join(directory, 'feed.json'))).toMatchObject({ points: 1 });
+
+    const sources = jest.mocked(EnergyPrice.bulkWrite).mock.calls.map(([operations]) => (operations[0] as any).updateOne.update.$set.source);
+    expect(sources).toEqual(['entsoe', 'nordpool', 'json']);
+  });
+
+  it('needs a format for other extensions', async () => {
+    const service = new EnergyPriceService();
+
+    await expect(service.importFile(path.join(directory, 'feed.dat'))).rejects.toThrow('Unknown price file format');
+    expect(await service.importFile(path.join(directory, 'feed.dat'), { format: 'json' })).toMatchObject({ points: 1 });
+  });
+});
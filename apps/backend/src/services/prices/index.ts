@@ -0,0 +1,25 @@
+import { config } from '@/config/environment';
+import { EntsoePriceProvider, FilePriceProvider } from './providers';
+import { PriceProvider } from './PriceProvider';
+
+export * from './PriceProvider';
+export * from './parsers';
+export * from './providers';
+export * from './PriceService';
+
+/**
+ * Provider selected by PRICE_PROVIDER, or undefined when prices are only imported by hand
+ */
+export function createPriceProvider(settings: typeof config.prices = config.prices): PriceProvider | undefined {
+  switch (settings.provider) {
+    case 'entsoe':
+      if (!settings.entsoe.token) {
+        throw new Error('ENTSOE_API_TOKEN is required for the entsoe price provider');
+      }
+      return new EntsoePriceProvider({ url: settings.entsoe.url, token: settings.entsoe.token });
+    case 'file':
+      return new FilePriceProvider(settings.importDir);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,288 @@
+import { createError } from '@/utils/errors';
+import {
+  firstNumber,
+  inferResolution,
+  parseLocalDate,
+  parseNumber,
+  parseOptionalDate,
+  splitCsvLine
+} from '@/utils/series-import';
+import { isValidTimeZone } from '@/utils/timezone';
+import { PriceFormat, PriceParseOptions, PricePoint, normalizeZone } from './PriceProvider';
+
+/**
+ * Price File Parsers
+ *
+ * Turn ENTSO-E day-ahead XML, Nord Pool-style CSV exports and generic JSON
+ * (Tibber, Octopus Agile, own feeds) into price points per kWh.
+ */
+
+const DEFAULT_CSV_TIME_ZONE = 'Europe/Oslo';
+const MINUTE_MS = 60000;
+
+/**
+ * Parse a price file in the given format
+ */
+export function parsePrices(content: string, format: PriceFormat, options: PriceParseOptions = {}): PricePoint[] {
+  switch (format) {
+    case 'entsoe':
+      return parseEntsoeXml(content, options);
+    case 'nordpool':
+      return parseNordPoolCsv(content, options);
+    case 'json':
+      return parsePriceJson(content, options);
+  }
+}
+
+/**
+ * Format of a price file by extension
+ */
+export function detectPriceFormat(fileName: string): PriceFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'xml':
+      return 'entsoe';
+    case 'csv':
+    case 'txt':
+      return 'nordpool';
+    case 'json':
+      return 'json';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * ENTSO-E Publication_MarketDocument (A44 day-ahead prices). Positions left
+ * out of A03 curves repeat the previous price.
+ */
+export function parseEntsoeXml(xml: string, options: PriceParseOptions = {}): PricePoint[] {
+  if (xml.includes('Acknowledgement_MarketDocument')) {
+    const reason = tagText(xml, 'text') ?? 'unknown reason';
+    if (/no matching data/i.test(reason)) {
+      return [];
+    }
+    throw createError.validation(`ENTSO-E request rejected: ${reason}`);
+  }
+
+  const points: PricePoint[] = [];
+  for (const series of tagBlocks(xml, 'TimeSeries')) {
+    const domain = tagText(series, 'in_Domain.mRID') ?? options.zone;
+    if (!domain) {
+      throw createError.validation('ENTSO-E time series without bidding zone');
+    }
+
+    const zone = normalizeZone(options.zone ?? domain);
+    const currency = options.currency ?? tagText(series, 'currency_Unit.name') ?? 'EUR';
+    const unit = options.unit ?? parseUnit(tagText(series, 'price_Measure_Unit.name')) ?? 'MWh';
+    const factor = unitFactor(unit) * (options.scale ?? 1);
+    const repeats = tagText(series, 'curveType') === 'A03';
+
+    for (const period of tagBlocks(series, 'Period')) {
+      const start = parseDate(tagText(period, 'start'), 'ENTSO-E period start');
+      const end = parseDate(tagText(period, 'end'), 'ENTSO-E period end');
+      const resolution = parseResolution(tagText(period, 'resolution'));
+
+      const prices = new Map<number, number>();
+      for (const point of tagBlocks(period, 'Point')) {
+        const position = Number(tagText(point, 'position'));
+        const amount = Number(tagText(point, 'price.amount'));
+        if (Number.isInteger(position) && Number.isFinite(amount)) {
+          prices.set(position, amount);
+        }
+      }
+
+      const count = Math.round((end.getTime() - start.getTime()) / resolution);
+      let previous: number | undefined;
+      for (let position = 1; position <= count; position++) {
+        const amount = prices.get(position) ?? (repeats ? previous : undefined);
+        if (amount === undefined) continue;
+        previous = amount;
+
+        const pointStart = start.getTime() + (position - 1) * resolution;
+        points.push({
+          zone,
+          start: new Date(pointStart),
+          end: new Date(pointStart + resolution),
+          price: amount * factor,
+          currency
+        });
+      }
+    }
+  }
+
+  return sortPoints(points);
+}
+
+/**
+ * Nord Pool-style CSV: a start column (ISO or local date and time), an optional
+ * end or hour-range column, and one price column per zone ("NL (EUR)"). Prices
+ * are per MWh unless the header names the unit ("NL (EUR/kWh)"). Separators
+ * `;`, `,` and tab and decimal commas are accepted.
+ */
+export function parseNordPoolCsv(csv: string, options: PriceParseOptions = {}): PricePoint[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const separator = [';', '\t', ','].find(candidate => lines[0]!.includes(candidate)) ?? ',';
+  const header = splitCsvLine(lines[0]!, separator);
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : DEFAULT_CSV_TIME_ZONE;
+
+  const startColumn = header.findIndex(name => /start|^from$|^date|^time|^delivery/i.test(name));
+  const endColumn = header.findIndex((name, index) => index !== startColumn && /end|^to$|^till$/i.test(name));
+  const hoursColumn = header.findIndex(name => /^hours?$/i.test(name));
+  if (startColumn < 0) {
+    throw createError.validation('Price CSV has no start or date column');
+  }
+
+  const priceColumns = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ index }) => index !== startColumn && index !== endColumn && index !== hoursColumn);
+  if (priceColumns.length === 0) {
+    throw createError.validation('Price CSV has no price column');
+  }
+
+  const rows: Array<{ start: Date; end?: Date | undefined; cells: string[] }> = [];
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, separator);
+    const date = cells[startColumn] ?? '';
+    const hours = hoursColumn >= 0 ? cells[hoursColumn] : undefined;
+    const start = parseLocalDate(hours ? `${date} ${hours.split('-')[0]!.trim()}` : date, timeZone);
+    if (!start) continue;
+
+    const end = endColumn >= 0 ? parseLocalDate(cells[endColumn] ?? '', timeZone) : undefined;
+    rows.push({ start, end, cells });
+  }
+
+  const resolution = (options.resolution ?? 0) * MINUTE_MS || inferResolution(rows.map(row => row.start));
+  const points: PricePoint[] = [];
+  for (const { name, index } of priceColumns) {
+    const label = /^(.*?)\s*\(([A-Za-z]{3})(?:\/([A-Za-z]+))?\)\s*$/.exec(name);
+    const zone = normalizeZone(priceColumns.length === 1 && options.zone ? options.zone : label?.[1] || name);
+    const currency = options.currency ?? label?.[2]?.toUpperCase() ?? 'EUR';
+    const factor = unitFactor(options.unit ?? parseUnit(label?.[3]) ?? 'MWh') * (options.scale ?? 1);
+
+    for (const row of rows) {
+      const amount = parseNumber(row.cells[index]);
+      if (amount === undefined) continue;
+
+      points.push({
+        zone,
+        start: row.start,
+        end: row.end ?? new Date(row.start.getTime() + resolution),
+        price: amount * factor,
+        currency
+      });
+    }
+  }
+
+  return sortPoints(points);
+}
+
+/**
+ * Generic JSON: an array of prices, or an object holding one under `prices`,
+ * `data`, `results` (Octopus) or `today`/`tomorrow` (Tibber priceInfo).
+ * Each entry needs a start (`start`, `startsAt`, `valid_from`, `from`, `time`,
+ * `timestamp`) and a price (`price`, `value`, `value_exc_vat`, `energy`,
+ * `marketPrice`, `total`); the end is optional.
+ */
+export function parsePriceJson(json: string, options: PriceParseOptions = {}): PricePoint[] {
+  let document: any;
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    throw createError.validation(`Invalid price JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const entries: any[] = Array.isArray(document)
+    ? document
+    : [
+        ...(document.prices ?? document.data ?? document.results ?? []),
+        ...(document.today ?? []),
+        ...(document.tomorrow ?? [])
+      ];
+
+  const zone = options.zone ?? document.zone ?? document.area;
+  if (!zone) {
+    throw createError.validation('Price JSON without zone; pass one with the import');
+  }
+
+  const factor = unitFactor(options.unit ?? 'kWh') * (options.scale ?? 1);
+  const starts = entries.map(entry => parseOptionalDate(
+    entry.start ?? entry.startsAt ?? entry.valid_from ?? entry.from ?? entry.time ?? entry.timestamp
+  ));
+  const resolution = (options.resolution ?? 0) * MINUTE_MS ||
+    inferResolution(starts.filter((start): start is Date => start !== undefined));
+
+  const points: PricePoint[] = [];
+  entries.forEach((entry, index) => {
+    const start = starts[index];
+    const amount = firstNumber(entry.price, entry.value, entry.value_exc_vat, entry.energy, entry.marketPrice, entry.total);
+    if (!start || amount === undefined) return;
+
+    const end = parseOptionalDate(entry.end ?? entry.endsAt ?? entry.valid_to ?? entry.to ?? entry.till);
+    points.push({
+      zone: normalizeZone(zone),
+      start,
+      end: end ?? new Date(start.getTime() + resolution),
+      price: amount * factor,
+      currency: options.currency ?? entry.currency ?? document.currency ?? 'EUR'
+    });
+  });
+
+  return sortPoints(points);
+}
+
+// Helper functions
+
+function tagBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => match[1]!);
+}
+
+function tagText(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([^<]*)</${escapeTag(tag)}>`).exec(xml);
+  return match ? match[1]!.trim() : undefined;
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/\./g, '\\.');
+}
+
+function parseResolution(value: string | undefined): number {
+  const match = /^PT(?:(\d+)H)?(?:(\d+)M)?$/.exec(value ?? '');
+  const minutes = match ? Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0) : 0;
+  if (minutes <= 0) {
+    throw createError.validation(`Unsupported ENTSO-E resolution: ${value}`);
+  }
+  return minutes * MINUTE_MS;
+}
+
+function parseDate(value: string | undefined, label: string): Date {
+  const date = parseOptionalDate(value);
+  if (!date) {
+    throw createError.validation(`Invalid ${label}: ${value}`);
+  }
+  return date;
+}
+
+function parseUnit(value: string | undefined): 'kWh' | 'MWh' | undefined {
+  switch (value?.toUpperCase()) {
+    case 'KWH':
+      return 'kWh';
+    case 'MWH':
+      return 'MWh';
+    default:
+      return undefined;
+  }
+}
+
+function unitFactor(unit: 'kWh' | 'MWh'): number {
+  return unit === 'MWh' ? 0.001 : 1;
+}
+
+function sortPoints(points: PricePoint[]): PricePoint[] {
+  return points.sort((a, b) => a.zone.localeCompare(b.zone) || a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+import { createError } from '@/utils/errors';
+import { detectPriceFormat, parseEntsoeXml, parsePrices } from './parsers';
+import { BIDDING_ZONES, PriceParseOptions, PricePoint, PriceProvider, normalizeZone } from './PriceProvider';
+
+export interface EntsoePriceProviderConfig {
+  url: string;
+  token: string;
+  timeout?: number; // milliseconds, default: 30000
+}
+
+/**
+ * Day-ahead prices from the ENTSO-E Transparency Platform (document type A44)
+ */
+export class EntsoePriceProvider implements PriceProvider {
+  readonly name = 'entsoe';
+  private readonly client: AxiosInstance;
+
+  constructor(private config: EntsoePriceProviderConfig) {
+    this.client = axios.create({
+      baseURL: config.url,
+      timeout: config.timeout ?? 30000,
+      responseType: 'text'
+    });
+  }
+
+  async fetch(zone: string, start: Date, end: Date): Promise<PricePoint[]> {
+    const domain = BIDDING_ZONES[normalizeZone(zone)] ?? zone;
+
+    try {
+      const response = await this.client.get<string>('', {
+        params: {
+          securityToken: this.config.token,
+          documentType: 'A44',
+          in_Domain: domain,
+          out_Domain: domain,
+          periodStart: entsoeTime(start),
+          periodEnd: entsoeTime(end)
+        }
+      });
+      return parseEntsoeXml(response.data, { zone });
+    } catch (error) {
+      const axiosError = error as AxiosError<string>;
+      // ENTSO-E answers "no data" with an acknowledgement document and a 400 status
+      if (typeof axiosError.response?.data === 'string' && axiosError.response.data.includes('Acknowledgement')) {
+        return parseEntsoeXml(axiosError.response.data, { zone });
+      }
+      if (!axiosError.isAxiosError) {
+        throw error;
+      }
+      throw createError.externalService('ENTSO-E', `ENTSO-E price request failed: ${axiosError.message}`, 502, {
+        status: axiosError.response?.status,
+        zone
+      });
+    }
+  }
+}
+
+/**
+ * Prices from files in a directory, named after the zone (NL.json, DE-LU.csv,
+ * SE3.xml); a local stand-in for a feed, or for prices exported by hand
+ */
+export class FilePriceProvider implements PriceProvider {
+  readonly name = 'file';
+
+  constructor(private directory: string, private options: PriceParseOptions = {}) {}
+
+  async fetch(zone: string, start: Date, end: Date): Promise<PricePoint[]> {
+    const name = normalizeZone(zone);
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      throw createError.externalService('PriceFiles', `Cannot read price directory ${this.directory}`, 502, {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
+    const points: PricePoint[] = [];
+    for (const file of files) {
+      const format = detectPriceFormat(file);
+      if (!format || path.parse(file).name.toUpperCase() !== name) continue;
+
+      const content = await fs.readFile(path.join(this.directory, file), 'utf8');
+      points.push(...parsePrices(content, format, { ...this.options, zone: name }));
+    }
+
+    return points.filter(point => point.end > start && point.start < end);
+  }
+}
+
+/**
+ * yyyyMMddHHmm in UTC
+ */
+function entsoeTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 12);
+}
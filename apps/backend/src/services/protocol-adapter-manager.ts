@@ -1,4 +1,6 @@
 import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { 
   BaseProtocolAdapter, 
   AdapterConfig,
@@ -6,11 +8,23 @@ import {
   AdapterEventData 
 } from '@maestro/protocol-adapters/base/adapter';
 import { TuyaAdapter, TuyaConfig } from '@maestro/protocol-adapters/tuya/adapter';
-import { ProtocolType, DeviceStatusUpdate, DeviceDiscovery } from '@maestro/shared/types';
+import { AdapterRegistry, AdapterPluginInfo } from '@maestro/protocol-adapters/base/registry';
+import { CircuitBreakerSnapshot, CircuitStateChange } from '@maestro/protocol-adapters/base/circuit-breaker';
+import { createAdapterRegistry } from '@maestro/protocol-adapters/base/builtin-plugins';
+import { ProtocolType, DeviceStatusUpdate, DeviceDiscovery, CommandPriority } from '@maestro/shared/types';
 import { config } from '@/config/environment';
 import logger, { createModuleLogger, deviceLogger } from '@/config/logger';
 import { createError } from '@/utils/errors';
 
+/**
+ * Queueing options for a device command
+ */
+export interface QueuedCommandOptions {
+  priority?: CommandPriority | undefined;
+  scheduledAt?: Date | undefined;
+  ttl?: number | undefined; // ms the command may wait for an offline device, default: DEVICE_COMMAND_TIMEOUT
+}
+
 /**
  * Protocol Adapter Manager
  * 
@@ -19,6 +33,7 @@ import { createError } from '@/utils/errors';
  */
 export class ProtocolAdapterManager extends EventEmitter {
   private adapters: Map<ProtocolType, BaseProtocolAdapter> = new Map();
+  private registry: AdapterRegistry = createAdapterRegistry();
   private isInitialized = false;
   private moduleLogger = createModuleLogger('ProtocolAdapterManager');
 
@@ -34,12 +49,19 @@ export class ProtocolAdapterManager extends EventEmitter {
     try {
       this.moduleLogger.info('Initializing protocol adapters...');
 
+      // Register third-party adapter plugins before any adapter is created
+      await this.loadConfiguredPlugins();
+
       // Initialize Tuya adapter
       await this.initializeTuyaAdapter();
 
-      // TODO: Initialize other adapters (Modbus, MQTT, etc.)
-      // await this.initializeModbusAdapter();
-      // await this.initializeMqttAdapter();
+      // Initialize adapters enabled in the adapter configuration file
+      await this.initializeConfiguredAdapters();
+
+      // Initialize the device simulator for demo environments
+      if (config.adapters.simulator.enabled) {
+        await this.initializeSimulatorAdapter();
+      }
 
       this.isInitialized = true;
       this.moduleLogger.info(`Protocol adapters initialized successfully (${this.adapters.size} adapters)`);
@@ -92,6 +114,13 @@ export class ProtocolAdapterManager extends EventEmitter {
     return Array.from(this.adapters.values());
   }
 
+  /**
+   * Get registered adapter plugins (built-in and loaded)
+   */
+  getAvailablePlugins(): AdapterPluginInfo[] {
+    return this.registry.list();
+  }
+
   /**
    * Get adapter status summary
    */
@@ -114,6 +143,20 @@ export class ProtocolAdapterManager extends EventEmitter {
     });
   }
 
+  /**
+   * Circuit breaker state per protocol: the adapter circuit and any device
+   * circuits that are open or failing
+   */
+  getCircuitBreakers(): Partial<Record<ProtocolType, { adapter: CircuitBreakerSnapshot; devices: CircuitBreakerSnapshot[] }>> {
+    const circuits: Partial<Record<ProtocolType, { adapter: CircuitBreakerSnapshot; devices: CircuitBreakerSnapshot[] }>> = {};
+
+    for (const [protocol, adapter] of this.adapters) {
+      circuits[protocol] = adapter.getCircuitBreakers();
+    }
+
+    return circuits;
+  }
+
   /**
    * Discover devices across all adapters or specific protocol
    */
@@ -154,13 +197,18 @@ export class ProtocolAdapterManager extends EventEmitter {
   }
 
   /**
-   * Send command to device via appropriate adapter
+   * Send command to device via the adapter's command queue
+   *
+   * Commands are serialized per device and ordered by priority. Without an
+   * explicit ttl a command for an unreachable device fails after the regular
+   * command timeout; callers that pass a ttl opt into offline buffering.
    */
   async sendDeviceCommand(
     protocol: ProtocolType, 
     deviceId: string, 
     command: string, 
-    parameters: Record<string, any> = {}
+    parameters: Record<string, any> = {},
+    options: QueuedCommandOptions = {}
   ): Promise<any> {
     try {
       const adapter = this.getAdapter(protocol);
@@ -168,12 +216,20 @@ export class ProtocolAdapterManager extends EventEmitter {
         throw createError.notFound(`No adapter found for protocol: ${protocol}`);
       }
 
-      if (!adapter.isConnected()) {
+      if (!adapter.isConnected() && options.ttl === undefined) {
         throw createError.serviceUnavailable(`Adapter for ${protocol} is not connected`);
       }
 
       const startTime = Date.now();
-      const result = await adapter.sendCommand(deviceId, { command, parameters });
+      const result = await adapter.queueCommand(deviceId, {
+        deviceId,
+        command,
+        parameters,
+        timestamp: new Date(),
+        priority: options.priority || 'normal',
+        ttl: options.ttl ?? config.devices.commandTimeout,
+        ...(options.scheduledAt ? { scheduledAt: options.scheduledAt } : {}),
+      });
       const duration = Date.now() - startTime;
 
       deviceLogger.command(deviceId, command, result.success, duration);
@@ -316,6 +372,113 @@ export class ProtocolAdapterManager extends EventEmitter {
     }
   }
 
+  /**
+   * Load adapter plugins listed in ADAPTER_PLUGINS
+   */
+  private async loadConfiguredPlugins(): Promise<void> {
+    for (const specifier of config.adapters.plugins) {
+      try {
+        const loaded = await this.registry.loadPlugin(specifier, { replace: true });
+        this.moduleLogger.info(`Adapter plugin ${specifier} loaded`, {
+          protocols: loaded.map(plugin => plugin.protocol),
+        });
+      } catch (error) {
+        this.moduleLogger.error(`Failed to load adapter plugin ${specifier}`, { error });
+      }
+    }
+  }
+
+  /**
+   * Create the enabled adapters from ADAPTER_CONFIG_PATH through the plugin registry
+   */
+  private async initializeConfiguredAdapters(): Promise<void> {
+    if (!config.adapters.configPath) {
+      return;
+    }
+
+    let adapterConfigs: Record<string, Partial<AdapterConfig>>;
+    try {
+      const file = await fs.readFile(path.resolve(process.cwd(), config.adapters.configPath), 'utf8');
+      adapterConfigs = JSON.parse(file);
+    } catch (error) {
+      this.moduleLogger.error('Failed to read adapter configuration', { path: config.adapters.configPath, error });
+      return;
+    }
+
+    for (const [protocol, adapterConfig] of Object.entries(adapterConfigs)) {
+      if (adapterConfig.enabled === false) {
+        continue;
+      }
+      if (this.adapters.has(protocol as ProtocolType)) {
+        this.moduleLogger.warn(`Adapter ${protocol} is already running, configuration entry ignored`);
+        continue;
+      }
+
+      try {
+        const adapter = await this.registry.create(protocol as ProtocolType, {
+          name: `${protocol} adapter`,
+          enabled: true,
+          connectionTimeout: 10000,
+          commandTimeout: config.devices.commandTimeout,
+          retryAttempts: config.devices.maxRetries,
+          retryDelay: 1000,
+          maxConcurrentCommands: 10,
+          ...adapterConfig,
+          protocol: protocol as ProtocolType,
+        });
+
+        this.setupAdapterEventHandlers(adapter);
+        await adapter.initialize();
+        this.adapters.set(adapter.getProtocol(), adapter);
+
+        this.moduleLogger.info(`Adapter ${protocol} initialized successfully`, {
+          plugin: this.registry.get(protocol as ProtocolType)?.name,
+        });
+      } catch (error) {
+        // One broken adapter must not keep the others from starting
+        this.moduleLogger.error(`Failed to initialize adapter ${protocol}`, { error });
+      }
+    }
+  }
+
+  /**
+   * Initialize the device simulator with the demo household
+   */
+  private async initializeSimulatorAdapter(): Promise<void> {
+    if (this.adapters.has('simulator')) {
+      this.moduleLogger.warn('Simulator adapter is already running from the adapter configuration');
+      return;
+    }
+
+    try {
+      const adapter = await this.registry.create('simulator', {
+        protocol: 'simulator',
+        name: 'Device Simulator',
+        enabled: true,
+        connectionTimeout: 1000,
+        commandTimeout: 1000,
+        retryAttempts: 0,
+        retryDelay: 0,
+        maxConcurrentCommands: 10,
+        options: {
+          seed: config.adapters.simulator.seed,
+          timeScale: config.adapters.simulator.timeScale,
+        },
+      });
+
+      this.setupAdapterEventHandlers(adapter);
+      await adapter.initialize();
+      this.adapters.set('simulator', adapter);
+
+      this.moduleLogger.info('Simulator adapter initialized successfully', {
+        seed: config.adapters.simulator.seed,
+        timeScale: config.adapters.simulator.timeScale,
+      });
+    } catch (error) {
+      this.moduleLogger.error('Failed to initialize simulator adapter', { error });
+    }
+  }
+
   /**
    * Setup event handlers for an adapter
    */
@@ -340,6 +503,10 @@ export class ProtocolAdapterManager extends EventEmitter {
       this.emit('deviceUpdate', update);
     });
 
+    adapter.on('circuitStateChange', (change: CircuitStateChange) => {
+      this.emit('circuitStateChange', protocol, change);
+    });
+
     adapter.on('error', (error: Error) => {
       this.moduleLogger.error(`Adapter ${protocol} error`, { error });
       this.emit('adapterError', protocol, error);
@@ -0,0 +1,427 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+
+import { EnergyReportFormat, EnergyReportType } from '@maestro/shared/types';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { Device } from '@/models/Device';
+import { EnergyReport, IEnergyReportDocument } from '@/models/EnergyReport';
+import { User } from '@/models/User';
+import { UserPreferences } from '@/models/UserPreferences';
+import { PaginationResult } from '@/services/database/BaseService';
+import { EmailService } from '@/services/email';
+import { EnergyRollupService } from '@/services/energy-rollup';
+import { createError } from '@/utils/errors';
+import { isValidTimeZone } from '@/utils/timezone';
+import { ReportRange, buildReportContent, previousReportPeriod, resolveReportPeriod } from './builder';
+import { renderReportCsv } from './csv';
+import {
+  RenderableReport,
+  formatCurrency,
+  formatDate,
+  formatEnergy,
+  formatReportPeriod,
+  reportTitle
+} from './format';
+import { renderReportPdf } from './pdf';
+
+/**
+ * Energy Report Service
+ *
+ * Builds reports from the energy rollups, stores them and renders them as
+ * JSON, CSV or PDF. Every interval it generates the scheduled reports of users
+ * with a daily, weekly or monthly `energyReportFrequency` for the last
+ * completed period, once the delay for late data has passed, and emails them
+ * to users with email notifications on.
+ */
+
+export interface EnergyReportOptions {
+  scheduleInterval?: number; // milliseconds between schedule runs, default: config.reports.scheduleInterval
+  delay?: number; // milliseconds after a period ends before its report is built, default: config.reports.delay
+}
+
+export interface ReportRequest extends ReportRange {
+  reportType: EnergyReportType;
+  format?: EnergyReportFormat | undefined; // preferred download format, default: json
+}
+
+export interface ReportListQuery {
+  page?: number | undefined;
+  limit?: number | undefined;
+  reportType?: EnergyReportType | undefined;
+}
+
+export interface RenderedReport {
+  content: Buffer | string;
+  contentType: string;
+  fileName: string;
+}
+
+export interface ScheduleRunResult {
+  generated: number;
+  emailed: number;
+  failed: number;
+}
+
+interface ReportUser {
+  userId: string;
+  timeZone: string;
+  currency: string;
+}
+
+type ScheduledFrequency = Extract<EnergyReportType, 'daily' | 'weekly' | 'monthly'>;
+
+const CONTENT_TYPES: Record<EnergyReportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+// Fields left out of report lists
+const LIST_PROJECTION = { series: 0, deviceBreakdown: 0, insights: 0 } as const;
+
+export class EnergyReportService extends EventEmitter {
+  private moduleLogger = createModuleLogger('EnergyReportService');
+  private scheduleTimer?: NodeJS.Timeout | undefined;
+  private scheduling?: Promise<ScheduleRunResult> | undefined;
+  private lastRunAt?: Date | undefined;
+  private readonly options: Required<EnergyReportOptions>;
+
+  private stats = {
+    generated: 0,
+    scheduled: 0,
+    emailed: 0,
+    failed: 0
+  };
+
+  constructor(
+    private rollup: EnergyRollupService,
+    private email?: EmailService,
+    options: EnergyReportOptions = {}
+  ) {
+    super();
+    this.options = {
+      scheduleInterval: options.scheduleInterval ?? config.reports.scheduleInterval,
+      delay: options.delay ?? config.reports.delay
+    };
+  }
+
+  /**
+   * Start generating scheduled reports
+   */
+  initialize(): void {
+    this.scheduleTimer = setInterval(() => {
+      void this.runSchedule();
+    }, this.options.scheduleInterval);
+
+    this.moduleLogger.info('Energy report schedule started', {
+      interval: this.options.scheduleInterval,
+      delay: this.options.delay,
+      email: this.email?.isConfigured ?? false
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = undefined;
+    }
+
+    await this.scheduling;
+    this.moduleLogger.info('Energy report schedule stopped', this.stats);
+  }
+
+  /**
+   * Build and store a report of a user
+   */
+  async generate(userId: string, request: ReportRequest, options: { scheduled?: boolean; now?: Date } = {}): Promise<IEnergyReportDocument> {
+    const now = options.now ?? new Date();
+    const user = await this.loadUser(userId);
+    const period = resolveReportPeriod(request.reportType, user.timeZone, request, now);
+    if (period.start >= now) {
+      throw createError.validation('Report period has not started yet');
+    }
+    const previous = previousReportPeriod(request.reportType, period, user.timeZone);
+
+    const devices = await Device.find(
+      { userId, energyRole: { $ne: 'monitor' } },
+      { deviceId: 1, name: 1 }
+    ).lean<Array<{ deviceId: string; name: string }>>();
+    const [totals, previousTotals, deviceStats] = await Promise.all([
+      this.rollup.getStats(userId, period.granularity, period.start, period.end),
+      this.rollup.getStats(userId, period.granularity, previous.start, previous.end),
+      devices.length > 0
+        ? this.rollup.getStats(userId, period.granularity, period.start, period.end, devices.map(device => device.deviceId))
+        : Promise.resolve([])
+    ]);
+
+    const content = buildReportContent({
+      period,
+      totals,
+      previousTotals,
+      devices,
+      deviceStats,
+      currency: user.currency,
+      timeZone: user.timeZone
+    });
+
+    const report = await EnergyReport.create({
+      userId,
+      reportType: request.reportType,
+      period: { start: period.start, end: period.end },
+      ...content,
+      currency: user.currency,
+      timeZone: user.timeZone,
+      scheduled: options.scheduled ?? false,
+      generatedAt: now,
+      format: request.format ?? 'json'
+    });
+
+    this.stats.generated++;
+    this.emit('reportGenerated', report);
+    this.moduleLogger.debug('Energy report generated', {
+      userId,
+      reportId: String(report._id),
+      reportType: report.reportType,
+      start: period.start,
+      end: period.end
+    });
+    return report;
+  }
+
+  /**
+   * Reports of a user, newest first, without their series, breakdown and insights
+   */
+  async list(userId: string, query: ReportListQuery = {}): Promise<PaginationResult<IEnergyReportDocument>> {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.max(1, Math.min(100, query.limit ?? 20));
+    const filter = { userId, ...(query.reportType && { reportType: query.reportType }) };
+
+    const [total, data] = await Promise.all([
+      EnergyReport.countDocuments(filter),
+      EnergyReport.find(filter, LIST_PROJECTION)
+        .sort({ generatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec()
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  async get(userId: string, reportId: string): Promise<IEnergyReportDocument> {
+    const report = mongoose.isValidObjectId(reportId)
+      ? await EnergyReport.findOne({ _id: reportId, userId })
+      : null;
+    if (!report) {
+      throw createError.notFound(`Report ${reportId} not found`);
+    }
+    return report;
+  }
+
+  async delete(userId: string, reportId: string): Promise<void> {
+    const result = mongoose.isValidObjectId(reportId)
+      ? await EnergyReport.deleteOne({ _id: reportId, userId })
+      : { deletedCount: 0 };
+    if (result.deletedCount === 0) {
+      throw createError.notFound(`Report ${reportId} not found`);
+    }
+  }
+
+  /**
+   * Render a report for download
+   */
+  async render(report: IEnergyReportDocument, format: EnergyReportFormat = report.format): Promise<RenderedReport> {
+    const data = report.toObject() as RenderableReport;
+    const fileName = `energy-report-${report.reportType}-${formatDate(report.period.start, report.timeZone)}.${format}`;
+
+    switch (format) {
+      case 'json':
+        return { content: JSON.stringify(data, null, 2), contentType: CONTENT_TYPES.json, fileName };
+      case 'csv':
+        return { content: renderReportCsv(data), contentType: CONTENT_TYPES.csv, fileName };
+      case 'pdf':
+        return { content: await renderReportPdf(data), contentType: CONTENT_TYPES.pdf, fileName };
+    }
+  }
+
+  /**
+   * Generate the scheduled reports that are due and email them; overlapping
+   * calls share the run in progress
+   */
+  async runSchedule(now = new Date()): Promise<ScheduleRunResult> {
+    if (!this.scheduling) {
+      this.scheduling = this.scheduleDue(now).finally(() => {
+        this.scheduling = undefined;
+      });
+    }
+    return this.scheduling;
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.lastRunAt !== undefined &&
+      Date.now() - this.lastRunAt.getTime() > this.options.scheduleInterval * 3;
+
+    return {
+      status: overdue ? 'degraded' : 'healthy',
+      details: {
+        lastRunAt: this.lastRunAt,
+        email: this.email?.isConfigured ?? false,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Scheduled reports of all users that are due; resolves with a failed run
+   * instead of rejecting, as callers share it
+   */
+  private async scheduleDue(now: Date): Promise<ScheduleRunResult> {
+    try {
+      const result: ScheduleRunResult = { generated: 0, emailed: 0, failed: 0 };
+      const users = await User.find(
+        {
+          isActive: true,
+          isSuspended: { $ne: true },
+          'settings.energy.energyReportFrequency': { $in: ['daily', 'weekly', 'monthly'] }
+        },
+        { email: 1, 'profile.timezone': 1, 'settings.emailNotifications': 1, 'settings.energy.energyReportFrequency': 1 }
+      ).lean();
+
+      for (const user of users) {
+        const userId = String(user._id);
+        const frequency = user.settings.energy.energyReportFrequency as ScheduledFrequency;
+        const email = Boolean(user.settings.emailNotifications && this.email?.isConfigured);
+        try {
+          const due = await this.generateScheduled(userId, frequency, user.profile?.timezone, email, now);
+          if (!due) continue;
+          if (due.created) {
+            result.generated++;
+          }
+
+          if (email) {
+            await this.sendReport(due.report, user.email);
+            result.emailed++;
+          }
+        } catch (error) {
+          result.failed++;
+          this.stats.failed++;
+          this.moduleLogger.warn('Scheduled energy report failed', {
+            userId,
+            frequency,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+
+      this.lastRunAt = now;
+      if (result.generated > 0 || result.emailed > 0 || result.failed > 0) {
+        this.moduleLogger.info('Scheduled energy reports generated', result);
+      }
+      return result;
+    } catch (error) {
+      this.stats.failed++;
+      this.moduleLogger.error('Energy report schedule failed', {
+        error: error instanceof Error ? error.message : error
+      });
+      return { generated: 0, emailed: 0, failed: 1 };
+    }
+  }
+
+  /**
+   * Report of the last period that ended at least `delay` ago; an existing
+   * report is only returned while it still has to be emailed
+   */
+  private async generateScheduled(
+    userId: string,
+    frequency: ScheduledFrequency,
+    timeZone: string | undefined,
+    email: boolean,
+    now: Date
+  ): Promise<{ report: IEnergyReportDocument; created: boolean } | undefined> {
+    const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+    const current = resolveReportPeriod(frequency, zone, {}, new Date(now.getTime() - this.options.delay));
+    const due = previousReportPeriod(frequency, current, zone);
+
+    const existing = await EnergyReport.findOne({ userId, reportType: frequency, scheduled: true, 'period.start': due.start });
+    if (existing) {
+      // Emailing failed in an earlier run
+      return email && !existing.emailedAt ? { report: existing, created: false } : undefined;
+    }
+
+    try {
+      const report = await this.generate(userId, { reportType: frequency, start: due.start, format: 'pdf' }, { scheduled: true, now });
+      this.stats.scheduled++;
+      return { report, created: true };
+    } catch (error) {
+      // Another instance generated it first, and emails it
+      if ((error as { code?: number }).code === 11000) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async sendReport(report: IEnergyReportDocument, to: string): Promise<void> {
+    const { summary, currency } = report;
+    const [pdf, csv] = await Promise.all([this.render(report, 'pdf'), this.render(report, 'csv')]);
+    const lines = [
+      `${reportTitle(report)} for ${formatReportPeriod(report)}`,
+      '',
+      `Consumption: ${formatEnergy(summary.totalConsumption)}`,
+      `Cost: ${formatCurrency(summary.totalCost, currency)}`,
+      ...(summary.totalProduction !== undefined ? [`Production: ${formatEnergy(summary.totalProduction)}`] : []),
+      `Carbon: ${summary.totalCarbon.toFixed(1)} kg CO2`,
+      ...(report.insights.length > 0 ? ['', 'Insights:', ...report.insights.map(insight => `- ${insight.title}`)] : []),
+      '',
+      'The full report is attached. You can change how often you receive it in your energy settings.'
+    ];
+
+    await this.email!.send({
+      to,
+      subject: `${reportTitle(report)}: ${formatReportPeriod(report)}`,
+      text: lines.join('\n'),
+      attachments: [
+        { filename: pdf.fileName, content: pdf.content, contentType: CONTENT_TYPES.pdf },
+        { filename: csv.fileName, content: csv.content, contentType: CONTENT_TYPES.csv }
+      ]
+    });
+
+    report.emailedAt = new Date();
+    await report.save();
+    this.stats.emailed++;
+  }
+
+  private async loadUser(userId: string): Promise<ReportUser> {
+    const [user, preferences] = await Promise.all([
+      User.findById(userId, { 'profile.timezone': 1 }).lean(),
+      UserPreferences.findOne({ userId }, { 'energy.currency': 1 }).lean()
+    ]);
+    if (!user) {
+      throw createError.notFound('User not found');
+    }
+
+    const timeZone = user.profile?.timezone && isValidTimeZone(user.profile.timezone) ? user.profile.timezone : 'UTC';
+    return {
+      userId,
+      timeZone,
+      currency: preferences?.energy?.currency || 'EUR'
+    };
+  }
+}
+
+export default EnergyReportService;
@@ -0,0 +1,93 @@
+/**
+ * Energy Report Schedule Tests
+ *
+ * Scheduled reports that already exist, and runs whose user query fails.
+ * Reports and users are in-memory stand-ins for their models; generating and
+ * emailing reports is spied on.
+ */
+
+import { EnergyReport } from '@/models/EnergyReport';
+import { User } from '@/models/User';
+import { EmailService } from '@/services/email';
+import { EnergyRollupService } from '@/services/energy-rollup';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+import { EnergyReportService } from '../ReportService';
+
+jest.mock('@/models/EnergyReport', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/EnergyReport'), EnergyReport: new MemoryModel() };
+});
+jest.mock('@/models/User', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/User'), User: new MemoryModel() };
+});
+
+const reports = EnergyReport as unknown as MemoryModel;
+const users = User as unknown as MemoryModel;
+
+// Yesterday's daily report is due
+const now = new Date('2026-03-03T06:00:00Z');
+const dueStart = new Date('2026-03-02T00:00:00Z');
+
+describe('EnergyReportService schedule', () => {
+  let service: EnergyReportService;
+  let generate: jest.SpyInstance;
+  let sendReport: jest.SpyInstance;
+
+  beforeEach(() => {
+    users.docs = [{
+      _id: 'user-1',
+      email: 'user@example.com',
+      isActive: true,
+      profile: { timezone: 'UTC' },
+      settings: { emailNotifications: true, energy: { energyReportFrequency: 'daily' } }
+    }];
+    reports.docs = [];
+
+    const email = { isConfigured: true } as EmailService;
+    service = new EnergyReportService({} as EnergyRollupService, email, { delay: 0, scheduleInterval: 60000 });
+    generate = jest.spyOn(service, 'generate').mockImplementation(async () => ({ _id: 'new-report' }) as any);
+    sendReport = jest.spyOn(service as any, 'sendReport').mockResolvedValue(undefined);
+  });
+
+  it('generates and emails due reports', async () => {
+    expect(await service.runSchedule(now)).toEqual({ generated: 1, emailed: 1, failed: 0 });
+    expect(generate).toHaveBeenCalledWith('user-1', { reportType: 'daily', start: dueStart, format: 'pdf' }, { scheduled: true, now });
+    expect(sendReport).toHaveBeenCalledWith({ _id: 'new-report' }, 'user@example.com');
+  });
+
+  it('emails an existing report that was not emailed yet', async () => {
+    reports.docs = [{ _id: 'report-1', userId: 'user-1', reportType: 'daily', scheduled: true, period: { start: dueStart } }];
+
+    expect(await service.runSchedule(now)).toEqual({ generated: 0, emailed: 1, failed: 0 });
+    expect(generate).not.toHaveBeenCalled();
+    expect(sendReport).toHaveBeenCalledWith(expect.objectContaining({ _id: 'report-1' }), 'user@example.com');
+  });
+
+  it('leaves existing reports alone once emailed or without email', async () => {
+    reports.docs = [{ _id: 'report-1', userId: 'user-1', reportType: 'daily', scheduled: true, period: { start: dueStart }, emailedAt: now }];
+    expect(await service.runSchedule(now)).toEqual({ generated: 0, emailed: 0, failed: 0 });
+
+    reports.docs[0]!.emailedAt = undefined;
+    users.docs[0]!.settings.emailNotifications = false;
+    expect(await service.runSchedule(now)).toEqual({ generated: 0, emailed: 0, failed: 0 });
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(sendReport).not.toHaveBeenCalled();
+  });
+
+  it('resolves overlapping runs and shutdown when the run fails', async () => {
+    jest.spyOn(users, 'find').mockImplementation(() => {
+      throw new Error('connection lost');
+    });
+
+    const runs = [service.runSchedule(now), service.runSchedule(now)];
+    const shutdown = service.shutdown();
+
+    await expect(Promise.all(runs)).resolves.toEqual([
+      { generated: 0, emailed: 0, failed: 1 },
+      { generated: 0, emailed: 0, failed: 1 }
+    ]);
+    await expect(shutdown).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Report Contents Tests
+ *
+ * Report periods in the user's time zone and the summary, series, device
+ * breakdown and insights built from energy rollups.
+ */
+
+import { EnergyStatsValues } from '@/services/energy-rollup';
+import { buildReportContent, previousReportPeriod, ReportInput, resolveReportPeriod } from '../builder';
+
+const DAY_MS = 86400000;
+const START = new Date('2026-10-12T00:00:00Z');
+
+function stats(deviceId: string, day: number, values: Partial<EnergyStatsValues>): EnergyStatsValues {
+  return {
+    deviceId,
+    userId: 'user-1',
+    period: 'day',
+    periodStart: new Date(START.getTime() + day * DAY_MS),
+    periodEnd: new Date(START.getTime() + (day + 1) * DAY_MS),
+    uptime: 1,
+    dataPoints: 24,
+    dataQuality: 1,
+    ...values
+  };
+}
+
+function consumption(total: number, extra: { peak?: number; minimum?: number; peakTime?: Date } = {}) {
+  return { total, average: total / 24, peak: extra.peak ?? 0, minimum: extra.minimum ?? 0, ...(extra.peakTime && { peakTime: extra.peakTime }) };
+}
+
+describe('resolveReportPeriod', () => {
+  it('covers the calendar period around an instant in the time zone', () => {
+    const at = new Date('2026-03-29T12:00:00Z');
+
+    expect(resolveReportPeriod('daily', 'Europe/Amsterdam', { start: at })).toEqual({
+      start: new Date('2026-03-28T23:00:00Z'),
+      end: new Date('2026-03-29T22:00:00Z'),
+      granularity: 'hour'
+    });
+    expect(resolveReportPeriod('weekly', 'UTC', {}, at)).toEqual({
+      start: new Date('2026-03-23T00:00:00Z'),
+      end: new Date('2026-03-30T00:00:00Z'),
+      granularity: 'day'
+    });
+    expect(resolveReportPeriod('yearly', 'UTC', {}, at)).toMatchObject({ start: new Date('2026-01-01T00:00:00Z'), granularity: 'month' });
+  });
+
+  it('widens custom ranges to whole hours or days', () => {
+    expect(resolveReportPeriod('custom', 'UTC', {
+      start: new Date('2026-10-12T10:30:00Z'),
+      end: new Date('2026-10-13T22:15:00Z')
+    })).toEqual({ start: new Date('2026-10-12T10:00:00Z'), end: new Date('2026-10-13T23:00:00Z'), granularity: 'hour' });
+
+    expect(resolveReportPeriod('custom', 'UTC', {
+      start: new Date('2026-10-12T10:30:00Z'),
+      end: new Date('2026-10-17T00:00:00Z')
+    })).toEqual({ start: new Date('2026-10-12T00:00:00Z'), end: new Date('2026-10-17T00:00:00Z'), granularity: 'day' });
+  });
+
+  it('rejects custom ranges that are missing, reversed or too long', () => {
+    expect(() => resolveReportPeriod('custom', 'UTC', { start: START })).toThrow('need a start and an end');
+    expect(() => resolveReportPeriod('custom', 'UTC', { start: START, end: START })).toThrow('end must be after its start');
+    expect(() => resolveReportPeriod('custom', 'UTC', { start: START, end: new Date(START.getTime() + 367 * DAY_MS) }))
+      .toThrow('at most 366 days');
+  });
+});
+
+describe('previousReportPeriod', () => {
+  it('is the calendar period before a standard report', () => {
+    const period = resolveReportPeriod('monthly', 'UTC', { start: new Date('2026-03-15T00:00:00Z') });
+
+    expect(previousReportPeriod('monthly', period, 'UTC')).toEqual({
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z')
+    });
+  });
+
+  it('has the same length before a custom report', () => {
+    const period = { start: START, end: new Date(START.getTime() + 3 * DAY_MS), granularity: 'day' as const };
+
+    expect(previousReportPeriod('custom', period, 'UTC')).toEqual({ start: new Date(START.getTime() - 3 * DAY_MS), end: START });
+  });
+});
+
+describe('buildReportContent', () => {
+  const input: ReportInput = {
+    period: { start: START, end: new Date(START.getTime() + 2 * DAY_MS), granularity: 'day' },
+    totals: [
+      stats('all', 0, {
+        consumption: consumption(10, { peak: 4000, minimum: 125, peakTime: new Date('2026-10-12T18:00:00Z') }),
+        production: { total: 4, average: 0.2, peak: 1500, efficiency: 0.8 },
+        cost: { total: 3, average: 0.125, savings: 0.5 },
+        carbon: { total: 2, average: 0.1, avoided: 1 }
+      }),
+      stats('all', 1, {
+        consumption: consumption(14, { peak: 2000, minimum: 150 }),
+        cost: { total: 4.2, average: 0.175 },
+        carbon: { total: 3, average: 0.125 },
+        uptime: 0.9
+      })
+    ],
+    previousTotals: [stats('all', -2, { consumption: consumption(9) }), stats('all', -1, { consumption: consumption(11) })],
+    devices: [
+      { deviceId: 'fridge', name: 'Fridge' },
+      { deviceId: 'heater', name: 'Heater' },
+      { deviceId: 'lamp', name: 'Lamp' }
+    ],
+    deviceStats: [
+      stats('heater', 0, { consumption: consumption(5), cost: { total: 1.5, average: 0 } }),
+      stats('heater', 1, { consumption: consumption(7), cost: { total: 2.1, average: 0 } }),
+      stats('fridge', 0, { consumption: consumption(3), cost: { total: 0.9, average: 0 }, uptime: 0.5 }),
+      stats('meter', 0, { consumption: consumption(24) })
+    ],
+    currency: 'EUR',
+    timeZone: 'UTC'
+  };
+
+  it('sums the totals into the summary and series', () => {
+    const content = buildReportContent(input);
+
+    expect(content.summary).toEqual({
+      totalConsumption: 24,
+      totalCost: 7.2,
+      totalCarbon: 5,
+      systemUptime: 0.95,
+      totalProduction: 4,
+      totalSavings: 0.5,
+      averageEfficiency: 0.8,
+      previousConsumption: 20
+    });
+    expect(content.series).toEqual([
+      { start: START, consumption: 10, production: 4, cost: 3 },
+      { start: new Date(START.getTime() + DAY_MS), consumption: 14, cost: 4.2 }
+    ]);
+  });
+
+  it('breaks consumption down by the listed devices, largest first', () => {
+    expect(buildReportContent(input).deviceBreakdown).toEqual([
+      { deviceId: 'heater', deviceName: 'Heater', consumption: 12, cost: 3.6, percentage: 50, uptime: 1 },
+      { deviceId: 'fridge', deviceName: 'Fridge', consumption: 3, cost: 0.9, percentage: 12.5, uptime: 0.5 }
+    ]);
+  });
+
+  it('derives insights from the figures', () => {
+    const insights = buildReportContent(input).insights;
+
+    expect(insights.map(insight => [insight.type, insight.title, insight.impact])).toEqual([
+      ['usage_pattern', 'Consumption up 20%', 'medium'],
+      ['cost_saving', 'Heater used 50% of your energy', 'high'],
+      ['efficiency_tip', 'Base load of 125 W', 'medium'],
+      ['anomaly', 'Fridge was offline part of the time', 'medium'],
+      ['achievement', 'You produced 4.0 kWh', 'medium'],
+      ['usage_pattern', 'Peak demand of 4.0 kW', 'low']
+    ]);
+    expect(insights[2]!.description).toContain('drew 6.0 kWh, 25% of your consumption, about €328.50 a year.');
+    expect(insights[4]!.description).toBe('Your own production avoided 1 kg CO2 and saved €0.50.');
+    expect(insights[5]!.description).toContain('Reached on 2026-10-12 18:00, 8 times your average demand.');
+  });
+
+  it('notes lower consumption as an achievement', () => {
+    const insights = buildReportContent({
+      ...input,
+      previousTotals: [stats('all', -1, { consumption: consumption(40) })]
+    }).insights;
+
+    expect(insights[0]).toMatchObject({ type: 'achievement', title: 'Consumption down 40%', impact: 'medium', actionable: false });
+  });
+
+  it('is empty without rollups', () => {
+    expect(buildReportContent({ ...input, totals: [], previousTotals: [], deviceStats: [] })).toEqual({
+      summary: { totalConsumption: 0, totalCost: 0, totalCarbon: 0, systemUptime: 0 },
+      series: [],
+      deviceBreakdown: [],
+      insights: []
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * CSV Rendering Tests
+ *
+ * Sections, local times and escaping of reports rendered as CSV.
+ */
+
+import { renderReportCsv } from '../csv';
+import { RenderableReport } from '../format';
+
+// Week of Monday 12 October 2026 in Amsterdam (UTC+2)
+const report: RenderableReport = {
+  userId: 'user-1',
+  reportType: 'weekly',
+  period: { start: new Date('2026-10-11T22:00:00Z'), end: new Date('2026-10-18T22:00:00Z') },
+  summary: { totalConsumption: 84.5, totalCost: 25.35, totalCarbon: 30.2, systemUptime: 0.98 },
+  series: [
+    { start: new Date('2026-10-11T22:00:00Z'), consumption: 12, cost: 3.6 },
+    { start: new Date('2026-10-12T22:00:00Z'), consumption: 11.5, production: 2.25, cost: -0.4 }
+  ],
+  deviceBreakdown: [
+    { deviceId: 'plug-1', deviceName: 'Kitchen, fridge', consumption: 10, cost: 3, percentage: 11.8, uptime: 1 },
+    { deviceId: 'plug-2', deviceName: '=HYPERLINK("http://x")', consumption: 5, cost: 1.5, percentage: 5.9, uptime: 0.5 }
+  ],
+  insights: [
+    { type: 'usage_pattern', title: 'Consumption up 20%', description: 'Check "Heater".\nIt ran all week.', impact: 'medium', actionable: true }
+  ],
+  currency: 'EUR',
+  timeZone: 'Europe/Amsterdam',
+  scheduled: true,
+  generatedAt: new Date('2026-10-19T06:30:00Z'),
+  format: 'csv'
+};
+
+describe('renderReportCsv', () => {
+  it('renders a section per part of the report, separated by empty lines', () => {
+    const csv = renderReportCsv(report);
+
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv.split('\r\n').slice(0, 19)).toEqual([
+      'Weekly energy report,2026-10-12 – 2026-10-18',
+      'Time zone,Europe/Amsterdam',
+      'Generated at,2026-10-19 08:30',
+      '',
+      'Summary,Value,Unit',
+      'Consumption,84.5,kWh',
+      'Cost,25.35,EUR',
+      'Carbon,30.2,kg CO2',
+      'System uptime,0.98,ratio',
+      '',
+      'Period start,Consumption (kWh),Production (kWh),Cost (EUR)',
+      '2026-10-12 00:00,12,,3.6',
+      '2026-10-13 00:00,11.5,2.25,-0.4',
+      '',
+      'Device ID,Device,Consumption (kWh),Cost (EUR),Share (%),Uptime',
+      'plug-1,"Kitchen, fridge",10,3,11.8,1',
+      `plug-2,"'=HYPERLINK(""http://x"")",5,1.5,5.9,0.5`,
+      '',
+      'Insight,Type,Impact,Actionable,Description'
+    ]);
+  });
+
+  it('quotes values with quotes and line breaks', () => {
+    expect(renderReportCsv(report)).toContain(
+      'Consumption up 20%,usage_pattern,medium,true,"Check ""Heater"".\nIt ran all week."\r\n'
+    );
+  });
+
+  it('lists the optional summary figures the report has', () => {
+    const csv = renderReportCsv({
+      ...report,
+      summary: {
+        ...report.summary,
+        previousConsumption: 70.4,
+        totalProduction: 20,
+        totalSavings: 6,
+        averageEfficiency: 0.82
+      }
+    });
+
+    expect(csv).toContain([
+      'Consumption,84.5,kWh',
+      'Previous period consumption,70.4,kWh',
+      'Production,20,kWh',
+      'Cost,25.35,EUR',
+      'Savings,6,EUR',
+      'Carbon,30.2,kg CO2',
+      'Average efficiency,0.82,ratio'
+    ].join('\r\n'));
+  });
+});
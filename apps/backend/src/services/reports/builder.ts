@@ -0,0 +1,297 @@
+import { EnergyReport, EnergyReportType } from '@maestro/shared/types';
+
+import { EnergyStatsValues, RollupPeriod } from '@/services/energy-rollup';
+import { createError } from '@/utils/errors';
+import { CalendarPeriod, addPeriods, startOfPeriod } from '@/utils/timezone';
+import { formatCurrency, formatDateTime, formatEnergy, formatPercent, formatPower } from './format';
+
+/**
+ * Report Contents
+ *
+ * Turns energy rollups into the figures of a report: the summary, the
+ * consumption series for charts, the device breakdown and insights derived
+ * from them. Reports cover calendar periods in the user's time zone; custom
+ * reports are widened to whole hours (up to two days) or whole days.
+ */
+
+export type ReportContent = Pick<EnergyReport, 'summary' | 'series' | 'deviceBreakdown' | 'insights'>;
+export type ReportInsight = EnergyReport['insights'][number];
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+  granularity: RollupPeriod; // rollup period of the series
+}
+
+export interface ReportRange {
+  start?: Date | undefined; // standard reports: any instant in the period, default: now
+  end?: Date | undefined; // custom reports only
+}
+
+export interface ReportDevice {
+  deviceId: string;
+  name: string;
+}
+
+export interface ReportInput {
+  period: ReportPeriod;
+  totals: EnergyStatsValues[]; // user totals per granularity period
+  previousTotals: EnergyStatsValues[]; // user totals of the preceding period of equal length
+  devices: ReportDevice[]; // devices broken down, meters excluded
+  deviceStats: EnergyStatsValues[]; // per device and granularity period
+  currency: string;
+  timeZone: string;
+}
+
+const STANDARD_PERIODS: Record<Exclude<EnergyReportType, 'custom'>, { period: CalendarPeriod; granularity: RollupPeriod }> = {
+  daily: { period: 'day', granularity: 'hour' },
+  weekly: { period: 'week', granularity: 'day' },
+  monthly: { period: 'month', granularity: 'day' },
+  yearly: { period: 'year', granularity: 'month' }
+};
+
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+const MAX_HOURLY_SPAN = 2 * DAY_MS;
+const MAX_CUSTOM_SPAN = 366 * DAY_MS;
+
+// Insight thresholds
+const CONSUMPTION_CHANGE = 0.1; // relative change to the previous period worth mentioning
+const TOP_DEVICE_SHARE = 30; // % of consumption
+const BASE_LOAD_SHARE = 0.2; // fraction of consumption drawn around the clock
+const MIN_BASE_LOAD = 30; // W
+const LOW_UPTIME = 0.8;
+const PEAK_TO_AVERAGE = 3;
+
+/**
+ * Start, end and series granularity of a report
+ */
+export function resolveReportPeriod(type: EnergyReportType, timeZone: string, range: ReportRange = {}, now = new Date()): ReportPeriod {
+  if (type !== 'custom') {
+    const { period, granularity } = STANDARD_PERIODS[type];
+    const start = startOfPeriod(range.start ?? now, period, timeZone);
+    return { start, end: addPeriods(start, period, 1, timeZone), granularity };
+  }
+
+  if (!range.start || !range.end) {
+    throw createError.validation('Custom reports need a start and an end');
+  }
+  const span = range.end.getTime() - range.start.getTime();
+  if (span <= 0) {
+    throw createError.validation('Report end must be after its start');
+  }
+  if (span > MAX_CUSTOM_SPAN) {
+    throw createError.validation('Custom reports cover at most 366 days');
+  }
+
+  const granularity: RollupPeriod = span <= MAX_HOURLY_SPAN ? 'hour' : 'day';
+  const start = startOfPeriod(range.start, granularity, timeZone);
+  let end = startOfPeriod(range.end, granularity, timeZone);
+  if (end < range.end) {
+    end = addPeriods(end, granularity, 1, timeZone);
+  }
+  return { start, end, granularity };
+}
+
+/**
+ * The period of equal length right before a report period
+ */
+export function previousReportPeriod(type: EnergyReportType, period: ReportPeriod, timeZone: string): { start: Date; end: Date } {
+  if (type !== 'custom') {
+    return { start: addPeriods(period.start, STANDARD_PERIODS[type].period, -1, timeZone), end: period.start };
+  }
+  return { start: new Date(2 * period.start.getTime() - period.end.getTime()), end: period.start };
+}
+
+/**
+ * Summary, series, device breakdown and insights of a report
+ */
+export function buildReportContent(input: ReportInput): ReportContent {
+  const { totals, previousTotals } = input;
+  const productions = totals.filter(entry => entry.production);
+  const efficiencies = productions
+    .map(entry => entry.production!.efficiency)
+    .filter((value): value is number => value !== undefined);
+  const savings = totals.filter(entry => entry.cost?.savings !== undefined);
+
+  const summary: EnergyReport['summary'] = {
+    totalConsumption: round(sum(totals, entry => entry.consumption?.total)),
+    totalCost: round(sum(totals, entry => entry.cost?.total), 2),
+    totalCarbon: round(sum(totals, entry => entry.carbon?.total)),
+    systemUptime: totals.length > 0 ? round(sum(totals, entry => entry.uptime) / totals.length) : 0,
+    ...(productions.length > 0 && { totalProduction: round(sum(productions, entry => entry.production?.total)) }),
+    ...(savings.length > 0 && { totalSavings: round(sum(savings, entry => entry.cost?.savings), 2) }),
+    ...(efficiencies.length > 0 && {
+      averageEfficiency: round(efficiencies.reduce((total, value) => total + value, 0) / efficiencies.length)
+    }),
+    ...(previousTotals.length > 0 && { previousConsumption: round(sum(previousTotals, entry => entry.consumption?.total)) })
+  };
+
+  const series: EnergyReport['series'] = totals.map(entry => ({
+    start: entry.periodStart,
+    consumption: round(entry.consumption?.total ?? 0),
+    ...(entry.production && { production: round(entry.production.total) }),
+    ...(entry.cost && { cost: round(entry.cost.total, 2) })
+  }));
+
+  const deviceBreakdown = buildDeviceBreakdown(input, summary.totalConsumption);
+
+  return {
+    summary,
+    series,
+    deviceBreakdown,
+    insights: buildInsights(input, summary, deviceBreakdown)
+  };
+}
+
+// Helper functions
+
+function buildDeviceBreakdown(input: ReportInput, totalConsumption: number): EnergyReport['deviceBreakdown'] {
+  const byDevice = new Map<string, EnergyStatsValues[]>();
+  for (const entry of input.deviceStats) {
+    byDevice.set(entry.deviceId, [...(byDevice.get(entry.deviceId) ?? []), entry]);
+  }
+
+  const breakdown = input.devices
+    .filter(device => byDevice.has(device.deviceId))
+    .map(device => {
+      const entries = byDevice.get(device.deviceId)!;
+      const consumption = sum(entries, entry => entry.consumption?.total);
+      return {
+        deviceId: device.deviceId,
+        deviceName: device.name,
+        consumption: round(consumption),
+        cost: round(sum(entries, entry => entry.cost?.total), 2),
+        percentage: totalConsumption > 0 ? round((consumption / totalConsumption) * 100, 1) : 0,
+        uptime: round(sum(entries, entry => entry.uptime) / entries.length)
+      };
+    });
+
+  return breakdown.sort((a, b) => b.consumption - a.consumption);
+}
+
+function buildInsights(
+  input: ReportInput,
+  summary: EnergyReport['summary'],
+  devices: EnergyReport['deviceBreakdown']
+): ReportInsight[] {
+  const { currency, timeZone, period } = input;
+  const insights: ReportInsight[] = [];
+  const consumption = summary.totalConsumption;
+
+  // Change against the previous period
+  if (summary.previousConsumption && consumption > 0) {
+    const change = (consumption - summary.previousConsumption) / summary.previousConsumption;
+    if (change >= CONSUMPTION_CHANGE) {
+      insights.push({
+        type: 'usage_pattern',
+        title: `Consumption up ${formatPercent(change)}`,
+        description: `You used ${formatEnergy(consumption)}, ${formatEnergy(consumption - summary.previousConsumption)} more than in the previous period. Check the device breakdown for what changed.`,
+        impact: change >= 0.25 ? 'high' : 'medium',
+        actionable: true
+      });
+    } else if (change <= -CONSUMPTION_CHANGE) {
+      insights.push({
+        type: 'achievement',
+        title: `Consumption down ${formatPercent(-change)}`,
+        description: `You used ${formatEnergy(consumption)}, ${formatEnergy(summary.previousConsumption - consumption)} less than in the previous period.`,
+        impact: -change >= 0.25 ? 'medium' : 'low',
+        actionable: false
+      });
+    }
+  }
+
+  // The device that dominates consumption
+  const top = devices[0];
+  if (top && devices.length > 1 && top.percentage >= TOP_DEVICE_SHARE) {
+    insights.push({
+      type: 'cost_saving',
+      title: `${top.deviceName} used ${Math.round(top.percentage)}% of your energy`,
+      description: `${top.deviceName} consumed ${formatEnergy(top.consumption)} at a cost of ${formatCurrency(top.cost, currency)}. Running it less or off-peak has the largest effect on your bill.`,
+      impact: top.percentage >= 50 ? 'high' : 'medium',
+      actionable: true
+    });
+  }
+
+  // Base load: the lowest power drawn is drawn around the clock
+  const minimums = input.totals
+    .filter(entry => entry.consumption && entry.dataPoints > 0)
+    .map(entry => entry.consumption!.minimum);
+  const hours = (period.end.getTime() - period.start.getTime()) / HOUR_MS;
+  if (minimums.length > 0 && consumption > 0) {
+    const baseLoad = Math.min(...minimums);
+    const baseEnergy = (baseLoad * hours) / 1000;
+    const share = baseEnergy / consumption;
+    if (baseLoad >= MIN_BASE_LOAD && share >= BASE_LOAD_SHARE && share <= 1) {
+      const yearlyCost = summary.totalCost > 0 ? ((baseLoad * 8760) / 1000) * (summary.totalCost / consumption) : 0;
+      insights.push({
+        type: 'efficiency_tip',
+        title: `Base load of ${formatPower(baseLoad)}`,
+        description: `Devices that never switch off drew ${formatEnergy(baseEnergy)}, ${formatPercent(share)} of your consumption` +
+          (yearlyCost > 0 ? `, about ${formatCurrency(yearlyCost, currency)} a year.` : '.') +
+          ' Standby devices and old appliances are the usual suspects.',
+        impact: share >= 0.35 ? 'high' : 'medium',
+        actionable: true
+      });
+    }
+  }
+
+  // Devices with gaps in their data
+  const unreliable = devices.filter(device => device.uptime < LOW_UPTIME);
+  if (unreliable.length > 0) {
+    const names = unreliable.slice(0, 3).map(device => device.deviceName).join(', ');
+    insights.push({
+      type: 'anomaly',
+      title: unreliable.length === 1 ? `${names} was offline part of the time` : `${unreliable.length} devices were offline part of the time`,
+      description: unreliable.length === 1
+        ? `${names} reported data less than ${formatPercent(LOW_UPTIME)} of the period, so its figures are incomplete. Check its connection.`
+        : `${names}${unreliable.length > 3 ? ' and others' : ''} reported data less than ${formatPercent(LOW_UPTIME)} of the period, so their figures are incomplete. Check their connection.`,
+      impact: 'medium',
+      actionable: true
+    });
+  }
+
+  // Own production
+  if (summary.totalProduction && summary.totalProduction > 0) {
+    const avoided = sum(input.totals, entry => entry.carbon?.avoided);
+    const details = [
+      ...(avoided > 0 ? [`avoided ${round(avoided, 1)} kg CO2`] : []),
+      ...(summary.totalSavings && summary.totalSavings > 0 ? [`saved ${formatCurrency(summary.totalSavings, currency)}`] : [])
+    ];
+    insights.push({
+      type: 'achievement',
+      title: `You produced ${formatEnergy(summary.totalProduction)}`,
+      description: details.length > 0
+        ? `Your own production ${details.join(' and ')}.`
+        : `That covers the equivalent of ${formatPercent(consumption > 0 ? summary.totalProduction / consumption : 1)} of your consumption.`,
+      impact: 'medium',
+      actionable: false
+    });
+  }
+
+  // Peak demand far above the average
+  const peak = input.totals
+    .filter(entry => entry.consumption?.peakTime)
+    .reduce<EnergyStatsValues | undefined>((max, entry) => (!max || entry.consumption!.peak > max.consumption!.peak ? entry : max), undefined);
+  const averagePower = hours > 0 ? (consumption * 1000) / hours : 0;
+  if (peak && averagePower > 0 && peak.consumption!.peak >= PEAK_TO_AVERAGE * averagePower) {
+    insights.push({
+      type: 'usage_pattern',
+      title: `Peak demand of ${formatPower(peak.consumption!.peak)}`,
+      description: `Reached on ${formatDateTime(peak.consumption!.peakTime!, timeZone)}, ${Math.round(peak.consumption!.peak / averagePower)} times your average demand. Spreading heavy appliances over the day lowers peaks.`,
+      impact: 'low',
+      actionable: true
+    });
+  }
+
+  return insights;
+}
+
+function sum<T>(entries: T[], value: (entry: T) => number | undefined): number {
+  return entries.reduce((total, entry) => total + (value(entry) ?? 0), 0);
+}
+
+function round(value: number, decimals = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
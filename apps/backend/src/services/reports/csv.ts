@@ -0,0 +1,66 @@
+import {
+  RenderableReport,
+  formatDateTime,
+  formatReportPeriod,
+  reportTitle
+} from './format';
+
+/**
+ * CSV Rendering
+ *
+ * One file with a section per part of the report (summary, series, devices,
+ * insights), each with its own header row and separated by an empty line.
+ * Figures are plain numbers with a dot as decimal separator; times are on the
+ * wall clock of the report's time zone.
+ */
+
+export function renderReportCsv(report: RenderableReport): string {
+  const { summary, currency, timeZone } = report;
+  const rows: unknown[][] = [
+    [reportTitle(report), formatReportPeriod(report)],
+    ['Time zone', timeZone],
+    ['Generated at', formatDateTime(report.generatedAt, timeZone)],
+    [],
+    ['Summary', 'Value', 'Unit'],
+    ['Consumption', summary.totalConsumption, 'kWh'],
+    ...(summary.previousConsumption !== undefined ? [['Previous period consumption', summary.previousConsumption, 'kWh']] : []),
+    ...(summary.totalProduction !== undefined ? [['Production', summary.totalProduction, 'kWh']] : []),
+    ['Cost', summary.totalCost, currency],
+    ...(summary.totalSavings !== undefined ? [['Savings', summary.totalSavings, currency]] : []),
+    ['Carbon', summary.totalCarbon, 'kg CO2'],
+    ...(summary.averageEfficiency !== undefined ? [['Average efficiency', summary.averageEfficiency, 'ratio']] : []),
+    ['System uptime', summary.systemUptime, 'ratio'],
+    [],
+    ['Period start', 'Consumption (kWh)', 'Production (kWh)', `Cost (${currency})`],
+    ...report.series.map(point => [formatDateTime(point.start, timeZone), point.consumption, point.production, point.cost]),
+    [],
+    ['Device ID', 'Device', 'Consumption (kWh)', `Cost (${currency})`, 'Share (%)', 'Uptime'],
+    ...report.deviceBreakdown.map(device => [
+      device.deviceId,
+      device.deviceName,
+      device.consumption,
+      device.cost,
+      device.percentage,
+      device.uptime
+    ]),
+    [],
+    ['Insight', 'Type', 'Impact', 'Actionable', 'Description'],
+    ...report.insights.map(insight => [insight.title, insight.type, insight.impact, insight.actionable, insight.description])
+  ];
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+// Helper functions
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Keep spreadsheets from evaluating device names as formulas
+  if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,118 @@
+import { EnergyReport } from '@maestro/shared/types';
+
+import { getZonedParts } from '@/utils/timezone';
+
+/**
+ * Report Formatting
+ *
+ * Numbers, amounts and dates as they appear in rendered reports and emails.
+ * Dates are shown on the wall clock of the report's time zone.
+ */
+
+// A stored report or one being generated
+export type RenderableReport = Omit<EnergyReport, '_id'>;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const REPORT_TITLES: Record<EnergyReport['reportType'], string> = {
+  daily: 'Daily energy report',
+  weekly: 'Weekly energy report',
+  monthly: 'Monthly energy report',
+  yearly: 'Yearly energy report',
+  custom: 'Energy report'
+};
+
+export function formatNumber(value: number, decimals = 1): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+export function formatEnergy(kWh: number): string {
+  return `${formatNumber(kWh, Math.abs(kWh) >= 100 ? 0 : 1)} kWh`;
+}
+
+export function formatPower(watts: number): string {
+  return Math.abs(watts) >= 1000 ? `${formatNumber(watts / 1000, 1)} kW` : `${Math.round(watts)} W`;
+}
+
+export function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+export function formatCurrency(amount: number, currency: string): string {
+  try {
+    return amount.toLocaleString('en-US', { style: 'currency', currency });
+  } catch {
+    // Not an ISO 4217 code
+    return `${formatNumber(amount, 2)} ${currency}`;
+  }
+}
+
+/**
+ * Date like `2026-10-19`
+ */
+export function formatDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Date and time like `2026-10-19 14:30`
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${formatDate(date, timeZone)} ${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * Short label of a series point: hours for hourly, days for daily and months for monthly series
+ */
+export function formatSeriesLabel(date: Date, granularity: 'hour' | 'day' | 'month', timeZone: string): string {
+  const { year, month, day, hour } = getZonedParts(date, timeZone);
+  switch (granularity) {
+    case 'hour':
+      return `${pad(hour)}:00`;
+    case 'day':
+      return `${day} ${MONTHS[month - 1]}`;
+    case 'month':
+      return `${MONTHS[month - 1]} ${year}`;
+  }
+}
+
+export function reportTitle(report: Pick<EnergyReport, 'reportType'>): string {
+  return REPORT_TITLES[report.reportType];
+}
+
+/**
+ * The covered period as shown to people, e.g. `2026-10-12 – 2026-10-18`; the
+ * end of a report is exclusive, so whole days end on the day before
+ */
+export function formatReportPeriod(report: Pick<EnergyReport, 'period' | 'timeZone'>): string {
+  const { start, end } = report.period;
+  const endParts = getZonedParts(end, report.timeZone);
+  if (endParts.hour === 0 && endParts.minute === 0) {
+    const lastDay = new Date(end.getTime() - 1);
+    const first = formatDate(start, report.timeZone);
+    const last = formatDate(lastDay, report.timeZone);
+    return first === last ? first : `${first} – ${last}`;
+  }
+  return `${formatDateTime(start, report.timeZone)} – ${formatDateTime(end, report.timeZone)}`;
+}
+
+/**
+ * Granularity of a report's series, from the closest spacing of its points
+ */
+export function seriesGranularity(series: EnergyReport['series']): 'hour' | 'day' | 'month' {
+  if (series.length < 2) {
+    return 'day';
+  }
+  const spacing = Math.min(...series.slice(1).map((point, index) => point.start.getTime() - series[index]!.start.getTime()));
+  if (spacing < 86400000 / 2) return 'hour';
+  if (spacing < 86400000 * 20) return 'day';
+  return 'month';
+}
+
+// Helper functions
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
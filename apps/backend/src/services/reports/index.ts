@@ -0,0 +1,5 @@
+export * from './builder';
+export * from './csv';
+export * from './format';
+export * from './pdf';
+export * from './ReportService';
@@ -0,0 +1,286 @@
+import PDFDocument from 'pdfkit';
+
+import {
+  RenderableReport,
+  formatCurrency,
+  formatDateTime,
+  formatEnergy,
+  formatNumber,
+  formatPercent,
+  formatReportPeriod,
+  formatSeriesLabel,
+  reportTitle,
+  seriesGranularity
+} from './format';
+
+/**
+ * PDF Rendering
+ *
+ * A4 report drawn with pdfkit and its standard fonts: key figures, a bar chart
+ * of consumption (and production) over the period, the device breakdown and
+ * the insights. Long breakdowns continue on further pages.
+ */
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 50;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const MAX_DEVICES = 15;
+const MAX_CHART_LABELS = 12;
+
+const COLORS = {
+  text: '#212121',
+  muted: '#757575',
+  grid: '#e0e0e0',
+  box: '#f5f5f5',
+  consumption: '#1976d2',
+  production: '#43a047',
+  impact: { high: '#e53935', medium: '#fb8c00', low: '#1e88e5' }
+};
+
+/**
+ * Render a report as PDF
+ */
+export function renderReportPdf(report: RenderableReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      info: { Title: `${reportTitle(report)} ${formatReportPeriod(report)}`, Author: 'Maestro' }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      drawHeader(doc, report);
+      drawKeyFigures(doc, report);
+      drawSeriesChart(doc, report);
+      drawDeviceBreakdown(doc, report);
+      drawInsights(doc, report);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+// Helper functions
+
+function drawHeader(doc: Doc, report: RenderableReport): void {
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text).text(reportTitle(report));
+  doc.font('Helvetica').fontSize(12).fillColor(COLORS.text).text(formatReportPeriod(report));
+  doc.fontSize(9).fillColor(COLORS.muted)
+    .text(`Generated ${formatDateTime(report.generatedAt, report.timeZone)} (${report.timeZone})`);
+  doc.moveDown(1.5);
+}
+
+function drawKeyFigures(doc: Doc, report: RenderableReport): void {
+  const { summary, currency } = report;
+  const figures: Array<{ label: string; value: string; note?: string }> = [
+    {
+      label: 'Consumption',
+      value: formatEnergy(summary.totalConsumption),
+      ...(summary.previousConsumption && {
+        note: `${signed((summary.totalConsumption - summary.previousConsumption) / summary.previousConsumption)} vs previous period`
+      })
+    },
+    { label: 'Cost', value: formatCurrency(summary.totalCost, currency) },
+    { label: 'Carbon', value: `${formatNumber(summary.totalCarbon, 1)} kg CO2` }
+  ];
+  if (summary.totalProduction !== undefined) {
+    figures.push({
+      label: 'Production',
+      value: formatEnergy(summary.totalProduction),
+      ...(summary.averageEfficiency !== undefined && { note: `${formatPercent(summary.averageEfficiency)} efficiency` })
+    });
+  }
+  if (summary.totalSavings !== undefined) {
+    figures.push({ label: 'Savings', value: formatCurrency(summary.totalSavings, currency) });
+  }
+  figures.push({ label: 'System uptime', value: formatPercent(summary.systemUptime) });
+
+  const columns = 3;
+  const gap = 10;
+  const width = (CONTENT_WIDTH - (columns - 1) * gap) / columns;
+  const height = 56;
+  const top = doc.y;
+
+  figures.forEach((figure, index) => {
+    const x = MARGIN + (index % columns) * (width + gap);
+    const y = top + Math.floor(index / columns) * (height + gap);
+    doc.rect(x, y, width, height).fill(COLORS.box);
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(figure.label.toUpperCase(), x + 10, y + 9, { width: width - 20 });
+    doc.font('Helvetica-Bold').fontSize(15).fillColor(COLORS.text).text(figure.value, x + 10, y + 21, { width: width - 20, lineBreak: false });
+    if (figure.note) {
+      doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(figure.note, x + 10, y + 40, { width: width - 20, lineBreak: false });
+    }
+  });
+
+  doc.x = MARGIN;
+  doc.y = top + Math.ceil(figures.length / columns) * (height + gap) + 15;
+}
+
+function drawSeriesChart(doc: Doc, report: RenderableReport): void {
+  const { series } = report;
+  if (series.length === 0) {
+    return;
+  }
+
+  const granularity = seriesGranularity(series);
+  const withProduction = series.some(point => point.production !== undefined && point.production > 0);
+  drawSectionTitle(doc, `${withProduction ? 'Consumption and production' : 'Consumption'} per ${granularity}`, 230);
+
+  const axisWidth = 40;
+  const chartHeight = 160;
+  const left = MARGIN + axisWidth;
+  const width = CONTENT_WIDTH - axisWidth;
+  const top = doc.y + 5;
+  const bottom = top + chartHeight;
+  const maximum = niceMaximum(Math.max(...series.map(point => Math.max(point.consumption, point.production ?? 0))));
+
+  // Grid and axis labels
+  const steps = 4;
+  doc.font('Helvetica').fontSize(7);
+  for (let step = 0; step <= steps; step++) {
+    const y = bottom - (chartHeight * step) / steps;
+    doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).strokeColor(COLORS.grid).stroke();
+    doc.fillColor(COLORS.muted).text(formatNumber((maximum * step) / steps, maximum >= 10 ? 0 : 1), MARGIN, y - 3, {
+      width: axisWidth - 6,
+      align: 'right'
+    });
+  }
+  doc.fillColor(COLORS.muted).text('kWh', MARGIN, top - 12, { width: axisWidth - 6, align: 'right' });
+
+  // Bars
+  const slot = width / series.length;
+  const barWidth = Math.max(1, (slot * 0.7) / (withProduction ? 2 : 1));
+  const labelEvery = Math.ceil(series.length / MAX_CHART_LABELS);
+  series.forEach((point, index) => {
+    const x = left + index * slot + slot * 0.15;
+    const consumptionHeight = maximum > 0 ? (chartHeight * point.consumption) / maximum : 0;
+    doc.rect(x, bottom - consumptionHeight, barWidth, consumptionHeight).fill(COLORS.consumption);
+    if (withProduction) {
+      const productionHeight = maximum > 0 ? (chartHeight * (point.production ?? 0)) / maximum : 0;
+      doc.rect(x + barWidth, bottom - productionHeight, barWidth, productionHeight).fill(COLORS.production);
+    }
+    if (index % labelEvery === 0) {
+      const label = formatSeriesLabel(point.start, granularity, report.timeZone);
+      doc.fillColor(COLORS.muted).text(label, left + (index + 0.5) * slot - doc.widthOfString(label) / 2, bottom + 4, { lineBreak: false });
+    }
+  });
+
+  // Legend
+  let legendX = left;
+  const legendY = bottom + 18;
+  for (const [label, color] of [['Consumption', COLORS.consumption], ...(withProduction ? [['Production', COLORS.production]] : [])] as Array<[string, string]>) {
+    doc.rect(legendX, legendY + 1, 8, 8).fill(color);
+    doc.fillColor(COLORS.text).fontSize(8).text(label, legendX + 12, legendY, { lineBreak: false });
+    legendX += 90;
+  }
+
+  doc.x = MARGIN;
+  doc.y = legendY + 30;
+}
+
+function drawDeviceBreakdown(doc: Doc, report: RenderableReport): void {
+  const devices = report.deviceBreakdown.slice(0, MAX_DEVICES);
+  if (devices.length === 0) {
+    return;
+  }
+  drawSectionTitle(doc, 'Devices', 60);
+
+  const columns = { name: MARGIN, bar: MARGIN + 170, energy: MARGIN + 320, cost: MARGIN + 385, share: MARGIN + 450 };
+  const rowHeight = 18;
+  const header = (): void => {
+    doc.font('Helvetica-Bold').fontSize(8).fillColor(COLORS.muted);
+    const y = doc.y;
+    doc.text('DEVICE', columns.name, y, { lineBreak: false });
+    doc.text('ENERGY', columns.energy, y, { width: 60, align: 'right', lineBreak: false });
+    doc.text('COST', columns.cost, y, { width: 60, align: 'right', lineBreak: false });
+    doc.text('SHARE', columns.share, y, { width: 45, align: 'right', lineBreak: false });
+    doc.y = y + 14;
+  };
+  header();
+
+  const largest = Math.max(...devices.map(device => device.percentage), 1);
+  for (const device of devices) {
+    if (ensureSpace(doc, rowHeight)) {
+      header();
+    }
+    const y = doc.y;
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.text)
+      .text(device.deviceName, columns.name, y, { width: 160, lineBreak: false, ellipsis: true });
+    doc.rect(columns.bar, y + 1, Math.max(1, (140 * device.percentage) / largest), 8).fill(COLORS.consumption);
+    doc.fillColor(COLORS.text)
+      .text(formatEnergy(device.consumption), columns.energy, y, { width: 60, align: 'right', lineBreak: false })
+      .text(formatCurrency(device.cost, report.currency), columns.cost, y, { width: 60, align: 'right', lineBreak: false })
+      .text(`${formatNumber(device.percentage, 1)}%`, columns.share, y, { width: 45, align: 'right', lineBreak: false });
+    doc.y = y + rowHeight;
+  }
+
+  const remaining = report.deviceBreakdown.slice(MAX_DEVICES);
+  if (remaining.length > 0) {
+    const consumption = remaining.reduce((total, device) => total + device.consumption, 0);
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted)
+      .text(`${remaining.length} more devices: ${formatEnergy(consumption)}`, columns.name, doc.y);
+  }
+
+  doc.x = MARGIN;
+  doc.moveDown(1.5);
+}
+
+function drawInsights(doc: Doc, report: RenderableReport): void {
+  if (report.insights.length === 0) {
+    return;
+  }
+  drawSectionTitle(doc, 'Insights', 50);
+
+  for (const insight of report.insights) {
+    doc.font('Helvetica').fontSize(9);
+    const height = doc.heightOfString(insight.description, { width: CONTENT_WIDTH - 15 }) + 20;
+    ensureSpace(doc, height);
+
+    const y = doc.y;
+    doc.rect(MARGIN, y + 1, 4, height - 8).fill(COLORS.impact[insight.impact]);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(insight.title, MARGIN + 12, y, { width: CONTENT_WIDTH - 15 });
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(insight.description, MARGIN + 12, doc.y + 2, { width: CONTENT_WIDTH - 15 });
+    doc.x = MARGIN;
+    doc.y = Math.max(doc.y, y + height - 8) + 8;
+  }
+}
+
+function drawSectionTitle(doc: Doc, title: string, spaceAfter: number): void {
+  ensureSpace(doc, spaceAfter + 25);
+  doc.font('Helvetica-Bold').fontSize(13).fillColor(COLORS.text).text(title, MARGIN, doc.y);
+  doc.moveDown(0.5);
+}
+
+/**
+ * Start a new page when less than `height` is left; true when it did
+ */
+function ensureSpace(doc: Doc, height: number): boolean {
+  if (doc.y + height <= doc.page.height - doc.page.margins.bottom) {
+    return false;
+  }
+  doc.addPage();
+  return true;
+}
+
+/**
+ * Round the largest value up to 1, 2, 2.5 or 5 times a power of ten
+ */
+function niceMaximum(value: number): number {
+  if (value <= 0) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= value)!;
+  return step * magnitude;
+}
+
+function signed(fraction: number): string {
+  return `${fraction >= 0 ? '+' : '-'}${formatPercent(Math.abs(fraction))}`;
+}
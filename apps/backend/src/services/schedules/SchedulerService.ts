@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+
+import { Schedule, ScheduleCatchUp, ScheduleRun } from '@maestro/shared/types';
+
+import { config } from '@/config/environment';
+import { createModuleLogger } from '@/config/logger';
+import { Device } from '@/models/Device';
+import { DeviceIntegrationService } from '@/services/device-integration';
+import { ScheduleEvent, scheduleEvents, selectCatchUpEvents } from './recurrence';
+import { commandForAction, nextRunAfter, scheduleCommands } from './schedules';
+
+/**
+ * Scheduler Service
+ *
+ * Runs device schedules. Each schedule stores its `nextRunAt`; every interval
+ * the scheduler looks for enabled schedules that are due, moves `nextRunAt`
+ * past the current time and only then sends the commands through the device
+ * integration service. Moving it is a compare-and-set on the stored value, so
+ * a run is claimed once even with several instances or after a restart, and a
+ * crash between claiming and sending loses the run instead of repeating it.
+ *
+ * Runs that fell due while the scheduler was not running are caught up
+ * according to the schedule's `catchUp` policy, or the configured default.
+ */
+
+export interface SchedulerOptions {
+  interval?: number; // milliseconds between checks, default: config.schedules.interval
+  catchUp?: ScheduleCatchUp; // policy of schedules without one, default: config.schedules.catchUp
+  catchUpWindow?: number; // milliseconds after which missed runs are dropped, default: config.schedules.catchUpWindow
+}
+
+export interface SchedulerTickResult {
+  due: number;
+  fired: number;
+  failed: number;
+  missed: number;
+}
+
+interface ScheduledDevice {
+  _id: unknown;
+  userId: string;
+  name: string;
+  settings: { schedules: Schedule[] };
+}
+
+const DUE_FIELDS = { userId: 1, name: 1, 'settings.schedules': 1 } as const;
+
+export class SchedulerService extends EventEmitter {
+  private moduleLogger = createModuleLogger('SchedulerService');
+  private timer?: NodeJS.Timeout | undefined;
+  private ticking?: Promise<SchedulerTickResult> | undefined;
+  private lastTickAt?: Date | undefined;
+  private readonly options: Required<SchedulerOptions>;
+
+  private stats = {
+    ticks: 0,
+    fired: 0,
+    failed: 0,
+    missed: 0,
+    errors: 0
+  };
+
+  constructor(
+    private deviceIntegration: DeviceIntegrationService,
+    options: SchedulerOptions = {}
+  ) {
+    super();
+    this.options = {
+      interval: options.interval ?? config.schedules.interval,
+      catchUp: options.catchUp ?? config.schedules.catchUp,
+      catchUpWindow: options.catchUpWindow ?? config.schedules.catchUpWindow
+    };
+  }
+
+  /**
+   * Start running schedules; runs missed while stopped are caught up on the first tick
+   */
+  initialize(): void {
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.interval);
+    void this.tick();
+
+    this.moduleLogger.info('Scheduler started', this.options);
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await this.ticking;
+    this.moduleLogger.info('Scheduler stopped', this.stats);
+  }
+
+  /**
+   * Run the schedules that are due; overlapping calls share the tick in progress
+   */
+  async tick(now = new Date()): Promise<SchedulerTickResult> {
+    if (!this.ticking) {
+      this.ticking = this.runDue(now).finally(() => {
+        this.ticking = undefined;
+      });
+    }
+    return this.ticking;
+  }
+
+  async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, any> }> {
+    const overdue = this.lastTickAt !== undefined &&
+      Date.now() - this.lastTickAt.getTime() > this.options.interval * 3;
+
+    return {
+      status: overdue ? 'degraded' : 'healthy',
+      details: {
+        lastTickAt: this.lastTickAt,
+        interval: this.options.interval,
+        ...this.stats
+      }
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Run every due schedule; resolves with an empty tick instead of rejecting,
+   * as callers share it
+   */
+  private async runDue(now: Date): Promise<SchedulerTickResult> {
+    try {
+      const result: SchedulerTickResult = { due: 0, fired: 0, failed: 0, missed: 0 };
+      await this.initializeNextRuns(now);
+
+      const devices = await Device.find(
+        { 'settings.schedules': { $elemMatch: { enabled: true, nextRunAt: { $lte: now } } } },
+        DUE_FIELDS
+      ).lean<ScheduledDevice[]>();
+
+      await Promise.all(devices.map(async device => {
+        const due = device.settings.schedules.filter(schedule => schedule.enabled && schedule.nextRunAt && schedule.nextRunAt <= now);
+        // One schedule after the other, so commands to a device keep their order
+        for (const schedule of due) {
+          result.due++;
+          try {
+            const run = await this.runSchedule(device, schedule, now);
+            if (!run) continue;
+            if (run.success) {
+              result.fired++;
+            } else {
+              result.failed++;
+            }
+            result.missed += run.missed ?? 0;
+          } catch (error) {
+            result.failed++;
+            this.stats.errors++;
+            this.moduleLogger.warn('Schedule run failed', {
+              deviceId: String(device._id),
+              scheduleId: schedule.id,
+              error: error instanceof Error ? error.message : error
+            });
+          }
+        }
+      }));
+
+      this.stats.ticks++;
+      this.lastTickAt = now;
+      if (result.due > 0) {
+        this.moduleLogger.debug('Schedules run', result);
+      }
+      return result;
+    } catch (error) {
+      this.stats.errors++;
+      this.moduleLogger.error('Scheduler tick failed', {
+        error: error instanceof Error ? error.message : error
+      });
+      return { due: 0, fired: 0, failed: 0, missed: 0 };
+    }
+  }
+
+  /**
+   * Compute the first run of enabled schedules stored without one
+   */
+  private async initializeNextRuns(now: Date): Promise<void> {
+    const devices = await Device.find(
+      { 'settings.schedules': { $elemMatch: { enabled: true, nextRunAt: { $exists: false } } } },
+      DUE_FIELDS
+    ).lean<ScheduledDevice[]>();
+
+    for (const device of devices) {
+      for (const schedule of device.settings.schedules) {
+        if (!schedule.enabled || schedule.nextRunAt !== undefined) continue;
+        try {
+          await Device.updateOne(
+            { _id: device._id, 'settings.schedules': { $elemMatch: { id: schedule.id, nextRunAt: { $exists: false } } } },
+            { $set: { 'settings.schedules.$.nextRunAt': nextRunAfter(schedule, now) } },
+            { timestamps: false }
+          );
+        } catch (error) {
+          this.moduleLogger.warn('Invalid schedule left unscheduled', {
+            deviceId: String(device._id),
+            scheduleId: schedule.id,
+            error: error instanceof Error ? error.message : error
+          });
+          await Device.updateOne(
+            { _id: device._id, 'settings.schedules.id': schedule.id },
+            { $set: { 'settings.schedules.$.nextRunAt': null } },
+            { timestamps: false }
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Claim the due events of a schedule and send their commands; undefined when
+   * another run claimed them first
+   */
+  private async runSchedule(device: ScheduledDevice, schedule: Schedule, now: Date): Promise<ScheduleRun | undefined> {
+    const deviceId = String(device._id);
+    const dueAt = schedule.nextRunAt!;
+
+    let events: ScheduleEvent[] = [];
+    let nextRunAt: Date | null = null;
+    let invalid: string | undefined;
+    try {
+      const windowStart = Math.max(dueAt.getTime() - 1, now.getTime() - this.options.catchUpWindow - 1);
+      events = scheduleEvents(schedule, new Date(windowStart), now);
+      nextRunAt = nextRunAfter(schedule, now);
+    } catch (error) {
+      // Stored before validation or edited directly; stop running it
+      invalid = error instanceof Error ? error.message : 'Invalid schedule';
+    }
+
+    const claimed = await Device.updateOne(
+      { _id: device._id, 'settings.schedules': { $elemMatch: { id: schedule.id, nextRunAt: dueAt } } },
+      { $set: { 'settings.schedules.$.nextRunAt': nextRunAt } },
+      { timestamps: false }
+    );
+    if (claimed.modifiedCount !== 1) {
+      return undefined;
+    }
+    if (invalid) {
+      this.moduleLogger.warn('Invalid schedule stopped', { deviceId, scheduleId: schedule.id, error: invalid });
+      return this.recordRun(device, schedule, { at: now, action: 'start', success: false, error: invalid });
+    }
+
+    const { run, dropped } = selectCatchUpEvents(events, now, {
+      policy: schedule.catchUp ?? this.options.catchUp,
+      tolerance: this.options.interval * 2,
+      window: this.options.catchUpWindow
+    });
+    this.stats.missed += dropped;
+    if (run.length === 0) {
+      if (dropped > 0) {
+        this.moduleLogger.info('Missed schedule runs skipped', { deviceId, scheduleId: schedule.id, missed: dropped });
+      }
+      return undefined;
+    }
+
+    let last: ScheduleRun | undefined;
+    for (const event of run) {
+      last = await this.fire(device, schedule, event, now);
+    }
+    return this.recordRun(device, schedule, { ...last!, ...(dropped > 0 && { missed: dropped }) });
+  }
+
+  private async fire(device: ScheduledDevice, schedule: Schedule, event: ScheduleEvent, now: Date): Promise<ScheduleRun> {
+    const deviceId = String(device._id);
+    let entry: { command: string; parameters: Record<string, any> } | undefined;
+    try {
+      entry = commandForAction(scheduleCommands(schedule), event.action);
+    } catch (error) {
+      this.stats.failed++;
+      return { at: now, action: event.action, success: false, error: error instanceof Error ? error.message : 'Invalid schedule command' };
+    }
+    if (!entry) {
+      return { at: now, action: event.action, success: true };
+    }
+
+    const result = await this.deviceIntegration.executeDeviceCommand(
+      deviceId,
+      device.userId,
+      entry.command,
+      entry.parameters,
+      { source: 'schedule' }
+    );
+    if (result.success) {
+      this.stats.fired++;
+    } else {
+      this.stats.failed++;
+    }
+
+    this.moduleLogger.info('Schedule fired', {
+      deviceId,
+      scheduleId: schedule.id,
+      action: event.action,
+      command: entry.command,
+      dueAt: event.at,
+      success: result.success
+    });
+    this.emit('scheduleFired', {
+      deviceId,
+      userId: device.userId,
+      scheduleId: schedule.id,
+      action: event.action,
+      dueAt: event.at,
+      command: entry.command,
+      result
+    });
+
+    return {
+      at: now,
+      action: event.action,
+      success: result.success,
+      ...(result.error !== undefined && { error: result.error })
+    };
+  }
+
+  private async recordRun(device: ScheduledDevice, schedule: Schedule, run: ScheduleRun): Promise<ScheduleRun> {
+    await Device.updateOne(
+      { _id: device._id, 'settings.schedules.id': schedule.id },
+      { $set: { 'settings.schedules.$.lastRun': run } },
+      { timestamps: false }
+    );
+    return run;
+  }
+}
+
+export default SchedulerService;
@@ -0,0 +1,172 @@
+/**
+ * Scheduler Service Tests
+ *
+ * Claiming due schedules, catching up on runs missed while the scheduler was
+ * down and recording the last run. Devices are an in-memory stand-in for the
+ * Device model; commands go to a mocked device integration service.
+ */
+
+import { Schedule } from '@maestro/shared/types';
+
+import { Device } from '@/models/Device';
+import { DeviceIntegrationService } from '@/services/device-integration';
+import { MemoryModel } from '@/tests/helpers/memory-model';
+import { SchedulerService } from '../SchedulerService';
+
+jest.mock('@/models/Device', () => {
+  const { MemoryModel } = jest.requireActual('@/tests/helpers/memory-model');
+  return { ...jest.requireActual('@/models/Device'), Device: new MemoryModel() };
+});
+
+const devices = Device as unknown as MemoryModel;
+const DAY_MS = 86400000;
+
+function schedule(fields: Partial<Schedule> = {}): Schedule {
+  return {
+    id: 'morning',
+    name: 'Morning',
+    enabled: true,
+    pattern: 'daily',
+    startTime: '08:00',
+    command: { command: 'turn_on' },
+    timezone: 'UTC',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    nextRunAt: new Date('2026-03-02T08:00:00Z'),
+    ...fields
+  };
+}
+
+function storedSchedule(id = 'morning'): Schedule {
+  return devices.docs[0]!.settings.schedules.find((entry: Schedule) => entry.id === id);
+}
+
+describe('SchedulerService', () => {
+  let executeDeviceCommand: jest.Mock;
+
+  function scheduler(options = {}): SchedulerService {
+    return new SchedulerService(
+      { executeDeviceCommand } as unknown as DeviceIntegrationService,
+      { interval: 60000, catchUp: 'once', catchUpWindow: 3 * DAY_MS, ...options }
+    );
+  }
+
+  function store(...schedules: Schedule[]): void {
+    devices.docs = [{ _id: 'device-1', userId: 'user-1', name: 'Heater', settings: { schedules } }];
+  }
+
+  beforeEach(() => {
+    executeDeviceCommand = jest.fn().mockResolvedValue({ success: true });
+  });
+
+  it('runs a schedule that is due and moves its next run', async () => {
+    store(schedule());
+    const now = new Date('2026-03-02T08:00:30Z');
+
+    expect(await scheduler().tick(now)).toEqual({ due: 1, fired: 1, failed: 0, missed: 0 });
+
+    expect(executeDeviceCommand).toHaveBeenCalledWith('device-1', 'user-1', 'turn_on', {}, { source: 'schedule' });
+    expect(storedSchedule().nextRunAt).toEqual(new Date('2026-03-03T08:00:00Z'));
+    expect(storedSchedule().lastRun).toEqual({ at: now, action: 'start', success: true });
+  });
+
+  it('leaves schedules alone before they are due', async () => {
+    store(schedule());
+
+    expect(await scheduler().tick(new Date('2026-03-02T07:59:00Z'))).toEqual({ due: 0, fired: 0, failed: 0, missed: 0 });
+    expect(executeDeviceCommand).not.toHaveBeenCalled();
+  });
+
+  describe('catch-up', () => {
+    // Down from before the run of 2 March until after the run of 4 March
+    const now = new Date('2026-03-04T12:00:00Z');
+
+    it('runs the latest missed run once and counts the others as missed', async () => {
+      store(schedule());
+
+      expect(await scheduler().tick(now)).toEqual({ due: 1, fired: 1, failed: 0, missed: 2 });
+
+      expect(executeDeviceCommand).toHaveBeenCalledTimes(1);
+      expect(storedSchedule().lastRun).toEqual({ at: now, action: 'start', success: true, missed: 2 });
+      expect(storedSchedule().nextRunAt).toEqual(new Date('2026-03-05T08:00:00Z'));
+    });
+
+    it('runs every missed run with all, and none with skip', async () => {
+      store(schedule(), schedule({ id: 'evening', startTime: '20:00', nextRunAt: new Date('2026-03-02T20:00:00Z'), catchUp: 'skip' }));
+
+      const service = scheduler({ catchUp: 'all' });
+
+      expect(await service.tick(now)).toMatchObject({ due: 2, fired: 1, failed: 0 });
+      expect((await service.healthCheck()).details.missed).toBe(2);
+      expect(executeDeviceCommand).toHaveBeenCalledTimes(3);
+      expect(storedSchedule('evening').lastRun).toBeUndefined();
+      expect(storedSchedule('evening').nextRunAt).toEqual(new Date('2026-03-04T20:00:00Z'));
+    });
+
+    it('drops runs older than the catch-up window', async () => {
+      store(schedule());
+
+      expect(await scheduler({ catchUp: 'all', catchUpWindow: DAY_MS }).tick(now)).toMatchObject({ fired: 1 });
+      expect(executeDeviceCommand).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('claims a run once across ticks and scheduler instances', async () => {
+    store(schedule());
+    const now = new Date('2026-03-02T08:00:30Z');
+    const first = scheduler();
+
+    await Promise.all([first.tick(now), scheduler().tick(now)]);
+    const lastRun = storedSchedule().lastRun;
+    await first.tick(new Date(now.getTime() + 60000));
+
+    expect(executeDeviceCommand).toHaveBeenCalledTimes(1);
+    expect(storedSchedule().lastRun).toEqual(lastRun);
+  });
+
+  it('sends the end command of a window at its end', async () => {
+    store(schedule({ startTime: '22:00', endTime: '06:00', nextRunAt: new Date('2026-03-03T06:00:00Z') }));
+
+    await scheduler().tick(new Date('2026-03-03T06:00:10Z'));
+
+    expect(executeDeviceCommand).toHaveBeenCalledWith('device-1', 'user-1', 'turn_off', {}, { source: 'schedule' });
+    expect(storedSchedule().lastRun).toMatchObject({ action: 'end', success: true });
+    expect(storedSchedule().nextRunAt).toEqual(new Date('2026-03-03T22:00:00Z'));
+  });
+
+  it('records failed commands', async () => {
+    store(schedule());
+    executeDeviceCommand.mockResolvedValue({ success: false, error: 'Device offline' });
+
+    expect(await scheduler().tick(new Date('2026-03-02T08:00:30Z'))).toMatchObject({ fired: 0, failed: 1 });
+    expect(storedSchedule().lastRun).toMatchObject({ success: false, error: 'Device offline' });
+  });
+
+  it('plans schedules stored without a next run and stops invalid ones', async () => {
+    const { nextRunAt: _unplanned, ...unplanned } = schedule();
+    const { nextRunAt: _invalid, ...invalid } = schedule({ id: 'broken', startTime: '8 am' });
+    store(unplanned, invalid);
+
+    await scheduler().tick(new Date('2026-03-02T09:00:00Z'));
+
+    expect(storedSchedule().nextRunAt).toEqual(new Date('2026-03-03T08:00:00Z'));
+    expect(storedSchedule('broken').nextRunAt).toBeNull();
+    expect(executeDeviceCommand).not.toHaveBeenCalled();
+  });
+
+  it('resolves overlapping ticks and shutdown when the tick fails', async () => {
+    jest.spyOn(devices, 'find').mockImplementationOnce(() => {
+      throw new Error('connection lost');
+    });
+    const service = scheduler();
+
+    const ticks = [service.tick(), service.tick()];
+    const shutdown = service.shutdown();
+
+    await expect(Promise.all(ticks)).resolves.toEqual([
+      { due: 0, fired: 0, failed: 0, missed: 0 },
+      { due: 0, fired: 0, failed: 0, missed: 0 }
+    ]);
+    await expect(shutdown).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Schedule Recurrence Tests
+ *
+ * Occurrences of each pattern on the wall clock of the schedule's time zone,
+ * across DST changes, and the catch-up of missed events.
+ */
+
+import {
+  nextScheduleEvent,
+  nextScheduleEvents,
+  ScheduleEvent,
+  scheduleEvents,
+  ScheduleTiming,
+  selectCatchUpEvents,
+  validateScheduleTiming
+} from '../recurrence';
+
+const CREATED = new Date('2026-01-01T00:00:00Z');
+
+function timing(fields: Partial<ScheduleTiming> & Pick<ScheduleTiming, 'pattern' | 'startTime'>): ScheduleTiming {
+  return { timezone: 'Europe/Amsterdam', createdAt: CREATED, ...fields };
+}
+
+function starts(events: ScheduleEvent[]): string[] {
+  return events.filter(event => event.action === 'start').map(event => event.at.toISOString());
+}
+
+describe('scheduleEvents', () => {
+  describe('DST changes', () => {
+    const nightly = timing({ pattern: 'daily', startTime: '02:30' });
+
+    it('runs a time skipped by spring-forward as much later as the clocks moved', () => {
+      const events = scheduleEvents(nightly, new Date('2026-03-27T12:00:00Z'), new Date('2026-03-30T12:00:00Z'));
+
+      expect(starts(events)).toEqual([
+        '2026-03-28T01:30:00.000Z', // 02:30 CET
+        '2026-03-29T01:30:00.000Z', // 03:30 CEST, 02:30 does not exist
+        '2026-03-30T00:30:00.000Z' // 02:30 CEST
+      ]);
+    });
+
+    it('runs a time repeated by fall-back once', () => {
+      const events = scheduleEvents(nightly, new Date('2026-10-24T12:00:00Z'), new Date('2026-10-26T12:00:00Z'));
+
+      expect(starts(events)).toEqual([
+        '2026-10-25T01:30:00.000Z', // the second 02:30, CET
+        '2026-10-26T01:30:00.000Z'
+      ]);
+    });
+
+    it('keeps the wall-clock time of occurrences across the change', () => {
+      const morning = timing({ pattern: 'daily', startTime: '07:00' });
+
+      expect(starts(scheduleEvents(morning, new Date('2026-03-28T00:00:00Z'), new Date('2026-03-30T00:00:00Z')))).toEqual([
+        '2026-03-28T06:00:00.000Z',
+        '2026-03-29T05:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('DST changes west of UTC', () => {
+    it('runs a time skipped by spring-forward as much later as the clocks moved', () => {
+      const nightly = timing({ pattern: 'daily', startTime: '02:30', timezone: 'America/New_York' });
+      const events = scheduleEvents(nightly, new Date('2026-03-07T00:00:00Z'), new Date('2026-03-10T00:00:00Z'));
+
+      expect(starts(events)).toEqual([
+        '2026-03-07T07:30:00.000Z', // 02:30 EST
+        '2026-03-08T07:30:00.000Z', // 03:30 EDT, 02:30 does not exist
+        '2026-03-09T06:30:00.000Z' // 02:30 EDT
+      ]);
+    });
+
+    it('runs a time repeated by fall-back once, at its second occurrence', () => {
+      const nightly = timing({ pattern: 'daily', startTime: '01:30', timezone: 'America/New_York' });
+      const events = scheduleEvents(nightly, new Date('2026-10-31T00:00:00Z'), new Date('2026-11-03T00:00:00Z'));
+
+      expect(starts(events)).toEqual([
+        '2026-10-31T05:30:00.000Z', // 01:30 EDT
+        '2026-11-01T06:30:00.000Z', // the second 01:30, EST
+        '2026-11-02T06:30:00.000Z'
+      ]);
+    });
+  });
+
+  it('runs monthly days a month does not have on its last day', () => {
+    const monthEnd = timing({ pattern: 'monthly', startTime: '12:00', daysOfMonth: [30, 31], timezone: 'UTC' });
+
+    expect(starts(scheduleEvents(monthEnd, new Date('2026-01-31T13:00:00Z'), new Date('2026-05-01T00:00:00Z')))).toEqual([
+      '2026-02-28T12:00:00.000Z',
+      '2026-03-30T12:00:00.000Z',
+      '2026-03-31T12:00:00.000Z',
+      '2026-04-30T12:00:00.000Z'
+    ]);
+  });
+
+  it('runs yearly schedules from Feb 29 on Feb 28 in other years', () => {
+    const leapDay = timing({ pattern: 'yearly', startTime: '09:00', timezone: 'UTC', validFrom: new Date('2028-02-29T00:00:00Z') });
+
+    expect(starts(nextScheduleEvents(leapDay, new Date('2028-01-01T00:00:00Z'), 2))).toEqual([
+      '2028-02-29T09:00:00.000Z',
+      '2029-02-28T09:00:00.000Z'
+    ]);
+  });
+
+  it('limits weekly and custom schedules to their days', () => {
+    const weekdays = timing({ pattern: 'weekly', startTime: '08:00', daysOfWeek: [1, 5], timezone: 'UTC' });
+    const fridayThe13th = timing({ pattern: 'custom', startTime: '08:00', daysOfWeek: [5], daysOfMonth: [13], timezone: 'UTC' });
+
+    expect(starts(scheduleEvents(weekdays, new Date('2026-03-02T00:00:00Z'), new Date('2026-03-09T00:00:00Z')))).toEqual([
+      '2026-03-02T08:00:00.000Z',
+      '2026-03-06T08:00:00.000Z'
+    ]);
+    expect(starts(nextScheduleEvents(fridayThe13th, new Date('2026-01-01T00:00:00Z'), 2))).toEqual([
+      '2026-02-13T08:00:00.000Z',
+      '2026-03-13T08:00:00.000Z'
+    ]);
+  });
+
+  describe('once', () => {
+    it('runs at the first start after it was created', () => {
+      const once = timing({ pattern: 'once', startTime: '09:00', timezone: 'UTC', createdAt: new Date('2026-03-02T10:00:00Z') });
+
+      expect(nextScheduleEvent(once, new Date('2026-03-02T10:00:00Z'))!.at).toEqual(new Date('2026-03-03T09:00:00Z'));
+      expect(nextScheduleEvent(once, new Date('2026-03-03T09:00:00Z'))).toBeUndefined();
+    });
+
+    it('runs on the day of validFrom when its start is still ahead', () => {
+      const once = timing({ pattern: 'once', startTime: '18:00', endTime: '19:00', timezone: 'UTC', validFrom: new Date('2026-06-01T08:00:00Z') });
+
+      expect(nextScheduleEvents(once, CREATED, 5).map(event => [event.action, event.at.toISOString()])).toEqual([
+        ['start', '2026-06-01T18:00:00.000Z'],
+        ['end', '2026-06-01T19:00:00.000Z']
+      ]);
+    });
+  });
+
+  describe('overnight windows', () => {
+    const night = timing({ pattern: 'weekly', startTime: '22:00', endTime: '06:00', daysOfWeek: [5], timezone: 'UTC' });
+
+    it('ends on the next day', () => {
+      const events = scheduleEvents(night, new Date('2026-03-06T00:00:00Z'), new Date('2026-03-08T00:00:00Z'));
+
+      expect(events).toEqual([
+        { at: new Date('2026-03-06T22:00:00Z'), action: 'start', occurrence: new Date('2026-03-06T22:00:00Z') },
+        { at: new Date('2026-03-07T06:00:00Z'), action: 'end', occurrence: new Date('2026-03-06T22:00:00Z') }
+      ]);
+    });
+
+    it('ends an occurrence that started before the range', () => {
+      const events = scheduleEvents(night, new Date('2026-03-07T00:00:00Z'), new Date('2026-03-07T12:00:00Z'));
+
+      expect(events).toEqual([
+        { at: new Date('2026-03-07T06:00:00Z'), action: 'end', occurrence: new Date('2026-03-06T22:00:00Z') }
+      ]);
+    });
+
+    it('keeps the end of the last occurrence after validUntil', () => {
+      const ending = { ...night, validUntil: new Date('2026-03-07T00:00:00Z') };
+
+      expect(nextScheduleEvents(ending, new Date('2026-03-06T00:00:00Z'), 5).map(event => event.action)).toEqual(['start', 'end']);
+    });
+  });
+});
+
+describe('validateScheduleTiming', () => {
+  it('rejects timings without runs', () => {
+    expect(() => validateScheduleTiming(timing({ pattern: 'daily', startTime: '24:00' }))).toThrow('HH:MM');
+    expect(() => validateScheduleTiming(timing({ pattern: 'daily', startTime: '08:00', endTime: '08:00' }))).toThrow('must differ');
+    expect(() => validateScheduleTiming(timing({ pattern: 'daily', startTime: '08:00', timezone: 'Mars/Olympus' }))).toThrow('Unknown time zone');
+    expect(() => validateScheduleTiming(timing({ pattern: 'weekly', startTime: '08:00' }))).toThrow('need daysOfWeek');
+    expect(() => validateScheduleTiming(timing({ pattern: 'monthly', startTime: '08:00', daysOfMonth: [] }))).toThrow('need daysOfMonth');
+    expect(() => validateScheduleTiming(timing({
+      pattern: 'daily',
+      startTime: '08:00',
+      validFrom: new Date('2026-02-01T00:00:00Z'),
+      validUntil: new Date('2026-01-01T00:00:00Z')
+    }))).toThrow('validUntil must be after validFrom');
+  });
+});
+
+describe('selectCatchUpEvents', () => {
+  const now = new Date('2026-03-02T12:00:00Z');
+  const event = (minutesAgo: number): ScheduleEvent => {
+    const at = new Date(now.getTime() - minutesAgo * 60000);
+    return { at, action: 'start', occurrence: at };
+  };
+  const missed = [event(600), event(120), event(30), event(1)];
+  const options = { tolerance: 5 * 60000, window: 3 * 3600000 };
+
+  it('runs only on-time events with skip', () => {
+    expect(selectCatchUpEvents(missed, now, { ...options, policy: 'skip' })).toEqual({ run: [missed[3]], dropped: 3 });
+  });
+
+  it('runs the latest missed event with once when none is on time', () => {
+    expect(selectCatchUpEvents(missed.slice(0, 3), now, { ...options, policy: 'once' })).toEqual({ run: [missed[2]], dropped: 2 });
+    expect(selectCatchUpEvents(missed, now, { ...options, policy: 'once' })).toEqual({ run: [missed[3]], dropped: 3 });
+  });
+
+  it('runs every missed event within the window with all', () => {
+    expect(selectCatchUpEvents(missed, now, { ...options, policy: 'all' })).toEqual({ run: missed.slice(1), dropped: 1 });
+  });
+});
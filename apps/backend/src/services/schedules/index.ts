@@ -0,0 +1,3 @@
+export * from './recurrence';
+export * from './schedules';
+export * from './SchedulerService';
@@ -0,0 +1,283 @@
+import { Schedule, ScheduleCatchUp } from '@maestro/shared/types';
+
+import { createError } from '@/utils/errors';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from '@/utils/timezone';
+
+/**
+ * Schedule Recurrence
+ *
+ * When a schedule runs. Occurrences start at `startTime` on the wall clock of
+ * the schedule's time zone and, with an `endTime`, end at that time on the
+ * same day or, when it is not later than the start, on the next day:
+ *
+ * - once: the first start at or after `validFrom`, or the creation time
+ * - daily: every day, or the `daysOfWeek` when given
+ * - weekly: the `daysOfWeek`
+ * - monthly: the `daysOfMonth`; days a month does not have run on its last day
+ * - yearly: the date of `validFrom`, or of the creation time (Feb 29 runs on Feb 28)
+ * - custom: days matching all given `daysOfWeek` and `daysOfMonth`
+ *
+ * Occurrences starting outside `validFrom`..`validUntil` are left out; the end
+ * of an included occurrence is kept even after `validUntil`. A wall-clock time
+ * skipped by a DST change runs as much later as the clocks moved (02:30 at
+ * 03:30), and one that happens twice runs once, at its second occurrence.
+ */
+
+export type ScheduleAction = 'start' | 'end';
+
+export interface ScheduleEvent {
+  at: Date;
+  action: ScheduleAction;
+  occurrence: Date; // start of the occurrence the event belongs to
+}
+
+// The schedule fields deciding when it runs
+export type ScheduleTiming = Pick<
+  Schedule,
+  'pattern' | 'startTime' | 'endTime' | 'daysOfWeek' | 'daysOfMonth' | 'timezone' | 'validFrom' | 'validUntil' | 'createdAt'
+>;
+
+export interface CatchUpOptions {
+  policy: ScheduleCatchUp;
+  tolerance: number; // milliseconds an event may be late and still count as on time
+  window: number; // milliseconds after which a missed event is never run
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+interface LocalDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+interface SchedulePlan {
+  timing: ScheduleTiming;
+  start: TimeOfDay;
+  end?: TimeOfDay | undefined;
+  overnight: boolean; // the end is on the day after the start
+  anchor: LocalDay; // date of validFrom or the creation time
+  once?: LocalDay | undefined; // the only day of a once schedule
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const HORIZON_DAYS = 800; // how far ahead next runs are looked for
+const TIME_OF_DAY = /^([01]?[0-9]|2[0-3]):([0-5][0-9])$/;
+
+/**
+ * Check that a schedule's timing fields describe runs
+ */
+export function validateScheduleTiming(timing: ScheduleTiming): void {
+  const start = parseTimeOfDay(timing.startTime, 'Start time');
+  if (timing.endTime !== undefined) {
+    const end = parseTimeOfDay(timing.endTime, 'End time');
+    if (end.hour === start.hour && end.minute === start.minute) {
+      throw createError.validation('End time must differ from start time');
+    }
+  }
+  if (!isValidTimeZone(timing.timezone)) {
+    throw createError.validation(`Unknown time zone: ${timing.timezone}`);
+  }
+  if (timing.validFrom && timing.validUntil && timing.validUntil <= timing.validFrom) {
+    throw createError.validation('validUntil must be after validFrom');
+  }
+
+  const hasDaysOfWeek = (timing.daysOfWeek?.length ?? 0) > 0;
+  const hasDaysOfMonth = (timing.daysOfMonth?.length ?? 0) > 0;
+  switch (timing.pattern) {
+    case 'weekly':
+      if (!hasDaysOfWeek) {
+        throw createError.validation('Weekly schedules need daysOfWeek');
+      }
+      break;
+    case 'monthly':
+      if (!hasDaysOfMonth) {
+        throw createError.validation('Monthly schedules need daysOfMonth');
+      }
+      break;
+    case 'custom':
+      if (!hasDaysOfWeek && !hasDaysOfMonth) {
+        throw createError.validation('Custom schedules need daysOfWeek or daysOfMonth');
+      }
+      break;
+  }
+}
+
+/**
+ * Events after `after` up to and including `until`, earliest first
+ */
+export function scheduleEvents(timing: ScheduleTiming, after: Date, until: Date, limit = 1000): ScheduleEvent[] {
+  if (until <= after) {
+    return [];
+  }
+  return collectEvents(planSchedule(timing), after, until, limit);
+}
+
+/**
+ * The next `count` events after an instant
+ */
+export function nextScheduleEvents(timing: ScheduleTiming, after: Date, count: number): ScheduleEvent[] {
+  return collectEvents(planSchedule(timing), after, undefined, count);
+}
+
+/**
+ * The next event after an instant; undefined when the schedule has no runs left
+ */
+export function nextScheduleEvent(timing: ScheduleTiming, after: Date): ScheduleEvent | undefined {
+  return nextScheduleEvents(timing, after, 1)[0];
+}
+
+/**
+ * The missed events to run now under a catch-up policy: `skip` runs only
+ * events that are on time, `once` the on-time events or else the latest
+ * missed one, and `all` every missed event within the window
+ */
+export function selectCatchUpEvents(
+  missed: ScheduleEvent[],
+  now: Date,
+  options: CatchUpOptions
+): { run: ScheduleEvent[]; dropped: number } {
+  const age = (event: ScheduleEvent): number => now.getTime() - event.at.getTime();
+  const inWindow = missed.filter(event => age(event) <= options.window);
+  const onTime = inWindow.filter(event => age(event) <= options.tolerance);
+
+  let run: ScheduleEvent[];
+  switch (options.policy) {
+    case 'skip':
+      run = onTime;
+      break;
+    case 'once':
+      run = onTime.length > 0 ? onTime : inWindow.slice(-1);
+      break;
+    case 'all':
+      run = inWindow;
+      break;
+  }
+  return { run, dropped: missed.length - run.length };
+}
+
+// Helper functions
+
+function parseTimeOfDay(value: string, label: string): TimeOfDay {
+  const match = TIME_OF_DAY.exec(value);
+  if (!match) {
+    throw createError.validation(`${label} must be in HH:MM format`);
+  }
+  return { hour: parseInt(match[1]!, 10), minute: parseInt(match[2]!, 10) };
+}
+
+function planSchedule(timing: ScheduleTiming): SchedulePlan {
+  validateScheduleTiming(timing);
+
+  const start = parseTimeOfDay(timing.startTime, 'Start time');
+  const end = timing.endTime !== undefined ? parseTimeOfDay(timing.endTime, 'End time') : undefined;
+  const anchorInstant = timing.validFrom ?? timing.createdAt;
+  const anchor = localDay(anchorInstant, timing.timezone);
+  const plan: SchedulePlan = {
+    timing,
+    start,
+    end,
+    overnight: end !== undefined && end.hour * 60 + end.minute <= start.hour * 60 + start.minute,
+    anchor
+  };
+
+  if (timing.pattern === 'once') {
+    const sameDay = zonedTimeToUtc(timing.timezone, anchor.year, anchor.month, anchor.day, start.hour, start.minute);
+    plan.once = sameDay >= anchorInstant ? anchor : addDays(anchor, 1);
+  }
+  return plan;
+}
+
+function collectEvents(plan: SchedulePlan, after: Date, until: Date | undefined, limit: number): ScheduleEvent[] {
+  const { timing } = plan;
+  const include = (event: ScheduleEvent): boolean => event.at > after && (until === undefined || event.at <= until);
+
+  if (plan.once) {
+    return occurrenceEvents(plan, plan.once).filter(include).slice(0, limit);
+  }
+
+  // From the day before, whose occurrence may end after `after`
+  const from = timing.validFrom && timing.validFrom > after ? timing.validFrom : after;
+  const first = dayNumber(localDay(new Date(from.getTime() - DAY), timing.timezone));
+  let last = until ? dayNumber(localDay(until, timing.timezone)) : first + HORIZON_DAYS * DAY;
+  if (timing.validUntil) {
+    last = Math.min(last, dayNumber(localDay(timing.validUntil, timing.timezone)));
+  }
+
+  const events: ScheduleEvent[] = [];
+  for (let day = first; day <= last && events.length < limit; day += DAY) {
+    const local = fromDayNumber(day);
+    if (matchesDay(plan, local)) {
+      events.push(...occurrenceEvents(plan, local).filter(include));
+    }
+  }
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime()).slice(0, limit);
+}
+
+function matchesDay(plan: SchedulePlan, local: LocalDay): boolean {
+  const { daysOfWeek = [], daysOfMonth = [] } = plan.timing;
+  const weekdayMatches = daysOfWeek.length === 0 || daysOfWeek.includes(local.weekday);
+  const lastDay = new Date(Date.UTC(local.year, local.month, 0)).getUTCDate();
+  const monthDayMatches = daysOfMonth.length === 0 ||
+    daysOfMonth.includes(local.day) ||
+    (local.day === lastDay && daysOfMonth.some(day => day > lastDay));
+
+  switch (plan.timing.pattern) {
+    case 'once':
+      return false; // planned separately
+    case 'daily':
+    case 'weekly':
+      return weekdayMatches;
+    case 'monthly':
+      return monthDayMatches;
+    case 'yearly':
+      return local.month === plan.anchor.month &&
+        (local.day === plan.anchor.day || (local.day === lastDay && plan.anchor.day > lastDay));
+    case 'custom':
+      return weekdayMatches && monthDayMatches;
+  }
+}
+
+function occurrenceEvents(plan: SchedulePlan, local: LocalDay): ScheduleEvent[] {
+  const { timezone, validFrom, validUntil } = plan.timing;
+  const start = zonedTimeToUtc(timezone, local.year, local.month, local.day, plan.start.hour, plan.start.minute);
+  if ((validFrom && start < validFrom) || (validUntil && start > validUntil)) {
+    return [];
+  }
+
+  const events: ScheduleEvent[] = [{ at: start, action: 'start', occurrence: start }];
+  if (plan.end) {
+    const endDay = plan.overnight ? addDays(local, 1) : local;
+    const end = zonedTimeToUtc(timezone, endDay.year, endDay.month, endDay.day, plan.end.hour, plan.end.minute);
+    events.push({ at: end, action: 'end', occurrence: start });
+  }
+  return events;
+}
+
+function localDay(date: Date, timeZone: string): LocalDay {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return fromDayNumber(Date.UTC(year, month - 1, day));
+}
+
+function addDays(local: LocalDay, days: number): LocalDay {
+  return fromDayNumber(dayNumber(local) + days * DAY);
+}
+
+// Local dates as UTC midnights, so days can be counted without time zones
+function dayNumber(local: LocalDay): number {
+  return Date.UTC(local.year, local.month - 1, local.day);
+}
+
+function fromDayNumber(value: number): LocalDay {
+  const date = new Date(value);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  };
+}
@@ -0,0 +1,187 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { DeviceCapability, Schedule, ScheduleCatchUp, validateDeviceCommandParameters } from '@maestro/shared/types';
+
+import { createError } from '@/utils/errors';
+import { ScheduleAction, ScheduleTiming, nextScheduleEvent, validateScheduleTiming } from './recurrence';
+
+/**
+ * Schedule Definitions
+ *
+ * The `command` of a schedule is `{ command, parameters?, endCommand? }`; the
+ * end command runs at `endTime` and defaults to the opposite of `turn_on` or
+ * `turn_off`. Commands are checked against the device capabilities when a
+ * schedule is saved, and `nextRunAt` is computed from the save time, so
+ * changing or re-enabling a schedule never catches up on runs before it.
+ */
+
+export interface ScheduleCommand {
+  command: string;
+  parameters: Record<string, any>;
+}
+
+export interface ScheduleCommands {
+  start: ScheduleCommand;
+  end?: ScheduleCommand | undefined;
+}
+
+export interface ScheduleInput {
+  name: string;
+  enabled?: boolean | undefined;
+  pattern: Schedule['pattern'];
+  startTime: string;
+  endTime?: string | undefined;
+  daysOfWeek?: number[] | undefined;
+  daysOfMonth?: number[] | undefined;
+  command: Record<string, any>;
+  timezone: string;
+  validFrom?: Date | undefined;
+  validUntil?: Date | undefined;
+  catchUp?: ScheduleCatchUp | undefined;
+}
+
+// null clears an optional field
+export type ScheduleChanges = {
+  [K in keyof ScheduleInput]?: ScheduleInput[K] | (undefined extends ScheduleInput[K] ? null : never);
+};
+
+const INVERSE_COMMANDS: Record<string, string> = {
+  turn_on: 'turn_off',
+  turn_off: 'turn_on'
+};
+
+const OPTIONAL_FIELDS = ['endTime', 'daysOfWeek', 'daysOfMonth', 'validFrom', 'validUntil', 'catchUp'] as const;
+
+/**
+ * The commands a schedule runs at the start and end of its occurrences
+ */
+export function scheduleCommands(schedule: Pick<Schedule, 'command' | 'endTime'>): ScheduleCommands {
+  const { command, parameters = {}, endCommand } = schedule.command;
+  if (typeof command !== 'string' || command.length === 0) {
+    throw createError.validation('Schedule command needs a command name');
+  }
+  const start: ScheduleCommand = { command, parameters };
+  if (schedule.endTime === undefined) {
+    return { start };
+  }
+
+  if (endCommand !== undefined) {
+    if (typeof endCommand?.command !== 'string' || endCommand.command.length === 0) {
+      throw createError.validation('Schedule end command needs a command name');
+    }
+    return { start, end: { command: endCommand.command, parameters: endCommand.parameters ?? {} } };
+  }
+  const inverse = INVERSE_COMMANDS[command];
+  if (!inverse) {
+    throw createError.validation(`Schedules running '${command}' with an end time need an endCommand`);
+  }
+  return { start, end: { command: inverse, parameters } };
+}
+
+/**
+ * The command of an event
+ */
+export function commandForAction(commands: ScheduleCommands, action: ScheduleAction): ScheduleCommand | undefined {
+  return action === 'start' ? commands.start : commands.end;
+}
+
+/**
+ * Check the schedule commands against the device and return them with parsed parameters
+ */
+export function validateScheduleCommands(
+  schedule: Pick<Schedule, 'command' | 'endTime'>,
+  capabilities: DeviceCapability[]
+): Record<string, any> {
+  const commands = scheduleCommands(schedule);
+  const check = (entry: ScheduleCommand): ScheduleCommand => {
+    const validation = validateDeviceCommandParameters(entry.command, entry.parameters, capabilities);
+    if (!validation.valid) {
+      throw createError.validation(`Invalid command '${entry.command}': ${validation.errors.join('; ')}`, {
+        errors: validation.errors
+      });
+    }
+    return { command: entry.command, parameters: validation.parameters };
+  };
+
+  const start = check(commands.start);
+  const end = commands.end && check(commands.end);
+  return {
+    ...start,
+    ...(end && schedule.command.endCommand !== undefined && { endCommand: end })
+  };
+}
+
+/**
+ * A new schedule for a device
+ */
+export function createSchedule(input: ScheduleInput, capabilities: DeviceCapability[], now = new Date()): Schedule {
+  const schedule: Schedule = {
+    id: uuidv4(),
+    name: input.name,
+    enabled: input.enabled ?? true,
+    pattern: input.pattern,
+    startTime: input.startTime,
+    command: input.command,
+    timezone: input.timezone,
+    ...(input.endTime !== undefined && { endTime: input.endTime }),
+    ...(input.daysOfWeek !== undefined && { daysOfWeek: input.daysOfWeek }),
+    ...(input.daysOfMonth !== undefined && { daysOfMonth: input.daysOfMonth }),
+    ...(input.validFrom !== undefined && { validFrom: input.validFrom }),
+    ...(input.validUntil !== undefined && { validUntil: input.validUntil }),
+    ...(input.catchUp !== undefined && { catchUp: input.catchUp }),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  validateScheduleTiming(schedule);
+  schedule.command = validateScheduleCommands(schedule, capabilities);
+  schedule.nextRunAt = nextRunAfter(schedule, now);
+  return schedule;
+}
+
+/**
+ * The updates applying changes to a stored schedule, with its next run recomputed
+ */
+export function scheduleUpdates(
+  current: Schedule,
+  changes: ScheduleChanges,
+  capabilities: DeviceCapability[],
+  now = new Date()
+): Partial<Schedule> {
+  const updates: Partial<Schedule> & Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      updates[key] = value ?? undefined;
+    }
+  }
+
+  const merged: Schedule = {
+    id: current.id,
+    name: updates.name ?? current.name,
+    enabled: updates.enabled ?? current.enabled,
+    pattern: updates.pattern ?? current.pattern,
+    startTime: updates.startTime ?? current.startTime,
+    command: updates.command ?? current.command,
+    timezone: updates.timezone ?? current.timezone,
+    createdAt: current.createdAt,
+    updatedAt: now
+  };
+  for (const field of OPTIONAL_FIELDS) {
+    const value = field in updates ? updates[field] : current[field];
+    if (value !== undefined && value !== null) {
+      (merged as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  validateScheduleTiming(merged);
+  updates.command = validateScheduleCommands(merged, capabilities);
+  updates.nextRunAt = nextRunAfter(merged, now);
+  return updates;
+}
+
+/**
+ * When a schedule runs next after an instant; null when it has no runs left
+ */
+export function nextRunAfter(timing: ScheduleTiming, after: Date): Date | null {
+  return nextScheduleEvent(timing, after)?.at ?? null;
+}
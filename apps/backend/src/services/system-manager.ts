@@ -6,6 +6,17 @@ import { WebSocketManager } from '@/services/websocket';
 import { WebSocketIntegrationService } from '@/services/websocket-integration';
 import { DeviceIntegrationService } from '@/services/device-integration';
 import { DeviceHistoryService } from '@/services/device-history';
+import { EnergyIngestionService } from '@/services/energy-ingestion';
+import { EnergyRollupService } from '@/services/energy-rollup';
+import { EnergyFlowService } from '@/services/energy-flow';
+import { VirtualMeterService } from '@/services/meters';
+import { EnergyReportService } from '@/services/reports';
+import { EmailService } from '@/services/email';
+import { SchedulerService } from '@/services/schedules';
+import { AutomationService } from '@/services/automations';
+import { MeasurementStore, createMeasurementStore } from '@/services/measurements';
+import { EnergyPriceService, createPriceProvider } from '@/services/prices';
+import { CarbonIntensityService, createCarbonProvider } from '@/services/carbon';
 import { DeviceService } from '@/services/database/DeviceService';
 import { UserService } from '@/services/database/UserService';
 import { AuthMiddleware } from '@/middleware/auth';
@@ -35,6 +46,17 @@ export interface SystemServices {
   webSocketIntegration?: WebSocketIntegrationService;
   deviceIntegration: DeviceIntegrationService;
   deviceHistory: DeviceHistoryService;
+  measurementStore: MeasurementStore;
+  energyIngestion?: EnergyIngestionService;
+  energyRollup?: EnergyRollupService;
+  energyFlow?: EnergyFlowService;
+  virtualMeters?: VirtualMeterService;
+  energyReports?: EnergyReportService;
+  email?: EmailService;
+  scheduler?: SchedulerService;
+  automations?: AutomationService;
+  energyPrices?: EnergyPriceService;
+  carbonIntensity?: CarbonIntensityService;
   deviceService: DeviceService;
   userService: UserService;
   auth: AuthMiddleware;
@@ -44,6 +66,15 @@ export interface SystemConfig {
   enableWebSocket?: boolean;
   enableProtocolAdapters?: boolean;
   enableDeviceHistory?: boolean;
+  enableEnergyIngestion?: boolean;
+  enableEnergyRollup?: boolean;
+  enableEnergyFlow?: boolean;
+  enableVirtualMeters?: boolean;
+  enableEnergyReports?: boolean;
+  enableScheduler?: boolean;
+  enableAutomations?: boolean;
+  enableEnergyPrices?: boolean;
+  enableCarbonIntensity?: boolean;
   maxInitializationTime?: number; // milliseconds
   healthCheckInterval?: number; // milliseconds
 }
@@ -172,7 +203,18 @@ export class SystemManager extends EventEmitter {
       { name: 'protocolManager', service: this.services.protocolManager },
       { name: 'webSocket', service: this.services.webSocket },
       { name: 'deviceIntegration', service: this.services.deviceIntegration },
-      { name: 'deviceHistory', service: this.services.deviceHistory }
+      { name: 'deviceHistory', service: this.services.deviceHistory },
+      { name: 'measurementStore', service: this.services.measurementStore },
+      { name: 'energyIngestion', service: this.services.energyIngestion },
+      { name: 'energyRollup', service: this.services.energyRollup },
+      { name: 'energyFlow', service: this.services.energyFlow },
+      { name: 'virtualMeters', service: this.services.virtualMeters },
+      { name: 'energyReports', service: this.services.energyReports },
+      { name: 'email', service: this.services.email },
+      { name: 'scheduler', service: this.services.scheduler },
+      { name: 'automations', service: this.services.automations },
+      { name: 'energyPrices', service: this.services.energyPrices },
+      { name: 'carbonIntensity', service: this.services.carbonIntensity }
     ];
 
     for (const { name, service } of serviceChecks) {
@@ -308,6 +350,97 @@ export class SystemManager extends EventEmitter {
           this.services.cache
         );
         // Note: DeviceIntegrationService.initialize() will be called after WebSocket setup
+
+        // Keep a history of executed commands and who issued them
+        const deviceHistory = this.services.deviceHistory;
+        if (deviceHistory) {
+          this.services.deviceIntegration.on('commandExecuted', ({ deviceId, userId, command, result, source }) => {
+            deviceHistory.logCommand(deviceId, userId, command, result, source).catch(error => {
+              this.moduleLogger.warn('Failed to log device command', { deviceId, error });
+            });
+          });
+        }
+      }
+
+      // Step 8: Initialize energy prices, carbon intensity, measurement store and energy ingestion
+      if (this.config.enableEnergyPrices !== false) {
+        this.moduleLogger.info('Initializing energy price service...');
+        this.services.energyPrices = new EnergyPriceService(createPriceProvider());
+        this.services.energyPrices.initialize();
+      }
+      if (this.config.enableCarbonIntensity !== false) {
+        this.moduleLogger.info('Initializing carbon intensity service...');
+        this.services.carbonIntensity = new CarbonIntensityService(createCarbonProvider());
+        this.services.carbonIntensity.initialize();
+      }
+
+      this.services.measurementStore = createMeasurementStore();
+      if (this.config.enableEnergyIngestion !== false && this.services.protocolManager) {
+        this.moduleLogger.info('Initializing energy ingestion service...');
+        this.services.energyIngestion = new EnergyIngestionService(
+          this.services.protocolManager,
+          this.services.deviceService,
+          this.services.measurementStore,
+          {},
+          this.services.energyPrices,
+          this.services.carbonIntensity
+        );
+        this.services.energyIngestion.initialize();
+      }
+
+      // Step 9: Initialize household energy flows
+      if (this.config.enableEnergyFlow !== false && this.services.energyIngestion) {
+        this.moduleLogger.info('Initializing energy flow service...');
+        this.services.energyFlow = new EnergyFlowService(
+          this.services.energyIngestion,
+          {},
+          this.services.energyPrices,
+          this.services.carbonIntensity
+        );
+        this.services.energyFlow.initialize();
+      }
+
+      // Step 10: Initialize virtual meters
+      if (this.config.enableVirtualMeters !== false && this.services.energyIngestion) {
+        this.moduleLogger.info('Initializing virtual meter service...');
+        this.services.virtualMeters = new VirtualMeterService(this.services.energyIngestion);
+        this.services.virtualMeters.initialize();
+      }
+
+      // Step 11: Initialize energy rollups
+      if (this.config.enableEnergyRollup !== false) {
+        this.moduleLogger.info('Initializing energy rollup service...');
+        this.services.energyRollup = new EnergyRollupService(this.services.measurementStore);
+        this.services.energyRollup.initialize();
+      }
+
+      // Step 12: Initialize energy reports (emailed when SMTP is configured)
+      if (this.config.enableEnergyReports !== false && this.services.energyRollup) {
+        this.moduleLogger.info('Initializing energy report service...');
+        this.services.email = new EmailService();
+        this.services.energyReports = new EnergyReportService(this.services.energyRollup, this.services.email);
+        this.services.energyReports.initialize();
+      }
+
+      // Step 13: Initialize device schedules
+      if (this.config.enableScheduler !== false && this.services.deviceIntegration) {
+        this.moduleLogger.info('Initializing scheduler...');
+        this.services.scheduler = new SchedulerService(this.services.deviceIntegration);
+        this.services.scheduler.initialize();
+      }
+
+      // Step 14: Initialize automation rules (on device updates, measurements, energy flows and prices)
+      if (this.config.enableAutomations !== false && this.services.deviceIntegration) {
+        this.moduleLogger.info('Initializing automation service...');
+        this.services.email ??= new EmailService();
+        this.services.automations = new AutomationService(this.services.deviceIntegration, {
+          protocolManager: this.services.protocolManager,
+          ingestion: this.services.energyIngestion,
+          energyFlow: this.services.energyFlow,
+          prices: this.services.energyPrices,
+          email: this.services.email
+        });
+        await this.services.automations.initialize();
       }
 
       this.moduleLogger.info('Core services initialization completed');
@@ -320,6 +453,17 @@ export class SystemManager extends EventEmitter {
 
   private async performShutdown(): Promise<void> {
     const shutdownServices = [
+      { name: 'automations', service: this.services.automations },
+      { name: 'scheduler', service: this.services.scheduler },
+      { name: 'energyReports', service: this.services.energyReports },
+      { name: 'email', service: this.services.email },
+      { name: 'energyRollup', service: this.services.energyRollup },
+      { name: 'energyFlow', service: this.services.energyFlow },
+      { name: 'virtualMeters', service: this.services.virtualMeters },
+      { name: 'energyIngestion', service: this.services.energyIngestion },
+      { name: 'energyPrices', service: this.services.energyPrices },
+      { name: 'carbonIntensity', service: this.services.carbonIntensity },
+      { name: 'measurementStore', service: this.services.measurementStore },
       { name: 'deviceIntegration', service: this.services.deviceIntegration },
       { name: 'webSocketIntegration', service: this.services.webSocketIntegration },
       { name: 'webSocket', service: this.services.webSocket },
@@ -339,6 +483,8 @@ export class SystemManager extends EventEmitter {
           await (service as any).shutdown();
         } else if (typeof (service as any).disconnect === 'function') {
           await (service as any).disconnect();
+        } else if (typeof (service as any).close === 'function') {
+          await (service as any).close();
         }
         
         this.moduleLogger.info(`${name} shut down successfully`);
@@ -427,6 +573,8 @@ export class SystemManager extends EventEmitter {
    */
   async completeWebSocketSetup(wsManager: WebSocketManager): Promise<void> {
     this.services.webSocket = wsManager;
+    this.services.energyFlow?.setWebSocketManager(wsManager);
+    this.services.automations?.setWebSocketManager(wsManager);
 
     if (this.services.deviceIntegration) {
       // Update device integration with WebSocket manager
@@ -0,0 +1,472 @@
+import {
+  EnergyPreferences,
+  TariffRateWindow,
+  TariffSeason,
+  TariffTier
+} from '@/models/UserPreferences';
+import { createError } from '@/utils/errors';
+import { addPeriods, getZonedParts, isValidTimeZone, startOfPeriod, zonedTimeToUtc } from '@/utils/timezone';
+
+/**
+ * Tariff Engine
+ *
+ * Prices energy intervals under a user's tariff: fixed rates, time-of-use
+ * windows with weekday/weekend and seasonal variants, tiered monthly blocks,
+ * dynamic spot prices, daily standing charges, per-kWh energy tax, VAT and
+ * export feed-in tariffs. Intervals are split at window edges, price
+ * intervals and local midnight in the tariff's time zone, so a charge does
+ * not depend on how the interval was bucketed.
+ */
+
+export type TariffStructure = EnergyPreferences['tariffStructure'];
+
+export interface TariffDefinition {
+  structure: TariffStructure;
+  currency: string;
+  timeZone: string;
+  baseRate: number; // per kWh, outside time-of-use windows and without tiers
+  windows?: TariffRateWindow[] | undefined; // first matching window wins
+  seasons?: TariffSeason[] | undefined;
+  tiers?: TariffTier[] | undefined;
+  standingCharge?: number | undefined; // per day
+  energyTax?: number | undefined; // per kWh
+  taxRate?: number | undefined; // VAT fraction
+  feedInTariff?: number | undefined; // per exported kWh
+  priceZone?: string | undefined; // real_time: bidding zone
+  spotMarkup?: number | undefined; // real_time: per kWh on top of the spot price
+  prices?: TariffPrice[] | undefined; // real_time: spot prices, gaps fall back to the base rate
+}
+
+/**
+ * Spot price of an interval, per kWh before taxes
+ */
+export interface TariffPrice {
+  start: Date;
+  end: Date;
+  price: number;
+}
+
+export interface TariffInterval {
+  start: Date;
+  end: Date;
+  imported: number; // kWh, spread evenly over the interval
+  exported?: number; // kWh
+}
+
+export interface TariffCharge {
+  imported: number;
+  exported: number;
+  energy: number; // imported energy at tariff rates
+  energyTax: number;
+  standing: number;
+  vat: number;
+  exportCredit: number;
+  total: number; // energy + energyTax + standing + vat, export credit not deducted
+}
+
+interface CompiledWindow {
+  name: string;
+  rate: number;
+  days: NonNullable<TariffRateWindow['days']>;
+  ranges: Array<[number, number]>; // minutes of the day, end exclusive
+}
+
+interface CompiledSeason {
+  months: number[];
+  windows: CompiledWindow[];
+  baseRate: number;
+}
+
+const MINUTES_PER_DAY = 1440;
+const MINUTE_MS = 60000;
+
+// Order in which the preset windows are checked when their hours overlap
+const TIME_OF_USE_PERIODS = ['peak', 'shoulder', 'offPeak'] as const;
+
+export class TariffEngine {
+  private readonly windows: CompiledWindow[];
+  private readonly seasons: CompiledSeason[];
+  private readonly tiers: TariffTier[];
+  private readonly boundaries: number[];
+  private readonly prices: TariffPrice[];
+
+  constructor(readonly definition: TariffDefinition) {
+    if (!isValidTimeZone(definition.timeZone)) {
+      throw createError.validation(`Unknown tariff time zone: ${definition.timeZone}`);
+    }
+
+    this.windows = (definition.windows ?? []).map(compileWindow);
+    this.seasons = (definition.seasons ?? []).map(season => ({
+      months: season.months,
+      windows: season.windows.map(compileWindow),
+      baseRate: season.baseRate ?? definition.baseRate
+    }));
+    this.tiers = [...(definition.tiers ?? [])].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+
+    const edges = new Set<number>([0]);
+    for (const window of [...this.windows, ...this.seasons.flatMap(season => season.windows)]) {
+      for (const [start, end] of window.ranges) {
+        edges.add(start);
+        edges.add(end % MINUTES_PER_DAY);
+      }
+    }
+    this.boundaries = [...edges].sort((a, b) => a - b);
+    this.prices = [...(definition.prices ?? [])].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Engine for the user's energy preferences; undefined when no rate is configured
+   */
+  static fromPreferences(preferences: Partial<EnergyPreferences> | undefined, timeZone: string): TariffEngine | undefined {
+    if (!preferences) {
+      return undefined;
+    }
+
+    const structure = preferences.tariffStructure ?? 'fixed';
+    const tariff = preferences.tariff;
+    const windows: TariffRateWindow[] = [...(tariff?.windows ?? [])];
+    if (structure === 'time_of_use' && preferences.timeOfUseRates) {
+      for (const name of TIME_OF_USE_PERIODS) {
+        const preset = preferences.timeOfUseRates[name];
+        if (preset?.hours?.length) {
+          windows.push({ name, rate: preset.rate, hours: preset.hours, days: 'all' });
+        }
+      }
+    }
+
+    const timeOfUse = structure === 'time_of_use' && (windows.length > 0 || (tariff?.seasons?.length ?? 0) > 0);
+    const tiered = structure === 'tiered' && (tariff?.tiers?.length ?? 0) > 0;
+    const dynamic = structure === 'real_time' && Boolean(tariff?.priceZone);
+    if (preferences.fixedRate === undefined && !timeOfUse && !tiered && !dynamic) {
+      return undefined;
+    }
+
+    return new TariffEngine({
+      structure,
+      currency: preferences.currency ?? 'EUR',
+      timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+      baseRate: preferences.fixedRate ?? 0,
+      windows: timeOfUse ? windows : undefined,
+      seasons: timeOfUse ? tariff?.seasons : undefined,
+      tiers: tiered ? tariff?.tiers : undefined,
+      standingCharge: tariff?.standingCharge,
+      energyTax: tariff?.energyTax,
+      taxRate: tariff?.taxRate,
+      feedInTariff: preferences.solarPreferences?.feedInTariff,
+      priceZone: dynamic ? tariff?.priceZone : undefined,
+      spotMarkup: dynamic ? tariff?.spotMarkup : undefined
+    });
+  }
+
+  /**
+   * Engine for the flat rate of the user's energy preferences alone; the
+   * fallback when the rest of the tariff is invalid
+   */
+  static flatRate(preferences: Partial<EnergyPreferences> | undefined, timeZone: string): TariffEngine | undefined {
+    if (preferences?.fixedRate === undefined) {
+      return undefined;
+    }
+
+    return new TariffEngine({
+      structure: 'fixed',
+      currency: preferences.currency ?? 'EUR',
+      timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+      baseRate: preferences.fixedRate
+    });
+  }
+
+  /**
+   * Same tariff priced with the given spot prices (real_time tariffs)
+   */
+  withPrices(prices: TariffPrice[]): TariffEngine {
+    return new TariffEngine({ ...this.definition, prices });
+  }
+
+  /**
+   * Whether the rate depends on spot prices, which callers load for the priced range
+   */
+  get isDynamic(): boolean {
+    return this.definition.structure === 'real_time' && this.definition.priceZone !== undefined;
+  }
+
+  /**
+   * Import rate per kWh before taxes at an instant; monthToDate (kWh) selects the tier
+   */
+  rateAt(date: Date, monthToDate = 0): number {
+    if (this.tiers.length > 0) {
+      return this.tierAt(monthToDate).rate;
+    }
+
+    const spot = this.priceAt(date.getTime());
+    if (spot) {
+      return spot.price + (this.definition.spotMarkup ?? 0);
+    }
+
+    const { year, month, day, hour, minute } = getZonedParts(date, this.definition.timeZone);
+    const season = this.seasons.find(candidate => candidate.months.includes(month));
+    const windows = season ? season.windows : this.windows;
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const weekend = weekday === 0 || weekday === 6;
+    const minuteOfDay = hour * 60 + minute;
+
+    const window = windows.find(candidate =>
+      (candidate.days === 'all' || (candidate.days === 'weekends') === weekend) &&
+      candidate.ranges.some(([start, end]) => minuteOfDay >= start && minuteOfDay < end)
+    );
+    return window?.rate ?? season?.baseRate ?? this.definition.baseRate;
+  }
+
+  /**
+   * Cost of one more kWh at an instant, with energy tax and VAT
+   */
+  marginalRate(date: Date, monthToDate = 0): number {
+    return (this.rateAt(date, monthToDate) + (this.definition.energyTax ?? 0)) * (1 + (this.definition.taxRate ?? 0));
+  }
+
+  /**
+   * Energy charges of an interval, without standing charges; monthToDate is the
+   * consumption (kWh) of the interval's month before it starts
+   */
+  price(interval: TariffInterval, monthToDate = 0): TariffCharge {
+    return this.priceSeries([interval], monthToDate)[0]!;
+  }
+
+  /**
+   * Energy charges of consecutive intervals, carrying the monthly tier position
+   * across them and resetting it at local month boundaries
+   */
+  priceSeries(intervals: TariffInterval[], monthToDate = 0): TariffCharge[] {
+    let consumed = monthToDate;
+    let month = intervals.length > 0 ? this.monthOf(intervals[0]!.start) : 0;
+
+    return intervals.map(interval => {
+      const span = interval.end.getTime() - interval.start.getTime();
+      if (span < 0) {
+        throw createError.validation('Tariff interval ends before it starts');
+      }
+
+      let energy = 0;
+      for (const [start, end] of this.segments(interval.start.getTime(), interval.end.getTime())) {
+        const segmentMonth = this.monthOf(new Date(start));
+        if (segmentMonth !== month) {
+          month = segmentMonth;
+          consumed = 0;
+        }
+
+        const kwh = span > 0 ? interval.imported * (end - start) / span : interval.imported;
+        energy += this.tiers.length > 0
+          ? this.tieredCost(kwh, consumed)
+          : kwh * this.rateAt(new Date(start));
+        consumed += kwh;
+      }
+
+      return this.charge(interval.imported, interval.exported ?? 0, energy, 0);
+    });
+  }
+
+  /**
+   * Standing charges of [start, end), prorated by the length of each local day
+   */
+  standing(start: Date, end: Date): TariffCharge {
+    const daily = this.definition.standingCharge ?? 0;
+    let standing = 0;
+
+    if (daily > 0) {
+      let dayStart = startOfPeriod(start, 'day', this.definition.timeZone);
+      while (dayStart.getTime() < end.getTime()) {
+        const dayEnd = addPeriods(dayStart, 'day', 1, this.definition.timeZone);
+        const overlap = Math.min(dayEnd.getTime(), end.getTime()) - Math.max(dayStart.getTime(), start.getTime());
+        if (overlap > 0) {
+          standing += daily * overlap / (dayEnd.getTime() - dayStart.getTime());
+        }
+        dayStart = dayEnd;
+      }
+    }
+
+    return this.charge(0, 0, 0, standing);
+  }
+
+  /**
+   * Energy charges of a flat-rate tariff for the same consumption, to report savings
+   */
+  baselineEnergy(imported: number): number {
+    return imported * this.definition.baseRate;
+  }
+
+  // Private helper methods
+
+  private charge(imported: number, exported: number, energy: number, standing: number): TariffCharge {
+    const energyTax = imported * (this.definition.energyTax ?? 0);
+    const vat = (energy + energyTax + standing) * (this.definition.taxRate ?? 0);
+    return {
+      imported,
+      exported,
+      energy,
+      energyTax,
+      standing,
+      vat,
+      exportCredit: exported * (this.definition.feedInTariff ?? 0),
+      total: energy + energyTax + standing + vat
+    };
+  }
+
+  /**
+   * [start, end) split at rate window edges and local midnight
+   */
+  private segments(start: number, end: number): Array<[number, number]> {
+    if (end <= start) {
+      return [[start, end]];
+    }
+
+    const segments: Array<[number, number]> = [];
+    let cursor = start;
+    while (cursor < end) {
+      const { year, month, day, hour, minute } = getZonedParts(new Date(cursor), this.definition.timeZone);
+      const minuteOfDay = hour * 60 + minute;
+      const nextEdge = this.boundaries.find(edge => edge > minuteOfDay) ?? MINUTES_PER_DAY;
+
+      // Edges skipped or repeated by DST changes still move forward
+      let next = zonedTimeToUtc(this.definition.timeZone, year, month, day, 0, nextEdge).getTime();
+      if (next <= cursor) {
+        next = cursor - (cursor % MINUTE_MS) + MINUTE_MS;
+      }
+      const priceEdge = this.nextPriceEdge(cursor);
+      if (priceEdge !== undefined && priceEdge < next) {
+        next = priceEdge;
+      }
+
+      segments.push([cursor, Math.min(next, end)]);
+      cursor = next;
+    }
+    return segments;
+  }
+
+  /**
+   * Spot price covering an instant, by binary search
+   */
+  private priceAt(time: number): TariffPrice | undefined {
+    let low = 0;
+    let high = this.prices.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const price = this.prices[middle]!;
+      if (time < price.start.getTime()) {
+        high = middle - 1;
+      } else if (time >= price.end.getTime()) {
+        low = middle + 1;
+      } else {
+        return price;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * First spot price start or end after an instant
+   */
+  private nextPriceEdge(time: number): number | undefined {
+    if (this.prices.length === 0) {
+      return undefined;
+    }
+
+    const current = this.priceAt(time);
+    if (current) {
+      return current.end.getTime();
+    }
+    return this.prices.find(price => price.start.getTime() > time)?.start.getTime();
+  }
+
+  private tieredCost(kwh: number, monthToDate: number): number {
+    let cost = 0;
+    let lower = 0;
+    for (const tier of this.tiers) {
+      const upper = tier.upTo ?? Infinity;
+      const portion = Math.min(monthToDate + kwh, upper) - Math.max(monthToDate, lower);
+      if (portion > 0) {
+        cost += portion * tier.rate;
+      }
+      lower = upper;
+    }
+
+    // Consumption beyond the last bounded tier stays at its rate
+    const overflow = monthToDate + kwh - Math.max(lower, monthToDate);
+    if (Number.isFinite(lower) && overflow > 0) {
+      cost += overflow * this.tiers[this.tiers.length - 1]!.rate;
+    }
+    return cost;
+  }
+
+  private tierAt(monthToDate: number): TariffTier {
+    return this.tiers.find(tier => tier.upTo === undefined || monthToDate < tier.upTo) ?? this.tiers[this.tiers.length - 1]!;
+  }
+
+  private monthOf(date: Date): number {
+    const { year, month } = getZonedParts(date, this.definition.timeZone);
+    return year * 12 + month;
+  }
+}
+
+/**
+ * Sum of charges, e.g. the buckets of a rollup period
+ */
+export function sumCharges(charges: TariffCharge[]): TariffCharge {
+  const total: TariffCharge = {
+    imported: 0,
+    exported: 0,
+    energy: 0,
+    energyTax: 0,
+    standing: 0,
+    vat: 0,
+    exportCredit: 0,
+    total: 0
+  };
+
+  for (const charge of charges) {
+    for (const key of Object.keys(total) as Array<keyof TariffCharge>) {
+      total[key] += charge[key];
+    }
+  }
+  return total;
+}
+
+/**
+ * Whether time-of-use hours (`HH:MM-HH:MM` or `HH`) are accepted by the engine
+ */
+export function isValidTariffHours(hours: string): boolean {
+  try {
+    parseHours(hours);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Window with its hours parsed into minute ranges
+ */
+function compileWindow(window: TariffRateWindow): CompiledWindow {
+  return { name: window.name, rate: window.rate, days: window.days ?? 'all', ranges: window.hours.flatMap(parseHours) };
+}
+
+function parseHours(hours: string): Array<[number, number]> {
+  const [from, to] = hours.split('-');
+  const start = parseTime(from!, hours);
+  const end = to === undefined ? start + 60 : parseTime(to, hours);
+
+  if (end > start) {
+    return [[start, Math.min(end, MINUTES_PER_DAY)]];
+  }
+  // Wraps past midnight
+  return end > 0 ? [[start, MINUTES_PER_DAY], [0, end]] : [[start, MINUTES_PER_DAY]];
+}
+
+function parseTime(value: string, hours: string): number {
+  const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(value.trim());
+  const minutes = match ? parseInt(match[1]!, 10) * 60 + parseInt(match[2] ?? '0', 10) : NaN;
+  if (!match || minutes > MINUTES_PER_DAY || parseInt(match[2] ?? '0', 10) >= 60) {
+    throw createError.validation(`Invalid tariff hours: ${hours}`);
+  }
+  return minutes;
+}
+
+export default TariffEngine;
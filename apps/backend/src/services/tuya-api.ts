@@ -1,5 +1,13 @@
 import crypto from 'crypto';
 import axios, { AxiosInstance } from 'axios';
+import {
+  TuyaSpecification,
+  defaultTuyaDpSchema,
+  mapDpSchemaToCapabilities,
+  mapDpsToState,
+  mapTuyaCategoryToDeviceType,
+  parseTuyaSpecification
+} from '@maestro/protocol-adapters/tuya/dp-schema';
 
 interface TuyaConfig {
   clientId: string;
@@ -310,6 +318,23 @@ export class TuyaApiService {
     }
   }
 
+  // Instruction set and status DPs, with units, ranges and scale
+  async getDeviceSpecification(deviceId: string): Promise<TuyaSpecification | null> {
+    try {
+      const response = await this.client.get(`/v1.0/devices/${deviceId}/specifications`);
+      
+      if (response.data.success) {
+        return response.data.result;
+      }
+
+      console.error('Failed to get device specification:', response.data);
+      return null;
+    } catch (error: any) {
+      console.error('Error getting device specification:', error.response?.data || error.message);
+      return null;
+    }
+  }
+
   async controlDevice(deviceId: string, commands: Array<{code: string, value: any}>): Promise<boolean> {
     try {
       const response = await this.client.post(`/v1.0/devices/${deviceId}/commands`, {
@@ -329,66 +354,24 @@ export class TuyaApiService {
     }
   }
 
-  // Convert Tuya device to our format
-  convertTuyaDevice(tuyaDevice: any): any {
-    const capabilities = [];
-    
-    // Parse functions/capabilities from device schema
-    if (tuyaDevice.schema) {
-      try {
-        const schema = typeof tuyaDevice.schema === 'string' 
-          ? JSON.parse(tuyaDevice.schema) 
-          : tuyaDevice.schema;
-          
-        schema.forEach((item: any) => {
-          if (item.code === 'switch_1' || item.code === 'switch' || item.code === 'switch_led') {
-            capabilities.push({
-              type: 'switch',
-              properties: { value: false },
-              commands: ['on', 'off']
-            });
-          } else if (item.code === 'cur_power' || item.code === 'add_ele') {
-            capabilities.push({
-              type: 'power_monitoring',
-              properties: {},
-              commands: []
-            });
-          } else if (item.code === 'bright_value' || item.code === 'brightness') {
-            capabilities.push({
-              type: 'brightness',
-              properties: { value: item.value || 100 },
-              commands: ['setBrightness']
-            });
-          }
-        });
-      } catch (e) {
-        console.log('Failed to parse schema:', e);
-      }
-    }
+  // Convert Tuya device to our format; DP values are scaled by the device
+  // specification, or by the standard smart plug layout without one
+  convertTuyaDevice(tuyaDevice: any, specification?: TuyaSpecification | null): any {
+    const schema = specification
+      ? parseTuyaSpecification({ category: tuyaDevice.category, ...specification })
+      : defaultTuyaDpSchema(tuyaDevice.category);
 
-    // If no schema, infer from category
-    if (capabilities.length === 0) {
-      const category = tuyaDevice.category || '';
-      if (category === 'cz' || category === 'pc' || category === 'kg') {
-        capabilities.push({
-          type: 'switch',
-          properties: { value: false },
-          commands: ['on', 'off']
-        });
-      }
-    }
+    const dps: Record<string, any> = {};
+    (tuyaDevice.status || []).forEach((s: any) => {
+      dps[s.code] = s.value;
+    });
+    const state = mapDpsToState(schema, dps);
 
-    // Parse current status
-    if (tuyaDevice.status) {
-      tuyaDevice.status.forEach((status: any) => {
-        // Update capability properties with current values
-        if ((status.code === 'switch_1' || status.code === 'switch') && capabilities.length > 0) {
-          const switchCap = capabilities.find(c => c.type === 'switch');
-          if (switchCap) {
-            switchCap.properties.value = status.value;
-          }
-        }
-      });
+    // Capabilities carry the current switch value
+    const capabilities = mapDpSchemaToCapabilities(schema);
+    const switchCap = capabilities.find(c => c.type === 'switch');
+    if (switchCap && state.power !== undefined) {
+      switchCap.properties.value = state.power;
     }
 
     // Build status object
@@ -396,33 +379,29 @@ export class TuyaApiService {
       online: tuyaDevice.online || false
     };
 
-    if (tuyaDevice.status) {
-      tuyaDevice.status.forEach((s: any) => {
-        if (s.code === 'switch_1' || s.code === 'switch') {
-          status.switch = s.value;
-        } else if (s.code === 'cur_power') {
-          status.energy = status.energy || {};
-          status.energy.activePower = s.value / 10; // Convert from 0.1W to W
-        } else if (s.code === 'cur_voltage') {
-          status.energy = status.energy || {};
-          status.energy.voltage = s.value / 10; // Convert from 0.1V to V
-        } else if (s.code === 'cur_current') {
-          status.energy = status.energy || {};
-          status.energy.current = s.value / 1000; // Convert from mA to A
-        }
-      });
+    if (state.power !== undefined) {
+      status.switch = state.power;
+    }
+
+    const energy: Record<string, number> = {};
+    if (state.energyConsumption !== undefined) energy.activePower = state.energyConsumption;
+    if (state.voltage !== undefined) energy.voltage = state.voltage;
+    if (state.current !== undefined) energy.current = state.current;
+    if (state.totalEnergy !== undefined) energy.totalEnergy = state.totalEnergy;
+    if (Object.keys(energy).length > 0) {
+      status.energy = energy;
     }
 
     return {
       deviceId: tuyaDevice.id,
       name: tuyaDevice.name || tuyaDevice.product_name || 'Unknown Device',
-      deviceType: this.mapTuyaCategory(tuyaDevice.category),
+      deviceType: mapTuyaCategoryToDeviceType(tuyaDevice.category, schema),
       isOnline: tuyaDevice.online || false,
       capabilities,
       specifications: {
         manufacturer: 'Tuya',
         model: tuyaDevice.product_id || 'Unknown',
-        maxPower: 3000 // Default, could be parsed from schema
+        maxPower: capabilities.find(c => c.type === 'energy_meter')?.range?.max ?? 3000
       },
       status,
       tuyaData: {
@@ -432,28 +411,12 @@ export class TuyaApiService {
         productName: tuyaDevice.product_name,
         icon: tuyaDevice.icon,
         ip: tuyaDevice.ip,
-        timeZone: tuyaDevice.time_zone
+        timeZone: tuyaDevice.time_zone,
+        dpSchema: schema.source
       }
     };
   }
 
-  private mapTuyaCategory(category: string): string {
-    const categoryMap: Record<string, string> = {
-      'cz': 'smart_plug',
-      'pc': 'smart_plug',
-      'kg': 'smart_switch',
-      'dj': 'smart_light',
-      'dc': 'led_strip',
-      'jsq': 'smart_heater',
-      'cl': 'smart_curtain',
-      'ckmkzq': 'smart_sensor',
-      'wk': 'smart_thermostat',
-      'default': 'smart_device'
-    };
-
-    return categoryMap[category] || categoryMap['default'];
-  }
-
   // Get user info from OAuth token
   async getUserInfo(accessToken: string): Promise<any> {
     try {
@@ -507,12 +470,16 @@ export const tuyaApiService = {
     return this.getInstance().getDeviceDetails(deviceId);
   },
   
+  async getDeviceSpecification(deviceId: string) {
+    return this.getInstance().getDeviceSpecification(deviceId);
+  },
+  
   async controlDevice(deviceId: string, commands: Array<{code: string, value: any}>) {
     return this.getInstance().controlDevice(deviceId, commands);
   },
   
-  convertTuyaDevice(tuyaDevice: any) {
-    return this.getInstance().convertTuyaDevice(tuyaDevice);
+  convertTuyaDevice(tuyaDevice: any, specification?: TuyaSpecification | null) {
+    return this.getInstance().convertTuyaDevice(tuyaDevice, specification);
   },
   
   async getUserInfo(accessToken: string) {
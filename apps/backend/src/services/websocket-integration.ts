@@ -295,7 +295,8 @@ export class WebSocketIntegrationService {
         deviceId,
         userId,
         command,
-        parameters
+        parameters,
+        { priority }
       );
 
       const duration = Date.now() - startTime;
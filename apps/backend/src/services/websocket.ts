@@ -2,7 +2,7 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { config } from '@/config/environment';
 import logger, { createModuleLogger } from '@/config/logger';
-import { DeviceStatusUpdate } from '@maestro/shared/types';
+import { DeviceStatusUpdate, EnergyFlow } from '@maestro/shared/types';
 import { createError } from '@/utils/errors';
 
 /**
@@ -276,6 +276,16 @@ export class WebSocketManager {
     });
   }
 
+  /**
+   * Push a household energy flow snapshot to a user's connections
+   */
+  sendEnergyFlow(userId: string, flow: EnergyFlow): void {
+    this.io.to(`user:${userId}`).emit('energy:flow', {
+      ...flow,
+      timestamp: flow.timestamp.toISOString(),
+    });
+  }
+
   /**
    * Send notification to specific user
    */
@@ -177,7 +177,8 @@ app.post('/api/devices/discover', async (req, res) => {
               } catch (e) {
                 console.log(`Failed to get status for device ${tuyaDevice.id}`);
               }
-              return tuyaApiService.convertTuyaDevice(tuyaDevice);
+              const specification = await tuyaApiService.getDeviceSpecification(tuyaDevice.id);
+              return tuyaApiService.convertTuyaDevice(tuyaDevice, specification);
             })
           );
           
@@ -210,7 +211,8 @@ app.post('/api/devices/discover', async (req, res) => {
         } catch (e) {
           console.log(`Failed to get status for device ${tuyaDevice.id}`);
         }
-        return tuyaApiService.convertTuyaDevice(tuyaDevice);
+        const specification = await tuyaApiService.getDeviceSpecification(tuyaDevice.id);
+        return tuyaApiService.convertTuyaDevice(tuyaDevice, specification);
       })
     );
 
@@ -284,7 +286,8 @@ app.post('/api/devices/import', async (req, res) => {
         } catch (e) {
           console.log(`Failed to get status for device ${tuyaDevice.id} during import`);
         }
-        return tuyaApiService.convertTuyaDevice(tuyaDevice);
+        const specification = await tuyaApiService.getDeviceSpecification(tuyaDevice.id);
+        return tuyaApiService.convertTuyaDevice(tuyaDevice, specification);
       })
     );
 
@@ -0,0 +1,395 @@
+/**
+ * In-Memory Model
+ *
+ * A stand-in for a Mongoose model in unit tests of services that query the
+ * database, for use with jest.mock. Supports the queries the services use:
+ * equality, comparison, $in/$nin/$exists/$ne, $elemMatch, $and/$or and field
+ * comparisons in $expr, with paths into arrays of subdocuments; updates with
+ * $set, $unset, $inc, $push and $setOnInsert, with upserts and the positional
+ * `$` of the matched array element. Documents are returned as plain copies,
+ * as from lean().
+ */
+
+type Doc = Record<string, any>;
+type SortSpec = Record<string, 1 | -1>;
+
+export interface MemoryModelOptions {
+  timestamps?: boolean; // maintain createdAt/updatedAt like schemas with timestamps
+}
+
+interface UpdateOptions {
+  upsert?: boolean;
+  new?: boolean;
+  returnDocument?: 'before' | 'after';
+}
+
+/**
+ * Query of a memory model; chainable like a Mongoose query and awaitable
+ */
+export class MemoryQuery<T> implements PromiseLike<T> {
+  private sortSpec?: SortSpec | undefined;
+  private skipCount = 0;
+  private limitCount?: number | undefined;
+
+  constructor(private readonly run: (query: { sort?: SortSpec | undefined; skip: number; limit?: number | undefined }) => T) {}
+
+  sort(spec: SortSpec): this {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  session(): this {
+    return this;
+  }
+
+  lean<R = T>(): MemoryQuery<R> {
+    return this as unknown as MemoryQuery<R>;
+  }
+
+  exec(): Promise<T> {
+    return Promise.resolve().then(() => this.run({ sort: this.sortSpec, skip: this.skipCount, limit: this.limitCount }));
+  }
+
+  then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.exec().then(onFulfilled, onRejected);
+  }
+}
+
+export class MemoryModel {
+  docs: Doc[] = [];
+  private nextId = 1;
+
+  constructor(private readonly options: MemoryModelOptions = {}) {}
+
+  find(filter: Doc = {}): MemoryQuery<Doc[]> {
+    return new MemoryQuery(({ sort, skip, limit }) => {
+      let found = this.docs.filter(doc => matches(doc, filter));
+      if (sort) found = [...found].sort(compareBy(sort));
+      found = found.slice(skip, limit === undefined ? undefined : skip + limit);
+      return found.map(copy);
+    });
+  }
+
+  findOne(filter: Doc = {}): MemoryQuery<Doc | null> {
+    return new MemoryQuery(({ sort }) => {
+      const found = this.docs.filter(doc => matches(doc, filter));
+      const [first] = sort ? [...found].sort(compareBy(sort)) : found;
+      return first ? copy(first) : null;
+    });
+  }
+
+  findById(id: unknown): MemoryQuery<Doc | null> {
+    return this.findOne({ _id: id });
+  }
+
+  countDocuments(filter: Doc = {}): MemoryQuery<number> {
+    return new MemoryQuery(() => this.docs.filter(doc => matches(doc, filter)).length);
+  }
+
+  create(input: Doc | Doc[]): Promise<any> {
+    return Promise.resolve().then(() => (Array.isArray(input) ? input.map(doc => this.insert(doc)) : this.insert(input)));
+  }
+
+  insertMany(input: Doc[]): Promise<Doc[]> {
+    return Promise.resolve().then(() => input.map(doc => this.insert(doc)));
+  }
+
+  updateOne(filter: Doc, update: Doc, options: UpdateOptions = {}): MemoryQuery<{ matchedCount: number; modifiedCount: number; upsertedCount: number }> {
+    return new MemoryQuery(() => {
+      const doc = this.docs.find(candidate => matches(candidate, filter));
+      if (doc) {
+        this.apply(doc, update, false, filter);
+        return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+      }
+      if (options.upsert) {
+        this.upsert(filter, update);
+        return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+      }
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+    });
+  }
+
+  updateMany(filter: Doc, update: Doc): MemoryQuery<{ matchedCount: number; modifiedCount: number }> {
+    return new MemoryQuery(() => {
+      const found = this.docs.filter(doc => matches(doc, filter));
+      found.forEach(doc => this.apply(doc, update, false, filter));
+      return { matchedCount: found.length, modifiedCount: found.length };
+    });
+  }
+
+  findOneAndUpdate(filter: Doc, update: Doc, options: UpdateOptions = {}): MemoryQuery<Doc | null> {
+    return new MemoryQuery(() => {
+      const returnNew = options.new === true || options.returnDocument === 'after';
+      const doc = this.docs.find(candidate => matches(candidate, filter));
+      if (doc) {
+        const before = copy(doc);
+        this.apply(doc, update, false, filter);
+        return returnNew ? copy(doc) : before;
+      }
+      if (options.upsert) {
+        const created = this.upsert(filter, update);
+        return returnNew ? copy(created) : null;
+      }
+      return null;
+    });
+  }
+
+  findByIdAndUpdate(id: unknown, update: Doc, options: UpdateOptions = {}): MemoryQuery<Doc | null> {
+    return this.findOneAndUpdate({ _id: id }, update, options);
+  }
+
+  deleteOne(filter: Doc): MemoryQuery<{ deletedCount: number }> {
+    return new MemoryQuery(() => {
+      const index = this.docs.findIndex(doc => matches(doc, filter));
+      if (index >= 0) this.docs.splice(index, 1);
+      return { deletedCount: index >= 0 ? 1 : 0 };
+    });
+  }
+
+  deleteMany(filter: Doc = {}): MemoryQuery<{ deletedCount: number }> {
+    return new MemoryQuery(() => {
+      const before = this.docs.length;
+      this.docs = this.docs.filter(doc => !matches(doc, filter));
+      return { deletedCount: before - this.docs.length };
+    });
+  }
+
+  // Private helper methods
+
+  private insert(input: Doc): Doc {
+    const now = new Date();
+    const doc: Doc = {
+      _id: input._id ?? `memory-${this.nextId++}`,
+      ...copy(input),
+      ...(this.options.timestamps && { createdAt: input.createdAt ?? now, updatedAt: input.updatedAt ?? now })
+    };
+    this.docs.push(doc);
+    return copy(doc);
+  }
+
+  private upsert(filter: Doc, update: Doc): Doc {
+    const doc: Doc = { _id: `memory-${this.nextId++}` };
+    for (const [key, value] of Object.entries(filter)) {
+      if (!key.startsWith('$') && !isOperatorObject(value)) setPath(doc, key, copy(value));
+    }
+    this.apply(doc, update, true, filter);
+    if (this.options.timestamps) doc.createdAt = doc.updatedAt;
+    this.docs.push(doc);
+    return doc;
+  }
+
+  private apply(doc: Doc, update: Doc, inserting: boolean, filter: Doc): void {
+    const operators = Object.keys(update).some(key => key.startsWith('$')) ? update : { $set: update };
+    for (const [operator, fields] of Object.entries(operators)) {
+      for (const [field, value] of Object.entries(fields as Doc)) {
+        const path = positionalPath(doc, field, filter);
+        switch (operator) {
+          case '$set':
+            setPath(doc, path, copy(value));
+            break;
+          case '$setOnInsert':
+            if (inserting) setPath(doc, path, copy(value));
+            break;
+          case '$unset':
+            unsetPath(doc, path);
+            break;
+          case '$inc':
+            setPath(doc, path, (getPath(doc, path) ?? 0) + value);
+            break;
+          case '$push':
+            setPath(doc, path, [...(getPath(doc, path) ?? []), copy(value)]);
+            break;
+          default:
+            throw new Error(`Unsupported update operator in memory model: ${operator}`);
+        }
+      }
+    }
+    if (this.options.timestamps) doc.updatedAt = new Date();
+  }
+}
+
+// Helper functions
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as Doc[]).every(part => matches(doc, part));
+      case '$or':
+        return (condition as Doc[]).some(part => matches(doc, part));
+      case '$expr':
+        return evaluateExpression(doc, condition);
+      default:
+        return matchesValue(getPath(doc, key), condition);
+    }
+  });
+}
+
+function matchesValue(value: any, condition: any): boolean {
+  if (!isOperatorObject(condition)) {
+    return equals(value, condition) || (Array.isArray(value) && value.some(item => equals(item, condition)));
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return equals(value, operand);
+      case '$ne':
+        return !equals(value, operand);
+      case '$gt':
+        return value !== undefined && value !== null && compare(value, operand) > 0;
+      case '$gte':
+        return value !== undefined && value !== null && compare(value, operand) >= 0;
+      case '$lt':
+        return value !== undefined && value !== null && compare(value, operand) < 0;
+      case '$lte':
+        return value !== undefined && value !== null && compare(value, operand) <= 0;
+      case '$in':
+        return (operand as any[]).some(candidate => matchesValue(value, candidate));
+      case '$nin':
+        return !(operand as any[]).some(candidate => matchesValue(value, candidate));
+      case '$exists':
+        return (value !== undefined) === Boolean(operand);
+      case '$elemMatch':
+        return Array.isArray(value) && value.some(item => matches(item, operand));
+      default:
+        throw new Error(`Unsupported query operator in memory model: ${operator}`);
+    }
+  });
+}
+
+function evaluateExpression(doc: Doc, expression: Doc): boolean {
+  const [[operator, operands]] = Object.entries(expression) as [[string, any[]]];
+  const [left, right] = operands.map(operand =>
+    typeof operand === 'string' && operand.startsWith('$') ? getPath(doc, operand.slice(1)) : operand
+  );
+  switch (operator) {
+    case '$gt': return compare(left, right) > 0;
+    case '$gte': return compare(left, right) >= 0;
+    case '$lt': return compare(left, right) < 0;
+    case '$lte': return compare(left, right) <= 0;
+    case '$eq': return equals(left, right);
+    default:
+      throw new Error(`Unsupported expression in memory model: ${operator}`);
+  }
+}
+
+function isOperatorObject(value: unknown): value is Doc {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+    && Object.keys(value).some(key => key.startsWith('$'));
+}
+
+function comparable(value: any): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function equals(a: any, b: any): boolean {
+  return comparable(a) === comparable(b) || (a === undefined && b === null);
+}
+
+function compare(a: any, b: any): number {
+  const left = comparable(a);
+  const right = comparable(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function compareBy(sort: SortSpec): (a: Doc, b: Doc) => number {
+  return (a, b) => {
+    for (const [path, direction] of Object.entries(sort)) {
+      const order = compare(getPath(a, path), getPath(b, path));
+      if (order !== 0) return order * direction;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Value at a path; through arrays of subdocuments, the values of all elements
+ */
+function getPath(doc: Doc, path: string): any {
+  return path.split('.').reduce<any>((value, key) => {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (Array.isArray(value) && !/^\d+$/.test(key)) {
+      const values = value.map(item => item?.[key]).filter(item => item !== undefined);
+      return values.length > 0 ? values : undefined;
+    }
+    return value[key];
+  }, doc);
+}
+
+/**
+ * Update path with the positional `$` replaced by the index of the first array
+ * element the filter matched
+ */
+function positionalPath(doc: Doc, path: string, filter: Doc): string {
+  const position = path.indexOf('.$');
+  if (position < 0) {
+    return path;
+  }
+
+  const arrayPath = path.slice(0, position);
+  const conditions = Object.entries(filter).filter(([key]) => key === arrayPath || key.startsWith(`${arrayPath}.`));
+  const items = getPath(doc, arrayPath);
+  const index = Array.isArray(items) && conditions.length > 0
+    ? items.findIndex(item => conditions.every(([key, condition]) => {
+      if (key !== arrayPath) {
+        return matchesValue(getPath(item, key.slice(arrayPath.length + 1)), condition);
+      }
+      return isOperatorObject(condition) && '$elemMatch' in condition ? matches(item, condition.$elemMatch) : equals(item, condition);
+    }))
+    : -1;
+  if (index < 0) {
+    throw new Error(`No element of ${arrayPath} matched for the positional operator`);
+  }
+  return `${arrayPath}.${index}${path.slice(position + 2)}`;
+}
+
+function setPath(doc: Doc, path: string, value: any): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = doc;
+  for (const key of keys) {
+    if (typeof target[key] !== 'object' || target[key] === null) target[key] = {};
+    target = target[key];
+  }
+  target[last] = value;
+}
+
+function unsetPath(doc: Doc, path: string): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.length > 0 ? getPath(doc, keys.join('.')) : doc;
+  if (parent && typeof parent === 'object') delete parent[last];
+}
+
+function copy<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(copy) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copy(item)])) as T;
+  }
+  return value;
+}
@@ -1,6 +1,9 @@
 import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
 import request from 'supertest';
 import { Server } from 'http';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { io as Client, Socket as ClientSocket } from 'socket.io-client';
 
 import { DatabaseManager } from '@/services/database';
@@ -10,10 +13,12 @@ import { WebSocketManager } from '@/services/websocket';
 import { WebSocketIntegrationService } from '@/services/websocket-integration';
 import { CacheManager } from '@/services/cache';
 import { TuyaAdapter } from '@maestro/protocol-adapters/tuya/adapter';
+import { SimulatorAdapter } from '@maestro/protocol-adapters/simulator/adapter';
 import { DeviceService } from '@/services/database/DeviceService';
 import { createTestApp } from '../helpers/test-app';
 import { createTestDatabase } from '../helpers/test-database';
 import { createMockTuyaDevice, createMockDeviceData } from '../helpers/test-fixtures';
+import { config } from '@/config/environment';
 import logger from '@/config/logger';
 
 /**
@@ -31,6 +36,13 @@ import logger from '@/config/logger';
  * - Protocol adapter integration
  */
 
+let mockTuyaAdapter: jest.Mocked<TuyaAdapter>;
+
+// The manager creates its Tuya adapter on initialize(); it gets the mock
+jest.mock('@maestro/protocol-adapters/tuya/adapter', () => ({
+  TuyaAdapter: jest.fn(() => mockTuyaAdapter)
+}));
+
 describe('Protocol Integration Tests', () => {
   let app: any;
   let server: Server;
@@ -42,7 +54,6 @@ describe('Protocol Integration Tests', () => {
   let cache: CacheManager;
   let deviceService: DeviceService;
   let clientSocket: ClientSocket;
-  let mockTuyaAdapter: jest.Mocked<TuyaAdapter>;
 
   const TEST_USER_ID = 'test-user-123';
   const TEST_JWT_TOKEN = 'test-jwt-token';
@@ -690,6 +701,96 @@ describe('Protocol Integration Tests', () => {
     });
   });
 
+  describe('Simulated Device Integration', () => {
+    let simulator: SimulatorAdapter;
+    let configDir: string;
+    const configPath = config.adapters.configPath;
+
+    beforeAll(async () => {
+      // Real adapter from the adapter configuration file, created through the
+      // plugin registry, with a manually stepped clock instead of a mocked one
+      configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'maestro-adapters-'));
+      config.adapters.configPath = path.join(configDir, 'adapters.json');
+      await fs.writeFile(config.adapters.configPath, JSON.stringify({
+        simulator: {
+          name: 'Test Simulator',
+          connectionTimeout: 1000,
+          commandTimeout: 1000,
+          retryAttempts: 0,
+          options: {
+            seed: 42,
+            startTime: '2024-06-21T10:00:00Z',
+            tickInterval: 0
+          }
+        }
+      }));
+
+      await protocolManager.initialize();
+      simulator = protocolManager.getAdapter('simulator') as SimulatorAdapter;
+      expect(simulator).toBeInstanceOf(SimulatorAdapter);
+    });
+
+    afterAll(async () => {
+      await simulator.disconnect();
+      config.adapters.configPath = configPath;
+      await fs.rm(configDir, { recursive: true, force: true });
+    });
+
+    test('should discover the simulated household via API endpoint', async () => {
+      const response = await request(app)
+        .post('/api/v1/devices/discover')
+        .set('Authorization', `Bearer ${TEST_JWT_TOKEN}`)
+        .send({ protocol: 'simulator' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.discovered.map((device: any) => device.deviceId)).toEqual(
+        expect.arrayContaining(['sim-grid-meter', 'sim-pv-inverter', 'sim-battery', 'sim-plug-fridge'])
+      );
+    });
+
+    test('should execute commands against simulated devices', async () => {
+      await deviceService.create({
+        _id: 'sim-plug-device',
+        userId: TEST_USER_ID,
+        deviceId: 'sim-plug-tv',
+        protocol: 'simulator',
+        deviceType: 'smart_plug',
+        name: 'Simulated TV Plug',
+        isOnline: true,
+        status: 'online',
+        currentState: { power: true },
+        capabilities: ['switch', 'energy_meter'],
+        specifications: {},
+        settings: { autoControl: false },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      } as any);
+
+      const response = await request(app)
+        .post('/api/v1/devices/sim-plug-device/command')
+        .set('Authorization', `Bearer ${TEST_JWT_TOKEN}`)
+        .send({ command: 'turn_off', parameters: {} })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.result.newState.power).toBe(false);
+
+      simulator.advanceTime(60_000);
+      const status = await simulator.getDeviceStatus('sim-plug-tv');
+      expect(status.state.energyConsumption).toBe(0);
+    });
+
+    test('should report balanced site telemetry', async () => {
+      simulator.advanceTime(60 * 60_000);
+      const balance = simulator.getSiteBalance();
+      const meter = await simulator.getDeviceStatus('sim-grid-meter');
+
+      expect(balance.production).toBeGreaterThan(0);
+      expect(meter.state.power).toBeCloseTo(balance.consumption + balance.battery - balance.production, 0);
+    });
+  });
+
   // Helper function to create mock Tuya adapter
   function createMockTuyaAdapter(): jest.Mocked<TuyaAdapter> {
     const mockAdapter = {
@@ -0,0 +1,22 @@
+/**
+ * Test Environment
+ *
+ * Sets the variables the configuration requires, so modules importing it load
+ * without a .env file. Values already set (e.g. in CI) are kept.
+ */
+
+const testEnvironment: Record<string, string> = {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'error',
+  JWT_SECRET: 'test-jwt-secret-with-at-least-32-characters',
+  SESSION_SECRET: 'test-session-secret-with-at-least-32-characters',
+  MONGODB_URI: 'mongodb://localhost:27017/maestro_test',
+  REDIS_URL: 'redis://localhost:6379',
+  TUYA_CLIENT_ID: 'test-client-id',
+  TUYA_CLIENT_SECRET: 'test-client-secret',
+  TUYA_REDIRECT_URI: 'http://localhost:3001/api/v1/auth/tuya/callback'
+};
+
+for (const [name, value] of Object.entries(testEnvironment)) {
+  process.env[name] ??= value;
+}
@@ -0,0 +1,55 @@
+/**
+ * Time Zone Utility Tests
+ *
+ * Wall-clock times and period starts around DST changes on both sides of UTC:
+ * skipped times move past the gap and repeated times resolve to their second
+ * occurrence.
+ */
+
+import { addPeriods, startOfPeriod, zonedTimeToUtc } from '@/utils/timezone';
+
+describe('zonedTimeToUtc', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedTimeToUtc('America/New_York', 2025, 1, 15, 8, 15).toISOString()).toBe('2025-01-15T13:15:00.000Z');
+    expect(zonedTimeToUtc('Europe/Berlin', 2025, 7, 1, 8, 15).toISOString()).toBe('2025-07-01T06:15:00.000Z');
+  });
+
+  it('moves times skipped by a spring-forward past the gap', () => {
+    expect(zonedTimeToUtc('America/New_York', 2025, 3, 9, 2, 30).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    expect(zonedTimeToUtc('Europe/Berlin', 2025, 3, 30, 2, 30).toISOString()).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('keeps the times next to a spring-forward in their own offset', () => {
+    expect(zonedTimeToUtc('America/New_York', 2025, 3, 9, 1, 59).toISOString()).toBe('2025-03-09T06:59:00.000Z');
+    expect(zonedTimeToUtc('America/New_York', 2025, 3, 9, 3, 0).toISOString()).toBe('2025-03-09T07:00:00.000Z');
+  });
+
+  it('resolves times repeated by a fall-back to their second occurrence', () => {
+    expect(zonedTimeToUtc('America/New_York', 2025, 11, 2, 1, 30).toISOString()).toBe('2025-11-02T06:30:00.000Z');
+    expect(zonedTimeToUtc('Europe/Berlin', 2025, 10, 26, 2, 30).toISOString()).toBe('2025-10-26T01:30:00.000Z');
+  });
+
+  it('rolls out-of-range fields over', () => {
+    expect(zonedTimeToUtc('America/New_York', 2025, 12, 32).toISOString()).toBe('2026-01-01T05:00:00.000Z');
+  });
+});
+
+describe('startOfPeriod', () => {
+  it('starts a day whose midnight is skipped at the end of the gap', () => {
+    // Santiago moves from -04:00 to -03:00 at midnight on 2025-09-07
+    const noon = new Date('2025-09-07T15:00:00Z');
+
+    const start = startOfPeriod(noon, 'day', 'America/Santiago');
+
+    expect(start.toISOString()).toBe('2025-09-07T04:00:00.000Z');
+    expect(addPeriods(start, 'day', -1, 'America/Santiago').toISOString()).toBe('2025-09-06T04:00:00.000Z');
+    expect(addPeriods(start, 'day', 1, 'America/Santiago').toISOString()).toBe('2025-09-08T03:00:00.000Z');
+  });
+
+  it('starts days around a fall-back at local midnight west of UTC', () => {
+    const start = startOfPeriod(new Date('2025-11-02T18:00:00Z'), 'day', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2025-11-02T04:00:00.000Z');
+    expect(addPeriods(start, 'day', 1, 'America/New_York').toISOString()).toBe('2025-11-03T05:00:00.000Z');
+  });
+});
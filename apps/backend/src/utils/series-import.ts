@@ -0,0 +1,102 @@
+import { zonedTimeToUtc } from '@/utils/timezone';
+
+/**
+ * Series Import Utilities
+ *
+ * Date and number parsing shared by the importers of price and carbon
+ * intensity files (CSV and JSON exports of market and grid data).
+ */
+
+const MINUTE_MS = 60000;
+
+export function parseOptionalDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * ISO timestamps with an offset as given; local "YYYY-MM-DD HH:mm" and
+ * "DD.MM.YYYY HH:mm" (or "/" and "-" separated) in the file's time zone
+ */
+export function parseLocalDate(value: string, timeZone: string): Date | undefined {
+  const text = value.trim();
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    return parseOptionalDate(text);
+  }
+
+  const isoLike = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2})(?::(\d{2}))?)?/.exec(text);
+  const european = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:[ T](\d{1,2})(?::(\d{2}))?)?/.exec(text);
+  const parts = isoLike
+    ? [isoLike[1], isoLike[2], isoLike[3], isoLike[4], isoLike[5]]
+    : european
+      ? [european[3], european[2], european[1], european[4], european[5]]
+      : undefined;
+  if (!parts) {
+    return undefined;
+  }
+
+  const [year, month, day, hour, minute] = parts.map(part => Number(part ?? 0));
+  return zonedTimeToUtc(timeZone, year!, month!, day!, hour!, minute!);
+}
+
+export function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+export function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '' || value.trim() === '-') {
+    return undefined;
+  }
+  const normalized = value.replace(/\s/g, '').replace(/,(?=\d+$)/, '.').replace(/,/g, '');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function firstNumber(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const number = typeof value === 'string' ? parseNumber(value) : value;
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      return number;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Most common gap between consecutive starts, default one hour
+ */
+export function inferResolution(starts: Date[]): number {
+  const sorted = starts.map(start => start.getTime()).sort((a, b) => a - b);
+  const gaps = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i]! - sorted[i - 1]!;
+    if (gap > 0) gaps.set(gap, (gaps.get(gap) ?? 0) + 1);
+  }
+
+  let best = 60 * MINUTE_MS;
+  let bestCount = 0;
+  for (const [gap, count] of gaps) {
+    if (count > bestCount) {
+      best = gap;
+      bestCount = count;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,80 @@
+import { zonedTimeToUtc } from '@/utils/timezone';
+
+/**
+ * Sun Utilities
+ *
+ * Sunrise and sunset from the solar position formulas of the NOAA / Astronomy
+ * Answers articles (as used by SunCalc), accurate to about a minute. Rise and
+ * set are when the top of the sun's disc touches the horizon, refraction
+ * included.
+ */
+
+export interface SunTimes {
+  sunrise?: Date | undefined; // undefined during polar day or night
+  sunset?: Date | undefined;
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+const HORIZON = RAD * -0.833; // sun altitude at rise and set
+
+/**
+ * Sunrise and sunset of a local date in a time zone
+ */
+export function getSunTimes(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  latitude: number,
+  longitude: number
+): SunTimes {
+  const noon = zonedTimeToUtc(timeZone, year, month, day, 12);
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+
+  const days = toJulian(noon) - J2000;
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const transitDays = J0 + lw / (2 * Math.PI) + cycle;
+  const anomaly = RAD * (357.5291 + 0.98560028 * transitDays);
+  const longitudeOfSun = eclipticLongitude(anomaly);
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitudeOfSun));
+  const solarNoon = solarTransit(transitDays, anomaly, longitudeOfSun);
+
+  const cosHourAngle = (Math.sin(HORIZON) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return {};
+  }
+
+  const hourAngle = Math.acos(cosHourAngle);
+  const set = solarTransit(J0 + (hourAngle + lw) / (2 * Math.PI) + cycle, anomaly, longitudeOfSun);
+  return {
+    sunrise: fromJulian(solarNoon - (set - solarNoon)),
+    sunset: fromJulian(set)
+  };
+}
+
+// Helper functions
+
+function toJulian(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date(Math.round((julian + 0.5 - J1970) * DAY_MS));
+}
+
+function eclipticLongitude(anomaly: number): number {
+  const center = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const perihelion = RAD * 102.9372;
+  return anomaly + center + perihelion + Math.PI;
+}
+
+function solarTransit(days: number, anomaly: number, longitudeOfSun: number): number {
+  return J2000 + days + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitudeOfSun);
+}
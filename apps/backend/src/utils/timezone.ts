@@ -0,0 +1,168 @@
+/**
+ * Time Zone Utilities
+ *
+ * Calendar period boundaries in IANA time zones, computed with Intl so that
+ * day, week, month and year periods start at local midnight (DST included).
+ */
+
+export type CalendarPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime knows the IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at an instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a time zone; out-of-range fields roll over
+ * like Date.UTC. A time skipped by a DST change moves later by the size of the
+ * gap (02:30 becomes 03:30), and a time that happens twice resolves to its
+ * second occurrence.
+ */
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Offsets never change twice within a day, so these bracket any transition
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+
+  // In the offset after a transition, unless the time only exists before it
+  const later = new Date(wallClock - offsetAfter);
+  if (showsWallClock(later, wallClock, timeZone)) {
+    return later;
+  }
+  // Before the transition, or skipped by it and moved past the gap
+  return new Date(wallClock - offsetBefore);
+}
+
+function showsWallClock(date: Date, wallClock: number, timeZone: string): boolean {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute) === wallClock;
+}
+
+/**
+ * Start of the calendar period containing the instant; weeks start on Monday.
+ * Hours are floored on the instant, so a wall-clock hour repeated by a DST
+ * change starts in the offset the instant is in.
+ */
+export function startOfPeriod(date: Date, period: CalendarPeriod, timeZone: string): Date {
+  const { year, month, day, minute, second } = getZonedParts(date, timeZone);
+
+  switch (period) {
+    case 'hour':
+      return new Date(date.getTime() - (minute * 60 + second) * 1000 - date.getUTCMilliseconds());
+    case 'day':
+      return zonedTimeToUtc(timeZone, year, month, day);
+    case 'week': {
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      return zonedTimeToUtc(timeZone, year, month, day - ((weekday + 6) % 7));
+    }
+    case 'month':
+      return zonedTimeToUtc(timeZone, year, month, 1);
+    case 'year':
+      return zonedTimeToUtc(timeZone, year, 1, 1);
+  }
+}
+
+/**
+ * Start of the period `count` periods after the one starting at `periodStart`
+ */
+export function addPeriods(periodStart: Date, period: CalendarPeriod, count: number, timeZone: string): Date {
+  if (period === 'hour') {
+    return new Date(periodStart.getTime() + count * 3600000);
+  }
+
+  const { year, month, day } = getZonedParts(periodStart, timeZone);
+  switch (period) {
+    case 'day':
+      return zonedTimeToUtc(timeZone, year, month, day + count);
+    case 'week':
+      return zonedTimeToUtc(timeZone, year, month, day + count * 7);
+    case 'month':
+      return zonedTimeToUtc(timeZone, year, month + count, 1);
+    case 'year':
+      return zonedTimeToUtc(timeZone, year + count, 1, 1);
+  }
+}
+
+/**
+ * Whether a wall-clock date falls on Saturday or Sunday in the time zone
+ */
+export function isWeekend(date: Date, timeZone: string): boolean {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
@@ -15,6 +15,11 @@ import {
   InputLabel,
   IconButton,
   Tooltip,
+  Menu,
+  ListItemText,
+  Snackbar,
+  Alert,
+  CircularProgress,
   useTheme,
 } from '@mui/material';
 import {
@@ -39,7 +44,9 @@ import {
   Tooltip as RechartsTooltip,
   Legend,
 } from 'recharts';
-import type { Device } from '@maestro/shared';
+import type { Device, EnergyReportFormat } from '@maestro/shared';
+import { useQuery } from '@tanstack/react-query';
+import { energyService } from '../../services/energy';
 import EnergyChart from './EnergyChart';
 
 interface EnergyAnalyticsProps {
@@ -49,40 +56,89 @@ interface EnergyAnalyticsProps {
 type TimeRange = '24h' | '7d' | '30d';
 type ViewType = 'overview' | 'consumption' | 'costs' | 'devices';
 
+const TIME_RANGE_HOURS: Record<TimeRange, number> = { '24h': 24, '7d': 7 * 24, '30d': 30 * 24 };
+
+const EXPORT_FORMATS: Array<{ format: EnergyReportFormat; label: string; description: string }> = [
+  { format: 'pdf', label: 'PDF report', description: 'Summary, charts and insights' },
+  { format: 'csv', label: 'CSV', description: 'Figures for spreadsheets' },
+  { format: 'json', label: 'JSON', description: 'Complete report data' },
+];
+
 const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
   const theme = useTheme();
   const [currentView, setCurrentView] = useState<ViewType>('overview');
   const [timeRange, setTimeRange] = useState<TimeRange>('24h');
   const [chartType, setChartType] = useState<'line' | 'area'>('area');
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Filter active devices
   const activeDevices = devices.filter(d => d.status?.energy?.activePower && d.isOnline);
   
+  const { data: dashboard } = useQuery({
+    queryKey: ['energy', 'dashboard'],
+    queryFn: async () => (await energyService.getDashboard()).data,
+    refetchInterval: 60 * 1000,
+  });
+
+  // Today's day rollup, compared with yesterday
+  const { data: today } = useQuery({
+    queryKey: ['energy', 'stats', 'day'],
+    queryFn: async () => {
+      const response = await energyService.getStats({
+        start: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        period: 'day',
+        order: 'desc',
+        limit: 1,
+      });
+      return response.data?.[0] ?? null;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: hourlyStats = [] } = useQuery({
+    queryKey: ['energy', 'stats', 'hour'],
+    queryFn: async () => {
+      const response = await energyService.getStats({
+        start: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        period: 'hour',
+        limit: 25,
+      });
+      return response.data ?? [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Calculate statistics
   const statistics = useMemo(() => {
-    const totalPower = activeDevices.reduce((sum, d) => sum + ((d as any).status?.energy?.activePower || 0), 0);
-    const activeCount = activeDevices.filter(d => (d as any).status?.switch === true).length;
+    const totalPower = dashboard?.currentPower ??
+      activeDevices.reduce((sum, d) => sum + ((d as any).status?.energy?.activePower || 0), 0);
+    const activeCount = dashboard?.activeDevices ??
+      activeDevices.filter(d => (d as any).status?.switch === true).length;
     const offlineCount = devices.filter(d => !d.isOnline).length;
     
-    // Energy cost calculation (mock rates)
-    const hourlyRate = 0.22; // €0.22 per kWh
-    const dailyCost = (totalPower / 1000) * 24 * hourlyRate;
+    // Cost at the current power, projected over a day and a month
+    const hourlyCost = dashboard?.currentCost ?? 0;
+    const dailyCost = hourlyCost * 24;
     const monthlyCost = dailyCost * 30;
     
-    // Mock historical comparison (would come from real data)
-    const yesterdayPower = totalPower * (0.8 + Math.random() * 0.4); // ±20% variation
-    const powerTrend = ((totalPower - yesterdayPower) / yesterdayPower) * 100;
+    // Current power against yesterday's average power
+    const yesterdayPower = today?.previousPeriod !== undefined ? (today.previousPeriod / 24) * 1000 : 0;
+    const powerTrend = yesterdayPower > 0 ? ((totalPower - yesterdayPower) / yesterdayPower) * 100 : undefined;
     
     return {
       totalPower,
       activeCount,
       offlineCount,
+      hourlyCost,
       dailyCost,
       monthlyCost,
+      todayCost: dashboard?.todayCost ?? 0,
       powerTrend,
-      efficiency: totalPower > 0 ? Math.min(95, 75 + Math.random() * 20) : 0, // Mock efficiency
+      efficiency: (dashboard?.efficiency ?? 0) * 100,
     };
-  }, [devices, activeDevices]);
+  }, [devices, activeDevices, dashboard, today]);
 
   // Device consumption data for pie chart
   const deviceConsumptionData = useMemo(() => {
@@ -103,25 +159,14 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
       .sort((a, b) => b.value - a.value);
   }, [activeDevices, theme]);
 
-  // Mock hourly consumption data for bar chart
+  // Hourly consumption (average power) and cost of the last 24 hours
   const hourlyData = useMemo(() => {
-    const hours = [];
-    for (let i = 0; i < 24; i++) {
-      const hour = i.toString().padStart(2, '0') + ':00';
-      const baseConsumption = statistics.totalPower;
-      // Create realistic daily pattern
-      const timeOfDay = i / 24;
-      const pattern = Math.sin(timeOfDay * Math.PI * 2 - Math.PI / 2) * 0.3 + 1;
-      const consumption = baseConsumption * pattern * (0.8 + Math.random() * 0.4);
-      
-      hours.push({
-        hour,
-        consumption: Math.max(0, consumption),
-        cost: (consumption / 1000) * 0.22,
-      });
-    }
-    return hours;
-  }, [statistics.totalPower]);
+    return hourlyStats.map(stats => ({
+      hour: new Date(stats.periodStart).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+      consumption: stats.consumption * 1000,
+      cost: stats.cost ?? 0,
+    }));
+  }, [hourlyStats]);
 
   const formatPower = (value: number) => {
     if (value >= 1000) return `${(value / 1000).toFixed(1)} kW`;
@@ -130,31 +175,32 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
 
   const formatCurrency = (value: number) => `€${value.toFixed(2)}`;
 
-  const handleExportData = () => {
-    const exportData = {
-      timestamp: new Date().toISOString(),
-      devices: devices.map(d => ({
-        id: d._id,
-        name: d.name,
-        type: d.deviceType,
-        isOnline: d.isOnline,
-        isActive: (d as any).status?.switch,
-        power: (d as any).status?.energy?.activePower || 0,
-        voltage: (d as any).status?.energy?.voltage || 0,
-        current: (d as any).status?.energy?.current || 0,
-      })),
-      statistics,
-    };
+  const handleExportReport = async (format: EnergyReportFormat) => {
+    setExportAnchor(null);
+    setExporting(true);
+    try {
+      // Custom report over the selected time range
+      const end = new Date();
+      const start = new Date(end.getTime() - TIME_RANGE_HOURS[timeRange] * 60 * 60 * 1000);
+      const { data: report } = await energyService.createReport({ reportType: 'custom', start, end, format });
+      if (!report) {
+        throw new Error('No report was generated');
+      }
 
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `maestro-energy-export-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+      const blob = await energyService.downloadReport(report._id, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `maestro-energy-report-${end.toISOString().split('T')[0]}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to export report');
+    } finally {
+      setExporting(false);
+    }
   };
 
   const StatCard = ({ 
@@ -350,7 +396,7 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
                 <Typography>Current Hour:</Typography>
                 <Typography sx={{ fontWeight: 600 }}>
-                  {formatCurrency((statistics.totalPower / 1000) * 0.22)}
+                  {formatCurrency(statistics.hourlyCost)}
                 </Typography>
               </Box>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
@@ -367,7 +413,7 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
               </Box>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', pt: 2, borderTop: 1, borderColor: 'divider' }}>
                 <Typography variant="body2" color="text.secondary">
-                  Rate: €0.22/kWh
+                  Today so far: {formatCurrency(statistics.todayCost)}
                 </Typography>
               </Box>
             </Box>
@@ -437,11 +483,24 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
             </Button>
           </ButtonGroup>
 
-          <Tooltip title="Export Data">
-            <IconButton onClick={handleExportData} color="primary">
-              <ExportIcon />
-            </IconButton>
+          <Tooltip title="Export Report">
+            <span>
+              <IconButton onClick={(e) => setExportAnchor(e.currentTarget)} color="primary" disabled={exporting}>
+                {exporting ? <CircularProgress size={24} /> : <ExportIcon />}
+              </IconButton>
+            </span>
           </Tooltip>
+          <Menu
+            anchorEl={exportAnchor}
+            open={Boolean(exportAnchor)}
+            onClose={() => setExportAnchor(null)}
+          >
+            {EXPORT_FORMATS.map(({ format, label, description }) => (
+              <MenuItem key={format} onClick={() => handleExportReport(format)}>
+                <ListItemText primary={label} secondary={description} />
+              </MenuItem>
+            ))}
+          </Menu>
         </Box>
       </Box>
 
@@ -469,6 +528,16 @@ const EnergyAnalytics = ({ devices }: EnergyAnalyticsProps) => {
           Device-specific analytics coming soon...
         </Typography>
       )}
+
+      <Snackbar
+        open={exportError !== null}
+        autoHideDuration={6000}
+        onClose={() => setExportError(null)}
+      >
+        <Alert severity="error" onClose={() => setExportError(null)}>
+          {exportError}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 };
@@ -23,6 +23,8 @@ import {
   Area,
 } from 'recharts';
 import type { Device } from '@maestro/shared';
+import { useQuery } from '@tanstack/react-query';
+import { energyService } from '../../services/energy';
 
 interface EnergyChartProps {
   devices: Device[];
@@ -39,48 +41,47 @@ const EnergyChart = ({
 }: EnergyChartProps) => {
   const theme = useTheme();
 
-  // Generate mock historical data based on current device states
+  const deviceIds = useMemo(() => devices.map(device => device.deviceId), [devices]);
+
+  // Hourly series for the last day, daily series for longer ranges
+  const { data: series = [] } = useQuery({
+    queryKey: ['energy', 'measurements', timeRange, deviceIds],
+    queryFn: async () => {
+      const hours = timeRange === '24h' ? 24 : timeRange === '7d' ? 24 * 7 : 24 * 30;
+      const response = await energyService.getMeasurements({
+        start: new Date(Date.now() - hours * 60 * 60 * 1000),
+        deviceIds,
+        resolution: timeRange === '24h' ? 'hour' : 'day',
+        limit: 1000,
+      });
+      return response.data ?? [];
+    },
+    enabled: deviceIds.length > 0,
+    staleTime: 60 * 1000,
+  });
+
   const chartData = useMemo(() => {
-    const now = new Date();
-    const hours = timeRange === '24h' ? 24 : timeRange === '7d' ? 24 * 7 : 24 * 30;
-    const interval = timeRange === '24h' ? 1 : timeRange === '7d' ? 24 : 24;
-    
-    const data = [];
-    
-    for (let i = hours; i >= 0; i -= interval) {
-      const time = new Date(now.getTime() - (i * 60 * 60 * 1000));
-      const timeLabel = timeRange === '24h' 
-        ? time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
-        : time.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      
-      const dataPoint: any = {
-        time: timeLabel,
+    const names = new Map(devices.map(device => [device.deviceId, device.name]));
+    const points = new Map<number, any>();
+
+    series.forEach(point => {
+      const time = new Date(point.timestamp);
+      const dataPoint = points.get(time.getTime()) ?? {
+        time: timeRange === '24h'
+          ? time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+          : time.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
         timestamp: time.getTime(),
+        total: 0,
       };
-      
-      // Add data for each active device
-      devices.forEach(device => {
-        if (device.status.energy?.activePower && device.status.switch) {
-          const basePower = device.status.energy.activePower;
-          // Add some realistic variation (±20%)
-          const variation = (Math.random() - 0.5) * 0.4;
-          const timeVariation = Math.sin((i / hours) * Math.PI * 2) * 0.3; // Daily pattern
-          dataPoint[device.name] = Math.max(0, basePower * (1 + variation + timeVariation));
-        } else {
-          dataPoint[device.name] = 0;
-        }
-      });
-      
-      // Calculate total
-      dataPoint.total = Object.keys(dataPoint)
-        .filter(key => key !== 'time' && key !== 'timestamp' && key !== 'total')
-        .reduce((sum, key) => sum + (dataPoint[key] || 0), 0);
-      
-      data.push(dataPoint);
-    }
-    
-    return data.reverse();
-  }, [devices, timeRange]);
+
+      const power = point.avgPower ?? 0;
+      dataPoint[names.get(point.deviceId) ?? point.deviceId] = power;
+      dataPoint.total += power;
+      points.set(time.getTime(), dataPoint);
+    });
+
+    return [...points.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }, [series, devices, timeRange]);
 
   const activeDevices = devices.filter(d => 
     d.status.energy?.activePower && 
@@ -1,5 +1,14 @@
 import ApiService from './api';
-import type { Device, DeviceCommand, CommandResult, ApiResponse, PaginatedResponse, DeviceGridFilter } from '@maestro/shared';
+import type {
+  Device,
+  DeviceCommand,
+  CommandResult,
+  ApiResponse,
+  PaginatedResponse,
+  DeviceGridFilter,
+  CommandName,
+  CommandParameters
+} from '@maestro/shared';
 
 export interface DeviceDiscoveryResult {
   devices: Device[];
@@ -8,10 +17,13 @@ export interface DeviceDiscoveryResult {
   errors: string[];
 }
 
-export interface DeviceControlRequest {
+// Catalog commands autocomplete; raw protocol commands are still accepted
+export type DeviceCommandName = CommandName | (string & {});
+
+export interface DeviceControlRequest<C extends DeviceCommandName = DeviceCommandName> {
   deviceId: string;
-  command: string;
-  parameters?: Record<string, any>;
+  command: C;
+  parameters?: CommandParameters<C>;
 }
 
 export interface DeviceStatusUpdate {
@@ -72,7 +84,7 @@ class DeviceService extends ApiService {
   /**
    * Send command to device
    */
-  async sendCommand(request: DeviceControlRequest): Promise<ApiResponse<CommandResult>> {
+  async sendCommand<C extends DeviceCommandName>(request: DeviceControlRequest<C>): Promise<ApiResponse<CommandResult>> {
     return this.post<CommandResult>(`/devices/${request.deviceId}/commands`, {
       command: request.command,
       parameters: request.parameters,
@@ -116,10 +128,10 @@ class DeviceService extends ApiService {
   /**
    * Batch device operations
    */
-  async batchDeviceCommand(
+  async batchDeviceCommand<C extends DeviceCommandName>(
     deviceIds: string[],
-    command: string,
-    parameters?: Record<string, any>
+    command: C,
+    parameters?: CommandParameters<C>
   ): Promise<ApiResponse<CommandResult[]>> {
     return this.post<CommandResult[]>('/devices/batch-command', {
       deviceIds,
@@ -134,8 +146,7 @@ class DeviceService extends ApiService {
   async toggleDevice(deviceId: string, state: boolean): Promise<ApiResponse<CommandResult>> {
     return this.sendCommand({
       deviceId,
-      command: 'switch',
-      parameters: { value: state },
+      command: state ? 'turn_on' : 'turn_off',
     });
   }
 
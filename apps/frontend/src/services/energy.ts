@@ -0,0 +1,130 @@
+import ApiService, { api } from './api';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  EnergyDashboardData,
+  EnergyFlow,
+  EnergyReport,
+  EnergyReportFormat,
+  EnergyReportType,
+  EnergyResolution,
+  EnergySeriesPoint,
+  EnergyStats,
+  EnergyStatsGroupBy,
+  EnergyStatsSummary
+} from '@maestro/shared';
+
+export interface EnergyRangeQuery {
+  start: Date;
+  end?: Date;
+  deviceIds?: string[];
+  page?: number;
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface MeasurementsQuery extends EnergyRangeQuery {
+  resolution?: EnergyResolution | 'auto';
+}
+
+export interface StatsQuery extends EnergyRangeQuery {
+  period?: EnergyStats['period'];
+  groupBy?: EnergyStatsGroupBy;
+}
+
+export interface ReportRequest {
+  reportType: EnergyReportType;
+  start?: Date; // standard reports: any time in the period, default: now
+  end?: Date; // custom reports only
+  format?: EnergyReportFormat;
+}
+
+class EnergyService extends ApiService {
+  /**
+   * Get measurement series, aggregated to the resolution (auto picks one from the range)
+   */
+  async getMeasurements(query: MeasurementsQuery): Promise<PaginatedResponse<EnergySeriesPoint>> {
+    return this.getPaginated<EnergySeriesPoint>('/energy/measurements', {
+      ...this.rangeParams(query),
+      resolution: query.resolution,
+    });
+  }
+
+  /**
+   * Get rolled-up statistics per period, optionally grouped by device or location
+   */
+  async getStats(query: StatsQuery): Promise<PaginatedResponse<EnergyStatsSummary>> {
+    return this.getPaginated<EnergyStatsSummary>('/energy/stats', {
+      ...this.rangeParams(query),
+      period: query.period,
+      groupBy: query.groupBy,
+    });
+  }
+
+  /**
+   * Get current power and today's totals
+   */
+  async getDashboard(): Promise<ApiResponse<EnergyDashboardData>> {
+    return this.get<EnergyDashboardData>('/energy/dashboard');
+  }
+
+  /**
+   * Get the latest energy flow, null before any flow was recorded
+   */
+  async getFlow(): Promise<ApiResponse<EnergyFlow | null>> {
+    return this.get<EnergyFlow | null>('/energy/flow');
+  }
+
+  /**
+   * Get stored reports, newest first, without series, device breakdown and insights
+   */
+  async getReports(params: { page?: number; limit?: number; reportType?: EnergyReportType } = {}): Promise<PaginatedResponse<EnergyReport>> {
+    return this.getPaginated<EnergyReport>('/energy/reports', params);
+  }
+
+  /**
+   * Generate and store a report
+   */
+  async createReport(request: ReportRequest): Promise<ApiResponse<EnergyReport>> {
+    return this.post<EnergyReport>('/energy/reports', {
+      reportType: request.reportType,
+      start: request.start?.toISOString(),
+      end: request.end?.toISOString(),
+      format: request.format,
+    });
+  }
+
+  async deleteReport(reportId: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/energy/reports/${reportId}`);
+  }
+
+  /**
+   * Download a report as JSON, CSV or PDF file (default: the format it was created with)
+   */
+  async downloadReport(reportId: string, format?: EnergyReportFormat): Promise<Blob> {
+    try {
+      const response = await api.get<Blob>(`/energy/reports/${reportId}/download`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error: any) {
+      throw this.handleError(error);
+    }
+  }
+
+  private rangeParams(query: EnergyRangeQuery): Record<string, any> {
+    return {
+      start: query.start.toISOString(),
+      end: query.end?.toISOString(),
+      deviceId: query.deviceIds?.join(','),
+      page: query.page,
+      limit: query.limit,
+      order: query.order,
+    };
+  }
+}
+
+// Export singleton instance
+export const energyService = new EnergyService();
+export default energyService;
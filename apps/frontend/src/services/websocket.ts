@@ -1,6 +1,7 @@
 import { io, Socket } from 'socket.io-client';
-import type { WebSocketEvent, DeviceStatusUpdate } from '@maestro/shared';
+import type { WebSocketEvent, DeviceStatusUpdate, CommandParameters } from '@maestro/shared';
 import { authService } from './auth';
+import type { DeviceCommandName } from './device';
 
 export type WebSocketEventType = 
   | 'device_status_update'
@@ -167,7 +168,7 @@ class WebSocketService {
   /**
    * Send command via WebSocket (for immediate feedback)
    */
-  sendDeviceCommand(deviceId: string, command: string, parameters?: any): void {
+  sendDeviceCommand<C extends DeviceCommandName>(deviceId: string, command: C, parameters?: CommandParameters<C>): void {
     if (this.socket) {
       this.socket.emit('device_command', {
         deviceId,
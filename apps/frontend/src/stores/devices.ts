@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { Device, DeviceGridFilter, CommandResult, WebSocketEvent } from '@maestro/shared';
+import type { Device, DeviceGridFilter, CommandResult, WebSocketEvent, CommandParameters } from '@maestro/shared';
 import { deviceService } from '../services/device';
+import type { DeviceCommandName } from '../services/device';
 import { websocketService } from '../services/websocket';
 
 export interface DeviceState {
@@ -30,7 +31,7 @@ export interface DeviceState {
   updateFilters: (filters: Partial<DeviceGridFilter>) => void;
   updateDevice: (deviceId: string, updates: Partial<Device>) => Promise<void>;
   removeDevice: (deviceId: string) => Promise<void>;
-  sendCommand: (deviceId: string, command: string, parameters?: any) => Promise<CommandResult>;
+  sendCommand: <C extends DeviceCommandName>(deviceId: string, command: C, parameters?: CommandParameters<C>) => Promise<CommandResult>;
   toggleDevice: (deviceId: string, state: boolean) => Promise<CommandResult>;
   clearError: () => void;
   
@@ -189,7 +190,7 @@ export const useDeviceStore = create<DeviceState>()(
         }
       },
 
-      sendCommand: async (deviceId: string, command: string, parameters?: any) => {
+      sendCommand: async <C extends DeviceCommandName>(deviceId: string, command: C, parameters?: CommandParameters<C>) => {
         try {
           // Send command via HTTP API
           const response = await deviceService.sendCommand({
@@ -213,7 +214,7 @@ export const useDeviceStore = create<DeviceState>()(
       toggleDevice: async (deviceId: string, state: boolean) => {
         try {
           // Send command to backend
-          const result = await get().sendCommand(deviceId, 'switch', { value: state });
+          const result = await get().sendCommand(deviceId, state ? 'turn_on' : 'turn_off');
           
           // Update state only once with the result
           if (result?.result) {
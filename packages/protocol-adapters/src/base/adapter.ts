@@ -7,9 +7,21 @@ import {
   CommandResult,
   DeviceStatusUpdate,
   DeviceDiscovery,
-  DeviceStatus
+  DeviceStatus,
+  DeviceCapability,
+  validateDeviceCommandParameters
 } from '@maestro/shared/types';
 
+import { CommandQueue, QueuedCommandInfo } from './command-queue';
+import {
+  CircuitBreaker,
+  CircuitBreakerGroup,
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+  CircuitStateChange,
+  isRateLimitError
+} from './circuit-breaker';
+
 /**
  * Base Protocol Adapter Interface
  * 
@@ -39,6 +51,14 @@ export interface AdapterConfig {
   };
   authentication?: Record<string, any>;
   options?: Record<string, any>;
+  commandQueue?: {
+    ttl?: number | undefined; // ms a queued command may wait, default: 300000
+    maxLength?: number | undefined; // pending commands per device, default: 100
+  };
+  circuitBreaker?: {
+    adapter?: CircuitBreakerOptions | undefined; // default: 5 failures, 30 s cooldown
+    device?: CircuitBreakerOptions | undefined; // default: 3 failures, 60 s cooldown
+  };
 }
 
 export interface ConnectionStatus {
@@ -64,16 +84,16 @@ export interface DeviceInfo {
   deviceId: string;
   protocol: ProtocolType;
   deviceType: DeviceType;
-  name?: string;
-  manufacturer?: string;
-  model?: string;
-  firmwareVersion?: string;
+  name?: string | undefined;
+  manufacturer?: string | undefined;
+  model?: string | undefined;
+  firmwareVersion?: string | undefined;
   capabilities: string[];
   networkInfo?: {
-    ipAddress?: string;
-    macAddress?: string;
-    port?: number;
-    networkId?: string;
+    ipAddress?: string | undefined;
+    macAddress?: string | undefined;
+    port?: number | undefined;
+    networkId?: string | undefined;
   };
   metadata?: Record<string, any>;
 }
@@ -94,8 +114,12 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
   protected connectionStatus: ConnectionStatus;
   protected stats: AdapterStats;
   protected activeSubscriptions: Map<string, EventSubscription>;
-  protected commandQueue: Map<string, DeviceCommand[]>;
+  protected commandQueue: CommandQueue;
+  protected adapterCircuit: CircuitBreaker;
+  protected deviceCircuits: CircuitBreakerGroup;
   protected isInitialized: boolean = false;
+  private rateLimitTokens?: number | undefined;
+  private rateLimitRefilledAt: number = 0;
 
   constructor(config: AdapterConfig) {
     super();
@@ -114,7 +138,29 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
       bytesTransferred: 0
     };
     this.activeSubscriptions = new Map();
-    this.commandQueue = new Map();
+    this.adapterCircuit = new CircuitBreaker(config.protocol, {
+      failureThreshold: 5,
+      cooldown: 30000,
+      ...config.circuitBreaker?.adapter
+    });
+    this.deviceCircuits = new CircuitBreakerGroup(config.protocol, {
+      failureThreshold: 3,
+      cooldown: 60000,
+      ...config.circuitBreaker?.device
+    });
+    this.adapterCircuit.on('stateChange', change => this.onCircuitStateChange(change));
+    this.deviceCircuits.on('stateChange', change => this.onCircuitStateChange(change));
+
+    this.commandQueue = new CommandQueue(
+      (deviceId, command) => this.executeWithCircuitBreakers(deviceId, command),
+      {
+        maxConcurrent: config.maxConcurrentCommands,
+        defaultTtl: config.commandQueue?.ttl,
+        maxQueueLength: config.commandQueue?.maxLength
+      }
+    );
+    // Held until the adapter connects
+    this.commandQueue.pause();
   }
 
   // Abstract methods that must be implemented by concrete adapters
@@ -221,6 +267,39 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
    */
   abstract validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean>;
 
+  /**
+   * Queue a command: serialized per device, ordered by priority, held while
+   * the device or adapter is offline (see CommandQueue)
+   */
+  queueCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    return this.commandQueue.enqueue(deviceId, command);
+  }
+
+  /**
+   * Get commands waiting in the queue
+   */
+  getQueuedCommands(deviceId?: string): QueuedCommandInfo[] {
+    return this.commandQueue.getPending(deviceId);
+  }
+
+  /**
+   * Cancel queued commands of a device (all, or the one with commandId)
+   */
+  cancelQueuedCommands(deviceId: string, commandId?: string): number {
+    return this.commandQueue.cancel(deviceId, commandId);
+  }
+
+  /**
+   * Circuit breaker state of the adapter and of devices with recent failures;
+   * adapters with several transports add one breaker per transport
+   */
+  getCircuitBreakers(): { adapter: CircuitBreakerSnapshot; devices: CircuitBreakerSnapshot[]; transports?: CircuitBreakerSnapshot[] } {
+    return {
+      adapter: this.adapterCircuit.getSnapshot(),
+      devices: this.deviceCircuits.getSnapshots()
+    };
+  }
+
   /**
    * Get list of active subscriptions
    */
@@ -288,7 +367,9 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
       if (!wasConnected) {
         this.emit('connected');
       }
+      this.commandQueue.resume();
     } else {
+      this.commandQueue.pause();
       this.connectionStatus.lastDisconnectedAt = new Date();
       if (error) {
         this.connectionStatus.lastError = error;
@@ -304,6 +385,8 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
    * Emit a device status update event
    */
   protected emitDeviceUpdate(update: DeviceStatusUpdate): void {
+    // Queued commands for a device wait until it reports back online
+    this.commandQueue.setDeviceOnline(update.deviceId, update.status !== 'offline');
     this.emit('deviceUpdate', update);
     
     // Notify specific subscriptions
@@ -355,18 +438,57 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
   }
 
   /**
-   * Check if rate limiting is enabled and if request is allowed
+   * Check if rate limiting is enabled and if request is allowed. Token bucket:
+   * burstSize requests at once, refilled at requestsPerSecond; a request that
+   * is allowed consumes a token.
    */
   protected checkRateLimit(): boolean {
     if (!this.config.rateLimiting) {
       return true;
     }
-    
-    // Implement rate limiting logic here
-    // This is a simplified version - in production, use a proper rate limiter
+
+    const { requestsPerSecond, burstSize } = this.config.rateLimiting;
+    const now = Date.now();
+    const elapsed = (now - this.rateLimitRefilledAt) / 1000;
+
+    this.rateLimitTokens = Math.min(burstSize, (this.rateLimitTokens ?? burstSize) + elapsed * requestsPerSecond);
+    this.rateLimitRefilledAt = now;
+
+    if (this.rateLimitTokens < 1) {
+      return false;
+    }
+    this.rateLimitTokens--;
     return true;
   }
 
+  /**
+   * Check a command against the shared command catalog and, when given, the
+   * device capabilities (supported commands, parameter ranges)
+   */
+  protected assertValidCommand(command: DeviceCommand, capabilities?: DeviceCapability[]): void {
+    const validation = validateDeviceCommandParameters(command.command, command.parameters, capabilities);
+    if (!validation.valid) {
+      throw new Error(`Invalid command ${command.command}: ${validation.errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Adapter-wide circuit every command passes through. Adapters that guard
+   * each of their transports with its own breaker return undefined, so an
+   * open circuit on one transport does not block the others.
+   */
+  protected commandCircuit(): CircuitBreaker | undefined {
+    return this.adapterCircuit;
+  }
+
+  /**
+   * Whether a failed call was rejected for rate limiting; adapters with
+   * protocol-specific error codes extend this
+   */
+  protected isRateLimitError(error: string | undefined): boolean {
+    return isRateLimitError(error);
+  }
+
   /**
    * Log adapter events for debugging and monitoring
    */
@@ -380,6 +502,88 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
       protocol: this.config.protocol
     });
   }
+
+  /**
+   * One log line per transition instead of one per failed call
+   */
+  protected onCircuitStateChange(change: CircuitStateChange): void {
+    const level = change.state === 'open' ? 'warn' : 'info';
+    this.log(level, `Circuit ${change.name} ${change.previous} -> ${change.state}`, {
+      consecutiveFailures: change.snapshot.consecutiveFailures,
+      nextAttemptAt: change.snapshot.nextAttemptAt,
+      lastError: change.snapshot.lastError
+    });
+    this.emit('circuitStateChange', change);
+  }
+
+  // Private helper methods
+
+  /**
+   * Command queue executor: fail fast while a circuit is open, and feed the
+   * outcome back. Invalid commands are rejected before the breakers see them.
+   * Rate limiting trips the adapter circuit without counting against the
+   * device; other failures count against both, so one dead device (3
+   * failures) cannot open the adapter circuit (5) on its own. Half-open
+   * probe slots are only taken once neither circuit blocks the command.
+   */
+  private async executeWithCircuitBreakers(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    try {
+      await this.validateCommand(deviceId, command);
+    } catch (error) {
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: 0,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Invalid command'
+      };
+    }
+
+    const adapterCircuit = this.commandCircuit();
+    const deviceCircuit = this.deviceCircuits.get(deviceId);
+    const circuits = adapterCircuit ? [adapterCircuit, deviceCircuit] : [deviceCircuit];
+    const blocked = circuits.find(circuit => !circuit.isAvailable());
+
+    if (blocked) {
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: 0,
+        retryCount: 0,
+        error: `Circuit open for ${blocked.name}, retry after ${blocked.getSnapshot().nextAttemptAt?.toISOString() ?? 'the current probe'}`
+      };
+    }
+
+    for (const circuit of circuits) {
+      circuit.canExecute();
+    }
+
+    let result: CommandResult;
+    try {
+      result = await this.sendCommand(deviceId, command);
+    } catch (error) {
+      result = {
+        success: false,
+        timestamp: new Date(),
+        responseTime: 0,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    if (result.success) {
+      adapterCircuit?.recordSuccess();
+      deviceCircuit.recordSuccess();
+    } else if (this.isRateLimitError(result.error)) {
+      // Says nothing about the device: its probe goes to the next command
+      adapterCircuit?.trip(result.error);
+      deviceCircuit.releaseProbe();
+    } else {
+      adapterCircuit?.recordFailure(result.error);
+      deviceCircuit.recordFailure(result.error);
+    }
+    return result;
+  }
 }
 
 /**
@@ -396,6 +600,7 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
  * - 'enabledChanged': Adapter enabled/disabled
  * - 'error': Error occurred
  * - 'log': Log message (for debugging/monitoring)
+ * - 'circuitStateChange': Adapter or device circuit breaker changed state
  */
 
 export type AdapterEvent = 
@@ -408,7 +613,8 @@ export type AdapterEvent =
   | 'configUpdated'
   | 'enabledChanged'
   | 'error'
-  | 'log';
+  | 'log'
+  | 'circuitStateChange';
 
 export interface AdapterEventData {
   connected: void;
@@ -428,4 +634,5 @@ export interface AdapterEventData {
     adapter: string;
     protocol: ProtocolType;
   };
-}
\ No newline at end of file
+  circuitStateChange: CircuitStateChange;
+}
@@ -0,0 +1,35 @@
+import { AdapterPlugin, AdapterRegistry } from './registry';
+import { tuyaPlugin } from '../tuya/plugin';
+import { tuyaLocalPlugin } from '../tuya-local/plugin';
+import { modbusPlugin } from '../modbus/plugin';
+import { sunspecPlugin } from '../sunspec/plugin';
+import { mqttPlugin } from '../mqtt/plugin';
+import { canBusPlugin } from '../can/plugin';
+import { restPlugin } from '../rest/plugin';
+import { simulatorPlugin } from '../simulator/plugin';
+
+/**
+ * Adapters shipped with this package. Each plugin imports its adapter lazily,
+ * so optional native dependencies are only loaded for enabled protocols.
+ */
+export const BUILTIN_ADAPTER_PLUGINS: AdapterPlugin<any>[] = [
+  tuyaPlugin,
+  tuyaLocalPlugin,
+  modbusPlugin,
+  sunspecPlugin,
+  mqttPlugin,
+  canBusPlugin,
+  restPlugin,
+  simulatorPlugin
+];
+
+/**
+ * Registry with the built-in adapters registered
+ */
+export function createAdapterRegistry(): AdapterRegistry {
+  const registry = new AdapterRegistry();
+  for (const plugin of BUILTIN_ADAPTER_PLUGINS) {
+    registry.register(plugin, { builtIn: true });
+  }
+  return registry;
+}
@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { CommandResult } from '@maestro/shared/types';
+
+import { CircuitBreaker, CircuitBreakerGroup, CircuitOpenError, CircuitStateChange, isRateLimitError } from './circuit-breaker';
+import { SimulatorAdapter } from '../simulator/adapter';
+
+/**
+ * Circuit Breaker Tests
+ *
+ * Breakers run on fake timers; the adapter tests use the simulator with a
+ * failing sendCommand to drive the breakers from the command queue.
+ */
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  test('opens after consecutive failures and fails fast while open', () => {
+    const breaker = new CircuitBreaker('tuya', { failureThreshold: 3, cooldown: 10000 });
+
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    breaker.recordSuccess();
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure('timeout');
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+    expect(() => breaker.assertCanExecute()).toThrow(CircuitOpenError);
+    expect(breaker.getSnapshot()).toMatchObject({ consecutiveFailures: 3, totalFailures: 5, trips: 1, lastError: 'timeout' });
+  });
+
+  test('lets one probe through after the cooldown and closes on success', () => {
+    const breaker = new CircuitBreaker('tuya', { failureThreshold: 1, cooldown: 10000 });
+    const changes: string[] = [];
+    breaker.on('stateChange', (change: CircuitStateChange) => changes.push(`${change.previous}->${change.state}`));
+
+    breaker.recordFailure();
+    jest.advanceTimersByTime(9999);
+    expect(breaker.canExecute()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canExecute()).toBe(false); // one probe at a time
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(changes).toEqual(['closed->open', 'open->half_open', 'half_open->closed']);
+  });
+
+  test('backs off further after each failed probe, up to maxCooldown', () => {
+    const breaker = new CircuitBreaker('tuya', { failureThreshold: 1, cooldown: 1000, maxCooldown: 5000 });
+    breaker.recordFailure();
+
+    const cooldowns: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      jest.advanceTimersByTime(breaker.getSnapshot().cooldown);
+      expect(breaker.canExecute()).toBe(true);
+      breaker.recordFailure();
+      cooldowns.push(breaker.getSnapshot().cooldown);
+    }
+    expect(cooldowns).toEqual([2000, 4000, 5000, 5000]);
+
+    jest.advanceTimersByTime(5000);
+    breaker.canExecute();
+    breaker.recordSuccess();
+    expect(breaker.getSnapshot().cooldown).toBe(1000);
+  });
+
+  test('trips at once on rate limiting and honours retryAfter', () => {
+    const breaker = new CircuitBreaker('tuya', { failureThreshold: 5, cooldown: 30000 });
+
+    breaker.trip('Rate limited: API request failed: 429 Too Many Requests', 120000);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot().nextAttemptAt!.getTime() - Date.now()).toBe(120000);
+
+    jest.advanceTimersByTime(120000);
+    expect(breaker.getState()).toBe('half_open');
+  });
+
+  test('recognises rate-limit errors', () => {
+    expect(isRateLimitError('API request failed: 429 Too Many Requests')).toBe(true);
+    expect(isRateLimitError('Tuya API error: request too frequent (Code: 40000309)')).toBe(true);
+    expect(isRateLimitError('Rate limited: quota exceeded')).toBe(true);
+    expect(isRateLimitError('Device offline')).toBe(false);
+    expect(isRateLimitError(undefined)).toBe(false);
+  });
+
+  test('groups report only breakers with trouble', () => {
+    const group = new CircuitBreakerGroup('modbus', { failureThreshold: 2 });
+    group.get('inverter').recordFailure('timeout');
+    group.get('meter').recordSuccess();
+
+    expect(group.getSnapshots()).toEqual([expect.objectContaining({ name: 'modbus:inverter', state: 'closed', consecutiveFailures: 1 })]);
+    expect(group.getSnapshots(true)).toHaveLength(2);
+  });
+});
+
+describe('Adapter circuit breakers', () => {
+  const failure: CommandResult = { success: false, timestamp: new Date(), responseTime: 5, retryCount: 0, error: 'Device timeout' };
+
+  async function createSimulator(): Promise<SimulatorAdapter> {
+    const adapter = new SimulatorAdapter({
+      protocol: 'simulator',
+      name: 'Test Simulator',
+      enabled: true,
+      connectionTimeout: 1000,
+      commandTimeout: 1000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 10,
+      circuitBreaker: { adapter: { cooldown: 1000 }, device: { failureThreshold: 2, cooldown: 5000 } },
+      options: { seed: 1, tickInterval: 0 }
+    });
+    await adapter.initialize();
+    return adapter;
+  }
+
+  const turnOff = { deviceId: 'sim-plug-tv', command: 'turn_off', parameters: {}, timestamp: new Date() };
+
+  test('opens a device circuit and fails fast without reaching the device', async () => {
+    const adapter = await createSimulator();
+    const send = jest.spyOn(adapter, 'sendCommand').mockResolvedValue(failure);
+
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    const blocked = await adapter.queueCommand('sim-plug-tv', turnOff);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(blocked.error).toMatch(/^Circuit open for simulator:sim-plug-tv/);
+    expect((await adapter.getDiagnostics()).circuitBreakers).toMatchObject({
+      adapter: { state: 'closed', consecutiveFailures: 2 },
+      devices: [{ name: 'simulator:sim-plug-tv', state: 'open' }]
+    });
+
+    // Other devices are unaffected; their success resets the adapter count
+    send.mockRestore();
+    expect((await adapter.queueCommand('sim-plug-fridge', { ...turnOff, deviceId: 'sim-plug-fridge' })).success).toBe(true);
+    expect(adapter.getCircuitBreakers().adapter.consecutiveFailures).toBe(0);
+
+    jest.advanceTimersByTime(5000);
+    expect((await adapter.queueCommand('sim-plug-tv', turnOff)).success).toBe(true);
+    expect(adapter.getCircuitBreakers().devices).toEqual([]);
+    await adapter.disconnect();
+  });
+
+  test('rate limiting trips the adapter circuit, invalid commands count for nothing', async () => {
+    const adapter = await createSimulator();
+    const changes: CircuitStateChange[] = [];
+    adapter.on('circuitStateChange', change => changes.push(change));
+
+    expect((await adapter.queueCommand('sim-plug-tv', { ...turnOff, command: 'set_brightness' })).success).toBe(false);
+    expect(adapter.getCircuitBreakers().devices).toEqual([]);
+
+    jest.spyOn(adapter, 'sendCommand').mockResolvedValueOnce({ ...failure, error: 'API request failed: 429 Too Many Requests' });
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+
+    expect(changes.map(change => `${change.name}:${change.state}`)).toEqual(['simulator:open']);
+    expect((await adapter.queueCommand('sim-battery', { ...turnOff, deviceId: 'sim-battery', command: 'set_mode', parameters: { mode: 'idle' } })).error)
+      .toMatch(/^Circuit open for simulator,/);
+    await adapter.disconnect();
+  });
+
+  test('a rate-limited probe leaves a half-open device circuit to the next command', async () => {
+    const adapter = await createSimulator();
+    const send = jest.spyOn(adapter, 'sendCommand')
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce({ ...failure, error: 'API request failed: 429 Too Many Requests' });
+
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+
+    // The probe of the half-open device circuit is rate limited
+    jest.advanceTimersByTime(5000);
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    expect(adapter.getCircuitBreakers().devices).toEqual([expect.objectContaining({ state: 'half_open' })]);
+    send.mockRestore();
+
+    jest.advanceTimersByTime(1000);
+    expect((await adapter.queueCommand('sim-plug-tv', turnOff)).success).toBe(true);
+    expect(adapter.getCircuitBreakers().devices).toEqual([]);
+    expect(adapter.getCircuitBreakers().adapter.state).toBe('closed');
+    await adapter.disconnect();
+  });
+
+  test('a command blocked by its device circuit leaves the adapter probe to others', async () => {
+    const adapter = await createSimulator();
+    const send = jest.spyOn(adapter, 'sendCommand')
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce({ ...failure, error: 'API request failed: 429 Too Many Requests' });
+
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    await adapter.queueCommand('sim-plug-tv', turnOff);
+    await adapter.queueCommand('sim-plug-fridge', { ...turnOff, deviceId: 'sim-plug-fridge' });
+    send.mockRestore();
+
+    // Adapter circuit half-open, the device circuit of the TV still open
+    jest.advanceTimersByTime(1000);
+    expect((await adapter.queueCommand('sim-plug-tv', turnOff)).error).toMatch(/^Circuit open for simulator:sim-plug-tv/);
+    expect((await adapter.queueCommand('sim-plug-fridge', { ...turnOff, deviceId: 'sim-plug-fridge' })).success).toBe(true);
+    expect(adapter.getCircuitBreakers().adapter.state).toBe('closed');
+    await adapter.disconnect();
+  });
+});
@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Circuit Breakers
+ *
+ * A breaker opens after `failureThreshold` consecutive failures, or at once
+ * when the remote side reports rate limiting. While open, calls fail fast
+ * instead of reaching the device or cloud. Once the cooldown has passed a
+ * single probe is let through (half-open): success closes the circuit, failure
+ * re-opens it with a longer cooldown (adaptive backoff, capped at maxCooldown).
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number | undefined; // consecutive failures, default: 5
+  cooldown?: number | undefined; // ms open before the first probe, default: 30000
+  maxCooldown?: number | undefined; // ms, default: 600000
+  backoffMultiplier?: number | undefined; // cooldown growth per failed probe, default: 2
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  trips: number;
+  cooldown: number; // ms
+  openedAt?: Date | undefined;
+  nextAttemptAt?: Date | undefined;
+  lastError?: string | undefined;
+}
+
+export interface CircuitStateChange {
+  name: string;
+  state: CircuitState;
+  previous: CircuitState;
+  snapshot: CircuitBreakerSnapshot;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly circuit: string, readonly retryAt: Date) {
+    super(`Circuit open for ${circuit}, retry after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfter?: number | undefined) {
+    super(`Rate limited: ${message}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const RATE_LIMIT_PATTERN = /\b429\b|rate.?limit|too many requests|too frequent|frequency limit/i;
+
+/**
+ * Whether an error message reports rate limiting by the remote side
+ */
+export function isRateLimitError(message: string | undefined): boolean {
+  return message !== undefined && RATE_LIMIT_PATTERN.test(message);
+}
+
+/**
+ * Circuit breaker implementation
+ */
+export class CircuitBreaker extends EventEmitter {
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly baseCooldown: number;
+  private readonly maxCooldown: number;
+  private readonly backoffMultiplier: number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private totalFailures: number = 0;
+  private trips: number = 0;
+  private cooldown: number;
+  private openedAt: number = 0;
+  private nextAttemptAt: number = 0;
+  private probeStartedAt?: number | undefined;
+  private lastError?: string | undefined;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    super();
+    this.name = name;
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.baseCooldown = options.cooldown ?? 30000;
+    this.maxCooldown = Math.max(this.baseCooldown, options.maxCooldown ?? 600000);
+    this.backoffMultiplier = options.backoffMultiplier ?? 2;
+    this.cooldown = this.baseCooldown;
+  }
+
+  getState(): CircuitState {
+    this.refresh();
+    return this.state;
+  }
+
+  /**
+   * Whether a call could go through now, without taking the half-open probe
+   * slot; use before canExecute when several circuits guard one call
+   */
+  isAvailable(): boolean {
+    this.refresh();
+    return this.state === 'closed' || (this.state === 'half_open' && this.probeStartedAt === undefined);
+  }
+
+  /**
+   * Whether a call may go through now. In half-open state only one probe is
+   * allowed at a time; its outcome must be recorded.
+   */
+  canExecute(): boolean {
+    this.refresh();
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half_open' && this.probeStartedAt === undefined) {
+      this.probeStartedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Throw CircuitOpenError unless a call may go through
+   */
+  assertCanExecute(): void {
+    if (!this.canExecute()) {
+      throw new CircuitOpenError(this.name, new Date(Math.max(this.nextAttemptAt, Date.now())));
+    }
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.probeStartedAt = undefined;
+
+    if (this.state !== 'closed') {
+      this.cooldown = this.baseCooldown;
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error?: string): void {
+    this.refresh();
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error;
+
+    if (this.state === 'half_open') {
+      this.open(this.growCooldown());
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold) {
+      this.open(this.cooldown);
+    }
+  }
+
+  /**
+   * Open immediately, e.g. on a rate-limit response. retryAfter (ms) from the
+   * remote side wins over the cooldown; repeated trips back off further.
+   */
+  trip(error?: string, retryAfter?: number): void {
+    this.refresh();
+    this.totalFailures++;
+    this.lastError = error;
+
+    const cooldown = this.state === 'closed' ? this.cooldown : this.growCooldown();
+    this.open(retryAfter ?? cooldown);
+  }
+
+  /**
+   * Give back the half-open probe slot without an outcome, e.g. when the call
+   * failed for a reason that says nothing about this circuit
+   */
+  releaseProbe(): void {
+    this.probeStartedAt = undefined;
+  }
+
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.cooldown = this.baseCooldown;
+    this.probeStartedAt = undefined;
+    this.transition('closed');
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    this.refresh();
+    const open = this.state !== 'closed';
+
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      trips: this.trips,
+      cooldown: this.cooldown,
+      openedAt: open ? new Date(this.openedAt) : undefined,
+      nextAttemptAt: this.state === 'open' ? new Date(this.nextAttemptAt) : undefined,
+      lastError: this.lastError
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Move to half-open once the cooldown has passed; release a probe whose
+   * outcome was never recorded
+   */
+  private refresh(): void {
+    const now = Date.now();
+    if (this.state === 'open' && now >= this.nextAttemptAt) {
+      this.transition('half_open');
+    }
+    if (this.probeStartedAt !== undefined && now - this.probeStartedAt > this.cooldown) {
+      this.probeStartedAt = undefined;
+    }
+  }
+
+  private open(cooldown: number): void {
+    const now = Date.now();
+    this.openedAt = now;
+    this.nextAttemptAt = now + cooldown;
+    this.probeStartedAt = undefined;
+    this.trips++;
+
+    if (this.state === 'open') {
+      // Extended while open: report the new deadline
+      this.emit('stateChange', { name: this.name, state: 'open', previous: 'open', snapshot: this.getSnapshot() });
+    } else {
+      this.transition('open');
+    }
+  }
+
+  private growCooldown(): number {
+    this.cooldown = Math.min(this.maxCooldown, this.cooldown * this.backoffMultiplier);
+    return this.cooldown;
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+    const previous = this.state;
+    this.state = state;
+    this.emit('stateChange', { name: this.name, state, previous, snapshot: this.getSnapshot() });
+  }
+}
+
+/**
+ * Breakers keyed by device, created on first use with shared options
+ */
+export class CircuitBreakerGroup extends EventEmitter {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(
+    private readonly prefix: string,
+    private readonly options: CircuitBreakerOptions = {}
+  ) {
+    super();
+  }
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`${this.prefix}:${key}`, this.options);
+      breaker.on('stateChange', (change: CircuitStateChange) => this.emit('stateChange', change));
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  peek(key: string): CircuitBreaker | undefined {
+    return this.breakers.get(key);
+  }
+
+  delete(key: string): boolean {
+    return this.breakers.delete(key);
+  }
+
+  /**
+   * Snapshots of breakers that are not closed or have recent failures
+   */
+  getSnapshots(includeHealthy: boolean = false): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.values())
+      .map(breaker => breaker.getSnapshot())
+      .filter(snapshot => includeHealthy || snapshot.state !== 'closed' || snapshot.consecutiveFailures > 0);
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { CommandResult, DeviceCommand } from '@maestro/shared/types';
+
+import { CommandQueue, defaultSupersedeKey } from './command-queue';
+
+/**
+ * Command Queue Tests
+ *
+ * The executor records every command and only completes when the test
+ * releases it, so ordering and serialization are observable.
+ */
+
+interface Call {
+  deviceId: string;
+  command: DeviceCommand;
+  complete: (result?: Partial<CommandResult>) => void;
+}
+
+let calls: Call[];
+let queue: CommandQueue;
+
+function execute(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+  return new Promise(resolve => {
+    calls.push({
+      deviceId,
+      command,
+      complete: (result = {}) => resolve({
+        success: true,
+        timestamp: new Date(),
+        responseTime: 1,
+        retryCount: 0,
+        result: { command: command.command, ...command.parameters },
+        ...result
+      })
+    });
+  });
+}
+
+function command(name: string, extra: Partial<DeviceCommand> = {}, parameters: Record<string, any> = {}): DeviceCommand {
+  return { deviceId: 'plug-1', command: name, parameters, timestamp: new Date(), ...extra };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+beforeEach(() => {
+  calls = [];
+  queue = new CommandQueue(execute, { maxConcurrent: 2, defaultTtl: 60000 });
+});
+
+afterEach(() => {
+  queue.clear();
+  jest.useRealTimers();
+});
+
+describe('CommandQueue', () => {
+  test('serializes commands per device and runs devices in parallel', async () => {
+    const first = queue.enqueue('plug-1', command('turn_on'));
+    queue.enqueue('plug-1', command('set_brightness', {}, { value: 40 }));
+    queue.enqueue('plug-2', command('turn_on'));
+
+    expect(calls.map(call => `${call.deviceId}:${call.command.command}`)).toEqual(['plug-1:turn_on', 'plug-2:turn_on']);
+    expect(queue.getPending().map(info => info.command)).toEqual(['set_brightness']);
+
+    calls[0]!.complete();
+    await expect(first).resolves.toMatchObject({ success: true, result: { command: 'turn_on' } });
+    await flush();
+    expect(calls.map(call => call.command.command)).toEqual(['turn_on', 'turn_on', 'set_brightness']);
+  });
+
+  test('runs higher priorities first, FIFO within a priority', async () => {
+    queue.enqueue('plug-1', command('set_brightness', {}, { value: 10 }));
+    queue.enqueue('plug-1', command('set_color', { priority: 'low' }));
+    queue.enqueue('plug-1', command('set_temperature', {}, { value: 21 }));
+    queue.enqueue('plug-1', command('set_mode', { priority: 'critical' }, { mode: 'eco' }));
+    queue.enqueue('plug-1', command('set_timer', { priority: 'high' }));
+
+    expect(queue.getPending('plug-1').map(info => info.command))
+      .toEqual(['set_mode', 'set_timer', 'set_temperature', 'set_color']);
+
+    for (let i = 0; i < 4; i++) {
+      calls[i]!.complete();
+      await flush();
+    }
+    expect(calls.map(call => call.command.command))
+      .toEqual(['set_brightness', 'set_mode', 'set_timer', 'set_temperature', 'set_color']);
+  });
+
+  test('collapses superseded commands and resolves both callers with the newer result', async () => {
+    queue.enqueue('plug-1', command('set_brightness', {}, { value: 10 }));
+    const superseded: unknown[] = [];
+    queue.on('commandSuperseded', (older, newer) => superseded.push([older.command, newer.command]));
+
+    const off = queue.enqueue('plug-1', command('turn_off'));
+    const on = queue.enqueue('plug-1', command('turn_on'));
+    queue.enqueue('plug-1', command('toggle'));
+    queue.enqueue('plug-1', command('toggle'));
+
+    expect(superseded).toEqual([['turn_off', 'turn_on']]);
+    expect(queue.getPending('plug-1').map(info => info.command)).toEqual(['turn_on', 'toggle', 'toggle']);
+
+    calls[0]!.complete();
+    await flush();
+    calls[1]!.complete();
+    const [offResult, onResult] = await Promise.all([off, on]);
+    expect(offResult).toBe(onResult);
+    expect(onResult.result).toEqual({ command: 'turn_on' });
+  });
+
+  test('keeps a pending command scheduled for later than the newer one', () => {
+    jest.useFakeTimers();
+    queue.pause();
+    queue.enqueue('plug-1', command('turn_off', { scheduledAt: new Date(Date.now() + 60000) }));
+    queue.enqueue('plug-1', command('turn_on'));
+
+    expect(queue.getPending('plug-1').map(info => info.command)).toEqual(['turn_off', 'turn_on']);
+
+    // A newer command due at the same time or later still replaces it
+    queue.enqueue('plug-1', command('set_power', { scheduledAt: new Date(Date.now() + 60000) }, { value: false }));
+    expect(queue.getPending('plug-1').map(info => info.command)).toEqual(['set_power']);
+  });
+
+  test('keeps a pending command of higher priority than the newer one', () => {
+    queue.pause();
+    const superseded: string[] = [];
+    queue.on('commandSuperseded', older => superseded.push(older.command));
+
+    queue.enqueue('plug-1', command('turn_off', { priority: 'high' }));
+    queue.enqueue('plug-1', command('turn_on', { priority: 'low' }));
+    expect(queue.getPending('plug-1').map(info => info.command)).toEqual(['turn_off', 'turn_on']);
+    expect(superseded).toEqual([]);
+
+    queue.enqueue('plug-1', command('set_power', { priority: 'critical' }, { value: true }));
+    expect(queue.getPending('plug-1').map(info => info.command)).toEqual(['set_power']);
+    expect(superseded).toEqual(['turn_off', 'turn_on']);
+  });
+
+  test('only supersedes commands addressing the same target', () => {
+    expect(defaultSupersedeKey(command('set_power', {}, { value: true }))).toBe('power');
+    expect(defaultSupersedeKey(command('turn_on', {}, { channel: 2 }))).toBe('power:2');
+    expect(defaultSupersedeKey(command('write_register', {}, { register: 40100 }))).toBe('write_register:40100');
+    expect(defaultSupersedeKey(command('toggle'))).toBeNull();
+  });
+
+  test('holds commands for offline devices and replays them when back online', async () => {
+    queue.setDeviceOnline('plug-1', false);
+    const result = queue.enqueue('plug-1', command('turn_on'));
+    queue.enqueue('plug-2', command('turn_on'));
+
+    expect(calls.map(call => call.deviceId)).toEqual(['plug-2']);
+    expect(queue.size('plug-1')).toBe(1);
+
+    queue.setDeviceOnline('plug-1', true);
+    expect(calls.map(call => call.deviceId)).toEqual(['plug-2', 'plug-1']);
+    calls[1]!.complete();
+    await expect(result).resolves.toMatchObject({ success: true });
+  });
+
+  test('expires held commands after their TTL', async () => {
+    jest.useFakeTimers();
+    const expired: string[] = [];
+    queue.on('commandExpired', info => expired.push(info.command));
+
+    queue.pause();
+    const short = queue.enqueue('plug-1', command('turn_on', { ttl: 5000 }));
+    queue.enqueue('plug-2', command('turn_on'));
+
+    jest.advanceTimersByTime(5000);
+    await expect(short).resolves.toMatchObject({ success: false, error: 'Command turn_on expired after waiting 5000ms' });
+    expect(expired).toEqual(['turn_on']);
+
+    queue.resume();
+    expect(calls.map(call => call.deviceId)).toEqual(['plug-2']);
+  });
+
+  test('waits for scheduledAt before sending', async () => {
+    jest.useFakeTimers();
+    queue.enqueue('plug-1', command('turn_off', { scheduledAt: new Date(Date.now() + 30000) }));
+    queue.enqueue('plug-1', command('set_brightness', {}, { value: 50 }));
+
+    expect(calls.map(call => call.command.command)).toEqual(['set_brightness']);
+    calls[0]!.complete();
+    await flush();
+    expect(calls).toHaveLength(1);
+
+    jest.advanceTimersByTime(30000);
+    expect(calls.map(call => call.command.command)).toEqual(['set_brightness', 'turn_off']);
+  });
+
+  test('limits commands in flight across devices', () => {
+    for (const deviceId of ['a', 'b', 'c']) {
+      queue.enqueue(deviceId, command('turn_on'));
+    }
+    expect(calls).toHaveLength(2);
+  });
+
+  test('reports executor failures and cancellations as failed results', async () => {
+    const failing = new CommandQueue(() => Promise.reject(new Error('Device timeout')));
+    await expect(failing.enqueue('plug-1', command('turn_on'))).resolves.toMatchObject({ success: false, error: 'Device timeout' });
+
+    queue.enqueue('plug-1', command('turn_on'));
+    const pending = queue.enqueue('plug-1', command('set_brightness', {}, { value: 5 }));
+    expect(queue.cancel('plug-1')).toBe(1);
+    await expect(pending).resolves.toMatchObject({ success: false, error: 'Command cancelled' });
+  });
+});
@@ -0,0 +1,344 @@
+import { EventEmitter } from 'events';
+import { CommandPriority, CommandResult, DeviceCommand } from '@maestro/shared/types';
+
+/**
+ * Per-device Command Queue
+ *
+ * Serializes commands per device so the UI, schedules and automations acting
+ * at the same time cannot race on one device.
+ *
+ * - Priority: critical > high > normal > low, FIFO within a priority
+ * - Scheduling: commands with scheduledAt wait until that time
+ * - Supersession: a pending command is replaced by a newer one setting the
+ *   same state (set_power twice → last wins); both callers get the newer result.
+ *   Only commands due no later than the newer one and of no higher priority are
+ *   replaced, so a later scheduled or more urgent command is kept
+ * - Offline buffering: commands for offline devices are held and replayed when
+ *   the device is back, or fail once their TTL has passed
+ */
+
+export interface CommandQueueOptions {
+  maxConcurrent?: number | undefined; // commands in flight across all devices, default: 10
+  defaultTtl?: number | undefined; // ms a command may wait once due, default: 300000
+  maxQueueLength?: number | undefined; // pending commands per device, default: 100
+  supersedeKey?: ((command: DeviceCommand) => string | null) | undefined; // default: defaultSupersedeKey
+}
+
+export interface QueuedCommandInfo {
+  id: string;
+  deviceId: string;
+  command: string;
+  priority: CommandPriority;
+  enqueuedAt: Date;
+  scheduledAt?: Date | undefined;
+  expiresAt: Date;
+}
+
+export type CommandExecutor = (deviceId: string, command: DeviceCommand) => Promise<CommandResult>;
+
+interface QueueEntry {
+  id: string;
+  deviceId: string;
+  command: DeviceCommand;
+  priority: CommandPriority;
+  sequence: number;
+  key: string | null;
+  enqueuedAt: number;
+  notBefore: number;
+  expiresAt: number;
+  waiters: Array<(result: CommandResult) => void>;
+}
+
+const PRIORITY_ORDER: Record<CommandPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  critical: 3
+};
+
+// Commands that set the same piece of state supersede each other
+const SUPERSEDE_GROUPS: Record<string, string> = {
+  turn_on: 'power',
+  turn_off: 'power',
+  set_power: 'power',
+  set_switch: 'power'
+};
+
+// Commands relative to the current state must all run
+const CUMULATIVE_COMMANDS = new Set(['toggle', 'increase_brightness', 'decrease_brightness']);
+
+/**
+ * Key under which a pending command is replaced by a newer one, or null if it never is.
+ * Commands addressing a channel, data point or register only supersede their own target.
+ */
+export function defaultSupersedeKey(command: DeviceCommand): string | null {
+  if (CUMULATIVE_COMMANDS.has(command.command)) {
+    return null;
+  }
+
+  const parameters = command.parameters || {};
+  const target = parameters.channel ?? parameters.dp ?? parameters.register ?? parameters.address;
+  const group = SUPERSEDE_GROUPS[command.command] || command.command;
+  return target === undefined ? group : `${group}:${target}`;
+}
+
+/**
+ * Command queue implementation
+ */
+export class CommandQueue extends EventEmitter {
+  private readonly execute: CommandExecutor;
+  private readonly maxConcurrent: number;
+  private readonly defaultTtl: number;
+  private readonly maxQueueLength: number;
+  private readonly supersedeKey: (command: DeviceCommand) => string | null;
+  private queues: Map<string, QueueEntry[]> = new Map();
+  private running: Set<string> = new Set();
+  private offlineDevices: Set<string> = new Set();
+  private paused: boolean = false;
+  private sequence: number = 0;
+  private wakeTimer?: NodeJS.Timeout | undefined;
+
+  constructor(execute: CommandExecutor, options: CommandQueueOptions = {}) {
+    super();
+    this.execute = execute;
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 10);
+    this.defaultTtl = options.defaultTtl ?? 300000;
+    this.maxQueueLength = options.maxQueueLength ?? 100;
+    this.supersedeKey = options.supersedeKey || defaultSupersedeKey;
+  }
+
+  /**
+   * Queue a command; resolves with its result once sent, superseded, expired or cancelled
+   */
+  enqueue(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const now = Date.now();
+    const queue = this.queues.get(deviceId) || [];
+    const key = this.supersedeKey(command);
+    const priority = command.priority || 'normal';
+    const notBefore = Math.max(now, command.scheduledAt?.getTime() ?? now);
+
+    const superseded = key === null ? [] : queue.filter(entry =>
+      entry.key === key &&
+      entry.notBefore <= notBefore &&
+      PRIORITY_ORDER[entry.priority] <= PRIORITY_ORDER[priority]
+    );
+    if (superseded.length > 0) {
+      for (const entry of superseded) {
+        queue.splice(queue.indexOf(entry), 1);
+      }
+    } else if (queue.length >= this.maxQueueLength) {
+      return Promise.resolve(failure(`Command queue for ${deviceId} is full`, now));
+    }
+
+    const entry: QueueEntry = {
+      id: `cmd_${now}_${++this.sequence}`,
+      deviceId,
+      command,
+      priority,
+      sequence: this.sequence,
+      key,
+      enqueuedAt: now,
+      notBefore,
+      expiresAt: notBefore + (command.ttl ?? this.defaultTtl),
+      waiters: superseded.flatMap(older => older.waiters)
+    };
+
+    const result = new Promise<CommandResult>(resolve => entry.waiters.push(resolve));
+    queue.push(entry);
+    this.queues.set(deviceId, queue);
+
+    for (const older of superseded) {
+      this.emit('commandSuperseded', toInfo(older), toInfo(entry));
+    }
+    this.emit('commandQueued', toInfo(entry));
+    this.drain();
+
+    return result;
+  }
+
+  /**
+   * Hold (offline) or release (online) the commands for a device
+   */
+  setDeviceOnline(deviceId: string, online: boolean): void {
+    if (online) {
+      if (this.offlineDevices.delete(deviceId)) {
+        this.drain();
+      }
+    } else {
+      this.offlineDevices.add(deviceId);
+    }
+  }
+
+  isDeviceOnline(deviceId: string): boolean {
+    return !this.offlineDevices.has(deviceId);
+  }
+
+  /**
+   * Hold every device, e.g. while the adapter is disconnected
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    if (this.paused) {
+      this.paused = false;
+      this.drain();
+    }
+  }
+
+  /**
+   * Cancel pending commands of a device (all, or the one with commandId)
+   */
+  cancel(deviceId: string, commandId?: string): number {
+    const queue = this.queues.get(deviceId) || [];
+    const cancelled = queue.filter(entry => !commandId || entry.id === commandId);
+
+    this.queues.set(deviceId, queue.filter(entry => !cancelled.includes(entry)));
+    for (const entry of cancelled) {
+      settle(entry, failure('Command cancelled', entry.enqueuedAt));
+    }
+
+    this.drain();
+    return cancelled.length;
+  }
+
+  /**
+   * Cancel everything and stop the wake-up timer
+   */
+  clear(reason: string = 'Command queue cleared'): void {
+    for (const queue of this.queues.values()) {
+      for (const entry of queue) {
+        settle(entry, failure(reason, entry.enqueuedAt));
+      }
+    }
+    this.queues.clear();
+    this.clearWakeTimer();
+  }
+
+  /**
+   * Pending commands (excluding the ones in flight), in execution order
+   */
+  getPending(deviceId?: string): QueuedCommandInfo[] {
+    const queues = deviceId ? [this.queues.get(deviceId) || []] : Array.from(this.queues.values());
+    return queues.flatMap(queue => [...queue].sort(compareEntries).map(toInfo));
+  }
+
+  size(deviceId?: string): number {
+    return this.getPending(deviceId).length;
+  }
+
+  // Private helper methods
+
+  /**
+   * Expire overdue commands, start due ones and arm the timer for the next deadline
+   */
+  private drain(): void {
+    this.clearWakeTimer();
+    const now = Date.now();
+
+    for (const [deviceId, queue] of this.queues) {
+      const expired = queue.filter(entry => entry.expiresAt <= now);
+      if (expired.length === 0) {
+        continue;
+      }
+      this.queues.set(deviceId, queue.filter(entry => entry.expiresAt > now));
+      for (const entry of expired) {
+        const waited = now - entry.notBefore;
+        this.emit('commandExpired', toInfo(entry));
+        settle(entry, failure(`Command ${entry.command.command} expired after waiting ${waited}ms`, entry.enqueuedAt));
+      }
+    }
+
+    if (!this.paused) {
+      const candidates: QueueEntry[] = [];
+      for (const [deviceId, queue] of this.queues) {
+        if (this.running.has(deviceId) || this.offlineDevices.has(deviceId)) {
+          continue;
+        }
+        const next = queue.filter(entry => entry.notBefore <= now).sort(compareEntries)[0];
+        if (next) {
+          candidates.push(next);
+        }
+      }
+
+      for (const entry of candidates.sort(compareEntries)) {
+        if (this.running.size >= this.maxConcurrent) {
+          break;
+        }
+        void this.run(entry);
+      }
+    }
+
+    let nextWake = Infinity;
+    for (const queue of this.queues.values()) {
+      for (const entry of queue) {
+        nextWake = Math.min(nextWake, entry.expiresAt, entry.notBefore > now ? entry.notBefore : Infinity);
+      }
+    }
+    if (nextWake < Infinity) {
+      this.wakeTimer = setTimeout(() => this.drain(), Math.max(0, nextWake - now));
+      this.wakeTimer.unref?.();
+    }
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    const queue = this.queues.get(entry.deviceId) || [];
+    queue.splice(queue.indexOf(entry), 1);
+    if (queue.length === 0) {
+      this.queues.delete(entry.deviceId);
+    }
+    this.running.add(entry.deviceId);
+
+    let result: CommandResult;
+    try {
+      result = await this.execute(entry.deviceId, entry.command);
+    } catch (error) {
+      result = failure(error instanceof Error ? error.message : 'Unknown error', entry.enqueuedAt);
+    }
+
+    this.running.delete(entry.deviceId);
+    settle(entry, result);
+    this.emit('commandCompleted', toInfo(entry), result);
+    this.drain();
+  }
+
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+  }
+}
+
+function compareEntries(a: QueueEntry, b: QueueEntry): number {
+  return PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority] || a.sequence - b.sequence;
+}
+
+function settle(entry: QueueEntry, result: CommandResult): void {
+  for (const resolve of entry.waiters) {
+    resolve(result);
+  }
+}
+
+function failure(error: string, since: number): CommandResult {
+  return {
+    success: false,
+    timestamp: new Date(),
+    responseTime: Date.now() - since,
+    retryCount: 0,
+    error
+  };
+}
+
+function toInfo(entry: QueueEntry): QueuedCommandInfo {
+  return {
+    id: entry.id,
+    deviceId: entry.deviceId,
+    command: entry.command.command,
+    priority: entry.priority,
+    enqueuedAt: new Date(entry.enqueuedAt),
+    scheduledAt: entry.command.scheduledAt,
+    expiresAt: new Date(entry.expiresAt)
+  };
+}
@@ -10,6 +10,8 @@ import {
 } from '@maestro/shared/types';
 
 import { BaseProtocolAdapter, AdapterConfig } from './adapter';
+import { AdapterRegistry, AdapterPluginInfo } from './registry';
+import { createAdapterRegistry } from './builtin-plugins';
 
 /**
  * Protocol Adapter Manager
@@ -38,6 +40,7 @@ export interface ManagerConfig {
     timeout: number; // milliseconds
     failureThreshold: number;
   };
+  registry?: AdapterRegistry; // default: built-in adapters only
 }
 
 export interface ManagerStats {
@@ -64,6 +67,7 @@ export interface DeviceMap {
  */
 export class ProtocolAdapterManager extends EventEmitter {
   private config: ManagerConfig;
+  private registry: AdapterRegistry;
   private adapters: Map<ProtocolType, BaseProtocolAdapter>;
   private deviceMap: Map<string, DeviceMap>;
   private healthCheckInterval?: NodeJS.Timeout;
@@ -73,6 +77,7 @@ export class ProtocolAdapterManager extends EventEmitter {
   constructor(config: ManagerConfig) {
     super();
     this.config = config;
+    this.registry = config.registry || createAdapterRegistry();
     this.adapters = new Map();
     this.deviceMap = new Map();
     this.stats = {
@@ -151,8 +156,8 @@ export class ProtocolAdapterManager extends EventEmitter {
     }
 
     try {
-      // Dynamic adapter loading based on protocol
-      const adapter = await this.createAdapter(protocol, config);
+      // Adapter creation is delegated to the plugin registered for the protocol
+      const adapter = await this.registry.create(protocol, config);
       
       // Set up event listeners
       this.setupAdapterEvents(adapter);
@@ -205,6 +210,20 @@ export class ProtocolAdapterManager extends EventEmitter {
     }
   }
 
+  /**
+   * Registry used to create adapters; register plugins here before addAdapter()
+   */
+  getRegistry(): AdapterRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Protocols that can be added, with their device types and capabilities
+   */
+  getAvailablePlugins(): AdapterPluginInfo[] {
+    return this.registry.list();
+  }
+
   /**
    * Get adapter for a specific protocol
    */
@@ -261,6 +280,9 @@ export class ProtocolAdapterManager extends EventEmitter {
 
   /**
    * Send command to a device (auto-routes to correct adapter)
+   *
+   * Goes through the adapter's command queue. Commands with a ttl are held
+   * while the adapter is disconnected instead of failing right away.
    */
   async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
     const deviceMap = this.deviceMap.get(deviceId);
@@ -268,14 +290,14 @@ export class ProtocolAdapterManager extends EventEmitter {
       throw new Error(`Device ${deviceId} not found in device map`);
     }
 
-    if (!deviceMap.adapter.isConnected()) {
+    if (!deviceMap.adapter.isConnected() && !command.ttl) {
       throw new Error(`Adapter for device ${deviceId} is not connected`);
     }
 
     const startTime = Date.now();
     
     try {
-      const result = await deviceMap.adapter.sendCommand(deviceId, command);
+      const result = await deviceMap.adapter.queueCommand(deviceId, command);
       const responseTime = Date.now() - startTime;
       
       // Update statistics
@@ -391,28 +413,6 @@ export class ProtocolAdapterManager extends EventEmitter {
 
   // Private methods
 
-  /**
-   * Create adapter instance based on protocol type
-   */
-  private async createAdapter(protocol: ProtocolType, config: AdapterConfig): Promise<BaseProtocolAdapter> {
-    switch (protocol) {
-      case 'tuya':
-        const { TuyaAdapter } = await import('../tuya/adapter');
-        return new TuyaAdapter(config as any);
-        
-      case 'modbus':
-        const { ModbusAdapter } = await import('../modbus/adapter');
-        return new ModbusAdapter(config);
-        
-      case 'mqtt':
-        const { MQTTAdapter } = await import('../mqtt/adapter');
-        return new MQTTAdapter(config);
-        
-      default:
-        throw new Error(`Unsupported protocol: ${protocol}`);
-    }
-  }
-
   /**
    * Set up event listeners for an adapter
    */
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, afterAll } from '@jest/globals';
+import { z } from 'zod';
+
+import { AdapterConfig } from './adapter';
+import { AdapterConfigError, AdapterRegistry, defineAdapterPlugin } from './registry';
+import { createAdapterRegistry, BUILTIN_ADAPTER_PLUGINS } from './builtin-plugins';
+import { ProtocolAdapterManager, ManagerConfig } from './manager';
+import { RestAdapter, RestConfig } from '../rest/adapter';
+
+/**
+ * Adapter Plugin Registry Tests
+ */
+
+function createConfig(protocol: AdapterConfig['protocol'], options: Record<string, any>): AdapterConfig {
+  return {
+    protocol,
+    name: `${protocol} test adapter`,
+    enabled: true,
+    connectionTimeout: 1000,
+    commandTimeout: 1000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 5,
+    options
+  };
+}
+
+// Stands in for a third-party package: speaks rest_api with its own options
+const acmePlugin = defineAdapterPlugin<RestConfig>({
+  protocol: 'rest_api',
+  name: '@acme/maestro-gateway',
+  version: '1.2.0',
+  configSchema: z.object({
+    gatewayUrl: z.string().url(),
+    pollingInterval: z.number().int().default(0)
+  }),
+  deviceTypes: ['energy_meter'],
+  capabilities: ['energy_meter'],
+  create: config => new RestAdapter({ ...config, options: { pollingInterval: config.options.pollingInterval, devices: [] } })
+});
+
+describe('AdapterRegistry', () => {
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maestro-plugins-'));
+
+  afterAll(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  test('registers every built-in protocol', () => {
+    const registry = createAdapterRegistry();
+
+    expect(registry.list().map(info => info.protocol).sort()).toEqual(
+      ['can_bus', 'local_network', 'modbus', 'mqtt', 'rest_api', 'simulator', 'sunspec', 'tuya']
+    );
+    expect(registry.list().every(info => info.builtIn)).toBe(true);
+    expect(registry.findByDeviceType('battery_pack')).toEqual(
+      expect.arrayContaining(['modbus', 'sunspec', 'can_bus'])
+    );
+    expect(registry.findByDeviceType('battery_pack')).not.toContain('tuya');
+    expect(registry.findByCapability('switch')).toContain('local_network');
+  });
+
+  test('refuses duplicate protocols unless replacing', () => {
+    const registry = createAdapterRegistry();
+
+    expect(() => registry.register(acmePlugin)).toThrow('Protocol rest_api is already provided by @maestro/protocol-adapters/rest');
+
+    registry.register(acmePlugin, { replace: true });
+    expect(registry.get('rest_api')?.name).toBe('@acme/maestro-gateway');
+    expect(registry.list().find(info => info.protocol === 'rest_api')).toMatchObject({ builtIn: false, version: '1.2.0' });
+  });
+
+  test('rejects malformed plugins', () => {
+    const registry = new AdapterRegistry();
+
+    expect(() => registry.register({ ...acmePlugin, protocol: 'zigbee' } as any)).toThrow('Invalid adapter plugin @acme/maestro-gateway: protocol');
+    expect(() => registry.register({ ...acmePlugin, create: undefined } as any)).toThrow('create must be a function');
+  });
+
+  test('validates adapter options against the plugin schema', () => {
+    const registry = createAdapterRegistry();
+
+    let error: unknown;
+    try {
+      registry.validateConfig('mqtt', createConfig('mqtt', { brokerUrl: 'localhost:1883', qos: 3 }));
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(AdapterConfigError);
+    expect((error as AdapterConfigError).issues).toEqual([
+      expect.stringMatching(/^options\.brokerUrl: must be an mqtt:\/\//),
+      expect.stringMatching(/^options\.qos: /)
+    ]);
+    expect(() => registry.validateConfig('mqtt', createConfig('modbus', { brokerUrl: 'mqtt://localhost' })))
+      .toThrow('protocol: expected mqtt, got modbus');
+  });
+
+  test('creates adapters with schema defaults applied', async () => {
+    const registry = new AdapterRegistry();
+    registry.register(acmePlugin);
+
+    const adapter = await registry.create('rest_api', createConfig('rest_api', { gatewayUrl: 'http://gateway.local' }));
+
+    expect(adapter).toBeInstanceOf(RestAdapter);
+    expect(registry.validateConfig('rest_api', createConfig('rest_api', { gatewayUrl: 'http://gateway.local' })).options)
+      .toEqual({ gatewayUrl: 'http://gateway.local', pollingInterval: 0 });
+    await expect(registry.create('modbus', createConfig('modbus', {}))).rejects.toThrow('Unsupported protocol: modbus');
+  });
+
+  test('loads plugins from module paths', async () => {
+    const modulePath = path.join(fixtureDir, 'echo-plugin.js');
+    fs.writeFileSync(modulePath, `
+      const { z } = require('zod');
+      exports.plugins = [{
+        protocol: 'can_bus',
+        name: 'echo-can',
+        configSchema: z.object({}),
+        deviceTypes: ['battery_pack'],
+        capabilities: ['energy_storage'],
+        create: () => { throw new Error('not used'); }
+      }];
+    `);
+
+    const registry = new AdapterRegistry();
+    const loaded = await registry.loadPlugin(modulePath);
+
+    expect(loaded).toEqual([expect.objectContaining({ protocol: 'can_bus', name: 'echo-can', builtIn: false })]);
+    await expect(registry.loadPlugin(path.join(fixtureDir, 'missing.js'))).rejects.toThrow('Failed to load adapter plugin');
+  });
+
+  test('lets the manager create adapters from registered plugins', async () => {
+    const registry = new AdapterRegistry();
+    registry.register(acmePlugin);
+    const manager = new ProtocolAdapterManager({ registry } as unknown as ManagerConfig);
+
+    await manager.addAdapter('rest_api', createConfig('rest_api', { gatewayUrl: 'http://gateway.local' }));
+
+    expect(manager.getAdapter('rest_api')).toBeInstanceOf(RestAdapter);
+    expect(manager.getAvailablePlugins()).toEqual([expect.objectContaining({ name: '@acme/maestro-gateway' })]);
+    await manager.removeAdapter('rest_api');
+  });
+
+  test('keeps built-in plugin names unique', () => {
+    const names = BUILTIN_ADAPTER_PLUGINS.map(plugin => plugin.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,242 @@
+import path from 'path';
+import { z } from 'zod';
+import {
+  ProtocolType,
+  DeviceType,
+  CapabilityType
+} from '@maestro/shared/types';
+
+import { BaseProtocolAdapter, AdapterConfig } from './adapter';
+
+/**
+ * Adapter Plugin Registry
+ *
+ * Maps protocols to adapter factories so the manager never needs to know
+ * concrete adapter classes. Built-in adapters register themselves through
+ * the same plugin interface that in-house or third-party packages use:
+ *
+ *   export default defineAdapterPlugin({
+ *     protocol: 'mqtt',
+ *     name: '@acme/maestro-mqtt-sparkplug',
+ *     configSchema: z.object({ ... }),
+ *     deviceTypes: ['energy_meter'],
+ *     capabilities: ['energy_meter'],
+ *     create: config => new SparkplugAdapter(config)
+ *   });
+ */
+
+export interface AdapterPlugin<TConfig extends AdapterConfig = AdapterConfig> {
+  protocol: ProtocolType;
+  name: string; // package or module name
+  version?: string | undefined;
+  description?: string | undefined;
+  configSchema: z.ZodTypeAny; // validates config.options
+  deviceTypes: DeviceType[];
+  capabilities: CapabilityType[];
+  create: (config: TConfig) => BaseProtocolAdapter | Promise<BaseProtocolAdapter>;
+}
+
+export type AdapterPluginInfo = Omit<AdapterPlugin, 'create' | 'configSchema'> & {
+  builtIn: boolean;
+};
+
+/**
+ * Thrown when an adapter configuration fails its plugin schema
+ */
+export class AdapterConfigError extends Error {
+  readonly protocol: ProtocolType;
+  readonly issues: string[];
+
+  constructor(protocol: ProtocolType, issues: string[]) {
+    super(`Invalid ${protocol} adapter configuration: ${issues.join('; ')}`);
+    this.name = 'AdapterConfigError';
+    this.protocol = protocol;
+    this.issues = issues;
+  }
+}
+
+// Settings shared by every adapter (AdapterConfig without options)
+export const AdapterConfigSchema = z.object({
+  protocol: ProtocolType,
+  name: z.string().min(1),
+  enabled: z.boolean(),
+  connectionTimeout: z.number().int().nonnegative(),
+  commandTimeout: z.number().int().nonnegative(),
+  retryAttempts: z.number().int().nonnegative(),
+  retryDelay: z.number().int().nonnegative(),
+  maxConcurrentCommands: z.number().int().positive(),
+  rateLimiting: z.object({
+    requestsPerSecond: z.number().positive(),
+    burstSize: z.number().int().positive()
+  }).optional(),
+  authentication: z.record(z.any()).optional(),
+  options: z.record(z.any()).optional()
+});
+
+// Plugin modules are loaded at runtime, so their shape is checked too
+const AdapterPluginShapeSchema = z.object({
+  protocol: ProtocolType,
+  name: z.string().min(1),
+  version: z.string().optional(),
+  description: z.string().optional(),
+  configSchema: z.custom<z.ZodTypeAny>(value => typeof (value as any)?.safeParse === 'function', {
+    message: 'configSchema must be a zod schema'
+  }),
+  deviceTypes: z.array(DeviceType),
+  capabilities: z.array(CapabilityType),
+  create: z.custom<AdapterPlugin['create']>(value => typeof value === 'function', {
+    message: 'create must be a function'
+  })
+});
+
+/**
+ * Identity helper that types a plugin definition
+ */
+export function defineAdapterPlugin<TConfig extends AdapterConfig>(plugin: AdapterPlugin<TConfig>): AdapterPlugin<TConfig> {
+  return plugin;
+}
+
+/**
+ * Protocol → plugin registry
+ */
+export class AdapterRegistry {
+  private plugins: Map<ProtocolType, { plugin: AdapterPlugin; builtIn: boolean }> = new Map();
+
+  /**
+   * Register a plugin; an existing protocol is only replaced when asked to
+   */
+  register(plugin: AdapterPlugin<any>, options: { replace?: boolean; builtIn?: boolean } = {}): void {
+    const result = AdapterPluginShapeSchema.safeParse(plugin);
+    if (!result.success) {
+      throw new Error(`Invalid adapter plugin ${(plugin as any)?.name || '(unnamed)'}: ${formatIssues(result.error).join('; ')}`);
+    }
+
+    const existing = this.plugins.get(plugin.protocol);
+    if (existing && !options.replace) {
+      throw new Error(`Protocol ${plugin.protocol} is already provided by ${existing.plugin.name}`);
+    }
+
+    this.plugins.set(plugin.protocol, { plugin, builtIn: !!options.builtIn });
+  }
+
+  /**
+   * Remove the plugin for a protocol
+   */
+  unregister(protocol: ProtocolType): boolean {
+    return this.plugins.delete(protocol);
+  }
+
+  has(protocol: ProtocolType): boolean {
+    return this.plugins.has(protocol);
+  }
+
+  get(protocol: ProtocolType): AdapterPlugin | undefined {
+    return this.plugins.get(protocol)?.plugin;
+  }
+
+  /**
+   * Registered plugins without their factories
+   */
+  list(): AdapterPluginInfo[] {
+    return Array.from(this.plugins.values()).map(({ plugin, builtIn }) => ({
+      protocol: plugin.protocol,
+      name: plugin.name,
+      version: plugin.version,
+      description: plugin.description,
+      deviceTypes: [...plugin.deviceTypes],
+      capabilities: [...plugin.capabilities],
+      builtIn
+    }));
+  }
+
+  /**
+   * Protocols whose adapters handle a device type
+   */
+  findByDeviceType(deviceType: DeviceType): ProtocolType[] {
+    return this.list().filter(info => info.deviceTypes.includes(deviceType)).map(info => info.protocol);
+  }
+
+  /**
+   * Protocols whose adapters provide a capability
+   */
+  findByCapability(capability: CapabilityType): ProtocolType[] {
+    return this.list().filter(info => info.capabilities.includes(capability)).map(info => info.protocol);
+  }
+
+  /**
+   * Validate common settings and plugin options; returns the config with schema defaults applied
+   */
+  validateConfig<TConfig extends AdapterConfig>(protocol: ProtocolType, config: TConfig): TConfig {
+    const plugin = this.requirePlugin(protocol);
+
+    const common = AdapterConfigSchema.safeParse(config);
+    const options = plugin.configSchema.safeParse(config.options ?? {});
+    const issues = [
+      ...(common.success ? [] : formatIssues(common.error)),
+      ...(options.success ? [] : formatIssues(options.error, 'options'))
+    ];
+
+    if (config.protocol !== protocol) {
+      issues.unshift(`protocol: expected ${protocol}, got ${config.protocol}`);
+    }
+    if (issues.length > 0 || !options.success) {
+      throw new AdapterConfigError(protocol, issues);
+    }
+
+    return { ...config, options: options.data };
+  }
+
+  /**
+   * Validate a configuration and create the adapter
+   */
+  async create(protocol: ProtocolType, config: AdapterConfig): Promise<BaseProtocolAdapter> {
+    const plugin = this.requirePlugin(protocol);
+    const adapter = await plugin.create(this.validateConfig(protocol, config));
+
+    if (adapter.getProtocol() !== protocol) {
+      throw new Error(`Plugin ${plugin.name} created an adapter for ${adapter.getProtocol()} instead of ${protocol}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Import a plugin module and register what it exports.
+   * Accepts `default`, `plugin` or `plugins` exports; relative paths resolve from the working directory.
+   */
+  async loadPlugin(specifier: string, options: { replace?: boolean } = {}): Promise<AdapterPluginInfo[]> {
+    const resolved = specifier.startsWith('.') ? path.resolve(process.cwd(), specifier) : specifier;
+
+    let module: any;
+    try {
+      module = await import(resolved);
+    } catch (error) {
+      throw new Error(`Failed to load adapter plugin ${specifier}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const exported = module.plugins ?? module.plugin ?? module.default?.plugins ?? module.default?.plugin ?? module.default;
+    const plugins: AdapterPlugin[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+    if (plugins.length === 0) {
+      throw new Error(`Module ${specifier} does not export an adapter plugin`);
+    }
+
+    for (const plugin of plugins) {
+      this.register(plugin, { replace: !!options.replace });
+    }
+    return this.list().filter(info => plugins.some(plugin => plugin.protocol === info.protocol));
+  }
+
+  private requirePlugin(protocol: ProtocolType): AdapterPlugin {
+    const plugin = this.get(protocol);
+    if (!plugin) {
+      throw new Error(`Unsupported protocol: ${protocol} (no adapter plugin registered)`);
+    }
+    return plugin;
+  }
+}
+
+function formatIssues(error: z.ZodError, prefix?: string): string[] {
+  return error.issues.map(issue => {
+    const location = [prefix, ...issue.path].filter(part => part !== undefined && part !== '').join('.');
+    return location ? `${location}: ${issue.message}` : issue.message;
+  });
+}
@@ -0,0 +1,244 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import type { DeviceStatusUpdate } from '@maestro/shared/types';
+
+import { CanBusAdapter, CanBusConfig } from './adapter';
+import { BmsSimulator } from './simulator';
+import { decodeMessage, encodeMessage, extractBits, insertBits, parseDbc } from './dbc';
+import { PYLONTECH_PROFILE, profileFromDbc } from './bms-profiles';
+
+/**
+ * CAN Bus Adapter Tests
+ *
+ * Battery packs are simulated on the in-process virtual bus, which has the
+ * same delivery semantics as a Linux vcan interface.
+ */
+
+const SAMPLE_DBC = `
+VERSION ""
+
+BO_ 2147484417 PackStatus: 8 BMS
+ SG_ PackVoltage : 7|16@0+ (0.1,0) [0|1000] "V" Inverter
+ SG_ PackCurrent : 23|16@0- (0.1,0) [-500|500] "A" Inverter
+ SG_ State : 32|3@1+ (1,0) [0|7] "" Inverter
+
+VAL_ 2147484417 State 0 "idle" 1 "charging" 2 "discharging" ;
+`;
+
+function waitForUpdate(
+  adapter: CanBusAdapter,
+  predicate: (update: DeviceStatusUpdate) => boolean
+): Promise<DeviceStatusUpdate> {
+  return new Promise(resolve => {
+    const listener = (update: DeviceStatusUpdate) => {
+      if (predicate(update)) {
+        adapter.removeListener('deviceUpdate', listener);
+        resolve(update);
+      }
+    };
+    adapter.on('deviceUpdate', listener);
+  });
+}
+
+function createConfig(options: CanBusConfig['options']): CanBusConfig {
+  return {
+    protocol: 'can_bus',
+    name: 'CAN Test Adapter',
+    enabled: true,
+    connectionTimeout: 1000,
+    commandTimeout: 1000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 5,
+    options: { transport: 'virtual', updateDebounce: 20, ...options }
+  };
+}
+
+describe('CAN signal codec', () => {
+  test('packs Intel and Motorola signals', () => {
+    const data = Buffer.alloc(8);
+    insertBits(data, 4, 12, 0xabc, 'little_endian');
+    insertBits(data, 39, 16, 0x1234, 'big_endian');
+
+    expect(data.toString('hex')).toBe('c0ab000012340000');
+    expect(extractBits(data, 4, 12, 'little_endian')).toBe(0xabc);
+    expect(extractBits(data, 39, 16, 'big_endian')).toBe(0x1234);
+  });
+
+  test('round-trips the Pylontech frame set with signed and scaled values', () => {
+    const measurements = PYLONTECH_PROFILE.messages.find(message => message.id === 0x356)!;
+    const data = encodeMessage(measurements, { voltage: 51.84, current: -23.7, temperature: -5.2 });
+
+    expect(data.subarray(0, 6).toString('hex')).toBe('401413ffccff');
+    expect(decodeMessage(measurements, data)).toEqual({ voltage: 51.84, current: -23.7, temperature: -5.2 });
+  });
+
+  test('parses DBC messages, extended IDs and value tables', () => {
+    const [message] = parseDbc(SAMPLE_DBC);
+    expect(message).toMatchObject({ id: 0x301, extended: true, length: 8, name: 'PackStatus' });
+
+    const data = encodeMessage(message!, { PackVoltage: 402.5, PackCurrent: -12.3, State: 2 });
+    expect(decodeMessage(message!, data)).toEqual({ PackVoltage: 402.5, PackCurrent: -12.3, State: 'discharging' });
+  });
+});
+
+describe('CanBusAdapter', () => {
+  const simulator = new BmsSimulator({ interfaceName: 'vcan-test', interval: 0 });
+  const secondPack = new BmsSimulator({ interfaceName: 'vcan-test', interval: 0, idOffset: 0x100, values: { chargeLevel: 40 } });
+  let adapter: CanBusAdapter;
+
+  beforeAll(async () => {
+    await simulator.start();
+    await secondPack.start();
+    adapter = new CanBusAdapter(createConfig({
+      interfaceName: 'vcan-test',
+      sendHeartbeat: true,
+      devices: [
+        { deviceId: 'rack-1', profile: 'pylontech' },
+        { deviceId: 'rack-2', profile: 'pylontech', idOffset: 0x100 }
+      ]
+    }));
+    await adapter.initialize();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+    await secondPack.stop();
+  });
+
+  test('decodes a broadcast cycle into one battery state update', async () => {
+    const updates: DeviceStatusUpdate[] = [];
+    adapter.on('deviceUpdate', update => update.deviceId === 'rack-1' && updates.push(update));
+
+    const online = waitForUpdate(adapter, update => update.deviceId === 'rack-1');
+    await simulator.publish();
+    const update = await online;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(updates).toHaveLength(1);
+    expect(update.status).toBe('online');
+    expect(update.state).toMatchObject({
+      chargeLevel: 76,
+      health: 98,
+      voltage: 51.84,
+      current: 12.5,
+      temperature: 23.4,
+      chargingPower: 648,
+      mode: 'charging',
+      chargeVoltageLimit: 53.2,
+      chargeCurrentLimit: 50,
+      dischargeCurrentLimit: 100,
+      minCellVoltage: 3.238,
+      maxCellVoltage: 3.252,
+      cellVoltageDelta: 0.014,
+      minCellTemperature: 22.85,
+      chargeEnabled: true,
+      manufacturerName: 'PYLON',
+      alarms: []
+    });
+  });
+
+  test('separates packs by frame ID offset', async () => {
+    const update = waitForUpdate(adapter, update => update.deviceId === 'rack-2');
+    await secondPack.publish();
+
+    expect((await update).state.chargeLevel).toBe(40);
+    expect((await adapter.getDeviceStatus('rack-1')).state.chargeLevel).toBe(76);
+  });
+
+  test('reports discharge and protection alarms', async () => {
+    const update = waitForUpdate(adapter, update => update.deviceId === 'rack-1' && update.state.mode === 'discharging');
+    simulator.setValues({ current: -40, cellUnderVoltage: true, dischargeEnabled: false });
+    await simulator.publish();
+
+    expect((await update).state).toMatchObject({
+      chargingPower: -2074,
+      alarms: ['cellUnderVoltage'],
+      dischargeEnabled: false
+    });
+  });
+
+  test('sends the inverter heartbeat and raw frames', async () => {
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const result = await adapter.sendCommand('rack-1', {
+      deviceId: 'rack-1',
+      command: 'send_frame',
+      parameters: { id: '0x35f', data: '0102' },
+      timestamp: new Date()
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(result.success).toBe(true);
+    const received = simulator.getReceivedFrames();
+    expect(received.some(frame => frame.id === 0x305)).toBe(true);
+    expect(received.find(frame => frame.id === 0x35f)?.data.toString('hex')).toBe('0102');
+  });
+
+  test('rejects unsupported commands', async () => {
+    const result = await adapter.sendCommand('rack-1', { deviceId: 'rack-1', command: 'turn_off', timestamp: new Date() });
+    expect(result).toMatchObject({ success: false, error: 'Unsupported command for rack-1: turn_off' });
+  });
+});
+
+describe('CanBusAdapter discovery and timeouts', () => {
+  let adapter: CanBusAdapter;
+  let simulator: BmsSimulator;
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  test('recognises unconfigured BMS frame sets', async () => {
+    simulator = new BmsSimulator({ interfaceName: 'vcan-discovery', interval: 0 });
+    await simulator.start();
+    adapter = new CanBusAdapter(createConfig({ interfaceName: 'vcan-discovery' }));
+    await adapter.initialize();
+
+    await simulator.publish();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await adapter.discoverDevices({ configured: false })).toEqual([
+      expect.objectContaining({ deviceId: 'vcan-discovery:pylontech', deviceType: 'battery_pack', confidence: 0.5 })
+    ]);
+  });
+
+  test('marks packs offline when frames stop', async () => {
+    simulator = new BmsSimulator({ interfaceName: 'vcan-timeout', interval: 0 });
+    await simulator.start();
+    adapter = new CanBusAdapter(createConfig({
+      interfaceName: 'vcan-timeout',
+      offlineTimeout: 300,
+      devices: [{ deviceId: 'rack-1', profile: 'pylontech' }]
+    }));
+    await adapter.initialize();
+
+    const offline = waitForUpdate(adapter, update => update.status === 'offline');
+    await simulator.publish();
+    await waitForUpdate(adapter, update => update.status === 'online');
+
+    expect((await offline).state.chargeLevel).toBe(76);
+    expect(await adapter.testDeviceConnection('rack-1')).toBe(false);
+  });
+
+  test('loads custom profiles from DBC text', async () => {
+    simulator = new BmsSimulator({
+      interfaceName: 'vcan-dbc',
+      interval: 0,
+      profile: profileFromDbc('custom', SAMPLE_DBC),
+      values: { PackVoltage: 398.2, PackCurrent: 5, State: 1 }
+    });
+    await simulator.start();
+    adapter = new CanBusAdapter(createConfig({
+      interfaceName: 'vcan-dbc',
+      profiles: { custom: profileFromDbc('custom', SAMPLE_DBC, { manufacturer: 'Acme' }) },
+      devices: [{ deviceId: 'hv-pack', profile: 'custom' }]
+    }));
+    await adapter.initialize();
+
+    const update = waitForUpdate(adapter, update => update.deviceId === 'hv-pack');
+    await simulator.publish();
+
+    expect((await update).state).toEqual({ PackVoltage: 398.2, PackCurrent: 5, State: 'charging' });
+  });
+});
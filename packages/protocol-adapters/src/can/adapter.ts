@@ -0,0 +1,732 @@
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery,
+  DeviceCapability,
+  DeviceStatus
+} from '@maestro/shared/types';
+
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import { CanFrame, CanTransport, createCanTransport } from './transport';
+import { CanMessageDefinition, CanSignalValue, decodeMessage } from './dbc';
+import { BMS_PROFILES, BmsProfile } from './bms-profiles';
+
+/**
+ * CAN Bus Adapter
+ *
+ * Implements the BaseProtocolAdapter for battery management systems that
+ * talk to inverters over CAN (Pylontech/SMA-style frame sets). Frames are
+ * decoded with DBC-like signal definitions into BatteryPackState plus
+ * cell extremes, charge/discharge limits and protection alarms.
+ *
+ * Features:
+ * - SocketCAN (can0, vcan0) or an in-process virtual bus
+ * - Built-in and custom BMS profiles (inline definitions or parsed DBC)
+ * - Several packs per interface via frame ID offsets
+ * - Update coalescing per frame burst and offline detection by frame timeout
+ * - Optional inverter heartbeat frame for BMS that require one
+ */
+
+export interface CanDeviceConfig {
+  deviceId: string;
+  name?: string;
+  profile: string | BmsProfile; // built-in/custom profile name or inline profile
+  interfaceName?: string; // overrides options.interfaceName
+  idOffset?: number; // added to every frame ID of the profile
+}
+
+export interface CanBusConfig extends AdapterConfig {
+  options: {
+    transport?: 'socketcan' | 'virtual'; // default: socketcan
+    interfaceName?: string; // default: can0
+    bitrate?: number; // informational; set with `ip link set can0 type can bitrate 500000`
+    devices?: CanDeviceConfig[];
+    profiles?: Record<string, BmsProfile>; // custom profiles, referenced by name
+    offlineTimeout?: number; // milliseconds without frames before a pack is offline, default: 10000
+    updateDebounce?: number; // milliseconds to coalesce a frame burst into one update, default: 250
+    sendHeartbeat?: boolean; // send the profile's inverter heartbeat, default: false
+  };
+}
+
+interface CanInterface {
+  name: string;
+  transport: CanTransport;
+  frameIndex: Map<string, { deviceId: string; message: CanMessageDefinition }>;
+  unclaimedIds: Map<string, Date>;
+  heartbeatTimers: NodeJS.Timeout[];
+  framesReceived: number;
+}
+
+interface CanDevice {
+  deviceId: string;
+  name?: string | undefined;
+  profile: BmsProfile;
+  interfaceName: string;
+  idOffset: number;
+  values: Record<string, CanSignalValue>;
+  status: DeviceStatus;
+  lastFrameAt?: Date;
+  framesReceived: number;
+  updateTimer?: NodeJS.Timeout | undefined;
+  addedAt: Date;
+}
+
+const BATTERY_CAPABILITIES: DeviceCapability[] = [
+  {
+    type: 'energy_storage',
+    properties: {
+      writable: false,
+      fields: ['chargeLevel', 'chargingPower', 'voltage', 'current', 'health', 'mode']
+    },
+    commands: [],
+    readOnly: true,
+    range: { min: 0, max: 100 }
+  },
+  {
+    type: 'temperature_sensor',
+    properties: { writable: false, unit: '°C', fields: ['temperature', 'minCellTemperature', 'maxCellTemperature'] },
+    commands: [],
+    readOnly: true
+  }
+];
+
+/**
+ * CAN Bus Protocol Adapter Implementation
+ */
+export class CanBusAdapter extends BaseProtocolAdapter {
+  private interfaces: Map<string, CanInterface>;
+  private devices: Map<string, CanDevice>;
+  private profiles: Map<string, BmsProfile>;
+  private watchdogInterval?: NodeJS.Timeout | undefined;
+
+  constructor(config: CanBusConfig) {
+    super(config);
+
+    this.interfaces = new Map();
+    this.devices = new Map();
+    this.profiles = new Map(Object.entries(BMS_PROFILES));
+  }
+
+  /**
+   * Initialize the CAN adapter and open all interfaces
+   */
+  async initialize(): Promise<void> {
+    const config = this.getCanConfig();
+
+    try {
+      for (const [name, profile] of Object.entries(config.options.profiles || {})) {
+        this.profiles.set(name, profile);
+      }
+
+      for (const deviceConfig of config.options.devices || []) {
+        this.registerDevice(deviceConfig);
+      }
+
+      this.connectionStatus.connectionAttempts++;
+      await this.openInterface(this.getDefaultInterface());
+      for (const device of this.devices.values()) {
+        await this.openInterface(device.interfaceName);
+      }
+
+      this.startWatchdog();
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      this.log('info', 'CAN adapter initialized successfully', {
+        interfaces: Array.from(this.interfaces.keys()),
+        devices: this.devices.size
+      });
+
+    } catch (error) {
+      await this.closeInterfaces();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Close all interfaces
+   */
+  async disconnect(): Promise<void> {
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = undefined;
+    }
+    for (const device of this.devices.values()) {
+      if (device.updateTimer) {
+        clearTimeout(device.updateTimer);
+        device.updateTimer = undefined;
+      }
+    }
+
+    await this.closeInterfaces();
+    this.isInitialized = false;
+    this.updateConnectionStatus(false);
+
+    this.log('info', 'CAN adapter disconnected');
+  }
+
+  /**
+   * Add a battery pack at runtime
+   */
+  async addDevice(deviceConfig: CanDeviceConfig): Promise<DeviceDiscovery> {
+    const device = this.registerDevice(deviceConfig);
+    if (this.isInitialized) {
+      await this.openInterface(device.interfaceName);
+    }
+    return this.mapDeviceToDiscovery(device, 0.8);
+  }
+
+  /**
+   * Configured packs plus profiles recognised among unclaimed frames on open interfaces
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const discoveries: DeviceDiscovery[] = [];
+
+    if (filters?.configured !== false) {
+      for (const device of this.devices.values()) {
+        discoveries.push(this.mapDeviceToDiscovery(device, device.lastFrameAt ? 1.0 : 0.8));
+      }
+    }
+
+    if (filters?.configured !== true) {
+      for (const canInterface of this.interfaces.values()) {
+        for (const profile of this.profiles.values()) {
+          const seen = profile.messages.filter(message => canInterface.unclaimedIds.has(frameKey(message.id, message.extended)));
+          if (seen.length >= Math.ceil(profile.messages.length / 2)) {
+            discoveries.push({
+              protocol: 'can_bus',
+              deviceId: `${canInterface.name}:${profile.name}`,
+              deviceType: 'battery_pack',
+              name: `${profile.manufacturer} battery on ${canInterface.name}`,
+              specifications: { manufacturer: profile.manufacturer, model: profile.model },
+              capabilities: BATTERY_CAPABILITIES,
+              networkInfo: { networkId: canInterface.name },
+              discoveredAt: new Date(),
+              confidence: Number((0.5 * seen.length / profile.messages.length).toFixed(2))
+            });
+          }
+        }
+      }
+    }
+
+    this.log('info', `Discovered ${discoveries.length} CAN devices`);
+    return discoveries;
+  }
+
+  /**
+   * Get detailed device information
+   */
+  async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+
+    return {
+      deviceId: device.deviceId,
+      protocol: 'can_bus',
+      deviceType: 'battery_pack',
+      name: device.name,
+      manufacturer: typeof device.values.manufacturerName === 'string' && device.values.manufacturerName
+        ? device.values.manufacturerName
+        : device.profile.manufacturer,
+      model: device.profile.model,
+      capabilities: BATTERY_CAPABILITIES.map(cap => cap.type),
+      networkInfo: {
+        networkId: device.interfaceName
+      },
+      metadata: {
+        profile: device.profile.name,
+        idOffset: device.idOffset,
+        frameIds: device.profile.messages.map(message => message.id + device.idOffset),
+        framesReceived: device.framesReceived,
+        lastFrameAt: device.lastFrameAt
+      }
+    };
+  }
+
+  /**
+   * Send a command; BMS frame sets are broadcast-only, so only raw frames are supported
+   */
+  async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      const frame = parseRawFrame(command.parameters || {});
+      await this.getInterface(device.interfaceName).transport.send(frame);
+      this.stats.bytesTransferred += frame.data.length;
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result: { id: frame.id, data: frame.data.toString('hex') }
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get last decoded state (frames are broadcast continuously)
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+
+    return {
+      deviceId,
+      status: device.status,
+      state: toBatteryState(device),
+      timestamp: device.lastFrameAt || new Date(),
+      source: 'webhook'
+    };
+  }
+
+  /**
+   * Subscribe to device updates (delivered as frames arrive)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
+      deviceId,
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
+    };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from device updates
+   */
+  async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
+  }
+
+  /**
+   * Test connection to specific device (frames seen within the offline timeout)
+   */
+  async testDeviceConnection(deviceId: string): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    return !!device && device.status === 'online';
+  }
+
+  /**
+   * Get CAN-specific diagnostics
+   */
+  async getDiagnostics(): Promise<Record<string, any>> {
+    const config = this.getCanConfig();
+
+    return {
+      protocol: 'can_bus',
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      transport: config.options.transport || 'socketcan',
+      bitrate: config.options.bitrate,
+      interfaces: Array.from(this.interfaces.values()).map(canInterface => ({
+        name: canInterface.name,
+        open: canInterface.transport.isOpen(),
+        framesReceived: canInterface.framesReceived,
+        unclaimedFrameIds: Array.from(canInterface.unclaimedIds.keys())
+      })),
+      devices: Array.from(this.devices.values()).map(device => ({
+        deviceId: device.deviceId,
+        profile: device.profile.name,
+        status: device.status,
+        framesReceived: device.framesReceived,
+        lastFrameAt: device.lastFrameAt
+      }))
+    };
+  }
+
+  /**
+   * Check if adapter supports a device type
+   */
+  supportsDeviceType(deviceType: DeviceType): boolean {
+    return deviceType === 'battery_pack';
+  }
+
+  /**
+   * Check if adapter supports a capability
+   */
+  supportsCapability(capability: string): boolean {
+    return ['energy_storage', 'temperature_sensor'].includes(capability);
+  }
+
+  /**
+   * Validate command before sending
+   */
+  async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+
+    const device = this.getDevice(deviceId);
+    if (command.command !== 'send_frame') {
+      throw new Error(`Unsupported command for ${device.deviceId}: ${command.command}`);
+    }
+    if (!this.interfaces.get(device.interfaceName)?.transport.isOpen()) {
+      throw new Error(`CAN interface ${device.interfaceName} is not open`);
+    }
+
+    parseRawFrame(command.parameters || {});
+    return true;
+  }
+
+  /**
+   * Validate CAN device ID format
+   */
+  protected validateDeviceId(deviceId: string): boolean {
+    return validateDeviceId(deviceId, 'can_bus').isValid;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed CAN configuration
+   */
+  private getCanConfig(): CanBusConfig {
+    return this.config as CanBusConfig;
+  }
+
+  private getDefaultInterface(): string {
+    return this.getCanConfig().options.interfaceName || 'can0';
+  }
+
+  private getDevice(deviceId: string): CanDevice {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown CAN device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  private getInterface(name: string): CanInterface {
+    const canInterface = this.interfaces.get(name);
+    if (!canInterface) {
+      throw new Error(`CAN interface ${name} is not open`);
+    }
+    return canInterface;
+  }
+
+  /**
+   * Resolve the profile, register a device and index its frame IDs
+   */
+  private registerDevice(deviceConfig: CanDeviceConfig): CanDevice {
+    if (!this.validateDeviceId(deviceConfig.deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceConfig.deviceId}`);
+    }
+
+    const profile = typeof deviceConfig.profile === 'string'
+      ? this.profiles.get(deviceConfig.profile)
+      : deviceConfig.profile;
+    if (!profile) {
+      throw new Error(`Unknown BMS profile: ${deviceConfig.profile}`);
+    }
+
+    const device: CanDevice = {
+      deviceId: deviceConfig.deviceId,
+      name: deviceConfig.name,
+      profile,
+      interfaceName: deviceConfig.interfaceName || this.getDefaultInterface(),
+      idOffset: deviceConfig.idOffset || 0,
+      values: {},
+      status: 'unknown',
+      framesReceived: 0,
+      addedAt: new Date()
+    };
+
+    for (const other of this.devices.values()) {
+      if (other.interfaceName !== device.interfaceName || other.deviceId === device.deviceId) continue;
+      for (const message of profile.messages) {
+        if (other.profile.messages.some(msg => msg.id + other.idOffset === message.id + device.idOffset)) {
+          throw new Error(`Frame ID 0x${(message.id + device.idOffset).toString(16)} already used by ${other.deviceId}`);
+        }
+      }
+    }
+
+    this.devices.set(device.deviceId, device);
+    const canInterface = this.interfaces.get(device.interfaceName);
+    if (canInterface) {
+      this.indexDevice(canInterface, device);
+    }
+    return device;
+  }
+
+  private indexDevice(canInterface: CanInterface, device: CanDevice): void {
+    for (const message of device.profile.messages) {
+      const key = frameKey(message.id + device.idOffset, message.extended);
+      canInterface.frameIndex.set(key, { deviceId: device.deviceId, message });
+      canInterface.unclaimedIds.delete(key);
+    }
+  }
+
+  /**
+   * Open an interface once and index the devices on it
+   */
+  private async openInterface(name: string): Promise<void> {
+    if (this.interfaces.has(name)) {
+      return;
+    }
+
+    const transport = createCanTransport(this.getCanConfig().options.transport || 'socketcan', name);
+    const canInterface: CanInterface = {
+      name,
+      transport,
+      frameIndex: new Map(),
+      unclaimedIds: new Map(),
+      heartbeatTimers: [],
+      framesReceived: 0
+    };
+
+    transport.on('frame', (frame: CanFrame) => this.handleFrame(canInterface, frame));
+    transport.on('error', (error: Error) => {
+      this.log('error', `CAN interface ${name} error`, error);
+      this.connectionStatus.lastError = error.message;
+    });
+
+    await transport.open();
+    this.interfaces.set(name, canInterface);
+
+    for (const device of this.devices.values()) {
+      if (device.interfaceName === name) {
+        this.indexDevice(canInterface, device);
+      }
+    }
+    this.startHeartbeats(canInterface);
+
+    this.log('debug', `Opened CAN interface ${name}`);
+  }
+
+  private async closeInterfaces(): Promise<void> {
+    const interfaces = Array.from(this.interfaces.values());
+    this.interfaces.clear();
+
+    for (const canInterface of interfaces) {
+      canInterface.heartbeatTimers.forEach(timer => clearInterval(timer));
+      canInterface.transport.removeAllListeners('frame');
+      await canInterface.transport.close();
+    }
+  }
+
+  /**
+   * Send each profile's inverter heartbeat once per interface
+   */
+  private startHeartbeats(canInterface: CanInterface): void {
+    if (!this.getCanConfig().options.sendHeartbeat) {
+      return;
+    }
+
+    const sent = new Set<number>();
+    for (const device of this.devices.values()) {
+      const heartbeat = device.profile.heartbeat;
+      if (device.interfaceName !== canInterface.name || !heartbeat || sent.has(heartbeat.id)) continue;
+      sent.add(heartbeat.id);
+
+      canInterface.heartbeatTimers.push(setInterval(() => {
+        canInterface.transport.send({ id: heartbeat.id, data: Buffer.from(heartbeat.data) }).catch(error => {
+          this.log('warn', `Heartbeat on ${canInterface.name} failed`, error);
+        });
+      }, heartbeat.interval));
+    }
+  }
+
+  /**
+   * Decode a received frame into the owning device's values
+   */
+  private handleFrame(canInterface: CanInterface, frame: CanFrame): void {
+    canInterface.framesReceived++;
+    this.stats.bytesTransferred += frame.data.length;
+
+    const key = frameKey(frame.id, frame.extended);
+    const entry = canInterface.frameIndex.get(key);
+    if (!entry) {
+      canInterface.unclaimedIds.set(key, new Date());
+      return;
+    }
+
+    const device = this.devices.get(entry.deviceId);
+    if (!device) {
+      return;
+    }
+
+    const decoded = decodeMessage(entry.message, frame.data);
+    const changed = Object.entries(decoded).some(([name, value]) => device.values[name] !== value);
+    const cameOnline = device.status !== 'online';
+
+    Object.assign(device.values, decoded);
+    device.framesReceived++;
+    device.lastFrameAt = frame.timestamp || new Date();
+    device.status = 'online';
+
+    if (changed || cameOnline) {
+      this.scheduleUpdate(device);
+    }
+  }
+
+  /**
+   * Coalesce the frames of one broadcast cycle into a single update
+   */
+  private scheduleUpdate(device: CanDevice): void {
+    if (device.updateTimer) {
+      return;
+    }
+
+    device.updateTimer = setTimeout(() => {
+      device.updateTimer = undefined;
+      this.emitDeviceUpdate({
+        deviceId: device.deviceId,
+        status: device.status,
+        state: toBatteryState(device),
+        timestamp: device.lastFrameAt || new Date(),
+        source: 'webhook'
+      });
+    }, this.getCanConfig().options.updateDebounce ?? 250);
+  }
+
+  /**
+   * Mark packs offline when their frames stop
+   */
+  private startWatchdog(): void {
+    const timeout = this.getCanConfig().options.offlineTimeout ?? 10000;
+
+    this.watchdogInterval = setInterval(() => {
+      const now = Date.now();
+      for (const device of this.devices.values()) {
+        if (device.status !== 'online' || !device.lastFrameAt || now - device.lastFrameAt.getTime() < timeout) continue;
+
+        device.status = 'offline';
+        this.emitDeviceUpdate({
+          deviceId: device.deviceId,
+          status: 'offline',
+          state: toBatteryState(device),
+          timestamp: new Date(),
+          source: 'webhook'
+        });
+        this.log('warn', `No CAN frames from ${device.deviceId} for ${timeout}ms`);
+      }
+    }, Math.max(250, Math.floor(timeout / 2)));
+  }
+
+  /**
+   * Map a CAN device to DeviceDiscovery
+   */
+  private mapDeviceToDiscovery(device: CanDevice, confidence: number): DeviceDiscovery {
+    return {
+      protocol: 'can_bus',
+      deviceId: device.deviceId,
+      deviceType: 'battery_pack',
+      name: device.name,
+      specifications: {
+        manufacturer: device.profile.manufacturer,
+        model: device.profile.model,
+        capacity: typeof device.values.capacityAh === 'number' && typeof device.values.voltage === 'number'
+          ? Number((device.values.capacityAh * device.values.voltage / 1000).toFixed(2))
+          : undefined
+      },
+      capabilities: BATTERY_CAPABILITIES,
+      networkInfo: {
+        networkId: device.interfaceName
+      },
+      discoveredAt: device.addedAt,
+      confidence
+    };
+  }
+}
+
+function frameKey(id: number, extended?: boolean): string {
+  return `${extended ? 'x' : ''}${id.toString(16)}`;
+}
+
+/**
+ * Parameters of a send_frame command: { id, data: hex string | byte array, extended? }
+ */
+function parseRawFrame(parameters: Record<string, any>): CanFrame {
+  const id = Number(parameters.id);
+  const extended = !!parameters.extended;
+  if (!Number.isInteger(id) || id < 0 || id > (extended ? 0x1fffffff : 0x7ff)) {
+    throw new Error(`Invalid CAN frame ID: ${parameters.id}`);
+  }
+
+  const data = typeof parameters.data === 'string'
+    ? Buffer.from(parameters.data.replace(/\s+/g, ''), 'hex')
+    : Buffer.from(Array.isArray(parameters.data) ? parameters.data : []);
+  if (data.length > 8) {
+    throw new Error(`CAN frame payload too long: ${data.length} bytes`);
+  }
+
+  return { id, data, extended };
+}
+
+/**
+ * Decoded signals plus derived BatteryPackState fields
+ */
+function toBatteryState(device: CanDevice): Record<string, any> {
+  const alarmSignals = new Set(
+    device.profile.messages.flatMap(message => message.signals.filter(signal => signal.alarm).map(signal => signal.name))
+  );
+
+  const state: Record<string, any> = {};
+  const alarms: string[] = [];
+  for (const [name, value] of Object.entries(device.values)) {
+    if (alarmSignals.has(name)) {
+      if (value === true) alarms.push(name);
+    } else {
+      state[name] = value;
+    }
+  }
+  if (alarmSignals.size > 0) {
+    state.alarms = alarms;
+  }
+
+  const { voltage, current, minCellVoltage, maxCellVoltage } = state;
+  if (typeof voltage === 'number' && typeof current === 'number') {
+    state.chargingPower = Math.round(voltage * current);
+  }
+  if (typeof current === 'number') {
+    state.mode = Math.abs(current) < 0.5 ? 'idle' : current > 0 ? 'charging' : 'discharging';
+  }
+  if (typeof minCellVoltage === 'number' && typeof maxCellVoltage === 'number') {
+    state.cellVoltageDelta = Number((maxCellVoltage - minCellVoltage).toFixed(3));
+  }
+
+  return state;
+}
@@ -0,0 +1,142 @@
+import { CanMessageDefinition, parseDbc } from './dbc';
+
+/**
+ * BMS Frame Set Profiles
+ *
+ * Frame sets a battery management system broadcasts to an inverter. Signal
+ * names are the state keys the CAN adapter reports, aligned with the shared
+ * BatteryPackState (chargeLevel, voltage, current, temperature, health).
+ */
+
+export interface BmsProfile {
+  name: string;
+  manufacturer: string;
+  model: string;
+  messages: CanMessageDefinition[];
+  heartbeat?: {
+    id: number; // frame the inverter side is expected to send
+    data: number[];
+    interval: number; // milliseconds
+  } | undefined;
+}
+
+/**
+ * Pylontech low-voltage protocol (SMA Sunny Island compatible, 500 kbit/s).
+ * Also spoken by BYD, Dyness, Pytes and most "Pylontech-compatible" BMS.
+ * 0x373/0x379 are the widely supported SMA/Victron extension frames.
+ */
+export const PYLONTECH_PROFILE: BmsProfile = {
+  name: 'pylontech',
+  manufacturer: 'Pylontech',
+  model: 'LV BMS (CAN)',
+  messages: [
+    {
+      id: 0x351,
+      name: 'ChargeDischargeLimits',
+      signals: [
+        { name: 'chargeVoltageLimit', startBit: 0, length: 16, factor: 0.1, unit: 'V' },
+        { name: 'chargeCurrentLimit', startBit: 16, length: 16, signed: true, factor: 0.1, unit: 'A' },
+        { name: 'dischargeCurrentLimit', startBit: 32, length: 16, signed: true, factor: 0.1, unit: 'A' },
+        { name: 'dischargeVoltageLimit', startBit: 48, length: 16, factor: 0.1, unit: 'V' }
+      ]
+    },
+    {
+      id: 0x355,
+      name: 'StateOfCharge',
+      signals: [
+        { name: 'chargeLevel', startBit: 0, length: 16, unit: '%' },
+        { name: 'health', startBit: 16, length: 16, unit: '%' }
+      ]
+    },
+    {
+      id: 0x356,
+      name: 'Measurements',
+      signals: [
+        { name: 'voltage', startBit: 0, length: 16, signed: true, factor: 0.01, unit: 'V' },
+        { name: 'current', startBit: 16, length: 16, signed: true, factor: 0.1, unit: 'A' }, // positive: charging
+        { name: 'temperature', startBit: 32, length: 16, signed: true, factor: 0.1, unit: '°C' }
+      ]
+    },
+    {
+      id: 0x359,
+      name: 'ProtectionAlarms',
+      signals: [
+        { name: 'cellOverVoltage', startBit: 1, length: 1, alarm: true },
+        { name: 'cellUnderVoltage', startBit: 2, length: 1, alarm: true },
+        { name: 'overTemperature', startBit: 3, length: 1, alarm: true },
+        { name: 'underTemperature', startBit: 4, length: 1, alarm: true },
+        { name: 'dischargeOverCurrent', startBit: 7, length: 1, alarm: true },
+        { name: 'chargeOverCurrent', startBit: 8, length: 1, alarm: true },
+        { name: 'systemError', startBit: 11, length: 1, alarm: true },
+        { name: 'moduleCount', startBit: 32, length: 8 }
+      ]
+    },
+    {
+      id: 0x35c,
+      name: 'RequestFlags',
+      length: 2,
+      signals: [
+        { name: 'fullChargeRequest', startBit: 3, length: 1 },
+        { name: 'forceCharge', startBit: 5, length: 1 },
+        { name: 'dischargeEnabled', startBit: 6, length: 1 },
+        { name: 'chargeEnabled', startBit: 7, length: 1 }
+      ]
+    },
+    {
+      id: 0x35e,
+      name: 'ManufacturerName',
+      signals: [
+        { name: 'manufacturerName', startBit: 0, length: 64, encoding: 'ascii' }
+      ]
+    },
+    {
+      id: 0x373,
+      name: 'CellExtremes',
+      signals: [
+        { name: 'minCellVoltage', startBit: 0, length: 16, factor: 0.001, unit: 'V' },
+        { name: 'maxCellVoltage', startBit: 16, length: 16, factor: 0.001, unit: 'V' },
+        { name: 'minCellTemperature', startBit: 32, length: 16, offset: -273.15, unit: '°C' }, // Kelvin on the wire
+        { name: 'maxCellTemperature', startBit: 48, length: 16, offset: -273.15, unit: '°C' }
+      ]
+    },
+    {
+      id: 0x379,
+      name: 'InstalledCapacity',
+      length: 2,
+      signals: [
+        { name: 'capacityAh', startBit: 0, length: 16, unit: 'Ah' }
+      ]
+    }
+  ],
+  heartbeat: {
+    id: 0x305,
+    data: [0, 0, 0, 0, 0, 0, 0, 0],
+    interval: 1000
+  }
+};
+
+export const BMS_PROFILES: Record<string, BmsProfile> = {
+  pylontech: PYLONTECH_PROFILE
+};
+
+/**
+ * Build a profile from the BO_/SG_ definitions of a DBC file
+ */
+export function profileFromDbc(
+  name: string,
+  dbc: string,
+  details: Partial<Omit<BmsProfile, 'name' | 'messages'>> = {}
+): BmsProfile {
+  const messages = parseDbc(dbc);
+  if (messages.length === 0) {
+    throw new Error(`DBC for profile ${name} defines no messages`);
+  }
+
+  return {
+    name,
+    manufacturer: details.manufacturer || 'Unknown',
+    model: details.model || 'CAN BMS',
+    messages,
+    heartbeat: details.heartbeat
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * CAN Signal Definitions (DBC subset)
+ *
+ * Describes how physical values are packed into CAN frames, using the same
+ * model as Vector DBC files: bit position, length, byte order, sign, factor
+ * and offset. Definitions can be written inline or parsed from the BO_/SG_
+ * lines of a DBC file.
+ *
+ * Bit numbering follows DBC conventions:
+ * - little_endian (Intel, @1): startBit is the least significant bit
+ * - big_endian (Motorola, @0): startBit is the most significant bit
+ */
+
+export type CanByteOrder = 'little_endian' | 'big_endian';
+
+export interface CanSignalDefinition {
+  name: string; // state key the value is written to
+  startBit: number;
+  length: number; // bits, up to 52
+  byteOrder?: CanByteOrder; // default: little_endian
+  signed?: boolean;
+  factor?: number; // physical = raw * factor + offset
+  offset?: number;
+  unit?: string | undefined;
+  min?: number;
+  max?: number;
+  encoding?: 'number' | 'ascii'; // ascii: byte-aligned text (e.g. manufacturer name)
+  alarm?: boolean; // 1-bit flag reported in state.alarms when set
+  values?: Record<number, string>; // value table (VAL_)
+}
+
+export interface CanMessageDefinition {
+  id: number;
+  name: string;
+  extended?: boolean; // 29-bit identifier
+  length?: number; // DLC, default: 8
+  signals: CanSignalDefinition[];
+}
+
+export type CanSignalValue = number | boolean | string;
+
+/**
+ * Read a raw unsigned value from a frame payload
+ */
+export function extractBits(data: Buffer, startBit: number, length: number, byteOrder: CanByteOrder = 'little_endian'): number {
+  let value = 0;
+
+  if (byteOrder === 'little_endian') {
+    for (let i = length - 1; i >= 0; i--) {
+      value = value * 2 + readBit(data, startBit + i);
+    }
+    return value;
+  }
+
+  let position = startBit;
+  for (let i = 0; i < length; i++) {
+    value = value * 2 + readBit(data, position);
+    position = nextMotorolaBit(position);
+  }
+  return value;
+}
+
+/**
+ * Write a raw unsigned value into a frame payload
+ */
+export function insertBits(data: Buffer, startBit: number, length: number, value: number, byteOrder: CanByteOrder = 'little_endian'): void {
+  if (byteOrder === 'little_endian') {
+    let remaining = value;
+    for (let i = 0; i < length; i++) {
+      writeBit(data, startBit + i, remaining % 2);
+      remaining = Math.floor(remaining / 2);
+    }
+    return;
+  }
+
+  const positions: number[] = [];
+  let position = startBit;
+  for (let i = 0; i < length; i++) {
+    positions.push(position);
+    position = nextMotorolaBit(position);
+  }
+
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    writeBit(data, positions[i]!, remaining % 2);
+    remaining = Math.floor(remaining / 2);
+  }
+}
+
+/**
+ * Decode one signal to its physical value
+ */
+export function decodeSignal(data: Buffer, signal: CanSignalDefinition): CanSignalValue | undefined {
+  if (signal.encoding === 'ascii') {
+    const start = signal.startBit >> 3;
+    const end = start + (signal.length >> 3);
+    if (end > data.length) {
+      return undefined;
+    }
+    return data.subarray(start, end).toString('ascii').replace(/[\0\s]+$/, '');
+  }
+
+  if (!fitsPayload(data, signal)) {
+    return undefined;
+  }
+
+  let raw = extractBits(data, signal.startBit, signal.length, signal.byteOrder);
+  if (signal.signed && raw >= 2 ** (signal.length - 1)) {
+    raw -= 2 ** signal.length;
+  }
+
+  if (signal.values && raw in signal.values) {
+    return signal.values[raw]!;
+  }
+  if (signal.length === 1 && signal.factor === undefined && signal.offset === undefined) {
+    return raw === 1;
+  }
+
+  const value = raw * (signal.factor ?? 1) + (signal.offset ?? 0);
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Encode one physical value into a frame payload
+ */
+export function encodeSignal(data: Buffer, signal: CanSignalDefinition, value: CanSignalValue): void {
+  if (signal.encoding === 'ascii') {
+    const start = signal.startBit >> 3;
+    const bytes = Buffer.alloc(signal.length >> 3, 0x20);
+    bytes.write(String(value).slice(0, bytes.length), 'ascii');
+    bytes.copy(data, start);
+    return;
+  }
+
+  const physical = typeof value === 'boolean' ? (value ? 1 : 0) : Number(value);
+  let raw = Math.round((physical - (signal.offset ?? 0)) / (signal.factor ?? 1));
+
+  const min = signal.signed ? -(2 ** (signal.length - 1)) : 0;
+  const max = signal.signed ? 2 ** (signal.length - 1) - 1 : 2 ** signal.length - 1;
+  raw = Math.min(max, Math.max(min, raw));
+  if (raw < 0) {
+    raw += 2 ** signal.length;
+  }
+
+  insertBits(data, signal.startBit, signal.length, raw, signal.byteOrder);
+}
+
+/**
+ * Decode all signals of a message
+ */
+export function decodeMessage(message: CanMessageDefinition, data: Buffer): Record<string, CanSignalValue> {
+  const values: Record<string, CanSignalValue> = {};
+  for (const signal of message.signals) {
+    const value = decodeSignal(data, signal);
+    if (value !== undefined) {
+      values[signal.name] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Build a frame payload from physical values; missing signals stay 0
+ */
+export function encodeMessage(message: CanMessageDefinition, values: Record<string, CanSignalValue>): Buffer {
+  const data = Buffer.alloc(message.length ?? 8);
+  for (const signal of message.signals) {
+    const value = values[signal.name];
+    if (value !== undefined) {
+      encodeSignal(data, signal, value);
+    }
+  }
+  return data;
+}
+
+/**
+ * Parse BO_ (message) and SG_ (signal) lines from DBC text.
+ * Multiplexed signals and attributes are ignored.
+ */
+export function parseDbc(text: string): CanMessageDefinition[] {
+  const messages: CanMessageDefinition[] = [];
+  let current: CanMessageDefinition | undefined;
+
+  const messagePattern = /^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)/;
+  const signalPattern = /^SG_\s+(\w+)\s*:\s*(\d+)\|(\d+)@([01])([+-])\s*\(([^,]+),([^)]+)\)\s*\[([^|]*)\|([^\]]*)\]\s*"([^"]*)"/;
+  const valuePattern = /^VAL_\s+(\d+)\s+(\w+)\s+(.*);/;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    const messageMatch = messagePattern.exec(line);
+    if (messageMatch) {
+      const rawId = Number(messageMatch[1]);
+      const extended = rawId > 0x7ff;
+      current = {
+        id: extended ? rawId & 0x1fffffff : rawId,
+        name: messageMatch[2]!,
+        extended,
+        length: Number(messageMatch[3]),
+        signals: []
+      };
+      messages.push(current);
+      continue;
+    }
+
+    const signalMatch = signalPattern.exec(line);
+    if (signalMatch && current) {
+      const [, name, startBit, length, order, sign, factor, offset, min, max, unit] = signalMatch;
+      current.signals.push({
+        name: name!,
+        startBit: Number(startBit),
+        length: Number(length),
+        byteOrder: order === '1' ? 'little_endian' : 'big_endian',
+        signed: sign === '-',
+        factor: Number(factor),
+        offset: Number(offset),
+        min: Number(min),
+        max: Number(max),
+        unit: unit || undefined
+      });
+      continue;
+    }
+
+    const valueMatch = valuePattern.exec(line);
+    if (valueMatch) {
+      const rawId = Number(valueMatch[1]);
+      const message = messages.find(msg => msg.id === (rawId > 0x7ff ? rawId & 0x1fffffff : rawId));
+      const signal = message?.signals.find(sig => sig.name === valueMatch[2]);
+      if (signal) {
+        signal.values = {};
+        for (const entry of valueMatch[3]!.matchAll(/(-?\d+)\s+"([^"]*)"/g)) {
+          signal.values[Number(entry[1])] = entry[2]!;
+        }
+      }
+    }
+  }
+
+  return messages;
+}
+
+function readBit(data: Buffer, bit: number): number {
+  return (data[bit >> 3]! >> (bit & 7)) & 1;
+}
+
+function writeBit(data: Buffer, bit: number, value: number): void {
+  const index = bit >> 3;
+  data[index] = value ? data[index]! | (1 << (bit & 7)) : data[index]! & ~(1 << (bit & 7));
+}
+
+/**
+ * Motorola signals continue at the next lower bit, wrapping to the MSB of the next byte
+ */
+function nextMotorolaBit(position: number): number {
+  return position % 8 === 0 ? position + 15 : position - 1;
+}
+
+function fitsPayload(data: Buffer, signal: CanSignalDefinition): boolean {
+  if (signal.byteOrder === 'big_endian') {
+    let position = signal.startBit;
+    for (let i = 1; i < signal.length; i++) {
+      position = nextMotorolaBit(position);
+    }
+    return Math.max(signal.startBit, position) >> 3 < data.length;
+  }
+  return (signal.startBit + signal.length - 1) >> 3 < data.length;
+}
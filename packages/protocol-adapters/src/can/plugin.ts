@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { CanBusConfig } from './adapter';
+
+/**
+ * CAN bus BMS adapter plugin
+ */
+export const canBusPlugin = defineAdapterPlugin<CanBusConfig>({
+  protocol: 'can_bus',
+  name: '@maestro/protocol-adapters/can',
+  description: 'Battery BMS frame sets over SocketCAN',
+  configSchema: z.object({
+    transport: z.enum(['socketcan', 'virtual']).optional(),
+    interfaceName: z.string().min(1).optional(),
+    bitrate: z.number().int().positive().optional(),
+    devices: z.array(z.object({
+      deviceId: z.string().min(1),
+      profile: z.union([z.string(), z.record(z.any())]),
+      interfaceName: z.string().optional(),
+      idOffset: z.number().int().optional()
+    }).passthrough()).optional(),
+    profiles: z.record(z.record(z.any())).optional(),
+    offlineTimeout: z.number().int().positive().optional(),
+    updateDebounce: z.number().int().nonnegative().optional(),
+    sendHeartbeat: z.boolean().optional()
+  }).passthrough(),
+  deviceTypes: ['battery_pack'],
+  capabilities: ['energy_storage', 'temperature_sensor'],
+  create: async config => {
+    const { CanBusAdapter } = await import('./adapter');
+    return new CanBusAdapter(config);
+  }
+});
@@ -0,0 +1,111 @@
+import { CanFrame, CanTransport, createCanTransport } from './transport';
+import { BmsProfile, PYLONTECH_PROFILE } from './bms-profiles';
+import { CanSignalValue, encodeMessage } from './dbc';
+
+/**
+ * BMS Simulator
+ *
+ * Broadcasts a BMS frame set on a CAN interface (virtual bus or Linux vcan)
+ * so the CAN adapter can be exercised without a battery. Values are encoded
+ * with the same definitions the adapter decodes with.
+ */
+
+export interface BmsSimulatorOptions {
+  interfaceName?: string; // default: vcan0
+  transport?: 'socketcan' | 'virtual'; // default: virtual
+  profile?: BmsProfile; // default: Pylontech
+  idOffset?: number; // added to every frame ID
+  interval?: number; // broadcast period in milliseconds, 0: only on publish()
+  values?: Record<string, CanSignalValue>;
+}
+
+export const DEFAULT_BMS_VALUES: Record<string, CanSignalValue> = {
+  chargeVoltageLimit: 53.2,
+  chargeCurrentLimit: 50,
+  dischargeCurrentLimit: 100,
+  dischargeVoltageLimit: 44.5,
+  chargeLevel: 76,
+  health: 98,
+  voltage: 51.84,
+  current: 12.5,
+  temperature: 23.4,
+  moduleCount: 2,
+  chargeEnabled: true,
+  dischargeEnabled: true,
+  manufacturerName: 'PYLON',
+  minCellVoltage: 3.238,
+  maxCellVoltage: 3.252,
+  minCellTemperature: 22.85,
+  maxCellTemperature: 24.85,
+  capacityAh: 100
+};
+
+export class BmsSimulator {
+  readonly profile: BmsProfile;
+  private readonly transport: CanTransport;
+  private readonly idOffset: number;
+  private readonly interval: number;
+  private values: Record<string, CanSignalValue>;
+  private timer?: NodeJS.Timeout;
+  private received: CanFrame[] = [];
+
+  constructor(options: BmsSimulatorOptions = {}) {
+    this.profile = options.profile || PYLONTECH_PROFILE;
+    this.transport = createCanTransport(options.transport || 'virtual', options.interfaceName || 'vcan0');
+    this.idOffset = options.idOffset || 0;
+    this.interval = options.interval ?? 1000;
+    this.values = { ...DEFAULT_BMS_VALUES, ...(options.values || {}) };
+
+    this.transport.on('frame', (frame: CanFrame) => this.received.push(frame));
+  }
+
+  async start(): Promise<void> {
+    await this.transport.open();
+    if (this.interval > 0) {
+      this.timer = setInterval(() => {
+        this.publish().catch(() => {
+          // Bus gone; the next tick retries
+        });
+      }, this.interval);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.transport.close();
+  }
+
+  getValues(): Record<string, CanSignalValue> {
+    return { ...this.values };
+  }
+
+  /**
+   * Change values; they go out with the next broadcast
+   */
+  setValues(values: Record<string, CanSignalValue>): void {
+    Object.assign(this.values, values);
+  }
+
+  /**
+   * Frames sent by others on the bus (e.g. inverter heartbeats)
+   */
+  getReceivedFrames(): CanFrame[] {
+    return [...this.received];
+  }
+
+  /**
+   * Broadcast the full frame set once
+   */
+  async publish(): Promise<void> {
+    for (const message of this.profile.messages) {
+      await this.transport.send({
+        id: message.id + this.idOffset,
+        extended: message.extended,
+        data: encodeMessage(message, this.values)
+      });
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from 'events';
+
+/**
+ * CAN Transports
+ *
+ * - SocketCAN (Linux can0/vcan0) through the optional `socketcan` package
+ * - An in-process virtual bus with vcan semantics (every frame is delivered
+ *   to all other endpoints on the same bus) for tests and demos
+ *
+ * Events: 'frame' (frame: CanFrame), 'error' (error: Error)
+ */
+
+export interface CanFrame {
+  id: number;
+  data: Buffer;
+  extended?: boolean;
+  timestamp?: Date;
+}
+
+export interface CanTransport extends EventEmitter {
+  readonly interfaceName: string;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  send(frame: CanFrame): Promise<void>;
+  isOpen(): boolean;
+}
+
+/**
+ * SocketCAN raw channel (requires Linux and the `socketcan` package)
+ */
+export class SocketCanTransport extends EventEmitter implements CanTransport {
+  readonly interfaceName: string;
+  private channel: any;
+
+  constructor(interfaceName: string) {
+    super();
+    this.interfaceName = interfaceName;
+  }
+
+  async open(): Promise<void> {
+    // Native module, optional peer dependency
+    const moduleName = 'socketcan';
+    const socketcan = await import(moduleName);
+
+    this.channel = (socketcan.default || socketcan).createRawChannel(this.interfaceName, true);
+    this.channel.addListener('onMessage', (message: { id: number; ext?: boolean; data: Buffer; ts_sec?: number; ts_usec?: number }) => {
+      this.emit('frame', {
+        id: message.id,
+        extended: !!message.ext,
+        data: Buffer.from(message.data),
+        timestamp: message.ts_sec !== undefined
+          ? new Date(message.ts_sec * 1000 + Math.floor((message.ts_usec || 0) / 1000))
+          : new Date()
+      });
+    });
+    this.channel.addListener('onStopped', () => {
+      this.channel = undefined;
+    });
+    this.channel.start();
+  }
+
+  async close(): Promise<void> {
+    const channel = this.channel;
+    this.channel = undefined;
+    channel?.stop();
+  }
+
+  async send(frame: CanFrame): Promise<void> {
+    if (!this.channel) {
+      throw new Error(`CAN interface ${this.interfaceName} is not open`);
+    }
+    this.channel.send({ id: frame.id, ext: !!frame.extended, rtr: false, data: frame.data });
+  }
+
+  isOpen(): boolean {
+    return !!this.channel;
+  }
+}
+
+/**
+ * In-process CAN bus shared by all virtual transports with the same name
+ */
+export class VirtualCanBus {
+  private static buses: Map<string, VirtualCanBus> = new Map();
+  private endpoints: Set<VirtualCanTransport> = new Set();
+
+  readonly name: string;
+
+  private constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Get (or create) the bus with a given interface name
+   */
+  static get(name: string): VirtualCanBus {
+    let bus = VirtualCanBus.buses.get(name);
+    if (!bus) {
+      bus = new VirtualCanBus(name);
+      VirtualCanBus.buses.set(name, bus);
+    }
+    return bus;
+  }
+
+  get endpointCount(): number {
+    return this.endpoints.size;
+  }
+
+  attach(endpoint: VirtualCanTransport): void {
+    this.endpoints.add(endpoint);
+  }
+
+  detach(endpoint: VirtualCanTransport): void {
+    this.endpoints.delete(endpoint);
+  }
+
+  /**
+   * Deliver a frame to every endpoint except the sender (asynchronously, like a real bus)
+   */
+  transmit(sender: VirtualCanTransport, frame: CanFrame): void {
+    const delivered: CanFrame = { ...frame, data: Buffer.from(frame.data), timestamp: new Date() };
+    for (const endpoint of this.endpoints) {
+      if (endpoint !== sender) {
+        setImmediate(() => endpoint.receive(delivered));
+      }
+    }
+  }
+}
+
+export class VirtualCanTransport extends EventEmitter implements CanTransport {
+  readonly interfaceName: string;
+  private bus: VirtualCanBus | undefined;
+
+  constructor(interfaceName: string) {
+    super();
+    this.interfaceName = interfaceName;
+  }
+
+  async open(): Promise<void> {
+    this.bus = VirtualCanBus.get(this.interfaceName);
+    this.bus.attach(this);
+  }
+
+  async close(): Promise<void> {
+    this.bus?.detach(this);
+    this.bus = undefined;
+  }
+
+  async send(frame: CanFrame): Promise<void> {
+    if (!this.bus) {
+      throw new Error(`CAN interface ${this.interfaceName} is not open`);
+    }
+    if (frame.data.length > 8) {
+      throw new Error(`CAN frame payload too long: ${frame.data.length} bytes`);
+    }
+    this.bus.transmit(this, frame);
+  }
+
+  isOpen(): boolean {
+    return !!this.bus;
+  }
+
+  /**
+   * Called by the bus for frames from other endpoints
+   */
+  receive(frame: CanFrame): void {
+    if (this.bus) {
+      this.emit('frame', frame);
+    }
+  }
+}
+
+/**
+ * Create a transport for a configured interface
+ */
+export function createCanTransport(transport: 'socketcan' | 'virtual', interfaceName: string): CanTransport {
+  return transport === 'virtual' ? new VirtualCanTransport(interfaceName) : new SocketCanTransport(interfaceName);
+}
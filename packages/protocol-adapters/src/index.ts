@@ -2,18 +2,65 @@
 
 // Base classes and interfaces
 export * from './base/adapter';
+export * from './base/command-queue';
+export * from './base/circuit-breaker';
 export * from './base/manager';
+export * from './base/registry';
+export * from './base/builtin-plugins';
 
 // Tuya adapter (MVP)
 export * from './tuya/adapter';
+export * from './tuya/plugin';
+export * from './tuya/dp-schema';
 
-// Future adapters (Phase 2)
-// export * from './modbus/adapter';
-// export * from './mqtt/adapter';
+// Tuya local LAN adapter (cloud-free control, 3.3/3.4/3.5)
+export * from './tuya-local/adapter';
+export * from './tuya-local/plugin';
+export * from './tuya-local/protocol';
+export * from './tuya-local/session';
+export * from './tuya-local/simulator';
+
+// Modbus adapter (Phase 2)
+export * from './modbus/adapter';
+export * from './modbus/plugin';
+export * from './modbus/registers';
+export * from './modbus/simulator';
+
+// SunSpec adapter (Phase 2, on top of Modbus)
+export * from './sunspec/adapter';
+export * from './sunspec/plugin';
+export * from './sunspec/models';
+
+// MQTT adapter (Phase 2, with Home Assistant discovery)
+export * from './mqtt/adapter';
+export * from './mqtt/plugin';
+export * from './mqtt/home-assistant';
+
+// CAN bus adapter (Phase 2, battery BMS frame sets)
+export * from './can/adapter';
+export * from './can/plugin';
+export * from './can/bms-profiles';
+export * from './can/dbc';
+export * from './can/simulator';
+export * from './can/transport';
+
+// REST adapter (profile-driven HTTP devices: Shelly, Tasmota, OpenDTU)
+export * from './rest/adapter';
+export * from './rest/plugin';
+export * from './rest/profiles';
+
+// Device simulator (synthetic household for demos and tests)
+export * from './simulator/adapter';
+export * from './simulator/plugin';
+export * from './simulator/models';
+export * from './simulator/appliances';
+export * from './simulator/solar';
+export * from './simulator/random';
 
 // Utility functions
 export * from './utils/discovery';
 export * from './utils/validation';
+export * from './utils/json-path';
 
 // Re-export shared types for convenience
 export {
@@ -51,28 +98,75 @@ export const DEFAULT_CONFIGS = {
       pollingInterval: 30000,
       enableWebhooks: false,
       maxDevicesPerRequest: 100,
-      cacheTTL: 300000 // 5 minutes
+      cacheTTL: 300000, // 5 minutes
+      localControl: {
+        enabled: false,
+        preferLocal: false
+      }
+    }
+  },
+  
+  local_network: {
+    protocol: 'local_network' as const,
+    name: 'Tuya Local Adapter',
+    enabled: false, // Requires device local keys
+    connectionTimeout: 5000,
+    commandTimeout: 3000,
+    retryAttempts: 3,
+    retryDelay: 500,
+    maxConcurrentCommands: 10,
+    options: {
+      discovery: true,
+      discoveryPorts: [6666, 6667],
+      heartbeatInterval: 10000,
+      reconnectInterval: 5000,
+      devices: []
     }
   },
   
   modbus: {
     protocol: 'modbus' as const,
     name: 'Modbus TCP Adapter',
-    enabled: false, // Phase 2
+    enabled: false, // Requires devices with register maps
     connectionTimeout: 5000,
     commandTimeout: 3000,
     retryAttempts: 3,
     retryDelay: 500,
     maxConcurrentCommands: 5,
     options: {
+      transport: 'tcp' as const,
       host: '192.168.1.100',
       port: 502,
       unitId: 1,
       timeout: 3000,
-      reconnectInterval: 5000
+      pollingInterval: 10000,
+      reconnectInterval: 5000,
+      maxRegisterGap: 0,
+      devices: []
     }
   },
   
+  sunspec: {
+    protocol: 'sunspec' as const,
+    name: 'SunSpec Adapter',
+    enabled: false, // Requires units to scan
+    connectionTimeout: 5000,
+    commandTimeout: 3000,
+    retryAttempts: 3,
+    retryDelay: 500,
+    maxConcurrentCommands: 5,
+    options: {
+      transport: 'tcp' as const,
+      host: '192.168.1.100',
+      port: 502,
+      timeout: 3000,
+      pollingInterval: 10000,
+      reconnectInterval: 5000,
+      baseAddresses: [40000, 50000, 0],
+      devices: [{ unitId: 1 }]
+    }
+  },
+
   mqtt: {
     protocol: 'mqtt' as const,
     name: 'MQTT Adapter',
@@ -87,7 +181,64 @@ export const DEFAULT_CONFIGS = {
       keepAlive: 60,
       reconnectPeriod: 1000,
       qos: 1,
-      topicPrefix: 'maestro'
+      topicPrefix: 'maestro',
+      stateTopicTemplate: '{prefix}/{deviceId}/state',
+      commandTopicTemplate: '{prefix}/{deviceId}/set',
+      discovery: true,
+      discoveryPrefix: 'homeassistant',
+      devices: []
+    }
+  },
+
+  can_bus: {
+    protocol: 'can_bus' as const,
+    name: 'CAN Bus Adapter',
+    enabled: false, // Requires a CAN interface and battery packs
+    connectionTimeout: 5000,
+    commandTimeout: 1000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 5,
+    options: {
+      transport: 'socketcan' as const,
+      interfaceName: 'can0',
+      bitrate: 500000,
+      offlineTimeout: 10000,
+      updateDebounce: 250,
+      sendHeartbeat: false,
+      devices: []
+    }
+  },
+
+  rest_api: {
+    protocol: 'rest_api' as const,
+    name: 'REST Adapter',
+    enabled: false, // Requires devices with profiles
+    connectionTimeout: 5000,
+    commandTimeout: 5000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+    maxConcurrentCommands: 10,
+    options: {
+      pollingInterval: 10000,
+      devices: [],
+      profiles: {}
+    }
+  },
+
+  simulator: {
+    protocol: 'simulator' as const,
+    name: 'Device Simulator',
+    enabled: false, // Demo and test environments only
+    connectionTimeout: 1000,
+    commandTimeout: 1000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 10,
+    options: {
+      seed: 1,
+      timeScale: 1,
+      tickInterval: 1000
     }
   }
 } as const;
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { DeviceStatusUpdate } from '@maestro/shared/types';
+
+import { ModbusAdapter, ModbusConfig } from './adapter';
+import { ModbusSlaveSimulator } from './simulator';
+import { REGISTER_MAPS, RegisterDefinition, decodeRegister, encodeRegister, planReads } from './registers';
+
+/**
+ * Modbus Adapter Tests
+ *
+ * Register encoding is checked in isolation; the adapter itself runs against
+ * an in-process Modbus TCP slave.
+ */
+
+describe('Modbus register encoding', () => {
+  test('decodes signed and unsigned 16-bit values', () => {
+    expect(decodeRegister({ address: 0, dataType: 'int16' }, [0xfff6])).toBe(-10);
+    expect(decodeRegister({ address: 0, dataType: 'uint16' }, [0xfff6])).toBe(65526);
+  });
+
+  test('honours word order for 32-bit values', () => {
+    const big: RegisterDefinition = { address: 0, dataType: 'uint32' };
+    const little: RegisterDefinition = { address: 0, dataType: 'uint32', wordOrder: 'little' };
+
+    expect(decodeRegister(big, [0x0001, 0x0002])).toBe(0x00010002);
+    expect(decodeRegister(little, [0x0002, 0x0001])).toBe(0x00010002);
+    expect(encodeRegister(little, 0x00010002)).toEqual([0x0002, 0x0001]);
+  });
+
+  test('round-trips float32 in both word orders', () => {
+    for (const wordOrder of ['big', 'little'] as const) {
+      const definition: RegisterDefinition = { address: 0, dataType: 'float32', wordOrder };
+      expect(decodeRegister(definition, encodeRegister(definition, 229.5))).toBeCloseTo(229.5, 5);
+    }
+  });
+
+  test('applies fixed and power-of-10 scale factors', () => {
+    const fixed: RegisterDefinition = { address: 0, dataType: 'int16', scale: 0.1 };
+    const sunssf: RegisterDefinition = { address: 0, dataType: 'uint16', scaleFactorRegister: 'W_SF' };
+
+    expect(decodeRegister(fixed, [2297])).toBe(229.7);
+    expect(encodeRegister(fixed, -12.5)).toEqual([0xff83]);
+    expect(decodeRegister(sunssf, [1234], -2)).toBe(12.34);
+    expect(encodeRegister(sunssf, 12.34, -2)).toEqual([1234]);
+  });
+
+  test('rejects values outside the register type', () => {
+    expect(() => encodeRegister({ address: 0, dataType: 'uint16' }, 70000)).toThrow('out of range');
+  });
+
+  test('plans contiguous block reads per table', () => {
+    const blocks = planReads(REGISTER_MAPS.eastron_sdm630.registers);
+
+    expect(blocks.every(block => block.table === 'input')).toBe(true);
+    expect(blocks[0]).toMatchObject({ start: 0, count: 12 });
+  });
+});
+
+describe('ModbusAdapter', () => {
+  const simulator = new ModbusSlaveSimulator({ port: 15020 + Math.floor(Math.random() * 1000) });
+  let adapter: ModbusAdapter;
+
+  const batteryId = 'battery';
+  const meterId = 'meter';
+
+  beforeAll(async () => {
+    await simulator.start();
+
+    simulator.setValues(1, REGISTER_MAPS.generic_battery, {
+      chargeLevel: 76.5,
+      chargingPower: -1500,
+      voltage: 51.2,
+      current: -29.3,
+      temperature: 24.1,
+      cycleCount: 312,
+      health: 97
+    });
+    simulator.setValues(2, REGISTER_MAPS.eastron_sdm630, {
+      voltageL1: 231.2,
+      power: 1843.5,
+      frequency: 50.02,
+      totalEnergy: 10234.75
+    });
+
+    const config: ModbusConfig = {
+      protocol: 'modbus',
+      name: 'Modbus Test Adapter',
+      enabled: true,
+      connectionTimeout: 2000,
+      commandTimeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 1,
+      options: {
+        host: simulator.host,
+        port: simulator.port,
+        pollingInterval: 50,
+        devices: [
+          { deviceId: batteryId, unitId: 1, registerMap: 'generic_battery' },
+          { deviceId: meterId, unitId: 2, registerMap: 'eastron_sdm630' }
+        ]
+      }
+    };
+
+    adapter = new ModbusAdapter(config);
+    await adapter.initialize();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  test('reads and scales battery registers', async () => {
+    const status = await adapter.getDeviceStatus(batteryId);
+
+    expect(status.status).toBe('online');
+    expect(status.state).toMatchObject({
+      chargeLevel: 76.5,
+      chargingPower: -1500,
+      voltage: 51.2,
+      current: -29.3,
+      temperature: 24.1,
+      cycleCount: 312,
+      health: 97,
+      mode: 'discharging'
+    });
+  });
+
+  test('reads float32 input registers', async () => {
+    const status = await adapter.getDeviceStatus(meterId);
+
+    expect(status.state.power).toBeCloseTo(1843.5, 1);
+    expect(status.state.totalEnergy).toBeCloseTo(10234.75, 1);
+  });
+
+  test('writes mapped commands to holding registers', async () => {
+    const result = await adapter.sendCommand(batteryId, {
+      deviceId: batteryId,
+      command: 'set_charge_limit',
+      parameters: { power: 3000 },
+      timestamp: new Date()
+    });
+
+    expect(result.success).toBe(true);
+    expect(simulator.getRegisters(1, 'holding', 20, 1)).toEqual([3000]);
+  });
+
+  test('rejects out-of-range and read-only writes', async () => {
+    const outOfRange = await adapter.sendCommand(batteryId, {
+      deviceId: batteryId,
+      command: 'set_charge_limit',
+      parameters: { power: 20000 },
+      timestamp: new Date()
+    });
+    const readOnly = await adapter.sendCommand(batteryId, {
+      deviceId: batteryId,
+      command: 'write_register',
+      parameters: { register: 'chargeLevel', value: 10 },
+      timestamp: new Date()
+    });
+
+    expect(outOfRange.success).toBe(false);
+    expect(readOnly.success).toBe(false);
+    expect(readOnly.error).toContain('read-only');
+  });
+
+  test('emits polled updates when registers change', async () => {
+    const update = new Promise<DeviceStatusUpdate>(resolve => {
+      const listener = (event: DeviceStatusUpdate) => {
+        if (event.deviceId === batteryId && event.state.chargeLevel === 80) {
+          adapter.off('deviceUpdate', listener);
+          resolve(event);
+        }
+      };
+      adapter.on('deviceUpdate', listener);
+    });
+
+    simulator.setValue(1, REGISTER_MAPS.generic_battery.registers.chargeLevel, 80);
+
+    await expect(update).resolves.toMatchObject({ status: 'online', source: 'polling' });
+  });
+});
@@ -1,101 +1,1028 @@
-import { BaseProtocolAdapter, DeviceInfo } from '../base/adapter';
-import { DeviceCommand, CommandResult, DeviceStatusUpdate, DeviceType } from '@maestro/shared/types';
+import type ModbusRTU from 'modbus-serial';
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery,
+  DeviceCapability
+} from '@maestro/shared/types';
 
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import {
+  ModbusRegisterMap,
+  ModbusRegisterTable,
+  RegisterDefinition,
+  RegisterReadBlock,
+  RegisterValue,
+  REGISTER_MAPS,
+  decodeBlocks,
+  decodeRaw,
+  encodeRegister,
+  planReads,
+  registerCount
+} from './registers';
+
+/**
+ * Modbus TCP/RTU Adapter
+ *
+ * Implements the BaseProtocolAdapter for Modbus devices (inverters, batteries,
+ * energy meters). Values are read through declarative register maps, so a new
+ * device model only needs a map, not code.
+ *
+ * Features:
+ * - Modbus TCP and RTU (serial) transports, several endpoints per adapter
+ * - Register maps with scale factors, word order, signed/unsigned, float32
+ * - Block reads (contiguous registers fetched in one request)
+ * - One transaction at a time per endpoint (required by RTU and most gateways)
+ * - Polling with change detection and automatic reconnect
+ */
+
+export type ModbusTransport = 'tcp' | 'rtu';
+
+export interface ModbusConnectionOptions {
+  transport?: ModbusTransport | undefined; // default: tcp
+  host?: string | undefined;
+  port?: number | undefined; // default: 502
+  serialPort?: string | undefined; // e.g. /dev/ttyUSB0
+  baudRate?: number | undefined; // default: 9600
+  parity?: 'none' | 'even' | 'odd' | undefined;
+  dataBits?: number | undefined;
+  stopBits?: number | undefined;
+}
+
+export interface ModbusDeviceConfig {
+  deviceId?: string; // default: "host:port:unitId" for TCP, "unitId" for RTU
+  unitId: number;
+  name?: string;
+  registerMap: string | ModbusRegisterMap; // built-in map name or inline map
+  connection?: ModbusConnectionOptions; // overrides the adapter-level endpoint
+}
+
+export interface ModbusConfig extends AdapterConfig {
+  options: ModbusConnectionOptions & {
+    unitId?: number; // default unit for scans
+    timeout?: number; // per transaction, milliseconds
+    pollingInterval?: number; // milliseconds, default: 10000, 0 disables polling
+    reconnectInterval?: number; // milliseconds, default: 5000
+    maxRegisterGap?: number; // unused registers tolerated inside a block read
+    devices?: ModbusDeviceConfig[];
+    registerMaps?: Record<string, ModbusRegisterMap>; // custom maps, referenced by name
+  };
+}
+
+export interface ModbusEndpoint {
+  key: string;
+  options: ModbusConnectionOptions;
+  client?: ModbusRTU | undefined;
+  connected: boolean;
+  queue: Promise<unknown>;
+  reconnectTimer?: NodeJS.Timeout | undefined;
+  lastError?: string | undefined;
+}
+
+export interface ModbusDevice {
+  deviceId: string;
+  unitId: number;
+  name?: string | undefined;
+  map: ModbusRegisterMap;
+  specifications?: DeviceDiscovery['specifications'] | undefined; // overrides the map's manufacturer/model
+  metadata?: Record<string, any> | undefined;
+  endpoint: ModbusEndpoint;
+  blocks: RegisterReadBlock[];
+  online: boolean;
+  lastValues?: Record<string, RegisterValue> | undefined;
+  lastReadAt?: Date | undefined;
+  consecutiveErrors: number;
+}
+
+// Errors that mean the underlying socket/port is gone rather than a Modbus exception
+const CONNECTION_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'Port Not Open'];
+
+/**
+ * Modbus Protocol Adapter Implementation
+ */
 export class ModbusAdapter extends BaseProtocolAdapter {
-  constructor(config: any) {
+  protected endpoints: Map<string, ModbusEndpoint>;
+  protected devices: Map<string, ModbusDevice>;
+  private pollingInterval?: NodeJS.Timeout | undefined;
+  private lastPollTime: number = 0;
+
+  constructor(config: ModbusConfig) {
     super(config);
+
+    this.endpoints = new Map();
+    this.devices = new Map();
   }
 
+  /**
+   * Initialize the Modbus adapter
+   */
   async initialize(): Promise<void> {
-    // TODO: Implement Modbus initialization
-  }
+    const config = this.getModbusConfig();
+
+    try {
+      // The adapter-level endpoint is always available for scans and ad-hoc devices
+      this.getEndpoint(this.resolveConnection());
+
+      this.registerConfiguredDevices();
+
+      const results = await Promise.allSettled(
+        Array.from(this.endpoints.values()).map(endpoint => this.connectEndpoint(endpoint))
+      );
+
+      const connected = results.filter(result => result.status === 'fulfilled').length;
+      if (connected === 0) {
+        const reason = (results[0] as PromiseRejectedResult).reason;
+        throw new Error(`No Modbus endpoint reachable: ${reason instanceof Error ? reason.message : reason}`);
+      }
+
+      if (connected < results.length) {
+        this.log('warn', `${results.length - connected} Modbus endpoint(s) unreachable, will retry`);
+      }
+
+      this.startPolling();
+
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      this.log('info', 'Modbus adapter initialized successfully', {
+        endpoints: this.endpoints.size,
+        devices: this.devices.size
+      });
 
-  async connect(): Promise<void> {
-    // TODO: Implement Modbus connection
-    this.updateConnectionStatus(true);
+    } catch (error) {
+      await this.closeEndpoints();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
   }
 
+  /**
+   * Close all Modbus connections
+   */
   async disconnect(): Promise<void> {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = undefined;
+    }
+
+    await this.closeEndpoints();
+    this.isInitialized = false;
     this.updateConnectionStatus(false);
+
+    this.log('info', 'Modbus adapter disconnected');
   }
 
-  async executeCommand(command: DeviceCommand): Promise<CommandResult> {
-    return {
-      success: false,
-      timestamp: new Date(),
-      responseTime: 0,
-      retryCount: 0,
-      error: 'Modbus adapter not implemented'
-    };
+  /**
+   * Add a device at runtime
+   */
+  async addDevice(deviceConfig: ModbusDeviceConfig): Promise<DeviceDiscovery> {
+    const device = this.registerDevice(deviceConfig);
+
+    if (this.isInitialized && !device.endpoint.connected) {
+      await this.connectEndpoint(device.endpoint).catch(error => {
+        this.log('warn', `Endpoint ${device.endpoint.key} unreachable`, error);
+      });
+    }
+
+    return this.mapDeviceToDiscovery(device, device.endpoint.connected ? 1.0 : 0.5);
   }
 
-  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
-    return {
-      status: 'unknown',
-      deviceId,
-      timestamp: new Date(),
-      state: {},
-      source: 'polling'
-    };
+  /**
+   * Remove a device added through configuration or addDevice()
+   */
+  removeDevice(deviceId: string): boolean {
+    return this.devices.delete(deviceId);
   }
 
-  async discoverDevices(): Promise<any[]> {
-    return [];
+  /**
+   * Discover Modbus devices
+   *
+   * Modbus has no discovery mechanism, so configured devices are probed and,
+   * when `filters.unitIds` and `filters.registerMap` are given, the adapter-level
+   * endpoint is scanned for responding unit IDs.
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const discoveries: DeviceDiscovery[] = [];
+
+    if (Array.isArray(filters?.unitIds) && filters?.registerMap) {
+      const connection = this.resolveConnection();
+      for (const unitId of filters.unitIds as number[]) {
+        const deviceId = this.buildDeviceId(connection, unitId);
+        if (this.devices.has(deviceId)) {
+          continue;
+        }
+
+        const candidate = this.createDevice({ unitId, registerMap: filters.registerMap });
+        if (await this.probeDevice(candidate)) {
+          this.devices.set(candidate.deviceId, candidate);
+        }
+      }
+    }
+
+    for (const device of this.devices.values()) {
+      if (filters?.deviceType && device.map.deviceType !== filters.deviceType) continue;
+
+      const reachable = await this.probeDevice(device);
+      const discovery = this.mapDeviceToDiscovery(device, reachable ? 1.0 : 0.3);
+      discoveries.push(discovery);
+      this.emit('deviceDiscovered', discovery);
+    }
+
+    this.log('info', `Discovered ${discoveries.length} Modbus devices`);
+    return discoveries;
   }
 
+  /**
+   * Get detailed device information
+   */
   async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+    const connection = device.endpoint.options;
+
     return {
-      deviceId,
-      protocol: 'modbus',
-      deviceType: 'smart_plug',
-      manufacturer: 'Unknown',
-      model: 'Unknown',
-      capabilities: []
+      deviceId: device.deviceId,
+      protocol: this.config.protocol,
+      deviceType: device.map.deviceType,
+      name: device.name,
+      manufacturer: device.specifications?.manufacturer || device.map.manufacturer,
+      model: device.specifications?.model || device.map.model,
+      firmwareVersion: device.specifications?.firmwareVersion,
+      capabilities: this.mapRegisterMapToCapabilities(device.map).map(cap => cap.type),
+      networkInfo: {
+        ipAddress: connection.transport === 'rtu' ? undefined : connection.host,
+        port: connection.transport === 'rtu' ? undefined : connection.port,
+        networkId: device.endpoint.key
+      },
+      metadata: {
+        unitId: device.unitId,
+        registerMap: device.map.name,
+        transport: connection.transport || 'tcp',
+        ...device.metadata
+      }
     };
   }
 
+  /**
+   * Send command to a Modbus device
+   */
   async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
-    return this.executeCommand(command);
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      let result: Record<string, any>;
+
+      if (command.command === 'read_registers') {
+        result = await this.readDeviceState(device);
+      } else {
+        const { name, definition, value } = this.resolveWrite(device, command);
+        const words = encodeRegister(definition, value, await this.readScaleExponent(device, definition));
+        await this.writeWords(device, definition.address, words);
+        result = { register: name, address: definition.address, value, words };
+      }
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      this.log('debug', `Command sent to device ${deviceId}`, { command, result });
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
   }
 
-  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<any> {
-    return {
-      id: `modbus-${deviceId}-${Date.now()}`,
+  /**
+   * Get current device status
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+
+    try {
+      const state = await this.readDeviceState(device);
+
+      return {
+        deviceId,
+        status: 'online',
+        state,
+        timestamp: new Date(),
+        source: 'polling'
+      };
+
+    } catch (error) {
+      this.log('error', `Failed to get device status for ${deviceId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to device updates (delivered by the polling loop)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
       deviceId,
-      eventTypes: eventTypes || [],
-      active: false
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
     };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
   }
 
+  /**
+   * Unsubscribe from device updates
+   */
   async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
-    // TODO: Implement unsubscription
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
   }
 
+  /**
+   * Test connection to specific device
+   */
   async testDeviceConnection(deviceId: string): Promise<boolean> {
-    return false;
+    try {
+      await this.getDeviceStatus(deviceId);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
+  /**
+   * Get Modbus-specific diagnostics
+   */
   async getDiagnostics(): Promise<Record<string, any>> {
+    const config = this.getModbusConfig();
+
     return {
-      protocol: 'modbus',
-      status: 'not_implemented',
-      devices: 0
+      protocol: this.config.protocol,
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      endpoints: Array.from(this.endpoints.values()).map(endpoint => ({
+        key: endpoint.key,
+        transport: endpoint.options.transport || 'tcp',
+        connected: endpoint.connected,
+        lastError: endpoint.lastError
+      })),
+      devices: Array.from(this.devices.values()).map(device => ({
+        deviceId: device.deviceId,
+        unitId: device.unitId,
+        registerMap: device.map.name,
+        online: device.online,
+        lastReadAt: device.lastReadAt,
+        consecutiveErrors: device.consecutiveErrors
+      })),
+      lastPollTime: this.lastPollTime ? new Date(this.lastPollTime) : undefined,
+      pollingInterval: config.options.pollingInterval ?? 10000
     };
   }
 
+  /**
+   * Check if adapter supports a device type
+   */
   supportsDeviceType(deviceType: DeviceType): boolean {
-    return false; // TODO: Implement device type support
+    const supportedTypes: DeviceType[] = [
+      'solar_inverter',
+      'battery_pack',
+      'energy_meter',
+      'heat_pump',
+      'ev_charger'
+    ];
+    return supportedTypes.includes(deviceType);
   }
 
+  /**
+   * Check if adapter supports a capability
+   */
   supportsCapability(capability: string): boolean {
-    return false; // TODO: Implement capability support
+    const supportedCapabilities = [
+      'energy_meter',
+      'power_control',
+      'energy_storage',
+      'grid_interaction',
+      'switch'
+    ];
+    return supportedCapabilities.includes(capability);
   }
 
+  /**
+   * Validate command before sending
+   */
   async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
-    return false; // TODO: Implement command validation
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+
+    const device = this.getDevice(deviceId);
+    if (command.command === 'read_registers') {
+      return true;
+    }
+
+    // Throws on unknown commands, read-only registers and out-of-range values
+    this.resolveWrite(device, command);
+
+    // Raw register writes are checked by resolveWrite alone
+    if (command.command !== 'write_register') {
+      this.assertValidCommand(command, this.mapRegisterMapToCapabilities(device.map));
+    }
+    return true;
   }
 
+  /**
+   * Validate Modbus device ID format
+   */
   protected validateDeviceId(deviceId: string): boolean {
-    return typeof deviceId === 'string' && deviceId.length > 0;
+    return this.devices.has(deviceId) || validateDeviceId(deviceId, 'modbus').isValid;
+  }
+
+  // Protected helpers (shared with protocols layered on Modbus, e.g. SunSpec)
+
+  /**
+   * Get typed Modbus configuration
+   */
+  protected getModbusConfig(): ModbusConfig {
+    return this.config as ModbusConfig;
+  }
+
+  /**
+   * Look up a register map by name (custom maps take precedence over built-ins)
+   */
+  protected resolveRegisterMap(registerMap: string | ModbusRegisterMap): ModbusRegisterMap {
+    if (typeof registerMap !== 'string') {
+      return registerMap;
+    }
+
+    const map = this.getModbusConfig().options.registerMaps?.[registerMap] || REGISTER_MAPS[registerMap];
+    if (!map) {
+      throw new Error(`Unknown Modbus register map: ${registerMap}`);
+    }
+    return map;
+  }
+
+  /**
+   * Create a device entry (without registering it)
+   */
+  protected createDevice(deviceConfig: ModbusDeviceConfig): ModbusDevice {
+    const map = this.resolveRegisterMap(deviceConfig.registerMap);
+    const connection = this.resolveConnection(deviceConfig.connection);
+
+    return {
+      deviceId: deviceConfig.deviceId || this.buildDeviceId(connection, deviceConfig.unitId),
+      unitId: deviceConfig.unitId,
+      name: deviceConfig.name,
+      map,
+      endpoint: this.getEndpoint(connection),
+      blocks: planReads(map.registers, this.getModbusConfig().options.maxRegisterGap ?? 0),
+      online: false,
+      consecutiveErrors: 0
+    };
+  }
+
+  /**
+   * Create and register a device
+   */
+  protected registerDevice(deviceConfig: ModbusDeviceConfig): ModbusDevice {
+    const device = this.createDevice(deviceConfig);
+    this.devices.set(device.deviceId, device);
+    return device;
+  }
+
+  /**
+   * Register the devices listed in the adapter options
+   */
+  protected registerConfiguredDevices(): void {
+    for (const deviceConfig of this.getModbusConfig().options.devices || []) {
+      this.registerDevice(deviceConfig);
+    }
+  }
+
+  /**
+   * Get a registered device or throw
+   */
+  protected getDevice(deviceId: string): ModbusDevice {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown Modbus device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  /**
+   * Read raw registers from a unit on an endpoint
+   */
+  protected async readWords(
+    endpoint: ModbusEndpoint,
+    unitId: number,
+    table: ModbusRegisterTable,
+    address: number,
+    count: number
+  ): Promise<number[]> {
+    return this.transaction(endpoint, unitId, async client => {
+      const response = table === 'input'
+        ? await client.readInputRegisters(address, count)
+        : await client.readHoldingRegisters(address, count);
+      this.stats.bytesTransferred += response.buffer.length;
+      return response.data;
+    });
+  }
+
+  /**
+   * Write raw registers to a device
+   */
+  protected async writeWords(device: ModbusDevice, address: number, words: number[]): Promise<void> {
+    await this.transaction(device.endpoint, device.unitId, async client => {
+      if (words.length === 1) {
+        await client.writeRegister(address, words[0]!);
+      } else {
+        await client.writeRegisters(address, words);
+      }
+      this.stats.bytesTransferred += words.length * 2;
+    });
+  }
+
+  /**
+   * Read and decode the full register map of a device
+   */
+  protected async readDeviceState(device: ModbusDevice): Promise<Record<string, any>> {
+    try {
+      const blocks = [];
+      for (const block of device.blocks) {
+        const data = await this.readWords(device.endpoint, device.unitId, block.table, block.start, block.count);
+        blocks.push({ ...block, data });
+      }
+
+      const values = decodeBlocks(device.map.registers, blocks);
+
+      device.online = true;
+      device.consecutiveErrors = 0;
+      device.lastReadAt = new Date();
+
+      return this.buildState(device, values);
+
+    } catch (error) {
+      device.consecutiveErrors++;
+      throw error;
+    }
+  }
+
+  /**
+   * Turn decoded register values into the device state object
+   */
+  protected buildState(device: ModbusDevice, values: Record<string, RegisterValue>): Record<string, any> {
+    const state: Record<string, any> = {};
+
+    for (const [name, value] of Object.entries(values)) {
+      // Scale factor registers are an encoding detail, not state
+      const isScaleFactor = Object.values(device.map.registers).some(def => def.scaleFactorRegister === name);
+      if (!isScaleFactor && value !== null) {
+        state[name] = value;
+      }
+    }
+
+    return device.map.deriveState ? { ...state, ...device.map.deriveState(values) } : state;
+  }
+
+  /**
+   * Merge device-level connection options with the adapter-level defaults
+   */
+  protected resolveConnection(overrides?: ModbusConnectionOptions): ModbusConnectionOptions {
+    const options = this.getModbusConfig().options;
+    const merged: ModbusConnectionOptions = {
+      transport: options.transport || 'tcp',
+      host: options.host,
+      port: options.port || 502,
+      serialPort: options.serialPort,
+      baudRate: options.baudRate || 9600,
+      parity: options.parity || 'none',
+      dataBits: options.dataBits || 8,
+      stopBits: options.stopBits || 1,
+      ...overrides
+    };
+    return merged;
+  }
+
+  /**
+   * Get or create the endpoint for a connection
+   */
+  protected getEndpoint(connection: ModbusConnectionOptions): ModbusEndpoint {
+    const key = connection.transport === 'rtu'
+      ? `rtu://${connection.serialPort}`
+      : `tcp://${connection.host}:${connection.port}`;
+
+    let endpoint = this.endpoints.get(key);
+    if (!endpoint) {
+      endpoint = { key, options: connection, connected: false, queue: Promise.resolve() };
+      this.endpoints.set(key, endpoint);
+    }
+    return endpoint;
+  }
+
+  /**
+   * Build the canonical device ID ("IP:port:unitId" for TCP, "unitId" for RTU)
+   */
+  protected buildDeviceId(connection: ModbusConnectionOptions, unitId: number): string {
+    return connection.transport === 'rtu'
+      ? String(unitId)
+      : `${connection.host}:${connection.port}:${unitId}`;
+  }
+
+  // Private helper methods
+
+  /**
+   * Open the transport of an endpoint
+   */
+  private async connectEndpoint(endpoint: ModbusEndpoint): Promise<void> {
+    const config = this.getModbusConfig();
+    const { default: ModbusClient } = await import('modbus-serial');
+    const client = new ModbusClient();
+    const options = endpoint.options;
+
+    this.connectionStatus.connectionAttempts++;
+
+    try {
+      if (options.transport === 'rtu') {
+        if (!options.serialPort) {
+          throw new Error('Modbus RTU requires a serialPort');
+        }
+        await client.connectRTUBuffered(options.serialPort, {
+          baudRate: options.baudRate ?? 9600,
+          parity: options.parity ?? 'none',
+          dataBits: options.dataBits ?? 8,
+          stopBits: options.stopBits ?? 1
+        });
+      } else {
+        if (!options.host) {
+          throw new Error('Modbus TCP requires a host');
+        }
+        await client.connectTCP(options.host, {
+          port: options.port,
+          timeout: this.config.connectionTimeout
+        } as any);
+      }
+    } catch (error) {
+      endpoint.lastError = error instanceof Error ? error.message : String(error);
+      this.scheduleReconnect(endpoint);
+      throw error;
+    }
+
+    client.setTimeout(config.options.timeout || this.config.commandTimeout);
+    client.on('close', () => this.handleEndpointClosed(endpoint, client));
+    client.on('error', error => {
+      endpoint.lastError = error instanceof Error ? error.message : String(error);
+    });
+
+    endpoint.client = client;
+    endpoint.connected = true;
+    endpoint.lastError = undefined;
+
+    this.log('debug', `Connected to Modbus endpoint ${endpoint.key}`);
+  }
+
+  /**
+   * React to a closed transport
+   */
+  private handleEndpointClosed(endpoint: ModbusEndpoint, client: ModbusRTU): void {
+    // Ignore stale clients replaced by a reconnect
+    if (endpoint.client !== client) {
+      return;
+    }
+
+    endpoint.client = undefined;
+    endpoint.connected = false;
+    this.log('warn', `Modbus endpoint ${endpoint.key} closed`);
+
+    if (this.isInitialized) {
+      this.scheduleReconnect(endpoint);
+    }
+  }
+
+  /**
+   * Retry a failed endpoint after the reconnect interval
+   */
+  private scheduleReconnect(endpoint: ModbusEndpoint): void {
+    if (endpoint.reconnectTimer) {
+      return;
+    }
+
+    const interval = this.getModbusConfig().options.reconnectInterval || 5000;
+    endpoint.reconnectTimer = setTimeout(async () => {
+      endpoint.reconnectTimer = undefined;
+      if (!this.isInitialized || endpoint.connected) {
+        return;
+      }
+      try {
+        await this.connectEndpoint(endpoint);
+        this.log('info', `Reconnected to Modbus endpoint ${endpoint.key}`);
+      } catch {
+        // connectEndpoint schedules the next attempt
+      }
+    }, interval);
+  }
+
+  /**
+   * Close every endpoint and cancel pending reconnects
+   */
+  private async closeEndpoints(): Promise<void> {
+    const closing = Array.from(this.endpoints.values()).map(async endpoint => {
+      if (endpoint.reconnectTimer) {
+        clearTimeout(endpoint.reconnectTimer);
+        endpoint.reconnectTimer = undefined;
+      }
+
+      // Let the in-flight transaction finish so its timeout timer is released
+      await endpoint.queue;
+
+      const client = endpoint.client;
+      endpoint.client = undefined;
+      endpoint.connected = false;
+
+      if (client) {
+        await new Promise<void>(resolve => client.close(() => resolve()));
+      }
+    });
+
+    await Promise.allSettled(closing);
+  }
+
+  /**
+   * Run a request on an endpoint, one at a time
+   */
+  private transaction<T>(
+    endpoint: ModbusEndpoint,
+    unitId: number,
+    operation: (client: ModbusRTU) => Promise<T>
+  ): Promise<T> {
+    const run = async (): Promise<T> => {
+      const client = endpoint.client;
+      if (!client || !endpoint.connected) {
+        throw new Error(`Modbus endpoint ${endpoint.key} is not connected`);
+      }
+
+      client.setID(unitId);
+      try {
+        return await operation(client);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const code = (error as NodeJS.ErrnoException)?.code || (error as any)?.errno;
+        if (CONNECTION_ERRORS.some(marker => message.includes(marker) || code === marker)) {
+          endpoint.lastError = message;
+          this.handleEndpointClosed(endpoint, client);
+        }
+        throw error;
+      }
+    };
+
+    const result = endpoint.queue.then(run, run);
+    // Keep the chain alive regardless of this transaction's outcome
+    endpoint.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Check whether a device answers a read of its first register block
+   */
+  protected async probeDevice(device: ModbusDevice): Promise<boolean> {
+    const block = device.blocks[0];
+    if (!block || !device.endpoint.connected) {
+      return false;
+    }
+
+    try {
+      await this.readWords(device.endpoint, device.unitId, block.table, block.start, block.count);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a command to the register it writes and the engineering value
+   */
+  private resolveWrite(
+    device: ModbusDevice,
+    command: DeviceCommand
+  ): { name: string; definition: RegisterDefinition; value: number | string } {
+    const parameters = command.parameters || {};
+    let name: string;
+    let value: number | string;
+
+    if (command.command === 'write_register') {
+      name = parameters.register;
+      value = parameters.value;
+    } else {
+      const mapped = device.map.commands?.[command.command];
+      if (!mapped) {
+        throw new Error(`Unsupported command for ${device.map.name}: ${command.command}`);
+      }
+      name = mapped.register;
+      value = mapped.value !== undefined ? mapped.value : parameters[mapped.parameter || 'value'];
+    }
+
+    const definition = device.map.registers[name];
+    if (!definition) {
+      throw new Error(`Register ${name} not defined in map ${device.map.name}`);
+    }
+    if (!definition.writable) {
+      throw new Error(`Register ${name} is read-only`);
+    }
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing value for register ${name}`);
+    }
+    if (definition.range && typeof value === 'number') {
+      if (value < definition.range.min || value > definition.range.max) {
+        throw new Error(
+          `Value ${value} for ${name} outside range ${definition.range.min}..${definition.range.max}`
+        );
+      }
+    }
+
+    return { name, definition, value };
+  }
+
+  /**
+   * Read the scale factor exponent a writable register depends on
+   */
+  private async readScaleExponent(device: ModbusDevice, definition: RegisterDefinition): Promise<number | undefined> {
+    if (!definition.scaleFactorRegister) {
+      return undefined;
+    }
+
+    const sfDefinition = device.map.registers[definition.scaleFactorRegister];
+    if (!sfDefinition) {
+      throw new Error(`Scale factor register ${definition.scaleFactorRegister} missing from map ${device.map.name}`);
+    }
+    const words = await this.readWords(
+      device.endpoint,
+      device.unitId,
+      sfDefinition.table || 'holding',
+      sfDefinition.address,
+      registerCount(sfDefinition)
+    );
+    const exponent = decodeRaw(sfDefinition, words) as number;
+    if (exponent === -0x8000) {
+      throw new Error(`Scale factor ${definition.scaleFactorRegister} not implemented by device`);
+    }
+    return exponent;
+  }
+
+  /**
+   * Start polling configured devices
+   */
+  private startPolling(): void {
+    const interval = this.getModbusConfig().options.pollingInterval ?? 10000;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.pollingInterval = setInterval(async () => {
+      await this.pollDeviceUpdates();
+    }, interval);
+
+    this.log('debug', `Started polling with interval ${interval}ms`);
+  }
+
+  /**
+   * Poll every device and emit updates for changed state
+   */
+  private async pollDeviceUpdates(): Promise<void> {
+    for (const device of this.devices.values()) {
+      const wasOnline = device.online;
+
+      try {
+        const state = await this.readDeviceState(device);
+        const changed = !wasOnline || JSON.stringify(state) !== JSON.stringify(device.lastValues);
+        device.lastValues = state;
+
+        if (changed) {
+          this.emitDeviceUpdate({
+            deviceId: device.deviceId,
+            status: 'online',
+            state,
+            timestamp: new Date(),
+            source: 'polling'
+          });
+        }
+
+      } catch (error) {
+        device.online = false;
+        if (wasOnline) {
+          this.emitDeviceUpdate({
+            deviceId: device.deviceId,
+            status: 'offline',
+            state: device.lastValues || {},
+            timestamp: new Date(),
+            source: 'polling'
+          });
+        }
+        this.log('warn', `Polling failed for device ${device.deviceId}`, error);
+      }
+    }
+
+    this.lastPollTime = Date.now();
+  }
+
+  /**
+   * Map a device to DeviceDiscovery
+   */
+  protected mapDeviceToDiscovery(device: ModbusDevice, confidence: number): DeviceDiscovery {
+    const connection = device.endpoint.options;
+
+    return {
+      protocol: this.config.protocol,
+      deviceId: device.deviceId,
+      deviceType: device.map.deviceType,
+      name: device.name,
+      specifications: device.specifications || {
+        manufacturer: device.map.manufacturer || 'Unknown',
+        model: device.map.model || device.map.name
+      },
+      capabilities: this.mapRegisterMapToCapabilities(device.map),
+      networkInfo: {
+        ipAddress: connection.transport === 'rtu' ? undefined : connection.host,
+        networkId: device.endpoint.key
+      },
+      discoveredAt: new Date(),
+      confidence
+    };
+  }
+
+  /**
+   * Derive device capabilities from a register map
+   */
+  protected mapRegisterMapToCapabilities(map: ModbusRegisterMap): DeviceCapability[] {
+    const readable = Object.entries(map.registers).filter(([, def]) => !def.writable);
+    const capabilities: DeviceCapability[] = [];
+
+    const measurementType = map.deviceType === 'battery_pack' ? 'energy_storage' : 'energy_meter';
+    capabilities.push({
+      type: measurementType,
+      properties: {
+        writable: false,
+        values: Object.fromEntries(readable.map(([name, def]) => [name, { unit: def.unit }]))
+      },
+      commands: ['read_registers'],
+      readOnly: true
+    });
+
+    for (const [commandName, mapped] of Object.entries(map.commands || {})) {
+      const definition = map.registers[mapped.register];
+      if (!definition) continue;
+
+      capabilities.push({
+        type: commandName === 'turn_on' || commandName === 'turn_off' ? 'switch' : 'power_control',
+        properties: {
+          writable: true,
+          register: mapped.register,
+          parameter: mapped.parameter,
+          unit: definition.unit
+        },
+        commands: [commandName],
+        readOnly: false,
+        range: definition.range
+      });
+    }
+
+    return capabilities;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { ModbusConfig } from './adapter';
+
+/**
+ * Connection settings shared by the Modbus and SunSpec plugins
+ */
+export const ModbusConnectionSchema = z.object({
+  transport: z.enum(['tcp', 'rtu']).optional(),
+  host: z.string().optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  serialPort: z.string().optional(),
+  baudRate: z.number().int().positive().optional(),
+  parity: z.enum(['none', 'even', 'odd']).optional(),
+  dataBits: z.number().int().optional(),
+  stopBits: z.number().int().optional(),
+  unitId: z.number().int().min(0).max(255).optional(),
+  timeout: z.number().int().positive().optional(),
+  pollingInterval: z.number().int().nonnegative().optional(),
+  reconnectInterval: z.number().int().nonnegative().optional(),
+  maxRegisterGap: z.number().int().nonnegative().optional()
+});
+
+/**
+ * Modbus TCP/RTU adapter plugin
+ */
+export const modbusPlugin = defineAdapterPlugin<ModbusConfig>({
+  protocol: 'modbus',
+  name: '@maestro/protocol-adapters/modbus',
+  description: 'Modbus TCP/RTU devices described by register maps',
+  configSchema: ModbusConnectionSchema.extend({
+    devices: z.array(z.object({
+      deviceId: z.string().optional(),
+      unitId: z.number().int().min(0).max(255),
+      registerMap: z.union([z.string(), z.record(z.any())])
+    }).passthrough()).optional(),
+    registerMaps: z.record(z.record(z.any())).optional()
+  }).passthrough(),
+  deviceTypes: ['solar_inverter', 'battery_pack', 'energy_meter', 'heat_pump', 'ev_charger'],
+  capabilities: ['energy_meter', 'power_control', 'energy_storage', 'grid_interaction', 'switch'],
+  create: async config => {
+    const { ModbusAdapter } = await import('./adapter');
+    return new ModbusAdapter(config);
+  }
+});
@@ -0,0 +1,475 @@
+import { DeviceType } from '@maestro/shared/types';
+
+/**
+ * Modbus Register Maps
+ *
+ * Declarative description of how a device exposes its values over Modbus.
+ * A register map names each value, tells where it lives (table + address)
+ * and how the raw 16-bit words decode into an engineering value.
+ *
+ * Supported encodings:
+ * - 16/32/64-bit integers, signed and unsigned
+ * - IEEE 754 float32
+ * - ASCII strings spread over several registers
+ * - Word order (high word first or low word first) for multi-register values
+ * - Linear scaling (fixed multiplier or power-of-10 scale factor register)
+ */
+
+export type ModbusRegisterTable = 'holding' | 'input';
+
+export type ModbusDataType =
+  | 'uint16'
+  | 'int16'
+  | 'uint32'
+  | 'int32'
+  | 'uint64'
+  | 'int64'
+  | 'float32'
+  | 'string';
+
+/**
+ * 'big' = most significant word first (ABCD), 'little' = least significant word first (CDAB)
+ */
+export type ModbusWordOrder = 'big' | 'little';
+
+export type RegisterValue = number | string | null;
+
+export interface RegisterDefinition {
+  address: number; // zero-based protocol address
+  table?: ModbusRegisterTable | undefined; // default: holding
+  dataType: ModbusDataType;
+  wordOrder?: ModbusWordOrder | undefined; // default: big
+  length?: number | undefined; // registers, required for strings
+  scale?: number | undefined; // multiplier applied to the raw value, e.g. 0.1
+  scaleFactorRegister?: string | undefined; // name of an int16 register holding a power-of-10 exponent
+  offset?: number | undefined; // added after scaling
+  unit?: string | undefined;
+  writable?: boolean | undefined;
+  range?: { min: number; max: number; step?: number } | undefined; // accepted engineering values for writes
+  notImplemented?: number | undefined; // raw value the device uses for "not available"
+  enumValues?: Record<number, string> | undefined; // map raw codes to labels
+}
+
+export interface RegisterCommand {
+  register: string; // register name in the map
+  parameter?: string; // command parameter carrying the value
+  value?: number; // fixed value (e.g. turn_on → 1)
+}
+
+export interface ModbusRegisterMap {
+  name: string;
+  deviceType: DeviceType;
+  manufacturer?: string | undefined;
+  model?: string | undefined;
+  registers: Record<string, RegisterDefinition>;
+  commands?: Record<string, RegisterCommand> | undefined;
+  deriveState?: (values: Record<string, RegisterValue>) => Record<string, any>;
+}
+
+export interface RegisterReadBlock {
+  table: ModbusRegisterTable;
+  start: number;
+  count: number;
+  names: string[];
+}
+
+// Modbus PDU limit for function codes 3/4
+export const MAX_REGISTERS_PER_READ = 125;
+
+/**
+ * Number of 16-bit registers occupied by a definition
+ */
+export function registerCount(definition: RegisterDefinition): number {
+  switch (definition.dataType) {
+    case 'uint16':
+    case 'int16':
+      return 1;
+    case 'uint32':
+    case 'int32':
+    case 'float32':
+      return 2;
+    case 'uint64':
+    case 'int64':
+      return 4;
+    case 'string':
+      if (!definition.length || definition.length < 1) {
+        throw new Error('String registers require a length');
+      }
+      return definition.length;
+  }
+}
+
+/**
+ * Convert register words to a big-endian byte buffer honouring word order
+ */
+function wordsToBuffer(words: number[], wordOrder: ModbusWordOrder): Buffer {
+  const ordered = wordOrder === 'little' ? [...words].reverse() : words;
+  const buffer = Buffer.alloc(ordered.length * 2);
+  ordered.forEach((word, index) => buffer.writeUInt16BE(word & 0xffff, index * 2));
+  return buffer;
+}
+
+/**
+ * Convert a big-endian byte buffer to register words honouring word order
+ */
+function bufferToWords(buffer: Buffer, wordOrder: ModbusWordOrder): number[] {
+  const words: number[] = [];
+  for (let i = 0; i < buffer.length; i += 2) {
+    words.push(buffer.readUInt16BE(i));
+  }
+  return wordOrder === 'little' ? words.reverse() : words;
+}
+
+/**
+ * Decode raw register words into an unscaled value
+ */
+export function decodeRaw(definition: RegisterDefinition, words: number[]): RegisterValue {
+  const count = registerCount(definition);
+  if (words.length < count) {
+    throw new Error(`Expected ${count} registers, got ${words.length}`);
+  }
+
+  const wordOrder = definition.wordOrder || 'big';
+  // Strings are always byte-sequential; word order only applies to numbers
+  const buffer = wordsToBuffer(words.slice(0, count), definition.dataType === 'string' ? 'big' : wordOrder);
+
+  switch (definition.dataType) {
+    case 'uint16':
+      return buffer.readUInt16BE(0);
+    case 'int16':
+      return buffer.readInt16BE(0);
+    case 'uint32':
+      return buffer.readUInt32BE(0);
+    case 'int32':
+      return buffer.readInt32BE(0);
+    case 'uint64':
+      return Number(buffer.readBigUInt64BE(0));
+    case 'int64':
+      return Number(buffer.readBigInt64BE(0));
+    case 'float32':
+      return buffer.readFloatBE(0);
+    case 'string':
+      return buffer.toString('ascii').replace(/\0+$/, '').trim();
+  }
+}
+
+/**
+ * Encode an unscaled value into raw register words
+ */
+export function encodeRaw(definition: RegisterDefinition, value: number | string): number[] {
+  const count = registerCount(definition);
+  const buffer = Buffer.alloc(count * 2);
+
+  if (definition.dataType === 'string') {
+    buffer.write(String(value).slice(0, count * 2), 'ascii');
+    return bufferToWords(buffer, 'big');
+  }
+
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    throw new Error(`Cannot encode non-numeric value ${value} as ${definition.dataType}`);
+  }
+
+  const integer = Math.round(numeric);
+  switch (definition.dataType) {
+    case 'uint16':
+      assertRange(integer, 0, 0xffff, definition.dataType);
+      buffer.writeUInt16BE(integer, 0);
+      break;
+    case 'int16':
+      assertRange(integer, -0x8000, 0x7fff, definition.dataType);
+      buffer.writeInt16BE(integer, 0);
+      break;
+    case 'uint32':
+      assertRange(integer, 0, 0xffffffff, definition.dataType);
+      buffer.writeUInt32BE(integer, 0);
+      break;
+    case 'int32':
+      assertRange(integer, -0x80000000, 0x7fffffff, definition.dataType);
+      buffer.writeInt32BE(integer, 0);
+      break;
+    case 'uint64':
+      assertRange(integer, 0, Number.MAX_SAFE_INTEGER, definition.dataType);
+      buffer.writeBigUInt64BE(BigInt(integer), 0);
+      break;
+    case 'int64':
+      assertRange(integer, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, definition.dataType);
+      buffer.writeBigInt64BE(BigInt(integer), 0);
+      break;
+    case 'float32':
+      buffer.writeFloatBE(numeric, 0);
+      break;
+  }
+
+  return bufferToWords(buffer, definition.wordOrder || 'big');
+}
+
+function assertRange(value: number, min: number, max: number, dataType: ModbusDataType): void {
+  if (value < min || value > max) {
+    throw new Error(`Value ${value} out of range for ${dataType} (${min}..${max})`);
+  }
+}
+
+/**
+ * Effective multiplier of a definition, combining the fixed scale and an optional
+ * power-of-10 scale factor read from another register
+ */
+export function effectiveScale(definition: RegisterDefinition, scaleExponent?: number | null): number {
+  let scale = definition.scale ?? 1;
+  if (definition.scaleFactorRegister && typeof scaleExponent === 'number') {
+    scale *= Math.pow(10, scaleExponent);
+  }
+  return scale;
+}
+
+/**
+ * Decode register words into an engineering value
+ */
+export function decodeRegister(
+  definition: RegisterDefinition,
+  words: number[],
+  scaleExponent?: number | null
+): RegisterValue {
+  const raw = decodeRaw(definition, words);
+
+  if (raw === null || typeof raw === 'string') {
+    return raw;
+  }
+  if (definition.notImplemented !== undefined && raw === definition.notImplemented) {
+    return null;
+  }
+  if (definition.enumValues) {
+    return definition.enumValues[raw] ?? raw;
+  }
+
+  const scaled = raw * effectiveScale(definition, scaleExponent) + (definition.offset ?? 0);
+  // Avoid binary floating point noise such as 229.70000000000002
+  return definition.dataType === 'float32' ? scaled : Number(scaled.toPrecision(12));
+}
+
+/**
+ * Encode an engineering value into register words
+ */
+export function encodeRegister(
+  definition: RegisterDefinition,
+  value: number | string,
+  scaleExponent?: number | null
+): number[] {
+  if (typeof value === 'string' && definition.enumValues) {
+    const entry = Object.entries(definition.enumValues).find(([, label]) => label === value);
+    if (!entry) {
+      throw new Error(`Unknown value "${value}" for enumerated register`);
+    }
+    return encodeRaw(definition, Number(entry[0]));
+  }
+
+  if (definition.dataType === 'string') {
+    return encodeRaw(definition, value);
+  }
+
+  const scale = effectiveScale(definition, scaleExponent);
+  const raw = (Number(value) - (definition.offset ?? 0)) / scale;
+  return encodeRaw(definition, raw);
+}
+
+/**
+ * Group register definitions into as few read requests as possible.
+ * Registers in the same table are merged when the gap between them is at most `maxGap`.
+ */
+export function planReads(
+  registers: Record<string, RegisterDefinition>,
+  maxGap: number = 0,
+  maxBlockSize: number = MAX_REGISTERS_PER_READ
+): RegisterReadBlock[] {
+  const blocks: RegisterReadBlock[] = [];
+  const byTable = new Map<ModbusRegisterTable, Array<[string, RegisterDefinition]>>();
+
+  for (const entry of Object.entries(registers)) {
+    const table = entry[1].table || 'holding';
+    if (!byTable.has(table)) {
+      byTable.set(table, []);
+    }
+    byTable.get(table)!.push(entry);
+  }
+
+  for (const [table, entries] of byTable.entries()) {
+    entries.sort((a, b) => a[1].address - b[1].address);
+
+    let current: RegisterReadBlock | undefined;
+    for (const [name, definition] of entries) {
+      const count = registerCount(definition);
+      const end = definition.address + count;
+
+      if (
+        current &&
+        definition.address <= current.start + current.count + maxGap &&
+        Math.max(end, current.start + current.count) - current.start <= maxBlockSize
+      ) {
+        current.count = Math.max(end, current.start + current.count) - current.start;
+        current.names.push(name);
+        continue;
+      }
+
+      current = { table, start: definition.address, count, names: [name] };
+      blocks.push(current);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Decode all values of a register map from block read results
+ */
+export function decodeBlocks(
+  registers: Record<string, RegisterDefinition>,
+  blocks: Array<RegisterReadBlock & { data: number[] }>
+): Record<string, RegisterValue> {
+  const words = new Map<string, number[]>();
+
+  for (const block of blocks) {
+    for (const name of block.names) {
+      const definition = registers[name]!;
+      const start = definition.address - block.start;
+      words.set(name, block.data.slice(start, start + registerCount(definition)));
+    }
+  }
+
+  // Scale factor registers are decoded first so dependent values can use them
+  const exponents: Record<string, number | null> = {};
+  for (const definition of Object.values(registers)) {
+    const sfName = definition.scaleFactorRegister;
+    if (sfName && !(sfName in exponents)) {
+      const sfWords = words.get(sfName);
+      const sfDefinition = registers[sfName];
+      exponents[sfName] = sfWords && sfDefinition ? (decodeRaw(sfDefinition, sfWords) as number) : null;
+      // SunSpec marks an unimplemented scale factor with 0x8000
+      if (exponents[sfName] === -0x8000) {
+        exponents[sfName] = null;
+      }
+    }
+  }
+
+  const values: Record<string, RegisterValue> = {};
+  for (const [name, definition] of Object.entries(registers)) {
+    const registerWords = words.get(name);
+    if (!registerWords) {
+      continue;
+    }
+    const exponent = definition.scaleFactorRegister ? exponents[definition.scaleFactorRegister] : undefined;
+    if (definition.scaleFactorRegister && exponent === null) {
+      values[name] = null;
+      continue;
+    }
+    values[name] = decodeRegister(definition, registerWords, exponent);
+  }
+
+  return values;
+}
+
+// Built-in register maps
+
+/**
+ * Generic hybrid inverter layout (holding registers). Real devices usually need a
+ * vendor-specific map supplied through the adapter options.
+ */
+const GENERIC_INVERTER_MAP: ModbusRegisterMap = {
+  name: 'generic_inverter',
+  deviceType: 'solar_inverter',
+  manufacturer: 'Generic',
+  model: 'Modbus Inverter',
+  registers: {
+    status: {
+      address: 0,
+      dataType: 'uint16',
+      enumValues: { 0: 'standby', 1: 'generating', 2: 'fault', 3: 'maintenance' }
+    },
+    powerOutput: { address: 1, dataType: 'int32', unit: 'W' },
+    dailyGeneration: { address: 3, dataType: 'uint32', scale: 0.01, unit: 'kWh' },
+    totalGeneration: { address: 5, dataType: 'uint32', scale: 0.1, unit: 'kWh' },
+    efficiency: { address: 7, dataType: 'uint16', scale: 0.001 },
+    gridFrequency: { address: 8, dataType: 'uint16', scale: 0.01, unit: 'Hz' },
+    gridVoltage: { address: 9, dataType: 'uint16', scale: 0.1, unit: 'V' },
+    temperature: { address: 10, dataType: 'int16', scale: 0.1, unit: '°C' },
+    powerLimit: {
+      address: 20,
+      dataType: 'uint16',
+      unit: '%',
+      writable: true,
+      range: { min: 0, max: 100, step: 1 }
+    }
+  },
+  commands: {
+    set_power_limit: { register: 'powerLimit', parameter: 'percent' }
+  }
+};
+
+/**
+ * Generic battery storage layout (holding registers)
+ */
+const GENERIC_BATTERY_MAP: ModbusRegisterMap = {
+  name: 'generic_battery',
+  deviceType: 'battery_pack',
+  manufacturer: 'Generic',
+  model: 'Modbus Battery',
+  registers: {
+    chargeLevel: { address: 0, dataType: 'uint16', scale: 0.1, unit: '%' },
+    chargingPower: { address: 1, dataType: 'int32', unit: 'W' },
+    voltage: { address: 3, dataType: 'uint16', scale: 0.1, unit: 'V' },
+    current: { address: 4, dataType: 'int16', scale: 0.1, unit: 'A' },
+    temperature: { address: 5, dataType: 'int16', scale: 0.1, unit: '°C' },
+    cycleCount: { address: 6, dataType: 'uint16' },
+    health: { address: 7, dataType: 'uint16', scale: 0.1, unit: '%' },
+    chargePowerLimit: {
+      address: 20,
+      dataType: 'uint16',
+      unit: 'W',
+      writable: true,
+      range: { min: 0, max: 10000 }
+    },
+    dischargePowerLimit: {
+      address: 21,
+      dataType: 'uint16',
+      unit: 'W',
+      writable: true,
+      range: { min: 0, max: 10000 }
+    }
+  },
+  commands: {
+    set_charge_limit: { register: 'chargePowerLimit', parameter: 'power' },
+    set_discharge_limit: { register: 'dischargePowerLimit', parameter: 'power' }
+  },
+  deriveState: values => {
+    const power = typeof values.chargingPower === 'number' ? values.chargingPower : 0;
+    return { mode: power > 0 ? 'charging' : power < 0 ? 'discharging' : 'idle' };
+  }
+};
+
+/**
+ * Eastron SDM630 three-phase meter (input registers, float32)
+ */
+const SDM630_MAP: ModbusRegisterMap = {
+  name: 'eastron_sdm630',
+  deviceType: 'energy_meter',
+  manufacturer: 'Eastron',
+  model: 'SDM630',
+  registers: {
+    voltageL1: { address: 0x0000, table: 'input', dataType: 'float32', unit: 'V' },
+    voltageL2: { address: 0x0002, table: 'input', dataType: 'float32', unit: 'V' },
+    voltageL3: { address: 0x0004, table: 'input', dataType: 'float32', unit: 'V' },
+    currentL1: { address: 0x0006, table: 'input', dataType: 'float32', unit: 'A' },
+    currentL2: { address: 0x0008, table: 'input', dataType: 'float32', unit: 'A' },
+    currentL3: { address: 0x000a, table: 'input', dataType: 'float32', unit: 'A' },
+    power: { address: 0x0034, table: 'input', dataType: 'float32', unit: 'W' },
+    frequency: { address: 0x0046, table: 'input', dataType: 'float32', unit: 'Hz' },
+    importEnergy: { address: 0x0048, table: 'input', dataType: 'float32', unit: 'kWh' },
+    exportEnergy: { address: 0x004a, table: 'input', dataType: 'float32', unit: 'kWh' },
+    totalEnergy: { address: 0x0156, table: 'input', dataType: 'float32', unit: 'kWh' }
+  }
+};
+
+export const REGISTER_MAPS: Record<string, ModbusRegisterMap> = {
+  [GENERIC_INVERTER_MAP.name]: GENERIC_INVERTER_MAP,
+  [GENERIC_BATTERY_MAP.name]: GENERIC_BATTERY_MAP,
+  [SDM630_MAP.name]: SDM630_MAP
+};
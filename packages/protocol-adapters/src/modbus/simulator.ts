@@ -0,0 +1,150 @@
+import type { ServerTCP } from 'modbus-serial';
+import {
+  ModbusRegisterMap,
+  ModbusRegisterTable,
+  RegisterDefinition,
+  encodeRegister
+} from './registers';
+
+/**
+ * In-process Modbus TCP slave
+ *
+ * Serves holding and input registers from memory so the ModbusAdapter (and
+ * adapters built on top of it) can be exercised without real hardware.
+ * Every unit ID gets its own register space; unset registers read as 0.
+ */
+
+export interface ModbusSimulatorOptions {
+  host?: string; // default: 127.0.0.1
+  port?: number; // default: 5020
+}
+
+type RegisterSpace = Record<ModbusRegisterTable, Map<number, number>>;
+
+export class ModbusSlaveSimulator {
+  private server?: ServerTCP;
+  private units: Map<number, RegisterSpace> = new Map();
+  private writes: Array<{ unitId: number; address: number; value: number }> = [];
+  readonly host: string;
+  readonly port: number;
+
+  constructor(options: ModbusSimulatorOptions = {}) {
+    this.host = options.host || '127.0.0.1';
+    this.port = options.port || 5020;
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    const { ServerTCP } = await import('modbus-serial');
+
+    await new Promise<void>((resolve, reject) => {
+      const server = new ServerTCP(
+        {
+          getMultipleHoldingRegisters: (addr: number, length: number, unitId: number) =>
+            this.readRange(unitId, 'holding', addr, length),
+          getMultipleInputRegisters: (addr: number, length: number, unitId: number) =>
+            this.readRange(unitId, 'input', addr, length),
+          getHoldingRegister: (addr: number, unitId: number) => this.readRange(unitId, 'holding', addr, 1)[0],
+          getInputRegister: (addr: number, unitId: number) => this.readRange(unitId, 'input', addr, 1)[0],
+          setRegister: (addr: number, value: number, unitId: number) => {
+            this.getSpace(unitId).holding.set(addr, value & 0xffff);
+            this.writes.push({ unitId, address: addr, value: value & 0xffff });
+          }
+        },
+        { host: this.host, port: this.port }
+      );
+
+      server.on('initialized', () => resolve());
+      server.on('serverError', (error: Error | null) => reject(error));
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop listening and drop open client sockets
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    for (const socket of server.socks.keys()) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Set raw register words starting at an address
+   */
+  setRegisters(unitId: number, table: ModbusRegisterTable, address: number, words: number[]): void {
+    const space = this.getSpace(unitId)[table];
+    words.forEach((word, index) => space.set(address + index, word & 0xffff));
+  }
+
+  /**
+   * Read raw register words
+   */
+  getRegisters(unitId: number, table: ModbusRegisterTable, address: number, count: number): number[] {
+    return this.readRange(unitId, table, address, count);
+  }
+
+  /**
+   * Encode and store an engineering value for a register definition
+   */
+  setValue(
+    unitId: number,
+    definition: RegisterDefinition,
+    value: number | string,
+    scaleExponent?: number
+  ): void {
+    this.setRegisters(
+      unitId,
+      definition.table || 'holding',
+      definition.address,
+      encodeRegister(definition, value, scaleExponent)
+    );
+  }
+
+  /**
+   * Store several values of a register map at once
+   */
+  setValues(unitId: number, map: ModbusRegisterMap, values: Record<string, number | string>): void {
+    for (const [name, value] of Object.entries(values)) {
+      const definition = map.registers[name];
+      if (!definition) {
+        throw new Error(`Register ${name} not defined in map ${map.name}`);
+      }
+      this.setValue(unitId, definition, value);
+    }
+  }
+
+  /**
+   * Register writes received from clients, oldest first
+   */
+  getWrites(): Array<{ unitId: number; address: number; value: number }> {
+    return [...this.writes];
+  }
+
+  private readRange(unitId: number, table: ModbusRegisterTable, address: number, count: number): number[] {
+    const space = this.getSpace(unitId)[table];
+    const words: number[] = [];
+    for (let i = 0; i < count; i++) {
+      words.push(space.get(address + i) ?? 0);
+    }
+    return words;
+  }
+
+  private getSpace(unitId: number): RegisterSpace {
+    let space = this.units.get(unitId);
+    if (!space) {
+      space = { holding: new Map(), input: new Map() };
+      this.units.set(unitId, space);
+    }
+    return space;
+  }
+}
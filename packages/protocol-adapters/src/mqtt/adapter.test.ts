@@ -0,0 +1,257 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server, AddressInfo } from 'net';
+import { createBroker } from 'aedes';
+import type Aedes from 'aedes';
+import type { DeviceStatusUpdate, DeviceDiscovery } from '@maestro/shared/types';
+
+import { MQTTAdapter, MQTTConfig } from './adapter';
+
+/**
+ * MQTT Adapter Tests
+ *
+ * Runs against an embedded aedes broker; the test publishes device messages
+ * through the broker and observes what the adapter publishes back.
+ */
+
+function waitFor<T>(emitter: { once: (event: string, listener: (value: T) => void) => unknown }, event: string): Promise<T> {
+  return new Promise(resolve => emitter.once(event, resolve));
+}
+
+function waitForUpdate(adapter: MQTTAdapter, predicate: (update: DeviceStatusUpdate) => boolean): Promise<DeviceStatusUpdate> {
+  return new Promise(resolve => {
+    const listener = (update: DeviceStatusUpdate) => {
+      if (predicate(update)) {
+        adapter.removeListener('deviceUpdate', listener);
+        resolve(update);
+      }
+    };
+    adapter.on('deviceUpdate', listener);
+  });
+}
+
+function publish(broker: Aedes, topic: string, payload: unknown, retain = false): Promise<void> {
+  return new Promise((resolve, reject) => {
+    broker.publish(
+      {
+        cmd: 'publish',
+        topic,
+        payload: Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)),
+        qos: 0,
+        retain,
+        dup: false
+      },
+      error => (error ? reject(error) : resolve())
+    );
+  });
+}
+
+function nextPublished(broker: Aedes, topic: string): Promise<string> {
+  return new Promise(resolve => {
+    const listener = (packet: { topic: string; payload: Buffer | string }) => {
+      if (packet.topic === topic) {
+        broker.removeListener('publish', listener);
+        resolve(packet.payload.toString());
+      }
+    };
+    broker.on('publish', listener);
+  });
+}
+
+describe('MQTTAdapter', () => {
+  let broker: Aedes;
+  let server: Server;
+  let adapter: MQTTAdapter;
+
+  beforeAll(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // Retained discovery config published before the adapter connects
+    await publish(broker, 'homeassistant/switch/shelly1pm_a1/relay_0/config', {
+      '~': 'shellies/shelly1pm-a1/relay/0',
+      name: 'Washer',
+      stat_t: '~',
+      cmd_t: '~/command',
+      pl_on: 'on',
+      pl_off: 'off',
+      avty_t: 'shellies/shelly1pm-a1/online',
+      pl_avail: 'true',
+      pl_not_avail: 'false',
+      dev: { ids: ['shelly1pm-a1'], name: 'Washer plug', mf: 'Allterco', mdl: 'SHSW-PM', sw: '1.14.0' }
+    }, true);
+    await publish(broker, 'homeassistant/sensor/shelly1pm_a1/power/config', {
+      name: 'Washer power',
+      stat_t: 'shellies/shelly1pm-a1/relay/0/power',
+      dev_cla: 'power',
+      unit_of_meas: 'W',
+      dev: { ids: ['shelly1pm-a1'] }
+    }, true);
+    await publish(broker, 'homeassistant/sensor/shelly1pm_a1/energy/config', {
+      name: 'Washer energy',
+      stat_t: 'shellies/shelly1pm-a1/relay/0/energy',
+      val_tpl: '{{ value_json.total }}',
+      dev_cla: 'energy',
+      unit_of_meas: 'Wh',
+      dev: { ids: ['shelly1pm-a1'] }
+    }, true);
+
+    const config: MQTTConfig = {
+      protocol: 'mqtt',
+      name: 'MQTT Test Adapter',
+      enabled: true,
+      connectionTimeout: 2000,
+      commandTimeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 5,
+      options: {
+        brokerUrl: `mqtt://127.0.0.1:${port}`,
+        reconnectPeriod: 0,
+        qos: 0,
+        devices: [
+          {
+            deviceId: 'heatpump',
+            name: 'Heat pump',
+            deviceType: 'heat_pump',
+            stateTopics: [{
+              topic: '{prefix}/{deviceId}/telemetry',
+              mappings: {
+                energyConsumption: '$.ENERGY.Power',
+                totalEnergy: '$.ENERGY.Total',
+                power: { path: '$.POWER', values: { ON: true, OFF: false } },
+                targetTemperature: { path: '$.setpoint', scale: 0.1 }
+              }
+            }],
+            commands: {
+              turn_on: { payload: 'ON' },
+              turn_off: { payload: 'OFF' },
+              set_temperature: { topic: '{prefix}/{deviceId}/setpoint', payload: { setpoint: '{{parameters.temperature}}' } }
+            }
+          }
+        ]
+      }
+    };
+
+    adapter = new MQTTAdapter(config);
+    await adapter.initialize();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('extracts configured JSON paths and emits webhook updates', async () => {
+    const update = waitFor<DeviceStatusUpdate>(adapter, 'deviceUpdate');
+
+    await publish(broker, 'maestro/heatpump/telemetry', {
+      POWER: 'ON',
+      setpoint: 215,
+      ENERGY: { Power: 1830, Total: 412.7 }
+    });
+
+    expect(await update).toMatchObject({
+      deviceId: 'heatpump',
+      status: 'online',
+      source: 'webhook',
+      state: { power: true, energyConsumption: 1830, totalEnergy: 412.7, targetTemperature: 21.5 }
+    });
+
+    const status = await adapter.getDeviceStatus('heatpump');
+    expect(status.state.targetTemperature).toBe(21.5);
+  });
+
+  test('publishes rendered command payloads', async () => {
+    const plain = nextPublished(broker, 'maestro/heatpump/set');
+    const off = await adapter.sendCommand('heatpump', {
+      deviceId: 'heatpump',
+      command: 'turn_off',
+      timestamp: new Date()
+    });
+    expect(off.success).toBe(true);
+    expect(await plain).toBe('OFF');
+
+    const templated = nextPublished(broker, 'maestro/heatpump/setpoint');
+    await adapter.sendCommand('heatpump', {
+      deviceId: 'heatpump',
+      command: 'set_temperature',
+      parameters: { temperature: 22 },
+      timestamp: new Date()
+    });
+    expect(JSON.parse(await templated)).toEqual({ setpoint: 22 });
+  });
+
+  test('rejects commands the device does not define', async () => {
+    const result = await adapter.sendCommand('heatpump', {
+      deviceId: 'heatpump',
+      command: 'set_charge_limit',
+      timestamp: new Date()
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unsupported command');
+  });
+
+  test('builds devices from Home Assistant discovery', async () => {
+    const discoveries = await adapter.discoverDevices({ source: 'discovery' });
+
+    expect(discoveries).toHaveLength(1);
+    expect(discoveries[0]).toMatchObject({
+      protocol: 'mqtt',
+      deviceId: 'shelly1pm-a1',
+      deviceType: 'smart_plug',
+      name: 'Washer plug',
+      specifications: { manufacturer: 'Allterco', model: 'SHSW-PM', firmwareVersion: '1.14.0' }
+    });
+    expect(discoveries[0].capabilities.map(cap => cap.type)).toEqual(['switch', 'energy_meter']);
+  });
+
+  test('maps discovered entity state and availability', async () => {
+    await publish(broker, 'shellies/shelly1pm-a1/online', 'true');
+    await publish(broker, 'shellies/shelly1pm-a1/relay/0', 'on');
+    await publish(broker, 'shellies/shelly1pm-a1/relay/0/power', '512.3');
+
+    const update = waitForUpdate(adapter, ({ state }) => state.totalEnergy !== undefined);
+    await publish(broker, 'shellies/shelly1pm-a1/relay/0/energy', { total: 2500 });
+
+    expect(await update).toMatchObject({
+      deviceId: 'shelly1pm-a1',
+      status: 'online',
+      state: { power: true, energyConsumption: 512.3, totalEnergy: 2.5 }
+    });
+
+    const offline = waitForUpdate(adapter, ({ status }) => status === 'offline');
+    await publish(broker, 'shellies/shelly1pm-a1/online', 'false');
+    expect((await offline).status).toBe('offline');
+  });
+
+  test('toggles discovered switches from cached state', async () => {
+    const published = nextPublished(broker, 'shellies/shelly1pm-a1/relay/0/command');
+    await adapter.sendCommand('shelly1pm-a1', {
+      deviceId: 'shelly1pm-a1',
+      command: 'toggle',
+      timestamp: new Date()
+    });
+
+    expect(await published).toBe('off');
+  });
+
+  test('adds and removes devices as discovery configs change', async () => {
+    const discovered = waitFor<DeviceDiscovery>(adapter, 'deviceDiscovered');
+    await publish(broker, 'homeassistant/sensor/grid_meter/power/config', {
+      name: 'Grid power',
+      stat_t: 'meters/grid/power',
+      dev_cla: 'power',
+      unit_of_meas: 'kW'
+    });
+
+    expect(await discovered).toMatchObject({ deviceId: 'grid_meter', deviceType: 'energy_meter' });
+
+    await publish(broker, 'homeassistant/sensor/grid_meter/power/config', '');
+    const remaining = await adapter.discoverDevices({ source: 'discovery' });
+    expect(remaining.map(discovery => discovery.deviceId)).toEqual(['shelly1pm-a1']);
+  });
+});
@@ -1,101 +1,925 @@
-import { BaseProtocolAdapter, DeviceInfo } from '../base/adapter';
-import { DeviceCommand, CommandResult, DeviceStatusUpdate, DeviceType } from '@maestro/shared/types';
+import type { MqttClient } from 'mqtt';
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery,
+  DeviceCapability,
+  DeviceStatus,
+  CapabilityType,
+  getCommandDefinition
+} from '@maestro/shared/types';
 
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import { getJsonPath, renderTemplate } from '../utils/json-path';
+import {
+  HomeAssistantEntityBinding,
+  discoveryToBinding,
+  inferDeviceType,
+  parseDiscoveryTopic
+} from './home-assistant';
+
+/**
+ * MQTT Adapter
+ *
+ * Implements the BaseProtocolAdapter for devices that publish their state to
+ * an MQTT broker (Tasmota, Shelly, Zigbee2MQTT, ESPHome, custom firmware).
+ *
+ * Features:
+ * - Per-device state/command topic templates ({prefix}, {deviceId})
+ * - JSON-path extraction of state fields from payloads
+ * - Command payload templates ({{value}}, {{parameters.x}})
+ * - Home Assistant MQTT discovery (homeassistant/+/+/config)
+ * - Push updates emitted as they arrive (source 'webhook')
+ */
+
+/**
+ * State field extraction: a JSON path, or a path with value translation/scaling
+ */
+export type MQTTStateMapping =
+  | string
+  | {
+      path: string;
+      values?: Record<string, any> | undefined; // e.g. { ON: true, OFF: false }
+      scale?: number | undefined;
+    };
+
+export interface MQTTStateBinding {
+  topic: string; // template
+  mappings?: Record<string, MQTTStateMapping>; // state key → mapping; whole payload when omitted
+}
+
+export interface MQTTCommandBinding {
+  topic?: string; // template, default: the device command topic
+  payload: unknown; // string or object template
+  retain?: boolean;
+  qos?: 0 | 1 | 2;
+}
+
+export interface MQTTDeviceConfig {
+  deviceId: string;
+  name?: string;
+  deviceType: DeviceType;
+  manufacturer?: string;
+  model?: string;
+  stateTopics?: MQTTStateBinding[]; // default: one binding on the state topic template
+  commandTopic?: string; // template, default: options.commandTopicTemplate
+  commands?: Record<string, MQTTCommandBinding>;
+  availability?: {
+    topic: string;
+    payloadAvailable?: string; // default: online
+    payloadNotAvailable?: string; // default: offline
+  };
+  capabilities?: DeviceCapability[];
+}
+
+export interface MQTTConfig extends AdapterConfig {
+  authentication?: {
+    username?: string;
+    password?: string;
+  };
+  options: {
+    brokerUrl: string;
+    clientId?: string;
+    keepAlive?: number; // seconds
+    reconnectPeriod?: number; // milliseconds
+    qos?: 0 | 1 | 2;
+    topicPrefix?: string; // substituted for {prefix}
+    stateTopicTemplate?: string; // default: {prefix}/{deviceId}/state
+    commandTopicTemplate?: string; // default: {prefix}/{deviceId}/set
+    discovery?: boolean; // Home Assistant discovery, default: true
+    discoveryPrefix?: string; // default: homeassistant
+    devices?: MQTTDeviceConfig[];
+  };
+}
+
+interface ResolvedStateBinding {
+  topic: string;
+  mappings?: Record<string, MQTTStateMapping> | undefined;
+}
+
+interface MQTTDevice {
+  deviceId: string;
+  name?: string | undefined;
+  deviceType: DeviceType;
+  manufacturer?: string | undefined;
+  model?: string | undefined;
+  firmwareVersion?: string | undefined;
+  stateBindings: ResolvedStateBinding[];
+  commands: Record<string, Required<Pick<MQTTCommandBinding, 'topic'>> & MQTTCommandBinding>;
+  availability?: Required<NonNullable<MQTTDeviceConfig['availability']>> | undefined;
+  capabilities: DeviceCapability[];
+  source: 'config' | 'discovery';
+  entities?: Map<string, HomeAssistantEntityBinding> | undefined;
+  state: Record<string, any>;
+  status: DeviceStatus;
+  lastMessageAt?: Date | undefined;
+  discoveredAt: Date;
+}
+
+const DEFAULT_COMMANDS: Record<string, MQTTCommandBinding> = {
+  turn_on: { payload: 'ON' },
+  turn_off: { payload: 'OFF' }
+};
+
+/**
+ * MQTT Protocol Adapter Implementation
+ */
 export class MQTTAdapter extends BaseProtocolAdapter {
-  constructor(config: any) {
+  private client?: MqttClient | undefined;
+  private devices: Map<string, MQTTDevice>;
+  private topicIndex: Map<string, Array<{ deviceId: string; binding: ResolvedStateBinding }>>;
+  private availabilityIndex: Map<string, string[]>;
+  private messagesReceived: number = 0;
+
+  constructor(config: MQTTConfig) {
     super(config);
+
+    this.devices = new Map();
+    this.topicIndex = new Map();
+    this.availabilityIndex = new Map();
   }
 
+  /**
+   * Initialize the MQTT adapter
+   */
   async initialize(): Promise<void> {
-    // TODO: Implement MQTT initialization
-  }
+    const config = this.getMQTTConfig();
+
+    try {
+      for (const deviceConfig of config.options.devices || []) {
+        this.registerDevice(this.createConfiguredDevice(deviceConfig));
+      }
+
+      const mqtt = await import('mqtt');
+      this.connectionStatus.connectionAttempts++;
+
+      this.client = await mqtt.connectAsync(config.options.brokerUrl, {
+        clientId: config.options.clientId || `maestro_${Math.random().toString(16).slice(2, 10)}`,
+        ...(config.authentication?.username ? { username: config.authentication.username } : {}),
+        ...(config.authentication?.password ? { password: config.authentication.password } : {}),
+        keepalive: config.options.keepAlive ?? 60,
+        reconnectPeriod: config.options.reconnectPeriod ?? 1000,
+        connectTimeout: this.config.connectionTimeout
+      });
+
+      this.client.on('message', (topic, payload) => this.handleMessage(topic, payload));
+      this.client.on('connect', () => this.updateConnectionStatus(true));
+      this.client.on('offline', () => this.updateConnectionStatus(false, 'Broker offline'));
+      this.client.on('error', error => {
+        this.log('error', 'MQTT client error', error);
+        this.connectionStatus.lastError = error.message;
+      });
+
+      await this.subscribeTopics(Array.from(this.topicIndex.keys()).concat(Array.from(this.availabilityIndex.keys())));
 
-  async connect(): Promise<void> {
-    // TODO: Implement MQTT connection
-    this.updateConnectionStatus(true);
+      if (config.options.discovery !== false) {
+        const prefix = this.getDiscoveryPrefix();
+        await this.subscribeTopics([`${prefix}/+/+/config`, `${prefix}/+/+/+/config`]);
+      }
+
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      this.log('info', 'MQTT adapter initialized successfully', {
+        brokerUrl: config.options.brokerUrl,
+        devices: this.devices.size
+      });
+
+    } catch (error) {
+      await this.closeClient();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
   }
 
+  /**
+   * Disconnect from the broker
+   */
   async disconnect(): Promise<void> {
+    await this.closeClient();
+    this.isInitialized = false;
     this.updateConnectionStatus(false);
-  }
 
-  async executeCommand(command: DeviceCommand): Promise<CommandResult> {
-    return {
-      success: false,
-      timestamp: new Date(),
-      responseTime: 0,
-      retryCount: 0,
-      error: 'MQTT adapter not implemented'
-    };
+    this.log('info', 'MQTT adapter disconnected');
   }
 
-  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
-    return {
-      status: 'unknown',
-      deviceId,
-      timestamp: new Date(),
-      state: {},
-      source: 'polling'
-    };
+  /**
+   * Add a device at runtime
+   */
+  async addDevice(deviceConfig: MQTTDeviceConfig): Promise<DeviceDiscovery> {
+    const device = this.createConfiguredDevice(deviceConfig);
+    const topics = this.registerDevice(device);
+
+    if (this.client) {
+      await this.subscribeTopics(topics);
+    }
+
+    return this.mapDeviceToDiscovery(device);
   }
 
-  async discoverDevices(): Promise<any[]> {
-    return [];
+  /**
+   * Discover MQTT devices (configured plus Home Assistant discovery)
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const discoveries: DeviceDiscovery[] = [];
+
+    for (const device of this.devices.values()) {
+      if (filters?.deviceType && device.deviceType !== filters.deviceType) continue;
+      if (filters?.source && device.source !== filters.source) continue;
+      discoveries.push(this.mapDeviceToDiscovery(device));
+    }
+
+    this.log('info', `Discovered ${discoveries.length} MQTT devices`);
+    return discoveries;
   }
 
+  /**
+   * Get detailed device information
+   */
   async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+
     return {
-      deviceId,
+      deviceId: device.deviceId,
       protocol: 'mqtt',
-      deviceType: 'smart_plug',
-      manufacturer: 'Unknown',
-      model: 'Unknown',
-      capabilities: []
+      deviceType: device.deviceType,
+      name: device.name,
+      manufacturer: device.manufacturer,
+      model: device.model,
+      firmwareVersion: device.firmwareVersion,
+      capabilities: device.capabilities.map(cap => cap.type),
+      networkInfo: {
+        networkId: this.getMQTTConfig().options.brokerUrl
+      },
+      metadata: {
+        source: device.source,
+        stateTopics: device.stateBindings.map(binding => binding.topic),
+        commandTopics: Object.fromEntries(Object.entries(device.commands).map(([name, cmd]) => [name, cmd.topic])),
+        availabilityTopic: device.availability?.topic
+      }
     };
   }
 
+  /**
+   * Publish a command to a device
+   */
   async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
-    return this.executeCommand(command);
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      const { topic, payload, binding } = this.resolveCommand(device, command);
+
+      await this.client!.publishAsync(topic, payload, {
+        qos: binding.qos ?? this.getMQTTConfig().options.qos ?? 1,
+        retain: binding.retain ?? false
+      });
+      this.stats.bytesTransferred += Buffer.byteLength(payload);
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      this.log('debug', `Command published to ${topic}`, { command, payload });
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result: { topic, payload }
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
   }
 
-  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<any> {
+  /**
+   * Get last known device status (MQTT is push-based, so this is the cached state)
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+
     return {
-      id: `mqtt-${deviceId}-${Date.now()}`,
       deviceId,
-      eventTypes: eventTypes || [],
-      active: false
+      status: device.status,
+      state: { ...device.state },
+      timestamp: device.lastMessageAt || new Date(),
+      source: 'webhook'
     };
   }
 
+  /**
+   * Subscribe to device updates (delivered as messages arrive)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
+      deviceId,
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
+    };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from device updates
+   */
   async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
-    // TODO: Implement unsubscription
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
   }
 
+  /**
+   * Test connection to specific device (a message was seen and it is not marked offline)
+   */
   async testDeviceConnection(deviceId: string): Promise<boolean> {
-    return false;
+    const device = this.devices.get(deviceId);
+    return !!device && this.isConnected() && !!device.lastMessageAt && device.status !== 'offline';
   }
 
+  /**
+   * Get MQTT-specific diagnostics
+   */
   async getDiagnostics(): Promise<Record<string, any>> {
+    const config = this.getMQTTConfig();
+    const devices = Array.from(this.devices.values());
+
     return {
       protocol: 'mqtt',
-      status: 'not_implemented',
-      devices: 0
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      brokerUrl: config.options.brokerUrl,
+      discoveryEnabled: config.options.discovery !== false,
+      discoveryPrefix: this.getDiscoveryPrefix(),
+      configuredDevices: devices.filter(device => device.source === 'config').length,
+      discoveredDevices: devices.filter(device => device.source === 'discovery').length,
+      subscribedTopics: this.topicIndex.size + this.availabilityIndex.size,
+      messagesReceived: this.messagesReceived
     };
   }
 
+  /**
+   * Check if adapter supports a device type
+   */
   supportsDeviceType(deviceType: DeviceType): boolean {
-    return false; // TODO: Implement device type support
+    const supportedTypes: DeviceType[] = [
+      'smart_plug',
+      'energy_meter',
+      'battery_pack',
+      'solar_inverter',
+      'heat_pump',
+      'ev_charger'
+    ];
+    return supportedTypes.includes(deviceType);
   }
 
+  /**
+   * Check if adapter supports a capability
+   */
   supportsCapability(capability: string): boolean {
-    return false; // TODO: Implement capability support
+    const supportedCapabilities = [
+      'switch',
+      'energy_meter',
+      'power_control',
+      'energy_storage',
+      'temperature_sensor',
+      'humidity_sensor',
+      'motion_sensor'
+    ];
+    return supportedCapabilities.includes(capability);
   }
 
+  /**
+   * Validate command before sending
+   */
   async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
-    return false; // TODO: Implement command validation
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+    if (!this.client || !this.isConnected()) {
+      throw new Error('MQTT adapter is not connected');
+    }
+
+    const device = this.getDevice(deviceId);
+    this.resolveCommand(device, command);
+    this.assertValidCommand(command, device.capabilities);
+    return true;
   }
 
+  /**
+   * Validate MQTT device ID format
+   */
   protected validateDeviceId(deviceId: string): boolean {
-    return typeof deviceId === 'string' && deviceId.length > 0;
+    return validateDeviceId(deviceId, 'mqtt').isValid;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed MQTT configuration
+   */
+  private getMQTTConfig(): MQTTConfig {
+    return this.config as MQTTConfig;
+  }
+
+  private getDiscoveryPrefix(): string {
+    return this.getMQTTConfig().options.discoveryPrefix || 'homeassistant';
+  }
+
+  /**
+   * Substitute {prefix} and {deviceId} in a topic template
+   */
+  private renderTopic(template: string, deviceId: string): string {
+    return template
+      .replace(/\{prefix\}/g, this.getMQTTConfig().options.topicPrefix || 'maestro')
+      .replace(/\{deviceId\}/g, deviceId);
+  }
+
+  /**
+   * Build a device from adapter configuration
+   */
+  private createConfiguredDevice(deviceConfig: MQTTDeviceConfig): MQTTDevice {
+    const options = this.getMQTTConfig().options;
+    const commandTopic = this.renderTopic(
+      deviceConfig.commandTopic || options.commandTopicTemplate || '{prefix}/{deviceId}/set',
+      deviceConfig.deviceId
+    );
+
+    const stateBindings = (deviceConfig.stateTopics || [
+      { topic: options.stateTopicTemplate || '{prefix}/{deviceId}/state' }
+    ]).map(binding => ({
+      topic: this.renderTopic(binding.topic, deviceConfig.deviceId),
+      mappings: binding.mappings
+    }));
+
+    const commands = Object.fromEntries(
+      Object.entries(deviceConfig.commands || DEFAULT_COMMANDS).map(([name, binding]) => [
+        name,
+        { ...binding, topic: binding.topic ? this.renderTopic(binding.topic, deviceConfig.deviceId) : commandTopic }
+      ])
+    );
+
+    return {
+      deviceId: deviceConfig.deviceId,
+      name: deviceConfig.name,
+      deviceType: deviceConfig.deviceType,
+      manufacturer: deviceConfig.manufacturer,
+      model: deviceConfig.model,
+      stateBindings,
+      commands,
+      availability: deviceConfig.availability
+        ? {
+            topic: this.renderTopic(deviceConfig.availability.topic, deviceConfig.deviceId),
+            payloadAvailable: deviceConfig.availability.payloadAvailable || 'online',
+            payloadNotAvailable: deviceConfig.availability.payloadNotAvailable || 'offline'
+          }
+        : undefined,
+      capabilities: deviceConfig.capabilities || this.defaultCapabilities(deviceConfig.deviceType, Object.keys(commands)),
+      source: 'config',
+      state: {},
+      status: 'unknown',
+      discoveredAt: new Date()
+    };
   }
-}
\ No newline at end of file
+
+  /**
+   * Register a device and index its topics; returns topics not yet subscribed
+   */
+  private registerDevice(device: MQTTDevice): string[] {
+    this.unindexDevice(device.deviceId);
+    this.devices.set(device.deviceId, device);
+
+    const newTopics: string[] = [];
+    for (const binding of device.stateBindings) {
+      const entries = this.topicIndex.get(binding.topic) || [];
+      if (entries.length === 0) newTopics.push(binding.topic);
+      entries.push({ deviceId: device.deviceId, binding });
+      this.topicIndex.set(binding.topic, entries);
+    }
+
+    if (device.availability) {
+      const topic = device.availability.topic;
+      const entries = this.availabilityIndex.get(topic) || [];
+      if (entries.length === 0 && !this.topicIndex.has(topic)) newTopics.push(topic);
+      entries.push(device.deviceId);
+      this.availabilityIndex.set(topic, entries);
+    }
+
+    return newTopics;
+  }
+
+  /**
+   * Remove a device from the topic indexes
+   */
+  private unindexDevice(deviceId: string): void {
+    for (const [topic, entries] of this.topicIndex.entries()) {
+      const remaining = entries.filter(entry => entry.deviceId !== deviceId);
+      if (remaining.length > 0) this.topicIndex.set(topic, remaining);
+      else this.topicIndex.delete(topic);
+    }
+    for (const [topic, deviceIds] of this.availabilityIndex.entries()) {
+      const remaining = deviceIds.filter(id => id !== deviceId);
+      if (remaining.length > 0) this.availabilityIndex.set(topic, remaining);
+      else this.availabilityIndex.delete(topic);
+    }
+  }
+
+  private async subscribeTopics(topics: string[]): Promise<void> {
+    if (!this.client || topics.length === 0) {
+      return;
+    }
+    await this.client.subscribeAsync(topics, { qos: this.getMQTTConfig().options.qos ?? 1 });
+    this.log('debug', `Subscribed to ${topics.length} MQTT topics`);
+  }
+
+  private async closeClient(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    if (client) {
+      await client.endAsync();
+    }
+  }
+
+  private getDevice(deviceId: string): MQTTDevice {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown MQTT device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  /**
+   * Route an incoming message
+   */
+  private handleMessage(topic: string, payload: Buffer): void {
+    this.messagesReceived++;
+    this.stats.bytesTransferred += payload.length;
+
+    try {
+      if (parseDiscoveryTopic(topic, this.getDiscoveryPrefix())) {
+        this.handleDiscoveryMessage(topic, payload);
+        return;
+      }
+
+      const availabilityDevices = this.availabilityIndex.get(topic);
+      if (availabilityDevices) {
+        this.handleAvailabilityMessage(availabilityDevices, payload.toString().trim());
+      }
+
+      const stateEntries = this.topicIndex.get(topic);
+      if (stateEntries) {
+        const parsed = parsePayload(payload);
+        for (const { deviceId, binding } of stateEntries) {
+          this.applyStateMessage(deviceId, binding, parsed);
+        }
+      }
+    } catch (error) {
+      this.log('warn', `Failed to process message on ${topic}`, error);
+    }
+  }
+
+  /**
+   * Merge extracted fields into device state and emit the update
+   */
+  private applyStateMessage(deviceId: string, binding: ResolvedStateBinding, payload: unknown): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    const extracted = extractState(payload, binding.mappings);
+    if (Object.keys(extracted).length === 0) {
+      return;
+    }
+
+    device.state = { ...device.state, ...extracted };
+    device.lastMessageAt = new Date();
+    if (device.status === 'unknown' || !device.availability) {
+      device.status = 'online';
+    }
+
+    this.emitDeviceUpdate({
+      deviceId,
+      status: device.status,
+      state: { ...device.state },
+      timestamp: device.lastMessageAt,
+      source: 'webhook'
+    });
+  }
+
+  private handleAvailabilityMessage(deviceIds: string[], payload: string): void {
+    for (const deviceId of deviceIds) {
+      const device = this.devices.get(deviceId);
+      if (!device?.availability) continue;
+
+      const status: DeviceStatus = payload === device.availability.payloadAvailable
+        ? 'online'
+        : payload === device.availability.payloadNotAvailable ? 'offline' : device.status;
+
+      if (status !== device.status) {
+        device.status = status;
+        this.emitDeviceUpdate({
+          deviceId,
+          status,
+          state: { ...device.state },
+          timestamp: new Date(),
+          source: 'webhook'
+        });
+      }
+    }
+  }
+
+  /**
+   * Add, update or remove a Home Assistant entity
+   */
+  private handleDiscoveryMessage(topic: string, payload: Buffer): void {
+    const discoveryTopic = parseDiscoveryTopic(topic, this.getDiscoveryPrefix())!;
+    const entityKey = [discoveryTopic.component, discoveryTopic.nodeId, discoveryTopic.objectId]
+      .filter(Boolean)
+      .join('/');
+
+    // Empty retained payload removes the entity
+    if (payload.length === 0) {
+      for (const device of this.devices.values()) {
+        if (device.entities?.delete(entityKey)) {
+          this.rebuildDiscoveredDevice(device.deviceId, device.entities);
+        }
+      }
+      return;
+    }
+
+    const binding = discoveryToBinding(discoveryTopic, JSON.parse(payload.toString()));
+    if (!binding) {
+      return;
+    }
+
+    const deviceId = sanitizeDeviceId(binding.deviceKey);
+    const existing = this.devices.get(deviceId);
+    if (existing && existing.source === 'config') {
+      // Explicit configuration wins over discovery
+      return;
+    }
+
+    const entities = existing?.entities || new Map<string, HomeAssistantEntityBinding>();
+    entities.set(binding.entityKey, binding);
+    this.rebuildDiscoveredDevice(deviceId, entities);
+  }
+
+  /**
+   * Rebuild a discovered device from its entities and resubscribe
+   */
+  private rebuildDiscoveredDevice(deviceId: string, entities: Map<string, HomeAssistantEntityBinding>): void {
+    const previous = this.devices.get(deviceId);
+
+    if (entities.size === 0) {
+      this.unindexDevice(deviceId);
+      this.devices.delete(deviceId);
+      return;
+    }
+
+    const bindings = Array.from(entities.values());
+    const first = bindings[0]!;
+    const usedKeys = new Set<string>();
+    const stateBindings: ResolvedStateBinding[] = [];
+    const commands: MQTTDevice['commands'] = {};
+    const capabilities = new Map<CapabilityType, DeviceCapability>();
+
+    for (const binding of bindings) {
+      // Two entities of the same class (e.g. per-channel power) keep distinct keys
+      const stateKey = usedKeys.has(binding.stateKey) ? `${binding.stateKey}_${binding.entityKey.split('/').pop()}` : binding.stateKey;
+      usedKeys.add(stateKey);
+
+      if (binding.stateTopic && binding.statePath) {
+        stateBindings.push({
+          topic: binding.stateTopic,
+          mappings: {
+            [stateKey]: { path: binding.statePath, values: binding.stateValues, scale: binding.stateScale }
+          }
+        });
+      }
+
+      for (const [name, command] of Object.entries(binding.commands)) {
+        commands[name] = { topic: command.topic, payload: command.payload };
+      }
+
+      if (binding.capability) {
+        const capability = capabilities.get(binding.capability) || {
+          type: binding.capability,
+          properties: { writable: Object.keys(binding.commands).length > 0, fields: [] as string[] },
+          commands: [],
+          readOnly: Object.keys(binding.commands).length === 0
+        };
+        capability.properties.fields.push(stateKey);
+        if (binding.unit) capability.properties.unit = capability.properties.unit || binding.unit;
+        capability.commands.push(...Object.keys(binding.commands));
+        if (binding.range) capability.range = binding.range;
+        if (Object.keys(binding.commands).length > 0) {
+          capability.readOnly = false;
+          capability.properties.writable = true;
+        }
+        capabilities.set(binding.capability, capability);
+      }
+    }
+
+    if (commands.turn_on && commands.turn_off) {
+      commands.toggle = { topic: commands.turn_on.topic, payload: null };
+      capabilities.get('switch')?.commands.push('toggle');
+    }
+
+    const availability = bindings.find(binding => binding.availability)?.availability;
+
+    const device: MQTTDevice = {
+      deviceId,
+      name: first.device.name,
+      deviceType: inferDeviceType(bindings),
+      manufacturer: first.device.manufacturer,
+      model: first.device.model,
+      firmwareVersion: first.device.firmwareVersion,
+      stateBindings,
+      commands,
+      availability,
+      capabilities: Array.from(capabilities.values()),
+      source: 'discovery',
+      entities,
+      state: previous?.state || {},
+      status: previous?.status || 'unknown',
+      lastMessageAt: previous?.lastMessageAt,
+      discoveredAt: previous?.discoveredAt || new Date()
+    };
+
+    const newTopics = this.registerDevice(device);
+    this.subscribeTopics(newTopics).catch(error => {
+      this.log('error', `Failed to subscribe topics for ${deviceId}`, error);
+    });
+
+    if (!previous) {
+      this.emit('deviceDiscovered', this.mapDeviceToDiscovery(device));
+      this.log('info', `Discovered MQTT device ${deviceId} via Home Assistant discovery`);
+    }
+  }
+
+  /**
+   * Resolve a command to topic and rendered payload
+   */
+  private resolveCommand(
+    device: MQTTDevice,
+    command: DeviceCommand
+  ): { topic: string; payload: string; binding: MQTTDevice['commands'][string] } {
+    let name = command.command;
+
+    // Toggle needs the current switch state
+    if (name === 'toggle' && device.commands.toggle?.payload === null) {
+      name = device.state.power ? 'turn_off' : 'turn_on';
+    }
+
+    const binding = device.commands[name];
+    if (!binding) {
+      throw new Error(`Unsupported command for ${device.deviceId}: ${command.command}`);
+    }
+
+    const parameters = command.parameters || {};
+    const rendered = renderTemplate(binding.payload, {
+      value: parameters.value,
+      parameters,
+      deviceId: device.deviceId
+    });
+
+    if (rendered === undefined || rendered === null) {
+      throw new Error(`Command ${command.command} requires a value`);
+    }
+
+    const payload = typeof rendered === 'string' ? rendered : JSON.stringify(rendered);
+    return { topic: binding.topic, payload, binding };
+  }
+
+  /**
+   * Capabilities for configured devices without an explicit list. Commands
+   * are grouped by their capability in the command catalog; commands outside
+   * the catalog belong to the device's main capability.
+   */
+  private defaultCapabilities(deviceType: DeviceType, commands: string[]): DeviceCapability[] {
+    const mainType: CapabilityType = deviceType === 'battery_pack' ? 'energy_storage' : 'energy_meter';
+    const grouped = new Map<CapabilityType, string[]>([[mainType, []]]);
+
+    for (const command of commands) {
+      const type = getCommandDefinition(command)?.capability || mainType;
+      grouped.set(type, [...(grouped.get(type) || []), command]);
+    }
+
+    return Array.from(grouped.entries())
+      .sort(([a], [b]) => Number(a === mainType) - Number(b === mainType))
+      .map(([type, typeCommands]) => ({
+        type,
+        properties: { writable: typeCommands.length > 0 },
+        commands: typeCommands,
+        readOnly: typeCommands.length === 0
+      }));
+  }
+
+  /**
+   * Map an MQTT device to DeviceDiscovery
+   */
+  private mapDeviceToDiscovery(device: MQTTDevice): DeviceDiscovery {
+    return {
+      protocol: 'mqtt',
+      deviceId: device.deviceId,
+      deviceType: device.deviceType,
+      name: device.name,
+      specifications: {
+        manufacturer: device.manufacturer || 'Unknown',
+        model: device.model || 'MQTT Device',
+        firmwareVersion: device.firmwareVersion
+      },
+      capabilities: device.capabilities,
+      networkInfo: {
+        networkId: this.getMQTTConfig().options.brokerUrl
+      },
+      discoveredAt: device.discoveredAt,
+      confidence: device.lastMessageAt ? 1.0 : device.source === 'config' ? 0.8 : 0.6
+    };
+  }
+}
+
+/**
+ * Decode a payload as JSON, number or plain string
+ */
+function parsePayload(payload: Buffer): unknown {
+  const text = payload.toString().trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Apply state mappings to a decoded payload
+ */
+function extractState(payload: unknown, mappings?: Record<string, MQTTStateMapping>): Record<string, any> {
+  if (!mappings) {
+    return payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as Record<string, any>)
+      : { value: payload };
+  }
+
+  const state: Record<string, any> = {};
+  for (const [key, mapping] of Object.entries(mappings)) {
+    const { path, values, scale } = typeof mapping === 'string' ? { path: mapping, values: undefined, scale: undefined } : mapping;
+    let value = getJsonPath(payload, path);
+    if (value === undefined) continue;
+
+    if (values && String(value) in values) {
+      value = values[String(value)];
+    } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      value = Number(value);
+    }
+    if (scale !== undefined && typeof value === 'number') {
+      value = Number((value * scale).toPrecision(12));
+    }
+
+    state[key] = value;
+  }
+  return state;
+}
+
+/**
+ * Discovery identifiers may contain characters not allowed in MQTT device IDs
+ */
+function sanitizeDeviceId(value: string): string {
+  return value.replace(/[^a-zA-Z0-9/_-]/g, '_').replace(/^\/+|\/+$/g, '');
+}
@@ -0,0 +1,280 @@
+import { CapabilityType, DeviceType } from '@maestro/shared/types';
+
+/**
+ * Home Assistant MQTT Discovery
+ *
+ * Parses `<prefix>/<component>/[<node_id>/]<object_id>/config` messages as
+ * published by Tasmota, Shelly, Zigbee2MQTT, ESPHome, OpenDTU and others, and
+ * turns each entity into a binding the MQTT adapter can subscribe to.
+ *
+ * Reference: https://www.home-assistant.io/integrations/mqtt/#mqtt-discovery
+ */
+
+export interface HomeAssistantDiscoveryTopic {
+  component: string;
+  nodeId?: string;
+  objectId: string;
+}
+
+export interface HomeAssistantEntityBinding {
+  deviceKey: string; // groups entities of one physical device
+  entityKey: string;
+  device: {
+    name?: string | undefined;
+    manufacturer?: string | undefined;
+    model?: string | undefined;
+    firmwareVersion?: string | undefined;
+  };
+  component: string;
+  stateKey: string;
+  capability?: CapabilityType | undefined;
+  unit?: string | undefined;
+  stateTopic?: string | undefined;
+  statePath?: string | undefined;
+  stateValues?: Record<string, any> | undefined;
+  stateScale?: number | undefined;
+  commands: Record<string, { topic: string; payload: unknown }>;
+  range?: { min: number; max: number; step?: number };
+  availability?: {
+    topic: string;
+    payloadAvailable: string;
+    payloadNotAvailable: string;
+  };
+}
+
+// Abbreviations allowed in discovery payloads (subset relevant to energy devices)
+const ABBREVIATIONS: Record<string, string> = {
+  avty_t: 'availability_topic',
+  cmd_t: 'command_topic',
+  cmd_tpl: 'command_template',
+  dev: 'device',
+  dev_cla: 'device_class',
+  json_attr_t: 'json_attributes_topic',
+  obj_id: 'object_id',
+  pl_avail: 'payload_available',
+  pl_not_avail: 'payload_not_available',
+  pl_off: 'payload_off',
+  pl_on: 'payload_on',
+  stat_cla: 'state_class',
+  stat_off: 'state_off',
+  stat_on: 'state_on',
+  stat_t: 'state_topic',
+  uniq_id: 'unique_id',
+  unit_of_meas: 'unit_of_measurement',
+  val_tpl: 'value_template'
+};
+
+const DEVICE_ABBREVIATIONS: Record<string, string> = {
+  ids: 'identifiers',
+  mf: 'manufacturer',
+  mdl: 'model',
+  sw: 'sw_version',
+  hw: 'hw_version',
+  cns: 'connections'
+};
+
+// device_class → normalized state key, capability and unit conversion to the base unit
+const SENSOR_CLASSES: Record<string, { key: string; capability?: CapabilityType; units?: Record<string, number> }> = {
+  power: { key: 'energyConsumption', capability: 'energy_meter', units: { W: 1, kW: 1000 } },
+  energy: { key: 'totalEnergy', capability: 'energy_meter', units: { Wh: 0.001, kWh: 1, MWh: 1000 } },
+  voltage: { key: 'voltage', capability: 'energy_meter', units: { V: 1, mV: 0.001 } },
+  current: { key: 'current', capability: 'energy_meter', units: { A: 1, mA: 0.001 } },
+  frequency: { key: 'frequency', capability: 'energy_meter' },
+  power_factor: { key: 'powerFactor', capability: 'energy_meter' },
+  temperature: { key: 'temperature', capability: 'temperature_sensor' },
+  humidity: { key: 'humidity', capability: 'humidity_sensor' },
+  battery: { key: 'chargeLevel', capability: 'energy_storage' }
+};
+
+const SUPPORTED_COMPONENTS = ['switch', 'light', 'sensor', 'binary_sensor', 'number'];
+
+/**
+ * Split a discovery topic into component, optional node ID and object ID
+ */
+export function parseDiscoveryTopic(topic: string, prefix: string): HomeAssistantDiscoveryTopic | null {
+  if (!topic.startsWith(`${prefix}/`) || !topic.endsWith('/config')) {
+    return null;
+  }
+
+  const parts = topic.slice(prefix.length + 1, -'/config'.length).split('/');
+  if (parts.length === 2) {
+    return { component: parts[0]!, objectId: parts[1]! };
+  }
+  if (parts.length === 3) {
+    return { component: parts[0]!, nodeId: parts[1]!, objectId: parts[2]! };
+  }
+  return null;
+}
+
+/**
+ * Expand abbreviated keys and the `~` base topic
+ */
+export function expandDiscoveryPayload(payload: Record<string, any>): Record<string, any> {
+  const expanded: Record<string, any> = {};
+  const base: string | undefined = payload['~'];
+
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === '~') continue;
+    const name = ABBREVIATIONS[key] || key;
+
+    if (typeof value === 'string' && base && name.endsWith('_topic')) {
+      expanded[name] = value.startsWith('~') ? base + value.slice(1) : value.endsWith('~') ? value.slice(0, -1) + base : value;
+    } else if (name === 'device' && value && typeof value === 'object') {
+      expanded.device = Object.fromEntries(
+        Object.entries(value).map(([deviceKey, deviceValue]) => [DEVICE_ABBREVIATIONS[deviceKey] || deviceKey, deviceValue])
+      );
+    } else {
+      expanded[name] = value;
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Translate a simple Jinja value template into a JSON path.
+ * Supports `{{ value }}`, `{{ value_json.a.b }}` and `{{ value_json['a'] }}` (filters are ignored).
+ * Returns undefined for templates that cannot be expressed as a path.
+ */
+export function valueTemplateToPath(template?: string): string | undefined {
+  if (!template) {
+    return '$';
+  }
+
+  const json = /\{\{\s*value_json((?:\.[A-Za-z_][\w]*|\[(?:'[^']*'|"[^"]*"|\d+)\])+)\s*(?:\|[^}]*)?\}\}/.exec(template);
+  if (json) {
+    return '$' + json[1];
+  }
+  if (/\{\{\s*value\s*(?:\|[^}]*)?\}\}/.test(template)) {
+    return '$';
+  }
+  return undefined;
+}
+
+/**
+ * Convert one discovery message into an entity binding (null for unsupported components)
+ */
+export function discoveryToBinding(
+  topic: HomeAssistantDiscoveryTopic,
+  payload: Record<string, any>
+): HomeAssistantEntityBinding | null {
+  if (!SUPPORTED_COMPONENTS.includes(topic.component)) {
+    return null;
+  }
+
+  const config = expandDiscoveryPayload(payload);
+  const device = config.device || {};
+  const identifiers: string[] = Array.isArray(device.identifiers)
+    ? device.identifiers
+    : device.identifiers ? [device.identifiers] : [];
+
+  const entityKey = [topic.component, topic.nodeId, topic.objectId].filter(Boolean).join('/');
+  const deviceKey = String(identifiers[0] || topic.nodeId || config.unique_id || entityKey);
+  const objectKey = toCamelCase(config.object_id || topic.objectId);
+
+  const binding: HomeAssistantEntityBinding = {
+    deviceKey,
+    entityKey,
+    device: {
+      name: device.name || config.name,
+      manufacturer: device.manufacturer,
+      model: device.model,
+      firmwareVersion: device.sw_version
+    },
+    component: topic.component,
+    stateKey: objectKey,
+    unit: config.unit_of_measurement,
+    stateTopic: config.state_topic,
+    statePath: valueTemplateToPath(config.value_template),
+    commands: {}
+  };
+
+  if (config.availability_topic) {
+    binding.availability = {
+      topic: config.availability_topic,
+      payloadAvailable: config.payload_available ?? 'online',
+      payloadNotAvailable: config.payload_not_available ?? 'offline'
+    };
+  }
+
+  switch (topic.component) {
+    case 'switch':
+    case 'light': {
+      const payloadOn = config.payload_on ?? 'ON';
+      const payloadOff = config.payload_off ?? 'OFF';
+      binding.stateKey = 'power';
+      binding.capability = 'switch';
+      binding.stateValues = {
+        [String(config.state_on ?? payloadOn)]: true,
+        [String(config.state_off ?? payloadOff)]: false
+      };
+      if (config.command_topic) {
+        binding.commands.turn_on = { topic: config.command_topic, payload: payloadOn };
+        binding.commands.turn_off = { topic: config.command_topic, payload: payloadOff };
+      }
+      break;
+    }
+
+    case 'binary_sensor': {
+      binding.capability = config.device_class === 'motion' || config.device_class === 'occupancy'
+        ? 'motion_sensor'
+        : undefined;
+      binding.stateValues = {
+        [String(config.payload_on ?? 'ON')]: true,
+        [String(config.payload_off ?? 'OFF')]: false
+      };
+      break;
+    }
+
+    case 'sensor': {
+      const sensorClass = SENSOR_CLASSES[config.device_class];
+      if (sensorClass) {
+        binding.stateKey = sensorClass.key;
+        binding.capability = sensorClass.capability;
+        const factor = sensorClass.units?.[config.unit_of_measurement];
+        if (factor !== undefined && factor !== 1) {
+          binding.stateScale = factor;
+        }
+      }
+      break;
+    }
+
+    case 'number': {
+      binding.capability = 'power_control';
+      if (config.command_topic) {
+        binding.commands[`set_${toSnakeCase(objectKey)}`] = {
+          topic: config.command_topic,
+          payload: config.command_template
+            ? String(config.command_template).replace(/\{\{\s*value\s*(\|[^}]*)?\}\}/g, '{{value}}')
+            : '{{value}}'
+        };
+      }
+      if (typeof config.min === 'number' && typeof config.max === 'number') {
+        binding.range = { min: config.min, max: config.max, step: config.step };
+      }
+      break;
+    }
+  }
+
+  return binding;
+}
+
+/**
+ * Pick a device type from the components and sensor classes of a device
+ */
+export function inferDeviceType(bindings: HomeAssistantEntityBinding[]): DeviceType {
+  const keys = bindings.map(binding => binding.stateKey);
+
+  if (bindings.some(binding => binding.capability === 'switch')) return 'smart_plug';
+  if (keys.includes('chargeLevel')) return 'battery_pack';
+  if (keys.includes('totalEnergy') || keys.includes('energyConsumption')) return 'energy_meter';
+  return 'smart_plug';
+}
+
+function toCamelCase(value: string): string {
+  return value.replace(/[-_\s]+(\w)/g, (_, char: string) => char.toUpperCase());
+}
+
+function toSnakeCase(value: string): string {
+  return value.replace(/([A-Z])/g, '_$1').toLowerCase();
+}
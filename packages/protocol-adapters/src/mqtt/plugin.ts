@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { MQTTConfig } from './adapter';
+
+/**
+ * MQTT adapter plugin (topic templates, Home Assistant discovery)
+ */
+export const mqttPlugin = defineAdapterPlugin<MQTTConfig>({
+  protocol: 'mqtt',
+  name: '@maestro/protocol-adapters/mqtt',
+  description: 'MQTT devices with topic templates and Home Assistant discovery',
+  configSchema: z.object({
+    brokerUrl: z.string().regex(/^(mqtts?|wss?|tcp|ssl):\/\//, 'must be an mqtt://, mqtts://, ws:// or wss:// URL'),
+    clientId: z.string().optional(),
+    keepAlive: z.number().int().nonnegative().optional(),
+    reconnectPeriod: z.number().int().nonnegative().optional(),
+    qos: z.union([z.literal(0), z.literal(1), z.literal(2)]).optional(),
+    topicPrefix: z.string().optional(),
+    stateTopicTemplate: z.string().optional(),
+    commandTopicTemplate: z.string().optional(),
+    discovery: z.boolean().optional(),
+    discoveryPrefix: z.string().optional(),
+    devices: z.array(z.object({
+      deviceId: z.string().min(1)
+    }).passthrough()).optional()
+  }).passthrough(),
+  deviceTypes: ['smart_plug', 'energy_meter', 'battery_pack', 'solar_inverter', 'heat_pump', 'ev_charger'],
+  capabilities: ['switch', 'energy_meter', 'power_control', 'energy_storage', 'temperature_sensor', 'humidity_sensor', 'motion_sensor'],
+  create: async config => {
+    const { MQTTAdapter } = await import('./adapter');
+    return new MQTTAdapter(config);
+  }
+});
@@ -0,0 +1,214 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, test, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import type { DeviceStatusUpdate } from '@maestro/shared/types';
+
+import { RestAdapter, RestConfig } from './adapter';
+import { defineRestProfile } from './profiles';
+
+/**
+ * REST Adapter Tests
+ *
+ * One in-process HTTP server plays a Shelly Gen2 plug, a Tasmota plug and an
+ * OpenDTU gateway (behind basic auth).
+ */
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+  authorization?: string;
+}
+
+const shelly = { output: true, apower: 812.4, voltage: 231.2, current: 3.52, aenergy: { total: 15234.5 }, temperature: { tC: 41.3 } };
+const tasmota = { POWER: 'OFF', ENERGY: { Power: '0', Voltage: 229, Current: 0, Total: 3.21, Today: 0.12 } };
+const opendtu = { reachable: true, producing: true, limit_relative: 100, power: 412 };
+const requests: RecordedRequest[] = [];
+
+function handle(req: http.IncomingMessage, body: string, res: http.ServerResponse): void {
+  const url = new URL(req.url || '/', 'http://localhost');
+  requests.push({ method: req.method || 'GET', url: req.url || '', body, authorization: req.headers.authorization });
+  const json = (data: unknown, status = 200) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+
+  switch (url.pathname) {
+    case '/shelly/rpc/Switch.GetStatus':
+      return json({ id: Number(url.searchParams.get('id')), ...shelly });
+    case '/shelly/rpc/Switch.Set':
+      shelly.output = url.searchParams.get('on') === 'true';
+      shelly.apower = shelly.output ? 812.4 : 0;
+      return json({ was_on: !shelly.output });
+    case '/tasmota/cm':
+      if (url.searchParams.get('cmnd') === 'Power Toggle') {
+        tasmota.POWER = tasmota.POWER === 'ON' ? 'OFF' : 'ON';
+        return json({ POWER: tasmota.POWER });
+      }
+      return json({ StatusSTS: { POWER: tasmota.POWER }, StatusSNS: { ENERGY: tasmota.ENERGY } });
+    case '/dtu/api/livedata/status':
+      if (req.headers.authorization !== `Basic ${Buffer.from('admin:openDTU42').toString('base64')}`) {
+        return json({ error: 'unauthorized' }, 401);
+      }
+      return json({
+        inverters: [{
+          serial: url.searchParams.get('inv'),
+          reachable: opendtu.reachable,
+          producing: opendtu.producing,
+          limit_relative: opendtu.limit_relative,
+          AC: { '0': { Power: { v: opendtu.power }, Voltage: { v: 230.1 }, Frequency: { v: 50.01 }, YieldDay: { v: 1830 }, YieldTotal: { v: 412.7 } } },
+          INV: { '0': { Temperature: { v: 38.2 } } }
+        }]
+      });
+    case '/dtu/api/limit/config': {
+      const data = JSON.parse(new URLSearchParams(body).get('data') || '{}');
+      opendtu.power = data.limit_value;
+      return json({ type: 'success' });
+    }
+    default:
+      return json({ error: 'not found' }, 404);
+  }
+}
+
+function createConfig(options: RestConfig['options']): RestConfig {
+  return {
+    protocol: 'rest_api',
+    name: 'REST Test Adapter',
+    enabled: true,
+    connectionTimeout: 2000,
+    commandTimeout: 2000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 5,
+    options: { pollingInterval: 0, ...options }
+  };
+}
+
+describe('RestAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let adapter: RestAdapter;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => handle(req, body, res));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    adapter = new RestAdapter(createConfig({
+      devices: [
+        { deviceId: 'shelly-kitchen', baseUrl: `${baseUrl}/shelly`, profile: 'shelly_gen2' },
+        { deviceId: 'tasmota-dryer', baseUrl: `${baseUrl}/tasmota/`, profile: 'tasmota' },
+        {
+          deviceId: 'opendtu:1161',
+          baseUrl: `${baseUrl}/dtu`,
+          profile: 'opendtu',
+          variables: { serial: '116181234567' },
+          auth: { username: 'admin', password: 'openDTU42' }
+        }
+      ]
+    }));
+    await adapter.initialize();
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('maps Shelly status fields with scaling', async () => {
+    const status = await adapter.getDeviceStatus('shelly-kitchen');
+
+    expect(status.status).toBe('online');
+    expect(status.state).toEqual({
+      power: true,
+      energyConsumption: 812.4,
+      voltage: 231.2,
+      current: 3.52,
+      totalEnergy: 15.2345,
+      temperature: 41.3
+    });
+    expect(requests[0]!.url).toBe('/shelly/rpc/Switch.GetStatus?id=0');
+  });
+
+  test('sends templated commands and refreshes state', async () => {
+    const updated = new Promise<DeviceStatusUpdate>(resolve => adapter.once('deviceUpdate', resolve));
+    const result = await adapter.sendCommand('shelly-kitchen', { deviceId: 'shelly-kitchen', command: 'turn_off', timestamp: new Date() });
+
+    expect(result.success).toBe(true);
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/shelly/rpc/Switch.Set?id=0&on=false' });
+    expect((await updated).state).toMatchObject({ power: false, energyConsumption: 0 });
+  });
+
+  test('translates values and numeric strings for Tasmota', async () => {
+    const before = await adapter.getDeviceStatus('tasmota-dryer');
+    expect(before.state).toMatchObject({ power: false, energyConsumption: 0, totalEnergy: 3.21, dailyEnergy: 0.12 });
+
+    await adapter.sendCommand('tasmota-dryer', { deviceId: 'tasmota-dryer', command: 'toggle', timestamp: new Date() });
+
+    expect(requests[1]!.url).toBe('/tasmota/cm?cmnd=Power+Toggle');
+    expect((await adapter.getDeviceStatus('tasmota-dryer')).state.power).toBe(true);
+  });
+
+  test('posts form bodies with basic auth to OpenDTU', async () => {
+    const result = await adapter.sendCommand('opendtu:1161', {
+      deviceId: 'opendtu:1161',
+      command: 'set_power_limit',
+      parameters: { value: 600 },
+      timestamp: new Date()
+    });
+
+    expect(result.success).toBe(true);
+    expect(requests[0]!.method).toBe('POST');
+    expect(JSON.parse(new URLSearchParams(requests[0]!.body).get('data')!)).toEqual({
+      serial: '116181234567',
+      limit_type: 0,
+      limit_value: 600
+    });
+
+    const status = await adapter.getDeviceStatus('opendtu:1161');
+    expect(status.state).toMatchObject({ powerOutput: 600, dailyGeneration: 1.83, totalGeneration: 412.7, temperature: 38.2 });
+  });
+
+  test('reports devices offline via the profile reachability path', async () => {
+    opendtu.reachable = false;
+    try {
+      expect((await adapter.getDeviceStatus('opendtu:1161')).status).toBe('offline');
+    } finally {
+      opendtu.reachable = true;
+    }
+  });
+
+  test('rejects missing values and unknown commands', async () => {
+    const missing = await adapter.sendCommand('opendtu:1161', { deviceId: 'opendtu:1161', command: 'set_power_limit', timestamp: new Date() });
+    const unknown = await adapter.sendCommand('shelly-kitchen', { deviceId: 'shelly-kitchen', command: 'set_color', timestamp: new Date() });
+
+    expect(missing).toMatchObject({ success: false, error: 'Command set_power_limit requires a value' });
+    expect(unknown.success).toBe(false);
+    expect(requests).toHaveLength(0);
+  });
+
+  test('marks unreachable devices offline without failing the adapter', async () => {
+    await adapter.addDevice({ deviceId: 'shelly-garage', baseUrl: `${baseUrl}/missing`, profile: 'shelly_gen1' });
+
+    expect(await adapter.testDeviceConnection('shelly-garage')).toBe(false);
+    expect((await adapter.getDiagnostics()).devices).toContainEqual(
+      expect.objectContaining({ deviceId: 'shelly-garage', status: 'offline', lastError: expect.stringContaining('HTTP 404') })
+    );
+  });
+
+  test('validates inline profiles with the shared schema', async () => {
+    const invalid = { name: 'broken', manufacturer: 'Acme', model: 'X', deviceType: 'toaster', status: { path: '/s', mappings: {} } };
+
+    await expect(adapter.addDevice({ deviceId: 'acme-1', baseUrl, profile: invalid as any }))
+      .rejects.toThrow('Invalid REST profile broken: deviceType');
+    expect(() => defineRestProfile({ ...invalid, deviceType: 'energy_meter' })).not.toThrow();
+  });
+});
@@ -0,0 +1,712 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery,
+  DeviceStatus,
+  RestDeviceProfile,
+  RestDeviceProfileInput,
+  RestDeviceProfileSchema,
+  RestRequestTemplate,
+  RestStateMapping
+} from '@maestro/shared/types';
+
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import { getJsonPath, renderTemplate } from '../utils/json-path';
+import { REST_PROFILES } from './profiles';
+
+/**
+ * REST/HTTP Adapter
+ *
+ * Implements the BaseProtocolAdapter for devices with a local HTTP API
+ * (Shelly, Tasmota, OpenDTU, custom firmware). Devices are described by
+ * declarative profiles, so a new device family only needs a profile, not code.
+ *
+ * Features:
+ * - Status endpoint with JSON-path mappings into state keys
+ * - Command → method/URL/query/body templates ({{value}}, {{parameters.x}}, {{vars.x}})
+ * - Built-in and custom profiles, validated with RestDeviceProfileSchema
+ * - Basic/bearer authentication per device
+ * - Polling with change detection
+ */
+
+export interface RestDeviceConfig {
+  deviceId: string;
+  baseUrl: string; // e.g. http://192.168.1.50
+  profile: string | RestDeviceProfileInput; // built-in/custom profile name or inline profile
+  name?: string;
+  variables?: Record<string, any>; // overrides profile variables (channel, serial, ...)
+  auth?: {
+    username?: string;
+    password?: string;
+    token?: string; // sent as Bearer token
+  };
+  headers?: Record<string, string>;
+}
+
+export interface RestConfig extends AdapterConfig {
+  options: {
+    pollingInterval?: number; // milliseconds, default: 10000, 0 disables polling
+    devices?: RestDeviceConfig[];
+    profiles?: Record<string, RestDeviceProfileInput>; // custom profiles, referenced by name
+  };
+}
+
+interface RestDevice {
+  deviceId: string;
+  name?: string | undefined;
+  baseUrl: string;
+  profile: RestDeviceProfile;
+  variables: Record<string, any>;
+  auth?: RestDeviceConfig['auth'] | undefined;
+  headers: Record<string, string>;
+  state: Record<string, any>;
+  status: DeviceStatus;
+  lastPolledAt?: Date | undefined;
+  lastError?: string | undefined;
+  addedAt: Date;
+}
+
+/**
+ * REST Protocol Adapter Implementation
+ */
+export class RestAdapter extends BaseProtocolAdapter {
+  private httpClient: AxiosInstance;
+  private devices: Map<string, RestDevice>;
+  private profiles: Map<string, RestDeviceProfile>;
+  private pollingInterval?: NodeJS.Timeout | undefined;
+  private lastPollTime: number = 0;
+
+  constructor(config: RestConfig) {
+    super(config);
+
+    this.devices = new Map();
+    this.profiles = new Map(Object.entries(REST_PROFILES));
+    this.httpClient = axios.create({
+      timeout: config.commandTimeout,
+      headers: { 'User-Agent': 'Maestro-Energy-Management/1.0' }
+    });
+  }
+
+  /**
+   * Initialize the REST adapter
+   */
+  async initialize(): Promise<void> {
+    const config = this.getRestConfig();
+
+    try {
+      for (const [name, profile] of Object.entries(config.options.profiles || {})) {
+        this.profiles.set(name, parseProfile(profile));
+      }
+
+      for (const deviceConfig of config.options.devices || []) {
+        this.registerDevice(deviceConfig);
+      }
+
+      this.connectionStatus.connectionAttempts++;
+      await this.pollDeviceUpdates();
+
+      this.startPolling();
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      this.log('info', 'REST adapter initialized successfully', {
+        devices: this.devices.size,
+        profiles: Array.from(this.profiles.keys())
+      });
+
+    } catch (error) {
+      this.stopPolling();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop polling
+   */
+  async disconnect(): Promise<void> {
+    this.stopPolling();
+    this.isInitialized = false;
+    this.updateConnectionStatus(false);
+
+    this.log('info', 'REST adapter disconnected');
+  }
+
+  /**
+   * Add a device at runtime and read its first status
+   */
+  async addDevice(deviceConfig: RestDeviceConfig): Promise<DeviceDiscovery> {
+    const device = this.registerDevice(deviceConfig);
+    await this.pollDevice(device);
+    return this.mapDeviceToDiscovery(device);
+  }
+
+  /**
+   * Remove a device
+   */
+  removeDevice(deviceId: string): boolean {
+    return this.devices.delete(deviceId);
+  }
+
+  /**
+   * Names of the profiles available to devices (built-in plus custom)
+   */
+  getProfileNames(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  /**
+   * Discover REST devices (configured devices; HTTP has no discovery mechanism)
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const discoveries: DeviceDiscovery[] = [];
+
+    for (const device of this.devices.values()) {
+      if (filters?.deviceType && device.profile.deviceType !== filters.deviceType) continue;
+      if (filters?.profile && device.profile.name !== filters.profile) continue;
+      discoveries.push(this.mapDeviceToDiscovery(device));
+    }
+
+    this.log('info', `Discovered ${discoveries.length} REST devices`);
+    return discoveries;
+  }
+
+  /**
+   * Get detailed device information
+   */
+  async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+    const url = new URL(device.baseUrl);
+
+    return {
+      deviceId: device.deviceId,
+      protocol: 'rest_api',
+      deviceType: device.profile.deviceType,
+      name: device.name,
+      manufacturer: device.profile.manufacturer,
+      model: device.profile.model,
+      capabilities: device.profile.capabilities.map(cap => cap.type),
+      networkInfo: {
+        ipAddress: url.hostname,
+        port: url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80
+      },
+      metadata: {
+        profile: device.profile.name,
+        baseUrl: device.baseUrl,
+        commands: Object.keys(device.profile.commands),
+        lastError: device.lastError
+      }
+    };
+  }
+
+  /**
+   * Send a command by rendering the profile's request template
+   */
+  async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      const { name, template } = this.resolveCommand(device, command);
+      const context = this.createContext(device, command.parameters || {});
+
+      const response = await this.request(device, template, context);
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      this.log('debug', `Command ${name} sent to ${deviceId}`, { status: response.status });
+
+      if (template.refresh) {
+        await this.pollDevice(device);
+      }
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result: { command: name, status: response.status, response: response.data }
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error: describeError(error) });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: describeError(error)
+      };
+    }
+  }
+
+  /**
+   * Read the device status endpoint
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+    const state = await this.readDeviceState(device);
+
+    return {
+      deviceId,
+      status: device.status,
+      state,
+      timestamp: device.lastPolledAt || new Date(),
+      source: 'polling'
+    };
+  }
+
+  /**
+   * Subscribe to device updates (delivered by the polling loop)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
+      deviceId,
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
+    };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from device updates
+   */
+  async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
+  }
+
+  /**
+   * Test connection to specific device (status endpoint answers)
+   */
+  async testDeviceConnection(deviceId: string): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return false;
+    }
+
+    try {
+      await this.readDeviceState(device);
+      return device.status === 'online';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get REST-specific diagnostics
+   */
+  async getDiagnostics(): Promise<Record<string, any>> {
+    const devices = Array.from(this.devices.values());
+
+    return {
+      protocol: 'rest_api',
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      pollingInterval: this.getRestConfig().options.pollingInterval ?? 10000,
+      lastPollTime: this.lastPollTime ? new Date(this.lastPollTime) : null,
+      profiles: Array.from(this.profiles.keys()),
+      devices: devices.map(device => ({
+        deviceId: device.deviceId,
+        profile: device.profile.name,
+        status: device.status,
+        lastPolledAt: device.lastPolledAt,
+        lastError: device.lastError
+      }))
+    };
+  }
+
+  /**
+   * Check if adapter supports a device type
+   */
+  supportsDeviceType(deviceType: DeviceType): boolean {
+    const supportedTypes: DeviceType[] = [
+      'smart_plug',
+      'energy_meter',
+      'solar_inverter',
+      'battery_pack',
+      'heat_pump',
+      'ev_charger'
+    ];
+    return supportedTypes.includes(deviceType);
+  }
+
+  /**
+   * Check if adapter supports a capability
+   */
+  supportsCapability(capability: string): boolean {
+    const supportedCapabilities = [
+      'switch',
+      'dimmer',
+      'energy_meter',
+      'power_control',
+      'energy_storage',
+      'temperature_sensor'
+    ];
+    return supportedCapabilities.includes(capability);
+  }
+
+  /**
+   * Validate command before sending
+   */
+  async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+
+    const device = this.getDevice(deviceId);
+    const { name, template } = this.resolveCommand(device, command);
+
+    if (usesValue(template) && (command.parameters?.value === undefined || command.parameters.value === null)) {
+      throw new Error(`Command ${name} requires a value`);
+    }
+    this.assertValidCommand(command, device.profile.capabilities);
+    return true;
+  }
+
+  /**
+   * Validate REST device ID format
+   */
+  protected validateDeviceId(deviceId: string): boolean {
+    return validateDeviceId(deviceId, 'rest_api').isValid;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed REST configuration
+   */
+  private getRestConfig(): RestConfig {
+    return this.config as RestConfig;
+  }
+
+  /**
+   * Resolve the profile and register a device
+   */
+  private registerDevice(deviceConfig: RestDeviceConfig): RestDevice {
+    if (!this.validateDeviceId(deviceConfig.deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceConfig.deviceId}`);
+    }
+
+    const profile = typeof deviceConfig.profile === 'string'
+      ? this.profiles.get(deviceConfig.profile)
+      : parseProfile(deviceConfig.profile);
+    if (!profile) {
+      throw new Error(`Unknown REST profile: ${deviceConfig.profile}`);
+    }
+
+    const device: RestDevice = {
+      deviceId: deviceConfig.deviceId,
+      name: deviceConfig.name,
+      baseUrl: deviceConfig.baseUrl.replace(/\/+$/, ''),
+      profile,
+      variables: { ...profile.variables, ...(deviceConfig.variables || {}) },
+      auth: deviceConfig.auth,
+      headers: deviceConfig.headers || {},
+      state: {},
+      status: 'unknown',
+      addedAt: new Date()
+    };
+
+    this.devices.set(device.deviceId, device);
+    return device;
+  }
+
+  private getDevice(deviceId: string): RestDevice {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown REST device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  /**
+   * Template context shared by status and command requests
+   */
+  private createContext(device: RestDevice, parameters: Record<string, any>): Record<string, any> {
+    return {
+      value: parameters.value,
+      parameters,
+      vars: device.variables,
+      deviceId: device.deviceId
+    };
+  }
+
+  /**
+   * Resolve a command to its request template
+   */
+  private resolveCommand(
+    device: RestDevice,
+    command: DeviceCommand
+  ): { name: string; template: RestDeviceProfile['commands'][string] } {
+    let name = command.command;
+    const commands = device.profile.commands;
+
+    // Profiles without a native toggle switch from the cached state
+    if (name === 'toggle' && !commands.toggle && commands.turn_on && commands.turn_off) {
+      name = device.state.power ? 'turn_off' : 'turn_on';
+    }
+
+    const template = commands[name];
+    if (!template) {
+      throw new Error(`Unsupported command for ${device.deviceId}: ${command.command}`);
+    }
+    return { name, template };
+  }
+
+  /**
+   * Render a request template and execute it against the device
+   */
+  private async request(device: RestDevice, template: RestRequestTemplate, context: Record<string, any>) {
+    const headers: Record<string, string> = {
+      ...device.headers,
+      ...(renderTemplate(template.headers || {}, context) as Record<string, string>)
+    };
+    if (device.auth?.token) {
+      headers.Authorization = `Bearer ${device.auth.token}`;
+    }
+
+    const requestConfig: AxiosRequestConfig = {
+      method: template.method,
+      url: `${device.baseUrl}${renderString(template.path, context)}`,
+      params: template.query ? renderTemplate(template.query, context) : undefined,
+      headers,
+      responseType: 'text',
+      transformResponse: data => data
+    };
+
+    if (device.auth?.username) {
+      requestConfig.auth = { username: device.auth.username, password: device.auth.password || '' };
+    }
+
+    if (template.body !== undefined) {
+      const body = renderTemplate(template.body, context);
+      if (template.bodyType === 'form') {
+        requestConfig.data = new URLSearchParams(
+          Object.entries(body as Record<string, any>).map(([key, value]): [string, string] => [key, String(value)])
+        ).toString();
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      } else if (template.bodyType === 'text') {
+        requestConfig.data = String(body);
+        headers['Content-Type'] = headers['Content-Type'] || 'text/plain';
+      } else {
+        requestConfig.data = JSON.stringify(body);
+        headers['Content-Type'] = 'application/json';
+      }
+      this.stats.bytesTransferred += Buffer.byteLength(requestConfig.data);
+    }
+
+    const response = await this.httpClient.request<string>(requestConfig);
+    this.stats.bytesTransferred += Buffer.byteLength(response.data || '');
+
+    return { status: response.status, data: parseBody(response.data) };
+  }
+
+  /**
+   * Read and map the status endpoint; updates cached state and status
+   */
+  private async readDeviceState(device: RestDevice): Promise<Record<string, any>> {
+    const context = this.createContext(device, {});
+
+    try {
+      const { data } = await this.request(device, device.profile.status, context);
+      const state = extractState(data, device.profile.status.mappings, context);
+      const onlinePath = device.profile.status.onlinePath;
+      const reachable = onlinePath ? getJsonPath(data, renderString(onlinePath, context)) !== false : true;
+
+      device.state = state;
+      device.status = reachable ? 'online' : 'offline';
+      device.lastPolledAt = new Date();
+      device.lastError = undefined;
+      return { ...state };
+
+    } catch (error) {
+      device.status = 'offline';
+      device.lastError = describeError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Poll one device and emit an update when state or status changed
+   */
+  private async pollDevice(device: RestDevice): Promise<void> {
+    const previousStatus = device.status;
+    const previousState = JSON.stringify(device.state);
+
+    try {
+      await this.readDeviceState(device);
+    } catch (error) {
+      this.log('warn', `Polling failed for device ${device.deviceId}`, describeError(error));
+    }
+
+    if (device.status !== previousStatus || JSON.stringify(device.state) !== previousState) {
+      this.emitDeviceUpdate({
+        deviceId: device.deviceId,
+        status: device.status,
+        state: { ...device.state },
+        timestamp: device.lastPolledAt || new Date(),
+        source: 'polling'
+      });
+    }
+  }
+
+  /**
+   * Start polling configured devices
+   */
+  private startPolling(): void {
+    const interval = this.getRestConfig().options.pollingInterval ?? 10000;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.pollingInterval = setInterval(async () => {
+      await this.pollDeviceUpdates();
+    }, interval);
+
+    this.log('debug', `Started polling with interval ${interval}ms`);
+  }
+
+  private stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = undefined;
+    }
+  }
+
+  /**
+   * Poll every device; devices are independent, so requests run in parallel
+   */
+  private async pollDeviceUpdates(): Promise<void> {
+    await Promise.all(Array.from(this.devices.values()).map(device => this.pollDevice(device)));
+    this.lastPollTime = Date.now();
+  }
+
+  /**
+   * Map a REST device to DeviceDiscovery
+   */
+  private mapDeviceToDiscovery(device: RestDevice): DeviceDiscovery {
+    return {
+      protocol: 'rest_api',
+      deviceId: device.deviceId,
+      deviceType: device.profile.deviceType,
+      name: device.name,
+      specifications: {
+        manufacturer: device.profile.manufacturer,
+        model: device.profile.model
+      },
+      capabilities: device.profile.capabilities,
+      networkInfo: {
+        ipAddress: new URL(device.baseUrl).hostname
+      },
+      discoveredAt: device.addedAt,
+      confidence: device.status === 'online' ? 1.0 : 0.8
+    };
+  }
+}
+
+/**
+ * Validate a profile with the shared schema, with a readable error
+ */
+function parseProfile(profile: RestDeviceProfileInput): RestDeviceProfile {
+  const result = RestDeviceProfileSchema.safeParse(profile);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid REST profile ${profile?.name || '(unnamed)'}: ${issues}`);
+  }
+  return result.data;
+}
+
+function renderString(template: string, context: Record<string, any>): string {
+  const rendered = renderTemplate(template, context);
+  return rendered === undefined || rendered === null ? '' : String(rendered);
+}
+
+/**
+ * Whether a command template references {{value}}
+ */
+function usesValue(template: RestRequestTemplate): boolean {
+  return /\{\{\s*value\s*\}\}/.test(JSON.stringify([template.path, template.query, template.body]));
+}
+
+/**
+ * Decode a response body as JSON, falling back to plain text
+ */
+function parseBody(body: string | undefined): unknown {
+  if (body === undefined || body === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Apply status mappings to a decoded response (paths may use {{vars.x}})
+ */
+function extractState(
+  payload: unknown,
+  mappings: Record<string, RestStateMapping>,
+  context: Record<string, any>
+): Record<string, any> {
+  const state: Record<string, any> = {};
+
+  for (const [key, mapping] of Object.entries(mappings)) {
+    const { path, values, scale } = typeof mapping === 'string' ? { path: mapping, values: undefined, scale: undefined } : mapping;
+    let value = getJsonPath(payload, renderString(path, context));
+    if (value === undefined) continue;
+
+    if (values && String(value) in values) {
+      value = values[String(value)];
+    } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      value = Number(value);
+    }
+    if (scale !== undefined && typeof value === 'number') {
+      value = Number((value * scale).toPrecision(12));
+    }
+
+    state[key] = value;
+  }
+  return state;
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response
+      ? `HTTP ${error.response.status} from ${error.config?.url}`
+      : `${error.code || 'Request failed'}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { RestDeviceProfileSchema } from '@maestro/shared/types';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { RestConfig } from './adapter';
+
+/**
+ * REST adapter plugin (profile-driven HTTP devices)
+ */
+export const restPlugin = defineAdapterPlugin<RestConfig>({
+  protocol: 'rest_api',
+  name: '@maestro/protocol-adapters/rest',
+  description: 'Local HTTP APIs (Shelly, Tasmota, OpenDTU) described by device profiles',
+  configSchema: z.object({
+    pollingInterval: z.number().int().nonnegative().optional(),
+    devices: z.array(z.object({
+      deviceId: z.string().min(1),
+      baseUrl: z.string().url(),
+      profile: z.union([z.string(), RestDeviceProfileSchema])
+    }).passthrough()).optional(),
+    profiles: z.record(RestDeviceProfileSchema).optional()
+  }).passthrough(),
+  deviceTypes: ['smart_plug', 'energy_meter', 'solar_inverter', 'battery_pack', 'heat_pump', 'ev_charger'],
+  capabilities: ['switch', 'dimmer', 'energy_meter', 'power_control', 'energy_storage', 'temperature_sensor'],
+  create: async config => {
+    const { RestAdapter } = await import('./adapter');
+    return new RestAdapter(config);
+  }
+});
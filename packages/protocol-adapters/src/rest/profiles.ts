@@ -0,0 +1,187 @@
+import {
+  RestDeviceProfile,
+  RestDeviceProfileInput,
+  RestDeviceProfileSchema
+} from '@maestro/shared/types';
+
+/**
+ * Built-in REST Device Profiles
+ *
+ * Declarative descriptions of common local HTTP APIs. State keys follow the
+ * shared device state helpers (SmartPlugState, SolarInverterState) so REST
+ * devices look the same as their Tuya or Modbus counterparts.
+ *
+ * Template context: {{value}}, {{parameters.x}}, {{vars.x}}, {{deviceId}}
+ */
+
+/**
+ * Validate a profile and apply schema defaults
+ */
+export function defineRestProfile(profile: RestDeviceProfileInput): RestDeviceProfile {
+  return RestDeviceProfileSchema.parse(profile);
+}
+
+const SWITCH_CAPABILITY = {
+  type: 'switch' as const,
+  properties: { writable: true, fields: ['power'] },
+  commands: ['turn_on', 'turn_off', 'toggle'],
+  readOnly: false
+};
+
+const PLUG_METER_CAPABILITY = {
+  type: 'energy_meter' as const,
+  properties: { writable: false, unit: 'W', fields: ['energyConsumption', 'totalEnergy'] },
+  commands: [],
+  readOnly: true
+};
+
+/**
+ * Shelly Gen1 relays (Plug S, 1PM, 2.5): /status and /relay/{channel}
+ */
+export const SHELLY_GEN1_PROFILE = defineRestProfile({
+  name: 'shelly_gen1',
+  manufacturer: 'Shelly',
+  model: 'Gen1 Relay',
+  deviceType: 'smart_plug',
+  variables: { channel: 0 },
+  status: {
+    path: '/status',
+    mappings: {
+      power: 'relays[{{vars.channel}}].ison',
+      energyConsumption: 'meters[{{vars.channel}}].power',
+      totalEnergy: { path: 'meters[{{vars.channel}}].total', scale: 1 / 60000 }, // watt-minutes
+      temperature: 'temperature'
+    }
+  },
+  commands: {
+    turn_on: { path: '/relay/{{vars.channel}}', query: { turn: 'on' } },
+    turn_off: { path: '/relay/{{vars.channel}}', query: { turn: 'off' } },
+    toggle: { path: '/relay/{{vars.channel}}', query: { turn: 'toggle' } }
+  },
+  capabilities: [SWITCH_CAPABILITY, PLUG_METER_CAPABILITY]
+});
+
+/**
+ * Shelly Gen2/Gen3 switches (Plus Plug S, Plus 1PM): RPC over HTTP GET
+ */
+export const SHELLY_GEN2_PROFILE = defineRestProfile({
+  name: 'shelly_gen2',
+  manufacturer: 'Shelly',
+  model: 'Plus Switch',
+  deviceType: 'smart_plug',
+  variables: { channel: 0 },
+  status: {
+    path: '/rpc/Switch.GetStatus',
+    query: { id: '{{vars.channel}}' },
+    mappings: {
+      power: 'output',
+      energyConsumption: 'apower',
+      voltage: 'voltage',
+      current: 'current',
+      totalEnergy: { path: 'aenergy.total', scale: 0.001 }, // Wh
+      temperature: 'temperature.tC'
+    }
+  },
+  commands: {
+    turn_on: { path: '/rpc/Switch.Set', query: { id: '{{vars.channel}}', on: 'true' } },
+    turn_off: { path: '/rpc/Switch.Set', query: { id: '{{vars.channel}}', on: 'false' } },
+    toggle: { path: '/rpc/Switch.Toggle', query: { id: '{{vars.channel}}' } }
+  },
+  capabilities: [SWITCH_CAPABILITY, PLUG_METER_CAPABILITY]
+});
+
+/**
+ * Tasmota plugs with energy monitoring: web commands on /cm
+ */
+export const TASMOTA_PROFILE = defineRestProfile({
+  name: 'tasmota',
+  manufacturer: 'Tasmota',
+  model: 'Energy Plug',
+  deviceType: 'smart_plug',
+  status: {
+    path: '/cm',
+    query: { cmnd: 'Status 0' },
+    mappings: {
+      power: { path: 'StatusSTS.POWER', values: { ON: true, OFF: false } },
+      energyConsumption: 'StatusSNS.ENERGY.Power',
+      voltage: 'StatusSNS.ENERGY.Voltage',
+      current: 'StatusSNS.ENERGY.Current',
+      totalEnergy: 'StatusSNS.ENERGY.Total',
+      dailyEnergy: 'StatusSNS.ENERGY.Today'
+    }
+  },
+  commands: {
+    turn_on: { path: '/cm', query: { cmnd: 'Power On' } },
+    turn_off: { path: '/cm', query: { cmnd: 'Power Off' } },
+    toggle: { path: '/cm', query: { cmnd: 'Power Toggle' } }
+  },
+  capabilities: [SWITCH_CAPABILITY, PLUG_METER_CAPABILITY]
+});
+
+/**
+ * OpenDTU (Hoymiles microinverters); one device per inverter serial
+ */
+export const OPENDTU_PROFILE = defineRestProfile({
+  name: 'opendtu',
+  manufacturer: 'Hoymiles',
+  model: 'OpenDTU Inverter',
+  deviceType: 'solar_inverter',
+  variables: { serial: '' },
+  status: {
+    path: '/api/livedata/status',
+    query: { inv: '{{vars.serial}}' },
+    onlinePath: 'inverters[0].reachable',
+    mappings: {
+      powerOutput: 'inverters[0].AC["0"].Power.v',
+      gridVoltage: 'inverters[0].AC["0"].Voltage.v',
+      gridFrequency: 'inverters[0].AC["0"].Frequency.v',
+      dailyGeneration: { path: 'inverters[0].AC["0"].YieldDay.v', scale: 0.001 }, // Wh
+      totalGeneration: 'inverters[0].AC["0"].YieldTotal.v',
+      temperature: 'inverters[0].INV["0"].Temperature.v',
+      producing: 'inverters[0].producing',
+      limitRelative: 'inverters[0].limit_relative'
+    }
+  },
+  commands: {
+    turn_on: {
+      method: 'POST',
+      path: '/api/power/config',
+      bodyType: 'form',
+      body: { data: '{"serial":"{{vars.serial}}","power":true}' }
+    },
+    turn_off: {
+      method: 'POST',
+      path: '/api/power/config',
+      bodyType: 'form',
+      body: { data: '{"serial":"{{vars.serial}}","power":false}' }
+    },
+    set_power_limit: {
+      method: 'POST',
+      path: '/api/limit/config',
+      bodyType: 'form',
+      // limit_type 0: absolute watts, not persisted
+      body: { data: '{"serial":"{{vars.serial}}","limit_type":0,"limit_value":{{value}}}' }
+    }
+  },
+  capabilities: [
+    {
+      type: 'energy_meter',
+      properties: { writable: false, unit: 'W', fields: ['powerOutput', 'dailyGeneration', 'totalGeneration'] },
+      commands: [],
+      readOnly: true
+    },
+    {
+      type: 'power_control',
+      properties: { writable: true, unit: 'W' },
+      commands: ['turn_on', 'turn_off', 'set_power_limit'],
+      readOnly: false
+    }
+  ]
+});
+
+export const REST_PROFILES: Record<string, RestDeviceProfile> = {
+  shelly_gen1: SHELLY_GEN1_PROFILE,
+  shelly_gen2: SHELLY_GEN2_PROFILE,
+  tasmota: TASMOTA_PROFILE,
+  opendtu: OPENDTU_PROFILE
+};
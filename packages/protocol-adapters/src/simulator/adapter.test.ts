@@ -0,0 +1,199 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import type { DeviceStatusUpdate } from '@maestro/shared/types';
+
+import { SimulatorAdapter, SimulatorConfig } from './adapter';
+import { SimulatedDeviceConfig } from './models';
+
+/**
+ * Device Simulator Tests
+ *
+ * The clock is stepped manually (tickInterval 0) from a fixed midsummer
+ * night in Berlin, so every run sees the same sun and the same noise.
+ */
+
+const MIDSUMMER = Date.UTC(2024, 5, 21, 0, 0); // 01:00 local (UTC+1, derived from the longitude)
+const HOUR = 3_600_000;
+
+function createConfig(options: Partial<SimulatorConfig['options']> = {}): SimulatorConfig {
+  return {
+    protocol: 'simulator',
+    name: 'Test Simulator',
+    enabled: true,
+    connectionTimeout: 1000,
+    commandTimeout: 1000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 10,
+    options: { seed: 42, startTime: MIDSUMMER, tickInterval: 0, ...options }
+  };
+}
+
+async function createAdapter(options: Partial<SimulatorConfig['options']> = {}): Promise<SimulatorAdapter> {
+  const adapter = new SimulatorAdapter(createConfig(options));
+  adapters.push(adapter);
+  await adapter.initialize();
+  return adapter;
+}
+
+async function state(adapter: SimulatorAdapter, deviceId: string): Promise<Record<string, any>> {
+  return (await adapter.getDeviceStatus(deviceId)).state;
+}
+
+const adapters: SimulatorAdapter[] = [];
+
+afterEach(async () => {
+  await Promise.all(adapters.splice(0).map(adapter => adapter.disconnect()));
+});
+
+describe('SimulatorAdapter', () => {
+  test('discovers the demo household', async () => {
+    const adapter = await createAdapter();
+
+    const devices = await adapter.discoverDevices();
+    expect(devices.map(device => device.deviceId)).toEqual([
+      'sim-grid-meter', 'sim-pv-inverter', 'sim-battery', 'sim-plug-fridge', 'sim-plug-washer', 'sim-plug-tv'
+    ]);
+    expect(devices.every(device => device.protocol === 'simulator' && device.confidence === 1)).toBe(true);
+    expect(await adapter.discoverDevices({ deviceType: 'battery_pack' })).toHaveLength(1);
+    expect((await adapter.getDeviceInfo('sim-plug-fridge')).metadata).toMatchObject({ kind: 'plug', appliance: 'fridge' });
+  });
+
+  test('produces identical telemetry for the same seed', async () => {
+    const first = await createAdapter();
+    const second = await createAdapter();
+    const other = await createAdapter({ seed: 7 });
+
+    for (const adapter of [first, second, other]) {
+      adapter.advanceTime(11 * HOUR);
+    }
+
+    expect(await state(first, 'sim-pv-inverter')).toEqual(await state(second, 'sim-pv-inverter'));
+    expect(first.getSiteBalance()).toEqual(second.getSiteBalance());
+    expect((await state(other, 'sim-pv-inverter')).cloudCover)
+      .not.toBe((await state(first, 'sim-pv-inverter')).cloudCover);
+  });
+
+  test('follows the sun: dark at night, peaking around solar noon', async () => {
+    const devices: SimulatedDeviceConfig[] = [
+      { kind: 'solar', deviceId: 'pv', peakPower: 5000, cloudiness: 0, cloudVariability: 0 }
+    ];
+    const adapter = await createAdapter({ devices });
+
+    const output: number[] = [];
+    let dailyGeneration = 0;
+    for (let hour = 0; hour < 24; hour++) {
+      adapter.advanceTime(HOUR);
+      const pv = await state(adapter, 'pv');
+      output.push(pv.powerOutput);
+      dailyGeneration = Math.max(dailyGeneration, pv.dailyGeneration);
+    }
+
+    // Index i holds the output at (i + 1):00 UTC, local solar noon is ~11:10 UTC
+    expect(output[21]).toBe(0);
+    expect(output[0]).toBe(0);
+    const peak = output.indexOf(Math.max(...output));
+    expect(peak).toBeGreaterThanOrEqual(9);
+    expect(peak).toBeLessThanOrEqual(11);
+    expect(output[peak]).toBeGreaterThan(3000);
+    expect(output[peak]).toBeLessThan(5000);
+    expect(dailyGeneration).toBeGreaterThan(25);
+  });
+
+  test('balances the grid meter against loads, PV and the battery', async () => {
+    const adapter = await createAdapter();
+    adapter.advanceTime(5 * HOUR);
+
+    const balance = adapter.getSiteBalance();
+    const meter = await state(adapter, 'sim-grid-meter');
+    const battery = await state(adapter, 'sim-battery');
+
+    expect(balance.grid).toBeCloseTo(balance.consumption + balance.battery - balance.production, 6);
+    expect(meter.power).toBeCloseTo(balance.grid, 0);
+    expect(battery.chargingPower).toBeCloseTo(balance.battery, 0);
+    // Morning surplus in self-consumption mode goes into the battery
+    expect(balance.production).toBeGreaterThan(balance.consumption);
+    expect(battery.mode).toBe('charging');
+  });
+
+  test('charges and discharges the battery on command', async () => {
+    const adapter = await createAdapter();
+    const initial = (await state(adapter, 'sim-battery')).chargeLevel;
+
+    const charge = await adapter.sendCommand('sim-battery', { command: 'set_charge_power', parameters: { power: 3000 } });
+    expect(charge).toMatchObject({ success: true, result: { operatingMode: 'manual', setpoint: 3000 } });
+    adapter.advanceTime(HOUR);
+    const charged = await state(adapter, 'sim-battery');
+    expect(charged.chargingPower).toBe(3000);
+    expect(charged.chargeLevel).toBeGreaterThan(initial + 25);
+    expect(charged.chargeLevel).toBeLessThan(initial + 30);
+
+    await adapter.sendCommand('sim-battery', { command: 'set_mode', parameters: { mode: 'discharge' } });
+    adapter.advanceTime(3 * HOUR);
+    const discharged = await state(adapter, 'sim-battery');
+    expect(discharged.mode).toBe('idle');
+    expect(discharged.chargeLevel).toBeCloseTo(discharged.reserve, 0);
+    expect(adapter.getSiteBalance().battery).toBe(0);
+  });
+
+  test('switching a plug off drops its draw and emits an update', async () => {
+    const adapter = await createAdapter({ startTime: Date.UTC(2024, 5, 21, 18, 0) }); // TV on from 18:30 local (UTC+1)
+    adapter.advanceTime(60_000);
+    expect((await state(adapter, 'sim-plug-tv')).energyConsumption).toBeGreaterThan(80);
+
+    const updates: DeviceStatusUpdate[] = [];
+    adapter.on('deviceUpdate', update => updates.push(update));
+
+    expect((await adapter.sendCommand('sim-plug-tv', { command: 'turn_off' })).success).toBe(true);
+    expect(updates[0]).toMatchObject({ deviceId: 'sim-plug-tv', source: 'manual', state: { power: false, energyConsumption: 0 } });
+
+    adapter.advanceTime(60_000);
+    expect((await state(adapter, 'sim-plug-tv')).energyConsumption).toBe(0);
+    expect(updates.some(update => update.source === 'polling' && update.deviceId === 'sim-grid-meter')).toBe(true);
+  });
+
+  test('rejects unsupported commands and invalid parameters', async () => {
+    const adapter = await createAdapter();
+
+    expect(await adapter.sendCommand('sim-plug-tv', { command: 'set_brightness', parameters: { value: 10 } }))
+      .toMatchObject({ success: false, error: 'Unsupported command for sim-plug-tv: set_brightness' });
+    expect(await adapter.sendCommand('sim-battery', { command: 'set_reserve', parameters: { percent: 140 } }))
+      .toMatchObject({ success: false, error: 'Invalid command set_reserve: percent must be between 0 and 100' });
+    expect(await adapter.sendCommand('sim-pv-inverter', { command: 'set_power_limit', parameters: { percent: 50.5 } }))
+      .toMatchObject({ success: false, error: 'Invalid command set_power_limit: percent must be a multiple of 1 from 0' });
+    expect(await adapter.sendCommand('missing', { command: 'turn_on' }))
+      .toMatchObject({ success: false, error: 'Device missing not found' });
+  });
+
+  test('holds queued commands until the adapter is connected', async () => {
+    const adapter = new SimulatorAdapter(createConfig());
+    adapters.push(adapter);
+
+    const queued = adapter.queueCommand('sim-battery', {
+      deviceId: 'sim-battery',
+      command: 'set_mode',
+      parameters: { mode: 'charge' },
+      timestamp: new Date(),
+      priority: 'high'
+    });
+    expect(adapter.getQueuedCommands('sim-battery')).toEqual([
+      expect.objectContaining({ command: 'set_mode', priority: 'high' })
+    ]);
+
+    await adapter.initialize();
+    await expect(queued).resolves.toMatchObject({ success: true, result: { operatingMode: 'charge' } });
+    expect(adapter.getQueuedCommands()).toHaveLength(0);
+  });
+
+  test('adds and removes devices at runtime', async () => {
+    const adapter = await createAdapter({ devices: [] });
+
+    adapter.addDevice({ kind: 'plug', deviceId: 'kettle', appliance: { kind: 'constant', power: 2000 } });
+    adapter.advanceTime(60_000);
+    expect(adapter.getSiteBalance()).toMatchObject({ production: 0, battery: 0 });
+    expect(adapter.getSiteBalance().consumption).toBeCloseTo(2000, -2);
+
+    expect(() => adapter.addDevice({ kind: 'plug', deviceId: 'kettle', appliance: 'tv' })).toThrow('already exists');
+    expect(adapter.removeDevice('kettle')).toBe(true);
+    expect(await adapter.discoverDevices()).toHaveLength(0);
+  });
+});
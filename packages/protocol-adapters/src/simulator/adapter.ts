@@ -0,0 +1,479 @@
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery
+} from '@maestro/shared/types';
+
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import { SimulationClock } from './random';
+import { SiteLocation } from './solar';
+import {
+  AnySimulatedDevice,
+  CommandError,
+  DEMO_SITE_DEVICES,
+  SimulatedDeviceConfig,
+  SimulatedSite,
+  SiteBalance
+} from './models';
+
+/**
+ * Device Simulator Adapter
+ *
+ * Implements the BaseProtocolAdapter for synthetic devices, so demos,
+ * frontend work and integration tests run without hardware or cloud accounts.
+ *
+ * Features:
+ * - Smart plugs with appliance load profiles (fridge, washing machine, TV, ...)
+ * - PV inverters following a clear-sky curve with cloud noise
+ * - Batteries with state-of-charge physics, self-consumption and forced modes
+ * - A grid meter balancing the site
+ * - Deterministic seeding and time acceleration (telemetry carries simulated time)
+ */
+
+export interface SimulatorConfig extends AdapterConfig {
+  options: {
+    seed?: number; // default: 1
+    timeScale?: number; // simulated seconds per real second, default: 1
+    startTime?: string | number; // simulated start (ISO date or epoch ms), default: now
+    tickInterval?: number; // real milliseconds between steps, default: 1000, 0: only advanceTime()
+    maxStep?: number; // longest simulated step in seconds, default: 60
+    location?: SiteLocation; // default: Berlin
+    utcOffset?: number; // minutes, default: derived from the longitude
+    devices?: SimulatedDeviceConfig[]; // default: demo household
+  };
+}
+
+/**
+ * Simulator Protocol Adapter Implementation
+ */
+export class SimulatorAdapter extends BaseProtocolAdapter {
+  private site: SimulatedSite;
+  private clock: SimulationClock;
+  private tickTimer?: NodeJS.Timeout | undefined;
+  private lastTickAt: number = 0;
+  private lastStates: Map<string, string>;
+  private addedAt: Date;
+
+  constructor(config: SimulatorConfig) {
+    super(config);
+
+    const options = config.options || {};
+    this.clock = new SimulationClock(
+      options.startTime !== undefined ? new Date(options.startTime) : new Date(),
+      options.timeScale ?? 1
+    );
+    this.site = new SimulatedSite({
+      seed: options.seed,
+      location: options.location,
+      utcOffset: options.utcOffset,
+      devices: []
+    });
+    this.lastStates = new Map();
+    this.addedAt = new Date();
+  }
+
+  /**
+   * Initialize the simulator: create the devices and start the clock
+   */
+  async initialize(): Promise<void> {
+    const config = this.getSimulatorConfig();
+
+    try {
+      for (const deviceConfig of config.options.devices || DEMO_SITE_DEVICES) {
+        this.registerDevice(deviceConfig);
+      }
+
+      this.connectionStatus.connectionAttempts++;
+      this.site.step(this.clock.now(), 0);
+      this.rememberStates();
+
+      this.startTicking();
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      this.log('info', 'Simulator adapter initialized successfully', {
+        devices: this.site.getDevices().length,
+        seed: config.options.seed ?? 1,
+        timeScale: this.clock.timeScale,
+        simulationTime: this.clock.now()
+      });
+
+    } catch (error) {
+      this.stopTicking();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the clock
+   */
+  async disconnect(): Promise<void> {
+    this.stopTicking();
+    this.isInitialized = false;
+    this.updateConnectionStatus(false);
+
+    this.log('info', 'Simulator adapter disconnected');
+  }
+
+  /**
+   * Advance simulated time and publish the devices whose state changed
+   */
+  advanceTime(ms: number): SiteBalance {
+    const maxStep = (this.getSimulatorConfig().options.maxStep ?? 60) * 1000;
+    let remaining = ms;
+
+    while (remaining > 0) {
+      const step = Math.min(remaining, maxStep);
+      this.site.step(this.clock.advance(step), step / 1000);
+      remaining -= step;
+    }
+
+    for (const device of this.site.getDevices()) {
+      const state = JSON.stringify(device.getState());
+      if (this.lastStates.get(device.deviceId) !== state) {
+        this.lastStates.set(device.deviceId, state);
+        this.publish(device, 'polling');
+      }
+    }
+
+    return this.site.getBalance();
+  }
+
+  /**
+   * Current simulated time
+   */
+  getSimulationTime(): Date {
+    return this.clock.now();
+  }
+
+  /**
+   * Power balance of the last step (consumption, production, battery, grid)
+   */
+  getSiteBalance(): SiteBalance {
+    return this.site.getBalance();
+  }
+
+  /**
+   * Add a simulated device at runtime
+   */
+  addDevice(deviceConfig: SimulatedDeviceConfig): DeviceDiscovery {
+    const device = this.registerDevice(deviceConfig);
+    this.lastStates.set(device.deviceId, JSON.stringify(device.getState()));
+    return this.mapDeviceToDiscovery(device);
+  }
+
+  /**
+   * Remove a simulated device
+   */
+  removeDevice(deviceId: string): boolean {
+    this.lastStates.delete(deviceId);
+    return this.site.removeDevice(deviceId);
+  }
+
+  /**
+   * Discover simulated devices
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const discoveries = this.site.getDevices()
+      .filter(device => !filters?.deviceType || device.deviceType === filters.deviceType)
+      .map(device => this.mapDeviceToDiscovery(device));
+
+    this.log('info', `Discovered ${discoveries.length} simulated devices`);
+    return discoveries;
+  }
+
+  /**
+   * Get detailed device information
+   */
+  async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+
+    return {
+      deviceId: device.deviceId,
+      protocol: 'simulator',
+      deviceType: device.deviceType,
+      name: device.name,
+      manufacturer: 'Maestro',
+      model: `Simulated ${device.kind}`,
+      firmwareVersion: '1.0.0',
+      capabilities: device.capabilities.map(cap => cap.type),
+      networkInfo: {
+        networkId: 'simulator'
+      },
+      metadata: {
+        kind: device.kind,
+        commands: device.commands,
+        ...(device.kind === 'plug' ? { appliance: device.appliance } : {})
+      }
+    };
+  }
+
+  /**
+   * Apply a command to the simulated device
+   */
+  async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      const result = device.applyCommand(command.command, command.parameters || {});
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      this.lastStates.set(deviceId, JSON.stringify(device.getState()));
+      this.publish(device, 'manual');
+
+      this.log('debug', `Command ${command.command} applied to ${deviceId}`, { result });
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the current simulated state
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+
+    return {
+      deviceId,
+      status: 'online',
+      state: device.getState(),
+      timestamp: this.clock.now(),
+      source: 'polling'
+    };
+  }
+
+  /**
+   * Subscribe to device updates (delivered on every simulation step)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
+      deviceId,
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
+    };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from device updates
+   */
+  async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
+  }
+
+  /**
+   * Simulated devices are reachable while the adapter runs
+   */
+  async testDeviceConnection(deviceId: string): Promise<boolean> {
+    return this.isConnected() && this.site.getDevice(deviceId) !== undefined;
+  }
+
+  /**
+   * Get simulator diagnostics
+   */
+  async getDiagnostics(): Promise<Record<string, any>> {
+    const options = this.getSimulatorConfig().options;
+
+    return {
+      protocol: 'simulator',
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      seed: options.seed ?? 1,
+      timeScale: this.clock.timeScale,
+      tickInterval: options.tickInterval ?? 1000,
+      simulationTime: this.clock.now(),
+      location: this.site.location,
+      balance: this.site.getBalance(),
+      devices: this.site.getDevices().map(device => ({
+        deviceId: device.deviceId,
+        kind: device.kind,
+        deviceType: device.deviceType
+      }))
+    };
+  }
+
+  /**
+   * Check if adapter supports a device type
+   */
+  supportsDeviceType(deviceType: DeviceType): boolean {
+    const supportedTypes: DeviceType[] = ['smart_plug', 'solar_inverter', 'battery_pack', 'energy_meter'];
+    return supportedTypes.includes(deviceType);
+  }
+
+  /**
+   * Check if adapter supports a capability
+   */
+  supportsCapability(capability: string): boolean {
+    const supportedCapabilities = [
+      'switch',
+      'energy_meter',
+      'power_control',
+      'energy_storage',
+      'temperature_sensor',
+      'grid_interaction'
+    ];
+    return supportedCapabilities.includes(capability);
+  }
+
+  /**
+   * Validate command before sending
+   */
+  async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+
+    const device = this.getDevice(deviceId);
+    if (!device.commands.includes(command.command)) {
+      throw new CommandError(`Unsupported command for ${deviceId}: ${command.command}`);
+    }
+    this.assertValidCommand(command, device.capabilities);
+    return true;
+  }
+
+  /**
+   * Validate simulator device ID format
+   */
+  protected validateDeviceId(deviceId: string): boolean {
+    return validateDeviceId(deviceId, 'simulator').isValid;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed simulator configuration
+   */
+  private getSimulatorConfig(): SimulatorConfig {
+    return this.config as SimulatorConfig;
+  }
+
+  private registerDevice(deviceConfig: SimulatedDeviceConfig): AnySimulatedDevice {
+    if (!this.validateDeviceId(deviceConfig.deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceConfig.deviceId}`);
+    }
+    return this.site.addDevice(deviceConfig);
+  }
+
+  private getDevice(deviceId: string): AnySimulatedDevice {
+    const device = this.site.getDevice(deviceId);
+    if (!device) {
+      throw new Error(`Device ${deviceId} not found`);
+    }
+    return device;
+  }
+
+  private rememberStates(): void {
+    for (const device of this.site.getDevices()) {
+      this.lastStates.set(device.deviceId, JSON.stringify(device.getState()));
+    }
+  }
+
+  private publish(device: AnySimulatedDevice, source: DeviceStatusUpdate['source']): void {
+    this.emitDeviceUpdate({
+      deviceId: device.deviceId,
+      status: 'online',
+      state: device.getState(),
+      timestamp: this.clock.now(),
+      source
+    });
+  }
+
+  /**
+   * Step the site on a real-time timer, scaled by the time acceleration
+   */
+  private startTicking(): void {
+    const interval = this.getSimulatorConfig().options.tickInterval ?? 1000;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.lastTickAt = Date.now();
+    this.tickTimer = setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - this.lastTickAt;
+      this.lastTickAt = now;
+
+      try {
+        this.advanceTime(this.clock.scale(elapsed));
+      } catch (error) {
+        this.log('error', 'Simulation step failed', { error });
+      }
+    }, interval);
+  }
+
+  private stopTicking(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+  }
+
+  private mapDeviceToDiscovery(device: AnySimulatedDevice): DeviceDiscovery {
+    return {
+      protocol: 'simulator',
+      deviceId: device.deviceId,
+      deviceType: device.deviceType,
+      name: device.name,
+      specifications: {
+        manufacturer: 'Maestro',
+        model: `Simulated ${device.kind}`,
+        ...(device.kind === 'solar' ? { maxPower: device.peakPower } : {})
+      },
+      capabilities: device.capabilities,
+      networkInfo: {
+        networkId: 'simulator'
+      },
+      discoveredAt: this.addedAt,
+      confidence: 1.0
+    };
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Appliance Load Profiles
+ *
+ * Declarative power curves for the loads behind simulated smart plugs.
+ * Times are local clock times ("HH:MM"); power is in watts before noise.
+ */
+
+export type ApplianceProfile =
+  | {
+      kind: 'constant';
+      power: number;
+    }
+  | {
+      kind: 'cycle'; // thermostatic loads (fridge, freezer, heater)
+      onPower: number;
+      onMinutes: number;
+      offMinutes: number;
+      offPower?: number;
+      startupPower?: number; // first minute of each on phase (compressor inrush)
+    }
+  | {
+      kind: 'program'; // appliances running a program at fixed times (washing machine)
+      startTimes: string[];
+      phases: Array<{ minutes: number; power: number }>;
+      standby: number;
+    }
+  | {
+      kind: 'window'; // used during time windows (TV, lighting)
+      windows: Array<[string, string]>;
+      power: number;
+      standby: number;
+    };
+
+export const APPLIANCE_PROFILES: Record<string, ApplianceProfile> = {
+  fridge: { kind: 'cycle', onPower: 95, onMinutes: 12, offMinutes: 28, offPower: 2, startupPower: 350 },
+  freezer: { kind: 'cycle', onPower: 120, onMinutes: 18, offMinutes: 30, offPower: 2, startupPower: 400 },
+  heater: { kind: 'cycle', onPower: 1500, onMinutes: 20, offMinutes: 25 },
+  washing_machine: {
+    kind: 'program',
+    startTimes: ['10:00'],
+    phases: [
+      { minutes: 15, power: 2000 }, // heating
+      { minutes: 55, power: 160 }, // washing and rinsing
+      { minutes: 10, power: 450 } // spinning
+    ],
+    standby: 1
+  },
+  dishwasher: {
+    kind: 'program',
+    startTimes: ['20:30'],
+    phases: [
+      { minutes: 20, power: 1900 },
+      { minutes: 50, power: 120 },
+      { minutes: 10, power: 1700 },
+      { minutes: 20, power: 10 }
+    ],
+    standby: 0.5
+  },
+  tv: { kind: 'window', windows: [['18:30', '23:00']], power: 95, standby: 0.5 },
+  lighting: { kind: 'window', windows: [['06:30', '08:00'], ['17:00', '23:30']], power: 60, standby: 0 },
+  router: { kind: 'constant', power: 9 }
+};
+
+/**
+ * Minutes after local midnight for "HH:MM"
+ */
+export function parseClockTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid clock time: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Power draw of an appliance at a point in time
+ *
+ * @param minuteOfDay local minutes after midnight
+ * @param cycleMinute minutes since an arbitrary epoch, shifted per device so
+ *                    identical thermostatic loads do not switch in lockstep
+ */
+export function appliancePower(profile: ApplianceProfile, minuteOfDay: number, cycleMinute: number): number {
+  switch (profile.kind) {
+    case 'constant':
+      return profile.power;
+
+    case 'cycle': {
+      const period = profile.onMinutes + profile.offMinutes;
+      const position = ((cycleMinute % period) + period) % period;
+      if (position >= profile.onMinutes) {
+        return profile.offPower ?? 0;
+      }
+      return position < 1 && profile.startupPower !== undefined ? profile.startupPower : profile.onPower;
+    }
+
+    case 'program': {
+      const duration = profile.phases.reduce((sum, phase) => sum + phase.minutes, 0);
+      for (const start of profile.startTimes) {
+        // Programs may run past midnight
+        const elapsed = (minuteOfDay - parseClockTime(start) + 1440) % 1440;
+        if (elapsed < duration) {
+          let phaseEnd = 0;
+          for (const phase of profile.phases) {
+            phaseEnd += phase.minutes;
+            if (elapsed < phaseEnd) {
+              return phase.power;
+            }
+          }
+        }
+      }
+      return profile.standby;
+    }
+
+    case 'window': {
+      const active = profile.windows.some(([from, to]) => {
+        const start = parseClockTime(from);
+        const end = parseClockTime(to);
+        return start <= end
+          ? minuteOfDay >= start && minuteOfDay < end
+          : minuteOfDay >= start || minuteOfDay < end;
+      });
+      return active ? profile.power : profile.standby;
+    }
+  }
+}
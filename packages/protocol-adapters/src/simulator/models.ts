@@ -0,0 +1,681 @@
+import { DeviceCapability, DeviceType } from '@maestro/shared/types';
+
+import { Random, createRandom, deriveSeed } from './random';
+import { ApplianceProfile, APPLIANCE_PROFILES, appliancePower } from './appliances';
+import { CloudCover, SiteLocation, clamp, clearSkyIrradiance } from './solar';
+
+/**
+ * Simulated Site Models
+ *
+ * A household behind one grid connection: plugs with appliance loads, PV
+ * inverters following the sun, batteries with state-of-charge physics and a
+ * grid meter that balances them. State keys follow the shared
+ * SmartPlugState, SolarInverterState and BatteryPackState, and the meter
+ * uses the same keys as the Modbus/SunSpec meter maps.
+ *
+ * Sign conventions: battery chargingPower > 0 charges, meter power > 0 imports.
+ */
+
+export type SimulatedDeviceKind = 'plug' | 'solar' | 'battery' | 'meter';
+
+interface SimulatedDeviceBase {
+  deviceId: string;
+  name?: string | undefined;
+}
+
+export interface SimulatedPlugConfig extends SimulatedDeviceBase {
+  kind: 'plug';
+  appliance: string | ApplianceProfile; // built-in profile name or inline profile
+  power?: boolean | undefined; // switched on at start, default: true
+}
+
+export interface SimulatedSolarConfig extends SimulatedDeviceBase {
+  kind: 'solar';
+  peakPower?: number | undefined; // Wp, default: 6000
+  performanceRatio?: number | undefined; // default: 0.85
+  cloudiness?: number | undefined; // mean cloud cover 0-1, default: 0.3
+  cloudVariability?: number | undefined; // 0-1, default: 0.5
+  totalGeneration?: number | undefined; // lifetime kWh at start
+}
+
+export type BatteryOperatingMode = 'auto' | 'charge' | 'discharge' | 'idle' | 'manual';
+
+export interface SimulatedBatteryConfig extends SimulatedDeviceBase {
+  kind: 'battery';
+  capacity?: number | undefined; // kWh, default: 10
+  maxChargePower?: number | undefined; // W, default: 5000
+  maxDischargePower?: number | undefined; // W, default: 5000
+  efficiency?: number | undefined; // round trip, default: 0.92
+  chargeLevel?: number | undefined; // % at start, default: 50
+  reserve?: number | undefined; // % kept for backup, default: 10
+  mode?: BatteryOperatingMode | undefined; // default: auto (self-consumption)
+}
+
+export interface SimulatedMeterConfig extends SimulatedDeviceBase {
+  kind: 'meter';
+  baseLoad?: number | undefined; // W of household load not behind a plug, default: 250
+}
+
+export type SimulatedDeviceConfig =
+  | SimulatedPlugConfig
+  | SimulatedSolarConfig
+  | SimulatedBatteryConfig
+  | SimulatedMeterConfig;
+
+export interface SiteConfig {
+  seed?: number | undefined; // default: 1
+  location?: SiteLocation | undefined; // default: Berlin
+  utcOffset?: number | undefined; // minutes, default: derived from the longitude
+  devices: SimulatedDeviceConfig[];
+}
+
+export const DEMO_SITE_DEVICES: SimulatedDeviceConfig[] = [
+  { kind: 'meter', deviceId: 'sim-grid-meter', name: 'Grid Meter' },
+  { kind: 'solar', deviceId: 'sim-pv-inverter', name: 'Rooftop PV', peakPower: 6000 },
+  { kind: 'battery', deviceId: 'sim-battery', name: 'Home Battery', capacity: 10 },
+  { kind: 'plug', deviceId: 'sim-plug-fridge', name: 'Fridge', appliance: 'fridge' },
+  { kind: 'plug', deviceId: 'sim-plug-washer', name: 'Washing Machine', appliance: 'washing_machine' },
+  { kind: 'plug', deviceId: 'sim-plug-tv', name: 'Living Room TV', appliance: 'tv' }
+];
+
+const DEFAULT_LOCATION: SiteLocation = { latitude: 52.52, longitude: 13.405 };
+const AMBIENT_TEMPERATURE = 20; // °C
+
+export class CommandError extends Error {}
+
+/**
+ * Conditions shared by every device during one step
+ */
+interface StepContext {
+  time: Date;
+  minuteOfDay: number;
+  seconds: number;
+  voltage: number;
+  frequency: number;
+}
+
+abstract class SimulatedDevice {
+  abstract readonly kind: SimulatedDeviceKind;
+  abstract readonly deviceType: DeviceType;
+  abstract readonly capabilities: DeviceCapability[];
+  readonly deviceId: string;
+  readonly name: string;
+  protected readonly random: Random;
+
+  constructor(config: SimulatedDeviceBase, seed: number) {
+    this.deviceId = config.deviceId;
+    this.name = config.name || config.deviceId;
+    this.random = createRandom(deriveSeed(seed, config.deviceId));
+  }
+
+  get commands(): string[] {
+    return this.capabilities.flatMap(capability => capability.commands);
+  }
+
+  abstract getState(): Record<string, any>;
+
+  /**
+   * Apply a command; throws CommandError for unknown commands or bad parameters
+   */
+  abstract applyCommand(command: string, parameters: Record<string, any>): Record<string, any>;
+
+  protected unsupported(command: string): never {
+    throw new CommandError(`Unsupported command for ${this.deviceId}: ${command}`);
+  }
+}
+
+export class SimulatedPlug extends SimulatedDevice {
+  readonly kind = 'plug';
+  readonly deviceType = 'smart_plug';
+  readonly capabilities: DeviceCapability[] = [
+    {
+      type: 'switch',
+      properties: { writable: true, fields: ['power'] },
+      commands: ['turn_on', 'turn_off', 'toggle'],
+      readOnly: false
+    },
+    {
+      type: 'energy_meter',
+      properties: { writable: false, unit: 'W', fields: ['energyConsumption', 'voltage', 'current', 'totalEnergy'] },
+      commands: [],
+      readOnly: true
+    }
+  ];
+
+  readonly appliance: string;
+  private readonly profile: ApplianceProfile;
+  private readonly cycleOffset: number;
+  private power: boolean;
+  private draw = 0;
+  private voltage = 230;
+  private totalEnergy = 0;
+
+  constructor(config: SimulatedPlugConfig, seed: number) {
+    super(config, seed);
+    const profile = typeof config.appliance === 'string' ? APPLIANCE_PROFILES[config.appliance] : config.appliance;
+    if (!profile) {
+      throw new Error(`Unknown appliance profile: ${config.appliance}`);
+    }
+    this.profile = profile;
+    this.appliance = typeof config.appliance === 'string' ? config.appliance : 'custom';
+    this.power = config.power ?? true;
+    this.cycleOffset = Math.floor(this.random.between(0, 1440));
+  }
+
+  /**
+   * Advance and return the power draw in W
+   */
+  step(context: StepContext): number {
+    this.voltage = context.voltage + this.random.normal(0, 0.3);
+
+    if (this.power) {
+      const cycleMinute = Math.floor(context.time.getTime() / 60_000) + this.cycleOffset;
+      const nominal = appliancePower(this.profile, context.minuteOfDay, cycleMinute);
+      this.draw = nominal > 0.5 ? Math.max(0, nominal * (1 + this.random.normal(0, 0.02))) : nominal;
+    } else {
+      this.draw = 0;
+    }
+
+    this.totalEnergy += (this.draw * context.seconds) / 3_600_000;
+    return this.draw;
+  }
+
+  getState(): Record<string, any> {
+    return {
+      power: this.power,
+      energyConsumption: round(this.draw, 1),
+      voltage: round(this.voltage, 1),
+      current: round(this.draw / this.voltage, 3),
+      totalEnergy: round(this.totalEnergy, 4),
+      appliance: this.appliance
+    };
+  }
+
+  applyCommand(command: string): Record<string, any> {
+    switch (command) {
+      case 'turn_on':
+        this.power = true;
+        break;
+      case 'turn_off':
+        this.power = false;
+        break;
+      case 'toggle':
+        this.power = !this.power;
+        break;
+      default:
+        this.unsupported(command);
+    }
+    if (!this.power) {
+      this.draw = 0;
+    }
+    return { power: this.power };
+  }
+}
+
+export class SimulatedSolarInverter extends SimulatedDevice {
+  readonly kind = 'solar';
+  readonly deviceType = 'solar_inverter';
+  readonly capabilities: DeviceCapability[] = [
+    {
+      type: 'energy_meter',
+      properties: { writable: false, unit: 'W', fields: ['powerOutput', 'dailyGeneration', 'totalGeneration'] },
+      commands: [],
+      readOnly: true
+    },
+    {
+      type: 'power_control',
+      properties: { writable: true, unit: '%', fields: ['powerLimit'] },
+      commands: ['set_power_limit'],
+      readOnly: false,
+      range: { min: 0, max: 100, step: 1 }
+    }
+  ];
+
+  readonly peakPower: number;
+  private readonly performanceRatio: number;
+  private readonly clouds: CloudCover;
+  private powerLimit = 100;
+  private output = 0;
+  private irradiance = 0;
+  private dailyGeneration = 0;
+  private totalGeneration: number;
+  private generationDay?: number | undefined;
+  private voltage = 230;
+  private frequency = 50;
+
+  constructor(config: SimulatedSolarConfig, seed: number) {
+    super(config, seed);
+    this.peakPower = config.peakPower ?? 6000;
+    this.performanceRatio = config.performanceRatio ?? 0.85;
+    this.totalGeneration = config.totalGeneration ?? 0;
+    this.clouds = new CloudCover(this.random, config.cloudiness ?? 0.3, config.cloudVariability ?? 0.5);
+  }
+
+  /**
+   * Advance and return the AC output in W
+   */
+  step(context: StepContext, location: SiteLocation, localDay: number): number {
+    if (this.generationDay !== localDay) {
+      this.generationDay = localDay;
+      this.dailyGeneration = 0;
+    }
+
+    this.clouds.step(context.seconds);
+    this.irradiance = clearSkyIrradiance(context.time, location) * this.clouds.transmittance();
+
+    // Module temperature rises with irradiance and costs ~0.4 %/K above 25 °C
+    const cellTemperature = AMBIENT_TEMPERATURE + 0.03 * this.irradiance;
+    const temperatureFactor = 1 - 0.004 * Math.max(0, cellTemperature - 25);
+    const available = this.peakPower * (this.irradiance / 1000) * this.performanceRatio * temperatureFactor;
+
+    this.output = Math.max(0, Math.min(available, (this.peakPower * this.powerLimit) / 100));
+    this.voltage = context.voltage;
+    this.frequency = context.frequency;
+
+    const energy = (this.output * context.seconds) / 3_600_000;
+    this.dailyGeneration += energy;
+    this.totalGeneration += energy;
+    return this.output;
+  }
+
+  getState(): Record<string, any> {
+    const generating = this.output > 0;
+    return {
+      powerOutput: round(this.output, 1),
+      dailyGeneration: round(this.dailyGeneration, 3),
+      totalGeneration: round(this.totalGeneration, 3),
+      efficiency: generating ? 0.96 : 0,
+      gridFrequency: round(this.frequency, 2),
+      gridVoltage: round(this.voltage, 1),
+      temperature: round(AMBIENT_TEMPERATURE + 5 + (20 * this.output) / this.peakPower, 1),
+      status: generating ? 'generating' : 'standby',
+      powerLimit: this.powerLimit,
+      irradiance: round(this.irradiance, 1),
+      cloudCover: round(this.clouds.value, 2)
+    };
+  }
+
+  applyCommand(command: string, parameters: Record<string, any>): Record<string, any> {
+    if (command !== 'set_power_limit') {
+      this.unsupported(command);
+    }
+    const percent = Number(parameters.percent ?? parameters.value);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new CommandError('set_power_limit requires a percent between 0 and 100');
+    }
+    this.powerLimit = percent;
+    return { powerLimit: percent };
+  }
+}
+
+export class SimulatedBattery extends SimulatedDevice {
+  readonly kind = 'battery';
+  readonly deviceType = 'battery_pack';
+  readonly capabilities: DeviceCapability[] = [
+    {
+      type: 'energy_storage',
+      properties: {
+        writable: true,
+        fields: ['chargeLevel', 'chargingPower', 'voltage', 'current', 'health', 'mode', 'operatingMode']
+      },
+      commands: ['set_mode', 'set_charge_power', 'set_charge_limit', 'set_discharge_limit', 'set_reserve'],
+      readOnly: false,
+      range: { min: 0, max: 100 }
+    },
+    {
+      type: 'temperature_sensor',
+      properties: { writable: false, unit: '°C', fields: ['temperature'] },
+      commands: [],
+      readOnly: true
+    }
+  ];
+
+  private readonly capacityWh: number;
+  private readonly chargeEfficiency: number;
+  private readonly dischargeEfficiency: number;
+  private maxChargePower: number;
+  private maxDischargePower: number;
+  private reserve: number;
+  private mode: BatteryOperatingMode;
+  private setpoint = 0;
+  private soc: number; // 0-1
+  private power = 0;
+  private temperature = AMBIENT_TEMPERATURE;
+  private cycleCount = 0;
+
+  constructor(config: SimulatedBatteryConfig, seed: number) {
+    super(config, seed);
+    this.capacityWh = (config.capacity ?? 10) * 1000;
+    const efficiency = config.efficiency ?? 0.92;
+    this.chargeEfficiency = Math.sqrt(efficiency);
+    this.dischargeEfficiency = Math.sqrt(efficiency);
+    this.maxChargePower = config.maxChargePower ?? 5000;
+    this.maxDischargePower = config.maxDischargePower ?? 5000;
+    this.reserve = (config.reserve ?? 10) / 100;
+    this.mode = config.mode ?? 'auto';
+    this.soc = clamp((config.chargeLevel ?? 50) / 100, 0, 1);
+  }
+
+  /**
+   * Advance and return the charging power in W (negative: discharging)
+   *
+   * @param surplus power available to the battery in auto mode (PV minus load)
+   */
+  step(context: StepContext, surplus: number): number {
+    const hours = context.seconds / 3600;
+    let requested: number;
+    switch (this.mode) {
+      case 'auto': requested = surplus; break;
+      case 'charge': requested = this.maxChargePower; break;
+      case 'discharge': requested = -this.maxDischargePower; break;
+      case 'manual': requested = this.setpoint; break;
+      default: requested = 0;
+    }
+
+    this.power = requested >= 0
+      ? Math.min(requested, this.chargeLimit(hours))
+      : -Math.min(-requested, this.dischargeLimit(hours));
+    if (Math.abs(this.power) < 1) {
+      this.power = 0;
+    }
+
+    if (this.power > 0) {
+      this.soc += (this.power * hours * this.chargeEfficiency) / this.capacityWh;
+    } else if (this.power < 0) {
+      const discharged = -this.power * hours;
+      this.soc -= discharged / this.dischargeEfficiency / this.capacityWh;
+      this.cycleCount += discharged / this.capacityWh;
+    }
+    this.soc = clamp(this.soc, 0, 1);
+
+    // First-order thermal response towards ambient plus conversion losses
+    const target = AMBIENT_TEMPERATURE + 0.0015 * Math.abs(this.power);
+    this.temperature += (target - this.temperature) * (1 - Math.exp(-context.seconds / 1800));
+
+    return this.power;
+  }
+
+  getState(): Record<string, any> {
+    const voltage = this.packVoltage();
+    return {
+      chargeLevel: round(this.soc * 100, 1),
+      chargingPower: round(this.power, 1),
+      voltage: round(voltage, 2),
+      current: round(this.power / voltage, 2),
+      temperature: round(this.temperature, 1),
+      cycleCount: round(this.cycleCount, 2),
+      health: round(98 - 0.004 * this.cycleCount, 1), // ~80 % after 4500 full cycles
+      mode: this.power > 0 ? 'charging' : this.power < 0 ? 'discharging' : 'idle',
+      operatingMode: this.mode,
+      capacity: this.capacityWh / 1000,
+      reserve: round(this.reserve * 100, 1),
+      maxChargePower: this.maxChargePower,
+      maxDischargePower: this.maxDischargePower
+    };
+  }
+
+  applyCommand(command: string, parameters: Record<string, any>): Record<string, any> {
+    switch (command) {
+      case 'set_mode': {
+        const mode = parameters.mode ?? parameters.value;
+        if (!['auto', 'charge', 'discharge', 'idle'].includes(mode)) {
+          throw new CommandError('set_mode requires mode auto, charge, discharge or idle');
+        }
+        this.mode = mode;
+        return { operatingMode: mode };
+      }
+      case 'set_charge_power': {
+        // Positive charges, negative discharges; overrides self-consumption
+        this.setpoint = requireNumber(command, parameters.power ?? parameters.value);
+        this.mode = 'manual';
+        return { operatingMode: 'manual', setpoint: this.setpoint };
+      }
+      case 'set_charge_limit':
+        this.maxChargePower = requireNumber(command, parameters.power ?? parameters.value, 0);
+        return { maxChargePower: this.maxChargePower };
+      case 'set_discharge_limit':
+        this.maxDischargePower = requireNumber(command, parameters.power ?? parameters.value, 0);
+        return { maxDischargePower: this.maxDischargePower };
+      case 'set_reserve': {
+        const percent = requireNumber(command, parameters.percent ?? parameters.value, 0, 100);
+        this.reserve = percent / 100;
+        return { reserve: percent };
+      }
+      default:
+        this.unsupported(command);
+    }
+  }
+
+  /**
+   * Charge power possible for a step: CV taper above 90 % and never past full
+   */
+  private chargeLimit(hours: number): number {
+    const taper = this.soc > 0.9 ? (1 - this.soc) / 0.1 : 1;
+    const room = hours > 0 ? ((1 - this.soc) * this.capacityWh) / this.chargeEfficiency / hours : Infinity;
+    return Math.max(0, Math.min(this.maxChargePower * taper, room));
+  }
+
+  /**
+   * Discharge power possible for a step: tapers off just above the reserve
+   */
+  private dischargeLimit(hours: number): number {
+    const headroom = this.soc - this.reserve;
+    if (headroom <= 0) {
+      return 0;
+    }
+    const taper = Math.min(1, headroom / 0.05);
+    const available = hours > 0 ? (headroom * this.capacityWh * this.dischargeEfficiency) / hours : Infinity;
+    return Math.min(this.maxDischargePower * taper, available);
+  }
+
+  /**
+   * 16-cell LFP pack: flat plateau with knees at both ends, plus IR drop
+   */
+  private packVoltage(): number {
+    const cell = 3.2 + 0.12 * (this.soc - 0.5) - 0.15 * Math.exp(-this.soc * 20) + 0.12 * Math.exp((this.soc - 1) * 25);
+    const openCircuit = 16 * cell;
+    return openCircuit + 0.03 * (this.power / openCircuit);
+  }
+}
+
+export class SimulatedGridMeter extends SimulatedDevice {
+  readonly kind = 'meter';
+  readonly deviceType = 'energy_meter';
+  readonly capabilities: DeviceCapability[] = [
+    {
+      type: 'energy_meter',
+      properties: { writable: false, unit: 'W', fields: ['power', 'voltage', 'current', 'frequency'] },
+      commands: [],
+      readOnly: true
+    },
+    {
+      type: 'grid_interaction',
+      properties: { writable: false, unit: 'kWh', fields: ['importEnergy', 'exportEnergy'] },
+      commands: [],
+      readOnly: true
+    }
+  ];
+
+  private readonly baseLoad: number;
+  private baseLoadFactor = 1;
+  private power = 0;
+  private voltage = 230;
+  private frequency = 50;
+  private importEnergy = 0;
+  private exportEnergy = 0;
+
+  constructor(config: SimulatedMeterConfig, seed: number) {
+    super(config, seed);
+    this.baseLoad = config.baseLoad ?? 250;
+  }
+
+  /**
+   * Household load the meter sees that no plug measures
+   */
+  unmeteredLoad(context: StepContext): number {
+    // Slowly wandering standby consumption (±15 %)
+    this.baseLoadFactor += 0.2 * (1 - this.baseLoadFactor) * (context.seconds / 3600)
+      + 0.05 * Math.sqrt(context.seconds / 3600) * this.random.normal();
+    this.baseLoadFactor = clamp(this.baseLoadFactor, 0.85, 1.15);
+    return this.baseLoad * this.baseLoadFactor;
+  }
+
+  /**
+   * Record the balance of the house at the grid connection
+   */
+  step(context: StepContext, gridPower: number): number {
+    const hours = context.seconds / 3600;
+    this.power = gridPower;
+    this.voltage = context.voltage;
+    this.frequency = context.frequency;
+    if (gridPower > 0) {
+      this.importEnergy += (gridPower * hours) / 1000;
+    } else {
+      this.exportEnergy += (-gridPower * hours) / 1000;
+    }
+    return this.power;
+  }
+
+  getState(): Record<string, any> {
+    return {
+      power: round(this.power, 1),
+      voltage: round(this.voltage, 1),
+      current: round(Math.abs(this.power) / this.voltage, 2),
+      frequency: round(this.frequency, 3),
+      importEnergy: round(this.importEnergy, 4),
+      exportEnergy: round(this.exportEnergy, 4)
+    };
+  }
+
+  applyCommand(command: string): Record<string, any> {
+    this.unsupported(command);
+  }
+}
+
+export type AnySimulatedDevice = SimulatedPlug | SimulatedSolarInverter | SimulatedBattery | SimulatedGridMeter;
+
+/**
+ * Power balance of the last step in W
+ */
+export interface SiteBalance {
+  consumption: number; // plugs plus unmetered load
+  production: number; // PV output
+  battery: number; // charging power, negative when discharging
+  grid: number; // import, negative when exporting
+}
+
+/**
+ * A site: steps every device in dependency order (loads, PV, batteries, meter)
+ */
+export class SimulatedSite {
+  readonly location: SiteLocation;
+  private readonly seed: number;
+  private readonly utcOffset: number;
+  private readonly random: Random;
+  private readonly devices: Map<string, AnySimulatedDevice> = new Map();
+  private voltageDeviation = 0;
+  private balance: SiteBalance = { consumption: 0, production: 0, battery: 0, grid: 0 };
+
+  constructor(config: SiteConfig) {
+    this.seed = config.seed ?? 1;
+    this.location = config.location || DEFAULT_LOCATION;
+    this.utcOffset = config.utcOffset ?? Math.round(this.location.longitude / 15) * 60;
+    this.random = createRandom(deriveSeed(this.seed, '__site__'));
+
+    for (const deviceConfig of config.devices) {
+      this.addDevice(deviceConfig);
+    }
+  }
+
+  addDevice(config: SimulatedDeviceConfig): AnySimulatedDevice {
+    if (this.devices.has(config.deviceId)) {
+      throw new Error(`Simulated device ${config.deviceId} already exists`);
+    }
+
+    let device: AnySimulatedDevice;
+    switch (config.kind) {
+      case 'plug': device = new SimulatedPlug(config, this.seed); break;
+      case 'solar': device = new SimulatedSolarInverter(config, this.seed); break;
+      case 'battery': device = new SimulatedBattery(config, this.seed); break;
+      case 'meter': device = new SimulatedGridMeter(config, this.seed); break;
+      default:
+        throw new Error(`Unknown simulated device kind: ${(config as SimulatedDeviceConfig).kind}`);
+    }
+
+    this.devices.set(device.deviceId, device);
+    return device;
+  }
+
+  removeDevice(deviceId: string): boolean {
+    return this.devices.delete(deviceId);
+  }
+
+  getDevice(deviceId: string): AnySimulatedDevice | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  getDevices(): AnySimulatedDevice[] {
+    return Array.from(this.devices.values());
+  }
+
+  getBalance(): SiteBalance {
+    return { ...this.balance };
+  }
+
+  /**
+   * Advance the site by `seconds` of simulated time ending at `time`
+   */
+  step(time: Date, seconds: number): SiteBalance {
+    const localMinutes = time.getTime() / 60_000 + this.utcOffset;
+    const localDay = Math.floor(localMinutes / 1440);
+
+    // Grid voltage wanders ±2 %, frequency jitters around 50 Hz
+    this.voltageDeviation = clamp(this.voltageDeviation * 0.95 + this.random.normal(0, 0.5), -4.6, 4.6);
+    const context: StepContext = {
+      time,
+      minuteOfDay: Math.floor(((localMinutes % 1440) + 1440) % 1440),
+      seconds,
+      voltage: 230 + this.voltageDeviation,
+      frequency: 50 + this.random.normal(0, 0.015)
+    };
+
+    const devices = this.getDevices();
+    let consumption = 0;
+    let production = 0;
+    let battery = 0;
+
+    for (const device of devices) {
+      if (device instanceof SimulatedPlug) consumption += device.step(context);
+      if (device instanceof SimulatedGridMeter) consumption += device.unmeteredLoad(context);
+    }
+    for (const device of devices) {
+      if (device instanceof SimulatedSolarInverter) production += device.step(context, this.location, localDay);
+    }
+    for (const device of devices) {
+      // Each battery in auto mode absorbs what the previous ones left over
+      if (device instanceof SimulatedBattery) battery += device.step(context, production - consumption - battery);
+    }
+
+    const grid = consumption + battery - production;
+    for (const device of devices) {
+      if (device instanceof SimulatedGridMeter) device.step(context, grid);
+    }
+
+    this.balance = { consumption, production, battery, grid };
+    return this.getBalance();
+  }
+}
+
+function requireNumber(command: string, value: unknown, min = -Infinity, max = Infinity): number {
+  const number = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(number) || number < min || number > max) {
+    const bounds = max < Infinity ? ` between ${min} and ${max}` : min > -Infinity ? ` of at least ${min}` : '';
+    throw new CommandError(`${command} requires a numeric value${bounds}`);
+  }
+  return number;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
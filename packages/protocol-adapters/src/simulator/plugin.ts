@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { SimulatorConfig } from './adapter';
+
+const LocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+});
+
+const DeviceSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('plug'), deviceId: z.string().min(1), appliance: z.union([z.string(), z.object({ kind: z.string() }).passthrough()]) }).passthrough(),
+  z.object({ kind: z.literal('solar'), deviceId: z.string().min(1), peakPower: z.number().positive().optional() }).passthrough(),
+  z.object({ kind: z.literal('battery'), deviceId: z.string().min(1), capacity: z.number().positive().optional() }).passthrough(),
+  z.object({ kind: z.literal('meter'), deviceId: z.string().min(1) }).passthrough()
+]);
+
+/**
+ * Device simulator plugin (synthetic solar, battery, plug and meter telemetry)
+ */
+export const simulatorPlugin = defineAdapterPlugin<SimulatorConfig>({
+  protocol: 'simulator',
+  name: '@maestro/protocol-adapters/simulator',
+  description: 'Simulated household with PV, battery, smart plugs and a grid meter',
+  configSchema: z.object({
+    seed: z.number().int().optional(),
+    timeScale: z.number().positive().optional(),
+    startTime: z.union([z.string(), z.number()]).optional(),
+    tickInterval: z.number().int().nonnegative().optional(),
+    maxStep: z.number().positive().optional(),
+    location: LocationSchema.optional(),
+    utcOffset: z.number().int().optional(),
+    devices: z.array(DeviceSchema).optional()
+  }).passthrough(),
+  deviceTypes: ['smart_plug', 'solar_inverter', 'battery_pack', 'energy_meter'],
+  capabilities: ['switch', 'energy_meter', 'power_control', 'energy_storage', 'temperature_sensor', 'grid_interaction'],
+  create: async config => {
+    const { SimulatorAdapter } = await import('./adapter');
+    return new SimulatorAdapter(config);
+  }
+});
@@ -0,0 +1,95 @@
+/**
+ * Deterministic randomness and simulated time
+ *
+ * Every simulated device draws from its own generator, derived from the
+ * adapter seed and the device ID, so adding a device does not change the
+ * telemetry of the others.
+ */
+
+export interface Random {
+  next(): number; // uniform in [0, 1)
+  normal(mean?: number, stdDev?: number): number;
+  between(min: number, max: number): number;
+}
+
+/**
+ * mulberry32 generator with Box-Muller normal samples
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  let spare: number | undefined;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    normal(mean = 0, stdDev = 1) {
+      if (spare !== undefined) {
+        const value = spare;
+        spare = undefined;
+        return mean + stdDev * value;
+      }
+      const u = Math.max(next(), Number.EPSILON);
+      const v = next();
+      const radius = Math.sqrt(-2 * Math.log(u));
+      spare = radius * Math.sin(2 * Math.PI * v);
+      return mean + stdDev * radius * Math.cos(2 * Math.PI * v);
+    },
+    between(min, max) {
+      return min + (max - min) * next();
+    }
+  };
+}
+
+/**
+ * Seed for a device: FNV-1a hash of the device ID mixed into the adapter seed
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Simulated wall clock that runs `timeScale` times faster than real time
+ */
+export class SimulationClock {
+  readonly timeScale: number;
+  private simulatedMs: number;
+
+  constructor(startTime: Date | number = Date.now(), timeScale = 1) {
+    if (!(timeScale > 0)) {
+      throw new Error(`Time scale must be positive, got ${timeScale}`);
+    }
+    this.simulatedMs = typeof startTime === 'number' ? startTime : startTime.getTime();
+    this.timeScale = timeScale;
+  }
+
+  now(): Date {
+    return new Date(this.simulatedMs);
+  }
+
+  /**
+   * Advance by simulated milliseconds
+   */
+  advance(ms: number): Date {
+    this.simulatedMs += ms;
+    return this.now();
+  }
+
+  /**
+   * Simulated milliseconds that pass during `realMs` real milliseconds
+   */
+  scale(realMs: number): number {
+    return realMs * this.timeScale;
+  }
+}
@@ -0,0 +1,102 @@
+import { Random } from './random';
+
+/**
+ * Solar Geometry and Irradiance
+ *
+ * Sun elevation from the declination and hour angle (with the equation of
+ * time), clear-sky global horizontal irradiance after Haurwitz, and cloud
+ * cover as a mean-reverting random process attenuating it (Kasten-Czeplak).
+ */
+
+export interface SiteLocation {
+  latitude: number; // degrees, north positive
+  longitude: number; // degrees, east positive
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Day of the year, 1-based (UTC)
+ */
+export function dayOfYear(time: Date): number {
+  const start = Date.UTC(time.getUTCFullYear(), 0, 1);
+  return Math.floor((time.getTime() - start) / 86_400_000) + 1;
+}
+
+/**
+ * Local solar time in hours (12 = solar noon)
+ */
+export function solarTime(time: Date, longitude: number): number {
+  const b = (2 * Math.PI * (dayOfYear(time) - 81)) / 364;
+  const equationOfTime = 9.87 * Math.sin(2 * b) - 7.53 * Math.cos(b) - 1.5 * Math.sin(b); // minutes
+  const utcHours = time.getUTCHours() + time.getUTCMinutes() / 60 + time.getUTCSeconds() / 3600;
+  return (((utcHours + longitude / 15 + equationOfTime / 60) % 24) + 24) % 24;
+}
+
+/**
+ * Sun elevation above the horizon in degrees (negative at night)
+ */
+export function sunElevation(time: Date, location: SiteLocation): number {
+  const declination = 23.45 * Math.sin((2 * Math.PI * (284 + dayOfYear(time))) / 365) * DEG;
+  const hourAngle = 15 * (solarTime(time, location.longitude) - 12) * DEG;
+  const latitude = location.latitude * DEG;
+
+  const sine = Math.sin(latitude) * Math.sin(declination)
+    + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle);
+  return Math.asin(Math.max(-1, Math.min(1, sine))) / DEG;
+}
+
+/**
+ * Clear-sky global horizontal irradiance in W/m² (Haurwitz model)
+ */
+export function clearSkyIrradiance(time: Date, location: SiteLocation): number {
+  const sine = Math.sin(sunElevation(time, location) * DEG);
+  if (sine <= 0) {
+    return 0;
+  }
+  return 1098 * sine * Math.exp(-0.057 / sine);
+}
+
+/**
+ * Cloud cover (0 clear - 1 overcast) following an Ornstein-Uhlenbeck process
+ */
+export class CloudCover {
+  private cover: number;
+
+  constructor(
+    private readonly random: Random,
+    private readonly mean = 0.3, // long-run average cover
+    private readonly variability = 0.5 // 0: steady sky, 1: fast-moving clouds
+  ) {
+    this.cover = clamp(random.normal(mean, 0.1), 0, 1);
+  }
+
+  get value(): number {
+    return this.cover;
+  }
+
+  /**
+   * Evolve the cover over `seconds` of simulated time
+   */
+  step(seconds: number): number {
+    const hours = seconds / 3600;
+    const reversion = 0.5; // per hour
+    const volatility = 0.05 + 0.6 * this.variability;
+
+    this.cover += reversion * (this.mean - this.cover) * hours
+      + volatility * Math.sqrt(hours) * this.random.normal();
+    this.cover = clamp(this.cover, 0, 1);
+    return this.cover;
+  }
+
+  /**
+   * Fraction of clear-sky irradiance reaching the ground
+   */
+  transmittance(): number {
+    return 1 - 0.75 * Math.pow(this.cover, 3.4);
+  }
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
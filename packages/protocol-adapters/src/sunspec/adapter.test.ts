@@ -0,0 +1,172 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+
+import { SunSpecAdapter, SunSpecConfig } from './adapter';
+import { SunSpecModelInstance, SUNSPEC_MARKER, buildModelRegisters } from './models';
+import { ModbusSlaveSimulator } from '../modbus/simulator';
+
+/**
+ * SunSpec Adapter Tests
+ *
+ * A hybrid inverter (common, three-phase inverter, MPPT, storage and meter
+ * models) is laid out in the in-process Modbus slave at base address 40000.
+ */
+
+const UNIT_ID = 3;
+
+function writeModel(
+  simulator: ModbusSlaveSimulator,
+  instance: SunSpecModelInstance,
+  values: Record<string, number | string>
+): void {
+  const registers = buildModelRegisters(instance);
+  simulator.setRegisters(UNIT_ID, 'holding', instance.address, [instance.id, instance.length]);
+
+  // Scale factors first so scaled points can be encoded against them
+  const exponents: Record<string, number> = {};
+  for (const [point, value] of Object.entries(values)) {
+    if (point.endsWith('_SF')) {
+      exponents[`${instance.id}.${point}`] = value as number;
+      simulator.setValue(UNIT_ID, registers[`${instance.id}.${point}`], value);
+    }
+  }
+
+  for (const [point, value] of Object.entries(values)) {
+    if (point.endsWith('_SF')) continue;
+    const definition = registers[`${instance.id}.${point}`];
+    const exponent = definition.scaleFactorRegister ? exponents[definition.scaleFactorRegister] : undefined;
+    simulator.setValue(UNIT_ID, definition, value, exponent);
+  }
+}
+
+describe('SunSpecAdapter', () => {
+  const simulator = new ModbusSlaveSimulator({ port: 16020 + Math.floor(Math.random() * 1000) });
+  let adapter: SunSpecAdapter;
+  let baseId: string;
+
+  beforeAll(async () => {
+    await simulator.start();
+
+    simulator.setRegisters(UNIT_ID, 'holding', 40000, SUNSPEC_MARKER);
+    writeModel(simulator, { id: 1, address: 40002, length: 66 }, {
+      Mn: 'Fronius', Md: 'Symo GEN24 10.0', Vr: '1.28.7-1', SN: '34123456'
+    });
+    writeModel(simulator, { id: 103, address: 40070, length: 50 }, {
+      A_SF: -2, V_SF: -1, W_SF: 0, Hz_SF: -2, WH_SF: 0, DCW_SF: 0, Tmp_SF: -1,
+      A: 12.5, PhVphA: 230.4, W: 4600, Hz: 50.01, WH: 1234567, DCW: 4800, TmpCab: 41.5, St: 'MPPT'
+    });
+    writeModel(simulator, { id: 160, address: 40122, length: 48 }, {
+      DCA_SF: -2, DCV_SF: -1, DCW_SF: 0, DCWH_SF: 0,
+      N: 2,
+      '1.ID': 1, '1.DCA': 8.1, '1.DCV': 380.2, '1.DCW': 3080,
+      '2.ID': 2, '2.DCA': 4.0, '2.DCV': 430.0, '2.DCW': 1720
+    });
+    writeModel(simulator, { id: 124, address: 40172, length: 24 }, {
+      WChaMax_SF: 0, ChaState_SF: -1, InBatV_SF: -1, InOutWRte_SF: 0, MinRsvPct_SF: 0,
+      WChaMax: 5000, ChaState: 64.3, InBatV: 402.5, ChaSt: 'CHARGING', InWRte: 40, OutWRte: 0, MinRsvPct: 10
+    });
+    writeModel(simulator, { id: 203, address: 40198, length: 105 }, {
+      W_SF: 0, Hz_SF: -2, TotWh_SF: 0, V_SF: -1,
+      W: -1250, Hz: 50.0, PhVphA: 231.0, TotWhImp: 5400000, TotWhExp: 8100000
+    });
+    simulator.setRegisters(UNIT_ID, 'holding', 40305, [0xffff, 0]);
+
+    const config: SunSpecConfig = {
+      protocol: 'sunspec',
+      name: 'SunSpec Test Adapter',
+      enabled: true,
+      connectionTimeout: 2000,
+      commandTimeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 1,
+      options: {
+        host: simulator.host,
+        port: simulator.port,
+        pollingInterval: 0,
+        devices: [{ unitId: UNIT_ID }]
+      }
+    };
+
+    adapter = new SunSpecAdapter(config);
+    await adapter.initialize();
+    baseId = `${simulator.host}:${simulator.port}:${UNIT_ID}`;
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  test('walks the model chain from the SunS marker', async () => {
+    const scan = await adapter.scanUnit(UNIT_ID);
+
+    expect(scan.baseAddress).toBe(40000);
+    expect(scan.models.map(model => model.id)).toEqual([1, 103, 160, 124, 203]);
+    expect(scan.common).toMatchObject({ Mn: 'Fronius', Md: 'Symo GEN24 10.0', SN: '34123456' });
+  });
+
+  test('splits the unit into inverter, storage and meter devices', async () => {
+    const discoveries = await adapter.discoverDevices();
+    const byId = Object.fromEntries(discoveries.map(discovery => [discovery.deviceId, discovery]));
+
+    expect(byId[baseId]).toMatchObject({
+      protocol: 'sunspec',
+      deviceType: 'solar_inverter',
+      specifications: { manufacturer: 'Fronius', model: 'Symo GEN24 10.0', firmwareVersion: '1.28.7-1', phases: 3 }
+    });
+    expect(byId[`${baseId}:storage`].deviceType).toBe('battery_pack');
+    expect(byId[`${baseId}:meter1`].deviceType).toBe('energy_meter');
+  });
+
+  test('maps inverter and MPPT models to SolarInverterState', async () => {
+    const { state } = await adapter.getDeviceStatus(baseId);
+
+    expect(state).toMatchObject({
+      powerOutput: 4600,
+      totalGeneration: 1234.567,
+      dailyGeneration: 0,
+      gridFrequency: 50.01,
+      gridVoltage: 230.4,
+      temperature: 41.5,
+      status: 'generating'
+    });
+    expect(state.efficiency).toBeCloseTo(4600 / 4800, 5);
+    expect(state.strings).toHaveLength(2);
+    expect(state.strings[0]).toMatchObject({ voltage: 380.2, current: 8.1, power: 3080 });
+  });
+
+  test('maps storage model to BatteryPackState', async () => {
+    const { state } = await adapter.getDeviceStatus(`${baseId}:storage`);
+
+    expect(state).toMatchObject({
+      chargeLevel: 64.3,
+      voltage: 402.5,
+      mode: 'charging',
+      chargingPower: 2000
+    });
+  });
+
+  test('maps meter model with scale factors', async () => {
+    const { state } = await adapter.getDeviceStatus(`${baseId}:meter1`);
+
+    expect(state).toMatchObject({
+      power: -1250,
+      frequency: 50,
+      voltageL1: 231,
+      importEnergy: 5400,
+      exportEnergy: 8100
+    });
+  });
+
+  test('writes storage setpoints through scale factors', async () => {
+    const result = await adapter.sendCommand(`${baseId}:storage`, {
+      deviceId: `${baseId}:storage`,
+      command: 'set_min_reserve',
+      parameters: { percent: 20 },
+      timestamp: new Date()
+    });
+
+    expect(result.success).toBe(true);
+    expect(simulator.getRegisters(UNIT_ID, 'holding', 40174 + 5, 1)).toEqual([20]);
+  });
+});
@@ -0,0 +1,565 @@
+import {
+  DeviceType,
+  DeviceCapability,
+  DeviceDiscovery,
+  SolarInverterState,
+  BatteryPackState
+} from '@maestro/shared/types';
+
+import { AdapterConfig } from '../base/adapter';
+import {
+  ModbusAdapter,
+  ModbusConfig,
+  ModbusConnectionOptions,
+  ModbusDevice,
+  ModbusEndpoint
+} from '../modbus/adapter';
+import {
+  ModbusRegisterMap,
+  RegisterDefinition,
+  RegisterValue,
+  decodeBlocks,
+  planReads
+} from '../modbus/registers';
+import {
+  SunSpecModelInstance,
+  SUNSPEC_MARKER,
+  SUNSPEC_BASE_ADDRESSES,
+  SUNSPEC_END_MODEL_ID,
+  INVERTER_MODEL_IDS,
+  METER_MODEL_IDS,
+  buildModelRegisters,
+  pointRegisterName
+} from './models';
+
+/**
+ * SunSpec Adapter
+ *
+ * Layered on the Modbus adapter: locates the SunSpec register space of a unit,
+ * walks its model chain and builds register maps from the models found, so any
+ * SunSpec-compliant inverter, battery or meter works without a hand-written map.
+ *
+ * A physical unit is split into logical devices by role:
+ * - inverter (models 101-103, plus 160 MPPT strings) → solar_inverter
+ * - storage (model 124) → battery_pack, device ID suffixed with ":storage"
+ * - each meter (models 201-204) → energy_meter, suffixed with ":meter<n>"
+ */
+
+export interface SunSpecDeviceConfig {
+  unitId: number;
+  name?: string;
+  baseAddress?: number; // skip the scan of well-known base addresses
+  connection?: ModbusConnectionOptions;
+}
+
+export interface SunSpecConfig extends AdapterConfig {
+  options: Omit<ModbusConfig['options'], 'devices' | 'registerMaps'> & {
+    devices?: SunSpecDeviceConfig[];
+    baseAddresses?: number[]; // default: 40000, 50000, 0
+  };
+}
+
+export interface SunSpecUnitScan {
+  unitId: number;
+  baseAddress: number;
+  models: SunSpecModelInstance[];
+  common: Record<string, RegisterValue>;
+}
+
+type SunSpecRole = 'inverter' | 'storage' | 'meter';
+
+const INVERTER_STATUS: Record<string, SolarInverterState['status']> = {
+  OFF: 'standby',
+  SLEEPING: 'standby',
+  STARTING: 'standby',
+  MPPT: 'generating',
+  THROTTLED: 'generating',
+  SHUTTING_DOWN: 'standby',
+  FAULT: 'fault',
+  STANDBY: 'standby'
+};
+
+const STORAGE_MODE: Record<string, BatteryPackState['mode']> = {
+  DISCHARGING: 'discharging',
+  CHARGING: 'charging',
+  TESTING: 'maintenance'
+};
+
+// Maximum number of models walked before the chain is considered corrupt
+const MAX_MODELS = 64;
+
+/**
+ * SunSpec Protocol Adapter Implementation
+ */
+export class SunSpecAdapter extends ModbusAdapter {
+  private scans: Map<string, SunSpecUnitScan>;
+  private dailyBaselines: Map<string, { day: string; energy: number }>;
+
+  constructor(config: SunSpecConfig) {
+    super(config as unknown as ModbusConfig);
+
+    this.scans = new Map();
+    this.dailyBaselines = new Map();
+  }
+
+  /**
+   * Initialize the adapter and scan configured units
+   */
+  async initialize(): Promise<void> {
+    await super.initialize();
+
+    for (const deviceConfig of this.getSunSpecConfig().options.devices || []) {
+      try {
+        await this.scanAndRegister(deviceConfig);
+      } catch (error) {
+        this.log('warn', `SunSpec scan failed for unit ${deviceConfig.unitId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Discover SunSpec devices
+   *
+   * Configured units (and `filters.unitIds` on the adapter-level endpoint) are
+   * scanned again so model changes after firmware updates are picked up.
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    const units: SunSpecDeviceConfig[] = [...(this.getSunSpecConfig().options.devices || [])];
+    for (const unitId of (filters?.unitIds as number[] | undefined) || []) {
+      if (!units.some(unit => unit.unitId === unitId && !unit.connection)) {
+        units.push({ unitId });
+      }
+    }
+
+    for (const unit of units) {
+      try {
+        await this.scanAndRegister(unit);
+      } catch (error) {
+        this.log('debug', `No SunSpec device at unit ${unit.unitId}`, error);
+      }
+    }
+
+    const discoveries: DeviceDiscovery[] = [];
+    for (const device of this.devices.values()) {
+      if (filters?.deviceType && device.map.deviceType !== filters.deviceType) continue;
+
+      const discovery = this.mapDeviceToDiscovery(device, device.online ? 1.0 : 0.5);
+      discoveries.push(discovery);
+      this.emit('deviceDiscovered', discovery);
+    }
+
+    this.log('info', `Discovered ${discoveries.length} SunSpec devices`);
+    return discoveries;
+  }
+
+  /**
+   * Get SunSpec-specific diagnostics
+   */
+  async getDiagnostics(): Promise<Record<string, any>> {
+    const diagnostics = await super.getDiagnostics();
+
+    return {
+      ...diagnostics,
+      units: Array.from(this.scans.entries()).map(([key, scan]) => ({
+        key,
+        unitId: scan.unitId,
+        baseAddress: scan.baseAddress,
+        models: scan.models.map(model => model.id)
+      }))
+    };
+  }
+
+  /**
+   * Check if adapter supports a device type
+   */
+  supportsDeviceType(deviceType: DeviceType): boolean {
+    return ['solar_inverter', 'battery_pack', 'energy_meter'].includes(deviceType);
+  }
+
+  /**
+   * Scan a unit for the SunSpec marker and walk its model chain
+   */
+  async scanUnit(unitId: number, connection?: ModbusConnectionOptions, baseAddress?: number): Promise<SunSpecUnitScan> {
+    const endpoint = this.getEndpoint(this.resolveConnection(connection));
+    const candidates = baseAddress !== undefined
+      ? [baseAddress]
+      : this.getSunSpecConfig().options.baseAddresses || SUNSPEC_BASE_ADDRESSES;
+
+    let base: number | undefined;
+    for (const candidate of candidates) {
+      try {
+        const marker = await this.readWords(endpoint, unitId, 'holding', candidate, 2);
+        if (marker[0] === SUNSPEC_MARKER[0] && marker[1] === SUNSPEC_MARKER[1]) {
+          base = candidate;
+          break;
+        }
+      } catch {
+        // Illegal address on this candidate, try the next one
+      }
+    }
+
+    if (base === undefined) {
+      throw new Error(`SunSpec marker not found on unit ${unitId} (${endpoint.key})`);
+    }
+
+    const models: SunSpecModelInstance[] = [];
+    let address = base + 2;
+
+    while (models.length < MAX_MODELS) {
+      const [id = 0, length = 0] = await this.readWords(endpoint, unitId, 'holding', address, 2);
+      if (id === SUNSPEC_END_MODEL_ID || id === 0) {
+        break;
+      }
+      models.push({ id, address, length });
+      address += 2 + length;
+    }
+
+    const commonModel = models.find(model => model.id === 1);
+    const common = commonModel ? await this.readRegisters(endpoint, unitId, buildModelRegisters(commonModel)) : {};
+
+    const scan: SunSpecUnitScan = {
+      unitId,
+      baseAddress: base,
+      models,
+      common: Object.fromEntries(Object.entries(common).map(([name, value]) => [name.replace(/^1\./, ''), value]))
+    };
+
+    this.scans.set(`${endpoint.key}/${unitId}`, scan);
+    this.log('debug', `SunSpec unit ${unitId} exposes models ${models.map(model => model.id).join(', ')}`);
+    return scan;
+  }
+
+  // Protected overrides
+
+  /**
+   * SunSpec devices are created from scans, so only the endpoints are prepared here
+   */
+  protected registerConfiguredDevices(): void {
+    for (const deviceConfig of this.getSunSpecConfig().options.devices || []) {
+      this.getEndpoint(this.resolveConnection(deviceConfig.connection));
+    }
+  }
+
+  /**
+   * Validate SunSpec device ID (registered logical devices only)
+   */
+  protected validateDeviceId(deviceId: string): boolean {
+    return this.devices.has(deviceId) || /^[\w.:/-]+$/.test(deviceId);
+  }
+
+  /**
+   * Map decoded SunSpec points to the normalized device state
+   */
+  protected buildState(device: ModbusDevice, values: Record<string, RegisterValue>): Record<string, any> {
+    const role = device.metadata?.role as SunSpecRole;
+    const modelId = device.metadata?.modelId as number;
+
+    switch (role) {
+      case 'inverter':
+        return this.mapInverterState(device, modelId, values);
+      case 'storage':
+        return this.mapStorageState(values);
+      case 'meter':
+        return this.mapMeterState(modelId, values);
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Capabilities per role instead of per register
+   */
+  protected mapRegisterMapToCapabilities(map: ModbusRegisterMap): DeviceCapability[] {
+    const capabilities = super.mapRegisterMapToCapabilities(map);
+    if (map.deviceType === 'solar_inverter' || map.deviceType === 'energy_meter') {
+      capabilities.push({
+        type: 'grid_interaction',
+        properties: { writable: false },
+        commands: [],
+        readOnly: true
+      });
+    }
+    return capabilities;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed SunSpec configuration
+   */
+  private getSunSpecConfig(): SunSpecConfig {
+    return this.config as SunSpecConfig;
+  }
+
+  /**
+   * Scan a unit and (re)register its logical devices
+   */
+  private async scanAndRegister(unit: SunSpecDeviceConfig): Promise<ModbusDevice[]> {
+    const scan = await this.scanUnit(unit.unitId, unit.connection, unit.baseAddress);
+    const connection = this.resolveConnection(unit.connection);
+    const endpoint = this.getEndpoint(connection);
+    const baseId = this.buildDeviceId(connection, unit.unitId);
+    const registered: ModbusDevice[] = [];
+
+    const specifications: DeviceDiscovery['specifications'] = {
+      manufacturer: (scan.common.Mn as string) || 'Unknown',
+      model: (scan.common.Md as string) || 'SunSpec Device',
+      firmwareVersion: (scan.common.Vr as string) || undefined
+    };
+    const metadata = {
+      serialNumber: scan.common.SN,
+      options: scan.common.Opt,
+      baseAddress: scan.baseAddress,
+      models: scan.models.map(model => model.id)
+    };
+
+    const inverter = scan.models.find(model => INVERTER_MODEL_IDS.includes(model.id));
+    if (inverter) {
+      const mppt = scan.models.filter(model => model.id === 160);
+      const registers = Object.assign(
+        {},
+        buildModelRegisters(inverter),
+        ...mppt.map(model => buildModelRegisters(model))
+      );
+      registered.push(this.registerLogicalDevice(baseId, unit, endpoint, 'solar_inverter', registers, {
+        ...metadata,
+        role: 'inverter',
+        modelId: inverter.id
+      }, {
+        ...specifications,
+        phases: inverter.id === 103 ? 3 : inverter.id === 102 ? 2 : 1
+      }));
+    }
+
+    const storage = scan.models.find(model => model.id === 124);
+    if (storage) {
+      registered.push(this.registerLogicalDevice(
+        inverter ? `${baseId}:storage` : baseId,
+        unit,
+        endpoint,
+        'battery_pack',
+        buildModelRegisters(storage),
+        { ...metadata, role: 'storage', modelId: 124 },
+        specifications,
+        {
+          set_charge_limit: { register: '124.WChaMax', parameter: 'power' },
+          set_charge_rate: { register: '124.InWRte', parameter: 'percent' },
+          set_discharge_rate: { register: '124.OutWRte', parameter: 'percent' },
+          set_min_reserve: { register: '124.MinRsvPct', parameter: 'percent' },
+          set_storage_control: { register: '124.StorCtl_Mod', parameter: 'mode' }
+        }
+      ));
+    }
+
+    const meters = scan.models.filter(model => METER_MODEL_IDS.includes(model.id));
+    meters.forEach((meter, index) => {
+      const deviceId = inverter || storage || meters.length > 1 ? `${baseId}:meter${index + 1}` : baseId;
+      registered.push(this.registerLogicalDevice(deviceId, unit, endpoint, 'energy_meter', buildModelRegisters(meter), {
+        ...metadata,
+        role: 'meter',
+        modelId: meter.id
+      }, specifications));
+    });
+
+    if (registered.length === 0) {
+      throw new Error(`Unit ${unit.unitId} exposes no supported SunSpec models`);
+    }
+
+    return registered;
+  }
+
+  /**
+   * Register one logical device of a SunSpec unit
+   */
+  private registerLogicalDevice(
+    deviceId: string,
+    unit: SunSpecDeviceConfig,
+    endpoint: ModbusEndpoint,
+    deviceType: DeviceType,
+    registers: Record<string, RegisterDefinition>,
+    metadata: Record<string, any>,
+    specifications: DeviceDiscovery['specifications'],
+    commands?: ModbusRegisterMap['commands']
+  ): ModbusDevice {
+    const map: ModbusRegisterMap = {
+      name: `sunspec_${metadata.modelId}`,
+      deviceType,
+      manufacturer: specifications.manufacturer,
+      model: specifications.model,
+      registers,
+      commands
+    };
+
+    const previous = this.devices.get(deviceId);
+    const device: ModbusDevice = {
+      deviceId,
+      unitId: unit.unitId,
+      name: unit.name,
+      map,
+      endpoint,
+      // Models are contiguous, so whole models are read in as few requests as possible
+      blocks: planReads(registers, this.getSunSpecConfig().options.maxRegisterGap ?? 32),
+      online: true,
+      lastValues: previous?.lastValues,
+      consecutiveErrors: 0,
+      specifications,
+      metadata
+    };
+
+    this.devices.set(deviceId, device);
+    return device;
+  }
+
+  /**
+   * Read and decode an ad-hoc set of registers
+   */
+  private async readRegisters(
+    endpoint: ModbusEndpoint,
+    unitId: number,
+    registers: Record<string, RegisterDefinition>
+  ): Promise<Record<string, RegisterValue>> {
+    const blocks = [];
+    for (const block of planReads(registers, 32)) {
+      const data = await this.readWords(endpoint, unitId, block.table, block.start, block.count);
+      blocks.push({ ...block, data });
+    }
+    return decodeBlocks(registers, blocks);
+  }
+
+  /**
+   * Models 101-103 (+160) → SolarInverterState
+   */
+  private mapInverterState(
+    device: ModbusDevice,
+    modelId: number,
+    values: Record<string, RegisterValue>
+  ): Partial<SolarInverterState> & Record<string, any> {
+    const point = (name: string) => numeric(values[pointRegisterName(modelId, name)]);
+
+    const strings: Array<Record<string, any>> = [];
+    for (let block = 1; values[pointRegisterName(160, 'ID', block)] !== undefined; block++) {
+      const mpptPoint = (name: string) => numeric(values[pointRegisterName(160, name, block)]);
+      strings.push({
+        id: values[pointRegisterName(160, 'IDStr', block)] || String(block),
+        current: mpptPoint('DCA'),
+        voltage: mpptPoint('DCV'),
+        power: mpptPoint('DCW'),
+        energy: kilo(mpptPoint('DCWH'))
+      });
+    }
+
+    const acPower = point('W');
+    const dcPower = point('DCW') ?? (strings.length > 0
+      ? strings.reduce((sum, mppt) => sum + (mppt.power || 0), 0)
+      : undefined);
+    const totalGeneration = kilo(point('WH'));
+    const status = typeof values[pointRegisterName(modelId, 'St')] === 'string'
+      ? INVERTER_STATUS[values[pointRegisterName(modelId, 'St')] as string]
+      : undefined;
+
+    const state: Record<string, any> = {
+      powerOutput: acPower ?? 0,
+      totalGeneration,
+      dailyGeneration: totalGeneration !== undefined
+        ? this.trackDailyEnergy(device.deviceId, totalGeneration)
+        : undefined,
+      efficiency: acPower !== undefined && dcPower ? Math.min(1, Math.max(0, acPower / dcPower)) : undefined,
+      gridFrequency: point('Hz'),
+      gridVoltage: point('PhVphA'),
+      temperature: point('TmpCab') ?? point('TmpSnk'),
+      status: status || 'standby',
+      current: point('A'),
+      dcPower,
+      dcVoltage: point('DCV'),
+      strings: strings.length > 0 ? strings : undefined
+    };
+
+    return stripUndefined(state);
+  }
+
+  /**
+   * Model 124 → BatteryPackState
+   *
+   * Model 124 exposes charge/discharge rate setpoints rather than measured power,
+   * so chargingPower is derived from the active setpoint and WChaMax.
+   */
+  private mapStorageState(values: Record<string, RegisterValue>): Partial<BatteryPackState> & Record<string, any> {
+    const point = (name: string) => numeric(values[pointRegisterName(124, name)]);
+    const chargeStatus = values[pointRegisterName(124, 'ChaSt')];
+    const mode = (typeof chargeStatus === 'string' && STORAGE_MODE[chargeStatus]) || 'idle';
+
+    const maxPower = point('WChaMax');
+    let chargingPower = 0;
+    if (maxPower !== undefined) {
+      if (mode === 'charging') chargingPower = (maxPower * (point('InWRte') ?? 0)) / 100;
+      if (mode === 'discharging') chargingPower = -(maxPower * (point('OutWRte') ?? 0)) / 100;
+    }
+
+    const voltage = point('InBatV');
+
+    return stripUndefined({
+      chargeLevel: point('ChaState') ?? 0,
+      chargingPower,
+      voltage,
+      current: voltage ? Number((chargingPower / voltage).toFixed(2)) : undefined,
+      mode,
+      maxChargePower: maxPower,
+      minReserve: point('MinRsvPct'),
+      availableCapacity: point('StorAval'),
+      chargeStatus: typeof chargeStatus === 'string' ? chargeStatus : undefined
+    });
+  }
+
+  /**
+   * Models 201-204 → meter state (same field names as the Modbus meter maps)
+   */
+  private mapMeterState(modelId: number, values: Record<string, RegisterValue>): Record<string, any> {
+    const point = (name: string) => numeric(values[pointRegisterName(modelId, name)]);
+
+    return stripUndefined({
+      power: point('W'),
+      powerL1: point('WphA'),
+      powerL2: point('WphB'),
+      powerL3: point('WphC'),
+      current: point('A'),
+      currentL1: point('AphA'),
+      currentL2: point('AphB'),
+      currentL3: point('AphC'),
+      voltage: point('PhV'),
+      voltageL1: point('PhVphA'),
+      voltageL2: point('PhVphB'),
+      voltageL3: point('PhVphC'),
+      frequency: point('Hz'),
+      importEnergy: kilo(point('TotWhImp')),
+      exportEnergy: kilo(point('TotWhExp'))
+    });
+  }
+
+  /**
+   * Daily energy from the lifetime counter, reset at local midnight
+   */
+  private trackDailyEnergy(deviceId: string, totalEnergy: number): number {
+    const day = new Date().toDateString();
+    const baseline = this.dailyBaselines.get(deviceId);
+
+    // New day, first reading, or counter went backwards (device replaced/reset)
+    if (!baseline || baseline.day !== day || totalEnergy < baseline.energy) {
+      this.dailyBaselines.set(deviceId, { day, energy: totalEnergy });
+      return 0;
+    }
+
+    return Number((totalEnergy - baseline.energy).toFixed(3));
+  }
+}
+
+function numeric(value: RegisterValue | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function kilo(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Number((value / 1000).toFixed(3));
+}
+
+function stripUndefined<T extends Record<string, any>>(state: T): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined)) as any;
+}
@@ -0,0 +1,286 @@
+import { RegisterDefinition } from '../modbus/registers';
+
+/**
+ * SunSpec Information Models
+ *
+ * Point layouts of the SunSpec models the adapter understands. Offsets are
+ * relative to the first data register of a model (the register after ID and L).
+ * Only the points needed for device state are listed; unknown models in the
+ * chain are skipped by length.
+ *
+ * Reference: SunSpec Information Model Specification (models 1, 101-103, 124, 160, 201-204)
+ */
+
+export type SunSpecPointType =
+  | 'uint16'
+  | 'int16'
+  | 'uint32'
+  | 'acc32'
+  | 'sunssf'
+  | 'enum16'
+  | 'bitfield16'
+  | 'bitfield32'
+  | 'string';
+
+export interface SunSpecPoint {
+  name: string;
+  offset: number;
+  type: SunSpecPointType;
+  size?: number; // registers, strings only
+  sf?: string; // scale factor point name
+  units?: string;
+  writable?: boolean;
+  enumValues?: Record<number, string>;
+}
+
+export interface SunSpecModelDefinition {
+  id: number;
+  name: string;
+  points: SunSpecPoint[];
+  repeating?: {
+    offset: number; // first register of the first repeating block
+    length: number; // registers per block
+    points: SunSpecPoint[];
+  };
+}
+
+// "SunS" marker at the start of the SunSpec register space
+export const SUNSPEC_MARKER = [0x5375, 0x6e53];
+
+// Well-known SunSpec base addresses (zero-based protocol addresses)
+export const SUNSPEC_BASE_ADDRESSES = [40000, 50000, 0];
+
+// ID register value terminating the model chain
+export const SUNSPEC_END_MODEL_ID = 0xffff;
+
+const COMMON_MODEL: SunSpecModelDefinition = {
+  id: 1,
+  name: 'common',
+  points: [
+    { name: 'Mn', offset: 0, type: 'string', size: 16 },
+    { name: 'Md', offset: 16, type: 'string', size: 16 },
+    { name: 'Opt', offset: 32, type: 'string', size: 8 },
+    { name: 'Vr', offset: 40, type: 'string', size: 8 },
+    { name: 'SN', offset: 48, type: 'string', size: 16 },
+    { name: 'DA', offset: 64, type: 'uint16' }
+  ]
+};
+
+const INVERTER_STATES: Record<number, string> = {
+  1: 'OFF',
+  2: 'SLEEPING',
+  3: 'STARTING',
+  4: 'MPPT',
+  5: 'THROTTLED',
+  6: 'SHUTTING_DOWN',
+  7: 'FAULT',
+  8: 'STANDBY'
+};
+
+const INVERTER_POINTS: SunSpecPoint[] = [
+  { name: 'A', offset: 0, type: 'uint16', sf: 'A_SF', units: 'A' },
+  { name: 'AphA', offset: 1, type: 'uint16', sf: 'A_SF', units: 'A' },
+  { name: 'AphB', offset: 2, type: 'uint16', sf: 'A_SF', units: 'A' },
+  { name: 'AphC', offset: 3, type: 'uint16', sf: 'A_SF', units: 'A' },
+  { name: 'A_SF', offset: 4, type: 'sunssf' },
+  { name: 'PhVphA', offset: 8, type: 'uint16', sf: 'V_SF', units: 'V' },
+  { name: 'PhVphB', offset: 9, type: 'uint16', sf: 'V_SF', units: 'V' },
+  { name: 'PhVphC', offset: 10, type: 'uint16', sf: 'V_SF', units: 'V' },
+  { name: 'V_SF', offset: 11, type: 'sunssf' },
+  { name: 'W', offset: 12, type: 'int16', sf: 'W_SF', units: 'W' },
+  { name: 'W_SF', offset: 13, type: 'sunssf' },
+  { name: 'Hz', offset: 14, type: 'uint16', sf: 'Hz_SF', units: 'Hz' },
+  { name: 'Hz_SF', offset: 15, type: 'sunssf' },
+  { name: 'PF', offset: 20, type: 'int16', sf: 'PF_SF', units: 'Pct' },
+  { name: 'PF_SF', offset: 21, type: 'sunssf' },
+  { name: 'WH', offset: 22, type: 'acc32', sf: 'WH_SF', units: 'Wh' },
+  { name: 'WH_SF', offset: 24, type: 'sunssf' },
+  { name: 'DCA', offset: 25, type: 'uint16', sf: 'DCA_SF', units: 'A' },
+  { name: 'DCA_SF', offset: 26, type: 'sunssf' },
+  { name: 'DCV', offset: 27, type: 'uint16', sf: 'DCV_SF', units: 'V' },
+  { name: 'DCV_SF', offset: 28, type: 'sunssf' },
+  { name: 'DCW', offset: 29, type: 'int16', sf: 'DCW_SF', units: 'W' },
+  { name: 'DCW_SF', offset: 30, type: 'sunssf' },
+  { name: 'TmpCab', offset: 31, type: 'int16', sf: 'Tmp_SF', units: 'C' },
+  { name: 'TmpSnk', offset: 32, type: 'int16', sf: 'Tmp_SF', units: 'C' },
+  { name: 'Tmp_SF', offset: 35, type: 'sunssf' },
+  { name: 'St', offset: 36, type: 'enum16', enumValues: INVERTER_STATES },
+  { name: 'Evt1', offset: 38, type: 'bitfield32' }
+];
+
+const MPPT_MODEL: SunSpecModelDefinition = {
+  id: 160,
+  name: 'mppt',
+  points: [
+    { name: 'DCA_SF', offset: 0, type: 'sunssf' },
+    { name: 'DCV_SF', offset: 1, type: 'sunssf' },
+    { name: 'DCW_SF', offset: 2, type: 'sunssf' },
+    { name: 'DCWH_SF', offset: 3, type: 'sunssf' },
+    { name: 'N', offset: 6, type: 'uint16' }
+  ],
+  repeating: {
+    offset: 8,
+    length: 20,
+    points: [
+      { name: 'ID', offset: 0, type: 'uint16' },
+      { name: 'IDStr', offset: 1, type: 'string', size: 8 },
+      { name: 'DCA', offset: 9, type: 'uint16', sf: 'DCA_SF', units: 'A' },
+      { name: 'DCV', offset: 10, type: 'uint16', sf: 'DCV_SF', units: 'V' },
+      { name: 'DCW', offset: 11, type: 'uint16', sf: 'DCW_SF', units: 'W' },
+      { name: 'DCWH', offset: 12, type: 'acc32', sf: 'DCWH_SF', units: 'Wh' },
+      { name: 'Tmp', offset: 16, type: 'int16', units: 'C' }
+    ]
+  }
+};
+
+const STORAGE_MODEL: SunSpecModelDefinition = {
+  id: 124,
+  name: 'storage',
+  points: [
+    { name: 'WChaMax', offset: 0, type: 'uint16', sf: 'WChaMax_SF', units: 'W', writable: true },
+    { name: 'StorCtl_Mod', offset: 3, type: 'bitfield16', writable: true },
+    { name: 'MinRsvPct', offset: 5, type: 'uint16', sf: 'MinRsvPct_SF', units: '%WHRtg', writable: true },
+    { name: 'ChaState', offset: 6, type: 'uint16', sf: 'ChaState_SF', units: '%AhrChaMax' },
+    { name: 'StorAval', offset: 7, type: 'uint16', sf: 'StorAval_SF', units: 'AH' },
+    { name: 'InBatV', offset: 8, type: 'uint16', sf: 'InBatV_SF', units: 'V' },
+    {
+      name: 'ChaSt',
+      offset: 9,
+      type: 'enum16',
+      enumValues: { 1: 'OFF', 2: 'EMPTY', 3: 'DISCHARGING', 4: 'CHARGING', 5: 'FULL', 6: 'HOLDING', 7: 'TESTING' }
+    },
+    { name: 'OutWRte', offset: 10, type: 'int16', sf: 'InOutWRte_SF', units: '%WChaMax', writable: true },
+    { name: 'InWRte', offset: 11, type: 'int16', sf: 'InOutWRte_SF', units: '%WChaMax', writable: true },
+    { name: 'WChaMax_SF', offset: 16, type: 'sunssf' },
+    { name: 'MinRsvPct_SF', offset: 19, type: 'sunssf' },
+    { name: 'ChaState_SF', offset: 20, type: 'sunssf' },
+    { name: 'StorAval_SF', offset: 21, type: 'sunssf' },
+    { name: 'InBatV_SF', offset: 22, type: 'sunssf' },
+    { name: 'InOutWRte_SF', offset: 23, type: 'sunssf' }
+  ]
+};
+
+const METER_POINTS: SunSpecPoint[] = [
+  { name: 'A', offset: 0, type: 'int16', sf: 'A_SF', units: 'A' },
+  { name: 'AphA', offset: 1, type: 'int16', sf: 'A_SF', units: 'A' },
+  { name: 'AphB', offset: 2, type: 'int16', sf: 'A_SF', units: 'A' },
+  { name: 'AphC', offset: 3, type: 'int16', sf: 'A_SF', units: 'A' },
+  { name: 'A_SF', offset: 4, type: 'sunssf' },
+  { name: 'PhV', offset: 5, type: 'int16', sf: 'V_SF', units: 'V' },
+  { name: 'PhVphA', offset: 6, type: 'int16', sf: 'V_SF', units: 'V' },
+  { name: 'PhVphB', offset: 7, type: 'int16', sf: 'V_SF', units: 'V' },
+  { name: 'PhVphC', offset: 8, type: 'int16', sf: 'V_SF', units: 'V' },
+  { name: 'V_SF', offset: 13, type: 'sunssf' },
+  { name: 'Hz', offset: 14, type: 'int16', sf: 'Hz_SF', units: 'Hz' },
+  { name: 'Hz_SF', offset: 15, type: 'sunssf' },
+  { name: 'W', offset: 16, type: 'int16', sf: 'W_SF', units: 'W' },
+  { name: 'WphA', offset: 17, type: 'int16', sf: 'W_SF', units: 'W' },
+  { name: 'WphB', offset: 18, type: 'int16', sf: 'W_SF', units: 'W' },
+  { name: 'WphC', offset: 19, type: 'int16', sf: 'W_SF', units: 'W' },
+  { name: 'W_SF', offset: 20, type: 'sunssf' },
+  { name: 'TotWhExp', offset: 36, type: 'acc32', sf: 'TotWh_SF', units: 'Wh' },
+  { name: 'TotWhImp', offset: 44, type: 'acc32', sf: 'TotWh_SF', units: 'Wh' },
+  { name: 'TotWh_SF', offset: 52, type: 'sunssf' }
+];
+
+const inverterModel = (id: number, name: string): SunSpecModelDefinition => ({ id, name, points: INVERTER_POINTS });
+const meterModel = (id: number, name: string): SunSpecModelDefinition => ({ id, name, points: METER_POINTS });
+
+export const SUNSPEC_MODELS: Record<number, SunSpecModelDefinition> = {
+  1: COMMON_MODEL,
+  101: inverterModel(101, 'inverter_single_phase'),
+  102: inverterModel(102, 'inverter_split_phase'),
+  103: inverterModel(103, 'inverter_three_phase'),
+  124: STORAGE_MODEL,
+  160: MPPT_MODEL,
+  201: meterModel(201, 'meter_single_phase'),
+  202: meterModel(202, 'meter_split_phase'),
+  203: meterModel(203, 'meter_wye'),
+  204: meterModel(204, 'meter_delta')
+};
+
+export const INVERTER_MODEL_IDS = [101, 102, 103];
+export const METER_MODEL_IDS = [201, 202, 203, 204];
+
+/**
+ * Location of a model instance in the register space
+ */
+export interface SunSpecModelInstance {
+  id: number;
+  address: number; // address of the ID register
+  length: number; // value of the L register
+}
+
+const POINT_TYPES: Record<SunSpecPointType, Pick<RegisterDefinition, 'dataType' | 'notImplemented'>> = {
+  uint16: { dataType: 'uint16', notImplemented: 0xffff },
+  int16: { dataType: 'int16', notImplemented: -0x8000 },
+  uint32: { dataType: 'uint32', notImplemented: 0xffffffff },
+  acc32: { dataType: 'uint32', notImplemented: 0 },
+  sunssf: { dataType: 'int16', notImplemented: -0x8000 },
+  enum16: { dataType: 'uint16', notImplemented: 0xffff },
+  bitfield16: { dataType: 'uint16', notImplemented: 0xffff },
+  bitfield32: { dataType: 'uint32', notImplemented: 0xffffffff },
+  string: { dataType: 'string' }
+};
+
+/**
+ * Register name of a point: "<modelId>.<point>" or "<modelId>.<block>.<point>" for repeating blocks
+ */
+export function pointRegisterName(modelId: number, point: string, block?: number): string {
+  return block === undefined ? `${modelId}.${point}` : `${modelId}.${block}.${point}`;
+}
+
+function pointToRegister(
+  point: SunSpecPoint,
+  address: number,
+  sfRegister?: string
+): RegisterDefinition {
+  return {
+    address,
+    table: 'holding',
+    ...POINT_TYPES[point.type],
+    length: point.type === 'string' ? point.size : undefined,
+    scaleFactorRegister: sfRegister,
+    unit: point.units,
+    writable: point.writable,
+    enumValues: point.enumValues
+  };
+}
+
+/**
+ * Build register definitions for every known point of a model instance
+ */
+export function buildModelRegisters(instance: SunSpecModelInstance): Record<string, RegisterDefinition> {
+  const definition = SUNSPEC_MODELS[instance.id];
+  const registers: Record<string, RegisterDefinition> = {};
+  if (!definition) {
+    return registers;
+  }
+
+  const dataStart = instance.address + 2;
+  const dataEnd = dataStart + instance.length;
+
+  for (const point of definition.points) {
+    const address = dataStart + point.offset;
+    if (address >= dataEnd) continue; // shorter (older) model revision
+    const sfRegister = point.sf ? pointRegisterName(instance.id, point.sf) : undefined;
+    registers[pointRegisterName(instance.id, point.name)] = pointToRegister(point, address, sfRegister);
+  }
+
+  if (definition.repeating) {
+    const { offset, length, points } = definition.repeating;
+    const blocks = Math.max(0, Math.floor((instance.length - offset) / length));
+
+    for (let block = 0; block < blocks; block++) {
+      const blockStart = dataStart + offset + block * length;
+      for (const point of points) {
+        // Scale factors of repeating points live in the fixed block
+        const sfRegister = point.sf ? pointRegisterName(instance.id, point.sf) : undefined;
+        registers[pointRegisterName(instance.id, point.name, block + 1)] =
+          pointToRegister(point, blockStart + point.offset, sfRegister);
+      }
+    }
+  }
+
+  return registers;
+}
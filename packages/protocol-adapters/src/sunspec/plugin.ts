@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import { ModbusConnectionSchema } from '../modbus/plugin';
+import type { SunSpecConfig } from './adapter';
+
+/**
+ * SunSpec adapter plugin (Modbus model chain scan)
+ */
+export const sunspecPlugin = defineAdapterPlugin<SunSpecConfig>({
+  protocol: 'sunspec',
+  name: '@maestro/protocol-adapters/sunspec',
+  description: 'SunSpec inverters, storage and meters over Modbus',
+  configSchema: ModbusConnectionSchema.extend({
+    devices: z.array(z.object({
+      unitId: z.number().int().min(0).max(255)
+    }).passthrough()).optional(),
+    baseAddresses: z.array(z.number().int().nonnegative()).optional()
+  }).passthrough(),
+  deviceTypes: ['solar_inverter', 'battery_pack', 'energy_meter'],
+  capabilities: ['energy_meter', 'power_control', 'energy_storage', 'grid_interaction'],
+  create: async config => {
+    const { SunSpecAdapter } = await import('./adapter');
+    return new SunSpecAdapter(config);
+  }
+});
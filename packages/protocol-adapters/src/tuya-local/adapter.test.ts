@@ -0,0 +1,283 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import type { DeviceStatusUpdate, DeviceDiscovery } from '@maestro/shared/types';
+
+import { TuyaLocalAdapter, TuyaLocalConfig, TuyaLocalDeviceConfig } from './adapter';
+import { TuyaDeviceSimulator } from './simulator';
+import {
+  TuyaCommand,
+  TuyaProtocolVersion,
+  decodeDiscoveryPacket,
+  decodeFrame,
+  encodeDiscoveryPacket,
+  encodeFrame
+} from './protocol';
+import { TuyaAdapter, TuyaConfig } from '../tuya/adapter';
+import { CircuitBreaker } from '../base/circuit-breaker';
+
+/**
+ * Tuya Local Adapter Tests
+ *
+ * Devices are simulated in-process (TCP session server plus UDP broadcasts),
+ * one per protocol version.
+ */
+
+const LOCAL_KEY = 'a1b2c3d4e5f6g7h8';
+const PLUG_DPS = { '1': true, '9': 0, '17': 12, '18': 431, '19': 987, '20': 2301 };
+
+function waitForUpdate(
+  adapter: { on: Function; removeListener: Function },
+  predicate: (update: DeviceStatusUpdate) => boolean
+): Promise<DeviceStatusUpdate> {
+  return new Promise(resolve => {
+    const listener = (update: DeviceStatusUpdate) => {
+      if (predicate(update)) {
+        adapter.removeListener('deviceUpdate', listener);
+        resolve(update);
+      }
+    };
+    adapter.on('deviceUpdate', listener);
+  });
+}
+
+function createConfig(options: TuyaLocalConfig['options']): TuyaLocalConfig {
+  return {
+    protocol: 'local_network',
+    name: 'Tuya Local Test Adapter',
+    enabled: true,
+    connectionTimeout: 2000,
+    commandTimeout: 2000,
+    retryAttempts: 0,
+    retryDelay: 0,
+    maxConcurrentCommands: 5,
+    options: { discovery: false, heartbeatInterval: 0, reconnectInterval: 50, ...options }
+  };
+}
+
+describe('Tuya LAN protocol codec', () => {
+  const key = Buffer.from(LOCAL_KEY);
+
+  test.each<TuyaProtocolVersion>(['3.3', '3.4', '3.5'])('round-trips control frames for %s', version => {
+    const payload = Buffer.from(JSON.stringify({ dps: { '1': false } }));
+    const frame = encodeFrame({ seq: 42, command: TuyaCommand.CONTROL_NEW, payload }, { version, key });
+    const decoded = decodeFrame(frame, { version, key });
+
+    expect(decoded).toMatchObject({ seq: 42, command: TuyaCommand.CONTROL_NEW, retcode: undefined });
+    expect(decoded.payload.toString()).toBe(payload.toString());
+  });
+
+  test.each<TuyaProtocolVersion>(['3.3', '3.4', '3.5'])('separates device return codes for %s', version => {
+    const payload = Buffer.from(JSON.stringify({ dps: { '19': 120 } }));
+    const frame = encodeFrame({ seq: 7, command: TuyaCommand.STATUS, retcode: 0, payload }, { version, key });
+    const decoded = decodeFrame(frame, { version, key });
+
+    expect(decoded.retcode).toBe(0);
+    expect(JSON.parse(decoded.payload.toString())).toEqual({ dps: { '19': 120 } });
+  });
+
+  test('rejects frames signed with another key', () => {
+    const frame = encodeFrame(
+      { seq: 1, command: TuyaCommand.DP_QUERY_NEW, payload: Buffer.from('{}') },
+      { version: '3.4', key }
+    );
+    expect(() => decodeFrame(frame, { version: '3.4', key: Buffer.from('0000000000000000') })).toThrow('HMAC');
+  });
+
+  test('decodes plain and encrypted discovery broadcasts', () => {
+    const announcement = { gwId: 'bf0123456789abcdef', ip: '192.168.1.40', version: '3.4' };
+
+    expect(decodeDiscoveryPacket(encodeDiscoveryPacket(announcement, false))).toEqual(announcement);
+    expect(decodeDiscoveryPacket(encodeDiscoveryPacket(announcement, true))).toEqual(announcement);
+  });
+});
+
+describe.each<TuyaProtocolVersion>(['3.3', '3.4', '3.5'])('TuyaLocalAdapter (protocol %s)', version => {
+  const deviceId = `bf${version.replace('.', '')}0000aabbccdd`;
+  const simulator = new TuyaDeviceSimulator({ deviceId, localKey: LOCAL_KEY, version, dps: PLUG_DPS });
+  let adapter: TuyaLocalAdapter;
+
+  beforeAll(async () => {
+    await simulator.start();
+    adapter = new TuyaLocalAdapter(createConfig({
+      devices: [{ deviceId, localKey: LOCAL_KEY, ip: simulator.host, port: simulator.port, version }]
+    }));
+    await adapter.initialize();
+    expect(await adapter.waitForDevice(deviceId)).toBe(true);
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  test('queries DPs and maps them to DP codes', async () => {
+    const status = await adapter.getDeviceStatus(deviceId);
+
+    expect(status.status).toBe('online');
+    expect(status.state).toMatchObject({
+      switch_1: true,
+      add_ele: 12,
+      cur_current: 431,
+      cur_power: 987,
+      cur_voltage: 2301
+    });
+  });
+
+  test('writes DPs and receives the confirming push', async () => {
+    const pushed = waitForUpdate(adapter, update => update.state.switch_1 === false);
+    const result = await adapter.sendCommand(deviceId, { deviceId, command: 'turn_off', timestamp: new Date() });
+
+    expect(result.success).toBe(true);
+    expect(simulator.getControls()).toContainEqual({ '1': false });
+    expect((await pushed).source).toBe('webhook');
+  });
+
+  test('emits unsolicited DP pushes', async () => {
+    const pushed = waitForUpdate(adapter, update => update.state.cur_power === 1500);
+    simulator.setDps({ '19': 1500 });
+
+    expect((await pushed).state).toMatchObject({ switch_1: false, cur_power: 1500 });
+  });
+
+  test('toggles from cached state and accepts raw DP writes', async () => {
+    await adapter.sendCommand(deviceId, { deviceId, command: 'toggle', timestamp: new Date() });
+    await adapter.sendCommand(deviceId, {
+      deviceId,
+      command: 'set_dps',
+      parameters: { dps: { countdown_1: 60 } },
+      timestamp: new Date()
+    });
+
+    expect(simulator.getControls().slice(-2)).toEqual([{ '1': true }, { '9': 60 }]);
+  });
+});
+
+describe('TuyaLocalAdapter discovery and reconnect', () => {
+  const deviceId = 'bf5500aabbccddeeff';
+  const simulator = new TuyaDeviceSimulator({ deviceId, localKey: LOCAL_KEY, version: '3.4', dps: PLUG_DPS });
+  const discoveryPort = 17000 + Math.floor(Math.random() * 1000);
+  let adapter: TuyaLocalAdapter;
+
+  beforeAll(async () => {
+    await simulator.start();
+  });
+
+  afterEach(async () => {
+    await adapter?.disconnect();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  test('learns IP and version from UDP broadcasts', async () => {
+    const device: TuyaLocalDeviceConfig = { deviceId, localKey: LOCAL_KEY, port: simulator.port };
+    adapter = new TuyaLocalAdapter(createConfig({ discovery: true, discoveryPorts: [discoveryPort], devices: [device] }));
+    await adapter.initialize();
+    expect(adapter.isDeviceConnected(deviceId)).toBe(false);
+
+    const online = waitForUpdate(adapter, update => update.deviceId === deviceId && update.status === 'online');
+    await simulator.broadcast(discoveryPort);
+    await online;
+
+    const info = await adapter.getDeviceInfo(deviceId);
+    expect(info.networkInfo?.ipAddress).toBe('127.0.0.1');
+    expect(info.metadata?.protocolVersion).toBe('3.4');
+  });
+
+  test('reports unconfigured announced devices', async () => {
+    const stranger = new TuyaDeviceSimulator({ deviceId: 'bf9900aabbccddeeff', localKey: LOCAL_KEY, version: '3.3' });
+    adapter = new TuyaLocalAdapter(createConfig({ discovery: true, discoveryPorts: [discoveryPort + 1] }));
+    await adapter.initialize();
+
+    const discovered = new Promise<DeviceDiscovery>(resolve => adapter.once('deviceDiscovered', resolve));
+    await stranger.broadcast(discoveryPort + 1);
+
+    expect(await discovered).toMatchObject({ protocol: 'local_network', deviceId: 'bf9900aabbccddeeff', confidence: 0.3 });
+    expect(await adapter.discoverDevices({ configured: false })).toHaveLength(1);
+  });
+
+  test('reconnects after the device drops the session', async () => {
+    adapter = new TuyaLocalAdapter(createConfig({
+      devices: [{ deviceId, localKey: LOCAL_KEY, ip: simulator.host, port: simulator.port, version: '3.4' }]
+    }));
+    await adapter.initialize();
+    await adapter.waitForDevice(deviceId);
+
+    const offline = waitForUpdate(adapter, update => update.status === 'offline');
+    const online = waitForUpdate(adapter, update => update.status === 'online');
+    simulator.dropClients();
+
+    await offline;
+    await online;
+    expect(adapter.isDeviceConnected(deviceId)).toBe(true);
+  });
+});
+
+describe('TuyaAdapter local failover', () => {
+  const deviceId = 'bf3300ffeeddccbbaa';
+  const simulator = new TuyaDeviceSimulator({ deviceId, localKey: LOCAL_KEY, version: '3.3', dps: PLUG_DPS });
+  let adapter: TuyaAdapter;
+
+  beforeAll(async () => {
+    await simulator.start();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  test('controls devices locally when the cloud is unreachable', async () => {
+    const config: TuyaConfig = {
+      protocol: 'tuya',
+      name: 'Tuya Failover Test Adapter',
+      enabled: true,
+      connectionTimeout: 1000,
+      commandTimeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 5,
+      authentication: {
+        clientId: 'test-client',
+        clientSecret: 'test-secret',
+        accessToken: 'test-token',
+        tokenExpiresAt: Date.now() + 3600 * 1000,
+        baseUrl: 'http://127.0.0.1:1'
+      },
+      options: {
+        pollingInterval: 60000,
+        localControl: {
+          enabled: true,
+          discoveryPorts: [],
+          heartbeatInterval: 0,
+          devices: [{ deviceId, localKey: LOCAL_KEY, ip: simulator.host, port: simulator.port, version: '3.3' }]
+        }
+      }
+    };
+
+    adapter = new TuyaAdapter(config);
+    const online = waitForUpdate(adapter, update => update.deviceId === deviceId && update.status === 'online');
+    await adapter.initialize();
+    await online;
+
+    const result = await adapter.sendCommand(deviceId, { deviceId, command: 'turn_off', timestamp: new Date() });
+    expect(result.success).toBe(true);
+    expect(simulator.getControls()).toEqual([{ '1': false }]);
+
+    const status = await adapter.getDeviceStatus(deviceId);
+    expect(status.state.switch_1).toBe(false);
+
+    const diagnostics = await adapter.getDiagnostics();
+    expect(diagnostics.cloudReachable).toBe(false);
+    expect(diagnostics.localControl.connectedDevices).toBe(1);
+  });
+
+  test('sends commands locally while the cloud circuit is open', async () => {
+    (adapter as unknown as { cloudCircuit: CircuitBreaker }).cloudCircuit.trip('API request failed: 429 Too Many Requests', 60000);
+
+    const result = await adapter.queueCommand(deviceId, { deviceId, command: 'turn_on', timestamp: new Date() });
+    expect(result.success).toBe(true);
+    expect(simulator.getControls()).toEqual([{ '1': false }, { '1': true }]);
+    expect(adapter.getCircuitBreakers().transports).toEqual([expect.objectContaining({ name: 'tuya:cloud', state: 'open' })]);
+  });
+});
@@ -0,0 +1,779 @@
+import dgram from 'dgram';
+import {
+  DeviceType,
+  DeviceCommand,
+  CommandResult,
+  DeviceStatusUpdate,
+  DeviceDiscovery,
+  DeviceCapability
+} from '@maestro/shared/types';
+
+import {
+  BaseProtocolAdapter,
+  AdapterConfig,
+  DeviceInfo,
+  EventSubscription
+} from '../base/adapter';
+import { validateDeviceId } from '../utils/validation';
+import { TUYA_LOCAL_PORT, TUYA_VERSIONS, TuyaProtocolVersion, decodeDiscoveryPacket } from './protocol';
+import { TuyaLocalSession } from './session';
+import { TuyaDpSchema, defaultTuyaDpSchema, findSwitchCode, getDpIds, mapDpSchemaToCapabilities, mapDpsToState } from '../tuya/dp-schema';
+
+/**
+ * Tuya Local Network Adapter
+ *
+ * Implements the BaseProtocolAdapter for cloud-free control of Tuya devices
+ * over the encrypted LAN protocol (3.3, 3.4 and 3.5).
+ *
+ * Features:
+ * - Per-device local key encryption and session key negotiation
+ * - UDP broadcast discovery on ports 6666/6667 (IP and protocol version)
+ * - Persistent TCP sessions with heartbeats and automatic reconnect
+ * - DP pushes emitted as device updates without polling
+ * - Same state keys (DP codes plus scaled SmartPlugState fields) as the cloud
+ *   adapter, so cloud and local can fail over
+ */
+
+export interface TuyaLocalDeviceConfig {
+  deviceId: string;
+  localKey: string;
+  ip?: string; // learned from UDP discovery when omitted
+  port?: number; // default: 6668
+  version?: TuyaProtocolVersion; // learned from UDP discovery, default: 3.3
+  name?: string;
+  deviceType?: DeviceType;
+  dpMap?: Record<string, string | number>; // DP code → DP id, default: from dpSchema
+  dpSchema?: TuyaDpSchema | undefined; // from the cloud specification, default: smart plug layout
+}
+
+export interface TuyaLocalConfig extends AdapterConfig {
+  options: {
+    devices?: TuyaLocalDeviceConfig[];
+    discovery?: boolean; // listen for UDP broadcasts, default: true
+    discoveryPorts?: number[]; // default: [6666, 6667]
+    heartbeatInterval?: number; // milliseconds, default: 10000
+    reconnectInterval?: number; // milliseconds, default: 5000
+  };
+}
+
+export interface TuyaLocalAnnouncement {
+  deviceId: string;
+  ip: string;
+  version?: TuyaProtocolVersion | undefined;
+  productKey?: string | undefined;
+  seenAt: Date;
+}
+
+interface TuyaLocalDevice {
+  config: TuyaLocalDeviceConfig;
+  schema: TuyaDpSchema;
+  dpIds: Record<string, string>; // code → DP id
+  dpCodes: Record<string, string>; // DP id → code
+  ip?: string | undefined;
+  version: TuyaProtocolVersion;
+  session?: TuyaLocalSession | undefined;
+  connecting?: Promise<void> | undefined;
+  reconnectTimer?: NodeJS.Timeout | undefined;
+  state: Record<string, any>;
+  lastUpdateAt?: Date;
+  lastError?: string | undefined;
+}
+
+/**
+ * Tuya Local Protocol Adapter Implementation
+ */
+export class TuyaLocalAdapter extends BaseProtocolAdapter {
+  private devices: Map<string, TuyaLocalDevice>;
+  private announcements: Map<string, TuyaLocalAnnouncement>;
+  private discoverySockets: dgram.Socket[] = [];
+
+  constructor(config: TuyaLocalConfig) {
+    super(config);
+
+    this.devices = new Map();
+    this.announcements = new Map();
+  }
+
+  /**
+   * Initialize the local adapter
+   */
+  async initialize(): Promise<void> {
+    const config = this.getLocalConfig();
+
+    try {
+      if (config.options.discovery !== false) {
+        await this.startDiscoveryListeners();
+      }
+
+      this.updateConnectionStatus(true);
+      this.isInitialized = true;
+
+      // Sessions connect in the background and retry until the device is reachable
+      for (const deviceConfig of config.options.devices || []) {
+        this.addDevice(deviceConfig);
+      }
+
+      this.log('info', 'Tuya local adapter initialized successfully', {
+        devices: this.devices.size,
+        discoveryPorts: this.discoverySockets.length > 0 ? this.getDiscoveryPorts() : []
+      });
+
+    } catch (error) {
+      await this.disconnect();
+      this.updateConnectionStatus(false, `Initialization failed: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Close all sessions and discovery listeners
+   */
+  async disconnect(): Promise<void> {
+    for (const device of this.devices.values()) {
+      this.closeDevice(device);
+    }
+
+    await Promise.all(this.discoverySockets.map(socket => new Promise<void>(resolve => socket.close(() => resolve()))));
+    this.discoverySockets = [];
+
+    this.isInitialized = false;
+    this.updateConnectionStatus(false);
+
+    this.log('info', 'Tuya local adapter disconnected');
+  }
+
+  /**
+   * Register a device for local control (replaces an existing entry with a different key)
+   */
+  addDevice(deviceConfig: TuyaLocalDeviceConfig): void {
+    const existing = this.devices.get(deviceConfig.deviceId);
+    if (existing && existing.config.localKey === deviceConfig.localKey) {
+      // Same session; pick up a schema fetched from the cloud in the meantime
+      if (deviceConfig.dpSchema && deviceConfig.dpSchema !== existing.config.dpSchema) {
+        Object.assign(existing, this.resolveDps({ ...existing.config, ...deviceConfig }));
+        existing.config = { ...existing.config, ...deviceConfig };
+      }
+      return;
+    }
+    if (existing) {
+      this.closeDevice(existing);
+    }
+
+    const announcement = this.announcements.get(deviceConfig.deviceId);
+
+    const device: TuyaLocalDevice = {
+      config: deviceConfig,
+      ...this.resolveDps(deviceConfig),
+      ip: deviceConfig.ip || announcement?.ip,
+      version: deviceConfig.version || announcement?.version || '3.3',
+      state: existing?.state || {}
+    };
+
+    this.devices.set(deviceConfig.deviceId, device);
+    this.connectDevice(device);
+  }
+
+  /**
+   * Stop controlling a device locally
+   */
+  removeDevice(deviceId: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return false;
+    }
+    this.closeDevice(device);
+    return this.devices.delete(deviceId);
+  }
+
+  hasDevice(deviceId: string): boolean {
+    return this.devices.has(deviceId);
+  }
+
+  /**
+   * DP schema a registered device is controlled with
+   */
+  getDpSchema(deviceId: string): TuyaDpSchema | undefined {
+    return this.devices.get(deviceId)?.schema;
+  }
+
+  /**
+   * Whether a device currently has an open local session
+   */
+  isDeviceConnected(deviceId: string): boolean {
+    return !!this.devices.get(deviceId)?.session?.isConnected();
+  }
+
+  /**
+   * Wait for the session of a device (resolves false on failure)
+   */
+  async waitForDevice(deviceId: string): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return false;
+    }
+    await device.connecting;
+    return this.isDeviceConnected(deviceId);
+  }
+
+  /**
+   * Discover local devices: configured devices plus UDP announcements.
+   * `filters.timeout` listens for broadcasts before answering.
+   */
+  async discoverDevices(filters?: Record<string, any>): Promise<DeviceDiscovery[]> {
+    if (filters?.timeout) {
+      await new Promise(resolve => setTimeout(resolve, filters.timeout));
+    }
+
+    const discoveries: DeviceDiscovery[] = [];
+
+    for (const device of this.devices.values()) {
+      discoveries.push(this.mapDeviceToDiscovery(device));
+    }
+
+    // Announced devices without a local key cannot be controlled until paired
+    for (const announcement of this.announcements.values()) {
+      if (!this.devices.has(announcement.deviceId)) {
+        discoveries.push(this.mapAnnouncementToDiscovery(announcement));
+      }
+    }
+
+    const filtered = discoveries.filter(discovery => {
+      if (filters?.deviceType && discovery.deviceType !== filters.deviceType) return false;
+      if (filters?.configured !== undefined && this.devices.has(discovery.deviceId) !== filters.configured) return false;
+      return true;
+    });
+
+    this.log('info', `Discovered ${filtered.length} local Tuya devices`);
+    return filtered;
+  }
+
+  /**
+   * Get detailed device information
+   */
+  async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    const device = this.getDevice(deviceId);
+    const announcement = this.announcements.get(deviceId);
+
+    return {
+      deviceId,
+      protocol: 'local_network',
+      deviceType: device.config.deviceType || 'smart_plug',
+      name: device.config.name ?? deviceId,
+      manufacturer: 'Tuya',
+      model: announcement?.productKey ?? 'Tuya Device',
+      capabilities: this.mapDpsToCapabilities(device).map(cap => cap.type),
+      networkInfo: {
+        ...(device.ip ? { ipAddress: device.ip } : {}),
+        port: device.config.port || TUYA_LOCAL_PORT
+      },
+      metadata: {
+        protocolVersion: device.version,
+        connected: this.isDeviceConnected(deviceId),
+        dpMap: device.dpIds,
+        lastSeenAt: device.session?.lastSeenAt,
+        lastError: device.lastError
+      }
+    };
+  }
+
+  /**
+   * Send command to a device over its local session
+   */
+  async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.validateCommand(deviceId, command);
+
+      const device = this.getDevice(deviceId);
+      const dps = this.mapCommandToDps(device, command);
+      await device.session!.setDps(dps);
+
+      const responseTime = Date.now() - startTime;
+      this.recordCommandSuccess(responseTime);
+
+      this.log('debug', `Command sent to device ${deviceId}`, { command, dps });
+
+      return {
+        success: true,
+        timestamp: new Date(),
+        responseTime,
+        retryCount: 0,
+        result: { dps }
+      };
+
+    } catch (error) {
+      this.recordCommandFailure();
+      this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
+
+      return {
+        success: false,
+        timestamp: new Date(),
+        responseTime: Date.now() - startTime,
+        retryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Query current DPs (cached state when the device is not connected)
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    const device = this.getDevice(deviceId);
+
+    if (!device.session?.isConnected()) {
+      return {
+        deviceId,
+        status: 'offline',
+        state: { ...device.state },
+        timestamp: device.lastUpdateAt || new Date(),
+        source: 'polling'
+      };
+    }
+
+    try {
+      const dps = await device.session.queryDps();
+      this.applyDps(device, dps);
+
+      return {
+        deviceId,
+        status: 'online',
+        state: { ...device.state },
+        timestamp: new Date(),
+        source: 'polling'
+      };
+
+    } catch (error) {
+      this.log('error', `Failed to get device status for ${deviceId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to device updates (delivered from DP pushes)
+   */
+  async subscribeToUpdates(deviceId: string, eventTypes?: string[]): Promise<EventSubscription> {
+    this.getDevice(deviceId);
+
+    const subscription: EventSubscription = {
+      deviceId,
+      eventTypes: eventTypes || ['status_update'],
+      callback: () => {
+        // Replaced by the caller; invoked from emitDeviceUpdate
+      },
+      subscriptionId: this.generateSubscriptionId(),
+      subscribedAt: new Date()
+    };
+
+    this.addSubscription(subscription);
+
+    this.log('debug', `Subscribed to updates for device ${deviceId}`, {
+      subscriptionId: subscription.subscriptionId
+    });
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from device updates
+   */
+  async unsubscribeFromUpdates(subscriptionId: string): Promise<void> {
+    const removed = this.removeSubscription(subscriptionId);
+    if (!removed) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    this.log('debug', 'Unsubscribed from updates', { subscriptionId });
+  }
+
+  /**
+   * Test connection to specific device with a heartbeat
+   */
+  async testDeviceConnection(deviceId: string): Promise<boolean> {
+    const session = this.devices.get(deviceId)?.session;
+    if (!session?.isConnected()) {
+      return false;
+    }
+
+    try {
+      await session.heartbeat();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get local protocol diagnostics
+   */
+  async getDiagnostics(): Promise<Record<string, any>> {
+    const devices = Array.from(this.devices.values());
+
+    return {
+      protocol: 'local_network',
+      connected: this.isConnected(),
+      circuitBreakers: this.getCircuitBreakers(),
+      discoveryPorts: this.discoverySockets.length > 0 ? this.getDiscoveryPorts() : [],
+      configuredDevices: devices.length,
+      connectedDevices: devices.filter(device => device.session?.isConnected()).length,
+      announcedDevices: this.announcements.size,
+      devices: devices.map(device => ({
+        deviceId: device.config.deviceId,
+        ip: device.ip,
+        version: device.version,
+        connected: !!device.session?.isConnected(),
+        lastSeenAt: device.session?.lastSeenAt,
+        lastError: device.lastError
+      }))
+    };
+  }
+
+  /**
+   * Check if adapter supports a device type
+   */
+  supportsDeviceType(deviceType: DeviceType): boolean {
+    const supportedTypes: DeviceType[] = [
+      'smart_plug'
+    ];
+    return supportedTypes.includes(deviceType);
+  }
+
+  /**
+   * Check if adapter supports a capability
+   */
+  supportsCapability(capability: string): boolean {
+    const supportedCapabilities = [
+      'switch',
+      'energy_meter',
+      'timer'
+    ];
+    return supportedCapabilities.includes(capability);
+  }
+
+  /**
+   * Validate command before sending
+   */
+  async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
+    if (!this.validateDeviceId(deviceId)) {
+      throw new Error(`Invalid device ID format: ${deviceId}`);
+    }
+
+    const device = this.getDevice(deviceId);
+    if (!device.session?.isConnected()) {
+      throw new Error(`Device ${deviceId} has no local session`);
+    }
+
+    this.mapCommandToDps(device, command);
+
+    // Raw DP writes are checked by mapCommandToDps alone
+    if (command.command !== 'set_dps') {
+      this.assertValidCommand(command, this.mapDpsToCapabilities(device));
+    }
+    return true;
+  }
+
+  /**
+   * Validate Tuya device ID format
+   */
+  protected validateDeviceId(deviceId: string): boolean {
+    return validateDeviceId(deviceId, 'local_network').isValid;
+  }
+
+  // Private helper methods
+
+  /**
+   * Get typed local configuration
+   */
+  private getLocalConfig(): TuyaLocalConfig {
+    return this.config as TuyaLocalConfig;
+  }
+
+  private getDiscoveryPorts(): number[] {
+    return this.getLocalConfig().options.discoveryPorts || [6666, 6667];
+  }
+
+  private getDevice(deviceId: string): TuyaLocalDevice {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown local Tuya device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  /**
+   * Bind UDP listeners for discovery broadcasts
+   */
+  private async startDiscoveryListeners(): Promise<void> {
+    for (const port of this.getDiscoveryPorts()) {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      socket.on('message', (message, remote) => this.handleAnnouncement(message, remote.address));
+      socket.on('error', error => this.log('warn', `Discovery listener on port ${port} failed`, error));
+
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(port, () => {
+          socket.removeListener('error', reject);
+          resolve();
+        });
+      });
+      this.discoverySockets.push(socket);
+    }
+  }
+
+  /**
+   * Record a UDP announcement and (re)connect configured devices at their current IP
+   */
+  private handleAnnouncement(message: Buffer, remoteAddress: string): void {
+    let payload: Record<string, any>;
+    try {
+      payload = decodeDiscoveryPacket(message);
+    } catch (error) {
+      this.log('debug', `Ignoring undecodable broadcast from ${remoteAddress}`, error);
+      return;
+    }
+
+    if (!payload.gwId) {
+      return;
+    }
+
+    const version = TUYA_VERSIONS.includes(payload.version) ? payload.version as TuyaProtocolVersion : undefined;
+    const announcement: TuyaLocalAnnouncement = {
+      deviceId: payload.gwId,
+      ip: payload.ip || remoteAddress,
+      version,
+      productKey: payload.productKey,
+      seenAt: new Date()
+    };
+    const isNew = !this.announcements.has(announcement.deviceId);
+    this.announcements.set(announcement.deviceId, announcement);
+
+    const device = this.devices.get(announcement.deviceId);
+    if (!device) {
+      if (isNew) {
+        this.emit('deviceDiscovered', this.mapAnnouncementToDiscovery(announcement));
+      }
+      return;
+    }
+
+    const ipChanged = !device.config.ip && device.ip !== announcement.ip;
+    const versionChanged = !device.config.version && version && device.version !== version;
+    if (ipChanged || versionChanged) {
+      this.log('info', `Device ${announcement.deviceId} announced at ${announcement.ip} (v${version})`);
+      device.ip = device.config.ip || announcement.ip;
+      device.version = device.config.version || version || device.version;
+      this.closeDevice(device);
+      this.connectDevice(device);
+    } else if (!device.session?.isConnected() && !device.connecting) {
+      this.connectDevice(device);
+    }
+  }
+
+  /**
+   * Open the device session; retries on the reconnect interval until closed
+   */
+  private connectDevice(device: TuyaLocalDevice): void {
+    if (!device.ip || device.connecting || device.session?.isConnected()) {
+      return;
+    }
+    if (device.reconnectTimer) {
+      clearTimeout(device.reconnectTimer);
+      device.reconnectTimer = undefined;
+    }
+
+    const session = new TuyaLocalSession({
+      deviceId: device.config.deviceId,
+      localKey: device.config.localKey,
+      host: device.ip,
+      port: device.config.port,
+      version: device.version,
+      timeout: this.config.commandTimeout,
+      heartbeatInterval: this.getLocalConfig().options.heartbeatInterval
+    });
+    device.session = session;
+
+    session.on('dps', (dps: Record<string, any>) => this.applyDps(device, dps, 'webhook'));
+    session.on('sessionError', (error: Error) => this.log('debug', `Session error for ${device.config.deviceId}`, error.message));
+    session.on('close', () => {
+      if (device.session !== session) return;
+      this.log('warn', `Local session to ${device.config.deviceId} closed`);
+      this.emitDeviceUpdate({
+        deviceId: device.config.deviceId,
+        status: 'offline',
+        state: { ...device.state },
+        timestamp: new Date(),
+        source: 'webhook'
+      });
+      this.scheduleReconnect(device);
+    });
+
+    device.connecting = (async () => {
+      try {
+        await session.connect();
+        device.lastError = undefined;
+        this.log('info', `Local session to ${device.config.deviceId} established (v${device.version})`);
+
+        const dps = await session.queryDps();
+        this.applyDps(device, dps, 'polling');
+      } catch (error) {
+        device.lastError = error instanceof Error ? error.message : String(error);
+        this.log('warn', `Local connection to ${device.config.deviceId} failed`, device.lastError);
+        if (device.session === session) {
+          session.close();
+          this.scheduleReconnect(device);
+        }
+      } finally {
+        device.connecting = undefined;
+      }
+    })();
+  }
+
+  private scheduleReconnect(device: TuyaLocalDevice): void {
+    if (!this.isInitialized || device.reconnectTimer || this.devices.get(device.config.deviceId) !== device) {
+      return;
+    }
+
+    const interval = this.getLocalConfig().options.reconnectInterval ?? 5000;
+    device.reconnectTimer = setTimeout(() => {
+      device.reconnectTimer = undefined;
+      this.connectDevice(device);
+    }, interval);
+  }
+
+  private closeDevice(device: TuyaLocalDevice): void {
+    if (device.reconnectTimer) {
+      clearTimeout(device.reconnectTimer);
+      device.reconnectTimer = undefined;
+    }
+    const session = device.session;
+    device.session = undefined;
+    session?.removeAllListeners();
+    session?.close();
+  }
+
+  /**
+   * Merge DPs into state (keyed by DP code) and emit the update
+   */
+  private applyDps(device: TuyaLocalDevice, dps: Record<string, any>, source?: 'polling' | 'webhook'): void {
+    const changes: Record<string, any> = {};
+    for (const [dp, value] of Object.entries(dps)) {
+      changes[device.dpCodes[dp] || dp] = value;
+    }
+
+    device.state = mapDpsToState(device.schema, { ...device.state, ...changes });
+    device.lastUpdateAt = new Date();
+
+    if (source) {
+      this.emitDeviceUpdate({
+        deviceId: device.config.deviceId,
+        status: 'online',
+        state: { ...device.state },
+        timestamp: device.lastUpdateAt,
+        source
+      });
+    }
+  }
+
+  /**
+   * Map a command to DP writes
+   */
+  private mapCommandToDps(device: TuyaLocalDevice, command: DeviceCommand): Record<string, any> {
+    const { command: cmd, parameters } = command;
+    const switchCode = findSwitchCode(device.schema) || 'switch_1';
+    const switchDp = device.dpIds[switchCode];
+
+    switch (cmd) {
+      case 'turn_on':
+      case 'turn_off':
+      case 'toggle': {
+        if (!switchDp) {
+          throw new Error(`Device ${device.config.deviceId} has no switch DP`);
+        }
+        const value = cmd === 'toggle' ? !device.state[switchCode] : cmd === 'turn_on';
+        return { [switchDp]: value };
+      }
+
+      case 'set_dps': {
+        // Keys may be DP codes or raw DP ids
+        const requested: Record<string, any> = parameters?.dps || {};
+        if (Object.keys(requested).length === 0) {
+          throw new Error('set_dps requires a non-empty dps parameter');
+        }
+        return Object.fromEntries(
+          Object.entries(requested).map(([key, value]) => [device.dpIds[key] || key, value])
+        );
+      }
+
+      default:
+        throw new Error(`Unsupported command: ${cmd}`);
+    }
+  }
+
+  /**
+   * Capabilities implied by the DP schema, limited to the DPs reachable locally
+   */
+  private mapDpsToCapabilities(device: TuyaLocalDevice): DeviceCapability[] {
+    const dps = Object.fromEntries(Object.entries(device.schema.dps).filter(([code]) => device.dpIds[code]));
+    return mapDpSchemaToCapabilities({ ...device.schema, dps });
+  }
+
+  /**
+   * DP schema and DP id maps of a device
+   */
+  private resolveDps(deviceConfig: TuyaLocalDeviceConfig): Pick<TuyaLocalDevice, 'schema' | 'dpIds' | 'dpCodes'> {
+    const schema = deviceConfig.dpSchema || defaultTuyaDpSchema();
+    const dpIds = deviceConfig.dpMap
+      ? Object.fromEntries(Object.entries(deviceConfig.dpMap).map(([code, dp]) => [code, String(dp)]))
+      : getDpIds(schema);
+
+    return {
+      schema,
+      dpIds,
+      dpCodes: Object.fromEntries(Object.entries(dpIds).map(([code, dp]) => [dp, code]))
+    };
+  }
+
+  /**
+   * Map a configured device to DeviceDiscovery
+   */
+  private mapDeviceToDiscovery(device: TuyaLocalDevice): DeviceDiscovery {
+    const announcement = this.announcements.get(device.config.deviceId);
+
+    return {
+      protocol: 'local_network',
+      deviceId: device.config.deviceId,
+      deviceType: device.config.deviceType || 'smart_plug',
+      name: device.config.name,
+      specifications: {
+        manufacturer: 'Tuya',
+        model: announcement?.productKey || 'Tuya Device',
+        firmwareVersion: undefined
+      },
+      capabilities: this.mapDpsToCapabilities(device),
+      networkInfo: device.ip ? { ipAddress: device.ip } : {},
+      discoveredAt: announcement?.seenAt || new Date(),
+      confidence: device.session?.isConnected() ? 1.0 : device.ip ? 0.7 : 0.4
+    };
+  }
+
+  /**
+   * Map an announcement of an unconfigured device to DeviceDiscovery
+   */
+  private mapAnnouncementToDiscovery(announcement: TuyaLocalAnnouncement): DeviceDiscovery {
+    return {
+      protocol: 'local_network',
+      deviceId: announcement.deviceId,
+      deviceType: 'smart_plug',
+      specifications: {
+        manufacturer: 'Tuya',
+        model: announcement.productKey || 'Tuya Device',
+        firmwareVersion: undefined
+      },
+      capabilities: [],
+      networkInfo: {
+        ipAddress: announcement.ip
+      },
+      discoveredAt: announcement.seenAt,
+      confidence: 0.3 // local key required before control
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { TuyaLocalConfig } from './adapter';
+
+/**
+ * Tuya local LAN adapter plugin (protocol 3.3/3.4/3.5)
+ */
+export const tuyaLocalPlugin = defineAdapterPlugin<TuyaLocalConfig>({
+  protocol: 'local_network',
+  name: '@maestro/protocol-adapters/tuya-local',
+  description: 'Cloud-free Tuya control over the local network',
+  configSchema: z.object({
+    devices: z.array(z.object({
+      deviceId: z.string().min(1),
+      localKey: z.string().min(16),
+      ip: z.string().optional(),
+      port: z.number().int().min(1).max(65535).optional(),
+      version: z.enum(['3.3', '3.4', '3.5']).optional()
+    }).passthrough()).optional(),
+    discovery: z.boolean().optional(),
+    discoveryPorts: z.array(z.number().int().min(1).max(65535)).optional(),
+    heartbeatInterval: z.number().int().nonnegative().optional(),
+    reconnectInterval: z.number().int().nonnegative().optional()
+  }).passthrough(),
+  deviceTypes: ['smart_plug'],
+  capabilities: ['switch', 'energy_meter'],
+  create: async config => {
+    const { TuyaLocalAdapter } = await import('./adapter');
+    return new TuyaLocalAdapter(config);
+  }
+});
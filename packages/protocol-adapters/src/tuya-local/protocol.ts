@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+
+/**
+ * Tuya LAN Protocol Codec
+ *
+ * Frame encoding and payload encryption for the local Tuya protocol spoken on
+ * TCP port 6668 and in UDP discovery broadcasts.
+ *
+ * - 3.3: 0x55AA frames, CRC32 trailer, AES-128-ECB with the device local key
+ * - 3.4: 0x55AA frames, HMAC-SHA256 trailer, AES-128-ECB with a negotiated session key
+ * - 3.5: 0x6699 frames, AES-128-GCM (12 byte IV, 16 byte tag) with a negotiated session key
+ *
+ * Both directions are implemented so the device simulator can share the codec.
+ */
+
+export type TuyaProtocolVersion = '3.3' | '3.4' | '3.5';
+
+export const TUYA_VERSIONS: TuyaProtocolVersion[] = ['3.3', '3.4', '3.5'];
+
+export const TuyaCommand = {
+  UDP: 0x00,
+  SESS_KEY_NEG_START: 0x03,
+  SESS_KEY_NEG_RESP: 0x04,
+  SESS_KEY_NEG_FINISH: 0x05,
+  CONTROL: 0x07,
+  STATUS: 0x08,
+  HEART_BEAT: 0x09,
+  DP_QUERY: 0x0a,
+  CONTROL_NEW: 0x0d,
+  DP_QUERY_NEW: 0x10,
+  UPDATEDPS: 0x12,
+  UDP_NEW: 0x13,
+  BROADCAST_LPV34: 0x23
+} as const;
+
+export const TUYA_LOCAL_PORT = 6668;
+
+const PREFIX_55AA = 0x000055aa;
+const SUFFIX_55AA = 0x0000aa55;
+const PREFIX_6699 = 0x00006699;
+const SUFFIX_6699 = 0x00009966;
+
+const HEADER_55AA_LENGTH = 16;
+const HEADER_6699_LENGTH = 18;
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+const VERSION_HEADER_LENGTH = 15; // "3.x" + 12 reserved bytes
+
+// Commands sent without the "3.x" version header
+const NO_VERSION_HEADER_COMMANDS: number[] = [
+  TuyaCommand.UDP,
+  TuyaCommand.UDP_NEW,
+  TuyaCommand.BROADCAST_LPV34,
+  TuyaCommand.DP_QUERY,
+  TuyaCommand.DP_QUERY_NEW,
+  TuyaCommand.UPDATEDPS,
+  TuyaCommand.HEART_BEAT,
+  TuyaCommand.SESS_KEY_NEG_START,
+  TuyaCommand.SESS_KEY_NEG_RESP,
+  TuyaCommand.SESS_KEY_NEG_FINISH
+];
+
+/**
+ * Key for encrypted UDP discovery broadcasts: md5("yGAdlopoPVldABfn")
+ */
+export const UDP_KEY = crypto.createHash('md5').update('yGAdlopoPVldABfn').digest();
+
+export interface TuyaFrame {
+  seq: number;
+  command: number;
+  retcode?: number | undefined;
+  payload: Buffer; // decrypted, version header stripped
+}
+
+export interface TuyaCodecOptions {
+  version: TuyaProtocolVersion;
+  key: Buffer; // local key during negotiation, session key afterwards
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function encryptECB(key: Buffer, data: Buffer, padding = true): Buffer {
+  const cipher = crypto.createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(padding);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+export function decryptECB(key: Buffer, data: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-128-ecb', key, null);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+export function hmacSHA256(key: Buffer, data: Buffer): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Normalize a local key (16 ASCII characters) to key bytes
+ */
+export function toKeyBuffer(localKey: string | Buffer): Buffer {
+  const key = Buffer.isBuffer(localKey) ? localKey : Buffer.from(localKey, 'latin1');
+  if (key.length !== 16) {
+    throw new Error(`Tuya local key must be 16 bytes, got ${key.length}`);
+  }
+  return key;
+}
+
+/**
+ * Derive the session key from both negotiation nonces
+ */
+export function deriveSessionKey(
+  version: TuyaProtocolVersion,
+  localKey: Buffer,
+  localNonce: Buffer,
+  remoteNonce: Buffer
+): Buffer {
+  const mixed = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) {
+    mixed[i] = localNonce[i]! ^ remoteNonce[i]!;
+  }
+
+  if (version === '3.5') {
+    const cipher = crypto.createCipheriv('aes-128-gcm', localKey, localNonce.subarray(0, GCM_IV_LENGTH));
+    return Buffer.concat([cipher.update(mixed), cipher.final()]).subarray(0, 16);
+  }
+  return encryptECB(localKey, mixed, false).subarray(0, 16);
+}
+
+/**
+ * Encode a frame. Device-originated frames carry a return code before the payload.
+ */
+export function encodeFrame(
+  frame: { seq: number; command: number; payload: Buffer; retcode?: number },
+  options: TuyaCodecOptions
+): Buffer {
+  const plain = needsVersionHeader(frame.command, frame.payload)
+    ? Buffer.concat([versionHeader(options.version), frame.payload])
+    : frame.payload;
+
+  if (options.version === '3.5') {
+    const body = frame.retcode === undefined ? plain : Buffer.concat([uint32(frame.retcode), plain]);
+    const iv = crypto.randomBytes(GCM_IV_LENGTH);
+    const header = Buffer.alloc(HEADER_6699_LENGTH);
+    header.writeUInt32BE(PREFIX_6699, 0);
+    header.writeUInt16BE(0, 4);
+    header.writeUInt32BE(frame.seq, 6);
+    header.writeUInt32BE(frame.command, 10);
+    header.writeUInt32BE(GCM_IV_LENGTH + body.length + GCM_TAG_LENGTH, 14);
+
+    const cipher = crypto.createCipheriv('aes-128-gcm', options.key, iv);
+    cipher.setAAD(header.subarray(4));
+    const encrypted = Buffer.concat([cipher.update(body), cipher.final()]);
+
+    return Buffer.concat([header, iv, encrypted, cipher.getAuthTag(), uint32(SUFFIX_6699)]);
+  }
+
+  // 3.3 keeps the version header outside the ciphertext, 3.4 encrypts it; the return code is never encrypted
+  let encrypted: Buffer;
+  if (options.version === '3.4') {
+    encrypted = plain.length > 0 ? encryptECB(options.key, plain) : plain;
+  } else {
+    encrypted = Buffer.concat([
+      needsVersionHeader(frame.command, frame.payload) ? versionHeader(options.version) : Buffer.alloc(0),
+      frame.payload.length > 0 ? encryptECB(options.key, frame.payload) : frame.payload
+    ]);
+  }
+  if (frame.retcode !== undefined) {
+    encrypted = Buffer.concat([uint32(frame.retcode), encrypted]);
+  }
+
+  const trailerLength = options.version === '3.4' ? 32 : 4;
+  const header = Buffer.alloc(HEADER_55AA_LENGTH);
+  header.writeUInt32BE(PREFIX_55AA, 0);
+  header.writeUInt32BE(frame.seq, 4);
+  header.writeUInt32BE(frame.command, 8);
+  header.writeUInt32BE(encrypted.length + trailerLength + 4, 12);
+
+  const signed = Buffer.concat([header, encrypted]);
+  const trailer = options.version === '3.4' ? hmacSHA256(options.key, signed) : uint32(crc32(signed));
+
+  return Buffer.concat([signed, trailer, uint32(SUFFIX_55AA)]);
+}
+
+/**
+ * Total length of the first frame in a buffer, or 0 if incomplete.
+ * Throws when the buffer does not start with a known prefix.
+ */
+export function frameLength(buffer: Buffer): number {
+  if (buffer.length < 4) {
+    return 0;
+  }
+
+  const prefix = buffer.readUInt32BE(0);
+  if (prefix === PREFIX_55AA) {
+    if (buffer.length < HEADER_55AA_LENGTH) return 0;
+    const total = HEADER_55AA_LENGTH + buffer.readUInt32BE(12);
+    return buffer.length >= total ? total : 0;
+  }
+  if (prefix === PREFIX_6699) {
+    if (buffer.length < HEADER_6699_LENGTH) return 0;
+    const total = HEADER_6699_LENGTH + buffer.readUInt32BE(14) + 4;
+    return buffer.length >= total ? total : 0;
+  }
+
+  throw new Error(`Unknown Tuya frame prefix 0x${prefix.toString(16)}`);
+}
+
+/**
+ * Skip to the next frame prefix (used to resynchronize after garbage)
+ */
+export function findFramePrefix(buffer: Buffer): number {
+  for (let i = 0; i + 4 <= buffer.length; i++) {
+    const value = buffer.readUInt32BE(i);
+    if (value === PREFIX_55AA || value === PREFIX_6699) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Decode and decrypt one complete frame
+ */
+export function decodeFrame(data: Buffer, options: TuyaCodecOptions): TuyaFrame {
+  const prefix = data.readUInt32BE(0);
+
+  if (prefix === PREFIX_6699) {
+    const header = data.subarray(0, HEADER_6699_LENGTH);
+    const length = header.readUInt32BE(14);
+    const iv = data.subarray(HEADER_6699_LENGTH, HEADER_6699_LENGTH + GCM_IV_LENGTH);
+    const tagStart = HEADER_6699_LENGTH + length - GCM_TAG_LENGTH;
+    const cipherText = data.subarray(HEADER_6699_LENGTH + GCM_IV_LENGTH, tagStart);
+
+    const decipher = crypto.createDecipheriv('aes-128-gcm', options.key, iv);
+    decipher.setAAD(header.subarray(4));
+    decipher.setAuthTag(data.subarray(tagStart, tagStart + GCM_TAG_LENGTH));
+    const plain = Buffer.concat([decipher.update(cipherText), decipher.final()]);
+
+    const { retcode, rest } = splitRetcode(plain);
+    return {
+      seq: header.readUInt32BE(6),
+      command: header.readUInt32BE(10),
+      retcode,
+      payload: stripVersionHeader(rest)
+    };
+  }
+
+  if (prefix !== PREFIX_55AA) {
+    throw new Error(`Unknown Tuya frame prefix 0x${prefix.toString(16)}`);
+  }
+
+  const length = data.readUInt32BE(12);
+  const trailerLength = options.version === '3.4' ? 32 : 4;
+  const bodyEnd = HEADER_55AA_LENGTH + length - trailerLength - 4;
+  const signed = data.subarray(0, bodyEnd);
+  const trailer = data.subarray(bodyEnd, bodyEnd + trailerLength);
+
+  if (options.version === '3.4') {
+    if (!hmacSHA256(options.key, signed).equals(trailer)) {
+      throw new Error('Tuya frame HMAC mismatch');
+    }
+  } else if (crc32(signed) !== trailer.readUInt32BE(0)) {
+    throw new Error('Tuya frame CRC mismatch');
+  }
+
+  const { retcode, rest } = splitRetcode(data.subarray(HEADER_55AA_LENGTH, bodyEnd));
+  let payload: Buffer;
+  if (options.version === '3.4') {
+    payload = rest.length > 0 ? stripVersionHeader(decryptECB(options.key, rest)) : rest;
+  } else {
+    const cipherText = hasVersionHeader(rest) ? rest.subarray(VERSION_HEADER_LENGTH) : rest;
+    payload = decryptMaybe(options.key, cipherText);
+  }
+
+  return {
+    seq: data.readUInt32BE(4),
+    command: data.readUInt32BE(8),
+    retcode,
+    payload
+  };
+}
+
+/**
+ * Decode a UDP discovery broadcast into its JSON announcement
+ */
+export function decodeDiscoveryPacket(data: Buffer): Record<string, any> {
+  const prefix = data.readUInt32BE(0);
+  let payload: Buffer;
+
+  if (prefix === PREFIX_6699) {
+    payload = decodeFrame(data, { version: '3.5', key: UDP_KEY }).payload;
+  } else {
+    // Port 6666 broadcasts are plain JSON, 6667 broadcasts are encrypted with UDP_KEY
+    const length = data.readUInt32BE(12);
+    const body = data.subarray(HEADER_55AA_LENGTH, HEADER_55AA_LENGTH + length - 8);
+    const { rest } = splitRetcode(body);
+    payload = rest[0] === 0x7b ? rest : decryptECB(UDP_KEY, rest);
+  }
+
+  return JSON.parse(payload.toString('utf8'));
+}
+
+/**
+ * Encode a UDP discovery broadcast (used by the simulator)
+ */
+export function encodeDiscoveryPacket(announcement: Record<string, any>, encrypted = true): Buffer {
+  const json = Buffer.from(JSON.stringify(announcement));
+  if (!encrypted) {
+    return encodePlainUdp(json);
+  }
+  return encodeFrame({ seq: 0, command: TuyaCommand.UDP_NEW, retcode: 0, payload: json }, { version: '3.3', key: UDP_KEY });
+}
+
+function encodePlainUdp(json: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_55AA_LENGTH);
+  header.writeUInt32BE(PREFIX_55AA, 0);
+  header.writeUInt32BE(0, 4);
+  header.writeUInt32BE(TuyaCommand.UDP, 8);
+  header.writeUInt32BE(4 + json.length + 8, 12);
+  const signed = Buffer.concat([header, uint32(0), json]);
+  return Buffer.concat([signed, uint32(crc32(signed)), uint32(SUFFIX_55AA)]);
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value >>> 0, 0);
+  return buffer;
+}
+
+function versionHeader(version: TuyaProtocolVersion): Buffer {
+  return Buffer.concat([Buffer.from(version), Buffer.alloc(12)]);
+}
+
+function needsVersionHeader(command: number, payload: Buffer): boolean {
+  return payload.length > 0 && !NO_VERSION_HEADER_COMMANDS.includes(command);
+}
+
+function hasVersionHeader(payload: Buffer): boolean {
+  return payload.length >= VERSION_HEADER_LENGTH && /^3\.\d$/.test(payload.subarray(0, 3).toString('latin1'));
+}
+
+function stripVersionHeader(payload: Buffer): Buffer {
+  return hasVersionHeader(payload) ? payload.subarray(VERSION_HEADER_LENGTH) : payload;
+}
+
+/**
+ * Device replies start with a 4 byte return code; encrypted data never has three leading zero bytes in practice
+ */
+function splitRetcode(body: Buffer): { retcode?: number; rest: Buffer } {
+  if (body.length >= 4 && (body.readUInt32BE(0) & 0xffffff00) === 0) {
+    return { retcode: body.readUInt32BE(0), rest: body.subarray(4) };
+  }
+  return { rest: body };
+}
+
+/**
+ * 3.3 devices send some replies (e.g. heartbeats) unencrypted
+ */
+function decryptMaybe(key: Buffer, data: Buffer): Buffer {
+  if (data.length === 0 || data.length % 16 !== 0 || data[0] === 0x7b) {
+    return data;
+  }
+  return decryptECB(key, data);
+}
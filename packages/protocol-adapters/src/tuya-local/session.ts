@@ -0,0 +1,374 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import net from 'net';
+
+import {
+  TuyaCommand,
+  TuyaFrame,
+  TuyaProtocolVersion,
+  TUYA_LOCAL_PORT,
+  decodeFrame,
+  deriveSessionKey,
+  encodeFrame,
+  findFramePrefix,
+  frameLength,
+  hmacSHA256,
+  toKeyBuffer
+} from './protocol';
+
+/**
+ * Tuya Local Session
+ *
+ * One persistent TCP connection to a Tuya device. Handles session key
+ * negotiation (3.4/3.5), request/response matching by sequence number,
+ * heartbeats and DP pushes.
+ *
+ * Events:
+ * - 'dps' (dps: Record<string, any>) for status pushes and query replies
+ * - 'close' (error?: Error) when the socket closes
+ */
+
+export interface TuyaLocalSessionOptions {
+  deviceId: string;
+  localKey: string;
+  host: string;
+  port?: number | undefined; // default: 6668
+  version: TuyaProtocolVersion;
+  timeout?: number | undefined; // milliseconds, default: 5000
+  heartbeatInterval?: number | undefined; // milliseconds, default: 10000 (0 disables)
+}
+
+interface PendingRequest {
+  resolve: (frame: TuyaFrame) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class TuyaLocalSession extends EventEmitter {
+  private readonly options: TuyaLocalSessionOptions;
+  private readonly localKey: Buffer;
+  private socket: net.Socket | undefined;
+  private sessionKey: Buffer | undefined;
+  private buffer: Buffer = Buffer.alloc(0);
+  private seq: number = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private negotiation: (PendingRequest & { localNonce: Buffer }) | undefined;
+  private heartbeatTimer: NodeJS.Timeout | undefined;
+  private connected: boolean = false;
+
+  lastSeenAt?: Date;
+
+  constructor(options: TuyaLocalSessionOptions) {
+    super();
+    this.options = options;
+    this.localKey = toKeyBuffer(options.localKey);
+  }
+
+  get version(): TuyaProtocolVersion {
+    return this.options.version;
+  }
+
+  get host(): string {
+    return this.options.host;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Open the TCP connection and negotiate a session key where required
+   */
+  async connect(): Promise<void> {
+    const timeout = this.options.timeout ?? 5000;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.connect({ host: this.options.host, port: this.options.port ?? TUYA_LOCAL_PORT });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Connection to ${this.options.host} timed out`));
+      }, timeout);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        socket.setNoDelay(true);
+        resolve();
+      });
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      socket.on('data', data => this.handleData(data));
+      socket.on('close', () => this.handleClose());
+      socket.on('error', error => this.emit('sessionError', error));
+      this.socket = socket;
+    });
+
+    try {
+      if (this.options.version !== '3.3') {
+        await this.negotiateSessionKey(timeout);
+      }
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+
+    this.connected = true;
+    this.startHeartbeat();
+  }
+
+  /**
+   * Close the connection and fail outstanding requests
+   */
+  close(): void {
+    this.stopHeartbeat();
+    this.socket?.destroy();
+    this.socket = undefined;
+    this.connected = false;
+    this.sessionKey = undefined;
+  }
+
+  /**
+   * Query all data points
+   */
+  async queryDps(): Promise<Record<string, any>> {
+    const frame = this.options.version === '3.3'
+      ? await this.request(TuyaCommand.DP_QUERY, {
+          gwId: this.options.deviceId,
+          devId: this.options.deviceId,
+          uid: this.options.deviceId,
+          t: timestamp(),
+          dps: {}
+        })
+      : await this.request(TuyaCommand.DP_QUERY_NEW, {});
+
+    return extractDps(parseJson(frame.payload)) || {};
+  }
+
+  /**
+   * Write data points; the device confirms with a status push
+   */
+  async setDps(dps: Record<string, any>): Promise<void> {
+    const frame = this.options.version === '3.3'
+      ? await this.request(TuyaCommand.CONTROL, {
+          devId: this.options.deviceId,
+          uid: this.options.deviceId,
+          t: timestamp(),
+          dps
+        })
+      : await this.request(TuyaCommand.CONTROL_NEW, {
+          protocol: 5,
+          t: timestamp(),
+          data: { dps }
+        });
+
+    if (frame.retcode) {
+      throw new Error(`Device rejected control command (code ${frame.retcode})`);
+    }
+  }
+
+  /**
+   * Send a heartbeat and wait for the echo
+   */
+  async heartbeat(): Promise<void> {
+    await this.request(
+      TuyaCommand.HEART_BEAT,
+      this.options.version === '3.3' ? { gwId: this.options.deviceId, devId: this.options.deviceId } : {}
+    );
+  }
+
+  // Private helper methods
+
+  private request(command: number, payload: Record<string, any>): Promise<TuyaFrame> {
+    if (!this.socket || !this.connected) {
+      return Promise.reject(new Error(`Session to ${this.options.deviceId} is not connected`));
+    }
+
+    const seq = this.nextSeq();
+    const data = encodeFrame(
+      { seq, command, payload: Buffer.from(JSON.stringify(payload)) },
+      { version: this.options.version, key: this.sessionKey || this.localKey }
+    );
+
+    return new Promise<TuyaFrame>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(seq);
+        reject(new Error(`Request 0x${command.toString(16)} to ${this.options.deviceId} timed out`));
+      }, this.options.timeout ?? 5000);
+
+      this.pending.set(seq, { resolve, reject, timer });
+      this.socket!.write(data);
+    });
+  }
+
+  private async negotiateSessionKey(timeout: number): Promise<void> {
+    const localNonce = crypto.randomBytes(16);
+    const options = { version: this.options.version, key: this.localKey };
+
+    const response = new Promise<TuyaFrame>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.negotiation = undefined;
+        reject(new Error(`Session key negotiation with ${this.options.deviceId} timed out`));
+      }, timeout);
+      this.negotiation = { resolve, reject, timer, localNonce };
+    });
+
+    this.socket!.write(encodeFrame({ seq: this.nextSeq(), command: TuyaCommand.SESS_KEY_NEG_START, payload: localNonce }, options));
+    const frame = await response;
+
+    const remoteNonce = frame.payload.subarray(0, 16);
+    const proof = frame.payload.subarray(16, 48);
+    if (remoteNonce.length !== 16 || !hmacSHA256(this.localKey, localNonce).equals(proof)) {
+      throw new Error(`Session key negotiation with ${this.options.deviceId} failed: bad local key`);
+    }
+
+    this.socket!.write(encodeFrame({
+      seq: this.nextSeq(),
+      command: TuyaCommand.SESS_KEY_NEG_FINISH,
+      payload: hmacSHA256(this.localKey, remoteNonce)
+    }, options));
+
+    this.sessionKey = deriveSessionKey(this.options.version, this.localKey, localNonce, remoteNonce);
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    this.lastSeenAt = new Date();
+
+    while (this.buffer.length > 0) {
+      let length: number;
+      try {
+        length = frameLength(this.buffer);
+      } catch {
+        const start = findFramePrefix(this.buffer.subarray(1));
+        this.buffer = start < 0 ? Buffer.alloc(0) : this.buffer.subarray(start + 1);
+        continue;
+      }
+      if (length === 0) {
+        return;
+      }
+
+      const raw = this.buffer.subarray(0, length);
+      this.buffer = this.buffer.subarray(length);
+
+      try {
+        this.handleFrame(raw);
+      } catch (error) {
+        this.emit('sessionError', error);
+      }
+    }
+  }
+
+  private handleFrame(raw: Buffer): void {
+    if (this.negotiation) {
+      const frame = decodeFrame(raw, { version: this.options.version, key: this.localKey });
+      if (frame.command === TuyaCommand.SESS_KEY_NEG_RESP) {
+        const { resolve, timer } = this.negotiation;
+        clearTimeout(timer);
+        this.negotiation = undefined;
+        resolve(frame);
+      }
+      return;
+    }
+
+    const frame = decodeFrame(raw, { version: this.options.version, key: this.sessionKey || this.localKey });
+    const pending = this.pending.get(frame.seq);
+
+    // Status pushes arrive unsolicited or alongside a control reply
+    if (frame.command === TuyaCommand.STATUS || !pending) {
+      const dps = extractDps(parseJson(frame.payload));
+      if (dps) {
+        this.emit('dps', dps);
+      }
+    }
+
+    if (pending && frame.command !== TuyaCommand.STATUS) {
+      clearTimeout(pending.timer);
+      this.pending.delete(frame.seq);
+      pending.resolve(frame);
+
+      const dps = frame.command === TuyaCommand.CONTROL || frame.command === TuyaCommand.CONTROL_NEW
+        ? extractDps(parseJson(frame.payload))
+        : undefined;
+      if (dps) {
+        this.emit('dps', dps);
+      }
+    }
+  }
+
+  private handleClose(): void {
+    const wasConnected = this.connected;
+    this.stopHeartbeat();
+    this.connected = false;
+    this.socket = undefined;
+
+    const error = new Error(`Connection to ${this.options.deviceId} closed`);
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+    if (this.negotiation) {
+      clearTimeout(this.negotiation.timer);
+      this.negotiation.reject(error);
+      this.negotiation = undefined;
+    }
+
+    if (wasConnected) {
+      this.emit('close');
+    }
+  }
+
+  private startHeartbeat(): void {
+    const interval = this.options.heartbeatInterval ?? 10000;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(() => {
+        // A dead peer never answers; drop the socket so the adapter reconnects
+        this.socket?.destroy();
+      });
+    }, interval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  private nextSeq(): number {
+    const seq = this.seq;
+    this.seq = this.seq >= 0x7fffffff ? 1 : this.seq + 1;
+    return seq;
+  }
+}
+
+function timestamp(): string {
+  return Math.floor(Date.now() / 1000).toString();
+}
+
+function parseJson(payload: Buffer): any {
+  if (payload.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(payload.toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * DPs appear at `dps` (3.3) or `data.dps` (3.4/3.5 pushes)
+ */
+function extractDps(message: any): Record<string, any> | undefined {
+  if (!message || typeof message !== 'object') {
+    return undefined;
+  }
+  return message.dps || message.data?.dps;
+}
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import dgram from 'dgram';
+import net from 'net';
+
+import {
+  TuyaCommand,
+  TuyaProtocolVersion,
+  decodeFrame,
+  deriveSessionKey,
+  encodeDiscoveryPacket,
+  encodeFrame,
+  frameLength,
+  hmacSHA256,
+  toKeyBuffer
+} from './protocol';
+
+/**
+ * Tuya Local Device Simulator
+ *
+ * Device side of the Tuya LAN protocol for tests and local development:
+ * accepts TCP sessions, negotiates session keys, answers DP queries and
+ * control commands, pushes DP changes and sends UDP discovery broadcasts.
+ */
+
+export interface TuyaDeviceSimulatorOptions {
+  deviceId: string;
+  localKey: string;
+  version: TuyaProtocolVersion;
+  productKey?: string;
+  host?: string; // default: 127.0.0.1
+  port?: number; // default: 0 (random)
+  dps?: Record<string, any>;
+}
+
+interface SimulatorClient {
+  socket: net.Socket;
+  buffer: Buffer;
+  sessionKey?: Buffer;
+  localNonce?: Buffer;
+  remoteNonce?: Buffer;
+}
+
+export class TuyaDeviceSimulator {
+  readonly deviceId: string;
+  readonly version: TuyaProtocolVersion;
+  readonly host: string;
+  private readonly localKey: Buffer;
+  private readonly productKey: string;
+  private readonly requestedPort: number;
+  private server?: net.Server;
+  private clients: Set<SimulatorClient> = new Set();
+  private dps: Record<string, any>;
+  private controls: Array<Record<string, any>> = [];
+  private pushSeq: number = 1;
+
+  constructor(options: TuyaDeviceSimulatorOptions) {
+    this.deviceId = options.deviceId;
+    this.version = options.version;
+    this.host = options.host || '127.0.0.1';
+    this.localKey = toKeyBuffer(options.localKey);
+    this.productKey = options.productKey || 'keyjup78v54myhan';
+    this.requestedPort = options.port ?? 0;
+    this.dps = { ...(options.dps || {}) };
+  }
+
+  get port(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.requestedPort;
+  }
+
+  get connectedClients(): number {
+    return this.clients.size;
+  }
+
+  async start(): Promise<void> {
+    this.server = net.createServer(socket => this.handleConnection(socket));
+    await new Promise<void>(resolve => this.server!.listen(this.requestedPort, this.host, resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.dropClients();
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Disconnect all sessions (simulates a device reboot or Wi-Fi drop)
+   */
+  dropClients(): void {
+    for (const client of this.clients) {
+      client.socket.destroy();
+    }
+    this.clients.clear();
+  }
+
+  getDps(): Record<string, any> {
+    return { ...this.dps };
+  }
+
+  /**
+   * Control commands received so far (DP maps)
+   */
+  getControls(): Array<Record<string, any>> {
+    return [...this.controls];
+  }
+
+  /**
+   * Change DPs locally (e.g. a button press) and push them to all sessions
+   */
+  setDps(dps: Record<string, any>): void {
+    Object.assign(this.dps, dps);
+    for (const client of this.clients) {
+      this.pushStatus(client, dps);
+    }
+  }
+
+  /**
+   * Send one UDP discovery announcement
+   */
+  async broadcast(port: number, address: string = '127.0.0.1'): Promise<void> {
+    const packet = encodeDiscoveryPacket({
+      ip: this.host,
+      gwId: this.deviceId,
+      active: 2,
+      ability: 0,
+      mode: 0,
+      encrypt: true,
+      productKey: this.productKey,
+      version: this.version
+    });
+
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve, reject) => {
+      socket.send(packet, port, address, error => (error ? reject(error) : resolve()));
+    }).finally(() => socket.close());
+  }
+
+  // Private helper methods
+
+  private handleConnection(socket: net.Socket): void {
+    const client: SimulatorClient = { socket, buffer: Buffer.alloc(0) };
+    this.clients.add(client);
+
+    socket.on('data', data => {
+      client.buffer = Buffer.concat([client.buffer, data]);
+      let length: number;
+      while ((length = frameLength(client.buffer)) > 0) {
+        const raw = client.buffer.subarray(0, length);
+        client.buffer = client.buffer.subarray(length);
+        this.handleFrame(client, raw);
+      }
+    });
+    socket.on('close', () => this.clients.delete(client));
+    socket.on('error', () => this.clients.delete(client));
+  }
+
+  private handleFrame(client: SimulatorClient, raw: Buffer): void {
+    const key = client.sessionKey || this.localKey;
+    const frame = decodeFrame(raw, { version: this.version, key });
+    const reply = (command: number, payload: Buffer | Record<string, any>, replyKey: Buffer = key) => {
+      const data = Buffer.isBuffer(payload) ? payload : Buffer.from(JSON.stringify(payload));
+      client.socket.write(encodeFrame({ seq: frame.seq, command, retcode: 0, payload: data }, { version: this.version, key: replyKey }));
+    };
+
+    switch (frame.command) {
+      case TuyaCommand.SESS_KEY_NEG_START: {
+        client.localNonce = frame.payload.subarray(0, 16);
+        client.remoteNonce = crypto.randomBytes(16);
+        reply(TuyaCommand.SESS_KEY_NEG_RESP, Buffer.concat([client.remoteNonce, hmacSHA256(this.localKey, client.localNonce)]));
+        break;
+      }
+
+      case TuyaCommand.SESS_KEY_NEG_FINISH: {
+        if (!client.localNonce || !client.remoteNonce || !hmacSHA256(this.localKey, client.remoteNonce).equals(frame.payload)) {
+          client.socket.destroy();
+          return;
+        }
+        client.sessionKey = deriveSessionKey(this.version, this.localKey, client.localNonce, client.remoteNonce);
+        break;
+      }
+
+      case TuyaCommand.DP_QUERY:
+        reply(TuyaCommand.DP_QUERY, { devId: this.deviceId, dps: this.dps });
+        break;
+
+      case TuyaCommand.DP_QUERY_NEW:
+        reply(TuyaCommand.DP_QUERY_NEW, { protocol: 4, t: Math.floor(Date.now() / 1000), dps: this.dps });
+        break;
+
+      case TuyaCommand.HEART_BEAT:
+        reply(TuyaCommand.HEART_BEAT, Buffer.alloc(0));
+        break;
+
+      case TuyaCommand.CONTROL:
+      case TuyaCommand.CONTROL_NEW: {
+        const message = JSON.parse(frame.payload.toString('utf8'));
+        const dps: Record<string, any> = message.dps || message.data?.dps || {};
+        this.controls.push(dps);
+        reply(frame.command, Buffer.alloc(0));
+        this.setDps(dps);
+        break;
+      }
+    }
+  }
+
+  private pushStatus(client: SimulatorClient, dps: Record<string, any>): void {
+    if (this.version !== '3.3' && !client.sessionKey) {
+      return;
+    }
+
+    const payload = this.version === '3.3'
+      ? { devId: this.deviceId, dps, t: Math.floor(Date.now() / 1000) }
+      : { protocol: 4, t: Math.floor(Date.now() / 1000), data: { dps } };
+
+    client.socket.write(encodeFrame(
+      { seq: this.pushSeq++, command: TuyaCommand.STATUS, retcode: 0, payload: Buffer.from(JSON.stringify(payload)) },
+      { version: this.version, key: client.sessionKey || this.localKey }
+    ));
+  }
+}
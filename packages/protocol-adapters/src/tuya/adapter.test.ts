@@ -0,0 +1,80 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+
+import { TuyaAdapter, TuyaConfig } from './adapter';
+
+/**
+ * Tuya Adapter Tests
+ *
+ * An in-process HTTP server plays the Tuya cloud: the token check succeeds,
+ * every device request is rejected with a quota error code whose message
+ * does not mention rate limiting.
+ */
+
+const QUOTA_EXCEEDED = { success: false, t: 0, tid: 'tid', result: null, code: 40000309, msg: 'quota exhausted' };
+
+describe('TuyaAdapter rate limiting', () => {
+  const deviceId = 'bf1122aabbccddeeff';
+  let server: http.Server;
+  let baseUrl: string;
+  let adapter: TuyaAdapter;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const body = req.url?.startsWith('/v1.0/token/') ? { success: true, t: 0, tid: 'tid', result: {} } : QUOTA_EXCEEDED;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  // A fresh adapter per test, so its cloud circuit starts closed
+  beforeEach(async () => {
+    const config: TuyaConfig = {
+      protocol: 'tuya',
+      name: 'Tuya Rate Limit Test Adapter',
+      enabled: true,
+      connectionTimeout: 1000,
+      commandTimeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxConcurrentCommands: 5,
+      authentication: {
+        clientId: 'test-client',
+        clientSecret: 'test-secret',
+        accessToken: 'test-token',
+        tokenExpiresAt: Date.now() + 3600 * 1000,
+        baseUrl
+      },
+      options: { pollingInterval: 60000 }
+    };
+    adapter = new TuyaAdapter(config);
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('treats the Tuya quota code as rate limiting', async () => {
+    await expect(adapter.getDeviceInfo(deviceId)).rejects.toMatchObject({
+      name: 'RateLimitError',
+      message: 'Rate limited: Tuya API error: quota exhausted (Code: 40000309)'
+    });
+  });
+
+  test('opens the cloud circuit without counting against the device', async () => {
+    const result = await adapter.queueCommand(deviceId, { deviceId, command: 'turn_on', timestamp: new Date() });
+    expect(result.success).toBe(false);
+
+    const breakers = adapter.getCircuitBreakers();
+    expect(breakers.transports).toEqual([expect.objectContaining({ name: 'tuya:cloud', state: 'open' })]);
+    expect(breakers.devices).toEqual([]);
+  });
+});
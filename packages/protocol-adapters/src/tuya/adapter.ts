@@ -15,6 +15,21 @@ import {
   DeviceInfo, 
   EventSubscription 
 } from '../base/adapter';
+import { CircuitBreaker, CircuitBreakerSnapshot, RateLimitError } from '../base/circuit-breaker';
+import { TuyaLocalAdapter, TuyaLocalConfig, TuyaLocalDeviceConfig } from '../tuya-local/adapter';
+import {
+  TuyaDpSchema,
+  TuyaSpecification,
+  defaultTuyaDpSchema,
+  findBrightnessCode,
+  findSwitchCode,
+  findTemperatureSetCode,
+  mapDpSchemaToCapabilities,
+  mapDpsToState,
+  mapTuyaCategoryToDeviceType,
+  parseTuyaSpecification,
+  unscaleDpValue
+} from './dp-schema';
 
 /**
  * Tuya Cloud API Adapter
@@ -25,9 +40,12 @@ import {
  * Features:
  * - OAuth 2.0 authentication
  * - Real-time device status via polling (WebSocket planned for Phase 2)
- * - Rate limiting compliance
+ * - Rate limiting compliance (circuit breaker backs off on rate-limit responses)
  * - Error handling and retry logic
- * - Device capability mapping
+ * - Device capabilities, units and value scaling from the DP specification
+ * - Optional failover to local LAN control when the cloud is unreachable;
+ *   the cloud has its own circuit breaker, so LAN commands still go out
+ *   while it is open
  */
 
 export interface TuyaConfig extends AdapterConfig {
@@ -46,6 +64,14 @@ export interface TuyaConfig extends AdapterConfig {
     webhookUrl?: string;
     maxDevicesPerRequest?: number; // default: 100
     cacheTTL?: number; // Cache time-to-live in milliseconds
+    rateLimitCodes?: number[]; // Tuya error codes treated as rate limiting, besides HTTP 429 and "frequency" messages; default: [40000309]
+    localControl?: {
+      enabled: boolean;
+      preferLocal?: boolean; // Try the LAN session first, cloud as fallback
+      devices?: TuyaLocalDeviceConfig[]; // Known local keys, used when the cloud is down at startup
+      discoveryPorts?: number[];
+      heartbeatInterval?: number;
+    };
   };
 }
 
@@ -81,6 +107,9 @@ interface TuyaDevice {
   }>;
 }
 
+// Tuya cloud error codes for requests over the API quota
+const DEFAULT_RATE_LIMIT_CODES = [40000309];
+
 interface TuyaApiResponse<T = any> {
   success: boolean;
   t: number;
@@ -97,12 +126,23 @@ export class TuyaAdapter extends BaseProtocolAdapter {
   private apiClient: AxiosInstance;
   private pollingInterval?: NodeJS.Timeout;
   private deviceCache: Map<string, TuyaDevice>;
+  private dpSchemas: Map<string, TuyaDpSchema>;
   private lastPollTime: number = 0;
+  private localAdapter: TuyaLocalAdapter | undefined;
+  private cloudReachable: boolean = false;
+  private cloudCircuit: CircuitBreaker;
 
   constructor(config: TuyaConfig) {
     super(config);
     
     this.deviceCache = new Map();
+    this.dpSchemas = new Map();
+    this.cloudCircuit = new CircuitBreaker(`${config.protocol}:cloud`, {
+      failureThreshold: 5,
+      cooldown: 30000,
+      ...config.circuitBreaker?.adapter
+    });
+    this.cloudCircuit.on('stateChange', change => this.onCircuitStateChange(change));
     
     // Initialize Axios client with Tuya API configuration
     this.apiClient = axios.create({
@@ -125,11 +165,23 @@ export class TuyaAdapter extends BaseProtocolAdapter {
    */
   async initialize(): Promise<void> {
     try {
-      // Ensure we have valid authentication
-      await this.ensureAuthentication();
+      // Local sessions first, so devices stay controllable if the cloud is down
+      await this.startLocalControl();
       
-      // Test the connection
-      await this.testConnection();
+      try {
+        // Ensure we have valid authentication
+        await this.ensureAuthentication();
+        
+        // Test the connection
+        await this.testConnection();
+        this.cloudReachable = true;
+        
+      } catch (error) {
+        if (!this.localAdapter || (this.getTuyaConfig().options.localControl?.devices || []).length === 0) {
+          throw error;
+        }
+        this.log('warn', 'Tuya cloud unreachable, continuing with local control only', error);
+      }
       
       // Start polling for device updates
       this.startPolling();
@@ -137,9 +189,14 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       this.updateConnectionStatus(true);
       this.isInitialized = true;
       
-      this.log('info', 'Tuya adapter initialized successfully');
+      this.log('info', 'Tuya adapter initialized successfully', {
+        cloudReachable: this.cloudReachable,
+        localControl: !!this.localAdapter
+      });
       
     } catch (error) {
+      await this.localAdapter?.disconnect();
+      this.localAdapter = undefined;
       this.updateConnectionStatus(false, `Initialization failed: ${error}`);
       throw error;
     }
@@ -154,7 +211,13 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       this.pollingInterval = undefined;
     }
     
+    if (this.localAdapter) {
+      await this.localAdapter.disconnect();
+      this.localAdapter = undefined;
+    }
+    
     this.deviceCache.clear();
+    this.dpSchemas.clear();
     this.updateConnectionStatus(false);
     
     this.log('info', 'Tuya adapter disconnected');
@@ -175,12 +238,13 @@ export class TuyaAdapter extends BaseProtocolAdapter {
           if (filters.online !== undefined && device.online !== filters.online) continue;
         }
         
-        // Convert Tuya device to DeviceDiscovery
-        const discovery = this.mapTuyaDeviceToDiscovery(device);
-        discoveries.push(discovery);
-        
         // Cache the device
         this.deviceCache.set(device.id, device);
+        
+        // Convert Tuya device to DeviceDiscovery
+        const discovery = this.mapTuyaDeviceToDiscovery(device, await this.getDpSchema(device));
+        discoveries.push(discovery);
+        this.registerLocalDevice(device);
       }
       
       this.log('info', `Discovered ${discoveries.length} Tuya devices`);
@@ -206,7 +270,7 @@ export class TuyaAdapter extends BaseProtocolAdapter {
         this.deviceCache.set(deviceId, device);
       }
       
-      return this.mapTuyaDeviceToInfo(device);
+      return this.mapTuyaDeviceToInfo(device, await this.getDpSchema(device));
       
     } catch (error) {
       this.log('error', `Failed to get device info for ${deviceId}`, error);
@@ -220,12 +284,24 @@ export class TuyaAdapter extends BaseProtocolAdapter {
   async sendCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
     const startTime = Date.now();
     
+    if (this.shouldPreferLocal(deviceId)) {
+      const localResult = await this.sendLocalCommand(deviceId, command);
+      if (localResult.success) {
+        return localResult;
+      }
+    }
+    
     try {
       // Validate command
       await this.validateCommand(deviceId, command);
       
       // Convert command to Tuya format
-      const tuyaCommand = this.mapCommandToTuya(command);
+      let device = this.deviceCache.get(deviceId);
+      if (!device) {
+        await this.getDeviceInfo(deviceId);
+        device = this.deviceCache.get(deviceId)!;
+      }
+      const tuyaCommand = this.mapCommandToTuya(command, device, await this.getDpSchema(device));
       
       // Send command to Tuya API
       const response = await this.apiRequest('POST', `/v1.0/devices/${deviceId}/commands`, {
@@ -247,6 +323,15 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       return result;
       
     } catch (error) {
+      // Cloud unreachable or rate limited: fail over to the LAN session
+      if (this.canUseLocal(deviceId) && !this.shouldPreferLocal(deviceId)) {
+        this.log('warn', `Cloud command failed for ${deviceId}, failing over to local control`, error);
+        const localResult = await this.sendLocalCommand(deviceId, command);
+        if (localResult.success) {
+          return localResult;
+        }
+      }
+      
       this.recordCommandFailure();
       this.log('error', `Failed to send command to device ${deviceId}`, { command, error });
       
@@ -264,16 +349,33 @@ export class TuyaAdapter extends BaseProtocolAdapter {
    * Get current device status
    */
   async getDeviceStatus(deviceId: string): Promise<DeviceStatusUpdate> {
+    if (this.shouldPreferLocal(deviceId)) {
+      try {
+        return await this.localAdapter!.getDeviceStatus(deviceId);
+      } catch (error) {
+        this.log('warn', `Local status query failed for ${deviceId}, using cloud`, error);
+      }
+    }
+    
     try {
-      const response = await this.apiRequest<TuyaDevice>('GET', `/v1.0/devices/${deviceId}/status`);
-      const device = response.result;
+      let device = this.deviceCache.get(deviceId);
+      if (!device) {
+        await this.getDeviceInfo(deviceId);
+        device = this.deviceCache.get(deviceId)!;
+      }
       
-      // Update cache
+      // The status endpoint returns the DP list only; merge it into the cached device
+      const response = await this.apiRequest<TuyaDevice['status']>('GET', `/v1.0/devices/${deviceId}/status`);
+      device = { ...device, status: response.result };
       this.deviceCache.set(deviceId, device);
       
       return this.mapTuyaDeviceToStatus(device);
       
     } catch (error) {
+      if (this.canUseLocal(deviceId) && !this.shouldPreferLocal(deviceId)) {
+        this.log('warn', `Cloud status failed for ${deviceId}, failing over to local control`, error);
+        return this.localAdapter!.getDeviceStatus(deviceId);
+      }
       this.log('error', `Failed to get device status for ${deviceId}`, error);
       throw error;
     }
@@ -340,7 +442,10 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       cachedDevices: this.deviceCache.size,
       lastPollTime: new Date(this.lastPollTime),
       pollingInterval: config.options.pollingInterval,
-      rateLimiting: config.rateLimiting
+      rateLimiting: config.rateLimiting,
+      cloudReachable: this.cloudReachable,
+      circuitBreakers: this.getCircuitBreakers(),
+      localControl: this.localAdapter ? await this.localAdapter.getDiagnostics() : undefined
     };
   }
 
@@ -350,6 +455,7 @@ export class TuyaAdapter extends BaseProtocolAdapter {
   supportsDeviceType(deviceType: DeviceType): boolean {
     const supportedTypes: DeviceType[] = [
       'smart_plug',
+      'energy_meter',
       // Add more supported device types as needed
     ];
     return supportedTypes.includes(deviceType);
@@ -363,13 +469,20 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       'switch',
       'energy_meter',
       'scheduler',
+      'dimmer',
+      'thermostat',
+      'temperature_sensor',
+      'humidity_sensor',
       // Add more capabilities as supported by Tuya devices
     ];
     return supportedCapabilities.includes(capability);
   }
 
   /**
-   * Validate command before sending
+   * Validate command before sending. Uses the DP schema fetched earlier or the
+   * one of the LAN session and never calls the cloud, so local control works
+   * while the cloud is unreachable; without a schema only the command catalog
+   * is checked.
    */
   async validateCommand(deviceId: string, command: DeviceCommand): Promise<boolean> {
     // Basic validation
@@ -377,15 +490,9 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       throw new Error(`Invalid device ID format: ${deviceId}`);
     }
     
-    // Check if device exists in cache
-    const device = this.deviceCache.get(deviceId);
-    if (!device) {
-      // Try to fetch device info
-      await this.getDeviceInfo(deviceId);
-    }
-    
-    // Validate command parameters based on device capabilities
-    // This would be expanded based on specific Tuya device capabilities
+    // Validate command parameters against the ranges of the device DPs
+    const schema = this.dpSchemas.get(deviceId) ?? this.localAdapter?.getDpSchema(deviceId);
+    this.assertValidCommand(command, schema && mapDpSchemaToCapabilities(schema));
     
     return true;
   }
@@ -398,6 +505,29 @@ export class TuyaAdapter extends BaseProtocolAdapter {
     return /^[a-zA-Z0-9]+$/.test(deviceId) && deviceId.length >= 10;
   }
 
+  /**
+   * Circuit breakers of the adapter, its devices and the cloud transport
+   */
+  getCircuitBreakers(): { adapter: CircuitBreakerSnapshot; devices: CircuitBreakerSnapshot[]; transports?: CircuitBreakerSnapshot[] } {
+    return { ...super.getCircuitBreakers(), transports: [this.cloudCircuit.getSnapshot()] };
+  }
+
+  /**
+   * Commands are guarded per transport: the cloud circuit in apiRequest, the
+   * LAN session by the local adapter's own breakers
+   */
+  protected commandCircuit(): CircuitBreaker | undefined {
+    return undefined;
+  }
+
+  /**
+   * Rate limiting as reported by the Tuya cloud
+   */
+  protected isRateLimitError(error: string | undefined): boolean {
+    const codes = this.getTuyaConfig().options.rateLimitCodes ?? DEFAULT_RATE_LIMIT_CODES;
+    return super.isRateLimitError(error) || codes.some(code => error?.includes(`(Code: ${code})`) ?? false);
+  }
+
   // Private helper methods
 
   /**
@@ -407,6 +537,98 @@ export class TuyaAdapter extends BaseProtocolAdapter {
     return this.config as TuyaConfig;
   }
 
+  /**
+   * Start the embedded local adapter when local control is enabled
+   */
+  private async startLocalControl(): Promise<void> {
+    const localControl = this.getTuyaConfig().options.localControl;
+    if (!localControl?.enabled) {
+      return;
+    }
+
+    const options: TuyaLocalConfig['options'] = { devices: localControl.devices || [] };
+    if (localControl.discoveryPorts) options.discoveryPorts = localControl.discoveryPorts;
+    if (localControl.heartbeatInterval !== undefined) options.heartbeatInterval = localControl.heartbeatInterval;
+
+    this.localAdapter = new TuyaLocalAdapter({
+      protocol: 'local_network',
+      name: `${this.config.name} (local)`,
+      enabled: true,
+      connectionTimeout: this.config.connectionTimeout,
+      commandTimeout: this.config.commandTimeout,
+      retryAttempts: this.config.retryAttempts,
+      retryDelay: this.config.retryDelay,
+      maxConcurrentCommands: this.config.maxConcurrentCommands,
+      options
+    });
+
+    // LAN pushes surface as updates of this adapter
+    this.localAdapter.on('deviceUpdate', (update: DeviceStatusUpdate) => this.emitDeviceUpdate(update));
+    await this.localAdapter.initialize();
+  }
+
+  /**
+   * Hand a cloud-paired device (with its local key) to the local adapter
+   */
+  private registerLocalDevice(device: TuyaDevice): void {
+    if (!this.localAdapter || !device.local_key) {
+      return;
+    }
+
+    // Cloud `ip` is the WAN address; the LAN address comes from UDP discovery
+    const configured = this.getTuyaConfig().options.localControl?.devices?.find(local => local.deviceId === device.id);
+    this.localAdapter.addDevice({
+      ...configured,
+      deviceId: device.id,
+      localKey: device.local_key,
+      name: device.name,
+      deviceType: mapTuyaCategoryToDeviceType(device.category, this.dpSchemas.get(device.id)),
+      dpSchema: this.dpSchemas.get(device.id)
+    });
+  }
+
+  /**
+   * DP schema of a device, from its specification. Falls back to the standard
+   * plug layout (not cached, so it is fetched again) when that fails.
+   */
+  private async getDpSchema(device: TuyaDevice): Promise<TuyaDpSchema> {
+    const cached = this.dpSchemas.get(device.id);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await this.apiRequest<TuyaSpecification>('GET', `/v1.0/devices/${device.id}/specifications`);
+      const schema = parseTuyaSpecification({ category: device.category, ...response.result });
+      this.dpSchemas.set(device.id, schema);
+      this.registerLocalDevice(device);
+      return schema;
+    } catch (error) {
+      this.log('warn', `No DP specification for device ${device.id}, using the standard plug layout`, error);
+      return defaultTuyaDpSchema(device.category);
+    }
+  }
+
+  private canUseLocal(deviceId: string): boolean {
+    return !!this.localAdapter?.isDeviceConnected(deviceId);
+  }
+
+  private shouldPreferLocal(deviceId: string): boolean {
+    return !!this.getTuyaConfig().options.localControl?.preferLocal && this.canUseLocal(deviceId);
+  }
+
+  /**
+   * Send a command over the LAN session and account for it on this adapter
+   */
+  private async sendLocalCommand(deviceId: string, command: DeviceCommand): Promise<CommandResult> {
+    const result = await this.localAdapter!.sendCommand(deviceId, command);
+    if (result.success) {
+      this.recordCommandSuccess(result.responseTime);
+      this.log('debug', `Command sent to device ${deviceId} over LAN`, { command });
+    }
+    return result;
+  }
+
   /**
    * Set up request interceptor for authentication
    */
@@ -584,6 +806,30 @@ export class TuyaAdapter extends BaseProtocolAdapter {
    * Make authenticated API request
    */
   private async apiRequest<T = any>(method: string, url: string, data?: any): Promise<TuyaApiResponse<T>> {
+    // Fail fast while the cloud circuit is open
+    this.cloudCircuit.assertCanExecute();
+
+    try {
+      const response = await this.sendApiRequest<T>(method, url, data);
+      this.cloudCircuit.recordSuccess();
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof RateLimitError) {
+        this.cloudCircuit.trip(message, error.retryAfter);
+      } else {
+        this.cloudCircuit.recordFailure(message);
+      }
+      throw error;
+    }
+  }
+
+  private async sendApiRequest<T>(method: string, url: string, data?: any): Promise<TuyaApiResponse<T>> {
+    // Spread bursts over time rather than provoking the cloud's own rate limit
+    while (!this.checkRateLimit()) {
+      await new Promise(resolve => setTimeout(resolve, 1000 / (this.config.rateLimiting?.requestsPerSecond || 1)));
+    }
+
     try {
       const response = await this.apiClient.request({
         method: method as any,
@@ -594,14 +840,23 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       const apiResponse: TuyaApiResponse<T> = response.data;
       
       if (!apiResponse.success) {
-        throw new Error(`Tuya API error: ${apiResponse.msg} (Code: ${apiResponse.code})`);
+        const message = `Tuya API error: ${apiResponse.msg} (Code: ${apiResponse.code})`;
+        if (this.isRateLimitError(message)) {
+          throw new RateLimitError(message);
+        }
+        throw new Error(message);
       }
       
       return apiResponse;
       
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(`API request failed: ${error.response?.status} ${error.response?.statusText}`);
+        const message = `API request failed: ${error.response?.status} ${error.response?.statusText}`;
+        if (error.response?.status === 429) {
+          const retryAfter = Number(error.response.headers?.['retry-after']);
+          throw new RateLimitError(message, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+        }
+        throw new Error(message);
       }
       throw error;
     }
@@ -633,11 +888,24 @@ export class TuyaAdapter extends BaseProtocolAdapter {
    * Poll for device status updates
    */
   private async pollDeviceUpdates(): Promise<void> {
+    // While the cloud circuit is open, skip polls instead of piling up failures
+    if (!this.cloudCircuit.isAvailable()) {
+      return;
+    }
+
     try {
       const devices = await this.getTuyaDevices();
+      this.cloudReachable = true;
       
       for (const device of devices) {
         const previousDevice = this.deviceCache.get(device.id);
+        this.registerLocalDevice(device);
+        
+        // Devices with a LAN session push their own updates
+        if (this.canUseLocal(device.id)) {
+          this.deviceCache.set(device.id, device);
+          continue;
+        }
         
         if (previousDevice && this.hasDeviceStatusChanged(previousDevice, device)) {
           const statusUpdate = this.mapTuyaDeviceToStatus(device);
@@ -650,7 +918,10 @@ export class TuyaAdapter extends BaseProtocolAdapter {
       this.lastPollTime = Date.now();
       
     } catch (error) {
-      this.log('error', 'Polling failed', error);
+      this.cloudReachable = false;
+      const message = error instanceof Error ? error.message : String(error);
+      // Repeated failures are reported once by the circuit state change
+      this.log(this.cloudCircuit.getState() === 'closed' ? 'warn' : 'debug', 'Polling failed', { error: message });
     }
   }
 
@@ -679,18 +950,18 @@ export class TuyaAdapter extends BaseProtocolAdapter {
   /**
    * Map Tuya device to DeviceDiscovery
    */
-  private mapTuyaDeviceToDiscovery(device: TuyaDevice): DeviceDiscovery {
+  private mapTuyaDeviceToDiscovery(device: TuyaDevice, schema: TuyaDpSchema): DeviceDiscovery {
     return {
       protocol: 'tuya',
       deviceId: device.id,
-      deviceType: this.mapTuyaCategoryToDeviceType(device.category),
+      deviceType: mapTuyaCategoryToDeviceType(device.category, schema),
       name: device.name,
       specifications: {
         manufacturer: 'Tuya',
         model: device.product_name,
         firmwareVersion: undefined // Not available in basic device info
       },
-      capabilities: this.mapTuyaFunctionsToCapabilities(device.functions || []),
+      capabilities: mapDpSchemaToCapabilities(schema),
       networkInfo: {
         ipAddress: device.ip || undefined,
         networkId: device.product_id
@@ -703,15 +974,15 @@ export class TuyaAdapter extends BaseProtocolAdapter {
   /**
    * Map Tuya device to DeviceInfo
    */
-  private mapTuyaDeviceToInfo(device: TuyaDevice): DeviceInfo {
+  private mapTuyaDeviceToInfo(device: TuyaDevice, schema: TuyaDpSchema): DeviceInfo {
     return {
       deviceId: device.id,
       protocol: 'tuya',
-      deviceType: this.mapTuyaCategoryToDeviceType(device.category),
+      deviceType: mapTuyaCategoryToDeviceType(device.category, schema),
       name: device.name,
       manufacturer: 'Tuya',
       model: device.product_name,
-      capabilities: this.mapTuyaFunctionsToCapabilities(device.functions || []).map(cap => cap.type),
+      capabilities: mapDpSchemaToCapabilities(schema).map(cap => cap.type),
       networkInfo: {
         ipAddress: device.ip || undefined,
         networkId: device.product_id
@@ -723,98 +994,70 @@ export class TuyaAdapter extends BaseProtocolAdapter {
         localKey: device.local_key,
         timeZone: device.time_zone,
         createTime: device.create_time,
-        updateTime: device.update_time
+        updateTime: device.update_time,
+        dpSchema: schema.source
       }
     };
   }
 
   /**
-   * Map Tuya device to DeviceStatusUpdate
+   * Map Tuya device to DeviceStatusUpdate (DP codes plus scaled SmartPlugState fields)
    */
   private mapTuyaDeviceToStatus(device: TuyaDevice): DeviceStatusUpdate {
-    const state: Record<string, any> = {};
+    const schema = this.dpSchemas.get(device.id) || defaultTuyaDpSchema(device.category);
+    const dps: Record<string, any> = {};
     
     // Convert Tuya status array to key-value state object
     for (const status of device.status) {
-      state[status.code] = status.value;
+      dps[status.code] = status.value;
     }
     
     return {
       deviceId: device.id,
       status: device.online ? 'online' : 'offline',
-      state,
+      state: mapDpsToState(schema, dps),
       timestamp: new Date(),
       source: 'polling'
     };
   }
 
   /**
-   * Map Tuya category to DeviceType
+   * Map command to Tuya format, with values scaled to the DP ranges
    */
-  private mapTuyaCategoryToDeviceType(category: string): DeviceType {
-    const categoryMap: Record<string, DeviceType> = {
-      'cz': 'smart_plug',    // Smart plug
-      'pc': 'smart_plug',    // Power strip
-      'kg': 'smart_plug',    // Switch
-      // Add more mappings as needed
-    };
-    
-    return categoryMap[category] || 'smart_plug'; // Default to smart_plug
-  }
-
-  /**
-   * Map Tuya functions to device capabilities
-   */
-  private mapTuyaFunctionsToCapabilities(functions: any[]): any[] {
-    const capabilities = [];
-    
-    for (const func of functions) {
-      switch (func.code) {
-        case 'switch_1':
-        case 'switch':
-          capabilities.push({
-            type: 'switch',
-            properties: { writable: true },
-            commands: ['turn_on', 'turn_off', 'toggle']
-          });
-          break;
-          
-        case 'cur_power':
-        case 'power':
-          capabilities.push({
-            type: 'energy_meter',
-            properties: { 
-              writable: false,
-              unit: 'W',
-              range: { min: 0, max: 10000 }
-            },
-            commands: ['get_power']
-          });
-          break;
-          
-        // Add more capability mappings as needed
-      }
-    }
-    
-    return capabilities;
-  }
-
-  /**
-   * Map command to Tuya format
-   */
-  private mapCommandToTuya(command: DeviceCommand): any {
+  private mapCommandToTuya(command: DeviceCommand, device: TuyaDevice, schema: TuyaDpSchema): any {
     const { command: cmd, parameters } = command;
+    const switchCode = findSwitchCode(schema) || 'switch_1';
     
     switch (cmd) {
       case 'turn_on':
-        return { code: 'switch_1', value: true };
+        return { code: switchCode, value: true };
         
       case 'turn_off':
-        return { code: 'switch_1', value: false };
+        return { code: switchCode, value: false };
         
       case 'toggle':
-        // This would need current state to determine new value
-        return { code: 'switch_1', value: true }; // Simplified for now
+        return { code: switchCode, value: !device.status.find(status => status.code === switchCode)?.value };
+        
+      case 'set_brightness': {
+        // Percent onto the DP range (e.g. 10-1000)
+        const code = findBrightnessCode(schema);
+        if (!code) {
+          throw new Error(`Device ${device.id} has no brightness DP`);
+        }
+        const spec = schema.dps[code]!;
+        const min = spec.min ?? 0;
+        const max = spec.max ?? 1000;
+        const percent: number = parameters.brightness ?? parameters.value;
+        return { code, value: unscaleDpValue({ ...spec, scale: 0 }, min + (max - min) * percent / 100) };
+      }
+        
+      case 'set_temperature': {
+        const code = findTemperatureSetCode(schema);
+        if (!code) {
+          throw new Error(`Device ${device.id} has no target temperature DP`);
+        }
+        return { code, value: unscaleDpValue(schema.dps[code]!, parameters.temperature) };
+      }
         
       default:
         throw new Error(`Unsupported command: ${cmd}`);
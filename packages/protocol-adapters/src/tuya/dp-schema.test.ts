@@ -0,0 +1,129 @@
+import { describe, test, expect } from '@jest/globals';
+
+import {
+  TuyaSpecification,
+  defaultTuyaDpSchema,
+  getDpIds,
+  mapDpSchemaToCapabilities,
+  mapDpsToState,
+  mapTuyaCategoryToDeviceType,
+  parseTuyaSpecification,
+  unscaleDpValue
+} from './dp-schema';
+
+/**
+ * Tuya DP Schema Tests
+ *
+ * Specifications are shaped like GET /v1.0/devices/{id}/specifications
+ * responses, with `values` as JSON strings.
+ */
+
+const meteringPlug: TuyaSpecification = {
+  category: 'cz',
+  functions: [
+    { code: 'switch_1', type: 'Boolean', values: '{}' },
+    { code: 'countdown_1', type: 'Integer', values: '{"unit":"s","min":0,"max":86400,"scale":0,"step":1}' }
+  ],
+  status: [
+    { code: 'switch_1', type: 'Boolean', values: '{}' },
+    { code: 'add_ele', type: 'Integer', values: '{"unit":"kW·h","min":0,"max":50000,"scale":3,"step":100}' },
+    { code: 'cur_current', type: 'Integer', values: '{"unit":"mA","min":0,"max":30000,"scale":0,"step":1}' },
+    { code: 'cur_power', type: 'Integer', values: '{"unit":"W","min":0,"max":50000,"scale":1,"step":1}' },
+    { code: 'cur_voltage', type: 'Integer', values: '{"unit":"V","min":0,"max":5000,"scale":1,"step":1}' }
+  ]
+};
+
+const thermostat: TuyaSpecification = {
+  category: 'wk',
+  functions: [
+    { code: 'switch', type: 'Boolean', values: '{}' },
+    { code: 'temp_set', type: 'Integer', values: '{"unit":"℃","min":50,"max":350,"scale":1,"step":5}' }
+  ],
+  status: [
+    { code: 'temp_current', type: 'Integer', values: '{"unit":"℃","min":-200,"max":600,"scale":1,"step":1}' }
+  ]
+};
+
+describe('parseTuyaSpecification', () => {
+  test('marks functions writable and parses ranges and scale', () => {
+    const schema = parseTuyaSpecification(meteringPlug);
+
+    expect(schema.source).toBe('specification');
+    expect(schema.dps.switch_1).toMatchObject({ type: 'Boolean', writable: true });
+    expect(schema.dps.cur_power).toMatchObject({ type: 'Integer', writable: false, unit: 'W', min: 0, max: 50000, scale: 1 });
+  });
+
+  test('tolerates malformed values', () => {
+    const schema = parseTuyaSpecification({ status: [{ code: 'fault', type: 'Bitmap', values: '{label:' }] });
+    expect(schema.dps.fault).toMatchObject({ type: 'Bitmap', scale: 0, unit: undefined });
+  });
+});
+
+describe('State mapping', () => {
+  test('scales metering DPs into SmartPlugState fields and keeps the DP codes', () => {
+    const schema = parseTuyaSpecification(meteringPlug);
+    const state = mapDpsToState(schema, { switch_1: true, cur_power: 1234, cur_voltage: 2301, cur_current: 431, add_ele: 12 });
+
+    expect(state).toEqual({
+      switch_1: true,
+      cur_power: 1234,
+      cur_voltage: 2301,
+      cur_current: 431,
+      add_ele: 12,
+      power: true,
+      energyConsumption: 123.4,
+      voltage: 230.1,
+      current: 0.431,
+      totalEnergy: 0.012
+    });
+  });
+
+  test('uses the scale of the device, not a fixed divisor', () => {
+    const schema = parseTuyaSpecification({
+      status: [{ code: 'cur_power', type: 'Integer', values: '{"unit":"W","min":0,"max":99999,"scale":0,"step":1}' }]
+    });
+    expect(mapDpsToState(schema, { cur_power: 850 }).energyConsumption).toBe(850);
+  });
+
+  test('falls back to the standard plug layout', () => {
+    const schema = defaultTuyaDpSchema('cz');
+    expect(mapDpsToState(schema, { switch_1: false, cur_power: 987 })).toMatchObject({ power: false, energyConsumption: 98.7 });
+    expect(getDpIds(schema)).toMatchObject({ switch_1: '1', cur_power: '19', add_ele: '17' });
+  });
+});
+
+describe('Capability mapping', () => {
+  test('derives switch and energy meter capabilities with units and ranges', () => {
+    const capabilities = mapDpSchemaToCapabilities(parseTuyaSpecification(meteringPlug));
+
+    expect(capabilities.map(cap => cap.type)).toEqual(['switch', 'energy_meter', 'scheduler']);
+    expect(capabilities[1]).toMatchObject({
+      readOnly: true,
+      properties: { unit: 'W', fields: ['energyConsumption', 'voltage', 'current', 'totalEnergy'] },
+      range: { min: 0, max: 5000 }
+    });
+  });
+
+  test('scales setpoint ranges and writes back raw values', () => {
+    const schema = parseTuyaSpecification(thermostat);
+    const capabilities = mapDpSchemaToCapabilities(schema);
+
+    expect(capabilities.find(cap => cap.type === 'thermostat')).toMatchObject({
+      commands: ['set_temperature'],
+      properties: { unit: '℃' },
+      range: { min: 5, max: 35, step: 0.5 }
+    });
+    expect(capabilities.find(cap => cap.type === 'temperature_sensor')).toMatchObject({ readOnly: true, range: { min: -20, max: 60 } });
+    expect(unscaleDpValue(schema.dps.temp_set!, 21.5)).toBe(215);
+    expect(unscaleDpValue(schema.dps.temp_set!, 21.7)).toBe(215);
+    expect(unscaleDpValue(schema.dps.temp_set!, 40)).toBe(350);
+  });
+
+  test('maps categories and infers unknown ones from the DPs', () => {
+    expect(mapTuyaCategoryToDeviceType('pc')).toBe('smart_plug');
+    expect(mapTuyaCategoryToDeviceType('zndb')).toBe('energy_meter');
+    const meterOnly = parseTuyaSpecification({ status: meteringPlug.status!.filter(entry => entry.code !== 'switch_1') });
+    expect(mapTuyaCategoryToDeviceType('xyz', meterOnly)).toBe('energy_meter');
+    expect(mapTuyaCategoryToDeviceType(undefined)).toBe('smart_plug');
+  });
+});
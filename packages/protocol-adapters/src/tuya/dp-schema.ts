@@ -0,0 +1,364 @@
+import { CapabilityType, DeviceCapability, DeviceType, SmartPlugState } from '@maestro/shared/types';
+
+/**
+ * Tuya Data-Point (DP) Schemas
+ *
+ * Parses a device's instruction/status specification (GET
+ * /v1.0/devices/{id}/specifications) into typed DP specs, builds capabilities
+ * with real ranges and units from them, and scales raw DP values. Integer DPs
+ * carry a decimal `scale`: cur_power 1234 with scale 1 is 123.4 W.
+ *
+ * Devices without a specification (cloud unreachable, LAN-only) fall back to
+ * the standard smart plug layout.
+ */
+
+export type TuyaDpType = 'Boolean' | 'Integer' | 'Enum' | 'String' | 'Json' | 'Raw' | 'Bitmap';
+
+export interface TuyaDpSpec {
+  code: string;
+  dpId?: number | undefined; // numeric DP id used on the LAN protocol
+  type: TuyaDpType;
+  writable: boolean; // listed as a function (instruction set)
+  unit?: string | undefined;
+  min?: number | undefined; // raw, before scaling
+  max?: number | undefined;
+  step?: number | undefined;
+  scale: number; // decimal places: value = raw / 10^scale
+  range?: string[] | undefined; // Enum values
+}
+
+export interface TuyaDpSchema {
+  category?: string | undefined;
+  dps: Record<string, TuyaDpSpec>; // by DP code
+  source: 'specification' | 'default';
+}
+
+// Raw specification entry; `values` is a JSON string
+export interface TuyaSpecificationEntry {
+  code: string;
+  type: string;
+  values?: string | Record<string, any> | undefined;
+  dp_id?: number | undefined;
+}
+
+export interface TuyaSpecification {
+  category?: string | undefined;
+  functions?: TuyaSpecificationEntry[] | undefined;
+  status?: TuyaSpecificationEntry[] | undefined;
+}
+
+const SWITCH_CODES = ['switch_1', 'switch', 'switch_led'];
+const BRIGHTNESS_CODES = ['bright_value_v2', 'bright_value', 'bright_value_1'];
+const TEMPERATURE_SET_CODES = ['temp_set', 'set_temp'];
+const TEMPERATURE_CODES = ['temp_current', 'va_temperature'];
+const HUMIDITY_CODES = ['humidity_value', 'va_humidity'];
+
+// Metering DPs and the SmartPlugState field each one feeds
+const ENERGY_FIELDS: Record<string, keyof SmartPlugState> = {
+  cur_power: 'energyConsumption',
+  cur_voltage: 'voltage',
+  cur_current: 'current',
+  add_ele: 'totalEnergy'
+};
+
+// Standard smart plug layout, as shipped by most metering plugs
+const DEFAULT_PLUG_SPECS: TuyaDpSpec[] = [
+  { code: 'switch_1', dpId: 1, type: 'Boolean', writable: true, scale: 0 },
+  { code: 'countdown_1', dpId: 9, type: 'Integer', writable: true, unit: 's', min: 0, max: 86400, step: 1, scale: 0 },
+  { code: 'add_ele', dpId: 17, type: 'Integer', writable: false, unit: 'kwh', min: 0, max: 50000, step: 100, scale: 3 },
+  { code: 'cur_current', dpId: 18, type: 'Integer', writable: false, unit: 'mA', min: 0, max: 30000, step: 1, scale: 0 },
+  { code: 'cur_power', dpId: 19, type: 'Integer', writable: false, unit: 'W', min: 0, max: 50000, step: 1, scale: 1 },
+  { code: 'cur_voltage', dpId: 20, type: 'Integer', writable: false, unit: 'V', min: 0, max: 5000, step: 1, scale: 1 }
+];
+
+// Tuya product categories; unknown categories are inferred from the DPs
+const CATEGORY_DEVICE_TYPES: Record<string, DeviceType> = {
+  cz: 'smart_plug',    // Socket
+  pc: 'smart_plug',    // Power strip
+  kg: 'smart_plug',    // Switch
+  tdq: 'smart_plug',   // Breaker switch
+  dlq: 'energy_meter', // Circuit breaker with metering
+  zndb: 'energy_meter', // Smart electricity meter
+  qccdz: 'ev_charger', // EV charger
+  rs: 'heat_pump'      // Water heater / heat pump
+};
+
+/**
+ * Parse a device specification response into a DP schema
+ */
+export function parseTuyaSpecification(specification: TuyaSpecification): TuyaDpSchema {
+  const dps: Record<string, TuyaDpSpec> = {};
+
+  for (const entry of specification.status || []) {
+    dps[entry.code] = parseEntry(entry, false);
+  }
+  // Functions are writable; they may repeat status entries with the same values
+  for (const entry of specification.functions || []) {
+    dps[entry.code] = { ...parseEntry(entry, true), ...(dps[entry.code] && { writable: true }) };
+  }
+
+  return { category: specification.category, dps, source: 'specification' };
+}
+
+/**
+ * Standard smart plug schema for devices without a specification
+ */
+export function defaultTuyaDpSchema(category?: string): TuyaDpSchema {
+  return {
+    category,
+    dps: Object.fromEntries(DEFAULT_PLUG_SPECS.map(spec => [spec.code, { ...spec }])),
+    source: 'default'
+  };
+}
+
+/**
+ * DP code → DP id. Specifications often omit the ids; standard plug DPs then
+ * get their usual id, other DPs without one are left out.
+ */
+export function getDpIds(schema: TuyaDpSchema): Record<string, string> {
+  const ids: Record<string, string> = {};
+  for (const spec of Object.values(schema.dps)) {
+    const dpId = spec.dpId ?? DEFAULT_PLUG_SPECS.find(plug => plug.code === spec.code)?.dpId;
+    if (dpId !== undefined) {
+      ids[spec.code] = String(dpId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Scale a raw DP value by its spec (Integer DPs only)
+ */
+export function scaleDpValue(spec: TuyaDpSpec | undefined, raw: any): any {
+  if (!spec || spec.type !== 'Integer' || typeof raw !== 'number' || spec.scale === 0) {
+    return raw;
+  }
+  return round(raw / Math.pow(10, spec.scale), spec.scale);
+}
+
+/**
+ * Convert a value to the raw DP value: unscaled, stepped and clamped to the DP range
+ */
+export function unscaleDpValue(spec: TuyaDpSpec, value: number): number {
+  let raw = Math.round(value * Math.pow(10, spec.scale));
+  if (spec.step && spec.step > 1) {
+    raw = Math.round(raw / spec.step) * spec.step;
+  }
+  if (spec.min !== undefined) {
+    raw = Math.max(spec.min, raw);
+  }
+  if (spec.max !== undefined) {
+    raw = Math.min(spec.max, raw);
+  }
+  return raw;
+}
+
+/**
+ * First DP code of the schema among the candidates
+ */
+export function findDpCode(schema: TuyaDpSchema, candidates: string[]): string | undefined {
+  return candidates.find(code => schema.dps[code]);
+}
+
+export function findSwitchCode(schema: TuyaDpSchema): string | undefined {
+  return findDpCode(schema, SWITCH_CODES);
+}
+
+export function findBrightnessCode(schema: TuyaDpSchema): string | undefined {
+  return findDpCode(schema, BRIGHTNESS_CODES);
+}
+
+export function findTemperatureSetCode(schema: TuyaDpSchema): string | undefined {
+  return findDpCode(schema, TEMPERATURE_SET_CODES);
+}
+
+/**
+ * Map a Tuya category to DeviceType; unknown categories are inferred from the DPs
+ */
+export function mapTuyaCategoryToDeviceType(category: string | undefined, schema?: TuyaDpSchema): DeviceType {
+  const mapped = category ? CATEGORY_DEVICE_TYPES[category] : undefined;
+  if (mapped) {
+    return mapped;
+  }
+  if (schema && !findSwitchCode(schema) && Object.keys(ENERGY_FIELDS).some(code => schema.dps[code])) {
+    return 'energy_meter';
+  }
+  return 'smart_plug';
+}
+
+/**
+ * Build capabilities with ranges and units from the DP schema
+ */
+export function mapDpSchemaToCapabilities(schema: TuyaDpSchema): DeviceCapability[] {
+  const capabilities: DeviceCapability[] = [];
+
+  const switchCode = findSwitchCode(schema);
+  if (switchCode) {
+    capabilities.push({
+      type: 'switch',
+      properties: { writable: true, dpCode: switchCode },
+      commands: schema.dps[switchCode]!.writable ? ['turn_on', 'turn_off', 'toggle'] : [],
+      readOnly: !schema.dps[switchCode]!.writable
+    });
+  }
+
+  const brightnessCode = findBrightnessCode(schema);
+  if (brightnessCode && schema.dps[brightnessCode]!.writable) {
+    // Exposed in percent, converted to the DP range on write
+    capabilities.push({
+      type: 'dimmer',
+      properties: { writable: true, unit: '%', dpCode: brightnessCode },
+      commands: ['set_brightness'],
+      readOnly: false,
+      range: { min: 0, max: 100, step: 1 }
+    });
+  }
+
+  const temperatureSetCode = findTemperatureSetCode(schema);
+  if (temperatureSetCode && schema.dps[temperatureSetCode]!.writable) {
+    capabilities.push(numericCapability('thermostat', schema.dps[temperatureSetCode]!, ['set_temperature']));
+  }
+
+  const energyCodes = Object.keys(ENERGY_FIELDS).filter(code => schema.dps[code]);
+  if (energyCodes.length > 0) {
+    const power = schema.dps.cur_power;
+    capabilities.push({
+      type: 'energy_meter',
+      properties: {
+        writable: false,
+        unit: 'W',
+        fields: energyCodes.map(code => ENERGY_FIELDS[code]),
+        dpCodes: energyCodes
+      },
+      commands: [],
+      readOnly: true,
+      ...(power?.min !== undefined && power.max !== undefined && {
+        range: { min: scaleDpValue(power, power.min), max: scaleDpValue(power, power.max) }
+      })
+    });
+  }
+
+  const temperatureCode = findDpCode(schema, TEMPERATURE_CODES);
+  if (temperatureCode) {
+    capabilities.push(numericCapability('temperature_sensor', schema.dps[temperatureCode]!, []));
+  }
+
+  const humidityCode = findDpCode(schema, HUMIDITY_CODES);
+  if (humidityCode) {
+    capabilities.push(numericCapability('humidity_sensor', schema.dps[humidityCode]!, []));
+  }
+
+  if (schema.dps.countdown_1?.writable) {
+    capabilities.push({
+      type: 'scheduler',
+      properties: { writable: true, unit: 's', dpCode: 'countdown_1' },
+      commands: [],
+      readOnly: false
+    });
+  }
+
+  return capabilities;
+}
+
+/**
+ * Scale raw DP values (by code) and map switch and metering DPs onto
+ * SmartPlugState fields. Raw codes are kept, so cloud and local state share
+ * their keys.
+ */
+export function mapDpsToState(schema: TuyaDpSchema, dps: Record<string, any>): Record<string, any> {
+  const state: Record<string, any> = { ...dps };
+
+  const switchCode = findSwitchCode(schema) || SWITCH_CODES.find(code => code in dps);
+  if (switchCode && typeof dps[switchCode] === 'boolean') {
+    state.power = dps[switchCode];
+  }
+
+  for (const [code, field] of Object.entries(ENERGY_FIELDS)) {
+    if (typeof dps[code] !== 'number') {
+      continue;
+    }
+    const spec = schema.dps[code];
+    state[field] = toStateUnit(field, scaleDpValue(spec, dps[code]), spec?.unit);
+  }
+
+  return state;
+}
+
+// Private helpers
+
+function parseEntry(entry: TuyaSpecificationEntry, writable: boolean): TuyaDpSpec {
+  let values: Record<string, any> = {};
+  try {
+    values = typeof entry.values === 'string' ? JSON.parse(entry.values || '{}') : entry.values || {};
+  } catch {
+    // Some products ship malformed values; treat the DP as untyped
+  }
+
+  return {
+    code: entry.code,
+    dpId: numberOrUndefined(entry.dp_id),
+    type: normalizeType(entry.type),
+    writable,
+    unit: typeof values.unit === 'string' && values.unit !== '' ? values.unit : undefined,
+    min: numberOrUndefined(values.min),
+    max: numberOrUndefined(values.max),
+    step: numberOrUndefined(values.step),
+    scale: numberOrUndefined(values.scale) ?? 0,
+    range: Array.isArray(values.range) ? values.range.map(String) : undefined
+  };
+}
+
+function normalizeType(type: string): TuyaDpType {
+  const normalized = (type || '').toLowerCase();
+  const types: Record<string, TuyaDpType> = {
+    bool: 'Boolean',
+    boolean: 'Boolean',
+    value: 'Integer',
+    integer: 'Integer',
+    enum: 'Enum',
+    string: 'String',
+    json: 'Json',
+    raw: 'Raw',
+    bitmap: 'Bitmap'
+  };
+  return types[normalized] || 'String';
+}
+
+function numericCapability(type: CapabilityType, spec: TuyaDpSpec, commands: string[]): DeviceCapability {
+  const step = spec.step !== undefined ? scaleDpValue(spec, spec.step) : undefined;
+  return {
+    type,
+    properties: { writable: spec.writable && commands.length > 0, unit: spec.unit, dpCode: spec.code },
+    commands,
+    readOnly: commands.length === 0,
+    ...(spec.min !== undefined && spec.max !== undefined && {
+      range: {
+        min: scaleDpValue(spec, spec.min),
+        max: scaleDpValue(spec, spec.max),
+        ...(step !== undefined && { step })
+      }
+    })
+  };
+}
+
+// SmartPlugState units: W, V, A, kWh
+function toStateUnit(field: keyof SmartPlugState, value: number, unit: string | undefined): number {
+  const normalized = (unit || '').toLowerCase();
+  if (field === 'current' && (normalized === 'ma' || normalized === '')) {
+    return round(value / 1000, 3);
+  }
+  if (field === 'totalEnergy' && normalized === 'wh') {
+    return round(value / 1000, 3);
+  }
+  return value;
+}
+
+function numberOrUndefined(value: any): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
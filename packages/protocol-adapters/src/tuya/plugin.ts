@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+import { defineAdapterPlugin } from '../base/registry';
+import type { TuyaConfig } from './adapter';
+
+/**
+ * Tuya Cloud adapter plugin (MVP)
+ */
+export const tuyaPlugin = defineAdapterPlugin<TuyaConfig>({
+  protocol: 'tuya',
+  name: '@maestro/protocol-adapters/tuya',
+  description: 'Tuya Cloud OpenAPI with optional LAN failover',
+  configSchema: z.object({
+    pollingInterval: z.number().int().nonnegative().optional(),
+    enableWebhooks: z.boolean().optional(),
+    webhookUrl: z.string().url().optional(),
+    maxDevicesPerRequest: z.number().int().positive().max(100).optional(),
+    cacheTTL: z.number().int().nonnegative().optional(),
+    localControl: z.object({
+      enabled: z.boolean(),
+      preferLocal: z.boolean().optional(),
+      devices: z.array(z.record(z.any())).optional(),
+      discoveryPorts: z.array(z.number().int().min(1).max(65535)).optional(),
+      heartbeatInterval: z.number().int().nonnegative().optional()
+    }).passthrough().optional()
+  }).passthrough(),
+  deviceTypes: ['smart_plug', 'energy_meter'],
+  capabilities: ['switch', 'energy_meter', 'scheduler', 'dimmer', 'thermostat', 'temperature_sensor', 'humidity_sensor'],
+  create: async config => {
+    const { TuyaAdapter } = await import('./adapter');
+    return new TuyaAdapter(config);
+  }
+});
@@ -0,0 +1,106 @@
+/**
+ * JSON Path Utilities
+ *
+ * Minimal JSONPath subset used to pull values out of device payloads and to
+ * render command payload templates. Supported path syntax:
+ * - `$` (whole document), `$.a.b`, `a.b` (leading `$.` optional)
+ * - array indices `$.items[0].value`, bracket keys `$['Power Factor']`
+ */
+
+export type PathSegment = string | number;
+
+/**
+ * Split a JSON path into property/index segments
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  }
+
+  const pattern = /^(?:\.?([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\])/;
+  while (rest.length > 0) {
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid JSON path: ${path}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[3]!);
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Read the value at a JSON path; undefined when any segment is missing
+ */
+export function getJsonPath(document: unknown, path: string): any {
+  let current: any = document;
+
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment as any];
+  }
+
+  return current;
+}
+
+/**
+ * Write a value at a JSON path, creating intermediate objects/arrays
+ */
+export function setJsonPath(document: Record<string, any>, path: string, value: unknown): Record<string, any> {
+  const segments = parseJsonPath(path);
+  if (segments.length === 0) {
+    throw new Error('Cannot replace the document root');
+  }
+
+  let current: any = document;
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment as any] = value;
+      return;
+    }
+    if (current[segment as any] === undefined || current[segment as any] === null) {
+      current[segment as any] = typeof segments[index + 1] === 'number' ? [] : {};
+    }
+    current = current[segment as any];
+  });
+
+  return document;
+}
+
+/**
+ * Render `{{path}}` placeholders in a template against a context.
+ * A string consisting of a single placeholder keeps the value's type,
+ * so `{ "power": "{{value}}" }` renders to `{ "power": 1500 }`.
+ */
+export function renderTemplate(template: unknown, context: Record<string, any>): any {
+  if (typeof template === 'string') {
+    const whole = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(template);
+    if (whole) {
+      return getJsonPath(context, whole[1]!);
+    }
+    return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path: string) => {
+      const value = getJsonPath(context, path);
+      return value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderTemplate(item, context));
+  }
+
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderTemplate(value, context)])
+    );
+  }
+
+  return template;
+}
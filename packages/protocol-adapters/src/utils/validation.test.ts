@@ -0,0 +1,66 @@
+import { describe, test, expect } from '@jest/globals';
+import type { DeviceCapability, DeviceCommand } from '@maestro/shared/types';
+import { getSupportedCommands, validateDeviceCommandParameters } from '@maestro/shared/types';
+
+import { validateDeviceCommand } from './validation';
+
+/**
+ * Command Validation Tests
+ *
+ * Commands are checked against the shared command catalog and the
+ * capabilities a device reports.
+ */
+
+const dimmablePlug: DeviceCapability[] = [
+  { type: 'switch', properties: {}, commands: ['turn_on', 'turn_off', 'toggle'], readOnly: false },
+  { type: 'dimmer', properties: {}, commands: [], readOnly: false, range: { min: 10, max: 90, step: 5 } },
+  { type: 'energy_meter', properties: {}, commands: [], readOnly: true }
+];
+
+function command(name: string, parameters: Record<string, any> = {}): DeviceCommand {
+  return { deviceId: 'plug-1', command: name, parameters, timestamp: new Date() };
+}
+
+describe('Command catalog', () => {
+  test('derives supported commands from capabilities', () => {
+    expect(getSupportedCommands(dimmablePlug).sort()).toEqual(['get_status', 'set_brightness', 'toggle', 'turn_off', 'turn_on']);
+  });
+
+  test('checks parameters against the capability range and step', () => {
+    expect(validateDeviceCommandParameters('set_brightness', { value: 50 }, dimmablePlug)).toMatchObject({ valid: true });
+    expect(validateDeviceCommandParameters('set_brightness', { brightness: 95 }, dimmablePlug).errors)
+      .toEqual(['brightness must be between 10 and 90']);
+    expect(validateDeviceCommandParameters('set_brightness', { value: 42 }, dimmablePlug).errors)
+      .toEqual(['value must be a multiple of 5 from 10']);
+    // Without a device range the catalog default applies
+    expect(validateDeviceCommandParameters('set_brightness', { value: 120 }).errors).toEqual(['value must be between 0 and 100']);
+  });
+
+  test('reports missing and mistyped parameters', () => {
+    expect(validateDeviceCommandParameters('set_brightness', {}).errors).toEqual(['Requires brightness or value']);
+    expect(validateDeviceCommandParameters('set_mode', { mode: 'turbo' }).valid).toBe(false);
+    expect(validateDeviceCommandParameters('set_schedule', { schedule: { startTime: '7:30' } }).errors)
+      .toEqual(['schedule.startTime: Must be in HH:MM format']);
+  });
+
+  test('accepts raw protocol commands only when a capability lists them', () => {
+    const meter: DeviceCapability[] = [
+      { type: 'energy_meter', properties: {}, commands: ['read_registers'], readOnly: false }
+    ];
+    expect(validateDeviceCommandParameters('read_registers', { address: 40001 }, meter).valid).toBe(true);
+    expect(validateDeviceCommandParameters('turn_on', {}, meter).errors).toEqual(["Command 'turn_on' is not supported by this device"]);
+  });
+});
+
+describe('validateDeviceCommand', () => {
+  test('checks the command structure before the catalog', () => {
+    expect(validateDeviceCommand({ ...command('turn_on'), deviceId: '' }).errors).toEqual(['Command must have a valid device ID']);
+    expect(validateDeviceCommand(command('turn_on', { channel: 2 }), dimmablePlug)).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  test('warns about commands outside the catalog', () => {
+    const result = validateDeviceCommand(command('set_dps', { dps: { 1: true } }));
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual(["Command 'set_dps' is not in the command catalog, parameters were not checked"]);
+  });
+});
@@ -2,7 +2,9 @@ import {
   DeviceCommand, 
   ProtocolType, 
   DeviceType, 
-  CapabilityType 
+  DeviceCapability,
+  isCatalogCommand,
+  validateDeviceCommandParameters
 } from '@maestro/shared/types';
 
 /**
@@ -70,6 +72,42 @@ export function validateDeviceId(deviceId: string, protocol: ProtocolType): Vali
       }
       break;
       
+    case 'local_network':
+      // Local Tuya devices keep their cloud device ID (gwId) so cloud and LAN control share it
+      if (!/^[a-zA-Z0-9]+$/.test(trimmedId)) {
+        result.errors.push('Local network device ID must be alphanumeric');
+        result.isValid = false;
+      }
+      if (trimmedId.length < 10) {
+        result.errors.push('Local network device ID must be at least 10 characters');
+        result.isValid = false;
+      }
+      break;
+      
+    case 'can_bus':
+      // CAN device IDs name a pack on an interface (e.g. "can0:pylontech", "rack-1")
+      if (!/^[a-zA-Z0-9_.:-]+$/.test(trimmedId)) {
+        result.errors.push('CAN device ID must contain only alphanumeric characters, underscores, hyphens, dots, and colons');
+        result.isValid = false;
+      }
+      break;
+      
+    case 'rest_api':
+      // REST device IDs are user-chosen names (e.g. "shelly-kitchen", "opendtu:1161")
+      if (!/^[a-zA-Z0-9_.:-]+$/.test(trimmedId)) {
+        result.errors.push('REST device ID must contain only alphanumeric characters, underscores, hyphens, dots, and colons');
+        result.isValid = false;
+      }
+      break;
+      
+    case 'simulator':
+      // Simulated device IDs are configured names (e.g. "sim-battery")
+      if (!/^[a-zA-Z0-9_.:-]+$/.test(trimmedId)) {
+        result.errors.push('Simulator device ID must contain only alphanumeric characters, underscores, hyphens, dots, and colons');
+        result.isValid = false;
+      }
+      break;
+      
     default:
       result.warnings.push(`Unknown protocol ${protocol}, using generic validation`);
       if (trimmedId.length > 100) {
@@ -81,12 +119,13 @@ export function validateDeviceId(deviceId: string, protocol: ProtocolType): Vali
 }
 
 /**
- * Validate device command structure and parameters
+ * Validate device command structure and parameters against the shared
+ * command catalog. With capabilities, the command must be supported by one of
+ * them and numeric parameters must lie within the capability range.
  */
 export function validateDeviceCommand(
   command: DeviceCommand,
-  supportedCommands: string[] = [],
-  deviceCapabilities: CapabilityType[] = []
+  capabilities?: DeviceCapability[]
 ): ValidationResult {
   const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
   
@@ -111,118 +150,12 @@ export function validateDeviceCommand(
     return result;
   }
   
-  // Command-specific validation
-  const cmd = command.command.toLowerCase();
-  
-  // Check if command is supported
-  if (supportedCommands.length > 0 && !supportedCommands.includes(cmd)) {
-    result.errors.push(`Command '${cmd}' is not supported. Supported commands: ${supportedCommands.join(', ')}`);
-    result.isValid = false;
-  }
-  
-  // Validate common commands
-  switch (cmd) {
-    case 'turn_on':
-    case 'turn_off':
-      if (!deviceCapabilities.includes('switch')) {
-        result.errors.push('Device does not support switch capability for on/off commands');
-        result.isValid = false;
-      }
-      if (command.parameters && Object.keys(command.parameters).length > 0) {
-        result.warnings.push('On/off commands typically do not require parameters');
-      }
-      break;
-      
-    case 'set_brightness':
-    case 'set_dimmer':
-      if (!deviceCapabilities.includes('dimmer')) {
-        result.errors.push('Device does not support dimmer capability');
-        result.isValid = false;
-      }
-      
-      const brightness = command.parameters?.brightness || command.parameters?.value;
-      if (brightness === undefined) {
-        result.errors.push('Brightness/dimmer commands require a brightness or value parameter');
-        result.isValid = false;
-      } else if (typeof brightness !== 'number' || brightness < 0 || brightness > 100) {
-        result.errors.push('Brightness value must be a number between 0 and 100');
-        result.isValid = false;
-      }
-      break;
-      
-    case 'set_temperature':
-      if (!deviceCapabilities.includes('thermostat')) {
-        result.errors.push('Device does not support thermostat capability');
-        result.isValid = false;
-      }
-      
-      const temperature = command.parameters?.temperature;
-      if (temperature === undefined) {
-        result.errors.push('Temperature commands require a temperature parameter');
-        result.isValid = false;
-      } else if (typeof temperature !== 'number') {
-        result.errors.push('Temperature must be a number');
-        result.isValid = false;
-      } else if (temperature < -50 || temperature > 100) {
-        result.warnings.push('Temperature value seems outside normal range (-50 to 100°C)');
-      }
-      break;
-      
-    case 'schedule':
-      if (!deviceCapabilities.includes('scheduler')) {
-        result.warnings.push('Device may not support scheduling capability');
-      }
-      
-      const schedule = command.parameters?.schedule;
-      if (!schedule) {
-        result.errors.push('Schedule commands require schedule parameters');
-        result.isValid = false;
-      } else {
-        const scheduleValidation = validateScheduleParameters(schedule);
-        result.errors.push(...scheduleValidation.errors);
-        result.warnings.push(...scheduleValidation.warnings);
-        if (!scheduleValidation.isValid) {
-          result.isValid = false;
-        }
-      }
-      break;
-  }
-  
-  return result;
-}
-
-/**
- * Validate schedule parameters
- */
-function validateScheduleParameters(schedule: any): ValidationResult {
-  const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+  const validation = validateDeviceCommandParameters(command.command, command.parameters, capabilities);
+  result.errors.push(...validation.errors);
+  result.isValid = validation.valid;
   
-  if (!schedule.startTime) {
-    result.errors.push('Schedule must have a start time');
-    result.isValid = false;
-  } else if (!/^\d{2}:\d{2}$/.test(schedule.startTime)) {
-    result.errors.push('Start time must be in HH:MM format');
-    result.isValid = false;
-  }
-  
-  if (schedule.endTime && !/^\d{2}:\d{2}$/.test(schedule.endTime)) {
-    result.errors.push('End time must be in HH:MM format');
-    result.isValid = false;
-  }
-  
-  if (schedule.daysOfWeek) {
-    if (!Array.isArray(schedule.daysOfWeek)) {
-      result.errors.push('Days of week must be an array');
-      result.isValid = false;
-    } else {
-      for (const day of schedule.daysOfWeek) {
-        if (typeof day !== 'number' || day < 0 || day > 6) {
-          result.errors.push('Days of week must be numbers between 0 (Sunday) and 6 (Saturday)');
-          result.isValid = false;
-          break;
-        }
-      }
-    }
+  if (!isCatalogCommand(command.command)) {
+    result.warnings.push(`Command '${command.command}' is not in the command catalog, parameters were not checked`);
   }
   
   return result;
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+
+/**
+ * Automation Rules
+ *
+ * A rule runs its actions when one of its triggers fires and its conditions
+ * hold. Devices are referenced by their `deviceId`. Triggers on values
+ * (threshold, price, solar surplus) fire when the value crosses into the
+ * range, not while it stays there. Times are wall-clock times in the rule's
+ * time zone.
+ */
+
+const TimeOfDay = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Must be in HH:MM format');
+const DaysOfWeek = z.array(z.number().int().min(0).max(6)); // 0 = Sunday
+
+// Triggers
+export const AutomationTriggerSchema = z.discriminatedUnion('type', [
+  // A state field, or 'status'/'isOnline', changes; optionally from/to a value
+  z.object({
+    type: z.literal('device_state'),
+    deviceId: z.string(),
+    field: z.string().optional(), // any state change without
+    from: z.any().optional(),
+    to: z.any().optional()
+  }),
+  // A numeric state or measurement field rises above and/or falls below a value
+  z.object({
+    type: z.literal('threshold'),
+    deviceId: z.string(),
+    field: z.string(), // e.g. activePower, temperature, batteryLevel
+    above: z.number().optional(),
+    below: z.number().optional()
+  }),
+  z.object({
+    type: z.literal('time'),
+    at: TimeOfDay,
+    daysOfWeek: DaysOfWeek.optional() // every day without
+  }),
+  z.object({
+    type: z.literal('sun'),
+    event: z.enum(['sunrise', 'sunset']),
+    offset: z.number().int().min(-720).max(720).default(0), // minutes
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    daysOfWeek: DaysOfWeek.optional()
+  }),
+  // The user's grid rate (currency per kWh, taxes included) drops below a price
+  z.object({
+    type: z.literal('price_below'),
+    price: z.number()
+  }),
+  // Production exceeds consumption by more than a power (W)
+  z.object({
+    type: z.literal('solar_surplus'),
+    above: z.number().nonnegative()
+  })
+]);
+
+export type AutomationTrigger = z.infer<typeof AutomationTriggerSchema>;
+export type AutomationTriggerType = AutomationTrigger['type'];
+
+// Conditions
+export const ComparisonOperator = z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte']);
+export type ComparisonOperator = z.infer<typeof ComparisonOperator>;
+
+export type AutomationCondition =
+  | { type: 'and'; conditions: AutomationCondition[] }
+  | { type: 'or'; conditions: AutomationCondition[] }
+  | { type: 'time_window'; after: string; before: string; daysOfWeek?: number[] | undefined } // before < after wraps midnight
+  | { type: 'device_state'; deviceId: string; field: string; operator: ComparisonOperator; value?: any };
+
+export const AutomationConditionSchema: z.ZodType<AutomationCondition> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({ type: z.literal('and'), conditions: z.array(AutomationConditionSchema).min(1) }),
+  z.object({ type: z.literal('or'), conditions: z.array(AutomationConditionSchema).min(1) }),
+  z.object({
+    type: z.literal('time_window'),
+    after: TimeOfDay,
+    before: TimeOfDay,
+    daysOfWeek: DaysOfWeek.optional()
+  }),
+  z.object({
+    type: z.literal('device_state'),
+    deviceId: z.string(),
+    field: z.string(), // state field, or 'status'/'isOnline'
+    operator: ComparisonOperator,
+    value: z.any()
+  })
+]));
+
+// Actions, run one after the other
+const CommandTarget = z.object({
+  deviceId: z.string(),
+  command: z.string(),
+  parameters: z.record(z.any()).default({})
+});
+
+export const AutomationActionSchema = z.discriminatedUnion('type', [
+  CommandTarget.extend({ type: z.literal('command') }),
+  z.object({
+    type: z.literal('notify'),
+    title: z.string().max(100).optional(), // default: the rule name
+    message: z.string().max(1000), // {{placeholders}} filled from the trigger
+    channels: z.array(z.enum(['push', 'email'])).min(1).default(['push']),
+    priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium')
+  }),
+  // Commands sent together
+  z.object({
+    type: z.literal('scene'),
+    name: z.string().max(100).optional(),
+    commands: z.array(CommandTarget).min(1)
+  }),
+  z.object({
+    type: z.literal('delay'),
+    seconds: z.number().int().min(1).max(3600)
+  })
+]);
+
+export type AutomationAction = z.infer<typeof AutomationActionSchema>;
+export type AutomationActionType = AutomationAction['type'];
+
+// Automation Rule Schema
+export const AutomationRuleSchema = z.object({
+  _id: z.string(),
+  userId: z.string(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  enabled: z.boolean().default(true),
+  timezone: z.string().default('UTC'),
+  triggers: z.array(AutomationTriggerSchema).min(1), // any of them
+  conditions: AutomationConditionSchema.optional(),
+  actions: z.array(AutomationActionSchema).min(1),
+  cooldown: z.number().int().min(0).default(60), // seconds between runs
+  trace: z.boolean().default(false), // also record evaluations that did not run
+  lastTriggeredAt: z.date().optional(),
+  runCount: z.number().default(0),
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+
+export type AutomationRule = z.infer<typeof AutomationRuleSchema>;
+
+// The fields users define
+export const AutomationRuleInputSchema = AutomationRuleSchema.pick({
+  name: true,
+  description: true,
+  enabled: true,
+  triggers: true,
+  conditions: true,
+  actions: true,
+  cooldown: true,
+  trace: true
+}).extend({
+  timezone: z.string().optional() // default: the user's time zone
+});
+
+export type AutomationRuleInput = z.input<typeof AutomationRuleInputSchema>;
+
+// Automation Run (trace) Schema
+export const AutomationTraceStepSchema = z.object({
+  kind: z.enum(['trigger', 'condition', 'action']),
+  description: z.string(),
+  result: z.enum(['passed', 'failed', 'executed', 'would_execute', 'skipped', 'error']),
+  details: z.record(z.any()).optional(),
+  at: z.date()
+});
+
+export type AutomationTraceStep = z.infer<typeof AutomationTraceStepSchema>;
+
+export const AutomationRunSchema = z.object({
+  _id: z.string(),
+  ruleId: z.string(),
+  userId: z.string(),
+  dryRun: z.boolean(),
+  trigger: z.object({
+    type: z.enum(['device_state', 'threshold', 'time', 'sun', 'price_below', 'solar_surplus', 'manual']),
+    index: z.number().optional(), // position in the rule's triggers
+    values: z.record(z.any()).default({}) // what fired it, e.g. deviceId, field, value
+  }),
+  status: z.enum(['completed', 'failed', 'conditions_not_met', 'cooldown', 'cancelled', 'running']), // running: waiting in a delay
+  steps: z.array(AutomationTraceStepSchema),
+  startedAt: z.date(),
+  finishedAt: z.date() // running: when the current delay ends
+});
+
+export type AutomationRun = z.infer<typeof AutomationRunSchema>;
+export type AutomationRunStatus = AutomationRun['status'];
@@ -24,7 +24,9 @@ export const ProtocolType = z.enum([
   'sunspec',           // Phase 2 (Solar)
   'can_bus',           // Phase 2 (Battery)
   'rest_api',          // Generic HTTP API
-  'local_network'      // Direct network communication
+  'local_network',     // Direct network communication
+  'simulator',         // Synthetic devices for demos and tests
+  'virtual'            // Virtual meters computed from other devices
 ]);
 
 export type ProtocolType = z.infer<typeof ProtocolType>;
@@ -99,6 +101,16 @@ export const CommandStatus = z.enum([
 
 export type CommandStatus = z.infer<typeof CommandStatus>;
 
+// Command Priority (queued commands run highest first)
+export const CommandPriority = z.enum([
+  'low',
+  'normal',
+  'high',
+  'critical'
+]);
+
+export type CommandPriority = z.infer<typeof CommandPriority>;
+
 // Device Status
 export const DeviceStatus = z.enum([
   'online',
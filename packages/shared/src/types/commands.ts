@@ -0,0 +1,333 @@
+import { z } from 'zod';
+import { CapabilityType } from './base';
+import type { DeviceCapability } from './device';
+
+/**
+ * Device Command Catalog
+ *
+ * Typed parameters for the commands devices understand, keyed by command and
+ * tied to the capability that provides them. The REST API, the websocket
+ * handler and the adapters validate against the same catalog; the frontend
+ * gets command and parameter autocomplete from its types.
+ *
+ * Parameter schemas pass unknown keys through, so adapter-specific extras
+ * (channel, dp, ...) keep working. Commands outside the catalog (raw protocol
+ * commands such as write_register or set_dps) are accepted with free-form
+ * parameters when a device capability lists them.
+ */
+
+export interface CommandDefinition {
+  capability: CapabilityType | null; // null: available on every device
+  description: string;
+  parameters: z.ZodTypeAny;
+  // Numeric parameters checked against DeviceCapability.range (first one present)
+  rangeParameters?: readonly string[];
+  defaultRange?: { min: number; max: number };
+}
+
+// Requires at least one of the given keys, for commands accepting aliases
+function oneOf(...keys: string[]): [(parameters: Record<string, any>) => boolean, { message: string }] {
+  return [
+    parameters => keys.some(key => parameters[key] !== undefined),
+    { message: `Requires ${keys.join(' or ')}` }
+  ];
+}
+
+const ChannelParameters = z.object({
+  channel: z.number().int().min(0).optional()
+}).passthrough();
+
+const NoParameters = z.object({}).passthrough();
+
+const TimeOfDay = z.string().regex(/^\d{2}:\d{2}$/, 'Must be in HH:MM format');
+
+export const ScheduleParametersSchema = z.object({
+  startTime: TimeOfDay,
+  endTime: TimeOfDay.optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional() // 0 = Sunday
+}).passthrough();
+
+const ScheduleCommandParameters = z.object({
+  schedule: ScheduleParametersSchema
+}).passthrough();
+
+const PowerParameters = z.object({
+  power: z.number().optional(), // Watts
+  value: z.number().optional()
+}).passthrough().refine(...oneOf('power', 'value'));
+
+const PercentParameters = z.object({
+  percent: z.number().optional(),
+  value: z.number().optional()
+}).passthrough().refine(...oneOf('percent', 'value'));
+
+export const CommandCatalog = {
+  // Generic
+  get_status: {
+    capability: null,
+    description: 'Read the current device state',
+    parameters: NoParameters
+  },
+
+  // Switch
+  turn_on: {
+    capability: 'switch',
+    description: 'Switch on',
+    parameters: ChannelParameters
+  },
+  turn_off: {
+    capability: 'switch',
+    description: 'Switch off',
+    parameters: ChannelParameters
+  },
+  toggle: {
+    capability: 'switch',
+    description: 'Invert the switch state',
+    parameters: ChannelParameters
+  },
+
+  // Dimmer
+  set_brightness: {
+    capability: 'dimmer',
+    description: 'Set brightness in percent',
+    parameters: z.object({
+      brightness: z.number().optional(),
+      value: z.number().optional()
+    }).passthrough().refine(...oneOf('brightness', 'value')),
+    rangeParameters: ['brightness', 'value'],
+    defaultRange: { min: 0, max: 100 }
+  },
+
+  // Color
+  set_color: {
+    capability: 'color',
+    description: 'Set hue (0-360°) and saturation (0-100 %)',
+    parameters: z.object({
+      hue: z.number().min(0).max(360),
+      saturation: z.number().min(0).max(100),
+      brightness: z.number().min(0).max(100).optional()
+    }).passthrough()
+  },
+
+  // Thermostat
+  set_temperature: {
+    capability: 'thermostat',
+    description: 'Set the target temperature in °C',
+    parameters: z.object({
+      temperature: z.number()
+    }).passthrough(),
+    rangeParameters: ['temperature'],
+    defaultRange: { min: -50, max: 100 }
+  },
+
+  // Energy meter
+  get_power: {
+    capability: 'energy_meter',
+    description: 'Read the current power',
+    parameters: NoParameters
+  },
+  get_energy_data: {
+    capability: 'energy_meter',
+    description: 'Read accumulated energy',
+    parameters: NoParameters
+  },
+  reset_energy_stats: {
+    capability: 'energy_meter',
+    description: 'Reset accumulated energy counters',
+    parameters: NoParameters
+  },
+
+  // Scheduler
+  set_schedule: {
+    capability: 'scheduler',
+    description: 'Store an on-device schedule',
+    parameters: ScheduleCommandParameters
+  },
+  schedule: {
+    capability: 'scheduler',
+    description: 'Store an on-device schedule (alias of set_schedule)',
+    parameters: ScheduleCommandParameters
+  },
+  get_schedule: {
+    capability: 'scheduler',
+    description: 'Read the on-device schedule',
+    parameters: NoParameters
+  },
+  clear_schedule: {
+    capability: 'scheduler',
+    description: 'Remove the on-device schedule',
+    parameters: NoParameters
+  },
+
+  // Power control
+  set_power_limit: {
+    capability: 'power_control',
+    description: 'Limit the output, in the unit of the capability (% or W)',
+    parameters: z.object({
+      percent: z.number().optional(),
+      limit: z.number().optional(),
+      value: z.number().optional()
+    }).passthrough().refine(...oneOf('percent', 'limit', 'value')),
+    rangeParameters: ['percent', 'limit', 'value']
+  },
+
+  // Energy storage
+  set_mode: {
+    capability: 'energy_storage',
+    description: 'Select the battery operating mode',
+    parameters: z.object({
+      mode: z.enum(['auto', 'charge', 'discharge', 'idle']).optional(),
+      value: z.enum(['auto', 'charge', 'discharge', 'idle']).optional()
+    }).passthrough().refine(...oneOf('mode', 'value'))
+  },
+  set_charge_power: {
+    capability: 'energy_storage',
+    description: 'Charge (positive) or discharge (negative) at a fixed power in W',
+    parameters: PowerParameters
+  },
+  set_charge_limit: {
+    capability: 'energy_storage',
+    description: 'Maximum charge power in W',
+    parameters: PowerParameters
+  },
+  set_discharge_limit: {
+    capability: 'energy_storage',
+    description: 'Maximum discharge power in W',
+    parameters: PowerParameters
+  },
+  set_reserve: {
+    capability: 'energy_storage',
+    description: 'State of charge kept in reserve, in percent',
+    parameters: PercentParameters,
+    rangeParameters: ['percent', 'value'],
+    defaultRange: { min: 0, max: 100 }
+  },
+  force_charge: {
+    capability: 'energy_storage',
+    description: 'Charge at maximum power regardless of mode',
+    parameters: NoParameters
+  },
+  force_discharge: {
+    capability: 'energy_storage',
+    description: 'Discharge at maximum power regardless of mode',
+    parameters: NoParameters
+  }
+} satisfies Record<string, CommandDefinition>;
+
+export type CommandName = keyof typeof CommandCatalog;
+
+/**
+ * Parameters of a catalog command; free-form for commands outside the catalog
+ */
+export type CommandParameters<C extends string> = C extends CommandName
+  ? z.input<(typeof CommandCatalog)[C]['parameters']>
+  : Record<string, any>;
+
+export interface CommandValidationResult {
+  valid: boolean;
+  errors: string[];
+  parameters: Record<string, any>; // parsed parameters when valid
+}
+
+export function isCatalogCommand(command: string): command is CommandName {
+  return Object.prototype.hasOwnProperty.call(CommandCatalog, command);
+}
+
+export function getCommandDefinition(command: string): CommandDefinition | undefined {
+  return isCatalogCommand(command) ? CommandCatalog[command] : undefined;
+}
+
+/**
+ * Capabilities in the form the catalog reads; capabilities stored as bare type
+ * names become writable capabilities without listed commands. Unknown type
+ * names are dropped, as no command belongs to them.
+ */
+export function normalizeCapabilities(capabilities: ReadonlyArray<DeviceCapability | string> = []): DeviceCapability[] {
+  return capabilities.flatMap((capability): DeviceCapability[] => {
+    if (typeof capability !== 'string') {
+      return [capability];
+    }
+    const type = CapabilityType.safeParse(capability);
+    return type.success ? [{ type: type.data, properties: {}, commands: [], readOnly: false }] : [];
+  });
+}
+
+/**
+ * Commands a device supports: those its capabilities list, the catalog
+ * commands of writable capabilities that list none, and the generic ones
+ */
+export function getSupportedCommands(capabilities: DeviceCapability[]): string[] {
+  const commands = new Set<string>(
+    Object.entries(CommandCatalog as Record<string, CommandDefinition>)
+      .filter(([, definition]) => definition.capability === null)
+      .map(([name]) => name)
+  );
+
+  for (const capability of capabilities) {
+    const listed = capability.commands.length > 0
+      ? capability.commands
+      : capability.readOnly ? [] : catalogCommandsFor(capability.type);
+    listed.forEach(command => commands.add(command));
+  }
+
+  return Array.from(commands);
+}
+
+/**
+ * Validate a command against the catalog and the device capabilities.
+ * Without capabilities only the parameters are checked.
+ */
+export function validateDeviceCommandParameters(
+  command: string,
+  parameters: Record<string, any> = {},
+  capabilities?: DeviceCapability[]
+): CommandValidationResult {
+  const definition = getCommandDefinition(command);
+  const errors: string[] = [];
+
+  let capability: DeviceCapability | undefined;
+  if (capabilities) {
+    if (!getSupportedCommands(capabilities).includes(command)) {
+      return { valid: false, errors: [`Command '${command}' is not supported by this device`], parameters };
+    }
+    capability = capabilities.find(cap => cap.commands.includes(command))
+      || capabilities.find(cap => cap.type === definition?.capability);
+  }
+
+  if (!definition) {
+    return { valid: true, errors, parameters };
+  }
+
+  const parsed = definition.parameters.safeParse(parameters);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.join('.');
+      errors.push(path ? `${path}: ${issue.message}` : issue.message);
+    }
+    return { valid: false, errors, parameters };
+  }
+
+  const range = capability?.range || definition.defaultRange;
+  const key = definition.rangeParameters?.find(name => typeof parsed.data[name] === 'number');
+  if (range && key) {
+    const value: number = parsed.data[key];
+    if (value < range.min || value > range.max) {
+      errors.push(`${key} must be between ${range.min} and ${range.max}`);
+    } else if (capability?.range?.step && !isOnStep(value, range.min, capability.range.step)) {
+      errors.push(`${key} must be a multiple of ${capability.range.step} from ${range.min}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, parameters: parsed.data };
+}
+
+function catalogCommandsFor(type: CapabilityType): string[] {
+  return Object.entries(CommandCatalog as Record<string, CommandDefinition>)
+    .filter(([, definition]) => definition.capability === type)
+    .map(([name]) => name);
+}
+
+function isOnStep(value: number, min: number, step: number): boolean {
+  const steps = (value - min) / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
@@ -7,7 +7,8 @@ import {
   CapabilityType, 
   DeviceStatus,
   EnergyUnit,
-  RecurrencePattern
+  RecurrencePattern,
+  CommandPriority
 } from './base';
 
 // Device Capability Schema
@@ -26,6 +27,51 @@ export const DeviceCapabilitySchema = z.object({
 
 export type DeviceCapability = z.infer<typeof DeviceCapabilitySchema>;
 
+// REST Device Profile Schemas (declarative HTTP integrations: Shelly, Tasmota, OpenDTU, ...)
+
+// State field mapping: a JSON path, or a path with value translation/scaling
+export const RestStateMappingSchema = z.union([
+  z.string().min(1),
+  z.object({
+    path: z.string().min(1),
+    values: z.record(z.any()).optional(), // e.g. { ON: true, OFF: false }
+    scale: z.number().optional()
+  })
+]);
+
+export type RestStateMapping = z.infer<typeof RestStateMappingSchema>;
+
+// HTTP request template; {{...}} placeholders are rendered against the command context
+export const RestRequestTemplateSchema = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET'),
+  path: z.string().min(1), // relative to the device base URL
+  query: z.record(z.string()).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.any().optional(), // string or object template
+  bodyType: z.enum(['json', 'form', 'text']).default('json')
+});
+
+export type RestRequestTemplate = z.infer<typeof RestRequestTemplateSchema>;
+
+export const RestDeviceProfileSchema = z.object({
+  name: z.string().min(1),
+  manufacturer: z.string(),
+  model: z.string(),
+  deviceType: DeviceType,
+  variables: z.record(z.any()).default({}), // defaults for {{vars.x}}, overridable per device
+  status: RestRequestTemplateSchema.extend({
+    mappings: z.record(RestStateMappingSchema), // state key → mapping
+    onlinePath: z.string().optional() // device reports reachability itself (e.g. behind a gateway)
+  }),
+  commands: z.record(RestRequestTemplateSchema.extend({
+    refresh: z.boolean().default(true) // re-read status after the command
+  })).default({}),
+  capabilities: z.array(DeviceCapabilitySchema).default([])
+});
+
+export type RestDeviceProfile = z.infer<typeof RestDeviceProfileSchema>;
+export type RestDeviceProfileInput = z.input<typeof RestDeviceProfileSchema>;
+
 // Device Specifications Schema
 export const DeviceSpecificationsSchema = z.object({
   manufacturer: z.string(),
@@ -42,6 +88,21 @@ export const DeviceSpecificationsSchema = z.object({
 
 export type DeviceSpecifications = z.infer<typeof DeviceSpecificationsSchema>;
 
+// What to do with runs missed while the scheduler was down: drop them, run
+// only the latest, or run each of them in order
+export const ScheduleCatchUp = z.enum(['skip', 'once', 'all']);
+export type ScheduleCatchUp = z.infer<typeof ScheduleCatchUp>;
+
+export const ScheduleRunSchema = z.object({
+  at: z.date(),
+  action: z.enum(['start', 'end']),
+  success: z.boolean(),
+  error: z.string().optional(),
+  missed: z.number().optional() // Occurrences dropped by the catch-up policy
+});
+
+export type ScheduleRun = z.infer<typeof ScheduleRunSchema>;
+
 // Schedule Configuration Schema
 export const ScheduleSchema = z.object({
   id: z.string(),
@@ -56,6 +117,10 @@ export const ScheduleSchema = z.object({
   timezone: z.string().default('UTC'),
   validFrom: z.date().optional(),
   validUntil: z.date().optional(),
+  catchUp: ScheduleCatchUp.optional(), // Missed runs policy, server default when unset
+  // Maintained by the scheduler
+  nextRunAt: z.date().nullable().optional(), // null once no runs are left
+  lastRun: ScheduleRunSchema.optional(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -107,6 +172,12 @@ export const DeviceSchema = z.object({
   // Energy classification (Phase 2)
   energyRole: EnergyRole.optional(),
   
+  // Sub-metering: the meter this device is measured behind, and the formula of a virtual meter
+  parentMeterId: z.string().optional(),
+  virtualMeter: z.object({
+    formula: z.string()
+  }).optional(),
+  
   // Physical properties
   name: z.string(),
   description: z.string().optional(),
@@ -150,7 +221,10 @@ export const DeviceCommandSchema = z.object({
   deviceId: z.string(),
   command: z.string(),
   parameters: z.record(z.any()).default({}),
-  timestamp: z.date().default(() => new Date())
+  timestamp: z.date().default(() => new Date()),
+  priority: CommandPriority.optional(), // default: normal
+  scheduledAt: z.date().optional(), // not sent before this time
+  ttl: z.number().int().nonnegative().optional() // ms a queued command may wait, e.g. for an offline device
 });
 
 export type DeviceCommand = z.infer<typeof DeviceCommandSchema>;
@@ -270,9 +270,18 @@ export const EnergyReportSchema = z.object({
     totalSavings: z.number().optional(), // Currency
     totalCarbon: z.number(), // kg CO2
     averageEfficiency: z.number().optional(), // 0-1
-    systemUptime: z.number() // 0-1
+    systemUptime: z.number(), // 0-1
+    previousConsumption: z.number().optional() // kWh in the period before
   }),
   
+  // Consumption over the period, per hour, day or month, for charts
+  series: z.array(z.object({
+    start: z.date(),
+    consumption: z.number(), // kWh
+    production: z.number().optional(), // kWh
+    cost: z.number().optional() // Currency
+  })).default([]),
+  
   deviceBreakdown: z.array(z.object({
     deviceId: z.string(),
     deviceName: z.string(),
@@ -291,12 +300,18 @@ export const EnergyReportSchema = z.object({
   })),
   
   // Metadata
+  currency: z.string().default('EUR'),
+  timeZone: z.string().default('UTC'),
+  scheduled: z.boolean().default(false), // built by the report schedule
   generatedAt: z.date(),
+  emailedAt: z.date().optional(),
   format: z.enum(['json', 'pdf', 'csv']).default('json'),
   size: z.number().optional() // Report size in bytes
 });
 
 export type EnergyReport = z.infer<typeof EnergyReportSchema>;
+export type EnergyReportType = EnergyReport['reportType'];
+export type EnergyReportFormat = EnergyReport['format'];
 
 // Helper types for specific energy contexts
 
@@ -317,6 +332,44 @@ export interface EnergyDashboardData {
   solarProduction?: number; // Current solar production (W)
 }
 
+// Measurement resolution of energy series queries
+export type EnergyResolution = 'raw' | 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+// One device and interval of a downsampled energy series
+export interface EnergySeriesPoint {
+  deviceId: string;
+  timestamp: Date; // Interval start (raw: measurement time)
+  avgPower?: number; // W
+  maxPower?: number; // W
+  minPower?: number; // W
+  energyConsumed: number; // kWh
+  energyProduced: number; // kWh
+  dataPoints: number;
+}
+
+// Device attribute energy stats are grouped by
+export type EnergyStatsGroupBy = 'device' | 'room' | 'location' | 'floor' | 'deviceType';
+
+// Energy stats of a device, a device group or all devices ('all') for one period
+export interface EnergyStatsSummary {
+  group: string; // Device ID, group value or 'all'
+  period: EnergyStats['period'];
+  periodStart: Date;
+  periodEnd: Date;
+  deviceIds: string[];
+  consumption: number; // kWh
+  production: number; // kWh
+  averagePower: number; // W
+  peakPower: number; // W (groups: sum of device peaks)
+  peakTime?: Date;
+  cost?: number; // Currency
+  carbon?: number; // kg CO2
+  avoidedCarbon?: number; // kg CO2 avoided by self-consumed production
+  previousPeriod?: number; // Previous period's consumption (kWh)
+  uptime: number; // 0-1
+  dataQuality: number; // 0-1
+}
+
 // Energy optimization recommendation
 export interface OptimizationRecommendation {
   deviceId: string;
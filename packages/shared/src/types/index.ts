@@ -9,9 +9,15 @@ export * from './user';
 // Device types
 export * from './device';
 
+// Device command catalog
+export * from './commands';
+
 // Energy types (Phase 2)
 export * from './energy';
 
+// Automation rules
+export * from './automation';
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;